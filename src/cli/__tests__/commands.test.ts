@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { db, Priority } from '@allpepper/task-orchestrator';
+import { runMigrations } from '@allpepper/task-orchestrator/src/db/migrate';
+import * as projects from '@allpepper/task-orchestrator/src/repos/projects';
+import * as tasks from '@allpepper/task-orchestrator/src/repos/tasks';
+import { DirectAdapter } from '../../ui/adapters/direct';
+import { isCliCommand, runCommand, type CliCommand, type CliOptions } from '../commands';
+
+function clearTables() {
+  db.run('DELETE FROM entity_tags');
+  db.run('DELETE FROM sections');
+  db.run('DELETE FROM tasks');
+  db.run('DELETE FROM features');
+  db.run('DELETE FROM projects');
+}
+
+beforeAll(() => {
+  runMigrations();
+});
+
+beforeEach(clearTables);
+afterAll(clearTables);
+
+function createTask(title: string, projectId?: string) {
+  const result = tasks.createTask({ projectId, title, summary: `${title} summary`, priority: Priority.HIGH, complexity: 3 });
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+async function run(command: CliCommand, positionals: string[] = [], options: CliOptions = {}) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const exitCode = await runCommand(new DirectAdapter(), command, positionals, options, {
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+  });
+  return { exitCode, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+}
+
+describe('CLI commands', () => {
+  it('recognises subcommands only', () => {
+    expect(isCliCommand('list')).toBe(true);
+    expect(isCliCommand('--server')).toBe(false);
+    expect(isCliCommand(undefined)).toBe(false);
+  });
+
+  it('lists tasks as a table', async () => {
+    const task = createTask('Write docs');
+
+    const { exitCode, stdout } = await run('list', ['tasks']);
+    expect(exitCode).toBe(0);
+    expect(stdout.split('\n')[0]).toMatch(/^ID\s+STATUS\s+PRIORITY\s+CX\s+TITLE$/);
+    expect(stdout).toContain(`${task.id}  NEW`);
+    expect(stdout).toContain('Write docs');
+  });
+
+  it('filters tasks by project and prints JSON', async () => {
+    const project = projects.createProject({ name: 'CLI', summary: 'Project' });
+    if (!project.success) throw new Error(project.error);
+    createTask('In project', project.data.id);
+    createTask('Elsewhere');
+
+    const { exitCode, stdout } = await run('list', ['tasks'], { json: true, project: project.data.id });
+    expect(exitCode).toBe(0);
+    const listed = JSON.parse(stdout) as Array<{ title: string }>;
+    expect(listed.map((task) => task.title)).toEqual(['In project']);
+  });
+
+  it('rejects unknown list kinds', async () => {
+    const { exitCode, stderr } = await run('list', ['widgets']);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain('Usage: tasks list');
+  });
+
+  it('shows a task with its details', async () => {
+    const task = createTask('Inspect me');
+
+    const { exitCode, stdout } = await run('show', [task.id]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('Task:');
+    expect(stdout).toContain('Inspect me');
+    expect(stdout).toContain('Inspect me summary');
+  });
+
+  it('reports unknown ids as NOT_FOUND in JSON mode', async () => {
+    const { exitCode, stdout } = await run('show', ['missing'], { json: true });
+    expect(exitCode).toBe(1);
+    expect(JSON.parse(stdout)).toMatchObject({ success: false, code: 'NOT_FOUND' });
+  });
+
+  it('advances a task through the pipeline', async () => {
+    const task = createTask('Ship it');
+
+    const { exitCode, stdout } = await run('advance', [task.id]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe('Ship it: NEW → ACTIVE');
+
+    const reloaded = await new DirectAdapter().getTask(task.id);
+    expect(reloaded.success && reloaded.data.status).toBe('ACTIVE');
+  });
+
+  it('prints the next task or a notice when none is ready', async () => {
+    expect((await run('next')).stdout).toBe('No task is ready to start');
+
+    createTask('Pick me');
+    const { stdout } = await run('next', [], { json: true });
+    expect((JSON.parse(stdout) as { title: string }).title).toBe('Pick me');
+  });
+
+  it('lists blocked tasks', async () => {
+    const blocker = createTask('Blocker');
+    const blocked = createTask('Waiting');
+    await new DirectAdapter().addBlocker('task', blocked.id, blocker.id, blocked.version);
+
+    const { stdout } = await run('blocked');
+    expect(stdout).toContain('Waiting');
+    expect(stdout).not.toContain('Blocker');
+  });
+
+  it('searches across entities', async () => {
+    createTask('Searchable widget');
+
+    const { exitCode, stdout } = await run('search', ['widget']);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('Tasks');
+    expect(stdout).toContain('Searchable widget');
+  });
+
+  it('exports a project as Markdown to stdout', async () => {
+    const project = projects.createProject({ name: 'Quarterly', summary: 'Project' });
+    if (!project.success) throw new Error(project.error);
+    createTask('Report me', project.data.id);
+
+    const { exitCode, stdout } = await run('export', [project.data.id]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('# Quarterly — Status report');
+    expect(stdout).toContain('**Report me**');
+  });
+
+  it('exports filtered tasks as CSV', async () => {
+    createTask('Listed');
+
+    const { stdout } = await run('export', [], { format: 'csv', status: 'NEW' });
+    expect(stdout.split('\r\n')[0]).toStartWith('id,title,status');
+    expect(stdout).toContain(',Listed,NEW,');
+  });
+
+  it('rejects unknown export formats', async () => {
+    const { exitCode, stderr } = await run('export', [], { format: 'pdf' });
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain('Invalid --format: pdf');
+  });
+
+  it('previews an import with --dry-run, then creates it', async () => {
+    const project = projects.createProject({ name: 'Imported', summary: 'Project' });
+    if (!project.success) throw new Error(project.error);
+    const dir = mkdtempSync(join(tmpdir(), 'tasks-cli-import-'));
+    const file = join(dir, 'backlog.csv');
+    writeFileSync(file, 'title,priority\nFirst,HIGH\nSecond,LOW\n');
+
+    try {
+      const preview = await run('import', [file], { project: project.data.id, dryRun: true });
+      expect(preview.exitCode).toBe(0);
+      expect(preview.stdout).toContain('Would create 2 tasks:');
+      expect((await run('list', ['tasks'], { project: project.data.id })).stdout).toBe('No tasks found');
+
+      const { exitCode, stdout } = await run('import', [file], { project: project.data.id });
+      expect(exitCode).toBe(0);
+      expect(stdout).toBe('Imported 2 tasks');
+      expect((await run('list', ['tasks'], { project: project.data.id })).stdout).toContain('Second');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('requires an import target', async () => {
+    const { exitCode, stderr } = await run('import', ['backlog.md']);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain('Usage: tasks import');
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'bun:test';
+import { formatDetails, formatTable } from '../format';
+
+describe('formatTable', () => {
+  it('pads every column but the last to its widest cell', () => {
+    expect(formatTable(['ID', 'NAME'], [['1', 'Alpha'], ['22', 'Beta']])).toBe('ID  NAME\n1   Alpha\n22  Beta');
+  });
+
+  it('prints only the header for no rows', () => {
+    expect(formatTable(['ID', 'NAME'], [])).toBe('ID  NAME');
+  });
+});
+
+describe('formatDetails', () => {
+  it('aligns labels and skips empty values', () => {
+    expect(formatDetails([['Status', 'NEW'], ['Tags', ''], ['ID', 'abc']])).toBe('Status:  NEW\nID:      abc');
+  });
+});
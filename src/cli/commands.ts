@@ -0,0 +1,454 @@
+/**
+ * Non-interactive subcommands
+ *
+ * Every command goes through a DataAdapter, so they behave the same against
+ * the local database and a `tasks serve` instance. Handlers return a Result
+ * carrying both the raw data (printed for `--json`) and a human rendering.
+ */
+
+import type { Task, Feature, Project, Section, EntityType } from '@allpepper/task-orchestrator';
+import type { DataAdapter, NextTaskStrategy, Result } from '../ui/adapters/types';
+import type { DependencyInfo } from '../ui/lib/types';
+import {
+  collectExport,
+  parseExportFormat,
+  renderExport,
+  writeExport,
+  EXPORT_FORMATS,
+  type ExportScope,
+} from '../ui/export';
+import {
+  applyImport,
+  describeImport,
+  outlinePlan,
+  parseImportFormat,
+  planForTarget,
+  readImport,
+  summarizePlan,
+  IMPORT_FORMATS,
+  type ImportTarget,
+} from '../ui/import';
+import { formatDetails, formatTable } from './format';
+
+export const CLI_COMMANDS = [
+  'list',
+  'show',
+  'advance',
+  'revert',
+  'terminate',
+  'next',
+  'blocked',
+  'search',
+  'export',
+  'import',
+] as const;
+
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+export function isCliCommand(value: string | undefined): value is CliCommand {
+  return (CLI_COMMANDS as readonly string[]).includes(value ?? '');
+}
+
+export interface CliOptions {
+  json?: boolean;
+  project?: string;
+  feature?: string;
+  status?: string;
+  limit?: number;
+  strategy?: NextTaskStrategy;
+  format?: string;
+  output?: string;
+  dryRun?: boolean;
+}
+
+export interface CliOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+interface CommandOutput {
+  data: unknown;
+  text: string;
+}
+
+type CommandHandler = (
+  adapter: DataAdapter,
+  positionals: string[],
+  options: CliOptions
+) => Promise<Result<CommandOutput>>;
+
+export type ShownEntity =
+  | { type: 'project'; entity: Project; sections: Section[] }
+  | { type: 'feature'; entity: Feature; sections: Section[] }
+  | { type: 'task'; entity: Task; sections: Section[]; dependencies: DependencyInfo | null };
+
+const LIST_KINDS = ['projects', 'features', 'tasks'] as const;
+
+function usageError(message: string): Result<never> {
+  return { success: false, error: message, code: 'VALIDATION_ERROR' };
+}
+
+function taskTable(tasks: Task[]): string {
+  return formatTable(
+    ['ID', 'STATUS', 'PRIORITY', 'CX', 'TITLE'],
+    tasks.map((task) => [task.id, task.status, task.priority, String(task.complexity), task.title])
+  );
+}
+
+function featureTable(features: Feature[]): string {
+  return formatTable(
+    ['ID', 'STATUS', 'PRIORITY', 'NAME'],
+    features.map((feature) => [feature.id, feature.status, feature.priority, feature.name])
+  );
+}
+
+function projectTable(projects: Project[]): string {
+  return formatTable(
+    ['ID', 'NAME', 'SUMMARY'],
+    projects.map((project) => [project.id, project.name, project.summary])
+  );
+}
+
+function listOutput<T>(items: T[], noun: string, table: (items: T[]) => string): CommandOutput {
+  return { data: items, text: items.length === 0 ? `No ${noun} found` : table(items) };
+}
+
+/**
+ * Find a task or feature by ID; pipeline commands accept either
+ */
+async function resolveContainer(
+  adapter: DataAdapter,
+  id: string
+): Promise<Result<{ containerType: 'task' | 'feature'; entity: Task | Feature }>> {
+  const taskResult = await adapter.getTask(id);
+  if (taskResult.success) {
+    return { success: true, data: { containerType: 'task', entity: taskResult.data } };
+  }
+
+  const featureResult = await adapter.getFeature(id);
+  if (featureResult.success) {
+    return { success: true, data: { containerType: 'feature', entity: featureResult.data } };
+  }
+
+  return { success: false, error: `No task or feature with id ${id}`, code: 'NOT_FOUND' };
+}
+
+async function resolveEntity(adapter: DataAdapter, id: string): Promise<Result<ShownEntity>> {
+  const taskResult = await adapter.getTask(id);
+  if (taskResult.success) {
+    const [sectionsResult, dependenciesResult] = await Promise.all([
+      adapter.getSections('TASK' as EntityType, id),
+      adapter.getDependencies(id),
+    ]);
+    return {
+      success: true,
+      data: {
+        type: 'task',
+        entity: taskResult.data,
+        sections: sectionsResult.success ? sectionsResult.data : [],
+        dependencies: dependenciesResult.success ? dependenciesResult.data : null,
+      },
+    };
+  }
+
+  const featureResult = await adapter.getFeature(id);
+  if (featureResult.success) {
+    const sectionsResult = await adapter.getSections('FEATURE' as EntityType, id);
+    return {
+      success: true,
+      data: { type: 'feature', entity: featureResult.data, sections: sectionsResult.success ? sectionsResult.data : [] },
+    };
+  }
+
+  const projectResult = await adapter.getProject(id);
+  if (projectResult.success) {
+    const sectionsResult = await adapter.getSections('PROJECT' as EntityType, id);
+    return {
+      success: true,
+      data: { type: 'project', entity: projectResult.data, sections: sectionsResult.success ? sectionsResult.data : [] },
+    };
+  }
+
+  return { success: false, error: `No project, feature or task with id ${id}`, code: 'NOT_FOUND' };
+}
+
+/**
+ * `export <id>` exports a project or feature; without an ID the task filters
+ * select the tasks to export
+ */
+async function resolveExportScope(
+  adapter: DataAdapter,
+  id: string | undefined,
+  options: CliOptions
+): Promise<Result<ExportScope>> {
+  if (!id) {
+    return {
+      success: true,
+      data: {
+        type: 'tasks',
+        params: { projectId: options.project, featureId: options.feature, status: options.status, limit: options.limit },
+      },
+    };
+  }
+
+  const projectResult = await adapter.getProject(id);
+  if (projectResult.success) return { success: true, data: { type: 'project', id } };
+
+  const featureResult = await adapter.getFeature(id);
+  if (featureResult.success) return { success: true, data: { type: 'feature', id } };
+
+  return { success: false, error: `No project or feature with id ${id}`, code: 'NOT_FOUND' };
+}
+
+/**
+ * `import` lands in --feature (and its project) or in --project
+ */
+async function resolveImportTarget(adapter: DataAdapter, options: CliOptions): Promise<Result<ImportTarget>> {
+  if (options.feature) {
+    const featureResult = await adapter.getFeature(options.feature);
+    if (!featureResult.success) return featureResult;
+    return { success: true, data: { projectId: featureResult.data.projectId, featureId: featureResult.data.id } };
+  }
+  if (!options.project) return usageError('Usage: tasks import <file> --project <id> | --feature <id>');
+
+  const projectResult = await adapter.getProject(options.project);
+  return projectResult.success ? { success: true, data: { projectId: projectResult.data.id } } : projectResult;
+}
+
+function renderShown(shown: ShownEntity): string {
+  const tags = shown.entity.tags?.join(', ');
+  let header: string;
+
+  if (shown.type === 'project') {
+    header = formatDetails([
+      ['Project', shown.entity.name],
+      ['ID', shown.entity.id],
+      ['Tags', tags],
+      ['Modified', shown.entity.modifiedAt.toISOString()],
+    ]);
+  } else if (shown.type === 'feature') {
+    header = formatDetails([
+      ['Feature', shown.entity.name],
+      ['ID', shown.entity.id],
+      ['Status', shown.entity.status],
+      ['Priority', shown.entity.priority],
+      ['Project', shown.entity.projectId],
+      ['Blocked by', shown.entity.blockedBy.join(', ')],
+      ['Tags', tags],
+      ['Modified', shown.entity.modifiedAt.toISOString()],
+    ]);
+  } else {
+    header = formatDetails([
+      ['Task', shown.entity.title],
+      ['ID', shown.entity.id],
+      ['Status', shown.entity.status],
+      ['Priority', shown.entity.priority],
+      ['Complexity', String(shown.entity.complexity)],
+      ['Project', shown.entity.projectId],
+      ['Feature', shown.entity.featureId],
+      ['Blocked by', shown.dependencies?.blockedBy.map((task) => task.title).join(', ')],
+      ['Blocks', shown.dependencies?.blocks.map((task) => task.title).join(', ')],
+      ['Tags', tags],
+      ['Modified', shown.entity.modifiedAt.toISOString()],
+    ]);
+  }
+
+  const blocks = [header, shown.entity.summary];
+  if (shown.entity.description) blocks.push(shown.entity.description);
+  for (const section of shown.sections) {
+    blocks.push(`## ${section.title}\n${section.content}`);
+  }
+  return blocks.filter(Boolean).join('\n\n');
+}
+
+function transitionCommand(action: 'advance' | 'revert' | 'terminate'): CommandHandler {
+  return async (adapter, [id]) => {
+    if (!id) return usageError(`Usage: tasks ${action} <id>`);
+
+    const resolved = await resolveContainer(adapter, id);
+    if (!resolved.success) return resolved;
+
+    const { containerType, entity } = resolved.data;
+    const result = await adapter[action](containerType, entity.id, entity.version);
+    if (!result.success) return result;
+
+    const label = 'title' in result.data.entity ? result.data.entity.title : result.data.entity.name;
+    return {
+      success: true,
+      data: {
+        data: result.data,
+        text: `${label}: ${result.data.oldStatus} → ${result.data.newStatus}`,
+      },
+    };
+  };
+}
+
+const COMMANDS: Record<CliCommand, CommandHandler> = {
+  async list(adapter, [kind], options) {
+    if (!kind || !(LIST_KINDS as readonly string[]).includes(kind)) {
+      return usageError(`Usage: tasks list ${LIST_KINDS.join('|')}`);
+    }
+
+    if (kind === 'projects') {
+      const result = await adapter.getProjects({ limit: options.limit });
+      return result.success ? { success: true, data: listOutput(result.data, 'projects', projectTable) } : result;
+    }
+
+    if (kind === 'features') {
+      const result = await adapter.getFeatures({
+        projectId: options.project,
+        status: options.status,
+        limit: options.limit,
+      });
+      return result.success ? { success: true, data: listOutput(result.data, 'features', featureTable) } : result;
+    }
+
+    const result = await adapter.getTasks({
+      projectId: options.project,
+      featureId: options.feature,
+      status: options.status,
+      limit: options.limit,
+    });
+    return result.success ? { success: true, data: listOutput(result.data, 'tasks', taskTable) } : result;
+  },
+
+  async show(adapter, [id]) {
+    if (!id) return usageError('Usage: tasks show <id>');
+
+    const result = await resolveEntity(adapter, id);
+    return result.success ? { success: true, data: { data: result.data, text: renderShown(result.data) } } : result;
+  },
+
+  advance: transitionCommand('advance'),
+  revert: transitionCommand('revert'),
+  terminate: transitionCommand('terminate'),
+
+  async next(adapter, _positionals, options) {
+    const result = await adapter.getNextTask({ projectId: options.project, strategy: options.strategy });
+    if (!result.success) return result;
+
+    return {
+      success: true,
+      data: {
+        data: result.data,
+        text: result.data ? taskTable([result.data]) : 'No task is ready to start',
+      },
+    };
+  },
+
+  async blocked(adapter, _positionals, options) {
+    const result = await adapter.getBlockedTasks({ projectId: options.project });
+    return result.success ? { success: true, data: listOutput(result.data, 'blocked tasks', taskTable) } : result;
+  },
+
+  async search(adapter, positionals, options) {
+    const query = positionals.join(' ').trim();
+    if (!query) return usageError('Usage: tasks search <query>');
+
+    const result = await adapter.search(query, { limit: options.limit });
+    if (!result.success) return result;
+
+    const { projects, features, tasks } = result.data;
+    const groups: string[] = [];
+    if (projects.length > 0) {
+      groups.push(`Projects\n${formatTable(['ID', 'NAME'], projects.map((project) => [project.id, project.name]))}`);
+    }
+    if (features.length > 0) {
+      groups.push(`Features\n${formatTable(['ID', 'NAME'], features.map((feature) => [feature.id, feature.name]))}`);
+    }
+    if (tasks.length > 0) {
+      groups.push(`Tasks\n${formatTable(['ID', 'TITLE'], tasks.map((task) => [task.id, task.title]))}`);
+    }
+
+    return {
+      success: true,
+      data: { data: result.data, text: groups.length > 0 ? groups.join('\n\n') : `No matches for "${query}"` },
+    };
+  },
+
+  async export(adapter, [id], options) {
+    const format = parseExportFormat(options.format ?? 'markdown');
+    if (!format) return usageError(`Invalid --format: ${options.format} (expected ${EXPORT_FORMATS.join(', ')})`);
+
+    const scope = await resolveExportScope(adapter, id, options);
+    if (!scope.success) return scope;
+
+    const bundle = await collectExport(adapter, scope.data);
+    if (!bundle.success) return bundle;
+
+    // Without --output the document itself is the output
+    if (!options.output) {
+      const content = renderExport(bundle.data, format);
+      return { success: true, data: { data: { format, path: null, content }, text: content.trimEnd() } };
+    }
+
+    const written = await writeExport(bundle.data, format, options.output);
+    if (!written.success) return written;
+    return {
+      success: true,
+      data: {
+        data: { format, path: written.data, content: null },
+        text: `Exported ${bundle.data.title} (${bundle.data.tasks.length} tasks) to ${written.data}`,
+      },
+    };
+  },
+
+  async import(adapter, [file], options) {
+    if (!file) return usageError('Usage: tasks import <file> --project <id> | --feature <id> [--dry-run]');
+    const format = options.format ? parseImportFormat(options.format) : undefined;
+    if (format === null) return usageError(`Invalid --format: ${options.format} (expected ${IMPORT_FORMATS.join(', ')})`);
+
+    const target = await resolveImportTarget(adapter, options);
+    if (!target.success) return target;
+
+    const parsed = await readImport(file, format);
+    if (!parsed.success) return parsed;
+    const plan = planForTarget(parsed.data, target.data);
+
+    if (options.dryRun) {
+      const summary = summarizePlan(plan);
+      const text = [
+        `Would create ${describeImport(summary)}:`,
+        ...outlinePlan(plan),
+        ...plan.warnings.map((warning) => `warning: ${warning}`),
+      ].join('\n');
+      return { success: true, data: { data: { dryRun: true, summary, plan }, text } };
+    }
+
+    const result = await applyImport(adapter, plan, target.data);
+    if (!result.success) return result;
+    return {
+      success: true,
+      data: {
+        data: { dryRun: false, summary: result.data, warnings: plan.warnings },
+        text: [`Imported ${describeImport(result.data)}`, ...plan.warnings.map((warning) => `warning: ${warning}`)].join('\n'),
+      },
+    };
+  },
+};
+
+/**
+ * Run a subcommand and print its result; returns the process exit code
+ *
+ * With `--json`, failures are printed to stdout as the Result envelope so
+ * scripts can read `code` without parsing stderr.
+ */
+export async function runCommand(
+  adapter: DataAdapter,
+  command: CliCommand,
+  positionals: string[],
+  options: CliOptions,
+  output: CliOutput
+): Promise<number> {
+  const result = await COMMANDS[command](adapter, positionals, options);
+
+  if (options.json) {
+    output.stdout(JSON.stringify(result.success ? result.data.data : result, null, 2));
+  } else if (result.success) {
+    output.stdout(result.data.text);
+  } else {
+    output.stderr(result.error);
+  }
+
+  return result.success ? 0 : 1;
+}
@@ -0,0 +1,33 @@
+/**
+ * Adapter selection shared by the TUI and the CLI subcommands
+ */
+
+import { SERVER_TOKEN_ENV, SERVER_URL_ENV } from '../ui/adapters/http-protocol';
+import type { DataAdapter } from '../ui/adapters/types';
+
+export interface ConnectOptions {
+  /** Base URL of a `tasks serve` instance; falls back to TASKS_SERVER_URL */
+  server?: string;
+  /** Bearer token for the server; falls back to TASKS_SERVER_TOKEN */
+  token?: string;
+}
+
+/**
+ * Use the remote server when one is configured, otherwise open the local database
+ */
+export async function connectAdapter({ server, token }: ConnectOptions = {}): Promise<DataAdapter> {
+  const serverUrl = server ?? process.env[SERVER_URL_ENV];
+
+  if (serverUrl) {
+    // Remote mode: the server owns the database, nothing to bootstrap locally
+    const { HttpAdapter } = await import('../ui/adapters/http');
+    return new HttpAdapter(serverUrl, { token: token ?? process.env[SERVER_TOKEN_ENV] });
+  }
+
+  const [{ bootstrap }, { DirectAdapter }] = await Promise.all([
+    import('@allpepper/task-orchestrator'),
+    import('../ui/adapters/direct'),
+  ]);
+  bootstrap();
+  return new DirectAdapter();
+}
@@ -0,0 +1,36 @@
+/**
+ * Plain-text formatting for CLI output
+ *
+ * Output stays free of colour and box drawing so it can be piped into grep,
+ * awk or cut; use `--json` for anything more structured.
+ */
+
+/**
+ * Align rows under a header, two spaces between columns
+ * @example formatTable(['ID', 'NAME'], [['1', 'Alpha']]) // "ID  NAME\n1   Alpha"
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => (row[column] ?? '').length))
+  );
+
+  return [headers, ...rows]
+    .map((row) =>
+      headers
+        .map((_, column) => (row[column] ?? '').padEnd(widths[column] ?? 0))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+/**
+ * Align `label: value` pairs, skipping empty values
+ * @example formatDetails([['Status', 'NEW'], ['Tags', '']]) // "Status:  NEW"
+ */
+export function formatDetails(fields: Array<[string, string | undefined]>): string {
+  const present = fields.filter((field): field is [string, string] => !!field[1]);
+  const width = Math.max(0, ...present.map(([label]) => label.length + 1));
+
+  return present.map(([label, value]) => `${`${label}:`.padEnd(width)}  ${value}`).join('\n');
+}
@@ -0,0 +1,96 @@
+/**
+ * `tasks <command>` - scriptable access to the orchestrator
+ */
+
+import { parseArgs } from 'node:util';
+import { connectAdapter } from './connect';
+import { runCommand, type CliCommand, type CliOutput } from './commands';
+
+export { CLI_COMMANDS, isCliCommand, runCommand, type CliCommand, type CliOptions, type CliOutput } from './commands';
+export { connectAdapter, type ConnectOptions } from './connect';
+export { formatTable, formatDetails } from './format';
+
+export const CLI_USAGE = `Usage: tasks [command] [options]
+
+Without a command, opens the interactive TUI.
+
+Commands:
+  open <id>                      Open the TUI at a project, feature or task (full ID or unique prefix)
+  list projects|features|tasks   List entities (--project, --feature, --status, --limit)
+  show <id>                      Show a project, feature or task with its sections
+  advance <id>                   Move a task or feature to its next status
+  revert <id>                    Move a task or feature back one status
+  terminate <id>                 Close a task or feature without completing it
+  next                           Show the next task to work on (--project, --strategy priority|impact)
+  blocked                        List blocked tasks (--project)
+  search <query>                 Search projects, features and tasks (--limit); filters: status:, priority:,
+                                 tag:, project:, blocked:yes|no, complexity:>5, type:task|feature|project
+  export [id]                    Export a project, feature or the filtered tasks
+                                 (--format markdown|json|csv|html, --output <file>)
+  import <file>                  Create features and tasks from a Markdown checklist, CSV or JSON export
+                                 (--project <id> or --feature <id>, --format, --dry-run)
+  serve                          Start the JSON API server (--port, --host, --token)
+
+Options:
+  --json                         Print machine-readable JSON
+  --server <url>                 Use a tasks serve instance instead of the local database
+  --token <token>                Bearer token for --server
+  --fresh                        Start the TUI without restoring the last session`;
+
+const processOutput: CliOutput = {
+  stdout: (text) => console.log(text),
+  stderr: (text) => console.error(text),
+};
+
+/**
+ * Parse subcommand arguments, run the command and return the exit code
+ */
+export async function runCli(command: CliCommand, args: string[], output: CliOutput = processOutput): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean' },
+        server: { type: 'string' },
+        token: { type: 'string' },
+        project: { type: 'string' },
+        feature: { type: 'string' },
+        status: { type: 'string' },
+        limit: { type: 'string' },
+        strategy: { type: 'string' },
+        format: { type: 'string' },
+        output: { type: 'string', short: 'o' },
+        'dry-run': { type: 'boolean' },
+      },
+    });
+  } catch (error) {
+    output.stderr(`${error instanceof Error ? error.message : error}\n\n${CLI_USAGE}`);
+    return 1;
+  }
+
+  const { values, positionals } = parsed;
+  const limit = values.limit === undefined ? undefined : Number(values.limit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    output.stderr(`Invalid --limit: ${values.limit}`);
+    return 1;
+  }
+  if (values.strategy !== undefined && values.strategy !== 'priority' && values.strategy !== 'impact') {
+    output.stderr(`Invalid --strategy: ${values.strategy} (expected priority or impact)`);
+    return 1;
+  }
+
+  const adapter = await connectAdapter({ server: values.server, token: values.token });
+  return runCommand(adapter, command, positionals, {
+    json: values.json,
+    project: values.project,
+    feature: values.feature,
+    status: values.status?.toUpperCase(),
+    limit,
+    strategy: values.strategy,
+    format: values.format,
+    output: values.output,
+    dryRun: values['dry-run'],
+  }, output);
+}
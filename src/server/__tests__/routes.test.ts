@@ -0,0 +1,142 @@
+import { describe, it, expect, mock } from 'bun:test';
+import type { DataAdapter } from '../../ui/adapters/types';
+import { createApiHandler } from '../routes';
+
+function makeAdapter(overrides: Partial<DataAdapter> = {}): DataAdapter {
+  return overrides as DataAdapter;
+}
+
+async function call(handler: (request: Request) => Promise<Response>, method: string, path: string, body?: unknown) {
+  const response = await handler(
+    new Request(`http://localhost${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+  );
+  return { status: response.status, body: (await response.json()) as { success: boolean; error?: string; code?: string } };
+}
+
+describe('createApiHandler', () => {
+  it('should route container operations with the version from the body', async () => {
+    const advance = mock(async () => ({ success: false as const, error: 'stale', code: 'CONFLICT' }));
+    const handler = createApiHandler(makeAdapter({ advance }));
+
+    const result = await call(handler, 'POST', '/api/features/f1/advance', { version: 3 });
+    expect(advance).toHaveBeenCalledWith('feature', 'f1', 3);
+    expect(result.status).toBe(409);
+    expect(result.body).toEqual({ success: false, error: 'stale', code: 'CONFLICT' });
+  });
+
+  it('should decode search params for list endpoints', async () => {
+    const getTasks = mock(async () => ({ success: true as const, data: [] }));
+    const handler = createApiHandler(makeAdapter({ getTasks }));
+
+    const result = await call(handler, 'GET', '/api/tasks?projectId=p1&limit=1000');
+    expect(result.status).toBe(200);
+    expect(getTasks).toHaveBeenCalledWith({ projectId: 'p1', limit: 1000 });
+  });
+
+  it('should take the version from the query string on deletes', async () => {
+    const removeBlocker = mock(async () => ({ success: true as const, data: {} as never }));
+    const handler = createApiHandler(makeAdapter({ removeBlocker }));
+
+    await call(handler, 'DELETE', '/api/tasks/t1/blockers/t2?version=4');
+    expect(removeBlocker).toHaveBeenCalledWith('task', 't1', 't2', 4);
+  });
+
+  it('should reject unknown routes and invalid JSON', async () => {
+    const handler = createApiHandler(makeAdapter());
+
+    const unknown = await call(handler, 'GET', '/api/widgets');
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.code).toBe('NOT_FOUND');
+
+    const response = await handler(
+      new Request('http://localhost/api/tasks', { method: 'POST', body: '{not json' })
+    );
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as { code?: string }).code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should validate request bodies before calling the adapter', async () => {
+    const updateTask = mock(async () => ({ success: true as const, data: {} as never }));
+    const handler = createApiHandler(makeAdapter({ updateTask }));
+
+    const invalid = await call(handler, 'PATCH', '/api/tasks/t1', { title: 42, priority: 'URGENT', version: '2' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toEqual({
+      success: false,
+      error: 'title: expected a string; priority: expected one of HIGH, MEDIUM, LOW; version: expected a whole number',
+      code: 'VALIDATION_ERROR',
+    });
+
+    const notObject = await call(handler, 'PATCH', '/api/tasks/t1', ['title']);
+    expect(notObject.body.code).toBe('VALIDATION_ERROR');
+    expect(updateTask).not.toHaveBeenCalled();
+
+    await call(handler, 'PATCH', '/api/tasks/t1', { title: 'Renamed', status: 'CLOSED', version: 2 });
+    expect(updateTask).toHaveBeenCalledWith('t1', { title: 'Renamed', version: 2 });
+  });
+
+  it('should reject malformed percent-escapes in the path', async () => {
+    const getTask = mock(async () => ({ success: true as const, data: {} as never }));
+    const handler = createApiHandler(makeAdapter({ getTask }));
+
+    const result = await call(handler, 'GET', '/api/tasks/%E0%A4%A');
+    expect(result.status).toBe(400);
+    expect(result.body.code).toBe('VALIDATION_ERROR');
+    expect(getTask).not.toHaveBeenCalled();
+  });
+
+  it('should reject a malformed change cursor', async () => {
+    const getChanges = mock(async () => ({ success: true as const, data: { cursor: {}, changes: [] } }));
+    const handler = createApiHandler(makeAdapter({ getChanges }));
+
+    for (const since of ['{not json', '[]', '{"task":{"count":"1"}}', '{"widget":{"count":1,"versionSum":1,"modifiedAt":""}}']) {
+      const result = await call(handler, 'GET', `/api/changes?since=${encodeURIComponent(since)}`);
+      expect(result.status).toBe(400);
+      expect(result.body.code).toBe('VALIDATION_ERROR');
+    }
+    expect(getChanges).not.toHaveBeenCalled();
+
+    const cursor = { task: { count: 1, versionSum: 2, modifiedAt: '2026-01-01T00:00:00.000Z' } };
+    await call(handler, 'GET', `/api/changes?since=${encodeURIComponent(JSON.stringify(cursor))}`);
+    expect(getChanges).toHaveBeenCalledWith(cursor);
+  });
+
+  it('should refuse undo restores on a server without a token', async () => {
+    const restoreSnapshot = mock(async () => ({ success: true as const, data: true }));
+    const open = createApiHandler(makeAdapter({ restoreSnapshot }));
+
+    const denied = await call(open, 'POST', '/api/snapshots', { entityType: 'task', id: 't1', rows: {} });
+    expect(denied.status).toBe(403);
+    expect(denied.body.code).toBe('FORBIDDEN');
+    expect(restoreSnapshot).not.toHaveBeenCalled();
+
+    const guarded = createApiHandler(makeAdapter({ restoreSnapshot }), { token: 'secret' });
+    const response = await guarded(
+      new Request('http://localhost/api/snapshots', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer secret' },
+        body: JSON.stringify({ entityType: 'task', id: 't1', rows: {} }),
+      })
+    );
+    expect(response.status).toBe(200);
+    expect(restoreSnapshot).toHaveBeenCalled();
+  });
+
+  it('should require the token when one is configured', async () => {
+    const getProjects = mock(async () => ({ success: true as const, data: [] }));
+    const handler = createApiHandler(makeAdapter({ getProjects }), { token: 'secret' });
+
+    const denied = await call(handler, 'GET', '/api/projects');
+    expect(denied.status).toBe(401);
+    expect(getProjects).not.toHaveBeenCalled();
+
+    const allowed = await handler(
+      new Request('http://localhost/api/projects', { headers: { Authorization: 'Bearer secret' } })
+    );
+    expect(allowed.status).toBe(200);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Task Orchestrator API server
+ *
+ * Exposes a DataAdapter (normally a DirectAdapter over the local SQLite
+ * database) as the JSON API consumed by HttpAdapter.
+ */
+
+import { parseArgs } from 'node:util';
+import type { DataAdapter } from '../ui/adapters/types';
+import {
+  API_PREFIX,
+  DEFAULT_SERVER_HOST,
+  DEFAULT_SERVER_PORT,
+  SERVER_TOKEN_ENV,
+} from '../ui/adapters/http-protocol';
+import { createApiHandler } from './routes';
+
+export { createApiHandler, type ApiHandlerOptions } from './routes';
+
+export interface StartServerOptions {
+  adapter: DataAdapter;
+  /** Adapter for writes made under a client's own actor name */
+  adapterFor?: (actor: string) => DataAdapter;
+  port?: number;
+  hostname?: string;
+  token?: string;
+}
+
+/**
+ * Start serving the API; call `stop()` on the returned server to shut down
+ */
+export function startServer({
+  adapter,
+  adapterFor,
+  port = DEFAULT_SERVER_PORT,
+  hostname = DEFAULT_SERVER_HOST,
+  token,
+}: StartServerOptions) {
+  return Bun.serve({
+    port,
+    hostname,
+    fetch: createApiHandler(adapter, { token, adapterFor }),
+  });
+}
+
+/**
+ * `tasks serve [--port N] [--host H] [--token T]`
+ */
+export async function runServe(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      port: { type: 'string', short: 'p' },
+      host: { type: 'string' },
+      token: { type: 'string' },
+    },
+  });
+
+  const port = values.port ? Number(values.port) : DEFAULT_SERVER_PORT;
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new Error(`Invalid port: ${values.port}`);
+  }
+
+  const [{ bootstrap }, { DirectAdapter }] = await Promise.all([
+    import('@allpepper/task-orchestrator'),
+    import('../ui/adapters/direct'),
+  ]);
+  bootstrap();
+
+  const token = values.token ?? process.env[SERVER_TOKEN_ENV];
+  const server = startServer({
+    adapter: new DirectAdapter(),
+    adapterFor: (actor) => new DirectAdapter({ actor }),
+    port,
+    hostname: values.host ?? DEFAULT_SERVER_HOST,
+    token,
+  });
+
+  console.log(`Task Orchestrator API listening on ${server.url.origin}${API_PREFIX}`);
+  if (!token) {
+    console.log(`No token set; anyone who can reach this address can edit tasks (see --token or ${SERVER_TOKEN_ENV}).`);
+  }
+}
@@ -0,0 +1,581 @@
+/**
+ * JSON API routes
+ *
+ * Maps REST endpoints onto DataAdapter methods. Handlers return the adapter's
+ * Result<T> untouched so clients see the same `code` values (CONFLICT,
+ * BLOCKED, INVALID_OPERATION, ...) as in-process callers.
+ */
+
+import { ContentFormat, EntityType, Priority } from '@allpepper/task-orchestrator';
+import type {
+  DataAdapter,
+  Result,
+  NextTaskStrategy,
+  ChangeEntityType,
+  ChangeCursor,
+  EntitySnapshot,
+  TaggedEntityType,
+} from '../ui/adapters/types';
+import {
+  ACTOR_HEADER,
+  API_PREFIX,
+  decodeSearchParams,
+  statusForCode,
+} from '../ui/adapters/http-protocol';
+
+type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  /** Parsed JSON body of POST and PATCH requests; checked with withBody */
+  body: unknown;
+}
+
+interface Route {
+  method: HttpMethod;
+  pattern: string;
+  /** Writes raw rows or statuses (undo); only served when the server has a token */
+  restricted?: boolean;
+  handle: (adapter: DataAdapter, context: RouteContext) => Promise<Result<unknown>>;
+}
+
+export interface ApiHandlerOptions {
+  /** When set, requests must send `Authorization: Bearer <token>` */
+  token?: string;
+  /**
+   * Adapter that records writes under the actor a client names in its
+   * X-Tasks-Actor header; without it every write is logged as the server's
+   */
+  adapterFor?: (actor: string) => DataAdapter;
+}
+
+const CONTAINERS = { tasks: 'task', features: 'feature' } as const;
+
+function containerOf(params: Record<string, string>): 'task' | 'feature' {
+  return CONTAINERS[params.container as keyof typeof CONTAINERS];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function versionOf(context: RouteContext): number {
+  const fromBody = isRecord(context.body) ? context.body.version : undefined;
+  return Number(fromBody ?? context.query.get('version'));
+}
+
+type FieldType = 'string' | 'integer' | 'string[]' | 'object';
+
+interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+  /** Allowed values of a string field */
+  values?: readonly string[];
+}
+
+/** One spec per field of the adapter parameter the body becomes */
+type BodySchema<T> = { [K in keyof T]-?: FieldSpec };
+
+function fieldProblem(value: unknown, spec: FieldSpec): string | null {
+  switch (spec.type) {
+    case 'string':
+      if (typeof value !== 'string') return 'expected a string';
+      return spec.values && !spec.values.includes(value) ? `expected one of ${spec.values.join(', ')}` : null;
+    case 'integer':
+      return Number.isInteger(value) ? null : 'expected a whole number';
+    case 'string[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string') ? null : 'expected a list of strings';
+    case 'object':
+      return isRecord(value) ? null : 'expected an object';
+  }
+}
+
+/**
+ * Check a request body against the schema and run the handler with the known
+ * fields only; anything else is dropped. Missing optional fields and nulls
+ * are passed through for the adapter to handle.
+ */
+async function withBody<T, R>(
+  body: unknown,
+  schema: BodySchema<T>,
+  run: (body: T) => Promise<Result<R>>
+): Promise<Result<R>> {
+  if (!isRecord(body)) {
+    return { success: false, error: 'Request body must be a JSON object', code: 'VALIDATION_ERROR' };
+  }
+  const fields: Record<string, unknown> = {};
+  const problems: string[] = [];
+  for (const [field, spec] of Object.entries(schema) as Array<[string, FieldSpec]>) {
+    const value = body[field];
+    if (value === undefined || value === null) {
+      if (spec.required) problems.push(`${field}: missing`);
+      else if (value === null) fields[field] = null;
+      continue;
+    }
+    const problem = fieldProblem(value, spec);
+    if (problem) problems.push(`${field}: ${problem}`);
+    else fields[field] = value;
+  }
+  if (problems.length > 0) {
+    return { success: false, error: problems.join('; '), code: 'VALIDATION_ERROR' };
+  }
+  return run(fields as T);
+}
+
+const CHANGE_ENTITY_TYPES: readonly string[] = ['project', 'feature', 'task', 'section'] satisfies ChangeEntityType[];
+
+/**
+ * The `since` query of /changes: a cursor from an earlier response, as JSON
+ */
+function parseCursor(text: string): ChangeCursor | null {
+  let cursor: unknown;
+  try {
+    cursor = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isRecord(cursor)) return null;
+  const valid = Object.entries(cursor).every(
+    ([type, mark]) =>
+      CHANGE_ENTITY_TYPES.includes(type) &&
+      isRecord(mark) &&
+      Number.isInteger(mark.count) &&
+      Number.isInteger(mark.versionSum) &&
+      typeof mark.modifiedAt === 'string'
+  );
+  return valid ? (cursor as ChangeCursor) : null;
+}
+
+/** First parameter of an adapter method */
+type Params<K extends keyof DataAdapter> = DataAdapter[K] extends (...args: infer A) => unknown ? A[0] : never;
+/** Parameter after the id of an adapter update method */
+type UpdateParams<K extends keyof DataAdapter> = DataAdapter[K] extends (id: string, params: infer P) => unknown ? P : never;
+
+const PRIORITIES = Object.values(Priority);
+const TAGS: FieldSpec = { type: 'string[]' };
+const VERSION: FieldSpec = { type: 'integer', required: true };
+
+const CREATE_PROJECT: BodySchema<Params<'createProject'>> = {
+  name: { type: 'string', required: true },
+  summary: { type: 'string', required: true },
+  description: { type: 'string' },
+  tags: TAGS,
+};
+const UPDATE_PROJECT: BodySchema<UpdateParams<'updateProject'>> = {
+  name: { type: 'string' },
+  summary: { type: 'string' },
+  description: { type: 'string' },
+  tags: TAGS,
+  version: VERSION,
+};
+const CREATE_FEATURE: BodySchema<Params<'createFeature'>> = {
+  projectId: { type: 'string' },
+  name: { type: 'string', required: true },
+  summary: { type: 'string', required: true },
+  description: { type: 'string' },
+  priority: { type: 'string', required: true, values: PRIORITIES },
+  tags: TAGS,
+};
+const UPDATE_FEATURE: BodySchema<UpdateParams<'updateFeature'>> = {
+  name: { type: 'string' },
+  summary: { type: 'string' },
+  description: { type: 'string' },
+  priority: { type: 'string', values: PRIORITIES },
+  projectId: { type: 'string' },
+  tags: TAGS,
+  version: VERSION,
+};
+const CREATE_TASK: BodySchema<Params<'createTask'>> = {
+  featureId: { type: 'string' },
+  title: { type: 'string', required: true },
+  summary: { type: 'string', required: true },
+  description: { type: 'string' },
+  priority: { type: 'string', required: true, values: PRIORITIES },
+  complexity: { type: 'integer', required: true },
+  tags: TAGS,
+};
+const UPDATE_TASK: BodySchema<UpdateParams<'updateTask'>> = {
+  title: { type: 'string' },
+  summary: { type: 'string' },
+  description: { type: 'string' },
+  priority: { type: 'string', values: PRIORITIES },
+  complexity: { type: 'integer' },
+  projectId: { type: 'string' },
+  featureId: { type: 'string' },
+  lastModifiedBy: { type: 'string' },
+  tags: TAGS,
+  version: VERSION,
+};
+const CREATE_SECTION: BodySchema<Params<'createSection'>> = {
+  entityType: { type: 'string', required: true, values: Object.values(EntityType) },
+  entityId: { type: 'string', required: true },
+  title: { type: 'string', required: true },
+  usageDescription: { type: 'string' },
+  content: { type: 'string', required: true },
+  contentFormat: { type: 'string', values: Object.values(ContentFormat) },
+  ordinal: { type: 'integer' },
+};
+const UPDATE_SECTION: BodySchema<UpdateParams<'updateSection'>> = {
+  title: { type: 'string' },
+  usageDescription: { type: 'string' },
+  content: { type: 'string' },
+  contentFormat: { type: 'string', values: Object.values(ContentFormat) },
+  version: VERSION,
+};
+const REORDER_SECTIONS: BodySchema<{ entityType: EntityType; entityId: string; orderedIds: string[] }> = {
+  entityType: { type: 'string', required: true, values: Object.values(EntityType) },
+  entityId: { type: 'string', required: true },
+  orderedIds: { type: 'string[]', required: true },
+};
+const VERSION_ONLY: BodySchema<{ version: number }> = { version: VERSION };
+const ADD_BLOCKER: BodySchema<{ blockerId: string; version: number }> = {
+  blockerId: { type: 'string', required: true },
+  version: VERSION,
+};
+const ADD_RELATED: BodySchema<{ relatedId: string; version: number }> = {
+  relatedId: { type: 'string', required: true },
+  version: VERSION,
+};
+const RENAME_TAG: BodySchema<{ from: string; to: string }> = {
+  from: { type: 'string', required: true },
+  to: { type: 'string', required: true },
+};
+const RESTORE_STATUS: BodySchema<{ status: string; version: number }> = {
+  status: { type: 'string', required: true },
+  version: VERSION,
+};
+const SNAPSHOT: BodySchema<EntitySnapshot> = {
+  entityType: { type: 'string', required: true, values: ['project', 'feature', 'task', 'section'] },
+  id: { type: 'string', required: true },
+  rows: { type: 'object', required: true },
+};
+
+/**
+ * Route table. `:container` matches `tasks` or `features`.
+ */
+const ROUTES: Route[] = [
+  // Projects
+  { method: 'GET', pattern: '/projects', handle: (a, c) => a.getProjects(decodeSearchParams(c.query)) },
+  {
+    method: 'POST',
+    pattern: '/projects',
+    handle: (a, c) => withBody(c.body, CREATE_PROJECT, (body) => a.createProject(body)),
+  },
+  { method: 'GET', pattern: '/projects/:id', handle: (a, c) => a.getProject(c.params.id!) },
+  { method: 'GET', pattern: '/projects/:id/overview', handle: (a, c) => a.getProjectOverview(c.params.id!) },
+  {
+    method: 'PATCH',
+    pattern: '/projects/:id',
+    handle: (a, c) => withBody(c.body, UPDATE_PROJECT, (body) => a.updateProject(c.params.id!, body)),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/projects/:id',
+    handle: (a, c) => a.deleteProject(c.params.id!, { cascade: c.query.get('cascade') === 'true' }),
+  },
+
+  // Features
+  { method: 'GET', pattern: '/features', handle: (a, c) => a.getFeatures(decodeSearchParams(c.query)) },
+  {
+    method: 'POST',
+    pattern: '/features',
+    handle: (a, c) => withBody(c.body, CREATE_FEATURE, (body) => a.createFeature(body)),
+  },
+  { method: 'GET', pattern: '/features/:id', handle: (a, c) => a.getFeature(c.params.id!) },
+  { method: 'GET', pattern: '/features/:id/overview', handle: (a, c) => a.getFeatureOverview(c.params.id!) },
+  {
+    method: 'PATCH',
+    pattern: '/features/:id',
+    handle: (a, c) => withBody(c.body, UPDATE_FEATURE, (body) => a.updateFeature(c.params.id!, body)),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/features/:id',
+    handle: (a, c) => a.deleteFeature(c.params.id!, { cascade: c.query.get('cascade') === 'true' }),
+  },
+
+  // Tasks
+  { method: 'GET', pattern: '/tasks', handle: (a, c) => a.getTasks(decodeSearchParams(c.query)) },
+  {
+    method: 'POST',
+    pattern: '/tasks',
+    handle: (a, c) => withBody(c.body, CREATE_TASK, (body) => a.createTask(body)),
+  },
+  { method: 'GET', pattern: '/tasks/:id', handle: (a, c) => a.getTask(c.params.id!) },
+  {
+    method: 'PATCH',
+    pattern: '/tasks/:id',
+    handle: (a, c) => withBody(c.body, UPDATE_TASK, (body) => a.updateTask(c.params.id!, body)),
+  },
+  { method: 'DELETE', pattern: '/tasks/:id', handle: (a, c) => a.deleteTask(c.params.id!) },
+  { method: 'GET', pattern: '/tasks/:id/dependencies', handle: (a, c) => a.getDependencies(c.params.id!) },
+
+  // Pipeline operations
+  {
+    method: 'POST',
+    pattern: '/:container/:id/advance',
+    handle: (a, c) => withBody(c.body, VERSION_ONLY, (body) => a.advance(containerOf(c.params), c.params.id!, body.version)),
+  },
+  {
+    method: 'POST',
+    pattern: '/:container/:id/revert',
+    handle: (a, c) => withBody(c.body, VERSION_ONLY, (body) => a.revert(containerOf(c.params), c.params.id!, body.version)),
+  },
+  {
+    method: 'POST',
+    pattern: '/:container/:id/terminate',
+    handle: (a, c) =>
+      withBody(c.body, VERSION_ONLY, (body) => a.terminate(containerOf(c.params), c.params.id!, body.version)),
+  },
+  {
+    method: 'GET',
+    pattern: '/:container/:id/workflow',
+    handle: (a, c) => a.getWorkflowState(containerOf(c.params), c.params.id!),
+  },
+  {
+    method: 'GET',
+    pattern: '/transitions/:containerType/:status',
+    handle: (a, c) => a.getAllowedTransitions(c.params.containerType!, c.params.status!),
+  },
+
+  // Sections
+  {
+    method: 'GET',
+    pattern: '/sections',
+    handle: (a, c) => a.getSections(c.query.get('entityType') as EntityType, c.query.get('entityId') ?? ''),
+  },
+  {
+    method: 'POST',
+    pattern: '/sections',
+    handle: (a, c) => withBody(c.body, CREATE_SECTION, (body) => a.createSection(body)),
+  },
+  {
+    method: 'POST',
+    pattern: '/sections/reorder',
+    handle: (a, c) =>
+      withBody(c.body, REORDER_SECTIONS, (body) => a.reorderSections(body.entityType, body.entityId, body.orderedIds)),
+  },
+  {
+    method: 'PATCH',
+    pattern: '/sections/:id',
+    handle: (a, c) => withBody(c.body, UPDATE_SECTION, (body) => a.updateSection(c.params.id!, body)),
+  },
+  { method: 'DELETE', pattern: '/sections/:id', handle: (a, c) => a.deleteSection(c.params.id!) },
+
+  // Dependencies
+  {
+    method: 'POST',
+    pattern: '/:container/:id/blockers',
+    handle: (a, c) =>
+      withBody(c.body, ADD_BLOCKER, (body) => a.addBlocker(containerOf(c.params), c.params.id!, body.blockerId, body.version)),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/:container/:id/blockers/:otherId',
+    handle: (a, c) => a.removeBlocker(containerOf(c.params), c.params.id!, c.params.otherId!, versionOf(c)),
+  },
+  {
+    method: 'POST',
+    pattern: '/:container/:id/related',
+    handle: (a, c) =>
+      withBody(c.body, ADD_RELATED, (body) => a.addRelated(containerOf(c.params), c.params.id!, body.relatedId, body.version)),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/:container/:id/related/:otherId',
+    handle: (a, c) => a.removeRelated(containerOf(c.params), c.params.id!, c.params.otherId!, versionOf(c)),
+  },
+  {
+    method: 'GET',
+    pattern: '/blocked-tasks',
+    handle: (a, c) => a.getBlockedTasks({ projectId: c.query.get('projectId') ?? undefined }),
+  },
+  {
+    method: 'GET',
+    pattern: '/next-task',
+    handle: (a, c) =>
+      a.getNextTask({
+        projectId: c.query.get('projectId') ?? undefined,
+        strategy: (c.query.get('strategy') ?? undefined) as NextTaskStrategy | undefined,
+      }),
+  },
+
+  // Search
+  {
+    method: 'GET',
+    pattern: '/search',
+    handle: (a, c) => {
+      const { limit, offset } = decodeSearchParams(c.query);
+      return a.search(c.query.get('q') ?? '', { limit, offset });
+    },
+  },
+
+  // Tags
+  {
+    method: 'GET',
+    pattern: '/tags',
+    handle: (a, c) => a.getTags({ entityType: (c.query.get('entityType') as TaggedEntityType | null) ?? undefined }),
+  },
+  {
+    method: 'POST',
+    pattern: '/tags/rename',
+    handle: (a, c) => withBody(c.body, RENAME_TAG, (body) => a.renameTag(body.from, body.to)),
+  },
+
+  // Change detection
+  {
+    method: 'GET',
+    pattern: '/changes',
+    handle: async (a, c) => {
+      const since = c.query.get('since');
+      if (!since) return a.getChanges();
+      const cursor = parseCursor(since);
+      if (!cursor) return { success: false, error: 'since must be a cursor returned by /changes', code: 'VALIDATION_ERROR' };
+      return a.getChanges(cursor);
+    },
+  },
+
+  // History (undo/redo)
+  {
+    method: 'POST',
+    pattern: '/:container/:id/status',
+    restricted: true,
+    handle: (a, c) =>
+      withBody(c.body, RESTORE_STATUS, (body) => a.restoreStatus(containerOf(c.params), c.params.id!, body.status, body.version)),
+  },
+  {
+    method: 'GET',
+    pattern: '/snapshots/:entityType/:id',
+    handle: (a, c) => a.getSnapshot(c.params.entityType as ChangeEntityType, c.params.id!),
+  },
+  {
+    method: 'POST',
+    pattern: '/snapshots',
+    restricted: true,
+    handle: (a, c) => withBody(c.body, SNAPSHOT, (body) => a.restoreSnapshot(body)),
+  },
+
+  // Activity log
+  {
+    method: 'GET',
+    pattern: '/activity',
+    handle: (a, c) => {
+      const { projectId, limit, offset } = decodeSearchParams(c.query);
+      return a.getActivity({
+        projectId,
+        entityId: c.query.get('entityId') ?? undefined,
+        actor: c.query.get('actor') ?? undefined,
+        limit,
+        offset,
+      });
+    },
+  },
+];
+
+/**
+ * Match a path against a route pattern, returning decoded params. Throws
+ * URIError for a malformed percent-escape.
+ */
+function matchPattern(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = path.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < patternParts.length; index++) {
+    const expected = patternParts[index]!;
+    const actual = decodeURIComponent(pathParts[index]!);
+    if (expected === ':container') {
+      if (!Object.hasOwn(CONTAINERS, actual)) return null;
+      params.container = actual;
+    } else if (expected.startsWith(':')) {
+      params[expected.slice(1)] = actual;
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function json(result: Result<unknown>): Response {
+  return Response.json(result, { status: result.success ? 200 : statusForCode(result.code) });
+}
+
+/**
+ * Build a fetch handler serving the JSON API on top of `adapter`
+ */
+export function createApiHandler(
+  adapter: DataAdapter,
+  options: ApiHandlerOptions = {}
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const url = new URL(request.url);
+
+    if (options.token && request.headers.get('authorization') !== `Bearer ${options.token}`) {
+      return json({ success: false, error: 'Missing or invalid API token', code: 'UNAUTHORIZED' });
+    }
+
+    if (!url.pathname.startsWith(`${API_PREFIX}/`)) {
+      return json({ success: false, error: `Not found: ${url.pathname}`, code: 'NOT_FOUND' });
+    }
+    const path = url.pathname.slice(API_PREFIX.length);
+
+    let match: { route: Route; params: Record<string, string> } | null = null;
+    try {
+      for (const route of ROUTES) {
+        if (route.method !== request.method) continue;
+        const params = matchPattern(route.pattern, path);
+        if (params) {
+          match = { route, params };
+          break;
+        }
+      }
+    } catch (error) {
+      // decodeURIComponent rejects malformed escapes such as `%E0%A4%A`
+      if (!(error instanceof URIError)) throw error;
+      return json({ success: false, error: `Malformed path: ${url.pathname}`, code: 'VALIDATION_ERROR' });
+    }
+    if (!match) {
+      return json({ success: false, error: `No route for ${request.method} ${url.pathname}`, code: 'NOT_FOUND' });
+    }
+    if (match.route.restricted && !options.token) {
+      return json({
+        success: false,
+        error: 'Undoing status changes and deletes over the API needs a server started with --token',
+        code: 'FORBIDDEN',
+      });
+    }
+
+    let body: unknown;
+    if (request.method === 'POST' || request.method === 'PATCH') {
+      try {
+        body = await request.json();
+      } catch {
+        return json({ success: false, error: 'Request body must be valid JSON', code: 'VALIDATION_ERROR' });
+      }
+    }
+
+    let target = adapter;
+    const actorHeader = request.headers.get(ACTOR_HEADER);
+    if (actorHeader && options.adapterFor) {
+      let actor: string;
+      try {
+        actor = decodeURIComponent(actorHeader).trim();
+      } catch {
+        return json({ success: false, error: `Malformed ${ACTOR_HEADER} header`, code: 'VALIDATION_ERROR' });
+      }
+      if (actor) target = options.adapterFor(actor);
+    }
+
+    try {
+      return json(await match.route.handle(target, { params: match.params, query: url.searchParams, body }));
+    } catch (error) {
+      return json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  };
+}
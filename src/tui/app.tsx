@@ -1,10 +1,36 @@
-import React, { useState, useMemo, useCallback } from 'react';
-import { Box, Text, useApp, useInput } from 'ink';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { Box, useApp, useInput } from 'ink';
 import { ThemeProvider } from '../ui/context/theme-context';
 import { AdapterProvider } from '../ui/context/adapter-context';
+import { TextEntryProvider, type TextEntryTracker } from '../ui/context/text-entry-context';
+import { CommandProvider, useAvailableCommands } from '../ui/context/command-context';
+import { ConfigProvider } from '../ui/context/config-context';
+import { NavigationProvider, useNavigationState } from '../ui/hooks/use-navigation';
 import { DirectAdapter } from '../ui/adapters/direct';
+import { HistoryAdapter } from '../ui/adapters/history-adapter';
+import { UndoHistory } from '../ui/adapters/undo-history';
+import { DEFAULT_POLL_INTERVAL_MS } from '../ui/adapters/change-watcher';
+import type { DataAdapter } from '../ui/adapters/types';
 import { Header } from './components/header';
 import { Footer } from './components/footer';
+import { Toast, type ToastTone } from './components/toast';
+import { GoToPalette } from './components/go-to-palette';
+import { CommandPalette } from './components/command-palette';
+import { ThemeSwitcher } from './components/theme-switcher';
+import type { GoToItem } from '../ui/lib/go-to';
+import { availableCommands, CommandRegistry, runCommandKey, type Command, type CommandContext } from '../ui/lib/commands';
+import { DEFAULT_CONFIG, type UserConfig } from '../ui/lib/config';
+import {
+  Screen,
+  type KanbanBoardMode,
+  type NavigationEntry,
+  type NavigationState,
+  type ProjectViewMode,
+  type ViewState,
+} from '../ui/lib/types';
+import { BUILT_IN_THEMES, findTheme } from '../ui/lib/themes';
+import { darkTheme } from '../ui/themes/dark';
+import type { Theme } from '../ui/themes/types';
 import { Dashboard } from './screens/dashboard';
 import { ProjectView } from './screens/project-view';
 import { TaskDetail } from './screens/task-detail';
@@ -12,298 +38,367 @@ import { KanbanView } from './screens/kanban-view';
 import { FeatureDetail } from './screens/feature-detail';
 import { ProjectDetail } from './screens/project-detail';
 import { SearchScreen } from './screens/search';
+import { DependencyGraphView } from './screens/dependency-graph';
+import { MetricsView } from './screens/metrics';
+import { ActivityScreen } from './screens/activity';
+import { TagsScreen } from './screens/tags';
+import { HelpScreen } from './screens/help';
 
-export function App() {
+/** How long a command picked in the palette or Help waits for its screen to offer it */
+const PENDING_COMMAND_TIMEOUT_MS = 2000;
+
+/** Default for the Set-valued view state; screens copy it before changing it */
+const NO_IDS = new Set<string>();
+
+const BREADCRUMBS: Record<Screen, string[]> = {
+  [Screen.Dashboard]: ['Dashboard'],
+  [Screen.ProjectDetail]: ['Dashboard', 'Project'],
+  [Screen.ProjectView]: ['Dashboard', 'Project'],
+  [Screen.FeatureView]: ['Dashboard', 'Project', 'Feature'],
+  [Screen.TaskDetail]: ['Dashboard', 'Project', 'Task'],
+  [Screen.Kanban]: ['Dashboard', 'Project', 'Board'],
+  [Screen.DependencyGraph]: ['Dashboard', 'Project', 'Graph'],
+  [Screen.Metrics]: ['Dashboard', 'Project', 'Metrics'],
+  [Screen.Search]: ['Search'],
+  [Screen.Activity]: ['Activity'],
+  [Screen.Tags]: ['Tags'],
+  [Screen.Help]: ['Help'],
+};
+
+interface AppProps {
+  /** Data source; defaults to the local database */
+  adapter?: DataAdapter;
+  /** User configuration (theme, key remaps, defaults); see loadConfig */
+  config?: UserConfig;
+  /** Themes to choose from: the built-in ones plus any user themes */
+  themes?: Theme[];
+  /** Screens to start with, the last one shown (deep links); defaults to the dashboard */
+  initialStack?: NavigationEntry[];
+  /** Remembered project views from a saved session */
+  initialProjectViews?: Record<string, ViewState>;
+  /** Called with the navigation state whenever it changes, to save the session */
+  onNavigationChange?: (state: NavigationState) => void;
+}
+
+export function App({
+  adapter: providedAdapter,
+  config = DEFAULT_CONFIG,
+  themes = BUILT_IN_THEMES,
+  initialStack,
+  initialProjectViews,
+  onNavigationChange,
+}: AppProps = {}) {
   // Setup
   const { exit } = useApp();
-  const adapter = useMemo(() => new DirectAdapter(), []);
+  const history = useMemo(() => new UndoHistory(), []);
+  const untrackedAdapter = useMemo(() => providedAdapter ?? new DirectAdapter(), [providedAdapter]);
+  const adapter = useMemo(() => new HistoryAdapter(untrackedAdapter, history), [untrackedAdapter, history]);
+  const textEntry = useMemo<TextEntryTracker>(() => ({ active: 0 }), []);
+  // Global commands are registered first so every screen's commands list before them
+  const globalCommandsRef = useRef<Command[]>([]);
+  const registry = useMemo(() => {
+    const created = new CommandRegistry(config.keys);
+    created.register(() => globalCommandsRef.current);
+    return created;
+  }, [config.keys]);
+  const [toast, setToast] = useState<{ message: string; tone: ToastTone } | null>(null);
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  // Navigation: a stack of screens with their params and view state
+  const navigation = useNavigationState(initialStack, initialProjectViews);
+  const { current, push, pop, setViewState } = navigation;
+  useEffect(() => {
+    onNavigationChange?.(navigation.state);
+  }, [navigation.state, onNavigationChange]);
+  const screen = current.screen;
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [isThemeSwitcherOpen, setIsThemeSwitcherOpen] = useState(false);
+  // Commands available where the command palette or Help was opened; the
+  // screen itself is unmounted while they show
+  const [commandSnapshot, setCommandSnapshot] = useState<Command[]>([]);
+  const [pendingCommandId, setPendingCommandId] = useState<string | null>(null);
+
+  // View state lives on the current stack entry, so Back and Forward restore
+  // selection, expanded rows and view modes
+  const viewValue = <T,>(key: string, fallback: T): T =>
+    key in current.viewState ? (current.viewState[key] as T) : fallback;
+  // Stable setters, since screens list them as effect dependencies
+  const viewSetter = useMemo(() => {
+    const setters = new Map<string, (value: unknown) => void>();
+    return <T,>(key: string): ((value: T) => void) => {
+      let setter = setters.get(key);
+      if (!setter) {
+        setter = (value: unknown) => setViewState({ [key]: value });
+        setters.set(key, setter);
+      }
+      return setter;
+    };
+  }, [setViewState]);
+
+  const runHistory = useCallback(async (direction: 'undo' | 'redo') => {
+    const result = await history[direction]();
+    if (result.success) {
+      setToast({ message: `${direction === 'undo' ? 'Undid' : 'Redid'}: ${result.data.label}`, tone: 'success' });
+    } else {
+      setToast({ message: result.error, tone: result.code === 'EMPTY' ? 'info' : 'error' });
+    }
+  }, [history]);
+
+  const openProject = useCallback((projectId: string) => push(Screen.ProjectView, { projectId }), [push]);
+  const openFeature = useCallback((featureId: string) => push(Screen.FeatureView, { featureId }), [push]);
+  const openTask = useCallback((taskId: string) => push(Screen.TaskDetail, { taskId }), [push]);
 
-  // Navigation state (simple for now - just track current screen)
-  const [screen, setScreen] = useState<'dashboard' | 'project' | 'project-detail' | 'task' | 'kanban' | 'feature' | 'search'>('dashboard');
-  const [searchReturnScreen, setSearchReturnScreen] = useState<'dashboard' | 'project' | 'project-detail' | 'task' | 'kanban' | 'feature'>('dashboard');
-  const [projectId, setProjectId] = useState<string | null>(null);
-  const [taskId, setTaskId] = useState<string | null>(null);
-  const [featureId, setFeatureId] = useState<string | null>(null);
-  const [taskOriginScreen, setTaskOriginScreen] = useState<'project' | 'kanban' | 'feature'>('project');
+  // Jump from the go-to palette; Back returns to where it was opened
+  const goTo = useCallback((item: GoToItem) => {
+    setIsPaletteOpen(false);
+    if (item.kind === 'project') openProject(item.id);
+    else if (item.kind === 'feature') openFeature(item.id);
+    else openTask(item.id);
+  }, [openProject, openFeature, openTask]);
 
-  // View state persistence
-  // Dashboard state
-  const [dashboardSelectedIndex, setDashboardSelectedIndex] = useState(0);
+  const commandContext: CommandContext = { screen };
 
-  // ProjectView state
-  const [projectExpandedFeatures, setProjectExpandedFeatures] = useState<Set<string>>(new Set());
-  const [projectExpandedGroups, setProjectExpandedGroups] = useState<Set<string>>(new Set());
-  const [projectSelectedIndex, setProjectSelectedIndex] = useState(0);
-  const [projectViewMode, setProjectViewMode] = useState<'features' | 'status' | 'feature-status'>('status');
+  const snapshotCommands = useCallback(() => {
+    setCommandSnapshot(availableCommands(registry.list(), { screen }));
+  }, [registry, screen]);
 
-  // KanbanView state
-  const [kanbanActiveColumnIndex, setKanbanActiveColumnIndex] = useState(0);
-  const [kanbanSelectedFeatureIndex, setKanbanSelectedFeatureIndex] = useState(0);
-  const [kanbanExpandedFeatureId, setKanbanExpandedFeatureId] = useState<string | null>(null);
-  const [kanbanSelectedTaskIndex, setKanbanSelectedTaskIndex] = useState(-1);
-  const [kanbanActiveStatuses, setKanbanActiveStatuses] = useState<Set<string>>(new Set());
-  const handleKanbanActiveStatusesChange = useCallback((statuses: Set<string>) => {
-    setKanbanActiveStatuses(statuses);
-  }, []);
+  // Run a command picked in the command palette or Help once its screen is
+  // back and offers it (data-dependent commands appear after loading)
+  const runWhenAvailable = useCallback((command: Command) => {
+    setIsCommandPaletteOpen(false);
+    if (screen === Screen.Help) pop();
+    setPendingCommandId(command.id);
+  }, [screen, pop]);
+
+  useEffect(() => {
+    if (!pendingCommandId || isCommandPaletteOpen) return;
+    const command = availableCommands(registry.list(), { screen }).find((candidate) => candidate.id === pendingCommandId);
+    if (!command?.run) return;
+    setPendingCommandId(null);
+    command.run();
+  });
+
+  useEffect(() => {
+    if (!pendingCommandId) return;
+    const timer = setTimeout(() => setPendingCommandId(null), PENDING_COMMAND_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [pendingCommandId]);
+
+  // The project the current screen belongs to, if its params name one
+  const contextProjectId = 'projectId' in current.params ? current.params.projectId : undefined;
+
+  // Global commands; every key except the search screen's typing is free for them
+  const notSearching = ({ screen: active }: CommandContext) => active !== Screen.Search;
+  const browsing = ({ screen: active }: CommandContext) => active !== Screen.Search && active !== Screen.Help;
+  const group = 'Global';
+  const globalCommands: Command[] = [
+    { id: 'global.search', key: '/', title: 'Search', group, when: browsing, run: () => push(Screen.Search, {}) },
+    { id: 'global.undo', key: 'u', title: 'Undo', group, when: notSearching, run: () => void runHistory('undo') },
+    { id: 'global.redo', key: 'Ctrl-R', title: 'Redo', group, when: notSearching, run: () => void runHistory('redo'), hidden: true },
+    { id: 'global.back', key: 'Ctrl-O', title: 'Back', group, when: (context) => notSearching(context) && navigation.canGoBack, run: pop, hidden: true },
+    {
+      id: 'global.forward',
+      // Not Ctrl-I: most terminals send it as Tab
+      key: 'Ctrl-N',
+      title: 'Forward',
+      group,
+      when: (context) => notSearching(context) && navigation.canGoForward,
+      run: navigation.forward,
+      hidden: true,
+    },
+    { id: 'global.go-to', key: 'Ctrl-P', title: 'Go to', group, when: browsing, run: () => setIsPaletteOpen(true) },
+    { id: 'global.theme', key: 'Ctrl-T', title: 'Theme', group, when: browsing, run: () => setIsThemeSwitcherOpen(true), hidden: true },
+    {
+      id: 'global.commands',
+      key: ':',
+      title: 'Commands',
+      group,
+      when: browsing,
+      run: () => {
+        snapshotCommands();
+        setIsCommandPaletteOpen(true);
+      },
+    },
+    {
+      id: 'global.activity',
+      key: 'A',
+      title: 'Activity',
+      group,
+      when: (context) => browsing(context) && context.screen !== Screen.Activity,
+      run: () => push(Screen.Activity, { projectId: contextProjectId }),
+    },
+    {
+      id: 'global.tags',
+      key: 'T',
+      title: 'Tags',
+      group,
+      when: (context) => browsing(context) && context.screen !== Screen.Tags,
+      run: () => push(Screen.Tags, {}),
+    },
+    {
+      id: 'global.help',
+      key: '?',
+      title: 'Help',
+      group,
+      when: browsing,
+      run: () => {
+        snapshotCommands();
+        push(Screen.Help, {});
+      },
+    },
+    { id: 'global.quit', key: 'q', title: 'Quit', group, when: notSearching, run: exit },
+  ];
+  globalCommandsRef.current = globalCommands;
+  const commands = useAvailableCommands(registry, commandContext);
 
   // Global keyboard handling
   useInput((input, key) => {
-    if (input === 'q') {
-      exit();
-    }
-    if (input === '/') {
-      if (screen !== 'search') {
-        setSearchReturnScreen(screen as 'dashboard' | 'project' | 'task' | 'kanban' | 'feature');
-        setScreen('search');
-      }
-      return;
-    }
+    // The palettes own the keyboard while open, and typing wins over shortcuts
+    if (isPaletteOpen || isCommandPaletteOpen || isThemeSwitcherOpen || textEntry.active > 0) return;
+    runCommandKey(availableCommands(registry.bind(globalCommands), commandContext), input, key);
   });
 
-  // Compute breadcrumbs based on current screen
-  const breadcrumbs = useMemo(() => {
-    switch (screen) {
-      case 'dashboard':
-        return ['Dashboard'];
-      case 'project-detail':
-        return ['Dashboard', 'Project'];
-      case 'project':
-        return ['Dashboard', 'Project'];
-      case 'feature':
-        return ['Dashboard', 'Project', 'Feature'];
-      case 'task':
-        return ['Dashboard', 'Project', 'Task'];
-      case 'kanban':
-        return ['Dashboard', 'Project', 'Board'];
-      case 'search':
-        return ['Search'];
-      default:
-        return ['Dashboard'];
-    }
-  }, [screen]);
-
-  // Shortcuts for footer
-  const shortcuts =
-    screen === 'search'
-      ? [
-        { key: '↑/↓', label: 'Navigate' },
-        { key: 'Enter/→', label: 'Open' },
-        { key: 'Esc/←', label: 'Back' },
-        { key: 'q', label: 'Quit' },
-      ]
-      : screen === 'feature'
-        ? [
-          { key: 'j/k', label: 'Navigate' },
-          { key: 'Enter', label: 'Open Task' },
-          { key: 'n', label: 'New Task' },
-          { key: 'q', label: 'Quit' },
-          { key: 'r', label: 'Refresh' },
-          { key: 'Esc', label: 'Back' },
-        ]
-        : [
-          { key: 'j/k', label: 'Navigate' },
-          { key: 'Enter/l', label: 'Select' },
-          { key: '/', label: 'Search' },
-          { key: 'q', label: 'Quit' },
-          ...(screen === 'dashboard'
-            ? [
-              { key: 'n', label: 'New Project' },
-              { key: 'f', label: 'Project Info' },
-              { key: 'e', label: 'Edit Project' },
-              { key: 'd', label: 'Delete Project' },
-              { key: 'r', label: 'Refresh' },
-              { key: 'h', label: 'Back' },
-            ]
-            : []),
-          ...(screen === 'project-detail'
-            ? [
-              { key: 'e', label: 'Edit' },
-              { key: 's', label: 'Status' },
-              { key: 'r', label: 'Refresh' },
-              { key: 'Esc/h', label: 'Back' },
-            ]
-            : []),
-          ...(screen === 'project'
-            ? [
-              { key: 'n', label: 'New Feature' },
-              { key: 't', label: 'New Task' },
-              { key: 'f', label: 'Feature Detail' },
-              { key: 'v', label: 'Toggle View' },
-              { key: 'b', label: 'Board View' },
-              { key: 'r', label: 'Refresh' },
-              { key: 'h/Esc', label: 'Back' },
-            ]
-            : []),
-          ...(screen === 'kanban'
-            ? kanbanExpandedFeatureId
-              ? [
-                { key: 'j/k', label: 'Tasks' },
-                { key: 'Enter', label: 'Open Task' },
-                { key: 'Esc/h', label: 'Collapse' },
-                { key: 'r', label: 'Refresh' },
-              ]
-              : [
-                { key: 'h/l', label: 'Columns' },
-                { key: 'j/k', label: 'Features' },
-                { key: 'Enter', label: 'Expand' },
-                { key: 'm', label: 'Move Feature' },
-                { key: 'f', label: 'Filter' },
-                { key: 'b', label: 'Tree View' },
-                { key: 'Esc', label: 'Back' },
-              ]
-            : []),
-          ...(screen === 'task'
-            ? [
-              { key: 'Tab', label: 'Switch Panel' },
-              { key: 'r', label: 'Refresh' },
-              { key: 'Esc', label: 'Back' },
-            ]
-            : []),
-        ];
+  const showScreen = !isPaletteOpen && !isCommandPaletteOpen && !isThemeSwitcherOpen;
 
   return (
-    <ThemeProvider>
-      <AdapterProvider adapter={adapter}>
-        <Box flexDirection="column" width="100%">
-          <Header breadcrumbs={breadcrumbs} />
-          <Box flexGrow={1} flexDirection="column">
-            {screen === 'dashboard' && (
-              <Dashboard
-                selectedIndex={dashboardSelectedIndex}
-                onSelectedIndexChange={setDashboardSelectedIndex}
-                onSelectProject={(id) => {
-                  setProjectId(id);
-                  setScreen('project');
-                }}
-                onViewProject={(id) => {
-                  setProjectId(id);
-                  setScreen('project-detail');
-                }}
-                onBack={() => {
-                  setScreen('dashboard');
-                  setProjectId(null);
-                  setTaskId(null);
-                  setFeatureId(null);
-                }}
-              />
-            )}
-            {screen === 'project-detail' && projectId && (
-              <ProjectDetail
-                projectId={projectId}
-                onSelectFeature={(id) => {
-                  setFeatureId(id);
-                  setScreen('feature');
-                }}
-                onBack={() => {
-                  setScreen('dashboard');
-                  setProjectId(null);
-                }}
-              />
-            )}
-            {screen === 'project' && projectId && (
-              <ProjectView
-                projectId={projectId}
-                expandedFeatures={projectExpandedFeatures}
-                onExpandedFeaturesChange={setProjectExpandedFeatures}
-                expandedGroups={projectExpandedGroups}
-                onExpandedGroupsChange={setProjectExpandedGroups}
-                selectedIndex={projectSelectedIndex}
-                onSelectedIndexChange={setProjectSelectedIndex}
-                viewMode={projectViewMode}
-                onViewModeChange={setProjectViewMode}
-                onSelectTask={(id) => {
-                  setTaskOriginScreen('project');
-                  setTaskId(id);
-                  setScreen('task');
-                }}
-                onSelectFeature={(id) => {
-                  setFeatureId(id);
-                  setScreen('feature');
-                }}
-                onToggleBoard={() => {
-                  setScreen('kanban');
-                }}
-                onBack={() => {
-                  setScreen('dashboard');
-                  setProjectId(null);
-                }}
-              />
-            )}
-            {screen === 'kanban' && projectId && (
-              <KanbanView
-                projectId={projectId}
-                activeColumnIndex={kanbanActiveColumnIndex}
-                onActiveColumnIndexChange={setKanbanActiveColumnIndex}
-                selectedFeatureIndex={kanbanSelectedFeatureIndex}
-                onSelectedFeatureIndexChange={setKanbanSelectedFeatureIndex}
-                expandedFeatureId={kanbanExpandedFeatureId}
-                onExpandedFeatureIdChange={setKanbanExpandedFeatureId}
-                selectedTaskIndex={kanbanSelectedTaskIndex}
-                onSelectedTaskIndexChange={setKanbanSelectedTaskIndex}
-                activeStatuses={kanbanActiveStatuses}
-                onActiveStatusesChange={handleKanbanActiveStatusesChange}
-                onSelectTask={(id) => {
-                  setTaskOriginScreen('kanban');
-                  setTaskId(id);
-                  setScreen('task');
-                }}
-                onBack={() => {
-                  setScreen('dashboard');
-                  setProjectId(null);
-                }}
-              />
-            )}
-            {screen === 'task' && taskId && (
-              <TaskDetail
-                taskId={taskId}
-                onSelectTask={(id) => {
-                  setTaskId(id);
-                  // Stay on task screen, just change taskId
-                }}
-                onBack={() => {
-                  setScreen(taskOriginScreen === 'kanban' ? 'kanban' : taskOriginScreen === 'feature' ? 'feature' : 'project');
-                  setTaskId(null);
-                }}
-              />
-            )}
-            {screen === 'feature' && featureId && (
-              <FeatureDetail
-                featureId={featureId}
-                onSelectTask={(id) => {
-                  setTaskOriginScreen('feature');
-                  setTaskId(id);
-                  setScreen('task');
-                }}
-                onBack={() => {
-                  setScreen('project');
-                  setFeatureId(null);
-                }}
-              />
-            )}
-            {screen === 'search' && (
-              <SearchScreen
-                onOpenProject={(id) => {
-                  setProjectId(id);
-                  setScreen('project');
-                }}
-                onOpenFeature={(id) => {
-                  setFeatureId(id);
-                  setScreen('feature');
-                }}
-                onOpenTask={(id) => {
-                  setTaskOriginScreen('project');
-                  setTaskId(id);
-                  setScreen('task');
-                }}
-                onBack={() => {
-                  setScreen(searchReturnScreen);
-                }}
-              />
-            )}
-          </Box>
-          <Footer shortcuts={shortcuts} />
-        </Box>
-      </AdapterProvider>
+    <ThemeProvider initialTheme={findTheme(themes, config.theme) ?? darkTheme}>
+      <ConfigProvider config={config}>
+        <AdapterProvider
+          adapter={adapter}
+          pollInterval={DEFAULT_POLL_INTERVAL_MS}
+          history={history}
+          untrackedAdapter={untrackedAdapter}
+        >
+          <TextEntryProvider tracker={textEntry}>
+            <CommandProvider registry={registry}>
+              <NavigationProvider navigation={navigation}>
+                <Box flexDirection="column" width="100%">
+                  <Header breadcrumbs={BREADCRUMBS[screen]} />
+                  <Box flexGrow={1} flexDirection="column">
+                    {isPaletteOpen && <GoToPalette onSelect={goTo} onClose={() => setIsPaletteOpen(false)} />}
+                    {isCommandPaletteOpen && (
+                      <CommandPalette
+                        commands={commandSnapshot}
+                        onSelect={runWhenAvailable}
+                        onClose={() => setIsCommandPaletteOpen(false)}
+                      />
+                    )}
+                    {isThemeSwitcherOpen && <ThemeSwitcher themes={themes} onClose={() => setIsThemeSwitcherOpen(false)} />}
+                  {showScreen && current.screen === Screen.Dashboard && (
+                      <Dashboard
+                        selectedIndex={viewValue('selectedIndex', 0)}
+                        onSelectedIndexChange={viewSetter<number>('selectedIndex')}
+                        onSelectProject={openProject}
+                        onViewProject={(projectId) => push(Screen.ProjectDetail, { projectId })}
+                      />
+                    )}
+                    {showScreen && current.screen === Screen.ProjectDetail && (
+                      <ProjectDetail
+                        key={current.params.projectId}
+                        projectId={current.params.projectId}
+                        onSelectFeature={openFeature}
+                        onBack={pop}
+                      />
+                    )}
+                    {showScreen && current.screen === Screen.ProjectView && (
+                      <ProjectView
+                        key={current.params.projectId}
+                        projectId={current.params.projectId}
+                        expandedFeatures={viewValue('expandedFeatures', NO_IDS)}
+                        onExpandedFeaturesChange={viewSetter<Set<string>>('expandedFeatures')}
+                        expandedGroups={viewValue('expandedGroups', NO_IDS)}
+                        onExpandedGroupsChange={viewSetter<Set<string>>('expandedGroups')}
+                        selectedIndex={viewValue('selectedIndex', 0)}
+                        onSelectedIndexChange={viewSetter<number>('selectedIndex')}
+                        viewMode={viewValue<ProjectViewMode>('viewMode', config.defaults.projectViewMode)}
+                        onViewModeChange={viewSetter<ProjectViewMode>('viewMode')}
+                        onSelectTask={openTask}
+                        onSelectFeature={openFeature}
+                        onToggleBoard={() => push(Screen.Kanban, { projectId: current.params.projectId })}
+                        onOpenGraph={() => push(Screen.DependencyGraph, { projectId: current.params.projectId })}
+                        onOpenMetrics={() => push(Screen.Metrics, { projectId: current.params.projectId })}
+                        onBack={pop}
+                      />
+                    )}
+                    {showScreen && current.screen === Screen.Kanban && (
+                      <KanbanView
+                        key={current.params.projectId}
+                        projectId={current.params.projectId}
+                        activeColumnIndex={viewValue('activeColumnIndex', 0)}
+                        onActiveColumnIndexChange={viewSetter<number>('activeColumnIndex')}
+                        selectedFeatureIndex={viewValue('selectedFeatureIndex', 0)}
+                        onSelectedFeatureIndexChange={viewSetter<number>('selectedFeatureIndex')}
+                        expandedFeatureId={viewValue<string | null>('expandedFeatureId', null)}
+                        onExpandedFeatureIdChange={viewSetter<string | null>('expandedFeatureId')}
+                        selectedTaskIndex={viewValue('selectedTaskIndex', -1)}
+                        onSelectedTaskIndexChange={viewSetter<number>('selectedTaskIndex')}
+                        activeStatuses={viewValue('activeStatuses', NO_IDS)}
+                        onActiveStatusesChange={viewSetter<Set<string>>('activeStatuses')}
+                        boardMode={viewValue<KanbanBoardMode>('boardMode', 'features')}
+                        onBoardModeChange={viewSetter<KanbanBoardMode>('boardMode')}
+                        taskBoardColumnIndex={viewValue('taskBoardColumnIndex', 0)}
+                        onTaskBoardColumnIndexChange={viewSetter<number>('taskBoardColumnIndex')}
+                        taskBoardTaskIndex={viewValue('taskBoardTaskIndex', 0)}
+                        onTaskBoardTaskIndexChange={viewSetter<number>('taskBoardTaskIndex')}
+                        onSelectTask={openTask}
+                        onBack={pop}
+                      />
+                    )}
+                    {showScreen && current.screen === Screen.DependencyGraph && (
+                      <DependencyGraphView
+                        key={current.params.projectId}
+                        projectId={current.params.projectId}
+                        selectedTaskId={viewValue<string | null>('selectedTaskId', null)}
+                        onSelectedTaskIdChange={viewSetter<string | null>('selectedTaskId')}
+                        onSelectTask={openTask}
+                        onBack={pop}
+                      />
+                    )}
+                    {showScreen && current.screen === Screen.Metrics && (
+                      <MetricsView key={current.params.projectId} projectId={current.params.projectId} onBack={pop} />
+                    )}
+                    {showScreen && current.screen === Screen.TaskDetail && (
+                      <TaskDetail key={current.params.taskId} taskId={current.params.taskId} onSelectTask={openTask} onBack={pop} />
+                    )}
+                    {showScreen && current.screen === Screen.FeatureView && (
+                      <FeatureDetail
+                        key={current.params.featureId}
+                        featureId={current.params.featureId}
+                        onSelectTask={openTask}
+                        onBack={pop}
+                      />
+                    )}
+                    {showScreen && current.screen === Screen.Activity && (
+                      <ActivityScreen
+                        projectId={current.params.projectId ?? null}
+                        onOpenProject={openProject}
+                        onOpenFeature={openFeature}
+                        onOpenTask={openTask}
+                        onBack={pop}
+                      />
+                    )}
+                    {showScreen && current.screen === Screen.Tags && <TagsScreen onBack={pop} />}
+                    {showScreen && current.screen === Screen.Help && (
+                      <HelpScreen commands={commandSnapshot} onRun={runWhenAvailable} onBack={pop} />
+                    )}
+                    {showScreen && current.screen === Screen.Search && (
+                      <SearchScreen
+                        onOpenProject={openProject}
+                        onOpenFeature={openFeature}
+                        onOpenTask={openTask}
+                        onBack={pop}
+                      />
+                    )}
+                  </Box>
+                  {toast && <Toast message={toast.message} tone={toast.tone} onDismiss={dismissToast} />}
+                  <Footer commands={commands} />
+                </Box>
+              </NavigationProvider>
+            </CommandProvider>
+          </TextEntryProvider>
+        </AdapterProvider>
+      </ConfigProvider>
     </ThemeProvider>
   );
 }
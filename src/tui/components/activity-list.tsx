@@ -0,0 +1,74 @@
+import React from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { ActivityEntry } from '../../ui/adapters/types';
+import { useTheme } from '../../ui/context/theme-context';
+import { activitySubject, describeActivity } from '../../ui/lib/activity';
+import { timeAgo, truncateText } from '../../ui/lib/format';
+
+interface ActivityListProps {
+  entries: ActivityEntry[];
+  selectedIndex: number;
+  onSelectedIndexChange: (index: number) => void;
+  onSelect?: (entry: ActivityEntry) => void;
+  /** Hide the entity column when every row is about the same entity */
+  showSubject?: boolean;
+  maxVisible?: number;
+  isActive?: boolean;
+}
+
+/**
+ * Newest-first list of activity rows: when, who, what
+ */
+export function ActivityList({
+  entries,
+  selectedIndex,
+  onSelectedIndexChange,
+  onSelect,
+  showSubject = true,
+  maxVisible = 10,
+  isActive = true,
+}: ActivityListProps) {
+  const { theme } = useTheme();
+
+  useInput((input, key) => {
+    if (entries.length === 0) return;
+    if (input === 'j' || key.downArrow) {
+      onSelectedIndexChange(Math.min(selectedIndex + 1, entries.length - 1));
+    } else if (input === 'k' || key.upArrow) {
+      onSelectedIndexChange(Math.max(selectedIndex - 1, 0));
+    } else if (key.return && onSelect) {
+      const entry = entries[selectedIndex];
+      if (entry) onSelect(entry);
+    }
+  }, { isActive });
+
+  if (entries.length === 0) {
+    return <Text dimColor>No activity recorded</Text>;
+  }
+
+  // Keep the selection in view
+  const start = Math.max(0, Math.min(selectedIndex - Math.floor(maxVisible / 2), entries.length - maxVisible));
+  const visible = entries.slice(start, start + maxVisible);
+  const actorWidth = Math.min(12, Math.max(...entries.map((entry) => entry.actor.length)));
+
+  return (
+    <Box flexDirection="column">
+      {start > 0 && <Text dimColor>  ↑ {start} newer</Text>}
+      {visible.map((entry, offset) => {
+        const isSelected = isActive && start + offset === selectedIndex;
+        return (
+          <Text key={entry.id} wrap="truncate-end">
+            <Text color={isSelected ? theme.colors.highlight : undefined}>{isSelected ? '▶ ' : '  '}</Text>
+            <Text dimColor>{timeAgo(entry.createdAt).padEnd(10)}</Text>
+            <Text color={theme.colors.accent}>{truncateText(entry.actor, actorWidth).padEnd(actorWidth + 2)}</Text>
+            {showSubject && <Text bold={isSelected}>{activitySubject(entry)} </Text>}
+            <Text>{describeActivity(entry)}</Text>
+          </Text>
+        );
+      })}
+      {start + maxVisible < entries.length && (
+        <Text dimColor>  ↓ {entries.length - start - maxVisible} older</Text>
+      )}
+    </Box>
+  );
+}
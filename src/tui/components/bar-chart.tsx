@@ -0,0 +1,39 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { bar } from '../../ui/lib/charts';
+
+export interface BarChartRow {
+  label: string;
+  value: number;
+  /** Text shown after the bar; defaults to the value */
+  valueLabel?: string;
+  color?: string;
+}
+
+interface BarChartProps {
+  rows: BarChartRow[];
+  /** Cells for the longest bar */
+  width?: number;
+  /** Scale maximum; defaults to the largest value */
+  max?: number;
+}
+
+/**
+ * Labelled horizontal bars on a shared scale
+ */
+export function BarChart({ rows, width = 30, max }: BarChartProps) {
+  const scale = max ?? Math.max(0, ...rows.map((row) => row.value));
+  const labelWidth = Math.max(0, ...rows.map((row) => row.label.length)) + 2;
+
+  return (
+    <Box flexDirection="column">
+      {rows.map((row) => (
+        <Text key={row.label} wrap="truncate-end">
+          <Text>{row.label.padEnd(labelWidth)}</Text>
+          <Text color={row.color}>{bar(row.value, scale, width).padEnd(width)}</Text>
+          <Text dimColor> {row.valueLabel ?? String(row.value)}</Text>
+        </Text>
+      ))}
+    </Box>
+  );
+}
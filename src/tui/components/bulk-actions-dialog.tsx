@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { Priority, type Feature } from '@allpepper/task-orchestrator';
+import { useTheme } from '../../ui/context/theme-context';
+import { useBulkActions } from '../../ui/hooks/use-bulk-actions';
+import { parseImportTags } from '../../ui/import';
+import {
+  bulkItemLabel,
+  describeBulkAction,
+  describeBulkItems,
+  summarizeBulkResults,
+  type BulkAction,
+  type BulkItem,
+  type BulkItemResult,
+} from '../../ui/lib/bulk';
+import { ConfirmDialog } from './confirm-dialog';
+import { FormDialog } from './form-dialog';
+
+const MAX_RESULT_LINES = 8;
+const MAX_VISIBLE_OPTIONS = 10;
+
+interface BulkActionsDialogProps {
+  items: BulkItem[];
+  /** Targets for "move to feature" */
+  features: Feature[];
+  onCancel: () => void;
+  /** Called when the result summary is closed */
+  onDone: (results: BulkItemResult[]) => void;
+  isActive?: boolean;
+}
+
+type MenuChoice = 'advance' | 'revert' | 'terminate' | 'priority' | 'add-tags' | 'remove-tags' | 'move' | 'delete';
+
+const MENU: Array<{ id: MenuChoice; key: string; label: string }> = [
+  { id: 'advance', key: 'a', label: 'Advance' },
+  { id: 'revert', key: 'r', label: 'Revert' },
+  { id: 'terminate', key: 't', label: 'Will Not Implement' },
+  { id: 'priority', key: 'p', label: 'Change priority' },
+  { id: 'add-tags', key: '+', label: 'Add tags' },
+  { id: 'remove-tags', key: '-', label: 'Remove tags' },
+  { id: 'move', key: 'm', label: 'Move to feature' },
+  { id: 'delete', key: 'd', label: 'Delete' },
+];
+
+const PRIORITIES = [Priority.HIGH, Priority.MEDIUM, Priority.LOW];
+
+type Step =
+  | { name: 'menu' }
+  | { name: 'priority' }
+  | { name: 'tags'; kind: 'add-tags' | 'remove-tags' }
+  | { name: 'move' }
+  | { name: 'confirm'; action: BulkAction }
+  | { name: 'running' }
+  | { name: 'summary'; results: BulkItemResult[] };
+
+interface OptionListProps {
+  title: string;
+  /** `key` is an optional single-key shortcut for the option */
+  options: Array<{ key?: string; label: string }>;
+  onSelect: (index: number) => void;
+  onCancel: () => void;
+  isActive: boolean;
+}
+
+function OptionList({ title, options, onSelect, onCancel, isActive }: OptionListProps) {
+  const { theme } = useTheme();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+    if (input === 'j' || key.downArrow) {
+      setSelectedIndex((index) => (index + 1) % options.length);
+      return;
+    }
+    if (input === 'k' || key.upArrow) {
+      setSelectedIndex((index) => (index - 1 + options.length) % options.length);
+      return;
+    }
+    if (key.return) {
+      onSelect(selectedIndex);
+      return;
+    }
+    const shortcut = options.findIndex((option) => option.key === input);
+    if (shortcut >= 0) onSelect(shortcut);
+  }, { isActive });
+
+  const start = Math.max(0, Math.min(selectedIndex - Math.floor(MAX_VISIBLE_OPTIONS / 2), options.length - MAX_VISIBLE_OPTIONS));
+  const visible = options.slice(start, start + MAX_VISIBLE_OPTIONS);
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={theme.colors.highlight} paddingX={1} marginY={1}>
+      <Text bold>{title}</Text>
+      {visible.map((option, offset) => {
+        const index = start + offset;
+        const isSelected = index === selectedIndex;
+        return (
+          <Text key={index} color={isSelected ? theme.colors.highlight : undefined} bold={isSelected} wrap="truncate-end">
+            {isSelected ? '▎' : ' '} {option.key ? `${option.key}  ` : ''}{option.label}
+          </Text>
+        );
+      })}
+      <Text dimColor>j/k: Navigate | Enter: Choose | Esc: Cancel</Text>
+    </Box>
+  );
+}
+
+/**
+ * Pick an action for the marked items, confirm it once, run it, then show
+ * which items failed and why
+ */
+export function BulkActionsDialog({ items, features, onCancel, onDone, isActive = true }: BulkActionsDialogProps) {
+  const { theme } = useTheme();
+  const bulk = useBulkActions();
+  const [step, setStep] = useState<Step>({ name: 'menu' });
+  const subject = describeBulkItems(items);
+  const taskCount = items.filter((item) => item.type === 'task').length;
+
+  const choose = (choice: MenuChoice) => {
+    if (choice === 'priority') setStep({ name: 'priority' });
+    else if (choice === 'add-tags' || choice === 'remove-tags') setStep({ name: 'tags', kind: choice });
+    else if (choice === 'move') setStep({ name: 'move' });
+    else setStep({ name: 'confirm', action: { kind: choice } });
+  };
+
+  const run = async (action: BulkAction) => {
+    setStep({ name: 'running' });
+    setStep({ name: 'summary', results: await bulk.run(items, action) });
+  };
+
+  useInput((_input, key) => {
+    if (step.name !== 'summary') return;
+    if (key.return || key.escape) onDone(step.results);
+  }, { isActive: isActive && step.name === 'summary' });
+
+  if (step.name === 'menu') {
+    const options = MENU.filter((option) => option.id !== 'move' || taskCount > 0);
+    return (
+      <OptionList
+        title={`Bulk action · ${subject}`}
+        options={options}
+        onSelect={(index) => {
+          const option = options[index];
+          if (option) choose(option.id);
+        }}
+        onCancel={onCancel}
+        isActive={isActive}
+      />
+    );
+  }
+
+  if (step.name === 'priority') {
+    return (
+      <OptionList
+        title={`Priority for ${subject}`}
+        options={PRIORITIES.map((priority) => ({ key: priority[0]?.toLowerCase(), label: priority }))}
+        onSelect={(index) => {
+          const priority = PRIORITIES[index];
+          if (priority) setStep({ name: 'confirm', action: { kind: 'priority', priority } });
+        }}
+        onCancel={() => setStep({ name: 'menu' })}
+        isActive={isActive}
+      />
+    );
+  }
+
+  if (step.name === 'move') {
+    const targets = features.filter((feature) => !items.some((item) => item.type === 'feature' && item.entity.id === feature.id));
+    return (
+      <OptionList
+        title={`Move ${describeBulkItems(items.filter((item) => item.type === 'task'))} to`}
+        options={targets.map((feature) => ({ label: feature.name }))}
+        onSelect={(index) => {
+          const feature = targets[index];
+          if (feature) setStep({ name: 'confirm', action: { kind: 'move', featureId: feature.id, featureName: feature.name } });
+        }}
+        onCancel={() => setStep({ name: 'menu' })}
+        isActive={isActive}
+      />
+    );
+  }
+
+  if (step.name === 'tags') {
+    return (
+      <FormDialog
+        title={`${step.kind === 'add-tags' ? 'Add tags to' : 'Remove tags from'} ${subject}`}
+        fields={[{ key: 'tags', label: 'Tags (comma separated)', required: true }]}
+        onCancel={() => setStep({ name: 'menu' })}
+        onSubmit={(values) => {
+          const tags = parseImportTags(values.tags);
+          if (tags.length > 0) setStep({ name: 'confirm', action: { kind: step.kind, tags } });
+        }}
+        isActive={isActive}
+      />
+    );
+  }
+
+  if (step.name === 'confirm') {
+    return (
+      <ConfirmDialog
+        title="Bulk Action"
+        message={describeBulkAction(step.action, items)}
+        onConfirm={() => run(step.action)}
+        onCancel={() => setStep({ name: 'menu' })}
+        isActive={isActive}
+      />
+    );
+  }
+
+  if (step.name === 'running') {
+    return (
+      <Box borderStyle="round" borderColor={theme.colors.highlight} paddingX={1} marginY={1}>
+        <Text>Working on {subject}...</Text>
+      </Box>
+    );
+  }
+
+  const failures = step.results.flatMap((result) => (result.success ? [] : [result]));
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={failures.length > 0 ? theme.colors.warning : theme.colors.success} paddingX={1} marginY={1}>
+      <Text bold>{summarizeBulkResults(step.results)}</Text>
+      {failures.slice(0, MAX_RESULT_LINES).map((failure) => (
+        <Text key={`${failure.item.type}:${failure.item.entity.id}`} wrap="truncate-end">
+          <Text color={theme.colors.danger}>✗ </Text>
+          {bulkItemLabel(failure.item)}
+          <Text dimColor> · {failure.code ? `${failure.code}: ` : ''}{failure.error}</Text>
+        </Text>
+      ))}
+      {failures.length > MAX_RESULT_LINES && <Text dimColor>… {failures.length - MAX_RESULT_LINES} more failed</Text>}
+      {failures.length > 0 && <Text dimColor>Failed items stay marked.</Text>}
+      <Text dimColor>[Enter/Esc] Close</Text>
+    </Box>
+  );
+}
@@ -8,6 +8,9 @@ interface ColumnFilterBarProps {
   activeStatuses: Set<string>;
   isFilterMode: boolean;
   filterCursorIndex: number;
+  /** Tag chips after the statuses; the cursor continues onto them */
+  tags?: string[];
+  activeTags?: Set<string>;
 }
 
 export function ColumnFilterBar({
@@ -15,6 +18,8 @@ export function ColumnFilterBar({
   activeStatuses,
   isFilterMode,
   filterCursorIndex,
+  tags = [],
+  activeTags,
 }: ColumnFilterBarProps) {
   const { theme } = useTheme();
 
@@ -47,6 +52,27 @@ export function ColumnFilterBar({
           </Text>
         );
       })}
+      {tags.length > 0 && <Text dimColor>{'  │  '}</Text>}
+      {tags.map((tag, i) => {
+        const isActive = activeTags?.has(tag) ?? false;
+        const isCursor = isFilterMode && allStatuses.length + i === filterCursorIndex;
+        const label = isActive ? `[#${tag}]` : `#${tag}`;
+        const separator = i < tags.length - 1 ? ' ' : '';
+
+        return (
+          <Text key={`tag-${tag}`}>
+            <Text
+              color={isActive ? theme.colors.accent : theme.colors.muted}
+              bold={isCursor}
+              underline={isCursor}
+              dimColor={!isActive && !isCursor}
+            >
+              {label}
+            </Text>
+            {separator}
+          </Text>
+        );
+      })}
     </Box>
   );
 }
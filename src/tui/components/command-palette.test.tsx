@@ -0,0 +1,55 @@
+import { test, expect, describe, mock } from 'bun:test';
+import React from 'react';
+import { render } from 'ink-testing-library';
+import { CommandPalette } from './command-palette';
+import { ThemeProvider } from '../../ui/context/theme-context';
+import type { Command } from '../../ui/lib/commands';
+
+const delay = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+const commands: Command[] = [
+  { id: 'project.new-feature', key: 'n', title: 'New Feature', group: 'Project', run: () => {} },
+  { id: 'project.navigate', key: 'j/k', title: 'Navigate', group: 'Project' },
+  { id: 'global.tags', key: 'T', title: 'Tags', group: 'Global', run: () => {} },
+];
+
+function renderPalette(onSelect = mock((_command: Command) => {}), onClose = mock(() => {})) {
+  return render(
+    <ThemeProvider>
+      <CommandPalette commands={commands} onSelect={onSelect} onClose={onClose} />
+    </ThemeProvider>
+  );
+}
+
+describe('CommandPalette', () => {
+  test('should list runnable commands with their keys', async () => {
+    const { lastFrame } = renderPalette();
+    await delay();
+    const frame = lastFrame() ?? '';
+    expect(frame).toContain('New Feature');
+    expect(frame).toContain('Tags');
+    expect(frame).not.toContain('Navigate');
+  });
+
+  test('should select the best match for the typed query', async () => {
+    const onSelect = mock((_command: Command) => {});
+    const { stdin } = renderPalette(onSelect);
+    await delay();
+    for (const char of 'tag') {
+      stdin.write(char);
+      await delay();
+    }
+    stdin.write('\r');
+    await delay();
+    expect(onSelect).toHaveBeenCalledWith(expect.objectContaining({ id: 'global.tags' }));
+  });
+
+  test('should close on Escape', async () => {
+    const onClose = mock(() => {});
+    const { stdin } = renderPalette(undefined, onClose);
+    await delay();
+    stdin.write('\u001B');
+    await delay();
+    expect(onClose).toHaveBeenCalled();
+  });
+});
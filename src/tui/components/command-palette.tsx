@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useTheme } from '../../ui/context/theme-context';
+import { useTextEntry } from '../../ui/context/text-entry-context';
+import { rankCommands, type Command, type RankedCommand } from '../../ui/lib/commands';
+
+interface CommandPaletteProps {
+  /** Commands available where the palette was opened */
+  commands: Command[];
+  onSelect: (command: Command) => void;
+  onClose: () => void;
+  maxVisible?: number;
+  isActive?: boolean;
+}
+
+function MatchedTitle({ entry, isSelected }: { entry: RankedCommand; isSelected: boolean }) {
+  const { theme } = useTheme();
+  const matched = new Set(entry.positions);
+  return (
+    <Text bold={isSelected} wrap="truncate">
+      {Array.from(entry.command.title).map((char, index) =>
+        matched.has(index) ? (
+          <Text key={index} color={theme.colors.highlight} underline>
+            {char}
+          </Text>
+        ) : (
+          char
+        )
+      )}
+    </Text>
+  );
+}
+
+/**
+ * `:` command palette: fuzzy search over the commands available on the
+ * current screen and run the chosen one
+ */
+export function CommandPalette({ commands, onSelect, onClose, maxVisible = 12, isActive = true }: CommandPaletteProps) {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  useTextEntry(isActive);
+
+  const ranked = useMemo(() => rankCommands(commands, query), [commands, query]);
+  const clampedIndex = Math.min(selectedIndex, Math.max(0, ranked.length - 1));
+
+  const editQuery = (next: string) => {
+    setQuery(next);
+    setSelectedIndex(0);
+  };
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onClose();
+      return;
+    }
+
+    if (key.return) {
+      const selected = ranked[clampedIndex];
+      if (selected) onSelect(selected.command);
+      return;
+    }
+
+    if (key.downArrow || (key.ctrl && input === 'n')) {
+      if (ranked.length > 0) setSelectedIndex((clampedIndex + 1) % ranked.length);
+      return;
+    }
+
+    if (key.upArrow) {
+      if (ranked.length > 0) setSelectedIndex((clampedIndex - 1 + ranked.length) % ranked.length);
+      return;
+    }
+
+    if (key.ctrl && input === 'u') {
+      editQuery('');
+      return;
+    }
+
+    if (key.backspace || key.delete) {
+      editQuery(query.slice(0, -1));
+      return;
+    }
+
+    if (input && input.length === 1 && !key.ctrl && !key.meta) {
+      editQuery(`${query}${input}`);
+    }
+  }, { isActive });
+
+  const start = Math.max(0, clampedIndex - maxVisible + 1);
+  const visible = ranked.slice(start, start + maxVisible);
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={theme.colors.highlight} paddingX={1} marginY={1}>
+      <Text bold>Commands</Text>
+      <Box>
+        <Text color={theme.colors.accent}>{': '}</Text>
+        <Text>{query}</Text>
+        <Text inverse> </Text>
+      </Box>
+      <Box flexDirection="column" marginTop={1}>
+        {ranked.length === 0 ? (
+          <Text dimColor>No matching commands</Text>
+        ) : (
+          visible.map((entry, offset) => {
+            const isSelected = start + offset === clampedIndex;
+            return (
+              <Box key={entry.command.id} gap={1}>
+                <Text color={isSelected ? theme.colors.highlight : undefined}>{isSelected ? '▎' : ' '}</Text>
+                <Box flexShrink={1}>
+                  <MatchedTitle entry={entry} isSelected={isSelected} />
+                </Box>
+                <Text dimColor>{entry.command.group}</Text>
+                {entry.command.key ? <Text color={theme.colors.accent}>{entry.command.key}</Text> : null}
+              </Box>
+            );
+          })
+        )}
+      </Box>
+      <Text dimColor>Type to filter • ↑/↓ move • Enter run • Ctrl-U clear • Esc close</Text>
+    </Box>
+  );
+}
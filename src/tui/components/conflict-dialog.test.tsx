@@ -0,0 +1,97 @@
+import { test, expect, describe, mock } from 'bun:test';
+import React from 'react';
+import { render } from 'ink-testing-library';
+import { ConflictDialog } from './conflict-dialog';
+import { ThemeProvider } from '../../ui/context/theme-context';
+import type { EditConflict } from '../../ui/hooks/use-conflict-resolution';
+
+function renderWithTheme(component: React.ReactElement) {
+  return render(<ThemeProvider>{component}</ThemeProvider>);
+}
+
+const delay = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('ConflictDialog', () => {
+  const conflict: EditConflict = {
+    title: 'Task "Write docs"',
+    fields: [
+      { key: 'title', label: 'Title', base: 'Write docs', mine: 'Write API docs', theirs: 'Write docs', conflicting: false },
+      { key: 'summary', label: 'Summary', base: 'Old', mine: 'Mine', theirs: 'Theirs', conflicting: true },
+      { key: 'status', label: 'Status', readOnly: true, base: 'NEW', mine: 'NEW', theirs: 'ACTIVE', conflicting: false },
+    ],
+    theirs: { title: 'Write docs', summary: 'Theirs', description: '', priority: 'MEDIUM', complexity: '3', status: 'ACTIVE' },
+    mergeable: true,
+  };
+
+  test('should show both sides of every changed field', () => {
+    const { lastFrame } = renderWithTheme(
+      <ConflictDialog conflict={conflict} onRetry={() => {}} onMerge={() => {}} onKeepTheirs={() => {}} />
+    );
+    const frame = lastFrame() ?? '';
+    expect(frame).toContain('Task "Write docs" changed since you loaded it');
+    expect(frame).toContain('Write API docs');
+    expect(frame).toContain('Theirs');
+    expect(frame).toContain('ACTIVE');
+  });
+
+  test('should merge the default choices on Enter', async () => {
+    const onMerge = mock(() => {});
+    const { stdin } = renderWithTheme(
+      <ConflictDialog conflict={conflict} onRetry={() => {}} onMerge={onMerge} onKeepTheirs={() => {}} />
+    );
+
+    stdin.write('\r');
+    await delay();
+    expect(onMerge).toHaveBeenCalledWith({ ...conflict.theirs, title: 'Write API docs', summary: 'Mine' });
+  });
+
+  test('should toggle the selected field with Space', async () => {
+    const onMerge = mock(() => {});
+    const { stdin } = renderWithTheme(
+      <ConflictDialog conflict={conflict} onRetry={() => {}} onMerge={onMerge} onKeepTheirs={() => {}} />
+    );
+
+    await delay();
+    stdin.write('j');
+    await delay();
+    stdin.write(' ');
+    await delay();
+    stdin.write('\r');
+    await delay();
+    expect(onMerge).toHaveBeenCalledWith({ ...conflict.theirs, title: 'Write API docs' });
+  });
+
+  test('should retry with R and keep current with Esc', async () => {
+    const onRetry = mock(() => {});
+    const onKeepTheirs = mock(() => {});
+    const { stdin } = renderWithTheme(
+      <ConflictDialog conflict={conflict} onRetry={onRetry} onMerge={() => {}} onKeepTheirs={onKeepTheirs} />
+    );
+
+    stdin.write('R');
+    await delay();
+    expect(onRetry).toHaveBeenCalled();
+
+    stdin.write('\x1B');
+    await delay();
+    expect(onKeepTheirs).toHaveBeenCalled();
+  });
+
+  test('should retry on Enter when the change cannot be merged', async () => {
+    const onRetry = mock(() => {});
+    const onMerge = mock(() => {});
+    const { stdin } = renderWithTheme(
+      <ConflictDialog
+        conflict={{ ...conflict, mergeable: false }}
+        onRetry={onRetry}
+        onMerge={onMerge}
+        onKeepTheirs={() => {}}
+      />
+    );
+
+    stdin.write('\r');
+    await delay();
+    expect(onRetry).toHaveBeenCalled();
+    expect(onMerge).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useTheme } from '../../ui/context/theme-context';
+import { truncateText } from '../../ui/lib/format';
+import {
+  defaultChoices,
+  mergeEditValues,
+  type EditValues,
+  type FieldChoice,
+} from '../../ui/lib/conflict';
+import type { EditConflict } from '../../ui/hooks/use-conflict-resolution';
+
+interface ConflictDialogProps {
+  conflict: EditConflict;
+  onRetry: () => void;
+  onMerge: (values: EditValues) => void;
+  onKeepTheirs: () => void;
+  valueWidth?: number;
+  isActive?: boolean;
+}
+
+function preview(value: string, width: number): string {
+  return value ? truncateText(value.replace(/\s*\n\s*/g, ' ⏎ '), width) : '(empty)';
+}
+
+/**
+ * Field-by-field comparison of a rejected write against the stored entity.
+ * Each field keeps either the user's value or the stored one; read-only rows
+ * are shown for context only.
+ */
+export function ConflictDialog({
+  conflict,
+  onRetry,
+  onMerge,
+  onKeepTheirs,
+  valueWidth = 28,
+  isActive = true,
+}: ConflictDialogProps) {
+  const { theme } = useTheme();
+  const { fields, mergeable } = conflict;
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>(() => defaultChoices(fields));
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useInput((input, key) => {
+    if (key.escape || input === 't') {
+      onKeepTheirs();
+      return;
+    }
+    if (input === 'R') {
+      onRetry();
+      return;
+    }
+    if (key.return) {
+      if (mergeable) onMerge(mergeEditValues(fields, conflict.theirs, choices));
+      else onRetry();
+      return;
+    }
+    if (input === 'j' || key.downArrow) {
+      setSelectedIndex((index) => Math.min(index + 1, fields.length - 1));
+      return;
+    }
+    if (input === 'k' || key.upArrow) {
+      setSelectedIndex((index) => Math.max(index - 1, 0));
+      return;
+    }
+    if (mergeable && (input === ' ' || key.tab || key.leftArrow || key.rightArrow)) {
+      const field = fields[selectedIndex];
+      if (!field || field.readOnly) return;
+      setChoices((current) => ({
+        ...current,
+        [field.key]: current[field.key] === 'mine' ? 'theirs' : 'mine',
+      }));
+    }
+  }, { isActive });
+
+  const labelWidth = Math.max(6, ...fields.map((field) => field.label.length)) + 2;
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={theme.colors.warning} paddingX={1} marginY={1}>
+      <Text bold color={theme.colors.warning}>
+        ⚠ {conflict.title} changed since you loaded it
+      </Text>
+      <Text>
+        <Text dimColor>{'  '}{'Field'.padEnd(labelWidth)}</Text>
+        <Text dimColor>{'Yours'.padEnd(valueWidth + 2)}</Text>
+        <Text dimColor>Current</Text>
+      </Text>
+      {fields.map((field, index) => {
+        const choice = field.readOnly ? 'theirs' : choices[field.key];
+        const isSelected = index === selectedIndex;
+        return (
+          <Text key={field.key} wrap="truncate-end">
+            <Text color={isSelected ? theme.colors.highlight : undefined}>{isSelected ? '▶ ' : '  '}</Text>
+            <Text bold={isSelected} color={field.conflicting ? theme.colors.warning : undefined}>
+              {field.label.padEnd(labelWidth)}
+            </Text>
+            <Text
+              color={choice === 'mine' ? theme.colors.success : undefined}
+              dimColor={choice !== 'mine'}
+            >
+              {preview(field.mine, valueWidth).padEnd(valueWidth + 2)}
+            </Text>
+            <Text
+              color={choice === 'theirs' ? theme.colors.success : undefined}
+              dimColor={choice !== 'theirs'}
+            >
+              {preview(field.theirs, valueWidth)}
+            </Text>
+          </Text>
+        );
+      })}
+      <Box marginTop={1}>
+        <Text dimColor>
+          {mergeable
+            ? 'j/k: Field | Space: Yours/Current | Enter: Save merge | R: Retry with yours | t/Esc: Keep current'
+            : 'Enter/R: Retry on current version | t/Esc: Keep current'}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
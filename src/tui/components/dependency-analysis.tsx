@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { Task } from '@allpepper/task-orchestrator';
+import type { CriticalPath, UnblockImpact } from '../../ui/lib/dependency-analysis';
+import { getStatusColor } from '../../ui/lib/colors';
+import { truncateText } from '../../ui/lib/format';
+import { useTheme } from '../../ui/context/theme-context';
+
+interface DependencyAnalysisPanelProps {
+  tasks: Task[];
+  criticalPath: CriticalPath;
+  impacts: UnblockImpact[];
+  onSelectTask: (taskId: string) => void;
+  onClose: () => void;
+  maxItems?: number;
+  isActive?: boolean;
+}
+
+interface AnalysisRow {
+  key: string;
+  taskId: string;
+  detail: string;
+}
+
+/**
+ * Planning panel listing the critical path and the tasks whose completion
+ * unblocks the most downstream work.
+ */
+export function DependencyAnalysisPanel({
+  tasks,
+  criticalPath,
+  impacts,
+  onSelectTask,
+  onClose,
+  maxItems = 8,
+  isActive = true,
+}: DependencyAnalysisPanelProps) {
+  const { theme } = useTheme();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const taskById = new Map(tasks.map((task) => [task.id, task] as const));
+
+  const pathRows: AnalysisRow[] = criticalPath.taskIds.map((taskId, index) => ({
+    key: `path-${taskId}`,
+    taskId,
+    detail: `${index + 1}. `,
+  }));
+  const impactRows: AnalysisRow[] = impacts
+    .filter((impact) => impact.transitiveCount > 0)
+    .slice(0, maxItems)
+    .map((impact) => ({
+      key: `impact-${impact.taskId}`,
+      taskId: impact.taskId,
+      detail: `unblocks ${impact.transitiveCount} (${impact.directCount} direct)`,
+    }));
+  const rows = [...pathRows, ...impactRows];
+
+  useInput((input, key) => {
+    if (key.escape || input === 'a') {
+      onClose();
+      return;
+    }
+    if (rows.length === 0) return;
+    if (input === 'j' || key.downArrow) {
+      setSelectedIndex((prev) => Math.min(prev + 1, rows.length - 1));
+      return;
+    }
+    if (input === 'k' || key.upArrow) {
+      setSelectedIndex((prev) => Math.max(prev - 1, 0));
+      return;
+    }
+    if (key.return) {
+      const row = rows[selectedIndex];
+      if (row) onSelectTask(row.taskId);
+    }
+  }, { isActive });
+
+  const renderRow = (row: AnalysisRow, index: number, prefix: string, suffix: string) => {
+    const task = taskById.get(row.taskId);
+    const isSelected = index === selectedIndex;
+    return (
+      <Box key={row.key}>
+        <Text color={isSelected ? theme.colors.highlight : undefined}>{isSelected ? '▎' : ' '}</Text>
+        <Text dimColor>{prefix}</Text>
+        <Text color={getStatusColor(task?.status ?? '', theme)}>● </Text>
+        <Text bold={isSelected}>{truncateText(task?.title ?? row.taskId, 50)}</Text>
+        <Text dimColor>{suffix}</Text>
+      </Box>
+    );
+  };
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={theme.colors.highlight} paddingX={1} marginY={1}>
+      <Text bold>Dependency analysis</Text>
+
+      <Box flexDirection="column" marginTop={1}>
+        <Text color={theme.colors.accent}>
+          Critical path
+          {criticalPath.taskIds.length > 0 ? (
+            <Text dimColor> — {criticalPath.taskIds.length} tasks, total complexity {criticalPath.totalComplexity}</Text>
+          ) : null}
+        </Text>
+        {pathRows.length === 0 ? (
+          <Text dimColor>  No open tasks</Text>
+        ) : (
+          pathRows.map((row, index) =>
+            renderRow(row, index, row.detail, ` [${taskById.get(row.taskId)?.complexity ?? '?'}]`)
+          )
+        )}
+      </Box>
+
+      <Box flexDirection="column" marginTop={1}>
+        <Text color={theme.colors.accent}>Unblocks the most</Text>
+        {impactRows.length === 0 ? (
+          <Text dimColor>  No open task is blocking another</Text>
+        ) : (
+          impactRows.map((row, index) => renderRow(row, pathRows.length + index, '', ` — ${row.detail}`))
+        )}
+      </Box>
+
+      <Text dimColor>j/k move • Enter open task • Esc/a close</Text>
+    </Box>
+  );
+}
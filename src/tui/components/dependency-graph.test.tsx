@@ -0,0 +1,31 @@
+import { test, expect, describe } from 'bun:test';
+import React from 'react';
+import { render } from 'ink-testing-library';
+import { DependencyGraph } from './dependency-graph';
+import { ThemeProvider } from '../../ui/context/theme-context';
+import { noColorTheme } from '../../ui/themes/no-color';
+import { layoutDependencyGraph } from '../../ui/lib/graph-layout';
+
+describe('DependencyGraph', () => {
+  test('should mark nodes with a symbol per status without colour', () => {
+    const nodes = [
+      { id: 'a', title: 'Done', status: 'CLOSED', blockedBy: [] },
+      { id: 'b', title: 'Waiting', status: 'NEW', blockedBy: ['a'] },
+    ];
+    const { lastFrame } = render(
+      <ThemeProvider initialTheme={noColorTheme}>
+        <DependencyGraph
+          layout={layoutDependencyGraph(nodes)}
+          statusById={new Map(nodes.map((node) => [node.id, node.status]))}
+          selectedId={null}
+          width={80}
+          height={10}
+        />
+      </ThemeProvider>
+    );
+    const frame = lastFrame() ?? '';
+
+    expect(frame).toContain('● Done');
+    expect(frame).toContain('○ Waiting');
+  });
+});
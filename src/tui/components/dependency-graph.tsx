@@ -0,0 +1,110 @@
+import React, { useRef } from 'react';
+import { Box, Text } from 'ink';
+import type { GraphCell, GraphLayout } from '../../ui/lib/graph-layout';
+import { getStatusColor, getStatusSymbol } from '../../ui/lib/colors';
+import { useTheme } from '../../ui/context/theme-context';
+
+interface DependencyGraphProps {
+  layout: GraphLayout;
+  /** Status of each task, used to colour its node */
+  statusById: Map<string, string>;
+  selectedId: string | null;
+  /** Viewport size in characters */
+  width: number;
+  height: number;
+}
+
+interface Run {
+  text: string;
+  cell: GraphCell;
+  /** Column of the run's first cell in the layout */
+  x: number;
+}
+
+/**
+ * Scrollable view over a rasterised dependency graph.
+ * The viewport only moves when the selected node would leave it.
+ */
+export function DependencyGraph({ layout, statusById, selectedId, width, height }: DependencyGraphProps) {
+  const { theme } = useTheme();
+  const offsetRef = useRef({ top: 0, left: 0 });
+
+  const selected = layout.nodes.find((node) => node.id === selectedId);
+  const nodeWidth = selected
+    ? layout.cells[selected.y]!.filter((cell) => cell.nodeId === selected.id).length
+    : 0;
+
+  let { top, left } = offsetRef.current;
+  if (selected) {
+    if (selected.y < top) top = selected.y;
+    if (selected.y >= top + height) top = selected.y - height + 1;
+    if (selected.x < left) left = selected.x;
+    if (selected.x + nodeWidth > left + width) left = selected.x + nodeWidth - width;
+  }
+  top = Math.max(0, Math.min(top, layout.height - height));
+  left = Math.max(0, Math.min(left, layout.width - width));
+  offsetRef.current = { top, left };
+
+  const rows = layout.cells.slice(top, top + height).map((row) => toRuns(row.slice(left, left + width), left));
+  const nodeX = new Map(layout.nodes.map((node) => [node.id, node.x]));
+
+  const colorFor = (cell: GraphCell) => {
+    if (cell.kind === 'node' && cell.nodeId) {
+      return getStatusColor(statusById.get(cell.nodeId) ?? '', theme);
+    }
+    if (cell.kind === 'edge') return theme.colors.muted;
+    return undefined;
+  };
+
+  // Without colour, the node's leading marker shows its status instead
+  const textOf = (run: Run) => {
+    const { nodeId } = run.cell;
+    if (!theme.monochrome || run.cell.kind !== 'node' || !nodeId || nodeX.get(nodeId) !== run.x) return run.text;
+    if (!run.text.startsWith('●')) return run.text;
+    return getStatusSymbol(statusById.get(nodeId) ?? '', theme) + run.text.slice(1);
+  };
+
+  const hiddenAbove = top;
+  const hiddenBelow = Math.max(0, layout.height - top - height);
+
+  return (
+    <Box flexDirection="column">
+      {hiddenAbove > 0 ? <Text dimColor>↑ {hiddenAbove} more rows</Text> : null}
+      {rows.map((runs, rowIndex) => (
+        <Text key={top + rowIndex} wrap="truncate-end">
+          {runs.map((run, runIndex) => {
+            const isSelected = run.cell.kind === 'node' && run.cell.nodeId === selectedId;
+            return (
+              <Text
+                key={runIndex}
+                color={colorFor(run.cell)}
+                bold={isSelected || run.cell.kind === 'label'}
+                inverse={isSelected}
+                dimColor={run.cell.kind === 'label'}
+              >
+                {textOf(run)}
+              </Text>
+            );
+          })}
+        </Text>
+      ))}
+      {hiddenBelow > 0 ? <Text dimColor>↓ {hiddenBelow} more rows</Text> : null}
+    </Box>
+  );
+}
+
+/**
+ * Merge adjacent cells that render with the same style
+ */
+function toRuns(cells: GraphCell[], left: number): Run[] {
+  const runs: Run[] = [];
+  cells.forEach((cell, index) => {
+    const last = runs[runs.length - 1];
+    if (last && last.cell.kind === cell.kind && last.cell.nodeId === cell.nodeId) {
+      last.text += cell.char;
+    } else {
+      runs.push({ text: cell.char, cell, x: left + index });
+    }
+  });
+  return runs;
+}
@@ -64,6 +64,7 @@ describe('DependencyList', () => {
     const emptyDependencies: DependencyInfo = {
       blockedBy: [],
       blocks: [],
+      relatedTo: [],
     };
     const { lastFrame } = renderWithTheme(<DependencyList dependencies={emptyDependencies} />);
     expect(lastFrame()).toContain('No dependencies');
@@ -73,6 +74,7 @@ describe('DependencyList', () => {
     const dependencies: DependencyInfo = {
       blockedBy: [mockTask1, mockTask2],
       blocks: [],
+      relatedTo: [],
     };
     const { lastFrame } = renderWithTheme(<DependencyList dependencies={dependencies} />);
     const output = lastFrame();
@@ -86,6 +88,7 @@ describe('DependencyList', () => {
     const dependencies: DependencyInfo = {
       blockedBy: [],
       blocks: [mockTask3],
+      relatedTo: [],
     };
     const { lastFrame } = renderWithTheme(<DependencyList dependencies={dependencies} />);
     const output = lastFrame();
@@ -98,6 +101,7 @@ describe('DependencyList', () => {
     const dependencies: DependencyInfo = {
       blockedBy: [mockTask1],
       blocks: [mockTask2, mockTask3],
+      relatedTo: [],
     };
     const { lastFrame } = renderWithTheme(<DependencyList dependencies={dependencies} />);
     const output = lastFrame();
@@ -114,6 +118,7 @@ describe('DependencyList', () => {
     const dependencies: DependencyInfo = {
       blockedBy: [mockTask1],
       blocks: [mockTask2],
+      relatedTo: [],
     };
 
     const { lastFrame } = renderWithTheme(
@@ -134,6 +139,7 @@ describe('DependencyList', () => {
     const dependencies: DependencyInfo = {
       blockedBy: [mockTask1],
       blocks: [],
+      relatedTo: [],
     };
 
     const { lastFrame } = renderWithTheme(
@@ -148,4 +154,49 @@ describe('DependencyList', () => {
     expect(output).toContain('Blocked By:');
     expect(output).toContain('Task One');
   });
+
+  test('should render "Related To" section with tasks', () => {
+    const dependencies: DependencyInfo = {
+      blockedBy: [],
+      blocks: [],
+      relatedTo: [mockTask2],
+    };
+    const { lastFrame } = renderWithTheme(<DependencyList dependencies={dependencies} />);
+    const output = lastFrame();
+
+    expect(output).toContain('Related To:');
+    expect(output).toContain('Task Two');
+  });
+
+  test('should report the selected link for removal', async () => {
+    const removed: string[] = [];
+    const dependencies: DependencyInfo = {
+      blockedBy: [mockTask1],
+      blocks: [mockTask2],
+      relatedTo: [mockTask3],
+    };
+
+    const { stdin } = renderWithTheme(
+      <DependencyList
+        dependencies={dependencies}
+        onRemoveLink={(link) => removed.push(`${link.kind}:${link.task.id}`)}
+      />
+    );
+
+    stdin.write('j');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    stdin.write('D');
+    expect(removed).toEqual(['blocks:task-2']);
+  });
+
+  test('should call onAddLink with a when empty', () => {
+    const onAddLink = mock(() => {});
+    const { stdin, lastFrame } = renderWithTheme(
+      <DependencyList dependencies={null} onAddLink={onAddLink} />
+    );
+
+    expect(lastFrame()).toContain('a: add link');
+    stdin.write('a');
+    expect(onAddLink).toHaveBeenCalled();
+  });
 });
@@ -5,33 +5,61 @@ import type { DependencyInfo } from '../../ui/lib/types';
 import { StatusBadge } from './status-badge';
 import { useTheme } from '../../ui/context/theme-context';
 
+export type DependencyLinkKind = 'blockedBy' | 'blocks' | 'relatedTo';
+
+export interface DependencyLink {
+  kind: DependencyLinkKind;
+  task: Task;
+}
+
 interface DependencyListProps {
   dependencies: DependencyInfo | null;
   onSelectTask?: (taskId: string) => void;
+  /** Editing callbacks; `a` and `D` are only bound when provided */
+  onAddLink?: () => void;
+  onRemoveLink?: (link: DependencyLink) => void;
   isActive?: boolean;
 }
 
 export function DependencyList({
   dependencies,
   onSelectTask,
+  onAddLink,
+  onRemoveLink,
   isActive = true,
 }: DependencyListProps) {
   const { theme } = useTheme();
   const [selectedIndex, setSelectedIndex] = useState(0);
 
-  const allTasks: Task[] = [
-    ...(dependencies?.blockedBy || []),
-    ...(dependencies?.blocks || []),
+  const allLinks: DependencyLink[] = [
+    ...(dependencies?.blockedBy || []).map((task) => ({ kind: 'blockedBy' as const, task })),
+    ...(dependencies?.blocks || []).map((task) => ({ kind: 'blocks' as const, task })),
+    ...(dependencies?.relatedTo || []).map((task) => ({ kind: 'relatedTo' as const, task })),
   ];
+  const allTasks: Task[] = allLinks.map((link) => link.task);
 
   const totalTasks = allTasks.length;
   const hasBlockedBy = (dependencies?.blockedBy?.length || 0) > 0;
   const hasBlocks = (dependencies?.blocks?.length || 0) > 0;
+  const hasRelated = (dependencies?.relatedTo?.length || 0) > 0;
 
   useInput((input, key) => {
-    if (!isActive || totalTasks === 0) return;
+    if (!isActive) return;
+
+    if (input === 'a' && onAddLink) {
+      onAddLink();
+      return;
+    }
+
+    if (totalTasks === 0) return;
 
-    if (input === 'j' || key.downArrow) {
+    if (input === 'D' && onRemoveLink) {
+      const selectedLink = allLinks[Math.min(selectedIndex, totalTasks - 1)];
+      if (selectedLink) {
+        onRemoveLink(selectedLink);
+        setSelectedIndex((prev) => Math.max(0, Math.min(prev, totalTasks - 2)));
+      }
+    } else if (input === 'j' || key.downArrow) {
       const nextIndex = (selectedIndex + 1) % totalTasks;
       setSelectedIndex(nextIndex);
     } else if (input === 'k' || key.upArrow) {
@@ -48,7 +76,7 @@ export function DependencyList({
   if (!dependencies || totalTasks === 0) {
     return (
       <Box flexDirection="column">
-        <Text dimColor>No dependencies</Text>
+        <Text dimColor>No dependencies{onAddLink ? ' (a: add link)' : ''}</Text>
       </Box>
     );
   }
@@ -85,7 +113,7 @@ export function DependencyList({
       )}
 
       {hasBlocks && (
-        <Box flexDirection="column">
+        <Box flexDirection="column" marginBottom={hasRelated ? 1 : 0}>
           <Text bold color={theme.colors.accent}>
             Blocks:
           </Text>
@@ -110,6 +138,33 @@ export function DependencyList({
           })}
         </Box>
       )}
+
+      {hasRelated && (
+        <Box flexDirection="column">
+          <Text bold color={theme.colors.info}>
+            Related To:
+          </Text>
+          {dependencies.relatedTo.map((task) => {
+            const isSelected = currentIndex === selectedIndex;
+            currentIndex++;
+
+            return (
+              <Box key={task.id} marginLeft={2}>
+                <Text color={isSelected ? theme.colors.highlight : undefined}>
+                  {isSelected ? '▎' : '  '}
+                </Text>
+                <Text bold={isSelected}>
+                  ~{' '}
+                </Text>
+                <StatusBadge status={task.status} />
+                <Text bold={isSelected}>
+                  {' '}{task.title}
+                </Text>
+              </Box>
+            );
+          })}
+        </Box>
+      )}
     </Box>
   );
 }
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import type { Task } from '@allpepper/task-orchestrator';
+import type { DependencyValidation } from '../../ui/lib/dependency-graph';
+import { formatCycle } from '../../ui/lib/dependency-graph';
+import { truncateId, truncateText } from '../../ui/lib/format';
+import { useTheme } from '../../ui/context/theme-context';
+
+interface DependencyWarningsProps {
+  validation: DependencyValidation;
+  tasks: Task[];
+  maxItems?: number;
+}
+
+/**
+ * Warning panel listing dependency cycles and blockers that no longer exist.
+ * Renders nothing when the graph is clean.
+ */
+export function DependencyWarnings({ validation, tasks, maxItems = 5 }: DependencyWarningsProps) {
+  const { theme } = useTheme();
+  const { cycles, dangling } = validation;
+
+  if (cycles.length === 0 && dangling.length === 0) {
+    return null;
+  }
+
+  const titleById = new Map(tasks.map((task) => [task.id, task.title] as const));
+  const label = (id: string) => truncateText(titleById.get(id) ?? truncateId(id), 30);
+  const hidden = Math.max(0, cycles.length - maxItems) + Math.max(0, dangling.length - maxItems);
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={theme.colors.warning} paddingX={1} marginBottom={1}>
+      <Text bold color={theme.colors.warning}>
+        ⚠ Dependency warnings
+      </Text>
+      {cycles.slice(0, maxItems).map((cycle) => (
+        <Text key={`cycle-${cycle.join('-')}`} wrap="truncate-end">
+          <Text color={theme.colors.danger}>Cycle: </Text>
+          {formatCycle(cycle, label)}
+        </Text>
+      ))}
+      {dangling.slice(0, maxItems).map(({ taskId, blockerId }) => (
+        <Text key={`dangling-${taskId}-${blockerId}`} wrap="truncate-end">
+          <Text color={theme.colors.warning}>Missing blocker: </Text>
+          {label(taskId)} waits on {truncateId(blockerId)}, which no longer exists
+        </Text>
+      ))}
+      {hidden > 0 ? <Text dimColor>…and {hidden} more</Text> : null}
+    </Box>
+  );
+}
@@ -4,7 +4,9 @@ import type { BoardFeature } from '../../ui/lib/types';
 import type { Task } from '@allpepper/task-orchestrator';
 import { PriorityBadge } from './priority-badge';
 import { StatusBadge } from './status-badge';
+import { TagChips } from './tag-chips';
 import { useTheme } from '../../ui/context/theme-context';
+import { bulkKey } from '../../ui/lib/bulk';
 
 export interface FeatureKanbanCardProps {
   feature: BoardFeature;
@@ -13,6 +15,8 @@ export interface FeatureKanbanCardProps {
   selectedTaskIndex: number;
   maxTaskHeight: number;
   columnWidth: number;
+  /** Bulk selection keys; marked cards and tasks get a ✓ */
+  markedKeys?: Set<string>;
 }
 
 /**
@@ -89,6 +93,7 @@ export function FeatureKanbanCard({
   selectedTaskIndex,
   maxTaskHeight,
   columnWidth,
+  markedKeys,
 }: FeatureKanbanCardProps) {
   const { theme } = useTheme();
   const contentWidth = columnWidth - 4; // border + padding
@@ -124,6 +129,7 @@ export function FeatureKanbanCard({
     >
       {/* Feature name - full wrap, no truncation */}
       <Text bold={isSelected} wrap="wrap">
+        {markedKeys?.has(bulkKey('feature', feature.id)) && <Text color={theme.colors.accent}>✓ </Text>}
         {feature.name}
       </Text>
 
@@ -132,6 +138,7 @@ export function FeatureKanbanCard({
         <StatusBadge status={feature.status} />
         <PriorityBadge priority={feature.priority} />
         <Text dimColor>{completed}/{total}</Text>
+        <TagChips tags={feature.tags} max={2} />
       </Box>
 
       {/* Expanded: show tasks */}
@@ -158,6 +165,7 @@ export function FeatureKanbanCard({
                   key={task.id}
                   task={task}
                   isSelected={isTaskSelected}
+                  isMarked={markedKeys?.has(bulkKey('task', task.id)) ?? false}
                   treeChar={treeChar}
                   accentColor={theme.colors.accent}
                   mutedColor={theme.colors.muted}
@@ -187,12 +195,14 @@ export function FeatureKanbanCard({
 function TaskRow({
   task,
   isSelected,
+  isMarked,
   treeChar,
   accentColor,
   mutedColor,
 }: {
   task: Task;
   isSelected: boolean;
+  isMarked: boolean;
   treeChar: string;
   accentColor: string;
   mutedColor: string;
@@ -203,6 +213,7 @@ function TaskRow({
         {isSelected && <Text color={accentColor}>▎</Text>}
         <Text color={mutedColor}>{treeChar} </Text>
         <Text bold={isSelected} wrap="wrap">
+          {isMarked && <Text color={accentColor}>✓ </Text>}
           {task.title}
         </Text>
       </Box>
@@ -1,13 +1,16 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import { useTheme } from '../../ui/context/theme-context';
+import type { Command } from '../../ui/lib/commands';
 
 export interface FooterProps {
-  shortcuts: Array<{ key: string; label: string }>;
+  /** Available commands; those with a key and not hidden are listed */
+  commands: Command[];
 }
 
-export const Footer: React.FC<FooterProps> = ({ shortcuts }) => {
+export const Footer: React.FC<FooterProps> = ({ commands }) => {
   const { theme } = useTheme();
+  const shortcuts = commands.filter((command) => command.key && !command.hidden);
 
   return (
     <Box flexDirection="column">
@@ -22,10 +25,10 @@ export const Footer: React.FC<FooterProps> = ({ shortcuts }) => {
       </Box>
       <Box paddingX={1} flexWrap="wrap">
         {shortcuts.map((shortcut, i) => (
-          <Box key={`${shortcut.key}-${shortcut.label}`}>
+          <Box key={shortcut.id}>
             {i > 0 ? <Text dimColor> · </Text> : null}
             <Text color={theme.colors.accent} bold>{shortcut.key}</Text>
-            <Text> {shortcut.label}</Text>
+            <Text> {shortcut.title}</Text>
           </Box>
         ))}
       </Box>
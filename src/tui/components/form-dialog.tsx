@@ -1,12 +1,16 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { useTheme } from '../../ui/context/theme-context';
+import { useTextEntry } from '../../ui/context/text-entry-context';
+import { completeTag, tagCompletions } from '../../ui/lib/tags';
 
 export interface FormField {
   key: string;
   label: string;
   value?: string;
   required?: boolean;
+  /** Known tags; the field becomes a comma-separated tag list with Tab completion */
+  suggestions?: string[];
 }
 
 interface FormDialogProps {
@@ -76,6 +80,7 @@ export function FormDialog({
   isActive = true,
 }: FormDialogProps) {
   const { theme } = useTheme();
+  useTextEntry(isActive);
 
   const initialValues = useMemo(() => {
     const values: Record<string, string> = {};
@@ -193,6 +198,20 @@ export function FormDialog({
       return;
     }
 
+    const completions = activeField.suggestions ? tagCompletions(currentValue, activeField.suggestions) : [];
+    if (key.tab && completions[0]) {
+      const completed = completeTag(currentValue, completions[0]);
+      setValues((prev) => ({
+        ...prev,
+        [activeField.key]: completed,
+      }));
+      setCursorPositions((prev) => ({
+        ...prev,
+        [activeField.key]: toChars(completed).length,
+      }));
+      return;
+    }
+
     if (key.return || key.tab) {
       if (activeIndex < fields.length - 1) {
         const nextIndex = activeIndex + 1;
@@ -270,6 +289,7 @@ export function FormDialog({
         const isMissing = field.required && value.trim().length === 0;
         const renderedLines = value.split('\n');
         const cursorPos = getCursorLineAndColumn(value, cursor);
+        const completions = isActiveField && field.suggestions ? tagCompletions(value, field.suggestions) : [];
         return (
           <Box key={field.key} flexDirection="column" marginTop={1}>
             <Text bold={isActiveField}>
@@ -329,6 +349,12 @@ export function FormDialog({
                 )
                 : <Text>{value || '—'}</Text>}
             </Box>
+            {completions.length > 0 ? (
+              <Text dimColor>
+                Tab: <Text color={theme.colors.accent}>{completions[0]}</Text>
+                {completions.length > 1 ? `  ${completions.slice(1).join('  ')}` : ''}
+              </Text>
+            ) : null}
           </Box>
         );
       })}
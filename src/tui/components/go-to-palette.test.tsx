@@ -0,0 +1,67 @@
+import { test, expect, describe, mock } from 'bun:test';
+import React from 'react';
+import { render } from 'ink-testing-library';
+import { GoToPalette } from './go-to-palette';
+import { ThemeProvider } from '../../ui/context/theme-context';
+import { AdapterProvider } from '../../ui/context/adapter-context';
+import type { DataAdapter } from '../../ui/adapters/types';
+
+const delay = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+const adapter = {
+  getProjects: mock(async () => ({ success: true, data: [{ id: 'aa11bb22-0000', name: 'Billing' }] })),
+  getFeatures: mock(async () => ({
+    success: true,
+    data: [{ id: 'cc33dd44-0000', name: 'Invoices', status: 'ACTIVE', priority: 'HIGH', projectId: 'aa11bb22-0000' }],
+  })),
+  getTasks: mock(async () => ({
+    success: true,
+    data: [
+      { id: '550e8400-e29b', title: 'Send invoice emails', status: 'NEW', priority: 'LOW', projectId: 'aa11bb22-0000', featureId: 'cc33dd44-0000' },
+    ],
+  })),
+} as unknown as DataAdapter;
+
+function renderPalette(onSelect = mock(() => {}), onClose = mock(() => {})) {
+  return render(
+    <ThemeProvider>
+      <AdapterProvider adapter={adapter}>
+        <GoToPalette onSelect={onSelect} onClose={onClose} />
+      </AdapterProvider>
+    </ThemeProvider>
+  );
+}
+
+describe('GoToPalette', () => {
+  test('should list projects, features and tasks with their badges', async () => {
+    const { lastFrame } = renderPalette();
+    await delay();
+    const frame = lastFrame() ?? '';
+    expect(frame).toContain('Billing');
+    expect(frame).toContain('Invoices');
+    expect(frame).toContain('Send invoice emails');
+    expect(frame).toContain('Active');
+  });
+
+  test('should open the best match for a typed ID prefix', async () => {
+    const onSelect = mock(() => {});
+    const { stdin } = renderPalette(onSelect);
+    await delay();
+    for (const char of '550e') {
+      stdin.write(char);
+      await delay();
+    }
+    stdin.write('\r');
+    await delay();
+    expect(onSelect).toHaveBeenCalledWith(expect.objectContaining({ kind: 'task', featureId: 'cc33dd44-0000' }));
+  });
+
+  test('should close on Escape', async () => {
+    const onClose = mock(() => {});
+    const { stdin } = renderPalette(undefined, onClose);
+    await delay();
+    stdin.write('\u001B');
+    await delay();
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useTheme } from '../../ui/context/theme-context';
+import { useTextEntry } from '../../ui/context/text-entry-context';
+import { useGoToItems } from '../../ui/hooks/use-go-to';
+import { rankGoToItems, type GoToItem, type RankedGoToItem } from '../../ui/lib/go-to';
+import { truncateId } from '../../ui/lib/format';
+import { StatusBadge } from './status-badge';
+import { PriorityBadge } from './priority-badge';
+
+interface GoToPaletteProps {
+  onSelect: (item: GoToItem) => void;
+  onClose: () => void;
+  maxVisible?: number;
+  isActive?: boolean;
+}
+
+const KIND_LABELS: Record<GoToItem['kind'], string> = {
+  project: 'PROJ',
+  feature: 'FEAT',
+  task: 'TASK',
+};
+
+/**
+ * Title with the fuzzy-matched characters picked out
+ */
+function MatchedTitle({ entry, isSelected }: { entry: RankedGoToItem; isSelected: boolean }) {
+  const { theme } = useTheme();
+  const matched = new Set(entry.positions);
+  const chars = Array.from(entry.item.title);
+  return (
+    <Text bold={isSelected} wrap="truncate">
+      {chars.map((char, index) =>
+        matched.has(index) ? (
+          <Text key={index} color={theme.colors.highlight} underline>
+            {char}
+          </Text>
+        ) : (
+          char
+        )
+      )}
+    </Text>
+  );
+}
+
+/**
+ * Ctrl-P "go to anything": fuzzy search over project, feature and task names
+ * and ID prefixes
+ */
+export function GoToPalette({ onSelect, onClose, maxVisible = 12, isActive = true }: GoToPaletteProps) {
+  const { theme } = useTheme();
+  const { items, loading, error } = useGoToItems();
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  useTextEntry(isActive);
+
+  const ranked = useMemo(() => rankGoToItems(items, query), [items, query]);
+  const clampedIndex = Math.min(selectedIndex, Math.max(0, ranked.length - 1));
+
+  const editQuery = (next: string) => {
+    setQuery(next);
+    setSelectedIndex(0);
+  };
+
+  useInput((input, key) => {
+    if (key.escape || (key.ctrl && input === 'p')) {
+      onClose();
+      return;
+    }
+
+    if (key.return) {
+      const selected = ranked[clampedIndex];
+      if (selected) onSelect(selected.item);
+      return;
+    }
+
+    if (key.downArrow || (key.ctrl && input === 'n')) {
+      if (ranked.length > 0) setSelectedIndex((clampedIndex + 1) % ranked.length);
+      return;
+    }
+
+    if (key.upArrow) {
+      if (ranked.length > 0) setSelectedIndex((clampedIndex - 1 + ranked.length) % ranked.length);
+      return;
+    }
+
+    if (key.ctrl && input === 'u') {
+      editQuery('');
+      return;
+    }
+
+    if (key.backspace || key.delete) {
+      editQuery(query.slice(0, -1));
+      return;
+    }
+
+    if (input && input.length === 1 && !key.ctrl && !key.meta) {
+      editQuery(`${query}${input}`);
+    }
+  }, { isActive });
+
+  // Keep the highlighted row inside the visible window
+  const start = Math.max(0, clampedIndex - maxVisible + 1);
+  const visible = ranked.slice(start, start + maxVisible);
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={theme.colors.highlight} paddingX={1} marginY={1}>
+      <Text bold>Go to</Text>
+      <Box>
+        <Text color={theme.colors.accent}>{'> '}</Text>
+        <Text>{query}</Text>
+        <Text inverse> </Text>
+      </Box>
+      <Box flexDirection="column" marginTop={1}>
+        {error ? (
+          <Text color={theme.colors.danger}>{error}</Text>
+        ) : loading && items.length === 0 ? (
+          <Text dimColor>Loading...</Text>
+        ) : ranked.length === 0 ? (
+          <Text dimColor>No matches</Text>
+        ) : (
+          visible.map((entry, offset) => {
+            const isSelected = start + offset === clampedIndex;
+            const { item } = entry;
+            return (
+              <Box key={`${item.kind}-${item.id}`} gap={1}>
+                <Text color={isSelected ? theme.colors.highlight : undefined}>{isSelected ? '▎' : ' '}</Text>
+                <Text dimColor>{KIND_LABELS[item.kind]}</Text>
+                <Text color={entry.byId ? theme.colors.highlight : theme.colors.muted}>{truncateId(item.id)}</Text>
+                <Box flexShrink={1}>
+                  <MatchedTitle entry={entry} isSelected={isSelected} />
+                </Box>
+                {item.status ? <StatusBadge status={item.status} /> : null}
+                {item.priority ? <PriorityBadge priority={item.priority} /> : null}
+              </Box>
+            );
+          })
+        )}
+      </Box>
+      <Text dimColor>Type a name or ID prefix • ↑/↓ move • Enter open • Ctrl-U clear • Esc close</Text>
+    </Box>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useTheme } from '../../ui/context/theme-context';
+import { useAdapter } from '../../ui/context/adapter-context';
+import type { Result } from '../../ui/adapters/types';
+import {
+  applyImport,
+  describeImport,
+  outlinePlan,
+  parseImportFormat,
+  planForTarget,
+  readImport,
+  summarizePlan,
+  IMPORT_FORMATS,
+  type ImportPlan,
+  type ImportSummary,
+  type ImportTarget,
+} from '../../ui/import';
+import { FormDialog } from './form-dialog';
+
+/** Preview lines before the rest is folded into "… N more" */
+const MAX_PREVIEW_LINES = 12;
+const MAX_PREVIEW_WARNINGS = 5;
+
+interface ImportDialogProps {
+  /** Shown in the title: the project or feature being imported into */
+  targetName: string;
+  target: ImportTarget;
+  onCancel: () => void;
+  /** Called once the import ran, successfully or after a rollback */
+  onDone: (result: Result<ImportSummary>) => void;
+  isActive?: boolean;
+}
+
+type Step = 'file' | 'preview' | 'applying';
+
+/**
+ * Ask for a file, show what importing it would create (nothing is written
+ * yet), then create it on Enter
+ */
+export function ImportDialog({ targetName, target, onCancel, onDone, isActive = true }: ImportDialogProps) {
+  const { theme } = useTheme();
+  const { adapter, history, untrackedAdapter } = useAdapter();
+  const [step, setStep] = useState<Step>('file');
+  const [path, setPath] = useState('');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (submitted: Record<string, string>) => {
+    const file = submitted.path?.trim() ?? '';
+    const formatName = submitted.format?.trim() ?? '';
+    const format = formatName ? parseImportFormat(formatName) : undefined;
+    if (format === null) {
+      setError(`Unknown format "${formatName}" (use ${IMPORT_FORMATS.join(', ')})`);
+      return;
+    }
+    const result = await readImport(file, format);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setPath(file);
+    setPlan(planForTarget(result.data, target));
+    setStep('preview');
+  };
+
+  useInput((_input, key) => {
+    if (!plan) return;
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+    if (key.return) {
+      setStep('applying');
+      applyImport(adapter, plan, target, { history, untracked: untrackedAdapter }).then(onDone);
+    }
+  }, { isActive: isActive && step === 'preview' });
+
+  if (step === 'file' || !plan) {
+    return (
+      <FormDialog
+        title={`Import into ${targetName}`}
+        description={error ?? `Markdown checklist, CSV or JSON export. Format: ${IMPORT_FORMATS.join(', ')} (empty: from the extension).`}
+        fields={[
+          { key: 'path', label: 'File', required: true },
+          { key: 'format', label: 'Format' },
+        ]}
+        onCancel={onCancel}
+        onSubmit={handleFile}
+        isActive={isActive}
+      />
+    );
+  }
+
+  const lines = outlinePlan(plan);
+  const hidden = lines.length - MAX_PREVIEW_LINES;
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={theme.colors.highlight} paddingX={1} marginY={1}>
+      <Text bold>Import preview · {targetName}</Text>
+      <Text dimColor>Dry run of {path}: {describeImport(summarizePlan(plan))} would be created</Text>
+      <Box flexDirection="column" marginY={1}>
+        {lines.slice(0, MAX_PREVIEW_LINES).map((line, index) => (
+          <Text key={index} wrap="truncate-end">{line}</Text>
+        ))}
+        {hidden > 0 && <Text dimColor>… {hidden} more</Text>}
+      </Box>
+      {plan.warnings.slice(0, MAX_PREVIEW_WARNINGS).map((warning, index) => (
+        <Text key={index} color={theme.colors.warning} wrap="truncate-end">! {warning}</Text>
+      ))}
+      {plan.warnings.length > MAX_PREVIEW_WARNINGS && (
+        <Text dimColor>… {plan.warnings.length - MAX_PREVIEW_WARNINGS} more warnings</Text>
+      )}
+      <Text dimColor>{step === 'applying' ? 'Importing...' : '[Enter] Import  [Esc] Cancel'}</Text>
+    </Box>
+  );
+}
@@ -5,12 +5,29 @@ export { EntityTable } from './entity-table';
 export { PriorityBadge } from './priority-badge';
 export { TreeView, type TreeRow } from './tree-view';
 export { SectionList, type SectionListProps } from './section-list';
+export { SectionFormDialog } from './section-form-dialog';
 export { StatusActions } from './status-actions';
-export { DependencyList } from './dependency-list';
+export { DependencyList, type DependencyLink, type DependencyLinkKind } from './dependency-list';
+export { TaskPicker } from './task-picker';
+export { DependencyWarnings } from './dependency-warnings';
+export { DependencyGraph } from './dependency-graph';
+export { DependencyAnalysisPanel } from './dependency-analysis';
 export { KanbanCard, type KanbanCardProps } from './kanban-card';
 export { KanbanColumn } from './kanban-column';
 export { KanbanBoard } from './kanban-board';
+export { TaskKanbanBoard } from './task-kanban-board';
 export { ConfirmDialog } from './confirm-dialog';
 export { ErrorMessage } from './error-message';
+export { Toast, type ToastTone } from './toast';
 export { EmptyState } from './empty-state';
 export { FormDialog, type FormField } from './form-dialog';
+export { ConflictDialog } from './conflict-dialog';
+export { ActivityList } from './activity-list';
+export { BarChart, type BarChartRow } from './bar-chart';
+export { ProgressCharts } from './progress-charts';
+export { ImportDialog } from './import-dialog';
+export { BulkActionsDialog } from './bulk-actions-dialog';
+export { TagChips } from './tag-chips';
+export { GoToPalette } from './go-to-palette';
+export { CommandPalette } from './command-palette';
+export { ThemeSwitcher } from './theme-switcher';
@@ -5,6 +5,7 @@ import { KanbanBoard } from './kanban-board';
 import type { FeatureBoardColumn, BoardFeature } from '../../ui/lib/types';
 import { Priority } from '@allpepper/task-orchestrator';
 import { ThemeProvider } from '../../ui/context/theme-context';
+import { FEATURE_KANBAN_STATUSES } from '../../ui/hooks/use-feature-kanban';
 
 function makeFeature(overrides: Partial<BoardFeature> & { id: string; name: string }): BoardFeature {
   return {
@@ -556,4 +557,78 @@ describe('KanbanBoard', () => {
       expect(taskIndex).toBe(-1);
     });
   });
+
+  describe('bulk selection', () => {
+    test('should mark the selected feature with Space', () => {
+      const marked: string[] = [];
+      const { stdin } = render(
+        <ThemeProvider>
+          <KanbanBoard
+            {...defaultProps}
+            selectedFeatureIndex={1}
+            onToggleMark={(key) => { marked.push(key); }}
+          />
+        </ThemeProvider>
+      );
+
+      stdin.write(' ');
+      expect(marked).toEqual(['feature:feat-2']);
+    });
+
+    test('should mark a range of tasks with V in task mode', () => {
+      const ranges: Array<{ keys: string[]; index: number }> = [];
+      const { stdin } = render(
+        <ThemeProvider>
+          <KanbanBoard
+            {...defaultProps}
+            activeColumnIndex={1}
+            selectedFeatureIndex={0}
+            expandedFeatureId="feat-3"
+            selectedTaskIndex={1}
+            onMarkRange={(keys, index) => { ranges.push({ keys, index }); }}
+          />
+        </ThemeProvider>
+      );
+
+      stdin.write('V');
+      expect(ranges).toEqual([{ keys: ['task:task-1', 'task:task-2'], index: 1 }]);
+    });
+
+    test('should show a check on marked cards', () => {
+      const { lastFrame } = render(
+        <ThemeProvider>
+          <KanbanBoard {...defaultProps} markedKeys={new Set(['feature:feat-1'])} />
+        </ThemeProvider>
+      );
+
+      expect(lastFrame()).toContain('✓ Feature A');
+      expect(lastFrame()).not.toContain('✓ Feature D');
+    });
+  });
+
+  describe('tag filter', () => {
+    test('should move the filter cursor past the statuses onto tag chips', () => {
+      const cursor: number[] = [];
+      const toggled: string[] = [];
+      const { stdin, lastFrame } = render(
+        <ThemeProvider>
+          <KanbanBoard
+            {...defaultProps}
+            isFilterMode
+            filterCursorIndex={FEATURE_KANBAN_STATUSES.length}
+            tags={['api', 'ui']}
+            activeTags={new Set(['ui'])}
+            onFilterCursorChange={(index) => { cursor.push(index); }}
+            onToggleTag={(tag) => { toggled.push(tag); }}
+          />
+        </ThemeProvider>
+      );
+
+      expect(lastFrame()).toContain('#api [#ui]');
+      stdin.write(' ');
+      expect(toggled).toEqual(['api']);
+      stdin.write('h');
+      expect(cursor).toEqual([FEATURE_KANBAN_STATUSES.length - 1]);
+    });
+  });
 });
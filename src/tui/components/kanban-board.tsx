@@ -5,6 +5,7 @@ import { KanbanColumn } from './kanban-column';
 import { ColumnFilterBar } from './column-filter-bar';
 import { FEATURE_KANBAN_STATUSES } from '../../ui/hooks/use-feature-kanban';
 import { useTheme } from '../../ui/context/theme-context';
+import { bulkKey } from '../../ui/lib/bulk';
 
 const MAX_VISIBLE_COLUMNS = 3;
 
@@ -20,6 +21,10 @@ interface KanbanBoardProps {
   onTaskChange: (index: number) => void;
   onSelectTask: (taskId: string) => void;
   onMoveFeature?: (featureId: string, newStatus: string) => void;
+  /** Bulk selection: Space marks the card or task under the cursor, V a range */
+  markedKeys?: Set<string>;
+  onToggleMark?: (key: string) => void;
+  onMarkRange?: (keys: string[], index: number) => void;
   isActive?: boolean;
   availableHeight?: number;
   availableWidth?: number;
@@ -30,6 +35,10 @@ interface KanbanBoardProps {
   onToggleStatus: (status: string) => void;
   onFilterCursorChange: (index: number) => void;
   onFilterModeChange: (isFilterMode: boolean) => void;
+  /** Tag filter chips; a board without tags only filters by status */
+  tags?: string[];
+  activeTags?: Set<string>;
+  onToggleTag?: (tag: string) => void;
 }
 
 export function KanbanBoard({
@@ -44,6 +53,9 @@ export function KanbanBoard({
   onTaskChange,
   onSelectTask,
   onMoveFeature,
+  markedKeys,
+  onToggleMark,
+  onMarkRange,
   isActive = true,
   availableHeight,
   availableWidth,
@@ -53,6 +65,9 @@ export function KanbanBoard({
   onToggleStatus,
   onFilterCursorChange,
   onFilterModeChange,
+  tags = [],
+  activeTags,
+  onToggleTag,
 }: KanbanBoardProps) {
   const [isMoveMode, setIsMoveMode] = useState(false);
   const { theme } = useTheme();
@@ -88,20 +103,24 @@ export function KanbanBoard({
           onFilterModeChange(false);
           return;
         }
+        const chipCount = FEATURE_KANBAN_STATUSES.length + tags.length;
         if (input === 'h' || key.leftArrow) {
-          const newIdx = (filterCursorIndex - 1 + FEATURE_KANBAN_STATUSES.length) % FEATURE_KANBAN_STATUSES.length;
+          const newIdx = (filterCursorIndex - 1 + chipCount) % chipCount;
           onFilterCursorChange(newIdx);
           return;
         }
         if (input === 'l' || key.rightArrow) {
-          const newIdx = (filterCursorIndex + 1) % FEATURE_KANBAN_STATUSES.length;
+          const newIdx = (filterCursorIndex + 1) % chipCount;
           onFilterCursorChange(newIdx);
           return;
         }
         if (input === ' ') {
           const status = FEATURE_KANBAN_STATUSES[filterCursorIndex];
+          const tag = tags[filterCursorIndex - FEATURE_KANBAN_STATUSES.length];
           if (status) {
             onToggleStatus(status.status);
+          } else if (tag) {
+            onToggleTag?.(tag);
           }
           return;
         }
@@ -184,6 +203,16 @@ export function KanbanBoard({
           return;
         }
 
+        // Mark tasks of the expanded feature
+        if ((input === ' ' && onToggleMark) || (input === 'V' && onMarkRange)) {
+          const keys = expandedFeature.tasks.map((task) => bulkKey('task', task.id));
+          const taskKey = keys[selectedTaskIndex];
+          if (!taskKey) return;
+          if (input === ' ') onToggleMark?.(taskKey);
+          else onMarkRange?.(keys, selectedTaskIndex);
+          return;
+        }
+
         // Select task → open TaskDetail
         if (key.return) {
           const task = expandedFeature.tasks[selectedTaskIndex];
@@ -255,6 +284,16 @@ export function KanbanBoard({
         return;
       }
 
+      // Mark features of the active column
+      if ((input === ' ' && onToggleMark) || (input === 'V' && onMarkRange)) {
+        const keys = activeColumn.features.map((feature) => bulkKey('feature', feature.id));
+        const featureKey = keys[selectedFeatureIndex];
+        if (!featureKey) return;
+        if (input === ' ') onToggleMark?.(featureKey);
+        else onMarkRange?.(keys, selectedFeatureIndex);
+        return;
+      }
+
       // Expand feature (Enter)
       if (key.return) {
         const feature = activeColumn.features[selectedFeatureIndex];
@@ -279,6 +318,8 @@ export function KanbanBoard({
           activeStatuses={activeStatuses}
           isFilterMode={isFilterMode}
           filterCursorIndex={filterCursorIndex}
+          tags={tags}
+          activeTags={activeTags}
         />
       )}
 
@@ -306,6 +347,7 @@ export function KanbanBoard({
               selectedFeatureIndex={isColumnActive ? selectedFeatureIndex : -1}
               expandedFeatureId={isColumnActive ? expandedFeatureId : null}
               selectedTaskIndex={isColumnActive ? selectedTaskIndex : -1}
+              markedKeys={markedKeys}
               availableHeight={availableHeight}
               columnWidth={columnWidth}
             />
@@ -324,8 +366,8 @@ export function KanbanBoard({
 
       {/* Move mode indicator */}
       {isMoveMode && (
-        <Box marginTop={1} borderStyle="round" borderColor="yellow" paddingX={1}>
-          <Text color="yellow" bold>
+        <Box marginTop={1} borderStyle="round" borderColor={theme.colors.warning} paddingX={1}>
+          <Text color={theme.colors.warning} bold>
             MOVE: ←/→ to move, Esc cancel
           </Text>
         </Box>
@@ -1,14 +1,21 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import type { BoardTask } from '../../ui/lib/types';
+import { useTheme } from '../../ui/context/theme-context';
 import { PriorityBadge } from './priority-badge';
+import { TagChips } from './tag-chips';
 
 export interface KanbanCardProps {
   task: BoardTask;
   isSelected: boolean;
   compact?: boolean;
+  /** Card width including its border; titles are cut to fit */
+  width?: number;
 }
 
+/** Lines a full card takes: border, title, priority row, feature row, tags */
+export const KANBAN_CARD_HEIGHT = 6;
+
 /**
  * KanbanCard Component
  *
@@ -17,19 +24,23 @@ export interface KanbanCardProps {
  * Normal mode:
  * ┌──────────────────────┐
  * │ Task title here...   │
- * │ ●●○ HIGH  #tag1      │
+ * │ ●●○ HIGH  C5 BLOCKED │
+ * │ [Feature name]       │
+ * │ #tag1 #tag2          │
  * └──────────────────────┘
  *
  * Compact mode:
  * │ Task title...  ●●○   │
  */
-export function KanbanCard({ task, isSelected, compact = false }: KanbanCardProps) {
+export function KanbanCard({ task, isSelected, compact = false, width = 26 }: KanbanCardProps) {
+  const { theme } = useTheme();
   const truncateText = (text: string, maxLength: number): string => {
     if (text.length <= maxLength) return text;
     return text.slice(0, maxLength - 3) + '...';
   };
 
   const featureLabel = task.featureName ?? '—';
+  const isBlocked = task.blockedBy.length > 0;
 
   if (compact) {
     // Compact mode: single line with title and priority dots
@@ -43,15 +54,18 @@ export function KanbanCard({ task, isSelected, compact = false }: KanbanCardProp
     );
   }
 
-  // Normal mode: bordered card with title, priority, and tag
-  // Card fills column width; content area = column content (26) - card borders (2) - card padding (2) = 22
-  const title = truncateText(task.title, 22);
+  // Normal mode: bordered card with title, priority, complexity, feature and tags
+  // Content area = card width - card borders (2) - card padding (2)
+  const contentWidth = Math.max(8, width - 4);
+  const title = truncateText(task.title, contentWidth);
 
   return (
     <Box
-      borderStyle="single"
+      borderStyle={isSelected ? 'double' : 'single'}
+      borderColor={isSelected ? theme.colors.accent : theme.colors.border}
       paddingX={1}
       flexDirection="column"
+      width={width}
     >
       <Text bold={isSelected}>
         {title}
@@ -62,9 +76,14 @@ export function KanbanCard({ task, isSelected, compact = false }: KanbanCardProp
           {task.priority}
         </Text>
         <Text bold={isSelected} dimColor>
-          [{featureLabel}]
+          C{task.complexity}
         </Text>
+        {isBlocked && <Text color={theme.colors.blocked} bold>BLOCKED</Text>}
       </Box>
+      <Text bold={isSelected} dimColor wrap="truncate">
+        [{truncateText(featureLabel, contentWidth - 2)}]
+      </Text>
+      <TagChips tags={task.tags} max={2} />
     </Box>
   );
 }
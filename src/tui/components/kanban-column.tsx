@@ -11,6 +11,7 @@ interface KanbanColumnProps {
   selectedFeatureIndex: number;
   expandedFeatureId: string | null;
   selectedTaskIndex: number;
+  markedKeys?: Set<string>;
   availableHeight?: number;
   columnWidth?: number;
 }
@@ -27,6 +28,7 @@ export function KanbanColumn({
   selectedFeatureIndex,
   expandedFeatureId,
   selectedTaskIndex,
+  markedKeys,
   availableHeight,
   columnWidth: columnWidthProp,
 }: KanbanColumnProps) {
@@ -154,6 +156,7 @@ export function KanbanColumn({
                 isSelected={isFeatureSelected}
                 isExpanded={feature.id === expandedFeatureId}
                 selectedTaskIndex={isFeatureSelected ? selectedTaskIndex : -1}
+                markedKeys={markedKeys}
                 maxTaskHeight={maxTaskHeight}
                 columnWidth={COLUMN_WIDTH - 4}
               />
@@ -0,0 +1,42 @@
+import { test, expect, describe } from 'bun:test';
+import React from 'react';
+import { render } from 'ink-testing-library';
+import { ProgressCharts } from './progress-charts';
+import { ThemeProvider } from '../../ui/context/theme-context';
+import { noColorTheme } from '../../ui/themes/no-color';
+import type { FlowTask } from '../../ui/lib/flow';
+
+const now = new Date('2026-03-31T12:00:00Z');
+const created = new Date('2026-03-20T12:00:00Z');
+
+function flowTask(id: string, status: string): FlowTask {
+  return { id, status, complexity: 2, createdAt: created, modifiedAt: created };
+}
+
+describe('ProgressCharts', () => {
+  test('should tell bands apart by their fill without colour', () => {
+    const tasks = [flowTask('a', 'NEW'), flowTask('b', 'ACTIVE')];
+    const { lastFrame } = render(
+      <ThemeProvider initialTheme={noColorTheme}>
+        <ProgressCharts tasks={tasks} transitions={[]} now={now} isActive={false} />
+      </ThemeProvider>
+    );
+    const frame = lastFrame() ?? '';
+
+    expect(frame).toContain(': New');
+    expect(frame).toContain('░ Active');
+    expect(frame).toContain('▒ To Be Tested');
+    expect(frame).toContain('::');
+    expect(frame).toContain('░░');
+  });
+
+  test('should keep solid bands when colour is available', () => {
+    const { lastFrame } = render(
+      <ThemeProvider>
+        <ProgressCharts tasks={[flowTask('a', 'NEW')]} transitions={[]} now={now} isActive={false} />
+      </ThemeProvider>
+    );
+
+    expect(lastFrame()).toContain('█ New');
+  });
+});
@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Text, useInput, useStdout } from 'ink';
+import { useTheme } from '../../ui/context/theme-context';
+import { getStatusColor, getStatusFill, TASK_STATUS_ORDER } from '../../ui/lib/colors';
+import { columnChart, stackColumns } from '../../ui/lib/charts';
+import {
+  PROGRESS_RANGES,
+  rangeStart,
+  sampleDates,
+  sampleFlow,
+  type FlowSample,
+  type FlowTask,
+  type ProgressRange,
+} from '../../ui/lib/flow';
+import type { StatusTransition } from '../../ui/lib/metrics';
+import { formatShortDate, formatStatus } from '../../ui/lib/format';
+import { EmptyState } from './empty-state';
+
+const FLOW_HEIGHT = 8;
+const BURNDOWN_HEIGHT = 5;
+const MAX_CHART_WIDTH = 60;
+/** Below this many columns the charts turn into a table */
+const MIN_CHART_COLUMNS = 50;
+const TABLE_ROWS = 6;
+const AXIS_WIDTH = 5;
+
+const RANGE_LABELS: Record<ProgressRange, string> = {
+  '7d': 'last 7 days',
+  '30d': 'last 30 days',
+  '90d': 'last 90 days',
+  all: 'all time',
+};
+
+interface ProgressChartsProps {
+  tasks: FlowTask[];
+  transitions: StatusTransition[];
+  /** End of the charts; defaults to when the data was rendered */
+  now?: Date;
+  isActive?: boolean;
+}
+
+interface Segment {
+  text: string;
+  color?: string;
+}
+
+interface BandStyle {
+  color: string;
+  fill: string;
+}
+
+/**
+ * Merge neighbouring cells of the same band so a row renders as few Text nodes
+ */
+function rowSegments(cells: Array<number | null>, styleOf: (band: number) => BandStyle): Segment[] {
+  const segments: Array<Segment & { band: number | null }> = [];
+  for (const band of cells) {
+    const style = band === null ? null : styleOf(band);
+    const last = segments[segments.length - 1];
+    if (last && last.band === band) {
+      last.text += style?.fill ?? ' ';
+    } else {
+      segments.push({ band, text: style?.fill ?? ' ', color: style?.color });
+    }
+  }
+  return segments;
+}
+
+function axisLabel(value: number | string): string {
+  return String(value).padStart(AXIS_WIDTH - 1) + ' ';
+}
+
+function total(sample: FlowSample): number {
+  return Object.values(sample.counts).reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Cumulative-flow diagram (tasks per status, stacked with finished work at
+ * the bottom) and a burndown of open complexity points. `d` cycles the date
+ * range; narrow terminals get a plain table instead.
+ */
+export function ProgressCharts({ tasks, transitions, now, isActive = true }: ProgressChartsProps) {
+  const { theme } = useTheme();
+  const { stdout } = useStdout();
+  const [range, setRange] = useState<ProgressRange>('30d');
+
+  const terminalCols = stdout?.columns ?? 120;
+  const narrow = terminalCols < MIN_CHART_COLUMNS;
+  const width = Math.max(10, Math.min(MAX_CHART_WIDTH, terminalCols - AXIS_WIDTH - 6));
+
+  useInput((input) => {
+    if (input === 'd') {
+      setRange((current) => PROGRESS_RANGES[(PROGRESS_RANGES.indexOf(current) + 1) % PROGRESS_RANGES.length] ?? '30d');
+    }
+  }, { isActive });
+
+  const samples = useMemo(() => {
+    const end = now ?? new Date();
+    const dates = sampleDates(rangeStart(range, tasks, end), end, narrow ? TABLE_ROWS : width);
+    return sampleFlow(tasks, transitions, dates, end);
+  }, [tasks, transitions, now, range, narrow, width]);
+
+  // Finished work at the bottom, backlog on top
+  const stackOrder = [...TASK_STATUS_ORDER].reverse();
+  // Without colour each band keeps apart by its fill
+  const bandStyle = (band: number): BandStyle => ({
+    color: getStatusColor(stackOrder[band] ?? '', theme),
+    fill: getStatusFill(stackOrder[band] ?? '', theme),
+  });
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+
+  const header = (
+    <Text>
+      <Text bold>Progress</Text>
+      <Text dimColor> · {RANGE_LABELS[range]} (d: change range)</Text>
+    </Text>
+  );
+
+  if (tasks.length === 0 || !first || !last) {
+    return (
+      <Box flexDirection="column">
+        {header}
+        <EmptyState message="No tasks to chart" hint="" />
+      </Box>
+    );
+  }
+
+  if (narrow) {
+    return (
+      <Box flexDirection="column">
+        {header}
+        {samples.map((sample) => (
+          <Text key={sample.date.getTime()} wrap="truncate-end">
+            <Text dimColor>{formatShortDate(sample.date)} </Text>
+            {TASK_STATUS_ORDER.filter((status) => sample.counts[status]).map((status) => (
+              <Text key={status} color={getStatusColor(status, theme)}>
+                {status} {sample.counts[status]}{' '}
+              </Text>
+            ))}
+            <Text dimColor>· {sample.remaining} pts</Text>
+          </Text>
+        ))}
+      </Box>
+    );
+  }
+
+  const flowMax = Math.max(1, ...samples.map(total));
+  const flowRows = stackColumns(
+    samples.map((sample) => stackOrder.map((status) => sample.counts[status] ?? 0)),
+    FLOW_HEIGHT,
+    flowMax
+  );
+  const burndownMax = Math.max(1, ...samples.map((sample) => sample.remaining));
+  const burndownRows = columnChart(samples.map((sample) => sample.remaining), BURNDOWN_HEIGHT, burndownMax);
+  const dateAxis = ' '.repeat(AXIS_WIDTH) + formatShortDate(first.date).padEnd(width - 5) + formatShortDate(last.date);
+
+  return (
+    <Box flexDirection="column">
+      {header}
+
+      <Box marginTop={1} flexDirection="column">
+        <Text bold>Cumulative flow</Text>
+        {flowRows.map((cells, row) => (
+          <Text key={row}>
+            <Text dimColor>{axisLabel(row === 0 ? flowMax : row === FLOW_HEIGHT - 1 ? 0 : '')}</Text>
+            {rowSegments(cells, bandStyle).map((segment, index) => (
+              <Text key={index} color={segment.color}>{segment.text}</Text>
+            ))}
+          </Text>
+        ))}
+        <Text dimColor>{dateAxis}</Text>
+        <Text wrap="truncate-end">
+          {' '.repeat(AXIS_WIDTH)}
+          {TASK_STATUS_ORDER.map((status) => (
+            <Text key={status} color={getStatusColor(status, theme)}>
+              {getStatusFill(status, theme)} {formatStatus(status)}{'  '}
+            </Text>
+          ))}
+        </Text>
+      </Box>
+
+      <Box marginTop={1} flexDirection="column">
+        <Text>
+          <Text bold>Burndown</Text>
+          <Text dimColor> · open complexity points, {first.remaining} → {last.remaining}</Text>
+        </Text>
+        {burndownRows.map((line, row) => (
+          <Text key={row}>
+            <Text dimColor>{axisLabel(row === 0 ? burndownMax : row === BURNDOWN_HEIGHT - 1 ? 0 : '')}</Text>
+            <Text color={theme.colors.accent}>{line}</Text>
+          </Text>
+        ))}
+        <Text dimColor>{dateAxis}</Text>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { Section } from '@allpepper/task-orchestrator';
+import type { SectionDraft } from '../../ui/hooks/use-section-actions';
+import { FormDialog } from './form-dialog';
+
+interface SectionFormDialogProps {
+  /** Section being edited; omit to create a new one */
+  section?: Section;
+  onSubmit: (draft: SectionDraft) => void;
+  onCancel: () => void;
+}
+
+export function SectionFormDialog({ section, onSubmit, onCancel }: SectionFormDialogProps) {
+  return (
+    <FormDialog
+      title={section ? 'Edit Section' : 'Add Section'}
+      fields={[
+        { key: 'title', label: 'Title', required: true, value: section?.title ?? '' },
+        { key: 'usageDescription', label: 'Usage Description', value: section?.usageDescription ?? '' },
+        { key: 'contentFormat', label: 'Format (MARKDOWN/PLAIN_TEXT/JSON/CODE)', required: true, value: section?.contentFormat ?? 'MARKDOWN' },
+        { key: 'content', label: 'Content', required: true, value: section?.content ?? '' },
+      ]}
+      onCancel={onCancel}
+      onSubmit={(values) => {
+        onSubmit({
+          title: values.title ?? '',
+          usageDescription: values.usageDescription ?? '',
+          contentFormat: values.contentFormat ?? '',
+          content: values.content ?? '',
+        });
+      }}
+    />
+  );
+}
@@ -218,4 +218,54 @@ describe('SectionList', () => {
     expect(output).toContain('Implementation Details');
     expect(output).toContain('This section contains the implementation details...');
   });
+
+  test('should invoke authoring callbacks for the selected section', () => {
+    const calls: string[] = [];
+    const { stdin } = render(
+      <ThemeProvider>
+        <SectionList
+          sections={mockSections}
+          selectedIndex={1}
+          onSelectedIndexChange={() => {}}
+          onAddSection={() => calls.push('add')}
+          onEditSection={(section) => calls.push(`edit:${section.id}`)}
+          onDeleteSection={(section) => calls.push(`delete:${section.id}`)}
+          onMoveSection={(section, offset) => calls.push(`move:${section.id}:${offset}`)}
+        />
+      </ThemeProvider>
+    );
+
+    stdin.write('a');
+    stdin.write('E');
+    stdin.write('D');
+    stdin.write('K');
+    stdin.write('J');
+    expect(calls).toEqual([
+      'add',
+      'edit:section-2',
+      'delete:section-2',
+      'move:section-2:-1',
+      'move:section-2:1',
+    ]);
+  });
+
+  test('should allow adding a section when the list is empty', () => {
+    let added = false;
+    const { stdin, lastFrame } = render(
+      <ThemeProvider>
+        <SectionList
+          sections={[]}
+          selectedIndex={0}
+          onSelectedIndexChange={() => {}}
+          onAddSection={() => {
+            added = true;
+          }}
+        />
+      </ThemeProvider>
+    );
+
+    expect(lastFrame()).toContain('a: add section');
+    stdin.write('a');
+    expect(added).toBe(true);
+  });
 });
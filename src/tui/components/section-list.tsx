@@ -9,6 +9,11 @@ export interface SectionListProps {
   selectedIndex: number;
   onSelectedIndexChange: (index: number) => void;
   isActive?: boolean;
+  /** Authoring callbacks; keys are only bound when the callback is provided */
+  onAddSection?: () => void;
+  onEditSection?: (section: Section) => void;
+  onDeleteSection?: (section: Section) => void;
+  onMoveSection?: (section: Section, offset: -1 | 1) => void;
 }
 
 export function SectionList({
@@ -16,17 +21,38 @@ export function SectionList({
   selectedIndex,
   onSelectedIndexChange,
   isActive = true,
+  onAddSection,
+  onEditSection,
+  onDeleteSection,
+  onMoveSection,
 }: SectionListProps) {
   const { theme } = useTheme();
-  const [expandedSections, setExpandedSections] = useState<Set<string>>(
-    new Set(sections.map(s => s.id))
-  );
+  // Track collapsed rather than expanded sections so newly added ones start expanded
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
 
   useInput((input, key) => {
-    if (!isActive || sections.length === 0) return;
+    if (!isActive) return;
+
+    if (input === 'a' && onAddSection) {
+      onAddSection();
+      return;
+    }
+
+    if (sections.length === 0) return;
+
+    const selected = sections[selectedIndex];
 
-    // Navigation: j/down or k/up
-    if (input === 'j' || key.downArrow) {
+    // Authoring: E edit, D delete, J/K move down/up
+    if (input === 'E' && selected && onEditSection) {
+      onEditSection(selected);
+    } else if (input === 'D' && selected && onDeleteSection) {
+      onDeleteSection(selected);
+    } else if (input === 'J' && selected && onMoveSection) {
+      onMoveSection(selected, 1);
+    } else if (input === 'K' && selected && onMoveSection) {
+      onMoveSection(selected, -1);
+    } else if (input === 'j' || key.downArrow) {
+      // Navigation: j/down or k/up
       const nextIndex = (selectedIndex + 1) % sections.length;
       onSelectedIndexChange(nextIndex);
     } else if (input === 'k' || key.upArrow) {
@@ -35,7 +61,7 @@ export function SectionList({
     } else if ((key.return || input === ' ') && sections[selectedIndex]) {
       // Toggle expansion: Enter or Space
       const section = sections[selectedIndex];
-      setExpandedSections(prev => {
+      setCollapsedSections(prev => {
         const next = new Set(prev);
         if (next.has(section.id)) {
           next.delete(section.id);
@@ -50,7 +76,7 @@ export function SectionList({
   if (sections.length === 0) {
     return (
       <Box>
-        <Text dimColor>No sections available</Text>
+        <Text dimColor>No sections available{onAddSection ? ' (a: add section)' : ''}</Text>
       </Box>
     );
   }
@@ -59,7 +85,7 @@ export function SectionList({
     <Box flexDirection="column">
       {sections.map((section, index) => {
         const isSelected = index === selectedIndex;
-        const isExpanded = expandedSections.has(section.id);
+        const isExpanded = !collapsedSections.has(section.id);
         const expandIcon = isExpanded ? '▼' : '▶';
 
         return (
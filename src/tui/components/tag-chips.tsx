@@ -0,0 +1,26 @@
+import React from 'react';
+import { Text } from 'ink';
+import { useTheme } from '../../ui/context/theme-context';
+
+interface TagChipsProps {
+  tags?: string[];
+  /** Tags beyond this many collapse into "+N" */
+  max?: number;
+}
+
+/**
+ * Inline `#tag` chips; renders nothing for an untagged entity
+ */
+export function TagChips({ tags, max = 3 }: TagChipsProps) {
+  const { theme } = useTheme();
+  if (!tags || tags.length === 0) return null;
+
+  const shown = tags.slice(0, max);
+  const hidden = tags.length - shown.length;
+  return (
+    <Text color={theme.colors.accent} wrap="truncate">
+      {shown.map((tag) => `#${tag}`).join(' ')}
+      {hidden > 0 && <Text dimColor>{` +${hidden}`}</Text>}
+    </Text>
+  );
+}
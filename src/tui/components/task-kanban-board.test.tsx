@@ -0,0 +1,105 @@
+import React from 'react';
+import { test, expect, describe, mock } from 'bun:test';
+import { render } from 'ink-testing-library';
+import { Priority } from '@allpepper/task-orchestrator';
+import { TaskKanbanBoard } from './task-kanban-board';
+import type { BoardColumn, BoardTask } from '../../ui/lib/types';
+import { ThemeProvider } from '../../ui/context/theme-context';
+
+function makeTask(overrides: Partial<BoardTask> & { id: string; title: string }): BoardTask {
+  return {
+    summary: '',
+    status: 'NEW',
+    priority: Priority.MEDIUM,
+    complexity: 3,
+    blockedBy: [],
+    relatedTo: [],
+    version: 1,
+    createdAt: new Date(),
+    modifiedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const columns: BoardColumn[] = [
+  { id: 'new', title: 'New', status: 'NEW', tasks: [makeTask({ id: 'task-1', title: 'Write docs', featureName: 'Docs' })] },
+  { id: 'active', title: 'Active', status: 'ACTIVE', tasks: [] },
+  { id: 'to-be-tested', title: 'To Be Tested', status: 'TO_BE_TESTED', tasks: [] },
+  { id: 'closed', title: 'Closed', status: 'CLOSED', tasks: [] },
+];
+
+const wait = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+function renderBoard(props: Partial<React.ComponentProps<typeof TaskKanbanBoard>> = {}) {
+  const handlers = {
+    onColumnChange: mock(() => {}),
+    onTaskChange: mock(() => {}),
+    onSelectTask: mock(() => {}),
+    onMoveTask: mock(() => {}),
+    onMoveTargetChange: mock(() => {}),
+  };
+  const result = render(
+    <ThemeProvider>
+      <TaskKanbanBoard
+        columns={columns}
+        activeColumnIndex={0}
+        selectedTaskIndex={0}
+        moveTargetIndex={null}
+        {...handlers}
+        {...props}
+      />
+    </ThemeProvider>
+  );
+  return { ...result, ...handlers };
+}
+
+describe('TaskKanbanBoard', () => {
+  test('should render task cards with feature, priority and complexity', () => {
+    const { lastFrame } = renderBoard();
+    const output = lastFrame();
+
+    expect(output).toContain('New (1)');
+    expect(output).toContain('Write docs');
+    expect(output).toContain('[Docs]');
+    expect(output).toContain('MEDIUM');
+    expect(output).toContain('C3');
+  });
+
+  test('should open the selected task with Enter', async () => {
+    const { stdin, onSelectTask } = renderBoard();
+
+    stdin.write('\r');
+    await wait();
+    expect(onSelectTask).toHaveBeenCalledWith('task-1');
+  });
+
+  test('should start move mode on the current column with m', async () => {
+    const { stdin, onMoveTargetChange } = renderBoard();
+
+    stdin.write('m');
+    await wait();
+    expect(onMoveTargetChange).toHaveBeenCalledWith(0);
+  });
+
+  test('should pick a destination and move there with Enter', async () => {
+    const { stdin, lastFrame, onMoveTargetChange, onMoveTask } = renderBoard({ moveTargetIndex: 2 });
+    expect(lastFrame()).toContain('MOVE "Write docs" → To Be Tested');
+
+    stdin.write('l');
+    await wait();
+    expect(onMoveTargetChange).toHaveBeenCalledWith(3);
+
+    stdin.write('\r');
+    await wait();
+    expect(onMoveTask).toHaveBeenCalledWith('task-1', 'TO_BE_TESTED');
+    expect(onMoveTargetChange).toHaveBeenLastCalledWith(null);
+  });
+
+  test('should not move when the destination is the current column', async () => {
+    const { stdin, onMoveTask } = renderBoard({ moveTargetIndex: 0 });
+
+    stdin.write('\r');
+    await wait();
+    expect(onMoveTask).not.toHaveBeenCalled();
+  });
+});
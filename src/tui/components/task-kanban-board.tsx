@@ -0,0 +1,240 @@
+import React from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { BoardColumn } from '../../ui/lib/types';
+import { getStatusColor } from '../../ui/lib/colors';
+import { useTheme } from '../../ui/context/theme-context';
+import { KanbanCard, KANBAN_CARD_HEIGHT } from './kanban-card';
+
+const MAX_VISIBLE_COLUMNS = 3;
+
+interface TaskKanbanBoardProps {
+  columns: BoardColumn[];
+  activeColumnIndex: number;
+  selectedTaskIndex: number;
+  onColumnChange: (index: number) => void;
+  onTaskChange: (index: number) => void;
+  onSelectTask: (taskId: string) => void;
+  onMoveTask?: (taskId: string, newStatus: string) => void;
+  /** Column picked as the destination in move mode; null outside move mode */
+  moveTargetIndex: number | null;
+  onMoveTargetChange: (index: number | null) => void;
+  isActive?: boolean;
+  availableHeight?: number;
+  availableWidth?: number;
+}
+
+/**
+ * TaskKanbanBoard Component
+ *
+ * One column per task pipeline state, one card per task. `m` starts move
+ * mode on the selected task: ←/→ pick the destination column, any number of
+ * columns away, and Enter moves it there.
+ */
+export function TaskKanbanBoard({
+  columns,
+  activeColumnIndex,
+  selectedTaskIndex,
+  onColumnChange,
+  onTaskChange,
+  onSelectTask,
+  onMoveTask,
+  moveTargetIndex,
+  onMoveTargetChange,
+  isActive = true,
+  availableHeight,
+  availableWidth,
+}: TaskKanbanBoardProps) {
+  const { theme } = useTheme();
+  const isMoveMode = moveTargetIndex !== null;
+  const activeColumn = columns[activeColumnIndex];
+  const selectedTask = activeColumn?.tasks[selectedTaskIndex];
+
+  // Compute viewport window (3 columns max), following the destination while moving
+  const totalCols = columns.length;
+  const visibleCount = Math.min(MAX_VISIBLE_COLUMNS, totalCols);
+  const focusIndex = moveTargetIndex ?? activeColumnIndex;
+
+  let viewportStart = 0;
+  if (totalCols > MAX_VISIBLE_COLUMNS) {
+    viewportStart = Math.max(0, focusIndex - Math.floor(visibleCount / 2));
+    viewportStart = Math.min(viewportStart, totalCols - visibleCount);
+  }
+  const viewportEnd = viewportStart + visibleCount;
+
+  const hiddenLeft = viewportStart;
+  const hiddenRight = totalCols - viewportEnd;
+
+  // Dynamic column width
+  const termWidth = availableWidth ?? 120;
+  const columnWidth = Math.floor((termWidth - 4) / Math.min(MAX_VISIBLE_COLUMNS, Math.max(1, totalCols)));
+
+  // Chrome overhead: column border (2) + padding (2) + header (2) + scroll indicators (2)
+  const columnHeight = availableHeight ?? 30;
+  const cardsPerColumn = Math.max(1, Math.floor((columnHeight - 8) / KANBAN_CARD_HEIGHT));
+
+  useInput(
+    (input, key) => {
+      if (!isActive || columns.length === 0) return;
+
+      // ---- Move mode ----
+      if (isMoveMode) {
+        if (key.escape) {
+          onMoveTargetChange(null);
+          return;
+        }
+        if (!onMoveTask || !selectedTask) {
+          onMoveTargetChange(null);
+          return;
+        }
+        if (input === 'h' || key.leftArrow) {
+          onMoveTargetChange(Math.max(0, moveTargetIndex - 1));
+          return;
+        }
+        if (input === 'l' || key.rightArrow) {
+          onMoveTargetChange(Math.min(columns.length - 1, moveTargetIndex + 1));
+          return;
+        }
+        if (key.return) {
+          const targetColumn = columns[moveTargetIndex];
+          onMoveTargetChange(null);
+          if (targetColumn && moveTargetIndex !== activeColumnIndex) {
+            onMoveTask(selectedTask.id, targetColumn.status);
+          }
+        }
+        return;
+      }
+
+      if (!activeColumn) return;
+
+      // Enter move mode
+      if (input === 'm') {
+        if (selectedTask) onMoveTargetChange(activeColumnIndex);
+        return;
+      }
+
+      // Column navigation
+      if (input === 'h' || key.leftArrow || input === 'l' || key.rightArrow) {
+        const delta = input === 'h' || key.leftArrow ? -1 : 1;
+        const newIndex = (activeColumnIndex + delta + columns.length) % columns.length;
+        onColumnChange(newIndex);
+        onTaskChange((columns[newIndex]?.tasks.length ?? 0) > 0 ? 0 : -1);
+        return;
+      }
+
+      // Task navigation within column
+      const taskCount = activeColumn.tasks.length;
+      if (taskCount === 0) return;
+
+      if (input === 'j' || key.downArrow) {
+        onTaskChange(selectedTaskIndex >= taskCount - 1 ? 0 : selectedTaskIndex + 1);
+        return;
+      }
+
+      if (input === 'k' || key.upArrow) {
+        onTaskChange(selectedTaskIndex <= 0 ? taskCount - 1 : selectedTaskIndex - 1);
+        return;
+      }
+
+      // Open task (Enter)
+      if (key.return && selectedTask) {
+        onSelectTask(selectedTask.id);
+      }
+    },
+    { isActive }
+  );
+
+  const visibleColumns = columns.slice(viewportStart, viewportEnd);
+
+  return (
+    <Box flexDirection="column">
+      <Box flexDirection="row" alignItems="center">
+        {/* Left scroll indicator */}
+        {hiddenLeft > 0 ? (
+          <Box width={3} justifyContent="center">
+            <Text color={theme.colors.muted}>{'← '}{hiddenLeft}</Text>
+          </Box>
+        ) : totalCols > MAX_VISIBLE_COLUMNS ? (
+          <Box width={3} />
+        ) : null}
+
+        {visibleColumns.map((column, index) => {
+          const actualIndex = viewportStart + index;
+          const isColumnActive = isActive && actualIndex === activeColumnIndex;
+          const isMoveTarget = isMoveMode && actualIndex === moveTargetIndex;
+          const taskCount = column.tasks.length;
+
+          // Sliding window that keeps the selected card in view
+          const selectedIndex = isColumnActive ? selectedTaskIndex : -1;
+          const windowStart = Math.max(0, Math.min(selectedIndex - cardsPerColumn + 1, taskCount - cardsPerColumn));
+          const windowEnd = Math.min(taskCount, windowStart + cardsPerColumn);
+
+          return (
+            <Box
+              key={column.id}
+              flexDirection="column"
+              borderStyle={isColumnActive || isMoveTarget ? 'bold' : 'round'}
+              borderColor={
+                isMoveTarget ? theme.colors.warning : isColumnActive ? theme.colors.accent : theme.colors.border
+              }
+              width={columnWidth}
+              height={columnHeight}
+              paddingX={1}
+              paddingY={1}
+            >
+              <Box marginBottom={1}>
+                <Text color={getStatusColor(column.status, theme)} bold={isColumnActive}>
+                  {column.title} ({taskCount})
+                </Text>
+              </Box>
+
+              {taskCount === 0 ? (
+                <Box justifyContent="center" paddingY={2}>
+                  <Text dimColor>No tasks</Text>
+                </Box>
+              ) : (
+                <Box flexDirection="column">
+                  {windowStart > 0 && (
+                    <Box justifyContent="center">
+                      <Text dimColor>↑ {windowStart} more</Text>
+                    </Box>
+                  )}
+                  {column.tasks.slice(windowStart, windowEnd).map((task, offset) => (
+                    <KanbanCard
+                      key={task.id}
+                      task={task}
+                      isSelected={windowStart + offset === selectedIndex}
+                      width={columnWidth - 4}
+                    />
+                  ))}
+                  {windowEnd < taskCount && (
+                    <Box justifyContent="center">
+                      <Text dimColor>↓ {taskCount - windowEnd} more</Text>
+                    </Box>
+                  )}
+                </Box>
+              )}
+            </Box>
+          );
+        })}
+
+        {/* Right scroll indicator */}
+        {hiddenRight > 0 ? (
+          <Box width={3} justifyContent="center">
+            <Text color={theme.colors.muted}>{hiddenRight}{' →'}</Text>
+          </Box>
+        ) : totalCols > MAX_VISIBLE_COLUMNS ? (
+          <Box width={3} />
+        ) : null}
+      </Box>
+
+      {/* Move mode indicator */}
+      {isMoveMode && selectedTask && (
+        <Box marginTop={1} borderStyle="round" borderColor={theme.colors.warning} paddingX={1}>
+          <Text color={theme.colors.warning} bold>
+            MOVE "{selectedTask.title}" → {columns[moveTargetIndex]?.title}: ←/→ pick column, Enter move, Esc cancel
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { Task } from '@allpepper/task-orchestrator';
+import { useTheme } from '../../ui/context/theme-context';
+import { useTextEntry } from '../../ui/context/text-entry-context';
+import { truncateId, truncateText } from '../../ui/lib/format';
+import { StatusBadge } from './status-badge';
+
+interface TaskPickerProps {
+  title: string;
+  description?: string;
+  query: string;
+  onQueryChange: (query: string) => void;
+  tasks: Task[];
+  loading?: boolean;
+  onSelect: (task: Task) => void;
+  onCancel: () => void;
+  /** Bound to Tab when provided (e.g. to switch the link kind) */
+  onToggle?: () => void;
+  maxVisible?: number;
+  isActive?: boolean;
+}
+
+export function TaskPicker({
+  title,
+  description,
+  query,
+  onQueryChange,
+  tasks,
+  loading = false,
+  onSelect,
+  onCancel,
+  onToggle,
+  maxVisible = 8,
+  isActive = true,
+}: TaskPickerProps) {
+  const { theme } = useTheme();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  useTextEntry(isActive);
+
+  // Reset the highlight whenever the candidate list changes
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [tasks]);
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+
+    if (key.tab) {
+      onToggle?.();
+      return;
+    }
+
+    if (key.return) {
+      const selected = tasks[selectedIndex];
+      if (selected) onSelect(selected);
+      return;
+    }
+
+    if (key.downArrow) {
+      if (tasks.length > 0) setSelectedIndex((prev) => (prev + 1) % tasks.length);
+      return;
+    }
+
+    if (key.upArrow) {
+      if (tasks.length > 0) setSelectedIndex((prev) => (prev - 1 + tasks.length) % tasks.length);
+      return;
+    }
+
+    if (key.backspace || key.delete) {
+      onQueryChange(query.slice(0, -1));
+      return;
+    }
+
+    if (input && input.length === 1 && !key.ctrl && !key.meta) {
+      onQueryChange(`${query}${input}`);
+    }
+  }, { isActive });
+
+  // Keep the highlighted row inside the visible window
+  const start = Math.max(0, selectedIndex - maxVisible + 1);
+  const visible = tasks.slice(start, start + maxVisible);
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={theme.colors.highlight} paddingX={1} paddingY={0} marginY={1}>
+      <Text bold>{title}</Text>
+      {description ? <Text dimColor>{description}</Text> : null}
+      <Box marginTop={1}>
+        <Text>Search: </Text>
+        <Text color={theme.colors.accent}>{query}</Text>
+        <Text inverse> </Text>
+      </Box>
+      <Box flexDirection="column" marginTop={1}>
+        {loading && tasks.length === 0 ? (
+          <Text dimColor>Searching...</Text>
+        ) : tasks.length === 0 ? (
+          <Text dimColor>No matching tasks</Text>
+        ) : (
+          visible.map((task, offset) => {
+            const isSelected = start + offset === selectedIndex;
+            return (
+              <Box key={task.id}>
+                <Text color={isSelected ? theme.colors.highlight : undefined}>
+                  {isSelected ? '▎' : '  '}
+                </Text>
+                <StatusBadge status={task.status} />
+                <Text bold={isSelected}> {truncateText(task.title, 50)}</Text>
+                <Text dimColor> {truncateId(task.id)}</Text>
+              </Box>
+            );
+          })
+        )}
+      </Box>
+      <Text dimColor>Type to search • ↑/↓ move • Enter link{onToggle ? ' • Tab switch link type' : ''} • Esc cancel</Text>
+    </Box>
+  );
+}
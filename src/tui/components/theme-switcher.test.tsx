@@ -0,0 +1,59 @@
+import { test, expect, describe, mock } from 'bun:test';
+import React from 'react';
+import { Text } from 'ink';
+import { render } from 'ink-testing-library';
+import { ThemeSwitcher } from './theme-switcher';
+import { ThemeProvider, useTheme } from '../../ui/context/theme-context';
+import { BUILT_IN_THEMES } from '../../ui/lib/themes';
+
+const delay = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+function CurrentTheme() {
+  const { theme } = useTheme();
+  return <Text>active:{theme.name}</Text>;
+}
+
+function renderSwitcher(onClose = mock(() => {})) {
+  return render(
+    <ThemeProvider>
+      <ThemeSwitcher themes={BUILT_IN_THEMES} onClose={onClose} />
+      <CurrentTheme />
+    </ThemeProvider>
+  );
+}
+
+describe('ThemeSwitcher', () => {
+  test('should list the themes and mark the current one', async () => {
+    const { lastFrame } = renderSwitcher();
+    await delay();
+    const frame = lastFrame() ?? '';
+    for (const theme of BUILT_IN_THEMES) expect(frame).toContain(theme.name);
+    expect(frame).toContain('dark (current)');
+  });
+
+  test('should apply the highlighted theme and keep it on Enter', async () => {
+    const onClose = mock(() => {});
+    const { stdin, lastFrame } = renderSwitcher(onClose);
+    await delay();
+    stdin.write('j');
+    await delay();
+    expect(lastFrame()).toContain('active:light');
+    stdin.write('\r');
+    await delay();
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(lastFrame()).toContain('active:light');
+  });
+
+  test('should put the previous theme back on Esc', async () => {
+    const onClose = mock(() => {});
+    const { stdin, lastFrame } = renderSwitcher(onClose);
+    await delay();
+    stdin.write('k');
+    await delay();
+    expect(lastFrame()).toContain('active:no-color');
+    stdin.write('\u001b');
+    await delay();
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(lastFrame()).toContain('active:dark');
+  });
+});
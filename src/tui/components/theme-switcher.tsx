@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { Priority } from '@allpepper/task-orchestrator';
+import { useTheme } from '../../ui/context/theme-context';
+import { TASK_STATUS_ORDER } from '../../ui/lib/colors';
+import type { Theme } from '../../ui/themes/types';
+import { StatusBadge } from './status-badge';
+import { PriorityBadge } from './priority-badge';
+
+interface ThemeSwitcherProps {
+  themes: Theme[];
+  onClose: () => void;
+  isActive?: boolean;
+}
+
+/**
+ * Theme picker that applies each theme as it is highlighted; Enter keeps it,
+ * Esc puts the previous one back
+ */
+export function ThemeSwitcher({ themes, onClose, isActive = true }: ThemeSwitcherProps) {
+  const { theme, setTheme } = useTheme();
+  const [original] = useState(theme);
+  const [selectedIndex, setSelectedIndex] = useState(() =>
+    Math.max(0, themes.findIndex((candidate) => candidate.name === theme.name))
+  );
+
+  const select = (index: number) => {
+    const next = themes[index];
+    if (!next) return;
+    setSelectedIndex(index);
+    setTheme(next);
+  };
+
+  useInput((input, key) => {
+    if (key.escape) {
+      setTheme(original);
+      onClose();
+      return;
+    }
+    if (key.return) {
+      onClose();
+      return;
+    }
+    if (input === 'j' || key.downArrow) {
+      if (themes.length > 0) select((selectedIndex + 1) % themes.length);
+      return;
+    }
+    if (input === 'k' || key.upArrow) {
+      if (themes.length > 0) select((selectedIndex - 1 + themes.length) % themes.length);
+    }
+  }, { isActive });
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={theme.colors.highlight} paddingX={1} marginY={1}>
+      <Text bold>Theme</Text>
+      <Box flexDirection="column" marginTop={1}>
+        {themes.map((candidate, index) => {
+          const isSelected = index === selectedIndex;
+          return (
+            <Box key={candidate.name} gap={1}>
+              <Text color={isSelected ? theme.colors.highlight : undefined}>{isSelected ? '▎' : ' '}</Text>
+              <Text bold={isSelected} underline={isSelected && theme.monochrome}>{candidate.name}</Text>
+              {candidate.name === original.name ? <Text dimColor>(current)</Text> : null}
+            </Box>
+          );
+        })}
+      </Box>
+      <Box flexDirection="column" marginTop={1}>
+        <Box gap={2} flexWrap="wrap">
+          {TASK_STATUS_ORDER.map((status) => (
+            <StatusBadge key={status} status={status} />
+          ))}
+        </Box>
+        <Box gap={2}>
+          {[Priority.HIGH, Priority.MEDIUM, Priority.LOW].map((priority) => (
+            <Text key={priority}>
+              <PriorityBadge priority={priority} /> {priority}
+            </Text>
+          ))}
+          <Text color={theme.colors.accent}>accent</Text>
+          <Text color={theme.colors.success}>success</Text>
+          <Text color={theme.colors.warning}>warning</Text>
+          <Text color={theme.colors.error}>error</Text>
+          <Text color={theme.colors.muted}>muted</Text>
+        </Box>
+      </Box>
+      <Text dimColor>j/k preview • Enter keep • Esc cancel</Text>
+    </Box>
+  );
+}
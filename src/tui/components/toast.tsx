@@ -0,0 +1,37 @@
+import React, { useEffect } from 'react';
+import { Box, Text } from 'ink';
+import { useTheme } from '../../ui/context/theme-context';
+
+export type ToastTone = 'info' | 'success' | 'error';
+
+const TONE_SYMBOLS: Record<ToastTone, string> = { info: 'i ', success: '✓ ', error: '! ' };
+
+interface ToastProps {
+  message: string;
+  tone?: ToastTone;
+  onDismiss?: () => void;
+  timeoutMs?: number;
+}
+
+/**
+ * Short-lived one-line notice; unlike ErrorMessage it takes no input
+ */
+export function Toast({ message, tone = 'info', onDismiss, timeoutMs = 3000 }: ToastProps) {
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    if (!onDismiss || timeoutMs <= 0) return;
+    const timer = setTimeout(onDismiss, timeoutMs);
+    return () => clearTimeout(timer);
+  }, [onDismiss, timeoutMs, message]);
+
+  const color = tone === 'error' ? theme.colors.danger : tone === 'success' ? theme.colors.success : theme.colors.info;
+  // Without colour the tone is only told apart by its symbol
+  const symbol = theme.monochrome ? TONE_SYMBOLS[tone] : '';
+
+  return (
+    <Box paddingX={1}>
+      <Text color={color} bold={theme.monochrome && tone === 'error'}>{symbol}{message}</Text>
+    </Box>
+  );
+}
@@ -2,7 +2,9 @@ import React from 'react';
 import { Box, Text, useInput } from 'ink';
 import { StatusBadge } from './status-badge';
 import { PriorityBadge } from './priority-badge';
+import { TagChips } from './tag-chips';
 import { useTheme } from '../../ui/context/theme-context';
+import { bulkKey } from '../../ui/lib/bulk';
 import type { Feature, Task } from '@allpepper/task-orchestrator';
 
 export type TreeRow =
@@ -20,9 +22,24 @@ export interface TreeViewProps {
   onSelectTask: (taskId: string) => void;
   onSelectFeature?: (featureId: string) => void;
   onBack?: () => void;
+  /** Bulk selection; Space and V only mark rows when the handlers are given */
+  markedKeys?: Set<string>;
+  onToggleMark?: (key: string) => void;
+  onMarkRange?: (keys: string[], index: number) => void;
   isActive?: boolean;
 }
 
+/**
+ * Bulk selection key of a row; groups mark their feature, separators and
+ * unassigned groups cannot be marked
+ */
+export function treeRowMarkKey(row: TreeRow): string | null {
+  if (row.type === 'task') return bulkKey('task', row.task.id);
+  if (row.type === 'feature') return bulkKey('feature', row.feature.id);
+  if (row.type === 'group' && row.featureId) return bulkKey('feature', row.featureId);
+  return null;
+}
+
 export function TreeView({
   rows,
   selectedIndex,
@@ -32,6 +49,9 @@ export function TreeView({
   onSelectTask,
   onSelectFeature,
   onBack,
+  markedKeys,
+  onToggleMark,
+  onMarkRange,
   isActive = true,
 }: TreeViewProps) {
   const { theme } = useTheme();
@@ -157,6 +177,7 @@ export function TreeView({
   useInput((input, key) => {
     if (!isActive) return;
     if (rows.length === 0) return;
+    const selectedMarkKey = rows[selectedIndex] ? treeRowMarkKey(rows[selectedIndex]) : null;
 
     // Navigation: j/down or k/up
     if (input === 'j' || key.downArrow) {
@@ -169,6 +190,11 @@ export function TreeView({
       handleNavigateRight();
     } else if (input === 'h' || key.leftArrow) {
       handleNavigateLeft();
+    } else if (input === ' ' && onToggleMark && selectedMarkKey) {
+      onToggleMark(selectedMarkKey);
+    } else if (input === 'V' && onMarkRange && selectedMarkKey) {
+      const keys = rows.map(treeRowMarkKey).filter((rowKey): rowKey is string => rowKey !== null);
+      onMarkRange(keys, keys.indexOf(selectedMarkKey));
     } else if ((key.return || key.tab || input === ' ') && rows[selectedIndex]) {
       // Selection: Enter or Space
       const row = rows[selectedIndex];
@@ -189,6 +215,12 @@ export function TreeView({
 
   const renderRow = (row: TreeRow, index: number) => {
     const isSelected = index === selectedIndex;
+    const markKey = treeRowMarkKey(row);
+    const mark = markKey && markedKeys?.has(markKey) ? (
+      <Text color={theme.colors.accent} bold>
+        ✓{' '}
+      </Text>
+    ) : null;
 
     if (row.type === 'separator') {
       return (
@@ -214,6 +246,7 @@ export function TreeView({
           <Text color={isSelected ? theme.colors.highlight : undefined}>
             {isSelected ? '▎' : '  '}
           </Text>
+          {mark}
           <Text color={theme.colors.muted}>
             {indent}
           </Text>
@@ -244,6 +277,7 @@ export function TreeView({
           <Text color={isSelected ? theme.colors.highlight : undefined}>
             {isSelected ? '▎' : '  '}
           </Text>
+          {mark}
           {expandable && (
             <Text color={theme.colors.muted}>
               {expandIcon}{' '}
@@ -258,6 +292,8 @@ export function TreeView({
             {'  '}
             {row.taskCount} tasks
           </Text>
+          {row.feature.tags && row.feature.tags.length > 0 && <Text>{'  '}</Text>}
+          <TagChips tags={row.feature.tags} />
         </Box>
       );
     }
@@ -271,6 +307,7 @@ export function TreeView({
           <Text color={isSelected ? theme.colors.highlight : undefined}>
             {isSelected ? '▎' : '  '}
           </Text>
+          {mark}
           <Text color={theme.colors.muted}>
             {indent}  {treePrefix}
           </Text>
@@ -280,6 +317,8 @@ export function TreeView({
             {'  '}
           </Text>
           <PriorityBadge priority={row.task.priority} />
+          {row.task.tags && row.task.tags.length > 0 && <Text>{'  '}</Text>}
+          <TagChips tags={row.task.tags} />
         </Box>
       );
     }
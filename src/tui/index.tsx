@@ -1,24 +1,125 @@
 #!/usr/bin/env bun
 
+import { parseArgs } from 'node:util';
+import type { NavigationState } from '../ui/lib/types';
+
 async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+
+  // `tasks serve` runs headless, so it must not require a terminal
+  if (command === 'serve') {
+    const { runServe } = await import('../server');
+    await runServe(rest);
+    return;
+  }
+
+  const cli = await import('../cli');
+
+  if (command === 'help' || command === '--help' || command === '-h') {
+    console.log(cli.CLI_USAGE);
+    return;
+  }
+
+  // Subcommands print and exit, so they work from scripts and pipes
+  if (cli.isCliCommand(command)) {
+    process.exitCode = await cli.runCli(command, rest);
+    return;
+  }
+
+  // `tasks open <id>` starts the TUI at a project, feature or task
+  const isOpen = command === 'open';
+  const { values, positionals } = parseArgs({
+    args: isOpen ? rest : process.argv.slice(2),
+    allowPositionals: isOpen,
+    options: {
+      server: { type: 'string' },
+      token: { type: 'string' },
+      fresh: { type: 'boolean' },
+    },
+  });
+  const openId = positionals[0];
+  if (isOpen && !openId) {
+    console.error('Usage: tasks open <id>');
+    process.exit(1);
+  }
+
   // Check if we're in a TTY environment
   if (!process.stdin.isTTY) {
     console.error('TUI requires an interactive terminal. Run directly in a terminal, not through a pipe.');
+    console.error('For scripts, use a subcommand such as `tasks list tasks --json` (see `tasks help`).');
     process.exit(1);
   }
 
-  const [{ render }, React, { bootstrap }, { App }] = await Promise.all([
+  const [{ render }, React, { App }, { resolveDeepLink }, session, { loadConfig, configPath }, themeLib] = await Promise.all([
     import('ink'),
     import('react'),
-    import('@allpepper/task-orchestrator'),
     import('./app'),
+    import('../ui/lib/navigation'),
+    import('../ui/lib/session'),
+    import('../ui/lib/config'),
+    import('../ui/lib/themes'),
   ]);
 
-  bootstrap();
+  const [loadedConfig, userThemes] = await Promise.all([loadConfig(), themeLib.loadUserThemes()]);
+  if (!loadedConfig.success) {
+    console.error(loadedConfig.error);
+    process.exit(1);
+  }
+  if (!userThemes.success) {
+    console.error(userThemes.error);
+    process.exit(1);
+  }
+  const themes = [...themeLib.BUILT_IN_THEMES, ...userThemes.data];
+  // NO_COLOR wins over the configured theme
+  const config = themeLib.isColorDisabled()
+    ? { ...loadedConfig.data, theme: 'no-color' }
+    : loadedConfig.data;
+  if (!themeLib.findTheme(themes, config.theme)) {
+    console.error(`Invalid config ${configPath()}:`);
+    console.error(`  theme: no theme named "${config.theme}" (available: ${themes.map((theme) => theme.name).join(', ')})`);
+    process.exit(1);
+  }
+
+  const adapter = await cli.connectAdapter({ server: values.server, token: values.token });
+
+  // Pick up where the last run left off, unless started with --fresh
+  const saved = values.fresh ? null : await session.loadSession();
+  const restored = saved ? await session.pruneSession(adapter, saved) : null;
+
+  let initialStack = restored?.stack;
+  if (openId) {
+    const resolved = await resolveDeepLink(adapter, openId);
+    if (!resolved.success) {
+      console.error(resolved.error);
+      process.exit(1);
+    }
+    initialStack = resolved.data;
+  }
+
+  let latest: NavigationState | undefined;
 
   // Render the TUI
-  const { waitUntilExit } = render(<App />);
+  const { waitUntilExit } = render(
+    <App
+      adapter={adapter}
+      config={config}
+      themes={themes}
+      initialStack={initialStack}
+      initialProjectViews={restored?.projectViews}
+      onNavigationChange={(state) => {
+        latest = state;
+      }}
+    />
+  );
   await waitUntilExit();
+
+  if (latest) {
+    const saveResult = await session.saveSession(session.sessionFromNavigation(latest));
+    if (!saveResult.success) console.error(saveResult.error);
+  }
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useActivity } from '../../ui/hooks/use-activity';
+import { useProjects } from '../../ui/hooks/use-data';
+import { activitySubject } from '../../ui/lib/activity';
+import type { ActivityEntry } from '../../ui/adapters/types';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import { runCommandKey, type Command } from '../../ui/lib/commands';
+import { ActivityList } from '../components/activity-list';
+import { useTheme } from '../../ui/context/theme-context';
+
+interface ActivityScreenProps {
+  /** Initial project filter; null shows every project */
+  projectId: string | null;
+  onOpenProject: (projectId: string) => void;
+  onOpenFeature: (featureId: string) => void;
+  onOpenTask: (taskId: string) => void;
+  onBack: () => void;
+}
+
+interface EntityFilter {
+  id: string;
+  label: string;
+}
+
+export function ActivityScreen({
+  projectId: initialProjectId,
+  onOpenProject,
+  onOpenFeature,
+  onOpenTask,
+  onBack,
+}: ActivityScreenProps) {
+  const { theme } = useTheme();
+  const { projects } = useProjects();
+  const [projectId, setProjectId] = useState<string | null>(initialProjectId);
+  const [entityFilter, setEntityFilter] = useState<EntityFilter | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const { entries, loading, error, refresh } = useActivity({
+    projectId: projectId ?? undefined,
+    entityId: entityFilter?.id,
+    limit: 200,
+  });
+
+  const openEntry = (entry: ActivityEntry) => {
+    // Deleted entities and sections have no screen of their own
+    if (entry.action === 'delete') return;
+    if (entry.entityType === 'project') onOpenProject(entry.entityId);
+    if (entry.entityType === 'feature') onOpenFeature(entry.entityId);
+    if (entry.entityType === 'task') onOpenTask(entry.entityId);
+  };
+
+  const cycleProject = () => {
+    const ids = [null, ...projects.map((project) => project.id)];
+    const next = ids[(ids.indexOf(projectId) + 1) % ids.length] ?? null;
+    setProjectId(next);
+    setSelectedIndex(0);
+  };
+
+  const toggleEntityFilter = () => {
+    const entry = entries[selectedIndex];
+    if (entityFilter) {
+      setEntityFilter(null);
+    } else if (entry) {
+      setEntityFilter({ id: entry.entityId, label: activitySubject(entry) });
+    }
+    setSelectedIndex(0);
+  };
+
+  const group = 'Activity';
+  const commands: Command[] = [
+    { id: 'activity.navigate', key: 'j/k', title: 'Navigate', group },
+    { id: 'activity.open', key: 'Enter', title: 'Open', group },
+    { id: 'activity.project', key: 'p', title: 'Project', group, run: cycleProject },
+    { id: 'activity.entity', key: 'e', title: entityFilter ? 'All Entities' : 'Entity', group, run: toggleEntityFilter },
+    { id: 'activity.refresh', key: 'r', title: 'Refresh', group, run: refresh },
+    { id: 'activity.back', key: 'Esc', title: 'Back', group, run: onBack },
+  ];
+  const boundCommands = useRegisterCommands(commands);
+
+  useInput((input, key) => {
+    if (key.escape || input === 'h' || key.leftArrow) {
+      // Step out of the entity filter before leaving the screen
+      if (entityFilter) {
+        setEntityFilter(null);
+        setSelectedIndex(0);
+      } else {
+        onBack();
+      }
+      return;
+    }
+    runCommandKey(boundCommands, input, key);
+  });
+
+  const projectName = projectId ? projects.find((project) => project.id === projectId)?.name ?? projectId : 'All projects';
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      <Box marginBottom={1}>
+        <Text bold>Activity</Text>
+        <Text dimColor> · {projectName}</Text>
+        {entityFilter && <Text dimColor> · {entityFilter.label}</Text>}
+      </Box>
+
+      {loading ? (
+        <Text>Loading activity...</Text>
+      ) : error ? (
+        <Text color={theme.colors.error}>Error: {error}</Text>
+      ) : (
+        <ActivityList
+          entries={entries}
+          selectedIndex={Math.min(selectedIndex, Math.max(0, entries.length - 1))}
+          onSelectedIndexChange={setSelectedIndex}
+          onSelect={openEntry}
+          maxVisible={20}
+        />
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>
+          j/k: Navigate | Enter: Open | p: Project filter | e: {entityFilter ? 'Clear entity filter' : 'Only this entity'} | r: Refresh | Esc/h: Back
+        </Text>
+      </Box>
+    </Box>
+  );
+}
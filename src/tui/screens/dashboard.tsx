@@ -10,6 +10,13 @@ import { ConfirmDialog } from '../components/confirm-dialog';
 import { ErrorMessage } from '../components/error-message';
 import { EmptyState } from '../components/empty-state';
 import { FormDialog } from '../components/form-dialog';
+import { ConflictDialog } from '../components/conflict-dialog';
+import { useConflictResolution, isConflict } from '../../ui/hooks/use-conflict-resolution';
+import { useTags } from '../../ui/hooks/use-tags';
+import { formatTags, parseTags } from '../../ui/lib/tags';
+import type { Result } from '../../ui/adapters/types';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import { runCommandKey, type Command } from '../../ui/lib/commands';
 
 interface DashboardProps {
   selectedIndex: number;
@@ -25,6 +32,15 @@ export function Dashboard({ selectedIndex, onSelectedIndexChange, onSelectProjec
   const { projects, loading, error, refresh } = useProjects();
   const [mode, setMode] = useState<'idle' | 'create' | 'edit' | 'delete'>('idle');
   const [localError, setLocalError] = useState<string | null>(null);
+  const edits = useConflictResolution();
+  const { names: tagNames } = useTags();
+
+  const finishWrite = (result: Result<unknown>) => {
+    if (!result.success && !isConflict(result)) {
+      setLocalError(result.error);
+    }
+    refresh();
+  };
 
   const columns = [
     {
@@ -59,30 +75,27 @@ export function Dashboard({ selectedIndex, onSelectedIndexChange, onSelectProjec
   const effectiveSelectedIndex = projects.length > 0 ? clampedSelectedIndex : 0;
   const selectedProject = projects[effectiveSelectedIndex];
 
+  const group = 'Dashboard';
+  const commands: Command[] = [
+    { id: 'dashboard.navigate', key: 'j/k', title: 'Navigate', group },
+    ...(selectedProject
+      ? [{ id: 'dashboard.open', key: 'Enter/l', title: 'Open Project', group, run: () => onSelectProject(selectedProject.id) }]
+      : []),
+    { id: 'dashboard.new', key: 'n', title: 'New Project', group, run: () => setMode('create') },
+    ...(selectedProject
+      ? [
+        { id: 'dashboard.info', key: 'f', title: 'Project Info', group, run: () => onViewProject(selectedProject.id) },
+        { id: 'dashboard.edit', key: 'e', title: 'Edit Project', group, run: () => setMode('edit') },
+        { id: 'dashboard.delete', key: 'd', title: 'Delete Project', group, run: () => setMode('delete') },
+      ]
+      : []),
+    { id: 'dashboard.refresh', key: 'r', title: 'Refresh', group, run: refresh },
+  ];
+  const boundCommands = useRegisterCommands(commands);
+
   useInput((input, key) => {
-    if (mode === 'idle') {
-      if (input === 'n') {
-        setMode('create');
-        return;
-      }
-      if (input === 'e' && selectedProject) {
-        setMode('edit');
-        return;
-      }
-      if (input === 'f' && selectedProject) {
-        onViewProject(selectedProject.id);
-        return;
-      }
-      if (input === 'd' && selectedProject) {
-        setMode('delete');
-        return;
-      }
-      if (input === 'r') {
-        refresh();
-      }
-      if (key.escape && mode !== 'idle') {
-        setMode('idle');
-      }
+    if (mode === 'idle' && !edits.conflict) {
+      runCommandKey(boundCommands, input, key);
     }
   });
 
@@ -110,7 +123,7 @@ export function Dashboard({ selectedIndex, onSelectedIndexChange, onSelectProjec
             onSelectedIndexChange={onSelectedIndexChange}
             onSelect={(project) => onSelectProject(project.id)}
             onBack={onBack}
-            isActive={mode === 'idle'}
+            isActive={mode === 'idle' && !edits.conflict}
           />
         )
       ) : null}
@@ -122,6 +135,7 @@ export function Dashboard({ selectedIndex, onSelectedIndexChange, onSelectProjec
             { key: 'name', label: 'Name', required: true },
             { key: 'summary', label: 'Summary', required: true },
             { key: 'description', label: 'Description' },
+            { key: 'tags', label: 'Tags', suggestions: tagNames },
           ]}
           onCancel={() => setMode('idle')}
           onSubmit={(values) => {
@@ -129,6 +143,7 @@ export function Dashboard({ selectedIndex, onSelectedIndexChange, onSelectProjec
               name: values.name ?? '',
               summary: values.summary ?? '',
               description: values.description || undefined,
+              tags: parseTags(values.tags),
             }).then((result) => {
               if (!result.success) {
                 setLocalError(result.error);
@@ -147,25 +162,30 @@ export function Dashboard({ selectedIndex, onSelectedIndexChange, onSelectProjec
             { key: 'name', label: 'Name', required: true, value: selectedProject.name },
             { key: 'summary', label: 'Summary', required: true, value: selectedProject.summary },
             { key: 'description', label: 'Description', value: selectedProject.description ?? '' },
+            { key: 'tags', label: 'Tags', value: formatTags(selectedProject.tags), suggestions: tagNames },
           ]}
           onCancel={() => setMode('idle')}
           onSubmit={(values) => {
-                adapter.updateProject(selectedProject.id, {
-              name: values.name ?? '',
-              summary: values.summary ?? '',
-              description: values.description || undefined,
-              version: selectedProject.version,
-            }).then((result) => {
-              if (!result.success) {
-                setLocalError(result.error);
-              }
-              refresh();
+            edits.updateProject(selectedProject, values).then((result) => {
+              finishWrite(result);
               setMode('idle');
             });
           }}
         />
       ) : null}
 
+      {edits.conflict ? (
+        <ConflictDialog
+          conflict={edits.conflict}
+          onRetry={() => edits.retry().then(finishWrite)}
+          onMerge={(values) => edits.merge(values).then(finishWrite)}
+          onKeepTheirs={() => {
+            edits.dismiss();
+            refresh();
+          }}
+        />
+      ) : null}
+
       {mode === 'delete' && selectedProject ? (
         <ConfirmDialog
           title="Delete Project"
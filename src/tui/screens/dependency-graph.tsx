@@ -0,0 +1,157 @@
+import React, { useMemo } from 'react';
+import { Box, Text, useInput, useStdout } from 'ink';
+import { useProjectTree } from '../../ui/hooks/use-data';
+import { useTheme } from '../../ui/context/theme-context';
+import { layoutDependencyGraph, findNeighbourNode, type GraphDirection } from '../../ui/lib/graph-layout';
+import { getStatusColor } from '../../ui/lib/colors';
+import { DependencyGraph } from '../components/dependency-graph';
+import { EmptyState } from '../components/empty-state';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import { runCommandKey, type Command } from '../../ui/lib/commands';
+
+const NODE_WIDTH = 24;
+const LEGEND_STATUSES = ['NEW', 'ACTIVE', 'TO_BE_TESTED', 'READY_TO_PROD', 'CLOSED', 'WILL_NOT_IMPLEMENT'];
+
+interface DependencyGraphViewProps {
+  projectId: string;
+  selectedTaskId: string | null;
+  onSelectedTaskIdChange: (taskId: string | null) => void;
+  onSelectTask: (taskId: string) => void;
+  onBack: () => void;
+}
+
+export function DependencyGraphView({
+  projectId,
+  selectedTaskId,
+  onSelectedTaskIdChange,
+  onSelectTask,
+  onBack,
+}: DependencyGraphViewProps) {
+  const { theme } = useTheme();
+  const { project, features, unassignedTasks, loading, error, refresh } = useProjectTree(projectId);
+  const { stdout } = useStdout();
+
+  const terminalRows = stdout?.rows ?? 24;
+  const terminalCols = stdout?.columns ?? 120;
+
+  const tasks = useMemo(
+    () => [...features.flatMap((feature) => feature.tasks), ...unassignedTasks],
+    [features, unassignedTasks]
+  );
+  const layout = useMemo(() => layoutDependencyGraph(tasks, { nodeWidth: NODE_WIDTH }), [tasks]);
+  const statusById = useMemo(() => new Map(tasks.map((task) => [task.id, task.status] as const)), [tasks]);
+
+  // Fall back to the first node when the remembered task is gone
+  const selectedId = layout.nodes.some((node) => node.id === selectedTaskId)
+    ? selectedTaskId
+    : layout.nodes[0]?.id ?? null;
+  const selectedTask = tasks.find((task) => task.id === selectedId);
+
+  const move = (direction: GraphDirection) => {
+    if (!selectedId) return;
+    const next = findNeighbourNode(layout, selectedId, direction);
+    if (next) onSelectedTaskIdChange(next);
+  };
+
+  const group = 'Graph';
+  const commands: Command[] = [
+    { id: 'graph.navigate', key: 'h/j/k/l', title: 'Navigate', group },
+    ...(selectedId ? [{ id: 'graph.open-task', key: 'Enter', title: 'Open Task', group, run: () => onSelectTask(selectedId) }] : []),
+    { id: 'graph.refresh', key: 'r', title: 'Refresh', group, run: refresh },
+    { id: 'graph.back', key: 'Esc', title: 'Back', group, run: onBack },
+  ];
+  const boundCommands = useRegisterCommands(commands);
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onBack();
+      return;
+    }
+    if (input === 'j' || key.downArrow) {
+      move('down');
+      return;
+    }
+    if (input === 'k' || key.upArrow) {
+      move('up');
+      return;
+    }
+    if (input === 'h' || key.leftArrow) {
+      move('left');
+      return;
+    }
+    if (input === 'l' || key.rightArrow) {
+      move('right');
+      return;
+    }
+    if (key.return && selectedId) {
+      onSelectTask(selectedId);
+      return;
+    }
+    runCommandKey(boundCommands, input, key);
+  });
+
+  if (loading) {
+    return (
+      <Box padding={1}>
+        <Text>Loading dependency graph...</Text>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box padding={1}>
+        <Text color={theme.colors.error}>Error: {error}</Text>
+      </Box>
+    );
+  }
+
+  const edgeCount = tasks.reduce(
+    (count, task) => count + task.blockedBy.filter((id) => statusById.has(id)).length,
+    0
+  );
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      <Box marginBottom={1}>
+        <Text bold>{project?.name ?? ''}</Text>
+        <Text> - </Text>
+        <Text>Dependency Graph</Text>
+        <Text dimColor> ({tasks.length} tasks, {edgeCount} links)</Text>
+      </Box>
+
+      <Box marginBottom={1}>
+        {LEGEND_STATUSES.map((status) => (
+          <Text key={status} color={getStatusColor(status, theme)}>● {status}  </Text>
+        ))}
+        <Text dimColor>↺ in cycle</Text>
+      </Box>
+
+      {tasks.length === 0 ? (
+        <EmptyState message="No tasks in this project yet." />
+      ) : (
+        <DependencyGraph
+          layout={layout}
+          statusById={statusById}
+          selectedId={selectedId}
+          width={Math.max(20, terminalCols - 4)}
+          height={Math.max(5, terminalRows - 14)}
+        />
+      )}
+
+      {selectedTask ? (
+        <Box marginTop={1}>
+          <Text>{selectedTask.title}</Text>
+          <Text dimColor> — {selectedTask.status}</Text>
+          {selectedTask.blockedBy.length > 0 ? (
+            <Text dimColor> • waits on {selectedTask.blockedBy.length}</Text>
+          ) : null}
+        </Box>
+      ) : null}
+
+      <Box marginTop={1}>
+        <Text dimColor>h/j/k/l: move  Enter: open task  r: refresh  Esc: back</Text>
+      </Box>
+    </Box>
+  );
+}
@@ -1,6 +1,9 @@
 import React from 'react';
 import { describe, test, expect, mock, beforeEach } from 'bun:test';
 import { render } from 'ink-testing-library';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { FeatureDetail } from './feature-detail';
 import { ThemeProvider } from '../../ui/context/theme-context';
 import { AdapterProvider } from '../../ui/context/adapter-context';
@@ -86,10 +89,25 @@ describe('FeatureDetail', () => {
       getWorkflowState: mock(async () => ({ success: true, data: {} as any })),
       getAllowedTransitions: mock(async () => ({ success: true, data: [] })),
       getSections: mock(async () => ({ success: true, data: [] })),
-      getDependencies: mock(async () => ({ success: true, data: { blockedBy: [], blocks: [] } })),
+      createSection: mock(async () => ({ success: true, data: {} as any })),
+      updateSection: mock(async () => ({ success: true, data: {} as any })),
+      reorderSections: mock(async () => ({ success: true, data: true })),
+      deleteSection: mock(async () => ({ success: true, data: true })),
+      getDependencies: mock(async () => ({ success: true, data: { blockedBy: [], blocks: [], relatedTo: [] } })),
+      addBlocker: mock(async () => ({ success: true, data: {} as any })),
+      removeBlocker: mock(async () => ({ success: true, data: {} as any })),
+      addRelated: mock(async () => ({ success: true, data: {} as any })),
+      removeRelated: mock(async () => ({ success: true, data: {} as any })),
       getBlockedTasks: mock(async () => ({ success: true, data: [] })),
       getNextTask: mock(async () => ({ success: true, data: null })),
-      search: mock(async () => ({ success: true, data: { projects: [], features: [], tasks: [] } })),
+      search: mock(async () => ({ success: true, data: { projects: [], features: [], tasks: [], hasMore: false } })),
+      getTags: mock(async () => ({ success: true, data: [] })),
+      renameTag: mock(async () => ({ success: false, error: 'Not implemented' })),
+      getChanges: mock(async () => ({ success: true, data: { cursor: {}, changes: [] } })),
+      restoreStatus: mock(async () => ({ success: false, error: 'Not implemented' })),
+      getSnapshot: mock(async () => ({ success: false, error: 'Not implemented' })),
+      restoreSnapshot: mock(async () => ({ success: true, data: true })),
+      getActivity: mock(async () => ({ success: true, data: [] })),
     } as DataAdapter;
   });
 
@@ -164,4 +182,60 @@ describe('FeatureDetail', () => {
     stdin.write('h');
     expect(onBack).toHaveBeenCalled();
   });
+
+  test('should cycle to the progress charts with Tab', async () => {
+    const { stdin, lastFrame } = renderWithProviders('feature-1');
+
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    stdin.write('\t');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(lastFrame()).toContain('Activity (0)');
+
+    stdin.write('\t');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const output = lastFrame();
+    expect(output).toContain('Cumulative flow');
+    expect(output).toContain('Burndown');
+    expect(output).toContain('open complexity points, 0 → 5');
+  });
+
+  test('should preview an import before creating tasks in the feature', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'feature-import-'));
+    const file = join(dir, 'tasks.md');
+    writeFileSync(file, '# Ignored heading\n- [ ] Imported A\n- [ ] Imported B\n');
+
+    try {
+      const { stdin, lastFrame } = renderWithProviders('feature-1');
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      stdin.write('i');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(lastFrame()).toContain('Import into Test Feature');
+
+      // FormDialog takes one character per keypress
+      for (const char of file) {
+        stdin.write(char);
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      stdin.write('\r');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      stdin.write('\r');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const preview = lastFrame();
+      expect(preview).toContain('2 tasks would be created');
+      expect(preview).toContain('☐ Imported A');
+      expect(preview).toContain('feature heading(s) ignored');
+      expect(mockAdapter.createTask).not.toHaveBeenCalled();
+
+      stdin.write('\r');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(mockAdapter.createTask).toHaveBeenCalledTimes(2);
+      expect(mockAdapter.createTask).toHaveBeenCalledWith(expect.objectContaining({ title: 'Imported A', featureId: 'feature-1' }));
+      expect(lastFrame()).toContain('Imported 2 tasks');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
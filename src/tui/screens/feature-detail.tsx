@@ -2,17 +2,49 @@ import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { useAdapter } from '../../ui/context/adapter-context';
 import { useFeature } from '../../ui/hooks/use-data';
-import type { Priority } from '@allpepper/task-orchestrator';
-import type { WorkflowState } from '../../ui/adapters/types';
+import { useActivity } from '../../ui/hooks/use-activity';
+import { useTaskHistory } from '../../ui/hooks/use-task-history';
+import { EntityType } from '@allpepper/task-orchestrator';
+import type { Priority, Section } from '@allpepper/task-orchestrator';
+import type { Result, WorkflowState } from '../../ui/adapters/types';
+import { describeImport, type ImportSummary } from '../../ui/import';
 import { StatusBadge } from '../components/status-badge';
 import { PriorityBadge } from '../components/priority-badge';
 import { SectionList } from '../components/section-list';
 import { timeAgo } from '../../ui/lib/format';
 import { FormDialog } from '../components/form-dialog';
 import { ErrorMessage } from '../components/error-message';
+import { ConfirmDialog } from '../components/confirm-dialog';
+import { SectionFormDialog } from '../components/section-form-dialog';
+import { useSectionActions } from '../../ui/hooks/use-section-actions';
 import { EmptyState } from '../components/empty-state';
 import { useTheme } from '../../ui/context/theme-context';
+import { useConfig } from '../../ui/context/config-context';
 import { StatusActions } from '../components/status-actions';
+import { ActivityList } from '../components/activity-list';
+import { ProgressCharts } from '../components/progress-charts';
+import { ConflictDialog } from '../components/conflict-dialog';
+import { ImportDialog } from '../components/import-dialog';
+import { Toast } from '../components/toast';
+import { useConflictResolution, isConflict, type TransitionAction } from '../../ui/hooks/use-conflict-resolution';
+import { useTags } from '../../ui/hooks/use-tags';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import { runCommandKey, type Command } from '../../ui/lib/commands';
+import { formatTags, parseTags } from '../../ui/lib/tags';
+
+type FeatureView = 'overview' | 'activity' | 'progress';
+
+const FEATURE_VIEWS: FeatureView[] = ['overview', 'activity', 'progress'];
+
+const VIEW_LABELS: Record<FeatureView, string> = {
+  overview: 'Overview',
+  activity: 'Activity',
+  progress: 'Progress',
+};
+
+function nextView(view: FeatureView): FeatureView {
+  return FEATURE_VIEWS[(FEATURE_VIEWS.indexOf(view) + 1) % FEATURE_VIEWS.length] ?? 'overview';
+}
 
 interface FeatureDetailProps {
   featureId: string;
@@ -23,13 +55,25 @@ interface FeatureDetailProps {
 export function FeatureDetail({ featureId, onSelectTask, onBack }: FeatureDetailProps) {
   const { adapter } = useAdapter();
   const { theme } = useTheme();
+  const config = useConfig();
   const { feature, tasks, sections, loading, error, refresh } = useFeature(featureId);
   const [selectedTaskIndex, setSelectedTaskIndex] = useState(0);
   const [selectedSectionIndex, setSelectedSectionIndex] = useState(0);
-  const [mode, setMode] = useState<'idle' | 'edit-feature' | 'create-task' | 'feature-status'>('idle');
+  const [mode, setMode] = useState<
+    'idle' | 'edit-feature' | 'create-task' | 'feature-status' | 'add-section' | 'edit-section' | 'delete-section' | 'import'
+  >('idle');
+  const [sectionTarget, setSectionTarget] = useState<Section | null>(null);
+  const sectionActions = useSectionActions(EntityType.FEATURE, featureId, sections);
   const [localError, setLocalError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [workflowState, setWorkflowState] = useState<WorkflowState | null>(null);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const edits = useConflictResolution();
+  const { names: tagNames } = useTags();
+  const [view, setView] = useState<FeatureView>('overview');
+  const activity = useActivity({ entityId: featureId, limit: 100 });
+  const taskHistory = useTaskHistory({ featureId });
+  const [selectedActivityIndex, setSelectedActivityIndex] = useState(0);
 
   // Fetch workflow state when feature loads
   useEffect(() => {
@@ -42,36 +86,55 @@ export function FeatureDetail({ featureId, onSelectTask, onBack }: FeatureDetail
     }
   }, [adapter, feature]);
 
+  const refreshAll = () => {
+    refresh();
+    activity.refresh();
+    taskHistory.refresh();
+  };
+  const selectedTask = tasks[selectedTaskIndex];
+
+  const group = 'Feature';
+  const commands: Command[] = [
+    ...(view === 'overview' && selectedTask
+      ? [
+        { id: 'feature.navigate', key: 'j/k', title: 'Navigate', group },
+        { id: 'feature.open-task', key: 'Enter', title: 'Open Task', group, run: () => onSelectTask(selectedTask.id) },
+      ]
+      : []),
+    ...(feature
+      ? [
+        { id: 'feature.new-task', key: 'n', title: 'New Task', group, run: () => setMode('create-task') },
+        { id: 'feature.edit', key: 'e', title: 'Edit Feature', group, run: () => setMode('edit-feature') },
+        { id: 'feature.status', key: 's', title: 'Status', group, run: () => setMode('feature-status') },
+        { id: 'feature.import', key: 'i', title: 'Import', group, run: () => setMode('import') },
+      ]
+      : []),
+    { id: 'feature.switch-view', key: 'Tab', title: 'Switch View', group, run: () => setView((current) => nextView(current)) },
+    { id: 'feature.refresh', key: 'r', title: 'Refresh', group, run: refreshAll },
+    { id: 'feature.back', key: 'Esc', title: 'Back', group, run: onBack },
+  ];
+  const boundCommands = useRegisterCommands(commands);
+
   // Handle keyboard navigation
   useInput((input, key) => {
-    if (mode !== 'idle') return;
+    if (mode !== 'idle' || edits.conflict) return;
     if (key.escape || input === 'h' || key.leftArrow) {
       onBack();
     }
-    if (input === 'r') {
-      refresh();
-    }
-    if (input === 'e' && feature) {
-      setMode('edit-feature');
-    }
-    if (input === 'n' && feature) {
-      setMode('create-task');
+    if (key.tab) {
+      setView((current) => nextView(current));
+      return;
     }
-    if (input === 's' && feature) {
-      setMode('feature-status');
-    }
-    if (tasks.length > 0) {
+    runCommandKey(boundCommands, input, key);
+    if (view === 'overview' && tasks.length > 0) {
       if (input === 'j' || key.downArrow) {
         setSelectedTaskIndex((prev) => Math.min(prev + 1, tasks.length - 1));
       }
       if (input === 'k' || key.upArrow) {
         setSelectedTaskIndex((prev) => Math.max(prev - 1, 0));
       }
-      if (key.return) {
-        const selectedTask = tasks[selectedTaskIndex];
-        if (selectedTask) {
-          onSelectTask(selectedTask.id);
-        }
+      if (key.return && selectedTask) {
+        onSelectTask(selectedTask.id);
       }
     }
   });
@@ -84,36 +147,45 @@ export function FeatureDetail({ featureId, onSelectTask, onBack }: FeatureDetail
     }
   }, { isActive: mode === 'feature-status' });
 
-  // Pipeline operations
-  const handleAdvance = async () => {
-    if (!feature) return;
-    setIsUpdatingStatus(true);
-    setLocalError(null);
-    const result = await adapter.advance('feature', feature.id, feature.version);
+  // Section authoring
+  const finishSectionChange = (result: { success: true } | { success: false; error: string }) => {
     if (!result.success) setLocalError(result.error);
-    await refresh();
-    setIsUpdatingStatus(false);
+    setSectionTarget(null);
     setMode('idle');
+    refresh();
   };
 
-  const handleRevert = async () => {
-    if (!feature) return;
-    setIsUpdatingStatus(true);
-    setLocalError(null);
-    const result = await adapter.revert('feature', feature.id, feature.version);
-    if (!result.success) setLocalError(result.error);
-    await refresh();
-    setIsUpdatingStatus(false);
+  const handleMoveSection = async (section: Section, offset: -1 | 1) => {
+    const result = await sectionActions.moveSection(section, offset);
+    if (result.success && result.data) {
+      setSelectedSectionIndex((index) => index + offset);
+    }
+    finishSectionChange(result);
+  };
+
+  // Pipeline operations and edits; version conflicts open the ConflictDialog
+  // instead of failing
+  const finishWrite = (result: Result<unknown>) => {
+    if (!result.success && !isConflict(result)) setLocalError(result.error);
+    return refresh();
+  };
+
+  const handleImported = (result: Result<ImportSummary>) => {
     setMode('idle');
+    if (result.success) {
+      setNotice(`Imported ${describeImport(result.data)}`);
+    } else {
+      setLocalError(result.error);
+    }
+    refresh();
+    taskHistory.refresh();
   };
 
-  const handleTerminate = async () => {
+  const handleTransition = async (action: TransitionAction) => {
     if (!feature) return;
     setIsUpdatingStatus(true);
     setLocalError(null);
-    const result = await adapter.terminate('feature', feature.id, feature.version);
-    if (!result.success) setLocalError(result.error);
-    await refresh();
+    await finishWrite(await edits.transitionFeature(feature, action));
     setIsUpdatingStatus(false);
     setMode('idle');
   };
@@ -204,52 +276,85 @@ export function FeatureDetail({ featureId, onSelectTask, onBack }: FeatureDetail
         <Text dimColor>{'─'.repeat(40)}</Text>
       </Box>
 
-      {/* Tasks List */}
-      <Box flexDirection="column" marginBottom={1}>
-        <Text bold>Tasks ({tasks.length})</Text>
-        {tasks.length === 0 ? (
-          <Box marginLeft={1}><EmptyState message="No tasks" hint="Press n to create one." /></Box>
-        ) : (
-          <Box flexDirection="column" marginLeft={1}>
-            {tasks.map((task, index) => {
-              const isSelected = index === selectedTaskIndex;
-              return (
-                <Box key={task.id}>
-                  <Text color={isSelected ? theme.colors.highlight : undefined}>
-                    {isSelected ? '▎' : '  '}
-                  </Text>
-                  <Text> </Text>
-                  <StatusBadge status={task.status} />
-                  <Text> </Text>
-                  <Text bold={isSelected}>
-                    {task.title}
-                  </Text>
-                  {task.blockedBy.length > 0 && (
-                    <Text color={theme.colors.blocked}> [B]</Text>
-                  )}
-                </Box>
-              );
-            })}
-          </Box>
-        )}
-      </Box>
+      {view === 'overview' ? (
+        <>
+        {/* Tasks List */}
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Tasks ({tasks.length})</Text>
+          {tasks.length === 0 ? (
+            <Box marginLeft={1}><EmptyState message="No tasks" hint="Press n to create one." /></Box>
+          ) : (
+            <Box flexDirection="column" marginLeft={1}>
+              {tasks.map((task, index) => {
+                const isSelected = index === selectedTaskIndex;
+                return (
+                  <Box key={task.id}>
+                    <Text color={isSelected ? theme.colors.highlight : undefined}>
+                      {isSelected ? '▎' : '  '}
+                    </Text>
+                    <Text> </Text>
+                    <StatusBadge status={task.status} />
+                    <Text> </Text>
+                    <Text bold={isSelected}>
+                      {task.title}
+                    </Text>
+                    {task.blockedBy.length > 0 && (
+                      <Text color={theme.colors.blocked}> [B]</Text>
+                    )}
+                  </Box>
+                );
+              })}
+            </Box>
+          )}
+        </Box>
 
-      {/* Divider */}
-      {sections.length > 0 && (
+        {/* Divider */}
         <Box marginY={0}>
           <Text dimColor>{'─'.repeat(40)}</Text>
         </Box>
-      )}
 
-      {/* Sections Panel */}
-      {sections.length > 0 && (
+        {/* Sections Panel */}
         <Box flexDirection="column" marginBottom={1}>
           <Text bold>Sections</Text>
           <SectionList
             sections={sections}
             selectedIndex={selectedSectionIndex}
             onSelectedIndexChange={setSelectedSectionIndex}
-            isActive={true}
+            isActive={mode === 'idle' && !edits.conflict && view === 'overview'}
+            onAddSection={() => setMode('add-section')}
+            onEditSection={(section) => {
+              setSectionTarget(section);
+              setMode('edit-section');
+            }}
+            onDeleteSection={(section) => {
+              setSectionTarget(section);
+              setMode('delete-section');
+            }}
+            onMoveSection={handleMoveSection}
+          />
+        </Box>
+        </>
+      ) : view === 'activity' ? (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Activity ({activity.entries.length})</Text>
+          <ActivityList
+            entries={activity.entries}
+            selectedIndex={selectedActivityIndex}
+            onSelectedIndexChange={setSelectedActivityIndex}
+            onSelect={(entry) => {
+              if (entry.entityType === 'task' && entry.action !== 'delete') onSelectTask(entry.entityId);
+            }}
+            maxVisible={15}
+            isActive={mode === 'idle' && !edits.conflict}
+          />
+        </Box>
+      ) : (
+        <Box flexDirection="column" marginBottom={1}>
+          <ProgressCharts
+            tasks={taskHistory.tasks}
+            transitions={taskHistory.transitions}
+            now={taskHistory.loadedAt}
+            isActive={mode === 'idle' && !edits.conflict}
           />
         </Box>
       )}
@@ -257,11 +362,26 @@ export function FeatureDetail({ featureId, onSelectTask, onBack }: FeatureDetail
       {/* Help Footer */}
       <Box marginTop={1}>
         <Text dimColor>
-          ESC/h: Back | r: Refresh | n: New Task | e: Edit Feature | s: Feature Status{tasks.length > 0 ? ' | j/k: Navigate | Enter: Select Task' : ''}
+          ESC/h: Back | r: Refresh | n: New Task | e: Edit Feature | s: Feature Status | i: Import | Tab: {VIEW_LABELS[nextView(view)]}
+          {view === 'overview'
+            ? `${tasks.length > 0 ? ' | j/k: Navigate | Enter: Select Task' : ''} | a/E/D: Add/Edit/Delete Section | J/K: Move Section`
+            : view === 'activity'
+              ? ' | j/k: Navigate | Enter: Open Task'
+              : ' | d: Date Range'}
         </Text>
       </Box>
 
       {localError ? <ErrorMessage message={localError} onDismiss={() => setLocalError(null)} /> : null}
+      {notice ? <Toast message={notice} tone="success" onDismiss={() => setNotice(null)} /> : null}
+
+      {mode === 'import' ? (
+        <ImportDialog
+          targetName={feature.name}
+          target={{ projectId: feature.projectId, featureId }}
+          onCancel={() => setMode('idle')}
+          onDone={handleImported}
+        />
+      ) : null}
 
       {mode === 'edit-feature' ? (
         <FormDialog
@@ -271,24 +391,30 @@ export function FeatureDetail({ featureId, onSelectTask, onBack }: FeatureDetail
             { key: 'summary', label: 'Summary', required: true, value: feature.summary },
             { key: 'description', label: 'Description', value: feature.description ?? '' },
             { key: 'priority', label: 'Priority (HIGH/MEDIUM/LOW)', required: true, value: feature.priority },
+            { key: 'tags', label: 'Tags', value: formatTags(feature.tags), suggestions: tagNames },
           ]}
           onCancel={() => setMode('idle')}
           onSubmit={(values) => {
-            adapter.updateFeature(feature.id, {
-              name: values.name ?? '',
-              summary: values.summary ?? '',
-              description: values.description || undefined,
-              priority: ((values.priority ?? feature.priority) as Priority),
-              version: feature.version,
-            }).then((result) => {
-              if (!result.success) setLocalError(result.error);
-              refresh();
+            edits.updateFeature(feature, values).then((result) => {
+              finishWrite(result);
               setMode('idle');
             });
           }}
         />
       ) : null}
 
+      {edits.conflict ? (
+        <ConflictDialog
+          conflict={edits.conflict}
+          onRetry={() => edits.retry().then(finishWrite)}
+          onMerge={(values) => edits.merge(values).then(finishWrite)}
+          onKeepTheirs={() => {
+            edits.dismiss();
+            refresh();
+          }}
+        />
+      ) : null}
+
       {mode === 'create-task' ? (
         <FormDialog
           title="Create Task"
@@ -296,8 +422,9 @@ export function FeatureDetail({ featureId, onSelectTask, onBack }: FeatureDetail
             { key: 'title', label: 'Title', required: true },
             { key: 'summary', label: 'Summary', required: true },
             { key: 'description', label: 'Description' },
-            { key: 'priority', label: 'Priority (HIGH/MEDIUM/LOW)', required: true, value: 'MEDIUM' },
-            { key: 'complexity', label: 'Complexity (1-10)', required: true, value: '3' },
+            { key: 'priority', label: 'Priority (HIGH/MEDIUM/LOW)', required: true, value: config.defaults.taskPriority },
+            { key: 'complexity', label: 'Complexity (1-10)', required: true, value: String(config.defaults.taskComplexity) },
+            { key: 'tags', label: 'Tags', suggestions: tagNames },
           ]}
           onCancel={() => setMode('idle')}
           onSubmit={(values) => {
@@ -306,8 +433,9 @@ export function FeatureDetail({ featureId, onSelectTask, onBack }: FeatureDetail
               title: values.title ?? '',
               summary: values.summary ?? '',
               description: values.description || undefined,
-              priority: ((values.priority ?? 'MEDIUM') as Priority),
-              complexity: Number.parseInt(values.complexity ?? '3', 10) || 3,
+              priority: ((values.priority ?? config.defaults.taskPriority) as Priority),
+              complexity: Number.parseInt(values.complexity ?? '', 10) || config.defaults.taskComplexity,
+              tags: parseTags(values.tags),
             }).then((result) => {
               if (!result.success) setLocalError(result.error);
               refresh();
@@ -317,6 +445,46 @@ export function FeatureDetail({ featureId, onSelectTask, onBack }: FeatureDetail
         />
       ) : null}
 
+      {mode === 'add-section' ? (
+        <SectionFormDialog
+          onCancel={() => setMode('idle')}
+          onSubmit={(draft) => {
+            sectionActions.createSection(draft).then((result) => {
+              if (result.success) {
+                setSelectedSectionIndex(sections.length);
+              }
+              finishSectionChange(result);
+            });
+          }}
+        />
+      ) : null}
+
+      {mode === 'edit-section' && sectionTarget ? (
+        <SectionFormDialog
+          section={sectionTarget}
+          onCancel={() => setMode('idle')}
+          onSubmit={(draft) => {
+            sectionActions.updateSection(sectionTarget, draft).then(finishSectionChange);
+          }}
+        />
+      ) : null}
+
+      {mode === 'delete-section' && sectionTarget ? (
+        <ConfirmDialog
+          title="Delete Section"
+          message={`Delete section "${sectionTarget.title}"?`}
+          onCancel={() => setMode('idle')}
+          onConfirm={() => {
+            sectionActions.deleteSection(sectionTarget).then((result) => {
+              if (result.success) {
+                setSelectedSectionIndex(index => Math.max(0, Math.min(index, sections.length - 2)));
+              }
+              finishSectionChange(result);
+            });
+          }}
+        />
+      ) : null}
+
       {mode === 'feature-status' ? (
         <Box flexDirection="column" borderStyle="round" borderColor={theme.colors.accent} paddingX={1} marginTop={1}>
           <StatusActions
@@ -327,9 +495,9 @@ export function FeatureDetail({ featureId, onSelectTask, onBack }: FeatureDetail
             isTerminal={workflowState?.isTerminal ?? false}
             isActive={true}
             loading={isUpdatingStatus}
-            onAdvance={handleAdvance}
-            onRevert={handleRevert}
-            onTerminate={handleTerminate}
+            onAdvance={() => handleTransition('advance')}
+            onRevert={() => handleTransition('revert')}
+            onTerminate={() => handleTransition('terminate')}
           />
           <Text dimColor>Esc: cancel</Text>
         </Box>
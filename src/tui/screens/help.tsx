@@ -0,0 +1,97 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useTheme } from '../../ui/context/theme-context';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import { groupCommands, type Command } from '../../ui/lib/commands';
+
+interface HelpScreenProps {
+  /** Commands available on the screen Help was opened from */
+  commands: Command[];
+  onRun: (command: Command) => void;
+  onBack: () => void;
+  maxVisible?: number;
+}
+
+type HelpRow = { type: 'group'; label: string } | { type: 'command'; command: Command };
+
+const KEY_WIDTH = 12;
+
+/**
+ * Every command available where Help was opened, grouped by screen. Enter
+ * goes back and runs the selected command.
+ */
+export function HelpScreen({ commands, onRun, onBack, maxVisible = 24 }: HelpScreenProps) {
+  const { theme } = useTheme();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const rows = useMemo(
+    () =>
+      groupCommands(commands).flatMap(({ group, commands: grouped }): HelpRow[] => [
+        { type: 'group', label: group },
+        ...grouped.map((command): HelpRow => ({ type: 'command', command })),
+      ]),
+    [commands]
+  );
+  const commandRows = rows.flatMap((row, index) => (row.type === 'command' ? [index] : []));
+  const clampedIndex = Math.min(selectedIndex, Math.max(0, commandRows.length - 1));
+  const selectedRow = commandRows[clampedIndex] ?? -1;
+  const selectedEntry = rows[selectedRow];
+  const selected = selectedEntry?.type === 'command' ? selectedEntry.command : undefined;
+
+  const group = 'Help';
+  useRegisterCommands([
+    { id: 'help.navigate', key: 'j/k', title: 'Navigate', group },
+    { id: 'help.run', key: 'Enter', title: 'Run', group },
+    { id: 'help.back', key: 'Esc', title: 'Back', group, run: onBack },
+  ]);
+
+  useInput((input, key) => {
+    if (key.escape || input === 'h' || input === '?' || key.leftArrow) {
+      onBack();
+      return;
+    }
+    if (input === 'j' || key.downArrow) {
+      if (commandRows.length > 0) setSelectedIndex((clampedIndex + 1) % commandRows.length);
+      return;
+    }
+    if (input === 'k' || key.upArrow) {
+      if (commandRows.length > 0) setSelectedIndex((clampedIndex - 1 + commandRows.length) % commandRows.length);
+      return;
+    }
+    if (key.return && selected?.run) {
+      onRun(selected);
+    }
+  });
+
+  // Keep the selected row inside the visible window
+  const start = Math.max(0, Math.min(selectedRow - maxVisible + 1, rows.length - maxVisible));
+  const visible = rows.slice(Math.max(0, start), Math.max(0, start) + maxVisible);
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      <Box marginBottom={1}>
+        <Text bold>Help</Text>
+        <Text dimColor> · {commands.length} commands</Text>
+      </Box>
+      {visible.map((row, offset) => {
+        if (row.type === 'group') {
+          return (
+            <Box key={`group-${row.label}`} marginTop={offset > 0 ? 1 : 0}>
+              <Text bold color={theme.colors.accent}>{row.label}</Text>
+            </Box>
+          );
+        }
+        const isSelected = row.command === selected;
+        return (
+          <Box key={row.command.id} gap={1}>
+            <Text color={isSelected ? theme.colors.highlight : undefined}>{isSelected ? '▎' : ' '}</Text>
+            <Text color={theme.colors.accent}>{(row.command.key ?? '').padEnd(KEY_WIDTH)}</Text>
+            <Text bold={isSelected} dimColor={!row.command.run}>{row.command.title}</Text>
+            {/* The id is what config.json's "keys" remaps */}
+            {isSelected && row.command.run && <Text dimColor>{row.command.id}</Text>}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
@@ -4,3 +4,8 @@ export { TaskDetail } from './task-detail';
 export { FeatureDetail } from './feature-detail';
 export { KanbanView } from './kanban-view';
 export { SearchScreen } from './search';
+export { DependencyGraphView } from './dependency-graph';
+export { ActivityScreen } from './activity';
+export { MetricsView } from './metrics';
+export { TagsScreen } from './tags';
+export { HelpScreen } from './help';
@@ -5,7 +5,7 @@ import { KanbanView } from './kanban-view';
 import { ThemeProvider } from '../../ui/context/theme-context';
 import { AdapterProvider } from '../../ui/context/adapter-context';
 import type { DataAdapter } from '../../ui/adapters/types';
-import type { FeatureBoardColumn } from '../../ui/lib/types';
+import type { FeatureBoardColumn, KanbanBoardMode } from '../../ui/lib/types';
 import { Priority } from '@allpepper/task-orchestrator';
 
 interface UseFeatureKanbanReturn {
@@ -117,6 +117,7 @@ describe('KanbanView', () => {
   let onExpandedFeatureIdChange: ReturnType<typeof mock>;
   let onSelectedTaskIndexChange: ReturnType<typeof mock>;
   let onActiveStatusesChange: ReturnType<typeof mock>;
+  let onBoardModeChange: ReturnType<typeof mock>;
   let activeStatuses: Set<string>;
 
   beforeEach(() => {
@@ -127,6 +128,7 @@ describe('KanbanView', () => {
     onExpandedFeatureIdChange = mock(() => {});
     onSelectedTaskIndexChange = mock(() => {});
     onActiveStatusesChange = mock(() => {});
+    onBoardModeChange = mock(() => {});
     activeStatuses = new Set(['NEW', 'ACTIVE', 'CLOSED']);
 
     mockAdapter = {
@@ -153,10 +155,25 @@ describe('KanbanView', () => {
       getWorkflowState: mock(async () => ({ success: true, data: {} as any })),
       getAllowedTransitions: mock(async () => ({ success: true, data: [] })),
       getSections: mock(async () => ({ success: true, data: [] })),
-      getDependencies: mock(async () => ({ success: true, data: { blockedBy: [], blocks: [] } })),
+      createSection: mock(async () => ({ success: true, data: {} as any })),
+      updateSection: mock(async () => ({ success: true, data: {} as any })),
+      reorderSections: mock(async () => ({ success: true, data: true })),
+      deleteSection: mock(async () => ({ success: true, data: true })),
+      getDependencies: mock(async () => ({ success: true, data: { blockedBy: [], blocks: [], relatedTo: [] } })),
+      addBlocker: mock(async () => ({ success: true, data: {} as any })),
+      removeBlocker: mock(async () => ({ success: true, data: {} as any })),
+      addRelated: mock(async () => ({ success: true, data: {} as any })),
+      removeRelated: mock(async () => ({ success: true, data: {} as any })),
       getBlockedTasks: mock(async () => ({ success: true, data: [] })),
       getNextTask: mock(async () => ({ success: true, data: null })),
-      search: mock(async () => ({ success: true, data: { projects: [], features: [], tasks: [] } })),
+      search: mock(async () => ({ success: true, data: { projects: [], features: [], tasks: [], hasMore: false } })),
+      getTags: mock(async () => ({ success: true, data: [] })),
+      renameTag: mock(async () => ({ success: false, error: 'Not implemented' })),
+      getChanges: mock(async () => ({ success: true, data: { cursor: {}, changes: [] } })),
+      restoreStatus: mock(async () => ({ success: false, error: 'Not implemented' })),
+      getSnapshot: mock(async () => ({ success: false, error: 'Not implemented' })),
+      restoreSnapshot: mock(async () => ({ success: true, data: true })),
+      getActivity: mock(async () => ({ success: true, data: [] })),
     } as DataAdapter;
 
     // Reset mock implementation
@@ -176,6 +193,7 @@ describe('KanbanView', () => {
       selectedFeatureIndex?: number;
       expandedFeatureId?: string | null;
       selectedTaskIndex?: number;
+      boardMode?: KanbanBoardMode;
     } = {}
   ) {
     const {
@@ -183,6 +201,7 @@ describe('KanbanView', () => {
       selectedFeatureIndex = 0,
       expandedFeatureId = null,
       selectedTaskIndex = 0,
+      boardMode = 'features',
     } = overrides;
 
     return render(
@@ -202,6 +221,12 @@ describe('KanbanView', () => {
             onBack={onBack}
             activeStatuses={activeStatuses}
             onActiveStatusesChange={onActiveStatusesChange}
+            boardMode={boardMode}
+            onBoardModeChange={onBoardModeChange}
+            taskBoardColumnIndex={0}
+            onTaskBoardColumnIndexChange={mock(() => {})}
+            taskBoardTaskIndex={0}
+            onTaskBoardTaskIndexChange={mock(() => {})}
           />
         </AdapterProvider>
       </ThemeProvider>
@@ -359,4 +384,95 @@ describe('KanbanView', () => {
     expect(output).toContain('Feature A');
     expect(output).toContain('Feature B');
   });
+
+  describe('task board', () => {
+    const PIPELINE = ['NEW', 'ACTIVE', 'TO_BE_TESTED', 'READY_TO_PROD', 'CLOSED'];
+
+    function boardTask(id: string, overrides: Record<string, unknown> = {}) {
+      return {
+        id,
+        projectId: 'proj-1',
+        featureId: 'feature-1',
+        title: `Task ${id}`,
+        summary: '',
+        status: 'NEW',
+        priority: Priority.HIGH,
+        complexity: 5,
+        blockedBy: [],
+        relatedTo: [],
+        version: 1,
+        createdAt: new Date(),
+        modifiedAt: new Date(),
+        ...overrides,
+      };
+    }
+
+    function useTasks(tasks: ReturnType<typeof boardTask>[]) {
+      mockAdapter.getTasks = mock(async () => ({ success: true, data: tasks })) as any;
+      mockAdapter.getFeatures = mock(async () => ({ success: true, data: [{ id: 'feature-1', name: 'Login flow' }] })) as any;
+      mockAdapter.getAllowedTransitions = mock(async (_type: string, status: string) => {
+        const index = PIPELINE.indexOf(status);
+        const next = PIPELINE[index + 1];
+        return { success: true, data: index === -1 || !next ? [] : [next, 'WILL_NOT_IMPLEMENT'] };
+      }) as any;
+      let version = 1;
+      mockAdapter.advance = mock(async () => ({
+        success: true,
+        data: { entity: boardTask('t1', { version: ++version }), oldStatus: '', newStatus: '', pipelinePosition: null },
+      })) as any;
+    }
+
+    const wait = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    async function waitForBoard(lastFrame: () => string | undefined) {
+      for (let i = 0; i < 40 && !lastFrame()?.includes('Task Board'); i++) await wait();
+    }
+
+    test('should switch to the task board with t', () => {
+      const { stdin } = renderWithProviders('proj-1');
+
+      stdin.write('t');
+      expect(onBoardModeChange).toHaveBeenCalledWith('tasks');
+    });
+
+    test('should show task cards with feature, priority, complexity and blocked state', async () => {
+      useTasks([boardTask('t1', { blockedBy: ['t2'] })]);
+      const { lastFrame } = renderWithProviders('proj-1', { boardMode: 'tasks' });
+      await waitForBoard(lastFrame);
+
+      const output = lastFrame();
+      expect(output).toContain('Task Board');
+      expect(output).toContain('Task t1');
+      expect(output).toContain('[Login flow]');
+      expect(output).toContain('HIGH');
+      expect(output).toContain('C5');
+      expect(output).toContain('BLOCKED');
+    });
+
+    test('should move a task several columns with m', async () => {
+      useTasks([boardTask('t1')]);
+      const { stdin, lastFrame } = renderWithProviders('proj-1', { boardMode: 'tasks' });
+      await waitForBoard(lastFrame);
+
+      for (const key of ['m', 'l', 'l', 'l', '\r']) {
+        stdin.write(key);
+        await wait();
+      }
+      expect(mockAdapter.advance).toHaveBeenCalledTimes(3);
+      expect((mockAdapter.advance as ReturnType<typeof mock>).mock.calls.map((call) => call[2])).toEqual([1, 2, 3]);
+    });
+
+    test('should refuse moves the pipeline forbids', async () => {
+      useTasks([boardTask('t1', { blockedBy: ['t2'] })]);
+      const { stdin, lastFrame } = renderWithProviders('proj-1', { boardMode: 'tasks' });
+      await waitForBoard(lastFrame);
+
+      for (const key of ['m', 'l', '\r']) {
+        stdin.write(key);
+        await wait();
+      }
+      expect(mockAdapter.advance).not.toHaveBeenCalled();
+      expect(lastFrame()).toContain('Blocked by 1 task; cannot advance');
+    });
+  });
 });
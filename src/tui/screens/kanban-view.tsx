@@ -1,8 +1,19 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Box, Text, useInput, useStdout } from 'ink';
 import { useFeatureKanban } from '../../ui/hooks/use-feature-kanban';
+import { useKanban } from '../../ui/hooks/use-kanban';
 import { useAdapter } from '../../ui/context/adapter-context';
+import { useTheme } from '../../ui/context/theme-context';
 import { KanbanBoard } from '../components/kanban-board';
+import { TaskKanbanBoard } from '../components/task-kanban-board';
+import { Toast } from '../components/toast';
+import { BulkActionsDialog } from '../components/bulk-actions-dialog';
+import { useMultiSelect } from '../../ui/hooks/use-bulk-actions';
+import { bulkItemKey, bulkKey, type BulkItem, type BulkItemResult } from '../../ui/lib/bulk';
+import { collectTags, filterFeaturesByTags } from '../../ui/lib/tags';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import { runCommandKey, type Command } from '../../ui/lib/commands';
+import type { KanbanBoardMode } from '../../ui/lib/types';
 
 interface KanbanViewProps {
   projectId: string;
@@ -19,9 +30,20 @@ interface KanbanViewProps {
   // Filter state (lifted to App for persistence)
   activeStatuses: Set<string>;
   onActiveStatusesChange: (statuses: Set<string>) => void;
+  // Task board mode (`t`) and its cursor
+  boardMode: KanbanBoardMode;
+  onBoardModeChange: (mode: KanbanBoardMode) => void;
+  taskBoardColumnIndex: number;
+  onTaskBoardColumnIndexChange: (index: number) => void;
+  taskBoardTaskIndex: number;
+  onTaskBoardTaskIndexChange: (index: number) => void;
 }
 
-export function KanbanView({
+export function KanbanView(props: KanbanViewProps) {
+  return props.boardMode === 'tasks' ? <TaskBoardView {...props} /> : <FeatureBoardView {...props} />;
+}
+
+function FeatureBoardView({
   projectId,
   activeColumnIndex,
   onActiveColumnIndexChange,
@@ -35,8 +57,10 @@ export function KanbanView({
   onBack,
   activeStatuses,
   onActiveStatusesChange,
+  onBoardModeChange,
 }: KanbanViewProps) {
   const { adapter } = useAdapter();
+  const { theme } = useTheme();
   const { columns, loading, error, refresh, moveFeature } = useFeatureKanban(projectId);
   const [projectName, setProjectName] = useState<string>('');
   const { stdout } = useStdout();
@@ -48,6 +72,10 @@ export function KanbanView({
   // Filter mode state (local — only active while interacting with chips)
   const [isFilterMode, setIsFilterMode] = useState(false);
   const [filterCursorIndex, setFilterCursorIndex] = useState(0);
+  const [activeTags, setActiveTags] = useState<Set<string>>(new Set());
+
+  const selection = useMultiSelect();
+  const [isBulkMode, setIsBulkMode] = useState(false);
 
   // Auto-populate activeStatuses from data on first load (only if empty)
   useEffect(() => {
@@ -70,9 +98,22 @@ export function KanbanView({
 
   // Compute filtered columns
   const filteredColumns = useMemo(() => {
-    if (activeStatuses.size === 0) return columns;
-    return columns.filter((c) => activeStatuses.has(c.status));
-  }, [columns, activeStatuses]);
+    const statusColumns = activeStatuses.size === 0 ? columns : columns.filter((c) => activeStatuses.has(c.status));
+    if (activeTags.size === 0) return statusColumns;
+    return statusColumns.map((c) => ({ ...c, features: filterFeaturesByTags(c.features, activeTags) }));
+  }, [columns, activeStatuses, activeTags]);
+
+  // Marked cards and tasks resolved against every column, filtered or not
+  const boardFeatures = useMemo(() => columns.flatMap((column) => column.features), [columns]);
+  const boardTags = useMemo(() => collectTags(boardFeatures), [boardFeatures]);
+  const markedItems = useMemo(() => {
+    const byKey = new Map<string, BulkItem>();
+    for (const feature of boardFeatures) {
+      byKey.set(bulkKey('feature', feature.id), { type: 'feature', entity: feature });
+      for (const task of feature.tasks) byKey.set(bulkKey('task', task.id), { type: 'task', entity: task });
+    }
+    return [...selection.marked].flatMap((key) => byKey.get(key) ?? []);
+  }, [boardFeatures, selection.marked]);
 
   // Fetch project name
   useEffect(() => {
@@ -133,29 +174,67 @@ export function KanbanView({
     onActiveStatusesChange(next);
   };
 
+  const handleToggleTag = (tag: string) => {
+    const next = new Set(activeTags);
+    if (next.has(tag)) next.delete(tag);
+    else next.add(tag);
+    setActiveTags(next);
+  };
+
+  // Board keys (columns, expand, move, marks) are handled by KanbanBoard;
+  // those commands are hints only
+  const group = 'Board';
+  const commands: Command[] = expandedFeatureId
+    ? [
+      { id: 'kanban.tasks', key: 'j/k', title: 'Tasks', group },
+      { id: 'kanban.open-task', key: 'Enter', title: 'Open Task', group },
+      { id: 'kanban.mark', key: 'Space/V', title: 'Mark', group },
+      ...(markedItems.length > 0 ? [{ id: 'kanban.bulk', key: 'B', title: 'Bulk', group, run: () => setIsBulkMode(true) }] : []),
+      { id: 'kanban.collapse', key: 'Esc/h', title: 'Collapse', group, run: () => onExpandedFeatureIdChange(null) },
+      { id: 'kanban.refresh', key: 'r', title: 'Refresh', group, run: refresh },
+    ]
+    : [
+      { id: 'kanban.columns', key: 'h/l', title: 'Columns', group },
+      { id: 'kanban.features', key: 'j/k', title: 'Features', group },
+      { id: 'kanban.expand', key: 'Enter', title: 'Expand', group },
+      { id: 'kanban.move', key: 'm', title: 'Move Feature', group },
+      { id: 'kanban.filter', key: 'f', title: 'Filter', group, run: () => setIsFilterMode(true) },
+      { id: 'kanban.mark', key: 'Space/V', title: 'Mark', group },
+      ...(markedItems.length > 0 ? [{ id: 'kanban.bulk', key: 'B', title: 'Bulk', group, run: () => setIsBulkMode(true) }] : []),
+      { id: 'kanban.mode', key: 't', title: 'Task Board', group, run: () => onBoardModeChange('tasks') },
+      { id: 'kanban.tree', key: 'b', title: 'Tree View', group, run: onBack },
+      { id: 'kanban.refresh', key: 'r', title: 'Refresh', group, run: refresh },
+      { id: 'kanban.back', key: 'Esc', title: 'Back', group, run: onBack },
+    ];
+  const boundCommands = useRegisterCommands(commands);
+
   // Handle keyboard
   useInput((input, key) => {
     // Don't handle keys in filter mode — board handles them
-    if (isFilterMode) return;
+    if (isFilterMode || isBulkMode) return;
 
     if (key.escape) {
       if (expandedFeatureId) {
         // Let KanbanBoard handle Esc in task mode
         return;
       }
+      if (selection.marked.size > 0) {
+        selection.clear();
+        return;
+      }
       onBack();
       return;
     }
-    if (input === 'b' && !expandedFeatureId) {
-      onBack();
-      return;
-    }
-    if (input === 'r') {
-      refresh();
-      return;
-    }
+    runCommandKey(boundCommands, input, key);
   });
 
+  // Items that failed stay marked so the action can be retried on them
+  const handleBulkDone = (results: BulkItemResult[]) => {
+    selection.setMarked(results.flatMap((result) => (result.success ? [] : [bulkItemKey(result.item)])));
+    setIsBulkMode(false);
+    refresh();
+  };
+
   // Handle move feature
   const handleMoveFeature = async (featureId: string, newStatus: string) => {
     await moveFeature(featureId, newStatus);
@@ -183,7 +262,7 @@ export function KanbanView({
   if (error) {
     return (
       <Box padding={1}>
-        <Text color="red">Error: {error}</Text>
+        <Text color={theme.colors.error}>Error: {error}</Text>
       </Box>
     );
   }
@@ -212,6 +291,9 @@ export function KanbanView({
         <Text bold>{projectName}</Text>
         <Text> - </Text>
         <Text>Feature Board</Text>
+        {activeTags.size > 0 ? (
+          <Text color={theme.colors.accent}> · {[...activeTags].map((tag) => `#${tag}`).join(' ')}</Text>
+        ) : null}
       </Box>
 
       {/* Kanban Board */}
@@ -230,7 +312,10 @@ export function KanbanView({
           onTaskChange={onSelectedTaskIndexChange}
           onSelectTask={onSelectTask}
           onMoveFeature={handleMoveFeature}
-          isActive={true}
+          markedKeys={selection.marked}
+          onToggleMark={selection.toggle}
+          onMarkRange={selection.markRange}
+          isActive={!isBulkMode}
           availableHeight={availableHeight}
           availableWidth={terminalCols}
           activeStatuses={activeStatuses}
@@ -239,13 +324,141 @@ export function KanbanView({
           onToggleStatus={handleToggleStatus}
           onFilterCursorChange={setFilterCursorIndex}
           onFilterModeChange={setIsFilterMode}
+          tags={boardTags}
+          activeTags={activeTags}
+          onToggleTag={handleToggleTag}
         />
       )}
 
+      {isBulkMode ? (
+        <BulkActionsDialog
+          items={markedItems}
+          features={boardFeatures}
+          onCancel={() => setIsBulkMode(false)}
+          onDone={handleBulkDone}
+        />
+      ) : null}
+
       {/* Footer hints */}
       <Box marginTop={1}>
+        {markedItems.length > 0 && !isBulkMode ? (
+          <Text color={theme.colors.accent}>{markedItems.length} marked (B: bulk actions)  </Text>
+        ) : null}
         <Text dimColor>{footerHint}</Text>
       </Box>
     </Box>
   );
 }
+
+/**
+ * Task cards in one column per pipeline state; `m` moves the selected task
+ * any number of columns through advance/revert, or refuses with the reason
+ */
+function TaskBoardView({
+  projectId,
+  taskBoardColumnIndex,
+  onTaskBoardColumnIndexChange,
+  taskBoardTaskIndex,
+  onTaskBoardTaskIndexChange,
+  onBoardModeChange,
+  onSelectTask,
+  onBack,
+}: KanbanViewProps) {
+  const { adapter } = useAdapter();
+  const { theme } = useTheme();
+  const { columns, loading, error, refresh, moveTask } = useKanban(projectId);
+  const [projectName, setProjectName] = useState<string>('');
+  const [moveTargetIndex, setMoveTargetIndex] = useState<number | null>(null);
+  const [moveError, setMoveError] = useState<string | null>(null);
+  const { stdout } = useStdout();
+
+  const terminalRows = stdout?.rows ?? 24;
+  const terminalCols = stdout?.columns ?? 120;
+  const availableHeight = Math.max(10, terminalRows - 6);
+
+  useEffect(() => {
+    const fetchProject = async () => {
+      const result = await adapter.getProject(projectId);
+      if (result.success) {
+        setProjectName(result.data.name);
+      }
+    };
+    fetchProject();
+  }, [adapter, projectId]);
+
+  const group = 'Board';
+  const commands: Command[] = [
+    { id: 'kanban.columns', key: 'h/l', title: 'Columns', group },
+    { id: 'kanban.tasks', key: 'j/k', title: 'Tasks', group },
+    { id: 'kanban.open-task', key: 'Enter', title: 'Open Task', group },
+    { id: 'kanban.move', key: 'm', title: 'Move Task', group },
+    { id: 'kanban.mode', key: 't', title: 'Feature Board', group, run: () => onBoardModeChange('features') },
+    { id: 'kanban.tree', key: 'b', title: 'Tree View', group, run: onBack },
+    { id: 'kanban.refresh', key: 'r', title: 'Refresh', group, run: refresh },
+    { id: 'kanban.back', key: 'Esc', title: 'Back', group, run: onBack },
+  ];
+  const boundCommands = useRegisterCommands(commands);
+
+  useInput((input, key) => {
+    // Move mode keys belong to the board
+    if (moveTargetIndex !== null) return;
+    runCommandKey(boundCommands, input, key);
+  });
+
+  const handleMoveTask = async (taskId: string, newStatus: string) => {
+    setMoveError(null);
+    const result = await moveTask(taskId, newStatus);
+    if (!result.success) setMoveError(result.error);
+  };
+
+  if (loading) {
+    return (
+      <Box padding={1}>
+        <Text>Loading task board...</Text>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box padding={1}>
+        <Text color={theme.colors.error}>Error: {error}</Text>
+      </Box>
+    );
+  }
+
+  // Clamp the cursor; moves and live updates change column lengths
+  const activeColumnIndex = Math.min(taskBoardColumnIndex, Math.max(0, columns.length - 1));
+  const taskCount = columns[activeColumnIndex]?.tasks.length ?? 0;
+  const selectedTaskIndex = taskCount === 0 ? -1 : Math.min(Math.max(0, taskBoardTaskIndex), taskCount - 1);
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      <Box marginBottom={1}>
+        <Text bold>{projectName}</Text>
+        <Text> - </Text>
+        <Text>Task Board</Text>
+      </Box>
+
+      <TaskKanbanBoard
+        columns={columns}
+        activeColumnIndex={activeColumnIndex}
+        selectedTaskIndex={selectedTaskIndex}
+        onColumnChange={onTaskBoardColumnIndexChange}
+        onTaskChange={onTaskBoardTaskIndexChange}
+        onSelectTask={onSelectTask}
+        onMoveTask={handleMoveTask}
+        moveTargetIndex={moveTargetIndex}
+        onMoveTargetChange={setMoveTargetIndex}
+        availableHeight={availableHeight}
+        availableWidth={terminalCols}
+      />
+
+      {moveError ? <Toast message={moveError} tone="error" onDismiss={() => setMoveError(null)} /> : null}
+
+      <Box marginTop={1}>
+        <Text dimColor>h/l: columns  j/k: tasks  Enter: open  m: move  t: features  r: refresh  Esc: back</Text>
+      </Box>
+    </Box>
+  );
+}
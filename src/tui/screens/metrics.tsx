@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useProjectMetrics } from '../../ui/hooks/use-metrics';
+import { useTheme } from '../../ui/context/theme-context';
+import { getStatusColor } from '../../ui/lib/colors';
+import { formatCount, formatDuration, formatShortDate, formatStatus } from '../../ui/lib/format';
+import { sparkline } from '../../ui/lib/charts';
+import { DEFAULT_THROUGHPUT_WEEKS, type DurationStats } from '../../ui/lib/metrics';
+import { BarChart } from '../components/bar-chart';
+import { EmptyState } from '../components/empty-state';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import { runCommandKey, type Command } from '../../ui/lib/commands';
+
+const THROUGHPUT_WINDOWS = [4, DEFAULT_THROUGHPUT_WEEKS, 26];
+
+interface MetricsViewProps {
+  projectId: string;
+  onBack: () => void;
+}
+
+function formatStat(value: number | null): string {
+  return value === null ? '—' : formatDuration(value);
+}
+
+function DurationSummary({ label, stats, color }: { label: string; stats: DurationStats; color: string }) {
+  return (
+    <Text>
+      <Text bold>{label.padEnd(12)}</Text>
+      <Text color={color}>median {formatStat(stats.median)}</Text>
+      <Text dimColor>  mean {formatStat(stats.mean)}  85% within {formatStat(stats.p85)}  ({formatCount(stats.count, 'task')})</Text>
+    </Text>
+  );
+}
+
+export function MetricsView({ projectId, onBack }: MetricsViewProps) {
+  const { theme } = useTheme();
+  const [weeks, setWeeks] = useState(DEFAULT_THROUGHPUT_WEEKS);
+  const { project, metrics, loading, error, refresh } = useProjectMetrics(projectId, weeks);
+
+  const cycleWindow = () => {
+    const index = THROUGHPUT_WINDOWS.indexOf(weeks);
+    setWeeks(THROUGHPUT_WINDOWS[(index + 1) % THROUGHPUT_WINDOWS.length] ?? DEFAULT_THROUGHPUT_WEEKS);
+  };
+
+  const group = 'Metrics';
+  const commands: Command[] = [
+    { id: 'metrics.window', key: 'w', title: 'Window', group, run: cycleWindow },
+    { id: 'metrics.refresh', key: 'r', title: 'Refresh', group, run: refresh },
+    { id: 'metrics.back', key: 'Esc', title: 'Back', group, run: onBack },
+  ];
+  const boundCommands = useRegisterCommands(commands);
+
+  useInput((input, key) => {
+    if (key.escape || input === 'h' || key.leftArrow) {
+      onBack();
+      return;
+    }
+    runCommandKey(boundCommands, input, key);
+  });
+
+  if (loading) {
+    return (
+      <Box padding={1}>
+        <Text>Loading metrics...</Text>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box padding={1}>
+        <Text color={theme.colors.error}>Error: {error}</Text>
+      </Box>
+    );
+  }
+
+  const counts = metrics.throughput.map((bucket) => bucket.count);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const firstWeek = metrics.throughput[0];
+  const lastWeek = metrics.throughput[metrics.throughput.length - 1];
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      <Box marginBottom={1}>
+        <Text bold>{project?.name ?? ''}</Text>
+        <Text> - </Text>
+        <Text>Metrics</Text>
+        <Text dimColor> ({metrics.taskCount} tasks, {metrics.closedCount} closed)</Text>
+      </Box>
+
+      {metrics.taskCount === 0 ? (
+        <EmptyState message="No tasks in this project yet." />
+      ) : (
+        <>
+          <DurationSummary label="Lead time" stats={metrics.leadTime} color={theme.colors.accent} />
+          <DurationSummary label="Cycle time" stats={metrics.cycleTime} color={theme.colors.accent} />
+
+          <Box marginTop={1} flexDirection="column">
+            <Text bold>Average time in status</Text>
+            <BarChart
+              rows={metrics.stages.map((stage) => ({
+                label: formatStatus(stage.status),
+                value: stage.average ?? 0,
+                valueLabel: stage.average === null ? '—' : `${formatDuration(stage.average)} (${stage.count})`,
+                color: getStatusColor(stage.status, theme),
+              }))}
+            />
+          </Box>
+
+          <Box marginTop={1} flexDirection="column">
+            <Text>
+              <Text bold>Throughput</Text>
+              <Text dimColor> · closed per week, last {weeks} weeks</Text>
+            </Text>
+            <Text>
+              <Text color={getStatusColor('CLOSED', theme)}>{sparkline(counts)}</Text>
+              <Text dimColor>  {total} closed, {(total / weeks).toFixed(1)}/week, {lastWeek?.count ?? 0} this week{firstWeek ? `, since ${formatShortDate(firstWeek.weekStart)}` : ''}</Text>
+            </Text>
+          </Box>
+
+          {metrics.estimatedCount > 0 ? (
+            <Box marginTop={1}>
+              <Text color={theme.colors.warning}>
+                {metrics.estimatedCount} of {metrics.taskCount} tasks have no full transition history; their times are estimated from created/modified dates
+              </Text>
+            </Box>
+          ) : null}
+        </>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>w: throughput window  r: refresh  Esc: back</Text>
+      </Box>
+    </Box>
+  );
+}
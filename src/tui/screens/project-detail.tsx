@@ -9,6 +9,26 @@ import { ErrorMessage } from '../components/error-message';
 import { EmptyState } from '../components/empty-state';
 import { useTheme } from '../../ui/context/theme-context';
 import { SectionList } from '../components/section-list';
+import { ConfirmDialog } from '../components/confirm-dialog';
+import { SectionFormDialog } from '../components/section-form-dialog';
+import { useSectionActions } from '../../ui/hooks/use-section-actions';
+import { useDependencyValidation } from '../../ui/hooks/use-dependency-validation';
+import { DependencyWarnings } from '../components/dependency-warnings';
+import { ConflictDialog } from '../components/conflict-dialog';
+import { useConflictResolution, isConflict } from '../../ui/hooks/use-conflict-resolution';
+import { useTags } from '../../ui/hooks/use-tags';
+import { formatTags, parseTags } from '../../ui/lib/tags';
+import type { Result } from '../../ui/adapters/types';
+import { describeImport, type ImportSummary } from '../../ui/import';
+import { useLiveRefresh } from '../../ui/hooks/use-live-refresh';
+import { changeAffects } from '../../ui/adapters/change-watcher';
+import { useTaskHistory } from '../../ui/hooks/use-task-history';
+import { exportToFile, parseExportFormat, EXPORT_FORMATS } from '../../ui/export';
+import { Toast } from '../components/toast';
+import { ProgressCharts } from '../components/progress-charts';
+import { ImportDialog } from '../components/import-dialog';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import { runCommandKey, type Command } from '../../ui/lib/commands';
 
 interface ProjectDetailProps {
   projectId: string;
@@ -26,11 +46,19 @@ export function ProjectDetail({ projectId, onSelectFeature, onBack }: ProjectDet
   const [error, setError] = useState<string | null>(null);
   const [selectedFeatureIndex, setSelectedFeatureIndex] = useState(0);
   const [selectedSectionIndex, setSelectedSectionIndex] = useState(0);
-  const [mode, setMode] = useState<'idle' | 'edit-project'>('idle');
+  const [mode, setMode] = useState<'idle' | 'edit-project' | 'add-section' | 'edit-section' | 'delete-section' | 'export' | 'import'>('idle');
   const [localError, setLocalError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [sectionTarget, setSectionTarget] = useState<Section | null>(null);
+  const sectionActions = useSectionActions('PROJECT' as EntityType, projectId, sections);
+  const dependencyCheck = useDependencyValidation(projectId);
+  const edits = useConflictResolution();
+  const { names: tagNames } = useTags();
+  const [view, setView] = useState<'overview' | 'progress'>('overview');
+  const taskHistory = useTaskHistory({ projectId });
 
-  const load = async () => {
-    setLoading(true);
+  const load = async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!silent) setLoading(true);
     setError(null);
     const [projectResult, featuresResult, sectionsResult] = await Promise.all([
       adapter.getProject(projectId),
@@ -56,30 +84,107 @@ export function ProjectDetail({ projectId, onSelectFeature, onBack }: ProjectDet
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [projectId]);
 
+  useLiveRefresh(
+    (change) => change.entityType !== 'task' && changeAffects(change, [projectId]),
+    () => load({ silent: true })
+  );
+
+  const finishWrite = (result: Result<unknown>) => {
+    if (!result.success && !isConflict(result)) setLocalError(result.error);
+    load();
+  };
+
+  // Section authoring
+  const finishSectionChange = (result: { success: true } | { success: false; error: string }) => {
+    if (!result.success) setLocalError(result.error);
+    setSectionTarget(null);
+    setMode('idle');
+    load();
+  };
+
+  const handleExport = async (values: Record<string, string>) => {
+    const format = parseExportFormat(values.format ?? '');
+    if (!format) {
+      setLocalError(`Unknown format "${values.format}" (use ${EXPORT_FORMATS.join(', ')})`);
+      return;
+    }
+    setMode('idle');
+    const result = await exportToFile(adapter, { type: 'project', id: projectId }, format, values.path);
+    if (result.success) {
+      setNotice(`Exported to ${result.data}`);
+    } else {
+      setLocalError(result.error);
+    }
+  };
+
+  const handleImported = (result: Result<ImportSummary>) => {
+    setMode('idle');
+    if (result.success) {
+      setNotice(`Imported ${describeImport(result.data)}`);
+    } else {
+      setLocalError(result.error);
+    }
+    load();
+    taskHistory.refresh();
+  };
+
+  const handleMoveSection = async (section: Section, offset: -1 | 1) => {
+    const result = await sectionActions.moveSection(section, offset);
+    if (result.success && result.data) {
+      setSelectedSectionIndex((index) => index + offset);
+    }
+    finishSectionChange(result);
+  };
+
+  const refreshAll = () => {
+    load();
+    dependencyCheck.refresh();
+    taskHistory.refresh();
+  };
+  const toggleView = () => setView((current) => (current === 'overview' ? 'progress' : 'overview'));
+  const selectedFeature = features[selectedFeatureIndex];
+
+  const group = 'Project Detail';
+  const commands: Command[] = [
+    ...(view === 'overview' && selectedFeature
+      ? [
+        { id: 'project-detail.navigate', key: 'j/k', title: 'Navigate', group },
+        { id: 'project-detail.open', key: 'Enter', title: 'Open Feature', group, run: () => onSelectFeature(selectedFeature.id) },
+      ]
+      : []),
+    { id: 'project-detail.toggle-view', key: 'Tab', title: view === 'overview' ? 'Progress' : 'Overview', group, run: toggleView },
+    ...(project
+      ? [
+        { id: 'project-detail.edit', key: 'e', title: 'Edit Project', group, run: () => setMode('edit-project') },
+        { id: 'project-detail.export', key: 'x', title: 'Export', group, run: () => setMode('export') },
+        { id: 'project-detail.import', key: 'i', title: 'Import', group, run: () => setMode('import') },
+      ]
+      : []),
+    { id: 'project-detail.refresh', key: 'r', title: 'Refresh', group, run: refreshAll },
+    { id: 'project-detail.back', key: 'Esc/h', title: 'Back', group, run: onBack },
+  ];
+  const boundCommands = useRegisterCommands(commands);
+
   // Handle keyboard navigation
   useInput((input, key) => {
-    if (mode !== 'idle') return;
+    if (mode !== 'idle' || edits.conflict) return;
     if (key.escape || input === 'h' || key.leftArrow) {
       onBack();
     }
-    if (input === 'r') {
-      load();
+    if (key.tab) {
+      toggleView();
+      return;
     }
-    if (input === 'e' && project) {
-      setMode('edit-project');
-    }
-    if (features.length > 0) {
+    runCommandKey(boundCommands, input, key);
+    if (view === 'overview' && features.length > 0) {
       if (input === 'j' || key.downArrow) {
         setSelectedFeatureIndex((prev) => Math.min(prev + 1, features.length - 1));
       }
       if (input === 'k' || key.upArrow) {
         setSelectedFeatureIndex((prev) => Math.max(prev - 1, 0));
       }
-      if (key.return) {
-        const selectedFeature = features[selectedFeatureIndex];
-        if (selectedFeature) {
-          onSelectFeature(selectedFeature.id);
-        }
+      if (key.return && selectedFeature) {
+        onSelectFeature(selectedFeature.id);
       }
     }
   });
@@ -120,6 +225,9 @@ export function ProjectDetail({ projectId, onSelectFeature, onBack }: ProjectDet
         <Text dimColor>{'─'.repeat(40)}</Text>
       </Box>
 
+      {/* Dependency Warnings */}
+      <DependencyWarnings validation={dependencyCheck.validation} tasks={dependencyCheck.tasks} />
+
       {/* Project Metadata */}
       <Box marginBottom={1}>
         <Text>Modified: </Text>
@@ -161,52 +269,71 @@ export function ProjectDetail({ projectId, onSelectFeature, onBack }: ProjectDet
         <Text dimColor>{'─'.repeat(40)}</Text>
       </Box>
 
-      {/* Features List */}
-      <Box flexDirection="column" marginBottom={1}>
-        <Text bold>Features ({features.length})</Text>
-        {features.length === 0 ? (
-          <Box marginLeft={1}><EmptyState message="No features" hint="" /></Box>
-        ) : (
-          <Box flexDirection="column" marginLeft={1}>
-            {features.map((feature, index) => {
-              const isSelected = index === selectedFeatureIndex;
-              return (
-                <Box key={feature.id}>
-                  <Text color={isSelected ? theme.colors.highlight : undefined}>
-                    {isSelected ? '▎' : '  '}
-                  </Text>
-                  <Text> </Text>
-                  <StatusBadge status={feature.status} />
-                  <Text> </Text>
-                  <Text bold={isSelected}>
-                    {feature.name}
-                  </Text>
-                  {feature.blockedBy.length > 0 && (
-                    <Text color={theme.colors.blocked}> [B]</Text>
-                  )}
-                </Box>
-              );
-            })}
-          </Box>
-        )}
-      </Box>
+      {view === 'overview' ? (
+        <>
+        {/* Features List */}
+        <Box flexDirection="column" marginBottom={1}>
+          <Text bold>Features ({features.length})</Text>
+          {features.length === 0 ? (
+            <Box marginLeft={1}><EmptyState message="No features" hint="" /></Box>
+          ) : (
+            <Box flexDirection="column" marginLeft={1}>
+              {features.map((feature, index) => {
+                const isSelected = index === selectedFeatureIndex;
+                return (
+                  <Box key={feature.id}>
+                    <Text color={isSelected ? theme.colors.highlight : undefined}>
+                      {isSelected ? '▎' : '  '}
+                    </Text>
+                    <Text> </Text>
+                    <StatusBadge status={feature.status} />
+                    <Text> </Text>
+                    <Text bold={isSelected}>
+                      {feature.name}
+                    </Text>
+                    {feature.blockedBy.length > 0 && (
+                      <Text color={theme.colors.blocked}> [B]</Text>
+                    )}
+                  </Box>
+                );
+              })}
+            </Box>
+          )}
+        </Box>
 
-      {/* Divider */}
-      {sections.length > 0 && (
+        {/* Divider */}
         <Box marginY={0}>
           <Text dimColor>{'─'.repeat(40)}</Text>
         </Box>
-      )}
 
-      {/* Sections Panel */}
-      {sections.length > 0 && (
+        {/* Sections Panel */}
         <Box flexDirection="column" marginBottom={1}>
           <Text bold>Sections</Text>
           <SectionList
             sections={sections}
             selectedIndex={selectedSectionIndex}
             onSelectedIndexChange={setSelectedSectionIndex}
-            isActive={true}
+            isActive={mode === 'idle' && !edits.conflict && view === 'overview'}
+            onAddSection={() => setMode('add-section')}
+            onEditSection={(section) => {
+              setSectionTarget(section);
+              setMode('edit-section');
+            }}
+            onDeleteSection={(section) => {
+              setSectionTarget(section);
+              setMode('delete-section');
+            }}
+            onMoveSection={handleMoveSection}
+          />
+        </Box>
+        </>
+      ) : (
+        <Box flexDirection="column" marginBottom={1}>
+          <ProgressCharts
+            tasks={taskHistory.tasks}
+            transitions={taskHistory.transitions}
+            now={taskHistory.loadedAt}
+            isActive={mode === 'idle' && !edits.conflict}
           />
         </Box>
       )}
@@ -214,11 +341,77 @@ export function ProjectDetail({ projectId, onSelectFeature, onBack }: ProjectDet
       {/* Help Footer */}
       <Box marginTop={1}>
         <Text dimColor>
-          ESC/h: Back | r: Refresh | e: Edit{features.length > 0 ? ' | j/k: Navigate | Enter: Select Feature' : ''}
+          ESC/h: Back | r: Refresh | e: Edit | x: Export | i: Import | Tab: {view === 'overview' ? 'Progress' : 'Overview'}
+          {view === 'overview'
+            ? `${features.length > 0 ? ' | j/k: Navigate | Enter: Select Feature' : ''} | a/E/D: Add/Edit/Delete Section | J/K: Move Section`
+            : ' | d: Date Range'}
         </Text>
       </Box>
 
       {localError ? <ErrorMessage message={localError} onDismiss={() => setLocalError(null)} /> : null}
+      {notice ? <Toast message={notice} tone="success" onDismiss={() => setNotice(null)} /> : null}
+
+      {mode === 'export' ? (
+        <FormDialog
+          title="Export Project"
+          description={`Formats: ${EXPORT_FORMATS.join(', ')}. Leave the file empty for a dated name in the current directory.`}
+          fields={[
+            { key: 'format', label: 'Format', required: true, value: 'markdown' },
+            { key: 'path', label: 'File', value: '' },
+          ]}
+          onCancel={() => setMode('idle')}
+          onSubmit={handleExport}
+        />
+      ) : null}
+
+      {mode === 'import' ? (
+        <ImportDialog
+          targetName={project.name}
+          target={{ projectId }}
+          onCancel={() => setMode('idle')}
+          onDone={handleImported}
+        />
+      ) : null}
+
+      {mode === 'add-section' ? (
+        <SectionFormDialog
+          onCancel={() => setMode('idle')}
+          onSubmit={(draft) => {
+            sectionActions.createSection(draft).then((result) => {
+              if (result.success) {
+                setSelectedSectionIndex(sections.length);
+              }
+              finishSectionChange(result);
+            });
+          }}
+        />
+      ) : null}
+
+      {mode === 'edit-section' && sectionTarget ? (
+        <SectionFormDialog
+          section={sectionTarget}
+          onCancel={() => setMode('idle')}
+          onSubmit={(draft) => {
+            sectionActions.updateSection(sectionTarget, draft).then(finishSectionChange);
+          }}
+        />
+      ) : null}
+
+      {mode === 'delete-section' && sectionTarget ? (
+        <ConfirmDialog
+          title="Delete Section"
+          message={`Delete section "${sectionTarget.title}"?`}
+          onCancel={() => setMode('idle')}
+          onConfirm={() => {
+            sectionActions.deleteSection(sectionTarget).then((result) => {
+              if (result.success) {
+                setSelectedSectionIndex(index => Math.max(0, Math.min(index, sections.length - 2)));
+              }
+              finishSectionChange(result);
+            });
+          }}
+        />
+      ) : null}
 
       {mode === 'edit-project' ? (
         <FormDialog
@@ -227,22 +420,29 @@ export function ProjectDetail({ projectId, onSelectFeature, onBack }: ProjectDet
             { key: 'name', label: 'Name', required: true, value: project.name },
             { key: 'summary', label: 'Summary', required: true, value: project.summary },
             { key: 'description', label: 'Description', value: project.description ?? '' },
+            { key: 'tags', label: 'Tags', value: formatTags(project.tags), suggestions: tagNames },
           ]}
           onCancel={() => setMode('idle')}
           onSubmit={(values) => {
-            adapter.updateProject(project.id, {
-              name: values.name ?? '',
-              summary: values.summary ?? '',
-              description: values.description || undefined,
-              version: project.version,
-            }).then((result) => {
-              if (!result.success) setLocalError(result.error);
-              load();
+            edits.updateProject(project, values).then((result) => {
+              finishWrite(result);
               setMode('idle');
             });
           }}
         />
       ) : null}
+
+      {edits.conflict ? (
+        <ConflictDialog
+          conflict={edits.conflict}
+          onRetry={() => edits.retry().then(finishWrite)}
+          onMerge={(values) => edits.merge(values).then(finishWrite)}
+          onKeepTheirs={() => {
+            edits.dismiss();
+            load();
+          }}
+        />
+      ) : null}
     </Box>
   );
 }
@@ -3,15 +3,28 @@ import { Box, Text, useInput } from 'ink';
 import { useProjectTree } from '../../ui/hooks/use-data';
 import { useAdapter } from '../../ui/context/adapter-context';
 import { useTheme } from '../../ui/context/theme-context';
+import { useConfig } from '../../ui/context/config-context';
 import { TreeView, type TreeRow } from '../components/tree-view';
+import { BulkActionsDialog } from '../components/bulk-actions-dialog';
 import { ViewModeChips } from '../components/view-mode-chips';
 import { ConfirmDialog } from '../components/confirm-dialog';
 import { FormDialog } from '../components/form-dialog';
 import { ErrorMessage } from '../components/error-message';
 import { EmptyState } from '../components/empty-state';
 import { StatusActions } from '../components/status-actions';
+import { DependencyAnalysisPanel } from '../components/dependency-analysis';
+import { computeCriticalPath, rankUnblockImpact } from '../../ui/lib/dependency-analysis';
+import { ConflictDialog } from '../components/conflict-dialog';
+import { useConflictResolution, isConflict, type TransitionAction } from '../../ui/hooks/use-conflict-resolution';
+import { useMultiSelect } from '../../ui/hooks/use-bulk-actions';
+import { bulkItemKey, bulkKey, type BulkItem, type BulkItemResult } from '../../ui/lib/bulk';
+import { useTags } from '../../ui/hooks/use-tags';
+import { formatTags, parseTags } from '../../ui/lib/tags';
 import type { Priority } from '@allpepper/task-orchestrator';
-import type { WorkflowState } from '../../ui/adapters/types';
+import type { Result, WorkflowState } from '../../ui/adapters/types';
+import type { ProjectViewMode } from '../../ui/lib/types';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import { runCommandKey, type Command } from '../../ui/lib/commands';
 
 interface ProjectViewProps {
   projectId: string;
@@ -21,22 +34,29 @@ interface ProjectViewProps {
   onExpandedGroupsChange: (groups: Set<string>) => void;
   selectedIndex: number;
   onSelectedIndexChange: (index: number) => void;
-  viewMode: 'features' | 'status' | 'feature-status';
-  onViewModeChange: (mode: 'features' | 'status' | 'feature-status') => void;
+  viewMode: ProjectViewMode;
+  onViewModeChange: (mode: ProjectViewMode) => void;
   onSelectTask: (taskId: string) => void;
   onSelectFeature: (featureId: string) => void;
   onToggleBoard: () => void;
+  onOpenGraph: () => void;
+  onOpenMetrics: () => void;
   onBack: () => void;
 }
 
-export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesChange, expandedGroups, onExpandedGroupsChange, selectedIndex, onSelectedIndexChange, viewMode, onViewModeChange, onSelectTask, onSelectFeature, onToggleBoard, onBack }: ProjectViewProps) {
+export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesChange, expandedGroups, onExpandedGroupsChange, selectedIndex, onSelectedIndexChange, viewMode, onViewModeChange, onSelectTask, onSelectFeature, onToggleBoard, onOpenGraph, onOpenMetrics, onBack }: ProjectViewProps) {
   const { adapter } = useAdapter();
   const { theme } = useTheme();
-  const { project, features, unassignedTasks, taskCounts, statusGroupedRows, featureStatusGroupedRows, loading, error, refresh } = useProjectTree(projectId, expandedGroups);
-  const [mode, setMode] = useState<'idle' | 'create-feature' | 'edit-feature' | 'delete-feature' | 'create-task' | 'edit-task' | 'delete-task' | 'feature-status'>('idle');
+  const config = useConfig();
+  const [tagFilter, setTagFilter] = useState<ReadonlySet<string>>(new Set());
+  const { project, features, unassignedTasks, taskCounts, statusGroupedRows, featureStatusGroupedRows, loading, error, refresh } = useProjectTree(projectId, expandedGroups, tagFilter);
+  const [mode, setMode] = useState<'idle' | 'create-feature' | 'edit-feature' | 'delete-feature' | 'create-task' | 'edit-task' | 'delete-task' | 'feature-status' | 'analysis' | 'bulk' | 'tag-filter'>('idle');
   const [localError, setLocalError] = useState<string | null>(null);
   const [featureWorkflowState, setFeatureWorkflowState] = useState<WorkflowState | null>(null);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const edits = useConflictResolution();
+  const { names: tagNames } = useTags();
+  const selection = useMultiSelect();
 
   // Build flat list of rows - switch based on view mode
   const rows = useMemo(() => {
@@ -84,6 +104,27 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
     return result;
   }, [viewMode, statusGroupedRows, featureStatusGroupedRows, features, unassignedTasks, expandedFeatures]);
 
+  // Critical path and unblock ranking over every task in the project
+  const analysis = useMemo(() => {
+    const projectTasks = [...features.flatMap((feature) => feature.tasks), ...unassignedTasks];
+    return {
+      tasks: projectTasks,
+      criticalPath: computeCriticalPath(projectTasks),
+      impacts: rankUnblockImpact(projectTasks),
+    };
+  }, [features, unassignedTasks]);
+
+  // Marked rows resolved to the current entities; marks for deleted items drop out
+  const markedItems = useMemo(() => {
+    const byKey = new Map<string, BulkItem>();
+    for (const feature of features) {
+      byKey.set(bulkKey('feature', feature.id), { type: 'feature', entity: feature });
+      for (const task of feature.tasks) byKey.set(bulkKey('task', task.id), { type: 'task', entity: task });
+    }
+    for (const task of unassignedTasks) byKey.set(bulkKey('task', task.id), { type: 'task', entity: task });
+    return [...selection.marked].flatMap((key) => byKey.get(key) ?? []);
+  }, [features, unassignedTasks, selection.marked]);
+
   // Helper: get feature from current row
   const getFeatureFromRow = (row: TreeRow | undefined) => {
     if (!row) return undefined;
@@ -98,68 +139,88 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
     return featureId ? features.find((f) => f.id === featureId) : undefined;
   };
 
+  const currentRow = rows[selectedIndex];
+  const currentFeatureId =
+    currentRow?.type === 'feature'
+      ? currentRow.feature.id
+      : currentRow?.type === 'group'
+        ? currentRow.featureId
+        : currentRow?.type === 'task'
+          ? currentRow.task.featureId
+          : undefined;
+  const isFeatureRow = currentRow?.type === 'feature' || (currentRow?.type === 'group' && !!currentRow.featureId);
+  const isTaskRow = currentRow?.type === 'task';
+
+  const openFeatureStatus = () => {
+    const feature = getFeatureFromRow(currentRow);
+    if (!feature) return;
+    adapter.getWorkflowState('feature', feature.id).then((result) => {
+      if (result.success) {
+        setFeatureWorkflowState(result.data);
+        setMode('feature-status');
+      }
+    });
+  };
+
+  const group = 'Project';
+  const commands: Command[] = [
+    { id: 'project.navigate', key: 'j/k', title: 'Navigate', group },
+    { id: 'project.select', key: 'Enter/l', title: 'Select', group },
+    { id: 'project.new-feature', key: 'n', title: 'New Feature', group, run: () => setMode('create-feature') },
+    { id: 'project.new-task', key: 't', title: 'New Task', group, run: () => setMode('create-task') },
+    ...(currentFeatureId
+      ? [{ id: 'project.feature-detail', key: 'f', title: 'Feature Detail', group, run: () => onSelectFeature(currentFeatureId) }]
+      : []),
+    ...(isFeatureRow
+      ? [
+        { id: 'project.edit-feature', key: 'e', title: 'Edit Feature', group, run: () => setMode('edit-feature') },
+        { id: 'project.delete-feature', key: 'd', title: 'Delete Feature', group, run: () => setMode('delete-feature') },
+      ]
+      : isTaskRow
+        ? [
+          { id: 'project.edit-task', key: 'e', title: 'Edit Task', group, run: () => setMode('edit-task') },
+          { id: 'project.delete-task', key: 'd', title: 'Delete Task', group, run: () => setMode('delete-task') },
+        ]
+        : []),
+    ...(currentFeatureId
+      ? [{ id: 'project.feature-status', key: 's', title: 'Feature Status', group, run: openFeatureStatus }]
+      : []),
+    {
+      id: 'project.toggle-view',
+      key: 'v',
+      title: 'Toggle View',
+      group,
+      run: () => onViewModeChange(viewMode === 'features' ? 'status' : viewMode === 'status' ? 'feature-status' : 'features'),
+    },
+    { id: 'project.board', key: 'b', title: 'Board View', group, run: onToggleBoard },
+    { id: 'project.graph', key: 'g', title: 'Graph', group, run: onOpenGraph },
+    { id: 'project.metrics', key: 'm', title: 'Metrics', group, run: onOpenMetrics },
+    { id: 'project.analysis', key: 'a', title: 'Analysis', group, run: () => setMode('analysis') },
+    { id: 'project.mark', key: 'Space/V', title: 'Mark', group },
+    ...(markedItems.length > 0
+      ? [{ id: 'project.bulk', key: 'B', title: 'Bulk', group, run: () => setMode('bulk') }]
+      : []),
+    { id: 'project.tag-filter', key: '#', title: 'Tag Filter', group, run: () => setMode('tag-filter') },
+    { id: 'project.refresh', key: 'r', title: 'Refresh', group, run: refresh },
+    { id: 'project.back', key: 'h/Esc', title: 'Back', group, run: onBack },
+  ];
+  const boundCommands = useRegisterCommands(commands);
+
   // Handle keyboard
   useInput((input, key) => {
-    if (mode !== 'idle') return;
+    if (mode !== 'idle' || edits.conflict) return;
     if (key.escape) {
-      onBack();
-    }
-    if (input === 'r') {
-      refresh();
-    }
-    if (input === 'v') {
-      const next = viewMode === 'features' ? 'status' : viewMode === 'status' ? 'feature-status' : 'features';
-      onViewModeChange(next);
-    }
-    if (input === 'b') {
-      onToggleBoard();
-    }
-    if (input === 'n') {
-      setMode('create-feature');
-    }
-    if (input === 't') {
-      setMode('create-task');
-    }
-    if (input === 'f') {
-      const currentRow = rows[selectedIndex];
-      const featureId =
-        currentRow?.type === 'feature'
-          ? currentRow.feature.id
-          : currentRow?.type === 'group'
-            ? currentRow.featureId
-            : currentRow?.type === 'task'
-              ? currentRow.task.featureId
-              : undefined;
-      if (featureId) onSelectFeature(featureId);
-      return;
-    }
-    if (input === 'e') {
-      const currentRow = rows[selectedIndex];
-      if (currentRow?.type === 'feature' || (currentRow?.type === 'group' && currentRow.featureId)) {
-        setMode('edit-feature');
-      } else if (currentRow?.type === 'task') {
-        setMode('edit-task');
+      if (selection.marked.size > 0) {
+        selection.clear();
+        return;
       }
-    }
-    if (input === 'd') {
-      const currentRow = rows[selectedIndex];
-      if (currentRow?.type === 'feature' || (currentRow?.type === 'group' && currentRow.featureId)) {
-        setMode('delete-feature');
-      } else if (currentRow?.type === 'task') {
-        setMode('delete-task');
-      }
-    }
-    if (input === 's') {
-      const feature = getFeatureFromRow(rows[selectedIndex]);
-      if (feature) {
-        adapter.getWorkflowState('feature', feature.id).then((result) => {
-          if (result.success) {
-            setFeatureWorkflowState(result.data);
-            setMode('feature-status');
-          }
-        });
+      if (tagFilter.size > 0) {
+        setTagFilter(new Set());
+        return;
       }
+      onBack();
     }
+    runCommandKey(boundCommands, input, key);
   });
 
   useInput((_input, key) => {
@@ -169,41 +230,28 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
     }
   }, { isActive: mode === 'feature-status' });
 
-  // Pipeline operations for feature status
-  const handleFeatureAdvance = async () => {
-    const feature = getFeatureFromRow(rows[selectedIndex]);
-    if (!feature) return;
-    setIsUpdatingStatus(true);
-    setLocalError(null);
-    const result = await adapter.advance('feature', feature.id, feature.version);
-    if (!result.success) setLocalError(result.error);
-    await refresh();
-    setIsUpdatingStatus(false);
-    setMode('idle');
+  // Pipeline operations and edits; version conflicts open the ConflictDialog
+  // instead of failing
+  const finishWrite = (result: Result<unknown>) => {
+    if (!result.success && !isConflict(result)) setLocalError(result.error);
+    return refresh();
   };
 
-  const handleFeatureRevert = async () => {
+  const handleFeatureTransition = async (action: TransitionAction) => {
     const feature = getFeatureFromRow(rows[selectedIndex]);
     if (!feature) return;
     setIsUpdatingStatus(true);
     setLocalError(null);
-    const result = await adapter.revert('feature', feature.id, feature.version);
-    if (!result.success) setLocalError(result.error);
-    await refresh();
+    await finishWrite(await edits.transitionFeature(feature, action));
     setIsUpdatingStatus(false);
     setMode('idle');
   };
 
-  const handleFeatureTerminate = async () => {
-    const feature = getFeatureFromRow(rows[selectedIndex]);
-    if (!feature) return;
-    setIsUpdatingStatus(true);
-    setLocalError(null);
-    const result = await adapter.terminate('feature', feature.id, feature.version);
-    if (!result.success) setLocalError(result.error);
-    await refresh();
-    setIsUpdatingStatus(false);
+  // Items that failed stay marked so the action can be retried on them
+  const handleBulkDone = (results: BulkItemResult[]) => {
+    selection.setMarked(results.flatMap((result) => (result.success ? [] : [bulkItemKey(result.item)])));
     setMode('idle');
+    refresh();
   };
 
   // Toggle feature expansion
@@ -277,12 +325,23 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
             { key: 'feature-status', label: 'Feature Status' },
           ]}
           activeMode={viewMode}
-          onModeChange={(mode) => onViewModeChange(mode as 'features' | 'status' | 'feature-status')}
+          onModeChange={(mode) => onViewModeChange(mode as ProjectViewMode)}
         />
       </Box>
 
+      {tagFilter.size > 0 ? (
+        <Box marginBottom={1}>
+          <Text color={theme.colors.accent}>Tags: {[...tagFilter].map((tag) => `#${tag}`).join(' ')}</Text>
+          <Text dimColor> · #: change · Esc: clear</Text>
+        </Box>
+      ) : null}
+
       {rows.length === 0 ? (
-        <EmptyState message="No features or tasks yet." hint="Press n to create a feature." />
+        tagFilter.size > 0 ? (
+          <EmptyState message="Nothing matches the tag filter." hint="Press # to change it or Esc to clear it." />
+        ) : (
+          <EmptyState message="No features or tasks yet." hint="Press n to create a feature." />
+        )
       ) : (
         <TreeView
           rows={rows}
@@ -292,10 +351,44 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
           onToggleGroup={handleToggleGroup}
           onSelectTask={onSelectTask}
           onBack={onBack}
-          isActive={mode === 'idle'}
+          markedKeys={selection.marked}
+          onToggleMark={selection.toggle}
+          onMarkRange={selection.markRange}
+          isActive={mode === 'idle' && !edits.conflict}
         />
       )}
 
+      {markedItems.length > 0 && mode === 'idle' ? (
+        <Box marginTop={1}>
+          <Text color={theme.colors.accent}>{markedItems.length} marked</Text>
+          <Text dimColor> · B: bulk actions · Esc: clear marks</Text>
+        </Box>
+      ) : null}
+
+      {mode === 'bulk' ? (
+        <BulkActionsDialog
+          items={markedItems}
+          features={features}
+          onCancel={() => setMode('idle')}
+          onDone={handleBulkDone}
+          isActive={mode === 'bulk'}
+        />
+      ) : null}
+
+      {mode === 'tag-filter' ? (
+        <FormDialog
+          title="Filter by Tags"
+          description="Show items carrying any of these tags; leave empty to clear"
+          fields={[{ key: 'tags', label: 'Tags', value: formatTags([...tagFilter]), suggestions: tagNames }]}
+          onCancel={() => setMode('idle')}
+          onSubmit={(values) => {
+            setTagFilter(new Set(parseTags(values.tags)));
+            onSelectedIndexChange(0);
+            setMode('idle');
+          }}
+        />
+      ) : null}
+
       {localError ? <ErrorMessage message={localError} onDismiss={() => setLocalError(null)} /> : null}
 
       {mode === 'create-feature' ? (
@@ -306,6 +399,7 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
             { key: 'summary', label: 'Summary', required: true },
             { key: 'description', label: 'Description' },
             { key: 'priority', label: 'Priority (HIGH/MEDIUM/LOW)', value: 'MEDIUM', required: true },
+            { key: 'tags', label: 'Tags', suggestions: tagNames },
           ]}
           onCancel={() => setMode('idle')}
           onSubmit={(values) => {
@@ -315,6 +409,7 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
               summary: values.summary ?? '',
               description: values.description || undefined,
               priority: ((values.priority ?? 'MEDIUM') as Priority),
+              tags: parseTags(values.tags),
             }).then((result) => {
               if (!result.success) setLocalError(result.error);
               refresh();
@@ -336,18 +431,12 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
                 { key: 'summary', label: 'Summary', required: true, value: feature.summary },
                 { key: 'description', label: 'Description', value: feature.description ?? '' },
                 { key: 'priority', label: 'Priority (HIGH/MEDIUM/LOW)', required: true, value: feature.priority },
+                { key: 'tags', label: 'Tags', value: formatTags(feature.tags), suggestions: tagNames },
               ]}
               onCancel={() => setMode('idle')}
               onSubmit={(values) => {
-                adapter.updateFeature(feature.id, {
-                  name: values.name ?? '',
-                  summary: values.summary ?? '',
-                  description: values.description || undefined,
-                  priority: ((values.priority ?? feature.priority) as Priority),
-                  version: feature.version,
-                }).then((result) => {
-                  if (!result.success) setLocalError(result.error);
-                  refresh();
+                edits.updateFeature(feature, values).then((result) => {
+                  finishWrite(result);
                   setMode('idle');
                 });
               }}
@@ -384,8 +473,9 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
             { key: 'title', label: 'Title', required: true },
             { key: 'summary', label: 'Summary', required: true },
             { key: 'description', label: 'Description' },
-            { key: 'priority', label: 'Priority (HIGH/MEDIUM/LOW)', required: true, value: 'MEDIUM' },
-            { key: 'complexity', label: 'Complexity (1-10)', required: true, value: '3' },
+            { key: 'priority', label: 'Priority (HIGH/MEDIUM/LOW)', required: true, value: config.defaults.taskPriority },
+            { key: 'complexity', label: 'Complexity (1-10)', required: true, value: String(config.defaults.taskComplexity) },
+            { key: 'tags', label: 'Tags', suggestions: tagNames },
           ]}
           onCancel={() => setMode('idle')}
           onSubmit={(values) => {
@@ -403,8 +493,9 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
               title: values.title ?? '',
               summary: values.summary ?? '',
               description: values.description || undefined,
-              priority: ((values.priority ?? 'MEDIUM') as Priority),
-              complexity: Number.parseInt(values.complexity ?? '3', 10) || 3,
+              priority: ((values.priority ?? config.defaults.taskPriority) as Priority),
+              complexity: Number.parseInt(values.complexity ?? '', 10) || config.defaults.taskComplexity,
+              tags: parseTags(values.tags),
             }).then((result) => {
               if (!result.success) setLocalError(result.error);
               refresh();
@@ -428,19 +519,12 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
                 { key: 'description', label: 'Description', value: task.description ?? '' },
                 { key: 'priority', label: 'Priority (HIGH/MEDIUM/LOW)', required: true, value: task.priority },
                 { key: 'complexity', label: 'Complexity (1-10)', required: true, value: String(task.complexity) },
+                { key: 'tags', label: 'Tags', value: formatTags(task.tags), suggestions: tagNames },
               ]}
               onCancel={() => setMode('idle')}
               onSubmit={(values) => {
-                adapter.updateTask(task.id, {
-                  title: values.title ?? '',
-                  summary: values.summary ?? '',
-                  description: values.description || undefined,
-                  priority: ((values.priority ?? task.priority) as Priority),
-                  complexity: Number.parseInt(values.complexity ?? String(task.complexity), 10) || task.complexity,
-                  version: task.version,
-                }).then((result) => {
-                  if (!result.success) setLocalError(result.error);
-                  refresh();
+                edits.updateTask(task, values).then((result) => {
+                  finishWrite(result);
                   setMode('idle');
                 });
               }}
@@ -481,13 +565,39 @@ export function ProjectView({ projectId, expandedFeatures, onExpandedFeaturesCha
             isTerminal={featureWorkflowState?.isTerminal ?? false}
             isActive={true}
             loading={isUpdatingStatus}
-            onAdvance={handleFeatureAdvance}
-            onRevert={handleFeatureRevert}
-            onTerminate={handleFeatureTerminate}
+            onAdvance={() => handleFeatureTransition('advance')}
+            onRevert={() => handleFeatureTransition('revert')}
+            onTerminate={() => handleFeatureTransition('terminate')}
           />
           <Text dimColor>Esc: cancel</Text>
         </Box>
       ) : null}
+
+      {edits.conflict ? (
+        <ConflictDialog
+          conflict={edits.conflict}
+          onRetry={() => edits.retry().then(finishWrite)}
+          onMerge={(values) => edits.merge(values).then(finishWrite)}
+          onKeepTheirs={() => {
+            edits.dismiss();
+            refresh();
+          }}
+        />
+      ) : null}
+
+      {mode === 'analysis' ? (
+        <DependencyAnalysisPanel
+          tasks={analysis.tasks}
+          criticalPath={analysis.criticalPath}
+          impacts={analysis.impacts}
+          onSelectTask={(taskId) => {
+            setMode('idle');
+            onSelectTask(taskId);
+          }}
+          onClose={() => setMode('idle')}
+          isActive={mode === 'analysis'}
+        />
+      ) : null}
     </Box>
   );
 }
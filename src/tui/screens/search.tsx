@@ -2,9 +2,14 @@ import React, { useMemo, useState } from 'react';
 import { Box, Text, useInput, useStdout } from 'ink';
 import { useSearch } from '../../ui/hooks/use-data';
 import { useDebounce } from '../../ui/hooks/use-debounce';
+import { useConfig } from '../../ui/context/config-context';
 import { EmptyState } from '../components/empty-state';
 import { ErrorMessage } from '../components/error-message';
 import { useTheme } from '../../ui/context/theme-context';
+import { useTextEntry } from '../../ui/context/text-entry-context';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import type { Command } from '../../ui/lib/commands';
+import { highlightSegments, parseSearchQuery } from '../../ui/lib/search-query';
 
 interface SearchScreenProps {
   onOpenProject: (projectId: string) => void;
@@ -18,6 +23,27 @@ type SearchItem =
   | { kind: 'feature'; id: string; title: string; subtitle: string }
   | { kind: 'task'; id: string; title: string; subtitle: string };
 
+const SYNTAX_HINT = 'Filters: status:ACTIVE priority:HIGH tag:api project:"Billing" blocked:yes complexity:>5 type:task';
+
+/**
+ * Text with the search terms picked out
+ */
+function Highlighted({ text, terms, color, bold }: { text: string; terms: string[]; color: string; bold?: boolean }) {
+  return (
+    <Text bold={bold}>
+      {highlightSegments(text, terms).map((segment, index) =>
+        segment.match ? (
+          <Text key={index} color={color} bold underline>
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </Text>
+  );
+}
+
 function countWrappedLines(text: string, width: number): number {
   const safeWidth = Math.max(1, width);
   return text.split('\n').reduce((sum, line) => {
@@ -35,11 +61,22 @@ export function SearchScreen({
   const { stdout } = useStdout();
   const { theme } = useTheme();
   const [query, setQuery] = useState('');
+  useTextEntry();
   const [selectedIndex, setSelectedIndex] = useState(0);
-  const debouncedQuery = useDebounce(query, 300);
-  const { results, loading, error } = useSearch(debouncedQuery);
+  const [page, setPage] = useState(0);
+  const config = useConfig();
+  const debouncedQuery = useDebounce(query, config.debounce.searchMs);
+  const parsedQuery = useMemo(() => parseSearchQuery(debouncedQuery), [debouncedQuery]);
+  const { results, loading, error } = useSearch(debouncedQuery, page);
   const [dismissedError, setDismissedError] = useState(false);
 
+  const editQuery = (next: (prev: string) => string) => {
+    setQuery(next);
+    setSelectedIndex(0);
+    setPage(0);
+    setDismissedError(false);
+  };
+
   const items = useMemo<SearchItem[]>(() => {
     if (!results) return [];
     return [
@@ -64,6 +101,16 @@ export function SearchScreen({
     ];
   }, [results]);
 
+  // Typing owns the letter keys here, so these are hints only
+  const group = 'Search';
+  const commands: Command[] = [
+    { id: 'search.navigate', key: '↑/↓', title: 'Navigate', group },
+    { id: 'search.page', key: 'PgUp/PgDn', title: 'Page', group },
+    { id: 'search.open', key: 'Enter/→', title: 'Open', group },
+    { id: 'search.back', key: 'Esc/←', title: 'Back', group, run: onBack },
+  ];
+  useRegisterCommands(commands);
+
   useInput((input, key) => {
     if (key.escape || key.leftArrow) {
       onBack();
@@ -71,8 +118,23 @@ export function SearchScreen({
     }
 
     if (key.backspace || key.delete) {
-      setQuery((prev) => prev.slice(0, -1));
-      setSelectedIndex(0);
+      editQuery((prev) => prev.slice(0, -1));
+      return;
+    }
+
+    if (key.pageDown) {
+      if (results?.hasMore) {
+        setPage((prev) => prev + 1);
+        setSelectedIndex(0);
+      }
+      return;
+    }
+
+    if (key.pageUp) {
+      if (page > 0) {
+        setPage((prev) => prev - 1);
+        setSelectedIndex(0);
+      }
       return;
     }
 
@@ -96,8 +158,7 @@ export function SearchScreen({
     }
 
     if (input && input.length === 1 && !key.ctrl && !key.meta) {
-      setQuery((prev) => `${prev}${input}`);
-      setSelectedIndex(0);
+      editQuery((prev) => `${prev}${input}`);
     }
   });
 
@@ -111,23 +172,30 @@ export function SearchScreen({
   const isQueryEmpty = debouncedQuery.trim().length === 0;
   const hasNoResults = !loading && !isQueryEmpty && items.length === 0;
   const shouldShowResults = !isQueryEmpty && items.length > 0;
+  // Syntax problems are shown under the query instead of as an error box
+  const queryErrors = parsedQuery.errors;
+  const visibleError = queryErrors.length > 0 ? null : error;
+  const isPaged = shouldShowResults && (page > 0 || !!results?.hasMore);
+  const pageLabel = `Page ${page + 1}${page > 0 ? ' • PgUp previous' : ''}${results?.hasMore ? ' • PgDn next' : ''}`;
 
   const queryLabel = `Query: ${query || ' '}`;
-  const hintLabel = 'Type to search • ↑/↓ move • Enter open • Esc/← back';
+  const hintLabel = 'Type to search • ↑/↓ move • PgUp/PgDn page • Enter open • Esc/← back';
 
   // Sticky top area rows with dynamic wrapping.
   const titleRows = 1;
   const queryRows = countWrappedLines(queryLabel, contentWidth);
   const hintRows = countWrappedLines(hintLabel, contentWidth);
   const loadingRows = loading ? 1 : 0;
-  const errorRows = !dismissedError && error
+  const queryErrorRows = queryErrors.reduce((sum, message) => sum + countWrappedLines(`⚠ ${message}`, contentWidth), 0);
+  const pageRows = isPaged ? 1 : 0;
+  const errorRows = !dismissedError && visibleError
     ? (
       2 + // border top + bottom
       2 + // marginY = 1 => top + bottom
-      countWrappedLines(`! ${error}`, Math.max(8, contentWidth - 4)) // border + paddingX reduce width
+      countWrappedLines(`! ${visibleError}`, Math.max(8, contentWidth - 4)) // border + paddingX reduce width
     )
     : 0;
-  const chromeRows = titleRows + queryRows + hintRows + loadingRows + errorRows + 1;
+  const chromeRows = titleRows + queryRows + hintRows + loadingRows + queryErrorRows + pageRows + errorRows + 1;
 
   // Reserve lines for top/bottom "more" indicators and extra layout slack.
   // Ink + terminal row accounting can differ slightly with borders/wrapping, so keep a cushion.
@@ -190,18 +258,21 @@ export function SearchScreen({
         Query: <Text inverse>{query || ' '}</Text>
       </Text>
       <Text dimColor>{hintLabel}</Text>
+      {queryErrors.map((message) => (
+        <Text key={message} color={theme.colors.warning}>⚠ {message}</Text>
+      ))}
 
-      {!dismissedError && error ? (
-        <ErrorMessage message={error} onDismiss={() => setDismissedError(true)} />
+      {!dismissedError && visibleError ? (
+        <ErrorMessage message={visibleError} onDismiss={() => setDismissedError(true)} />
       ) : null}
 
       {loading ? <Text>Searching...</Text> : null}
 
       {!loading && isQueryEmpty ? (
-        <EmptyState message="Start typing to search projects, features, and tasks." />
+        <EmptyState message="Start typing to search projects, features, and tasks." hint={SYNTAX_HINT} />
       ) : null}
 
-      {!loading && !isQueryEmpty && items.length === 0 ? (
+      {!loading && !isQueryEmpty && items.length === 0 && queryErrors.length === 0 ? (
         <EmptyState message="No results found." hint="Try a broader query." />
       ) : null}
 
@@ -238,10 +309,10 @@ export function SearchScreen({
                   )} bold>
                     {item.kind.toUpperCase()}
                   </Text>
-                  <Text bold={isSelected}>
-                    {item.title}
+                  <Highlighted text={item.title} terms={parsedQuery.terms} color={theme.colors.highlight} bold={isSelected} />
+                  <Text dimColor={!isSelected}>
+                    <Highlighted text={item.subtitle} terms={parsedQuery.terms} color={theme.colors.highlight} />
                   </Text>
-                  <Text dimColor={!isSelected}>{item.subtitle}</Text>
                 </Box>
               </Box>
             </Box>
@@ -252,6 +323,8 @@ export function SearchScreen({
       {hasItemsBelow ? (
         <Text dimColor>↓ {itemsBelowCount} more</Text>
       ) : null}
+
+      {isPaged ? <Text dimColor>{pageLabel}</Text> : null}
     </Box>
   );
 }
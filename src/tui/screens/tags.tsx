@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useTags } from '../../ui/hooks/use-tags';
+import { useTheme } from '../../ui/context/theme-context';
+import { parseTags } from '../../ui/lib/tags';
+import { FormDialog } from '../components/form-dialog';
+import { ErrorMessage } from '../components/error-message';
+import { EmptyState } from '../components/empty-state';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import { runCommandKey, type Command } from '../../ui/lib/commands';
+import { Toast } from '../components/toast';
+
+interface TagsScreenProps {
+  onBack: () => void;
+}
+
+/**
+ * Every tag in use with its usage count. `e` renames a tag (renaming onto an
+ * existing tag merges the two); `m` picks another tag from the list to merge into.
+ */
+export function TagsScreen({ onBack }: TagsScreenProps) {
+  const { theme } = useTheme();
+  const { tags, names, loading, error, refresh, rename } = useTags();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [mode, setMode] = useState<'idle' | 'rename' | 'merge'>('idle');
+  // Merge mode: the tag being merged away stays put while the cursor picks the target
+  const [mergeSource, setMergeSource] = useState<string | null>(null);
+  const [localError, setLocalError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const clampedIndex = Math.min(selectedIndex, Math.max(0, tags.length - 1));
+  const selected = tags[clampedIndex];
+
+  const applyRename = async (from: string, to: string) => {
+    const result = await rename(from, to);
+    if (!result.success) {
+      setLocalError(result.error);
+      return;
+    }
+    // `names` is still the list from before the rename
+    const merged = names.includes(result.data.to);
+    const count = result.data.entities.length;
+    setNotice(
+      `${merged ? 'Merged' : 'Renamed'} #${result.data.from} ${merged ? 'into' : 'to'} #${result.data.to} on ${count} item${count === 1 ? '' : 's'}`
+    );
+  };
+
+  const startMerge = (source: string) => {
+    setMergeSource(source);
+    setSelectedIndex(clampedIndex === 0 ? 1 : 0);
+    setMode('merge');
+  };
+
+  const group = 'Tags';
+  const commands: Command[] = mode === 'merge'
+    ? [
+      { id: 'tags.navigate', key: 'j/k', title: 'Pick Target', group },
+      { id: 'tags.merge-into', key: 'Enter', title: 'Merge Into', group },
+      { id: 'tags.cancel-merge', key: 'Esc', title: 'Cancel', group },
+    ]
+    : [
+      { id: 'tags.navigate', key: 'j/k', title: 'Navigate', group },
+      ...(selected ? [{ id: 'tags.rename', key: 'e', title: 'Rename', group, run: () => setMode('rename') }] : []),
+      ...(selected && tags.length > 1
+        ? [{ id: 'tags.merge', key: 'm', title: 'Merge', group, run: () => startMerge(selected.tag) }]
+        : []),
+      { id: 'tags.refresh', key: 'r', title: 'Refresh', group, run: refresh },
+      { id: 'tags.back', key: 'Esc', title: 'Back', group, run: onBack },
+    ];
+  const boundCommands = useRegisterCommands(commands);
+
+  useInput((input, key) => {
+    if (mode === 'rename' || localError) return;
+
+    if (input === 'j' || key.downArrow) {
+      if (tags.length > 0) setSelectedIndex((clampedIndex + 1) % tags.length);
+      return;
+    }
+    if (input === 'k' || key.upArrow) {
+      if (tags.length > 0) setSelectedIndex((clampedIndex - 1 + tags.length) % tags.length);
+      return;
+    }
+
+    if (mode === 'merge') {
+      if (key.escape) {
+        setMode('idle');
+        setMergeSource(null);
+        return;
+      }
+      if (key.return && mergeSource && selected && selected.tag !== mergeSource) {
+        setMode('idle');
+        setMergeSource(null);
+        void applyRename(mergeSource, selected.tag);
+      }
+      return;
+    }
+
+    if (key.escape || input === 'h' || key.leftArrow) {
+      onBack();
+      return;
+    }
+    runCommandKey(boundCommands, input, key);
+  });
+
+  if (loading) {
+    return (
+      <Box padding={1}>
+        <Text>Loading tags...</Text>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box padding={1}>
+        <Text color={theme.colors.error}>Error: {error}</Text>
+      </Box>
+    );
+  }
+
+  const countWidth = Math.max(1, ...tags.map((entry) => String(entry.count).length));
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      <Box marginBottom={1}>
+        <Text bold>Tags</Text>
+        <Text dimColor> · {tags.length} in use</Text>
+      </Box>
+
+      {tags.length === 0 ? (
+        <EmptyState message="No tags yet." hint="Add tags when creating or editing a project, feature or task." />
+      ) : (
+        <Box flexDirection="column">
+          {tags.map((entry, index) => {
+            const isSelected = index === clampedIndex;
+            const isSource = entry.tag === mergeSource;
+            return (
+              <Box key={entry.tag}>
+                <Text color={isSelected ? theme.colors.highlight : undefined}>{isSelected ? '▎' : '  '}</Text>
+                <Text dimColor>{String(entry.count).padStart(countWidth)}  </Text>
+                <Text bold={isSelected} color={isSource ? theme.colors.muted : theme.colors.accent} strikethrough={isSource}>
+                  #{entry.tag}
+                </Text>
+              </Box>
+            );
+          })}
+        </Box>
+      )}
+
+      {mode === 'rename' && selected ? (
+        <FormDialog
+          title={`Rename #${selected.tag}`}
+          description="Renaming onto an existing tag merges the two"
+          fields={[{ key: 'name', label: 'New name', value: selected.tag, required: true }]}
+          onCancel={() => setMode('idle')}
+          onSubmit={(values) => {
+            setMode('idle');
+            const [to] = parseTags(values.name);
+            if (to && to !== selected.tag) void applyRename(selected.tag, to);
+          }}
+        />
+      ) : null}
+
+      {localError ? <ErrorMessage message={localError} onDismiss={() => setLocalError(null)} /> : null}
+      {notice ? <Toast message={notice} tone="success" onDismiss={() => setNotice(null)} /> : null}
+
+      <Box marginTop={1}>
+        <Text dimColor>
+          {mode === 'merge'
+            ? `Merge #${mergeSource} into… j/k: Pick tag | Enter: Merge | Esc: Cancel`
+            : 'j/k: Navigate | e: Rename | m: Merge into… | r: Refresh | Esc/h: Back'}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
@@ -1,19 +1,34 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput } from 'ink';
-import { useTask } from '../../ui/hooks/use-data';
+import { useTask, useTaskSearch } from '../../ui/hooks/use-data';
+import { useActivity } from '../../ui/hooks/use-activity';
+import { useDebounce } from '../../ui/hooks/use-debounce';
+import { useConfig } from '../../ui/context/config-context';
 import { useAdapter } from '../../ui/context/adapter-context';
 import { useTheme } from '../../ui/context/theme-context';
 import { StatusBadge } from '../components/status-badge';
 import { PriorityBadge } from '../components/priority-badge';
 import { SectionList } from '../components/section-list';
-import { DependencyList } from '../components/dependency-list';
+import { DependencyList, type DependencyLink } from '../components/dependency-list';
+import { TaskPicker } from '../components/task-picker';
 import { StatusActions } from '../components/status-actions';
+import { ActivityList } from '../components/activity-list';
 import { timeAgo } from '../../ui/lib/format';
-import type { Priority } from '@allpepper/task-orchestrator';
+import { EntityType } from '@allpepper/task-orchestrator';
+import type { Section, Task } from '@allpepper/task-orchestrator';
 import type { WorkflowState } from '../../ui/adapters/types';
 import { FormDialog } from '../components/form-dialog';
 import { ConfirmDialog } from '../components/confirm-dialog';
 import { ErrorMessage } from '../components/error-message';
+import { SectionFormDialog } from '../components/section-form-dialog';
+import { useSectionActions } from '../../ui/hooks/use-section-actions';
+import { useConflictResolution, isConflict, type TransitionAction } from '../../ui/hooks/use-conflict-resolution';
+import { useTags } from '../../ui/hooks/use-tags';
+import { formatTags, parseTags } from '../../ui/lib/tags';
+import { ConflictDialog } from '../components/conflict-dialog';
+import { useRegisterCommands } from '../../ui/context/command-context';
+import { runCommandKey, type Command } from '../../ui/lib/commands';
+import type { Result } from '../../ui/adapters/types';
 
 interface TaskDetailProps {
   taskId: string;
@@ -21,7 +36,55 @@ interface TaskDetailProps {
   onBack: () => void;
 }
 
-type ActivePanel = 'sections' | 'dependencies' | 'status';
+type ActivePanel = 'sections' | 'dependencies' | 'status' | 'activity';
+
+type LinkKind = 'blockedBy' | 'relatedTo';
+
+const LINK_KIND_LABELS: Record<LinkKind, string> = {
+  blockedBy: 'Blocked by',
+  relatedTo: 'Related to',
+};
+
+interface LinkTaskPickerProps {
+  task: Task;
+  kind: LinkKind;
+  excludeIds: Set<string>;
+  onToggleKind: () => void;
+  onSelect: (task: Task) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Task picker for the dependencies panel; only mounted while linking so it
+ * does not query tasks in the background.
+ */
+function LinkTaskPicker({ task, kind, excludeIds, onToggleKind, onSelect, onCancel }: LinkTaskPickerProps) {
+  const [query, setQuery] = useState('');
+  const config = useConfig();
+  const debouncedQuery = useDebounce(query, config.debounce.searchMs);
+  const { tasks, loading } = useTaskSearch(debouncedQuery, {
+    projectId: task.projectId,
+    // Terminal tasks cannot block anything
+    status: kind === 'blockedBy' ? '!CLOSED,!WILL_NOT_IMPLEMENT' : undefined,
+  });
+  const candidates = tasks.filter((candidate) => !excludeIds.has(candidate.id));
+
+  return (
+    <TaskPicker
+      title={`Link Task: ${LINK_KIND_LABELS[kind]}`}
+      description={kind === 'blockedBy'
+        ? `"${task.title}" will wait for the selected task`
+        : `"${task.title}" and the selected task will reference each other`}
+      query={query}
+      onQueryChange={setQuery}
+      tasks={candidates}
+      loading={loading}
+      onSelect={onSelect}
+      onCancel={onCancel}
+      onToggle={onToggleKind}
+    />
+  );
+}
 
 export function TaskDetail({ taskId, onSelectTask, onBack }: TaskDetailProps) {
   const { task, sections, dependencies, loading, error, refresh } = useTask(taskId);
@@ -32,7 +95,18 @@ export function TaskDetail({ taskId, onSelectTask, onBack }: TaskDetailProps) {
   const [statusError, setStatusError] = useState<string | null>(null);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
   const [selectedSectionIndex, setSelectedSectionIndex] = useState(0);
-  const [mode, setMode] = useState<'idle' | 'edit' | 'delete'>('idle');
+  const activity = useActivity({ entityId: taskId, limit: 50 });
+  const [selectedActivityIndex, setSelectedActivityIndex] = useState(0);
+  const [mode, setMode] = useState<
+    'idle' | 'edit' | 'delete' | 'add-section' | 'edit-section' | 'delete-section' | 'link' | 'unlink'
+  >('idle');
+  const [linkKind, setLinkKind] = useState<LinkKind>('blockedBy');
+  const [unlinkTarget, setUnlinkTarget] = useState<DependencyLink | null>(null);
+  const [sectionTarget, setSectionTarget] = useState<Section | null>(null);
+  const sectionActions = useSectionActions(EntityType.TASK, taskId, sections);
+  const edits = useConflictResolution();
+  const { names: tagNames } = useTags();
+  const isIdle = mode === 'idle' && !edits.conflict;
 
   // Fetch workflow state when task loads
   useEffect(() => {
@@ -45,71 +119,111 @@ export function TaskDetail({ taskId, onSelectTask, onBack }: TaskDetailProps) {
     }
   }, [adapter, task]);
 
-  // Set initial panel based on available content
-  useEffect(() => {
-    if (sections.length === 0 && activePanel === 'sections') {
-      setActivePanel('dependencies');
-    }
-  }, [sections, activePanel]);
+  const refreshAll = () => {
+    refresh();
+    activity.refresh();
+  };
+  const nextPanel = () => {
+    setActivePanel(current => {
+      if (current === 'sections') return 'dependencies';
+      if (current === 'dependencies') return 'status';
+      if (current === 'status') return 'activity';
+      return 'sections';
+    });
+  };
+
+  const group = 'Task';
+  const commands: Command[] = [
+    { id: 'task.next-panel', key: 'Tab', title: 'Switch Panel', group, run: nextPanel },
+    ...(task
+      ? [
+        { id: 'task.edit', key: 'e', title: 'Edit Task', group, run: () => setMode('edit') },
+        { id: 'task.delete', key: 'd', title: 'Delete Task', group, run: () => setMode('delete') },
+      ]
+      : []),
+    { id: 'task.refresh', key: 'r', title: 'Refresh', group, run: refreshAll },
+    { id: 'task.back', key: 'Esc', title: 'Back', group, run: onBack },
+  ];
+  const boundCommands = useRegisterCommands(commands);
 
   // Handle keyboard navigation
   useInput((input, key) => {
-    if (mode !== 'idle') return;
+    if (!isIdle) return;
     if (key.escape || input === 'h' || key.leftArrow) {
       onBack();
     }
-    if (input === 'r') {
-      refresh();
-    }
     if (key.tab) {
-      setActivePanel(current => {
-        if (current === 'sections') return 'dependencies';
-        if (current === 'dependencies') return 'status';
-        return sections.length > 0 ? 'sections' : 'dependencies';
-      });
+      nextPanel();
     }
-    if (input === 'e' && task) {
-      setMode('edit');
+    runCommandKey(boundCommands, input, key);
+  });
+
+  // Section authoring
+  const finishSectionChange = (result: { success: true } | { success: false; error: string }) => {
+    if (!result.success) {
+      setStatusError(result.error);
     }
-    if (input === 'd' && task) {
-      setMode('delete');
+    setSectionTarget(null);
+    setMode('idle');
+    refresh();
+  };
+
+  const handleMoveSection = async (section: Section, offset: -1 | 1) => {
+    const result = await sectionActions.moveSection(section, offset);
+    if (result.success && result.data) {
+      setSelectedSectionIndex(index => index + offset);
     }
-  });
+    finishSectionChange(result);
+  };
 
-  // Pipeline operations
-  const handleAdvance = async () => {
+  // Dependency editing
+  const handleLink = async (target: Task) => {
     if (!task) return;
-    setIsUpdatingStatus(true);
     setStatusError(null);
-    const result = await adapter.advance('task', taskId, task.version);
+    const result = linkKind === 'blockedBy'
+      ? await adapter.addBlocker('task', task.id, target.id, task.version)
+      : await adapter.addRelated('task', task.id, target.id, task.version);
     if (!result.success) {
       setStatusError(result.error);
     }
-    await refresh();
-    setIsUpdatingStatus(false);
+    setMode('idle');
+    refresh();
   };
 
-  const handleRevert = async () => {
+  const handleUnlink = async (link: DependencyLink) => {
     if (!task) return;
-    setIsUpdatingStatus(true);
     setStatusError(null);
-    const result = await adapter.revert('task', taskId, task.version);
+    let result;
+    if (link.kind === 'blockedBy') {
+      result = await adapter.removeBlocker('task', task.id, link.task.id, task.version);
+    } else if (link.kind === 'blocks') {
+      // The link is stored on the other task's blockedBy list
+      result = await adapter.removeBlocker('task', link.task.id, task.id, link.task.version);
+    } else {
+      result = await adapter.removeRelated('task', task.id, link.task.id, task.version);
+    }
     if (!result.success) {
       setStatusError(result.error);
     }
-    await refresh();
-    setIsUpdatingStatus(false);
+    setUnlinkTarget(null);
+    setMode('idle');
+    refresh();
+  };
+
+  // Pipeline operations and edits; version conflicts open the ConflictDialog
+  // instead of failing
+  const finishWrite = (result: Result<unknown>) => {
+    if (!result.success && !isConflict(result)) {
+      setStatusError(result.error);
+    }
+    return refresh();
   };
 
-  const handleTerminate = async () => {
+  const handleTransition = async (action: TransitionAction) => {
     if (!task) return;
     setIsUpdatingStatus(true);
     setStatusError(null);
-    const result = await adapter.terminate('task', taskId, task.version);
-    if (!result.success) {
-      setStatusError(result.error);
-    }
-    await refresh();
+    await finishWrite(await edits.transitionTask(task, action));
     setIsUpdatingStatus(false);
   };
 
@@ -204,21 +318,29 @@ export function TaskDetail({ taskId, onSelectTask, onBack }: TaskDetailProps) {
       </Box>
 
       {/* Sections Panel */}
-      {sections.length > 0 && (
-        <Box flexDirection="column" marginBottom={1}>
-          <Box marginBottom={0}>
-            <Text bold={activePanel === 'sections'} dimColor={activePanel !== 'sections'}>
-              Sections
-            </Text>
-          </Box>
-          <SectionList
-            sections={sections}
-            selectedIndex={selectedSectionIndex}
-            onSelectedIndexChange={setSelectedSectionIndex}
-            isActive={activePanel === 'sections'}
-          />
+      <Box flexDirection="column" marginBottom={1}>
+        <Box marginBottom={0}>
+          <Text bold={activePanel === 'sections'} dimColor={activePanel !== 'sections'}>
+            Sections
+          </Text>
         </Box>
-      )}
+        <SectionList
+          sections={sections}
+          selectedIndex={selectedSectionIndex}
+          onSelectedIndexChange={setSelectedSectionIndex}
+          isActive={isIdle && activePanel === 'sections'}
+          onAddSection={() => setMode('add-section')}
+          onEditSection={(section) => {
+            setSectionTarget(section);
+            setMode('edit-section');
+          }}
+          onDeleteSection={(section) => {
+            setSectionTarget(section);
+            setMode('delete-section');
+          }}
+          onMoveSection={handleMoveSection}
+        />
+      </Box>
 
       {/* Dependencies Panel */}
       <Box flexDirection="column" marginBottom={1}>
@@ -229,8 +351,13 @@ export function TaskDetail({ taskId, onSelectTask, onBack }: TaskDetailProps) {
         </Box>
         <DependencyList
           dependencies={dependencies}
-          isActive={activePanel === 'dependencies'}
+          isActive={isIdle && activePanel === 'dependencies'}
           onSelectTask={onSelectTask}
+          onAddLink={() => setMode('link')}
+          onRemoveLink={(link) => {
+            setUnlinkTarget(link);
+            setMode('unlink');
+          }}
         />
       </Box>
 
@@ -247,11 +374,11 @@ export function TaskDetail({ taskId, onSelectTask, onBack }: TaskDetailProps) {
           prevStatus={workflowState?.prevStatus ?? null}
           isBlocked={task.blockedBy.length > 0}
           isTerminal={workflowState?.isTerminal ?? false}
-          isActive={activePanel === 'status'}
+          isActive={isIdle && activePanel === 'status'}
           loading={isUpdatingStatus}
-          onAdvance={handleAdvance}
-          onRevert={handleRevert}
-          onTerminate={handleTerminate}
+          onAdvance={() => handleTransition('advance')}
+          onRevert={() => handleTransition('revert')}
+          onTerminate={() => handleTransition('terminate')}
         />
         {statusError && (
           <Box marginTop={1}>
@@ -260,10 +387,28 @@ export function TaskDetail({ taskId, onSelectTask, onBack }: TaskDetailProps) {
         )}
       </Box>
 
+      {/* Activity Panel */}
+      <Box flexDirection="column" marginTop={1}>
+        <Box marginBottom={0}>
+          <Text bold={activePanel === 'activity'} dimColor={activePanel !== 'activity'}>
+            Activity
+          </Text>
+        </Box>
+        <ActivityList
+          entries={activity.entries}
+          selectedIndex={selectedActivityIndex}
+          onSelectedIndexChange={setSelectedActivityIndex}
+          maxVisible={activePanel === 'activity' ? 8 : 3}
+          isActive={isIdle && activePanel === 'activity'}
+        />
+      </Box>
+
       {/* Help Footer */}
       <Box marginTop={1}>
         <Text dimColor>
           ESC/h: Back | Tab: Switch Panel | r: Refresh | e: Edit | d: Delete
+          {activePanel === 'sections' ? ' | a: Add Section | E: Edit Section | D: Delete Section | J/K: Move Section' : ''}
+          {activePanel === 'dependencies' ? ' | a: Add Link | D: Remove Link' : ''}
         </Text>
       </Box>
 
@@ -278,27 +423,30 @@ export function TaskDetail({ taskId, onSelectTask, onBack }: TaskDetailProps) {
             { key: 'description', label: 'Description', value: task.description ?? '' },
             { key: 'priority', label: 'Priority (HIGH/MEDIUM/LOW)', required: true, value: task.priority },
             { key: 'complexity', label: 'Complexity (1-10)', required: true, value: String(task.complexity) },
+            { key: 'tags', label: 'Tags', value: formatTags(task.tags), suggestions: tagNames },
           ]}
           onCancel={() => setMode('idle')}
           onSubmit={(values) => {
-            adapter.updateTask(task.id, {
-              title: values.title ?? '',
-              summary: values.summary ?? '',
-              description: values.description || undefined,
-              priority: ((values.priority ?? task.priority) as Priority),
-              complexity: Number.parseInt(values.complexity ?? String(task.complexity), 10) || task.complexity,
-              version: task.version,
-            }).then((result) => {
-              if (!result.success) {
-                setStatusError(result.error);
-              }
-              refresh();
+            edits.updateTask(task, values).then((result) => {
+              finishWrite(result);
               setMode('idle');
             });
           }}
         />
       ) : null}
 
+      {edits.conflict ? (
+        <ConflictDialog
+          conflict={edits.conflict}
+          onRetry={() => edits.retry().then(finishWrite)}
+          onMerge={(values) => edits.merge(values).then(finishWrite)}
+          onKeepTheirs={() => {
+            edits.dismiss();
+            refresh();
+          }}
+        />
+      ) : null}
+
       {mode === 'delete' ? (
         <ConfirmDialog
           title="Delete Task"
@@ -316,6 +464,73 @@ export function TaskDetail({ taskId, onSelectTask, onBack }: TaskDetailProps) {
           }}
         />
       ) : null}
+
+      {mode === 'link' ? (
+        <LinkTaskPicker
+          task={task}
+          kind={linkKind}
+          excludeIds={new Set([
+            task.id,
+            ...(linkKind === 'blockedBy' ? task.blockedBy : task.relatedTo),
+          ])}
+          onToggleKind={() => setLinkKind(kind => (kind === 'blockedBy' ? 'relatedTo' : 'blockedBy'))}
+          onSelect={handleLink}
+          onCancel={() => setMode('idle')}
+        />
+      ) : null}
+
+      {mode === 'unlink' && unlinkTarget ? (
+        <ConfirmDialog
+          title="Remove Link"
+          message={unlinkTarget.kind === 'blockedBy'
+            ? `Stop waiting on "${unlinkTarget.task.title}"?`
+            : unlinkTarget.kind === 'blocks'
+              ? `Stop "${unlinkTarget.task.title}" waiting on this task?`
+              : `Unlink related task "${unlinkTarget.task.title}"?`}
+          onCancel={() => setMode('idle')}
+          onConfirm={() => handleUnlink(unlinkTarget)}
+        />
+      ) : null}
+
+      {mode === 'add-section' ? (
+        <SectionFormDialog
+          onCancel={() => setMode('idle')}
+          onSubmit={(draft) => {
+            sectionActions.createSection(draft).then((result) => {
+              if (result.success) {
+                setSelectedSectionIndex(sections.length);
+              }
+              finishSectionChange(result);
+            });
+          }}
+        />
+      ) : null}
+
+      {mode === 'edit-section' && sectionTarget ? (
+        <SectionFormDialog
+          section={sectionTarget}
+          onCancel={() => setMode('idle')}
+          onSubmit={(draft) => {
+            sectionActions.updateSection(sectionTarget, draft).then(finishSectionChange);
+          }}
+        />
+      ) : null}
+
+      {mode === 'delete-section' && sectionTarget ? (
+        <ConfirmDialog
+          title="Delete Section"
+          message={`Delete section "${sectionTarget.title}"?`}
+          onCancel={() => setMode('idle')}
+          onConfirm={() => {
+            sectionActions.deleteSection(sectionTarget).then((result) => {
+              if (result.success) {
+                setSelectedSectionIndex(index => Math.max(0, Math.min(index, sections.length - 2)));
+              }
+              finishSectionChange(result);
+            });
+          }}
+        />
+      ) : null}
     </Box>
   );
 }
@@ -8,6 +8,8 @@ import {
   formatCount,
   formatStatus,
   formatPriority,
+  formatDuration,
+  formatShortDate,
 } from '../lib/format';
 
 describe('format utilities', () => {
@@ -138,4 +140,23 @@ describe('format utilities', () => {
       expect(formatPriority('LOW')).toBe('Low');
     });
   });
+
+  describe('formatDuration', () => {
+    test('formats short durations in minutes', () => {
+      expect(formatDuration(20 * 1000)).toBe('<1m');
+      expect(formatDuration(45 * 60 * 1000)).toBe('45m');
+    });
+
+    test('uses the two largest units', () => {
+      expect(formatDuration(90 * 60 * 1000)).toBe('1h 30m');
+      expect(formatDuration(2 * 3600 * 1000)).toBe('2h');
+      expect(formatDuration(76 * 3600 * 1000)).toBe('3d 4h');
+    });
+  });
+
+  describe('formatShortDate', () => {
+    test('formats month and day', () => {
+      expect(formatShortDate(new Date('2026-03-11T12:00:00.000Z'))).toBe('03-11');
+    });
+  });
 });
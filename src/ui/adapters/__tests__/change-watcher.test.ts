@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'bun:test';
+import { ChangeWatcher, changeAffects } from '../change-watcher';
+import type { ChangeSet, DataAdapter, EntityChange, Result } from '../types';
+
+function createFakeAdapter(responses: ChangeSet[]) {
+  const calls: unknown[] = [];
+  const adapter = {
+    getChanges: async (since?: unknown): Promise<Result<ChangeSet>> => {
+      calls.push(since);
+      const next = responses.shift() ?? { cursor: {}, changes: [] };
+      return { success: true, data: next };
+    },
+  } as unknown as DataAdapter;
+  return { adapter, calls };
+}
+
+const taskChange: EntityChange = { entityType: 'task', id: 't1', parentIds: ['p1', 'f1'] };
+
+describe('changeAffects', () => {
+  it('matches the entity itself or its owners', () => {
+    expect(changeAffects(taskChange, ['t1'])).toBe(true);
+    expect(changeAffects(taskChange, ['p1'])).toBe(true);
+    expect(changeAffects(taskChange, [undefined, 'f1'])).toBe(true);
+    expect(changeAffects(taskChange, ['p2', null])).toBe(false);
+  });
+
+  it('treats changes without an id as affecting everything', () => {
+    expect(changeAffects({ entityType: 'task', id: null, parentIds: [] }, ['p2'])).toBe(true);
+  });
+});
+
+describe('ChangeWatcher', () => {
+  it('only records the cursor on the first poll', async () => {
+    const cursor = { task: { count: 1, versionSum: 1, modifiedAt: '2026-01-01T00:00:00.000Z' } };
+    const { adapter, calls } = createFakeAdapter([
+      { cursor, changes: [taskChange] },
+      { cursor, changes: [taskChange] },
+    ]);
+    const watcher = new ChangeWatcher(adapter, 60_000);
+    const received: EntityChange[][] = [];
+    const unsubscribe = watcher.subscribe((changes) => received.push(changes));
+
+    await watcher.poll();
+    expect(received).toEqual([]);
+
+    await watcher.poll();
+    expect(received).toEqual([[taskChange]]);
+    expect(calls[calls.length - 1]).toEqual(cursor);
+
+    unsubscribe();
+  });
+
+  it('skips listeners when nothing changed', async () => {
+    const { adapter } = createFakeAdapter([
+      { cursor: {}, changes: [] },
+      { cursor: {}, changes: [] },
+    ]);
+    const watcher = new ChangeWatcher(adapter, 60_000);
+    let notified = 0;
+    const unsubscribe = watcher.subscribe(() => notified++);
+
+    await watcher.poll();
+    await watcher.poll();
+    expect(notified).toBe(0);
+
+    unsubscribe();
+  });
+
+  it('stops notifying after unsubscribe', async () => {
+    const { adapter } = createFakeAdapter([
+      { cursor: {}, changes: [] },
+      { cursor: {}, changes: [taskChange] },
+    ]);
+    const watcher = new ChangeWatcher(adapter, 60_000);
+    let notified = 0;
+    const unsubscribe = watcher.subscribe(() => notified++);
+
+    await watcher.poll();
+    unsubscribe();
+    await watcher.poll();
+    expect(notified).toBe(0);
+  });
+});
@@ -2,7 +2,8 @@ import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'bun:test'
 import { db } from '@allpepper/task-orchestrator';
 import { runMigrations } from '@allpepper/task-orchestrator/src/db/migrate';
 import { DirectAdapter } from '../direct';
-import { Priority } from '@allpepper/task-orchestrator';
+import type { EntitySnapshot } from '../types';
+import { Priority, EntityType, ContentFormat } from '@allpepper/task-orchestrator';
 import * as projects from '@allpepper/task-orchestrator/src/repos/projects';
 import * as features from '@allpepper/task-orchestrator/src/repos/features';
 import * as tasks from '@allpepper/task-orchestrator/src/repos/tasks';
@@ -109,6 +110,19 @@ describe('DirectAdapter', () => {
         expect(result.data[0]?.name).toBe('Alpha Project');
       }
     });
+    it('should report stale project versions as CONFLICT', async () => {
+      const createResult = projects.createProject({ name: 'Shared', summary: 'Edited twice' });
+      if (!createResult.success) throw new Error(createResult.error);
+
+      const first = await adapter.updateProject(createResult.data.id, { name: 'First', version: createResult.data.version });
+      expect(first.success).toBe(true);
+
+      const second = await adapter.updateProject(createResult.data.id, { name: 'Second', version: createResult.data.version });
+      expect(second.success).toBe(false);
+      if (!second.success) {
+        expect(second.code).toBe('CONFLICT');
+      }
+    });
   });
 
   describe('Features', () => {
@@ -231,6 +245,224 @@ describe('DirectAdapter', () => {
     });
   });
 
+  describe('Sections', () => {
+    async function createTaskWithSections(titles: string[]) {
+      const taskResult = tasks.createTask({
+        title: 'Sectioned Task',
+        summary: 'Has sections',
+        priority: Priority.MEDIUM,
+        complexity: 3,
+      });
+      if (!taskResult.success) throw new Error(taskResult.error);
+
+      const ids: string[] = [];
+      for (const title of titles) {
+        const result = await adapter.createSection({
+          entityType: EntityType.TASK,
+          entityId: taskResult.data.id,
+          title,
+          content: `${title} content`,
+        });
+        if (!result.success) throw new Error(result.error);
+        ids.push(result.data.id);
+      }
+      return { taskId: taskResult.data.id, ids };
+    }
+
+    it('should create sections in ordinal order', async () => {
+      const { taskId } = await createTaskWithSections(['First', 'Second']);
+
+      const result = await adapter.getSections(EntityType.TASK, taskId);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.map((s) => s.title)).toEqual(['First', 'Second']);
+        expect(result.data[0]?.contentFormat).toBe(ContentFormat.MARKDOWN);
+        expect(result.data[0]?.usageDescription).toBe('');
+      }
+    });
+
+    it('should update section title, content and format', async () => {
+      const { ids } = await createTaskWithSections(['Implementation Notes']);
+
+      const result = await adapter.updateSection(ids[0]!, {
+        title: 'Notes',
+        content: 'plain notes',
+        contentFormat: ContentFormat.PLAIN_TEXT,
+        version: 1,
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.title).toBe('Notes');
+        expect(result.data.content).toBe('plain notes');
+        expect(result.data.contentFormat).toBe(ContentFormat.PLAIN_TEXT);
+        expect(result.data.version).toBe(2);
+      }
+    });
+
+    it('should report a CONFLICT when updating a stale section', async () => {
+      const { ids } = await createTaskWithSections(['Notes']);
+
+      const result = await adapter.updateSection(ids[0]!, { content: 'stale', version: 5 });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.code).toBe('CONFLICT');
+      }
+    });
+
+    it('should reorder sections', async () => {
+      const { taskId, ids } = await createTaskWithSections(['A', 'B', 'C']);
+
+      const result = await adapter.reorderSections(EntityType.TASK, taskId, [ids[2]!, ids[0]!, ids[1]!]);
+      expect(result.success).toBe(true);
+
+      const sectionsResult = await adapter.getSections(EntityType.TASK, taskId);
+      if (sectionsResult.success) {
+        expect(sectionsResult.data.map((s) => s.title)).toEqual(['C', 'A', 'B']);
+      }
+    });
+
+    it('should delete a section', async () => {
+      const { taskId, ids } = await createTaskWithSections(['Keep', 'Drop']);
+
+      const result = await adapter.deleteSection(ids[1]!);
+      expect(result.success).toBe(true);
+
+      const sectionsResult = await adapter.getSections(EntityType.TASK, taskId);
+      if (sectionsResult.success) {
+        expect(sectionsResult.data.map((s) => s.title)).toEqual(['Keep']);
+      }
+    });
+  });
+
+  describe('Dependency editing', () => {
+    function createTask(title: string, priority: Priority = Priority.MEDIUM) {
+      const result = tasks.createTask({
+        title,
+        summary: `${title} summary`,
+        priority,
+        complexity: 3,
+      });
+      if (!result.success) throw new Error(result.error);
+      return result.data;
+    }
+
+    it('should add a blocker and reject stale versions', async () => {
+      const blocker = createTask('Blocker');
+      const blocked = createTask('Blocked');
+
+      const result = await adapter.addBlocker('task', blocked.id, blocker.id, blocked.version);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.blockedBy).toEqual([blocker.id]);
+        expect(result.data.version).toBe(blocked.version + 1);
+      }
+
+      const stale = await adapter.addBlocker('task', blocked.id, blocker.id, blocked.version);
+      expect(stale.success).toBe(false);
+      if (!stale.success) {
+        expect(stale.code).toBe('CONFLICT');
+      }
+    });
+
+    it('should reject a blocker that would create a cycle', async () => {
+      const first = createTask('First');
+      const second = createTask('Second');
+
+      const linked = await adapter.addBlocker('task', first.id, second.id, first.version);
+      expect(linked.success).toBe(true);
+
+      const cyclic = await adapter.addBlocker('task', second.id, first.id, second.version);
+      expect(cyclic.success).toBe(false);
+      if (!cyclic.success) {
+        expect(cyclic.code).toBe('CYCLE_DETECTED');
+        expect(cyclic.error).toContain('Second → First → Second');
+      }
+    });
+
+    it('should reject self-blocking and unknown blockers', async () => {
+      const task = createTask('Lonely');
+
+      const self = await adapter.addBlocker('task', task.id, task.id, task.version);
+      expect(self.success).toBe(false);
+
+      const missing = await adapter.addBlocker('task', task.id, 'does-not-exist', task.version);
+      expect(missing.success).toBe(false);
+      if (!missing.success) {
+        expect(missing.code).toBe('NOT_FOUND');
+      }
+    });
+
+    it('should make a task the next task once its last blocker is removed', async () => {
+      const blocker = createTask('Blocker', Priority.LOW);
+      const blocked = createTask('Blocked', Priority.HIGH);
+
+      const added = await adapter.addBlocker('task', blocked.id, blocker.id, blocked.version);
+      expect(added.success).toBe(true);
+      if (!added.success) return;
+
+      const whileBlocked = await adapter.getNextTask();
+      if (whileBlocked.success) {
+        expect(whileBlocked.data?.id).toBe(blocker.id);
+      }
+
+      const removed = await adapter.removeBlocker('task', blocked.id, blocker.id, added.data.version);
+      expect(removed.success).toBe(true);
+      if (removed.success) {
+        expect(removed.data.blockedBy).toEqual([]);
+      }
+
+      const next = await adapter.getNextTask();
+      if (next.success) {
+        expect(next.data?.id).toBe(blocked.id);
+      }
+    });
+
+    it('should link and unlink related tasks on both sides', async () => {
+      const first = createTask('First');
+      const second = createTask('Second');
+
+      const linked = await adapter.addRelated('task', first.id, second.id, first.version);
+      expect(linked.success).toBe(true);
+
+      const deps = await adapter.getDependencies(second.id);
+      if (deps.success) {
+        expect(deps.data.relatedTo.map((t) => t.id)).toEqual([first.id]);
+      }
+
+      if (!linked.success) return;
+      const unlinked = await adapter.removeRelated('task', first.id, second.id, linked.data.version);
+      expect(unlinked.success).toBe(true);
+
+      const after = tasks.getTask(second.id);
+      if (after.success) {
+        expect(after.data.relatedTo).toEqual([]);
+      }
+    });
+
+    it('should prefer the task that unblocks the most with the impact strategy', async () => {
+      const urgent = createTask('Urgent', Priority.HIGH);
+      const enabler = createTask('Enabler', Priority.LOW);
+      const middle = createTask('Middle');
+      const last = createTask('Last');
+
+      const first = await adapter.addBlocker('task', middle.id, enabler.id, middle.version);
+      expect(first.success).toBe(true);
+      const second = await adapter.addBlocker('task', last.id, middle.id, last.version);
+      expect(second.success).toBe(true);
+
+      const byPriority = await adapter.getNextTask();
+      if (byPriority.success) {
+        expect(byPriority.data?.id).toBe(urgent.id);
+      }
+
+      const byImpact = await adapter.getNextTask({ strategy: 'impact' });
+      expect(byImpact.success).toBe(true);
+      if (byImpact.success) {
+        expect(byImpact.data?.id).toBe(enabler.id);
+      }
+    });
+  });
+
   describe('Search', () => {
     it('should search across all entity types', async () => {
       projects.createProject({
@@ -257,6 +489,65 @@ describe('DirectAdapter', () => {
         expect(result.data.tasks.length).toBeGreaterThan(0);
       }
     });
+
+    it('should apply query filters and page through the results', async () => {
+      const billing = projects.createProject({ name: 'Billing', summary: 'Invoices' });
+      if (!billing.success) throw new Error('Failed to create project');
+      for (const complexity of [2, 6, 7, 8]) {
+        tasks.createTask({
+          title: `Invoice task ${complexity}`,
+          summary: 'Billing work',
+          priority: Priority.HIGH,
+          complexity,
+          projectId: billing.data.id,
+        });
+      }
+      tasks.createTask({ title: 'Invoice elsewhere', summary: 'Other', priority: Priority.HIGH, complexity: 9 });
+
+      const first = await adapter.search('project:billing priority:HIGH complexity:>5 invoice', { limit: 2 });
+      expect(first.success).toBe(true);
+      if (!first.success) return;
+      expect(first.data.projects).toEqual([]);
+      expect(first.data.tasks).toHaveLength(2);
+      expect(first.data.hasMore).toBe(true);
+
+      const second = await adapter.search('project:billing priority:HIGH complexity:>5 invoice', { limit: 2, offset: 2 });
+      expect(second.success && second.data.tasks.map((task) => task.title)).toEqual(['Invoice task 6']);
+      expect(second.success && second.data.hasMore).toBe(false);
+
+      const unknownProject = await adapter.search('project:Nowhere invoice');
+      expect(unknownProject.success && unknownProject.data.tasks).toEqual([]);
+
+      const invalid = await adapter.search('priority:urgent');
+      expect(!invalid.success && invalid.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('Tags', () => {
+    it('should count tag usage and merge a rename onto an existing tag', async () => {
+      const both = tasks.createTask({ title: 'Both', summary: 'Both', priority: Priority.MEDIUM, complexity: 3, tags: ['ui', 'frontend'] });
+      const old = tasks.createTask({ title: 'Old', summary: 'Old', priority: Priority.MEDIUM, complexity: 3, tags: ['ui'] });
+      if (!both.success || !old.success) throw new Error('Failed to create tasks');
+
+      const before = await adapter.getTags();
+      expect(before.success && before.data).toEqual([
+        { tag: 'ui', count: 2 },
+        { tag: 'frontend', count: 1 },
+      ]);
+
+      const renamed = await adapter.renameTag('UI', 'Frontend');
+      expect(renamed.success).toBe(true);
+      if (!renamed.success) return;
+      expect([renamed.data.from, renamed.data.to]).toEqual(['ui', 'frontend']);
+      expect(renamed.data.entities.map((entity) => entity.id).sort()).toEqual([both.data.id, old.data.id].sort());
+
+      const after = await adapter.getTags();
+      expect(after.success && after.data).toEqual([{ tag: 'frontend', count: 2 }]);
+      const merged = await adapter.getTask(both.data.id);
+      expect(merged.success && merged.data.tags).toEqual(['frontend']);
+      // Stale copies of a renamed entity must conflict
+      expect(merged.success && merged.data.version).toBeGreaterThan(both.data.version);
+    });
   });
 
   describe('Workflow', () => {
@@ -444,4 +735,268 @@ describe('DirectAdapter', () => {
       expect(featureCheck.success).toBe(false);
     });
   });
+
+  describe('Change detection', () => {
+    it('should report no changes against a fresh cursor', async () => {
+      tasks.createTask({ title: 'Quiet', summary: 'Unchanged', priority: Priority.LOW, complexity: 1 });
+
+      const baseline = await adapter.getChanges();
+      expect(baseline.success).toBe(true);
+      if (!baseline.success) return;
+      expect(baseline.data.changes).toEqual([]);
+
+      const result = await adapter.getChanges(baseline.data.cursor);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.changes).toEqual([]);
+      }
+    });
+
+    it('should report updated tasks with their owners', async () => {
+      const projectResult = projects.createProject({ name: 'Watched', summary: 'Project' });
+      if (!projectResult.success) throw new Error('Failed to create project');
+      const taskResult = tasks.createTask({
+        projectId: projectResult.data.id,
+        title: 'Watched task',
+        summary: 'Will change',
+        priority: Priority.MEDIUM,
+        complexity: 2,
+      });
+      if (!taskResult.success) throw new Error('Failed to create task');
+
+      const baseline = await adapter.getChanges();
+      if (!baseline.success) throw new Error('Failed to read baseline');
+
+      await Bun.sleep(5);
+      tasks.updateTask(taskResult.data.id, { title: 'Changed elsewhere', version: taskResult.data.version });
+
+      const result = await adapter.getChanges(baseline.data.cursor);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.changes).toEqual([
+          { entityType: 'task', id: taskResult.data.id, parentIds: [projectResult.data.id] },
+        ]);
+      }
+    });
+
+    it('should report deletions without an id', async () => {
+      const taskResult = tasks.createTask({ title: 'Doomed', summary: 'Deleted', priority: Priority.LOW, complexity: 1 });
+      if (!taskResult.success) throw new Error('Failed to create task');
+
+      const baseline = await adapter.getChanges();
+      if (!baseline.success) throw new Error('Failed to read baseline');
+
+      tasks.deleteTask(taskResult.data.id);
+
+      const result = await adapter.getChanges(baseline.data.cursor);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.changes).toEqual([{ entityType: 'task', id: null, parentIds: [] }]);
+      }
+    });
+  });
+
+  describe('History support', () => {
+    it('should restore a status with a version check', async () => {
+      const taskResult = tasks.createTask({ title: 'Restorable', summary: 'Status', priority: Priority.LOW, complexity: 1 });
+      if (!taskResult.success) throw new Error('Failed to create task');
+
+      const advanced = await adapter.advance('task', taskResult.data.id, taskResult.data.version);
+      if (!advanced.success) throw new Error('Failed to advance task');
+
+      const stale = await adapter.restoreStatus('task', taskResult.data.id, 'NEW', taskResult.data.version);
+      expect(stale.success).toBe(false);
+      if (!stale.success) expect(stale.code).toBe('CONFLICT');
+
+      const result = await adapter.restoreStatus('task', taskResult.data.id, 'NEW', advanced.data.entity.version);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.oldStatus).toBe('ACTIVE');
+        expect(result.data.newStatus).toBe('NEW');
+        expect(result.data.entity.version).toBe(advanced.data.entity.version + 1);
+      }
+    });
+
+    it('should reject unknown statuses', async () => {
+      const taskResult = tasks.createTask({ title: 'Strict', summary: 'Status', priority: Priority.LOW, complexity: 1 });
+      if (!taskResult.success) throw new Error('Failed to create task');
+
+      const result = await adapter.restoreStatus('task', taskResult.data.id, 'DONE-ISH', taskResult.data.version);
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should re-create a deleted feature from its snapshot', async () => {
+      const featureResult = features.createFeature({ name: 'Snapshotted', summary: 'Feature', priority: Priority.HIGH });
+      if (!featureResult.success) throw new Error('Failed to create feature');
+      const taskResult = tasks.createTask({
+        featureId: featureResult.data.id,
+        title: 'Child',
+        summary: 'Task',
+        priority: Priority.LOW,
+        complexity: 1,
+        tags: ['keep'],
+      });
+      if (!taskResult.success) throw new Error('Failed to create task');
+      await adapter.createSection({
+        entityType: EntityType.TASK,
+        entityId: taskResult.data.id,
+        title: 'Notes',
+        content: 'Body',
+      });
+
+      const snapshot = await adapter.getSnapshot('feature', featureResult.data.id);
+      expect(snapshot.success).toBe(true);
+      if (!snapshot.success) return;
+      expect(snapshot.data.rows.tasks).toHaveLength(1);
+      expect(snapshot.data.rows.sections).toHaveLength(1);
+      expect(snapshot.data.rows.entity_tags).toHaveLength(1);
+
+      await adapter.deleteFeature(featureResult.data.id, { cascade: true });
+      expect((await adapter.getTask(taskResult.data.id)).success).toBe(false);
+
+      const restored = await adapter.restoreSnapshot(snapshot.data);
+      expect(restored.success).toBe(true);
+
+      const task = await adapter.getTask(taskResult.data.id);
+      expect(task.success).toBe(true);
+      if (task.success) {
+        expect(task.data.featureId).toBe(featureResult.data.id);
+        expect(task.data.tags).toEqual(['keep']);
+      }
+      const sectionsResult = await adapter.getSections(EntityType.TASK, taskResult.data.id);
+      expect(sectionsResult.success && sectionsResult.data.map((section) => section.title)).toEqual(['Notes']);
+    });
+
+    it('should bump the version when restoring over an existing row', async () => {
+      const taskResult = tasks.createTask({ title: 'Original', summary: 'Task', priority: Priority.LOW, complexity: 1 });
+      if (!taskResult.success) throw new Error('Failed to create task');
+
+      const snapshot = await adapter.getSnapshot('task', taskResult.data.id);
+      if (!snapshot.success) throw new Error('Failed to snapshot task');
+
+      const updated = await adapter.updateTask(taskResult.data.id, { title: 'Renamed', version: taskResult.data.version });
+      if (!updated.success) throw new Error('Failed to update task');
+
+      await adapter.restoreSnapshot(snapshot.data);
+
+      const task = await adapter.getTask(taskResult.data.id);
+      expect(task.success).toBe(true);
+      if (task.success) {
+        expect(task.data.title).toBe('Original');
+        expect(task.data.version).toBe(updated.data.version + 1);
+      }
+    });
+
+    it('should refuse snapshots with rows outside the entity or invalid values', async () => {
+      const taskResult = tasks.createTask({ title: 'Mine', summary: 'Task', priority: Priority.LOW, complexity: 1 });
+      const otherResult = tasks.createTask({ title: 'Other', summary: 'Task', priority: Priority.LOW, complexity: 1 });
+      if (!taskResult.success || !otherResult.success) throw new Error('Failed to create tasks');
+      const snapshot = await adapter.getSnapshot('task', taskResult.data.id);
+      const other = await adapter.getSnapshot('task', otherResult.data.id);
+      if (!snapshot.success || !other.success) throw new Error('Failed to snapshot task');
+      const row = snapshot.data.rows.tasks![0]!;
+
+      const cases: EntitySnapshot[] = [
+        { ...snapshot.data, rows: { tasks: [{ ...other.data.rows.tasks![0]!, title: 'Hijacked' }] } },
+        { ...snapshot.data, rows: { tasks: [{ ...row, status: 'SHIPPED' }] } },
+        { ...snapshot.data, rows: { tasks: [{ ...row, title: { nested: true } }] } },
+        { ...snapshot.data, rows: { tasks: [{ ...row, owner: 'x' }] } },
+        { ...snapshot.data, rows: { projects: [] } },
+      ];
+      for (const invalid of cases) {
+        const result = await adapter.restoreSnapshot(invalid);
+        expect(!result.success && result.code).toBe('VALIDATION_ERROR');
+      }
+      const untouched = await adapter.getTask(otherResult.data.id);
+      expect(untouched.success && untouched.data.title).toBe('Other');
+    });
+
+    it('should return NOT_FOUND for a missing entity', async () => {
+      const result = await adapter.getSnapshot('task', 'missing');
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('Activity log', () => {
+    it('should record creates, edits and transitions with the actor', async () => {
+      const actorAdapter = new DirectAdapter({ actor: 'alice' });
+      const created = await actorAdapter.createTask({ title: 'Logged', summary: 'Task', priority: Priority.LOW, complexity: 1 });
+      if (!created.success) throw new Error('Failed to create task');
+      const updated = await actorAdapter.updateTask(created.data.id, {
+        priority: Priority.HIGH,
+        version: created.data.version,
+      });
+      if (!updated.success) throw new Error('Failed to update task');
+      await actorAdapter.advance('task', created.data.id, updated.data.version);
+
+      const result = await adapter.getActivity({ entityId: created.data.id });
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(result.data.map((entry) => entry.action)).toEqual(['advance', 'update', 'create']);
+      expect(result.data.every((entry) => entry.actor === 'alice')).toBe(true);
+      expect(result.data[0]).toMatchObject({ oldStatus: 'NEW', newStatus: 'ACTIVE', entityName: 'Logged' });
+      expect(result.data[1]?.changes).toEqual([{ field: 'priority', from: 'LOW', to: 'HIGH' }]);
+    });
+
+    it('should prefer lastModifiedBy over the adapter actor', async () => {
+      const created = await adapter.createTask({ title: 'Agent edit', summary: 'Task', priority: Priority.LOW, complexity: 1 });
+      if (!created.success) throw new Error('Failed to create task');
+      await adapter.updateTask(created.data.id, { title: 'Edited', lastModifiedBy: 'agent-7', version: created.data.version });
+
+      const result = await adapter.getActivity({ entityId: created.data.id, actor: 'agent-7' });
+      expect(result.success && result.data.map((entry) => entry.action)).toEqual(['update']);
+    });
+
+    it('should include owned tasks and sections in an entity filter', async () => {
+      const project = projects.createProject({ name: 'Audited', summary: 'Project' });
+      if (!project.success) throw new Error('Failed to create project');
+      const feature = await adapter.createFeature({
+        projectId: project.data.id,
+        name: 'Audited feature',
+        summary: 'Feature',
+        priority: Priority.MEDIUM,
+      });
+      if (!feature.success) throw new Error('Failed to create feature');
+      const task = await adapter.createTask({
+        featureId: feature.data.id,
+        title: 'Audited task',
+        summary: 'Task',
+        priority: Priority.MEDIUM,
+        complexity: 2,
+      });
+      if (!task.success) throw new Error('Failed to create task');
+      await adapter.createSection({ entityType: EntityType.FEATURE, entityId: feature.data.id, title: 'Plan', content: 'Steps' });
+      await adapter.deleteTask(task.data.id);
+
+      const featureActivity = await adapter.getActivity({ entityId: feature.data.id });
+      expect(featureActivity.success && featureActivity.data.map((entry) => `${entry.action} ${entry.entityType}`)).toEqual([
+        'delete task',
+        'create section',
+        'create task',
+        'create feature',
+      ]);
+
+      const projectActivity = await adapter.getActivity({ projectId: project.data.id });
+      expect(projectActivity.success && projectActivity.data).toHaveLength(4);
+    });
+
+    it('should create the log table through a versioned migration', async () => {
+      await adapter.createTask({ title: 'Migrated', summary: 'Task', priority: Priority.LOW, complexity: 1 });
+
+      const applied = db.query<{ version: number; name: string }, []>('SELECT version, name FROM _app_migrations').all();
+      expect(applied).toEqual([{ version: 1, name: 'activity_log' }]);
+    });
+
+    it('should skip updates that change nothing', async () => {
+      const created = await adapter.createTask({ title: 'Same', summary: 'Task', priority: Priority.LOW, complexity: 1 });
+      if (!created.success) throw new Error('Failed to create task');
+      await adapter.updateTask(created.data.id, { title: 'Same', version: created.data.version });
+
+      const result = await adapter.getActivity({ entityId: created.data.id });
+      expect(result.success && result.data.map((entry) => entry.action)).toEqual(['create']);
+    });
+  });
 });
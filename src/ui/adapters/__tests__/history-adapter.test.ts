@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'bun:test';
+import { db, Priority, EntityType } from '@allpepper/task-orchestrator';
+import { runMigrations } from '@allpepper/task-orchestrator/src/db/migrate';
+import { DirectAdapter } from '../direct';
+import { HistoryAdapter } from '../history-adapter';
+import { UndoHistory } from '../undo-history';
+
+function clearTables() {
+  db.run('DELETE FROM entity_tags');
+  db.run('DELETE FROM sections');
+  db.run('DELETE FROM tasks');
+  db.run('DELETE FROM features');
+  db.run('DELETE FROM projects');
+}
+
+beforeAll(() => {
+  runMigrations();
+});
+
+beforeEach(clearTables);
+
+afterAll(clearTables);
+
+describe('HistoryAdapter', () => {
+  let history: UndoHistory;
+  let adapter: HistoryAdapter;
+
+  beforeEach(() => {
+    history = new UndoHistory();
+    adapter = new HistoryAdapter(new DirectAdapter(), history);
+  });
+
+  async function createTask(title = 'Tracked') {
+    const result = await adapter.createTask({ title, summary: 'Task', priority: Priority.MEDIUM, complexity: 3 });
+    if (!result.success) throw new Error('Failed to create task');
+    return result.data;
+  }
+
+  it('should undo and redo a field update', async () => {
+    const task = await createTask();
+    const updated = await adapter.updateTask(task.id, { title: 'Renamed', complexity: 5, version: task.version });
+    expect(updated.success).toBe(true);
+
+    const undone = await history.undo();
+    expect(undone.success && undone.data.label).toBe('Edit task "Renamed"');
+    let current = await adapter.getTask(task.id);
+    expect(current.success && [current.data.title, current.data.complexity]).toEqual(['Tracked', 3]);
+
+    await history.redo();
+    current = await adapter.getTask(task.id);
+    expect(current.success && [current.data.title, current.data.complexity]).toEqual(['Renamed', 5]);
+  });
+
+  it('should refuse to undo an edit once someone else changed the same field', async () => {
+    const task = await createTask();
+    const updated = await adapter.updateTask(task.id, { title: 'Mine', version: task.version });
+    if (!updated.success) throw new Error('Failed to update task');
+    // Another client writes straight to the store, outside this history
+    await new DirectAdapter().updateTask(task.id, { title: 'Theirs', version: updated.data.version });
+
+    const undone = await history.undo();
+    expect(undone.success).toBe(false);
+    expect(!undone.success && undone.code).toBe('CONFLICT');
+    expect(history.canRedo).toBe(false);
+    const current = await adapter.getTask(task.id);
+    expect(current.success && current.data.title).toBe('Theirs');
+
+    // The edit was dropped, so the next undo is the task's creation
+    const next = await history.undo();
+    expect(next.success && next.data.label).toBe('Create task "Tracked"');
+  });
+
+  it('should undo an edit when someone else only changed other fields', async () => {
+    const task = await createTask();
+    const updated = await adapter.updateTask(task.id, { title: 'Mine', version: task.version });
+    if (!updated.success) throw new Error('Failed to update task');
+    await new DirectAdapter().updateTask(task.id, { complexity: 8, version: updated.data.version });
+
+    expect((await history.undo()).success).toBe(true);
+    const current = await adapter.getTask(task.id);
+    expect(current.success && [current.data.title, current.data.complexity]).toEqual(['Tracked', 8]);
+  });
+
+  it('should restore a deleted task with the same id and sections', async () => {
+    const task = await createTask('Doomed');
+    await adapter.createSection({ entityType: EntityType.TASK, entityId: task.id, title: 'Notes', content: 'Keep me' });
+    await adapter.deleteTask(task.id);
+    expect((await adapter.getTask(task.id)).success).toBe(false);
+
+    const undone = await history.undo();
+    expect(undone.success && undone.data.label).toBe('Delete task "Doomed"');
+
+    const restored = await adapter.getTask(task.id);
+    expect(restored.success && restored.data.title).toBe('Doomed');
+    const sections = await adapter.getSections(EntityType.TASK, task.id);
+    expect(sections.success && sections.data.map((section) => section.content)).toEqual(['Keep me']);
+
+    await history.redo();
+    expect((await adapter.getTask(task.id)).success).toBe(false);
+  });
+
+  it('should undo an advance back to the previous status', async () => {
+    const task = await createTask();
+    const advanced = await adapter.advance('task', task.id, task.version);
+    expect(advanced.success && advanced.data.newStatus).toBe('ACTIVE');
+
+    await history.undo();
+    const current = await adapter.getTask(task.id);
+    expect(current.success && current.data.status).toBe('NEW');
+  });
+
+  it('should refuse to undo a transition once the status moved on', async () => {
+    const task = await createTask();
+    const advanced = await adapter.advance('task', task.id, task.version);
+    if (!advanced.success) throw new Error('Failed to advance task');
+
+    // Another client moves the task further
+    await new DirectAdapter().advance('task', task.id, advanced.data.entity.version);
+
+    const undone = await history.undo();
+    expect(undone.success).toBe(false);
+    if (!undone.success) expect(undone.code).toBe('CONFLICT');
+  });
+
+  it('should undo a create by deleting and redo it by restoring', async () => {
+    const task = await createTask('Fresh');
+
+    await history.undo();
+    expect((await adapter.getTask(task.id)).success).toBe(false);
+
+    await history.redo();
+    const restored = await adapter.getTask(task.id);
+    expect(restored.success && restored.data.title).toBe('Fresh');
+  });
+
+  it('should not record undo or redo as new entries', async () => {
+    const task = await createTask();
+    await adapter.updateTask(task.id, { title: 'Once', version: task.version });
+
+    await history.undo();
+    await history.undo();
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(true);
+  });
+
+  it('should undo a tag merge by restoring each entity\'s own tags', async () => {
+    const task = await createTask();
+    const tagged = await adapter.updateTask(task.id, { tags: ['ui', 'web'], version: task.version });
+    if (!tagged.success) throw new Error('Failed to tag task');
+
+    await adapter.renameTag('ui', 'web');
+    let current = await adapter.getTask(task.id);
+    expect(current.success && current.data.tags).toEqual(['web']);
+
+    const undone = await history.undo();
+    expect(undone.success && undone.data.label).toBe('Rename tag "ui" to "web"');
+    current = await adapter.getTask(task.id);
+    expect(current.success && [...(current.data.tags ?? [])].sort()).toEqual(['ui', 'web']);
+
+    await history.redo();
+    current = await adapter.getTask(task.id);
+    expect(current.success && current.data.tags).toEqual(['web']);
+  });
+
+  it('should undo a batched multi-step move in one go', async () => {
+    const task = await createTask();
+
+    await history.batch('Move task', async () => {
+      const first = await adapter.advance('task', task.id, task.version);
+      if (!first.success) throw new Error('Failed to advance task');
+      await adapter.advance('task', task.id, first.data.entity.version);
+    });
+
+    await history.undo();
+    const current = await adapter.getTask(task.id);
+    expect(current.success && current.data.status).toBe('NEW');
+    expect(history.canUndo).toBe(true);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from 'bun:test';
+import { db, Priority } from '@allpepper/task-orchestrator';
+import { runMigrations } from '@allpepper/task-orchestrator/src/db/migrate';
+import * as projects from '@allpepper/task-orchestrator/src/repos/projects';
+import * as tasks from '@allpepper/task-orchestrator/src/repos/tasks';
+import { DirectAdapter } from '../direct';
+import { HttpAdapter } from '../http';
+import { createApiHandler } from '../../../server/routes';
+import { decodeSearchParams, encodeQuery, reviveDates } from '../http-protocol';
+
+function clearTables() {
+  db.run('DELETE FROM entity_tags');
+  db.run('DELETE FROM sections');
+  db.run('DELETE FROM tasks');
+  db.run('DELETE FROM features');
+  db.run('DELETE FROM projects');
+}
+
+beforeAll(() => {
+  runMigrations();
+});
+
+beforeEach(clearTables);
+afterAll(clearTables);
+
+function createTask(title: string) {
+  const result = tasks.createTask({ title, summary: `${title} summary`, priority: Priority.MEDIUM, complexity: 2 });
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+describe('http protocol', () => {
+  it('should round-trip search params through the query string', () => {
+    const query = encodeQuery({ projectId: 'p1', tags: ['a', 'b'], limit: 5, status: undefined });
+    expect(query).toBe('?projectId=p1&tags=a%2Cb&limit=5');
+    expect(decodeSearchParams(new URLSearchParams(query))).toEqual({ projectId: 'p1', tags: ['a', 'b'], limit: 5 });
+  });
+
+  it('should round-trip the blocker and complexity filters', () => {
+    const query = encodeQuery({ blocked: false, minComplexity: 3, maxComplexity: 7 });
+    expect(decodeSearchParams(new URLSearchParams(query))).toEqual({ blocked: false, minComplexity: 3, maxComplexity: 7 });
+  });
+
+  it('should revive timestamp fields only', () => {
+    const parsed = JSON.parse(
+      '{"createdAt":"2026-01-02T03:04:05.000Z","title":"2026-01-02T03:04:05.000Z"}',
+      reviveDates
+    );
+    expect(parsed.createdAt).toBeInstanceOf(Date);
+    expect(typeof parsed.title).toBe('string');
+  });
+});
+
+describe('HttpAdapter', () => {
+  let adapter: HttpAdapter;
+
+  beforeEach(() => {
+    const handler = createApiHandler(new DirectAdapter());
+    adapter = new HttpAdapter('http://orchestrator.test/', { fetch: handler });
+  });
+
+  it('should read entities with revived dates', async () => {
+    const created = projects.createProject({ name: 'Remote', summary: 'Over HTTP' });
+    if (!created.success) throw new Error(created.error);
+
+    const list = await adapter.getProjects();
+    expect(list.success).toBe(true);
+    if (list.success) {
+      expect(list.data.map((p) => p.name)).toEqual(['Remote']);
+      expect(list.data[0]?.createdAt).toBeInstanceOf(Date);
+    }
+
+    const missing = await adapter.getProject('does-not-exist');
+    expect(missing.success).toBe(false);
+  });
+
+  it('should create and update tasks through the API', async () => {
+    const created = await adapter.createTask({
+      title: 'Remote task',
+      summary: 'Created over HTTP',
+      priority: Priority.HIGH,
+      complexity: 3,
+    });
+    expect(created.success).toBe(true);
+    if (!created.success) return;
+
+    const updated = await adapter.updateTask(created.data.id, { title: 'Renamed', version: created.data.version });
+    expect(updated.success).toBe(true);
+    if (updated.success) {
+      expect(updated.data.title).toBe('Renamed');
+    }
+  });
+
+  it('should preserve error codes from the direct adapter', async () => {
+    const task = createTask('Versioned');
+
+    const stale = await adapter.advance('task', task.id, task.version + 5);
+    expect(stale.success).toBe(false);
+    if (!stale.success) {
+      expect(stale.code).toBe('CONFLICT');
+    }
+
+    const blocker = createTask('Blocker');
+    const blocked = await adapter.addBlocker('task', task.id, blocker.id, task.version);
+    expect(blocked.success).toBe(true);
+    if (!blocked.success) return;
+
+    const advance = await adapter.advance('task', task.id, blocked.data.version);
+    expect(advance.success).toBe(false);
+    if (!advance.success) {
+      expect(advance.code).toBe('BLOCKED');
+    }
+
+    const unblocked = await adapter.removeBlocker('task', task.id, blocker.id, blocked.data.version);
+    expect(unblocked.success).toBe(true);
+  });
+
+  it('should list activity with revived dates', async () => {
+    const created = await adapter.createTask({
+      title: 'Audited remotely',
+      summary: 'Created over HTTP',
+      priority: Priority.LOW,
+      complexity: 1,
+    });
+    if (!created.success) throw new Error(created.error);
+
+    const activity = await adapter.getActivity({ entityId: created.data.id });
+    expect(activity.success).toBe(true);
+    if (activity.success) {
+      expect(activity.data.map((entry) => entry.action)).toEqual(['create']);
+      expect(activity.data[0]?.createdAt).toBeInstanceOf(Date);
+    }
+  });
+
+  it('should record writes under the actor the client names', async () => {
+    const handler = createApiHandler(new DirectAdapter({ actor: 'server' }), {
+      adapterFor: (actor) => new DirectAdapter({ actor }),
+    });
+    const remote = new HttpAdapter('http://orchestrator.test', { fetch: handler, actor: 'Zoë' });
+
+    const created = await remote.createTask({ title: 'Named', summary: 'By a client', priority: Priority.LOW, complexity: 1 });
+    if (!created.success) throw new Error(created.error);
+    const advanced = await remote.advance('task', created.data.id, created.data.version);
+    expect(advanced.success).toBe(true);
+
+    const activity = await remote.getActivity({ entityId: created.data.id });
+    expect(activity.success && activity.data.map((entry) => entry.actor)).toEqual(['Zoë', 'Zoë']);
+  });
+
+  it('should report unreachable servers as network errors', async () => {
+    const offline = new HttpAdapter('http://orchestrator.test', {
+      fetch: async () => {
+        throw new Error('connection refused');
+      },
+    });
+
+    const result = await offline.getProjects();
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.code).toBe('NETWORK_ERROR');
+    }
+  });
+
+  it('should report a connection dropped mid-response as a network error', async () => {
+    const dropped = new HttpAdapter('http://orchestrator.test', {
+      fetch: async () =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.error(new Error('connection reset'));
+            },
+          })
+        ),
+    });
+
+    const result = await dropped.getProjects();
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.code).toBe('NETWORK_ERROR');
+    }
+  });
+});
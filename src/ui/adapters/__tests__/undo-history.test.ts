@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'bun:test';
+import { UndoHistory, type HistoryEntry } from '../undo-history';
+import type { Result } from '../types';
+
+const ok: Result<null> = { success: true, data: null };
+
+/**
+ * Entry that appends to a log so tests can check ordering
+ */
+function logEntry(label: string, log: string[], undoResult: Result<null> = ok): HistoryEntry {
+  return {
+    label,
+    undo: async () => {
+      log.push(`undo ${label}`);
+      return undoResult;
+    },
+    redo: async () => {
+      log.push(`redo ${label}`);
+      return ok;
+    },
+  };
+}
+
+describe('UndoHistory', () => {
+  it('undoes and redoes in stack order', async () => {
+    const log: string[] = [];
+    const history = new UndoHistory();
+    history.record(logEntry('a', log));
+    history.record(logEntry('b', log));
+
+    const first = await history.undo();
+    expect(first.success && first.data.label).toBe('b');
+    await history.undo();
+    await history.redo();
+
+    expect(log).toEqual(['undo b', 'undo a', 'redo a']);
+    expect(history.canUndo).toBe(true);
+    expect(history.canRedo).toBe(true);
+  });
+
+  it('clears the redo stack when a new entry is recorded', async () => {
+    const log: string[] = [];
+    const history = new UndoHistory();
+    history.record(logEntry('a', log));
+    await history.undo();
+    history.record(logEntry('b', log));
+
+    expect(history.canRedo).toBe(false);
+    const result = await history.redo();
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.code).toBe('EMPTY');
+  });
+
+  it('drops entries whose undo fails', async () => {
+    const log: string[] = [];
+    const history = new UndoHistory();
+    history.record(logEntry('stale', log, { success: false, error: 'status is now DONE', code: 'CONFLICT' }));
+
+    const result = await history.undo();
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe('Cannot undo stale: status is now DONE');
+      expect(result.code).toBe('CONFLICT');
+    }
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('keeps at most `limit` entries', async () => {
+    const log: string[] = [];
+    const history = new UndoHistory(2);
+    history.record(logEntry('a', log));
+    history.record(logEntry('b', log));
+    history.record(logEntry('c', log));
+
+    await history.undo();
+    await history.undo();
+    expect(history.canUndo).toBe(false);
+    expect(log).toEqual(['undo c', 'undo b']);
+  });
+
+  it('groups a batch into one entry undone in reverse', async () => {
+    const log: string[] = [];
+    const history = new UndoHistory();
+
+    await history.batch('move', async () => {
+      history.record(logEntry('step 1', log));
+      history.record(logEntry('step 2', log));
+    });
+
+    const result = await history.undo();
+    expect(result.success && result.data.label).toBe('move');
+    expect(history.canUndo).toBe(false);
+
+    await history.redo();
+    expect(log).toEqual(['undo step 2', 'undo step 1', 'redo step 1', 'redo step 2']);
+  });
+
+  it('drops a batch whose result is rejected', async () => {
+    const log: string[] = [];
+    const history = new UndoHistory();
+
+    const result = await history.batch(
+      'import',
+      async () => {
+        history.record(logEntry('create', log));
+        return false;
+      },
+      (succeeded) => succeeded
+    );
+
+    expect(result).toBe(false);
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('rejects overlapping undo calls', async () => {
+    const history = new UndoHistory();
+    let release: () => void = () => {};
+    history.record({ label: 'fast', undo: async () => ok, redo: async () => ok });
+    history.record({
+      label: 'slow',
+      undo: () => new Promise((resolve) => {
+        release = () => resolve(ok);
+      }),
+      redo: async () => ok,
+    });
+
+    const first = history.undo();
+    const second = await history.undo();
+    expect(second.success).toBe(false);
+    if (!second.success) expect(second.code).toBe('BUSY');
+
+    release();
+    expect((await first).success).toBe(true);
+  });
+
+  it('notifies subscribers', async () => {
+    const events: string[] = [];
+    const history = new UndoHistory();
+    const unsubscribe = history.subscribe((event, entry) => events.push(`${event}:${entry.label}`));
+
+    history.record(logEntry('a', []));
+    await history.undo();
+    unsubscribe();
+    await history.redo();
+
+    expect(events).toEqual(['record:a', 'undo:a']);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Activity log - append-only audit trail of writes made through DirectAdapter
+ *
+ * Rows live in an `activity_log` table next to the orchestrator's own tables,
+ * created by our own versioned migrations (see app-migrations.ts). Each row names the entity, its project and its owner
+ * (the feature of a task, the entity a section belongs to) so screens can
+ * filter by project or show an entity together with its children.
+ */
+
+import { queryAll, execute, generateId, now } from '@allpepper/task-orchestrator/src/repos/base';
+import { runAppMigrations } from './app-migrations';
+import type { ActivityEntry, ActivityParams, FieldChange } from './types';
+
+export const DEFAULT_ACTIVITY_LIMIT = 100;
+
+export const TASK_ACTIVITY_FIELDS = [
+  'title',
+  'summary',
+  'description',
+  'priority',
+  'complexity',
+  'projectId',
+  'featureId',
+  'tags',
+  'blockedBy',
+  'relatedTo',
+];
+
+export const FEATURE_ACTIVITY_FIELDS = [
+  'name',
+  'summary',
+  'description',
+  'priority',
+  'projectId',
+  'tags',
+  'blockedBy',
+  'relatedTo',
+];
+
+export const PROJECT_ACTIVITY_FIELDS = ['name', 'summary', 'description', 'tags'];
+
+export const SECTION_ACTIVITY_FIELDS = ['title', 'usageDescription', 'content', 'contentFormat'];
+
+interface ActivityRow {
+  id: string;
+  created_at: string;
+  actor: string;
+  action: string;
+  entity_type: string;
+  entity_id: string;
+  entity_name: string;
+  project_id: string | null;
+  owner_id: string | null;
+  old_status: string | null;
+  new_status: string | null;
+  changes: string;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+/**
+ * Fields whose displayed value differs between two versions of an entity
+ */
+export function diffFields(before: object, after: object, fields: string[]): FieldChange[] {
+  const from = before as Record<string, unknown>;
+  const to = after as Record<string, unknown>;
+  return fields.flatMap((field) => {
+    const previous = formatValue(from[field]);
+    const next = formatValue(to[field]);
+    return previous === next ? [] : [{ field, from: previous, to: next }];
+  });
+}
+
+export function recordActivity(entry: Omit<ActivityEntry, 'id' | 'createdAt'>): void {
+  runAppMigrations();
+  execute(
+    `INSERT INTO activity_log (
+      id, created_at, actor, action, entity_type, entity_id, entity_name,
+      project_id, owner_id, old_status, new_status, changes
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      generateId(),
+      now(),
+      entry.actor,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      entry.entityName,
+      entry.projectId,
+      entry.ownerId,
+      entry.oldStatus,
+      entry.newStatus,
+      JSON.stringify(entry.changes),
+    ]
+  );
+}
+
+/**
+ * Newest first. `entityId` matches the entity itself and anything it owns.
+ */
+export function listActivity(params: ActivityParams = {}): ActivityEntry[] {
+  runAppMigrations();
+
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+  if (params.projectId) {
+    conditions.push('project_id = ?');
+    values.push(params.projectId);
+  }
+  if (params.entityId) {
+    conditions.push('(entity_id = ? OR owner_id = ?)');
+    values.push(params.entityId, params.entityId);
+  }
+  if (params.actor) {
+    conditions.push('actor = ?');
+    values.push(params.actor);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = queryAll<ActivityRow>(
+    `SELECT * FROM activity_log ${where} ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`,
+    [...values, params.limit ?? DEFAULT_ACTIVITY_LIMIT, params.offset ?? 0]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    createdAt: new Date(row.created_at),
+    actor: row.actor,
+    action: row.action as ActivityEntry['action'],
+    entityType: row.entity_type as ActivityEntry['entityType'],
+    entityId: row.entity_id,
+    entityName: row.entity_name,
+    projectId: row.project_id,
+    ownerId: row.owner_id,
+    oldStatus: row.old_status,
+    newStatus: row.new_status,
+    changes: JSON.parse(row.changes) as FieldChange[],
+  }));
+}
@@ -0,0 +1,13 @@
+/**
+ * Actor - the name recorded in the activity log for each write
+ *
+ * Kept apart from the activity log itself so HttpAdapter can name the user
+ * to the server without opening the local database.
+ */
+
+/** Overrides the recorded actor for this process (defaults to $USER) */
+export const ACTOR_ENV = 'TASKS_ACTOR';
+
+export function defaultActor(): string {
+  return process.env[ACTOR_ENV] || process.env.USER || process.env.USERNAME || 'unknown';
+}
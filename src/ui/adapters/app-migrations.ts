@@ -0,0 +1,75 @@
+/**
+ * Schema migrations for the tables this app keeps in the orchestrator database
+ *
+ * The orchestrator versions its own schema in `_migrations`, from SQL files
+ * shipped inside the package. Our tables are versioned separately in
+ * `_app_migrations` so the two histories never collide: each step below runs
+ * once, in order, in the same transaction as its version row.
+ */
+
+import { db, queryAll } from '@allpepper/task-orchestrator/src/repos/base';
+
+interface AppMigration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+const APP_MIGRATIONS: AppMigration[] = [
+  {
+    version: 1,
+    // IF NOT EXISTS adopts logs created before this table was versioned
+    name: 'activity_log',
+    sql: `
+      CREATE TABLE IF NOT EXISTS activity_log (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        entity_name TEXT NOT NULL,
+        project_id TEXT,
+        owner_id TEXT,
+        old_status TEXT,
+        new_status TEXT,
+        changes TEXT NOT NULL DEFAULT '[]'
+      );
+      CREATE INDEX IF NOT EXISTS idx_activity_log_project ON activity_log(project_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_activity_log_entity ON activity_log(entity_id);
+      CREATE INDEX IF NOT EXISTS idx_activity_log_owner ON activity_log(owner_id);
+    `,
+  },
+];
+
+let migrated = false;
+
+/**
+ * Apply the steps this database has not seen yet; later calls in the same
+ * process return straight away
+ */
+export function runAppMigrations(): void {
+  if (migrated) return;
+  db.run(`
+    CREATE TABLE IF NOT EXISTS _app_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  const applied = new Set(
+    queryAll<{ version: number }>('SELECT version FROM _app_migrations').map((row) => row.version)
+  );
+  for (const migration of APP_MIGRATIONS) {
+    if (applied.has(migration.version)) continue;
+    db.transaction(() => {
+      db.run(migration.sql);
+      db.run('INSERT INTO _app_migrations (version, name, applied_at) VALUES (?, ?, ?)', [
+        migration.version,
+        migration.name,
+        new Date().toISOString(),
+      ]);
+    })();
+  }
+  migrated = true;
+}
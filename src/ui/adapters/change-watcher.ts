@@ -0,0 +1,73 @@
+/**
+ * ChangeWatcher - polls an adapter for changes made by other processes
+ *
+ * Agents and other terminals write to the same database, so the watcher asks
+ * `getChanges` for anything newer than its cursor and fans the result out to
+ * subscribers. Polling only runs while someone is subscribed.
+ */
+
+import type { ChangeCursor, DataAdapter, EntityChange } from './types';
+
+export const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+export type ChangeListener = (changes: EntityChange[]) => void;
+
+/**
+ * Whether a change concerns any of the given entity IDs, either directly or
+ * through its owners. Changes without an ID (deletions) match everything.
+ */
+export function changeAffects(change: EntityChange, ids: Array<string | null | undefined>): boolean {
+  if (change.id === null) return true;
+  const wanted = ids.filter((id): id is string => !!id);
+  return wanted.includes(change.id) || change.parentIds.some((id) => wanted.includes(id));
+}
+
+export class ChangeWatcher {
+  private readonly listeners = new Set<ChangeListener>();
+  private cursor: ChangeCursor | undefined;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly adapter: DataAdapter,
+    private readonly intervalMs: number = DEFAULT_POLL_INTERVAL_MS
+  ) {}
+
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    if (!this.timer) {
+      void this.poll();
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  /**
+   * Check for changes once. The first call only records the starting cursor.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const result = await this.adapter.getChanges(this.cursor);
+      if (!result.success) return;
+
+      const isFirstPoll = this.cursor === undefined;
+      this.cursor = result.data.cursor;
+      if (isFirstPoll || result.data.changes.length === 0) return;
+
+      for (const listener of [...this.listeners]) {
+        listener(result.data.changes);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
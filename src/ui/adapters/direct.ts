@@ -17,8 +17,23 @@ import type {
   SearchParams,
   FeatureSearchParams,
   TaskSearchParams,
+  SearchPage,
   WorkflowState,
   TransitionResult,
+  NextTaskStrategy,
+  ChangeCursor,
+  ChangeEntityType,
+  ChangeMark,
+  ChangeSet,
+  EntityChange,
+  EntitySnapshot,
+  ActivityAction,
+  ActivityEntry,
+  ActivityParams,
+  FieldChange,
+  TaggedEntityType,
+  TagCount,
+  TagRename,
 } from './types';
 import type {
   Task,
@@ -27,6 +42,7 @@ import type {
   Section,
   EntityType,
   Priority,
+  ContentFormat,
 } from '@allpepper/task-orchestrator';
 import type {
   SearchResults,
@@ -39,6 +55,7 @@ import * as projects from '@allpepper/task-orchestrator/src/repos/projects';
 import * as features from '@allpepper/task-orchestrator/src/repos/features';
 import * as tasks from '@allpepper/task-orchestrator/src/repos/tasks';
 import * as sections from '@allpepper/task-orchestrator/src/repos/sections';
+import * as tagRepo from '@allpepper/task-orchestrator/src/repos/tags';
 import {
   getAllowedTransitions,
   isValidTransition,
@@ -51,16 +68,401 @@ import {
   getNextState,
   getPrevState,
   getPipelinePosition,
+  isTerminal,
+  isValidState,
   EXIT_STATE,
 } from '@allpepper/task-orchestrator/src/config';
 import { queryAll, queryOne, execute, now } from '@allpepper/task-orchestrator/src/repos/base';
+import { transaction } from '@allpepper/task-orchestrator/src/db/client';
+import { findCycleForNewBlocker, formatCycle } from '../lib/dependency-graph';
+import { rankUnblockImpact } from '../lib/dependency-analysis';
+import { parseSearchQuery, searchEntityTypes, toFeatureSearchParams, toTaskSearchParams } from '../lib/search-query';
+import { defaultActor } from './actor';
+import {
+  diffFields,
+  listActivity,
+  recordActivity,
+  FEATURE_ACTIVITY_FIELDS,
+  PROJECT_ACTIVITY_FIELDS,
+  SECTION_ACTIVITY_FIELDS,
+  TASK_ACTIVITY_FIELDS,
+} from './activity-log';
+
+type LinkColumn = 'blocked_by' | 'related_to';
+
+/** Raw `tasks` columns read for next-task ranking */
+interface TaskRow {
+  id: string;
+  status: string;
+  blocked_by: string;
+  complexity: number;
+}
+
+/**
+ * Manual blocker placed by the orchestrator's block tool (paired with blockedReason)
+ */
+const NO_OP_BLOCKER = 'NO_OP';
+
+/**
+ * SQLite reads LIMIT -1 as "no limit"; used when filtering after the query
+ */
+const NO_LIMIT = -1;
+
+const DEFAULT_SEARCH_PAGE_SIZE = 10;
+
+/**
+ * Apply filters the repo search cannot express (blockers, complexity range),
+ * then page the filtered rows. `rows` must be unpaged.
+ */
+function filterAndPage<T extends Task | Feature>(
+  rows: T[],
+  params: TaskSearchParams
+): T[] {
+  const kept = rows.filter((entity) => {
+    if (params.blocked !== undefined && entity.blockedBy.length > 0 !== params.blocked) return false;
+    if ('complexity' in entity) {
+      if (params.minComplexity !== undefined && entity.complexity < params.minComplexity) return false;
+      if (params.maxComplexity !== undefined && entity.complexity > params.maxComplexity) return false;
+    }
+    return true;
+  });
+  const offset = params.offset ?? 0;
+  return kept.slice(offset, offset + (params.limit ?? 20));
+}
+
+function needsPostFilter(params: TaskSearchParams | undefined): boolean {
+  return params?.blocked !== undefined || params?.minComplexity !== undefined || params?.maxComplexity !== undefined;
+}
+
+/**
+ * Project for a `project:` search filter: an exact (case-insensitive) name
+ * match, else the oldest project whose name contains it
+ */
+function findProjectByName(name: string): string | undefined {
+  const exact = queryOne<{ id: string }>('SELECT id FROM projects WHERE lower(name) = lower(?)', [name]);
+  if (exact) return exact.id;
+  const partial = queryOne<{ id: string }>(
+    'SELECT id FROM projects WHERE lower(name) LIKE ? ORDER BY created_at ASC',
+    [`%${name.toLowerCase()}%`]
+  );
+  return partial?.id;
+}
+
+function getEntity(containerType: 'task' | 'feature', id: string): Result<Task | Feature> {
+  return containerType === 'task' ? tasks.getTask(id) : features.getFeature(id);
+}
+
+/**
+ * Resolve an entity ID that may refer to either a task or a feature
+ */
+function resolveEntity(id: string): { containerType: 'task' | 'feature'; entity: Task | Feature } | null {
+  const task = tasks.getTask(id);
+  if (task.success) return { containerType: 'task', entity: task.data };
+  const feature = features.getFeature(id);
+  if (feature.success) return { containerType: 'feature', entity: feature.data };
+  return null;
+}
+
+function writeLinks(
+  containerType: 'task' | 'feature',
+  id: string,
+  column: LinkColumn,
+  ids: string[],
+  clearBlockedReason = false
+): void {
+  const table = containerType === 'task' ? 'tasks' : 'features';
+  const reasonClause = clearBlockedReason ? ', blocked_reason = NULL' : '';
+  execute(
+    `UPDATE ${table} SET ${column} = ?${reasonClause}, version = version + 1, modified_at = ? WHERE id = ?`,
+    [JSON.stringify(ids), now(), id]
+  );
+}
+
+/**
+ * Pick the NEW candidate that transitively unblocks the most open tasks.
+ * Candidates arrive in priority order, which breaks ties.
+ */
+function pickHighestImpact(candidates: TaskRow[], projectId?: string): TaskRow | undefined {
+  if (candidates.length <= 1) return candidates[0];
+  const scope = projectId ? 'AND project_id = ?' : '';
+  const openRows = queryAll<TaskRow>(
+    `SELECT id, status, blocked_by, complexity FROM tasks
+      WHERE status NOT IN ('CLOSED', 'WILL_NOT_IMPLEMENT') ${scope}`,
+    projectId ? [projectId] : []
+  );
+  const impact = new Map(
+    rankUnblockImpact(
+      openRows.map((row) => ({
+        id: row.id,
+        status: row.status,
+        blockedBy: JSON.parse(row.blocked_by || '[]'),
+        complexity: row.complexity,
+      }))
+    ).map((entry) => [entry.taskId, entry.transitiveCount] as const)
+  );
+
+  return candidates.reduce<TaskRow | undefined>(
+    (best, candidate) => (!best || (impact.get(candidate.id) ?? 0) > (impact.get(best.id) ?? 0) ? candidate : best),
+    undefined
+  );
+}
+
+/**
+ * Tables written back by restoreSnapshot, parents first
+ */
+const SNAPSHOT_TABLES = ['projects', 'features', 'tasks', 'sections', 'entity_tags'] as const;
+
+const SNAPSHOT_ENTITY_TABLES: Record<Exclude<ChangeEntityType, 'section'>, string> = {
+  project: 'projects',
+  feature: 'features',
+  task: 'tasks',
+};
+
+/**
+ * Snapshots may arrive over HTTP; only plain column names are interpolated
+ */
+const SNAPSHOT_COLUMN = /^[a-z_]+$/;
+
+const PRIORITIES = ['HIGH', 'MEDIUM', 'LOW'];
+
+function tableColumns(table: string): Set<string> {
+  return new Set(queryAll<{ name: string }>(`PRAGMA table_info(${table})`).map((column) => column.name));
+}
+
+/**
+ * Column values a snapshot row may hold
+ */
+type SnapshotValue = string | number | null;
+
+function isSnapshotValue(value: unknown): value is SnapshotValue {
+  return value === null || typeof value === 'string' || typeof value === 'number';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Why a snapshot cannot be written back, or null. A snapshot may only hold
+ * the rows getSnapshot would have taken for its entity: the entity itself,
+ * the children a cascading delete removes, and their sections and tags, with
+ * known columns, plain values and valid statuses.
+ */
+function snapshotProblem(snapshot: EntitySnapshot): string | null {
+  if (!isRecord(snapshot) || typeof snapshot.id !== 'string' || !isRecord(snapshot.rows)) {
+    return 'Snapshot must have an id and rows';
+  }
+  const { entityType, id, rows } = snapshot;
+  const ownTable = entityType === 'section' ? 'sections' : SNAPSHOT_ENTITY_TABLES[entityType];
+  if (!ownTable) return `Unknown entity type: ${entityType}`;
+
+  const allowedTables = new Set<string>(
+    entityType === 'section'
+      ? ['sections']
+      : entityType === 'project'
+        ? SNAPSHOT_TABLES
+        : entityType === 'feature'
+          ? ['features', 'tasks', 'sections', 'entity_tags']
+          : ['tasks', 'sections', 'entity_tags']
+  );
+  for (const [table, tableRows] of Object.entries(rows)) {
+    if (!allowedTables.has(table)) return `A ${entityType} snapshot cannot hold ${table} rows`;
+    if (!Array.isArray(tableRows) || !tableRows.every(isRecord)) return `${table} rows must be objects`;
+  }
+
+  const rowsOf = (table: string) => rows[table] ?? [];
+  const featureIds = new Set(rowsOf('features').map((row) => row.id));
+  const entityIds = new Set([...rowsOf('projects'), ...rowsOf('features'), ...rowsOf('tasks')].map((row) => row.id));
+  const belongs: Record<string, (row: Record<string, unknown>) => boolean> = {
+    projects: (row) => row.id === id,
+    features: (row) => (entityType === 'feature' ? row.id === id : row.project_id === id),
+    tasks: (row) =>
+      entityType === 'task'
+        ? row.id === id
+        : entityType === 'feature'
+          ? row.feature_id === id
+          : row.project_id === id || featureIds.has(row.feature_id),
+    sections: (row) => (entityType === 'section' ? row.id === id : entityIds.has(row.entity_id)),
+    entity_tags: (row) => entityIds.has(row.entity_id),
+  };
+
+  for (const table of allowedTables) {
+    const columns = tableColumns(table);
+    for (const row of rowsOf(table)) {
+      if (typeof row.id !== 'string') return `${table} row without an id`;
+      const unknown = Object.keys(row).find((column) => !SNAPSHOT_COLUMN.test(column) || !columns.has(column));
+      if (unknown !== undefined) return `Invalid column in ${table} snapshot: ${unknown}`;
+      const nested = Object.keys(row).find((column) => !isSnapshotValue(row[column]));
+      if (nested !== undefined) return `Invalid value for ${table}.${nested} in snapshot`;
+      if (!belongs[table]!(row)) return `${table} row ${row.id} is not part of ${entityType} ${id}`;
+      if (table === 'features' || table === 'tasks') {
+        const containerType = table === 'features' ? 'feature' : 'task';
+        if (typeof row.status === 'string' && !isValidState(containerType, row.status)) {
+          return `Unknown ${containerType} status in snapshot: ${row.status}`;
+        }
+        if (typeof row.priority === 'string' && !PRIORITIES.includes(row.priority)) {
+          return `Unknown priority in snapshot: ${row.priority}`;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+/**
+ * entity_tags.entity_type for each tagged kind
+ */
+const TAG_ENTITY_TYPES: Record<TaggedEntityType, string> = {
+  project: 'PROJECT',
+  feature: 'FEATURE',
+  task: 'TASK',
+};
+
+function getTaggedEntity(entityType: TaggedEntityType, id: string): Result<Project | Feature | Task> {
+  if (entityType === 'project') return projects.getProject(id);
+  if (entityType === 'feature') return features.getFeature(id);
+  return tasks.getTask(id);
+}
+
+/**
+ * Tables watched for changes, with the columns naming each row's owners
+ */
+const CHANGE_TABLES: Array<{ entityType: ChangeEntityType; table: string; parentColumns: string[] }> = [
+  { entityType: 'project', table: 'projects', parentColumns: [] },
+  { entityType: 'feature', table: 'features', parentColumns: ['project_id'] },
+  { entityType: 'task', table: 'tasks', parentColumns: ['project_id', 'feature_id'] },
+  { entityType: 'section', table: 'sections', parentColumns: ['entity_id'] },
+];
+
+/**
+ * An entity as written to the activity log
+ */
+type ActivitySubject =
+  | { entityType: 'project'; entity: Project }
+  | { entityType: 'feature'; entity: Feature }
+  | { entityType: 'task'; entity: Task }
+  | { entityType: 'section'; entity: Section };
+
+const ACTIVITY_FIELDS: Record<ChangeEntityType, string[]> = {
+  project: PROJECT_ACTIVITY_FIELDS,
+  feature: FEATURE_ACTIVITY_FIELDS,
+  task: TASK_ACTIVITY_FIELDS,
+  section: SECTION_ACTIVITY_FIELDS,
+};
+
+function containerSubject(containerType: 'task' | 'feature', entity: Task | Feature): ActivitySubject {
+  return containerType === 'task'
+    ? { entityType: 'task', entity: entity as Task }
+    : { entityType: 'feature', entity: entity as Feature };
+}
+
+function getSectionById(id: string): Section | null {
+  const owner = queryOne<{ entity_id: string; entity_type: string }>(
+    'SELECT entity_id, entity_type FROM sections WHERE id = ?',
+    [id]
+  );
+  if (!owner) return null;
+  const result = sections.getSections(owner.entity_id, owner.entity_type as EntityType);
+  return result.success ? result.data.find((section) => section.id === id) ?? null : null;
+}
+
+/**
+ * Where a logged row belongs: its project and the entity owning it
+ */
+function activityScope(subject: ActivitySubject): Pick<ActivityEntry, 'entityName' | 'projectId' | 'ownerId'> {
+  switch (subject.entityType) {
+    case 'project':
+      return { entityName: subject.entity.name, projectId: subject.entity.id, ownerId: null };
+    case 'feature':
+      return { entityName: subject.entity.name, projectId: subject.entity.projectId ?? null, ownerId: subject.entity.projectId ?? null };
+    case 'task':
+      return { entityName: subject.entity.title, projectId: subject.entity.projectId ?? null, ownerId: subject.entity.featureId ?? null };
+    case 'section': {
+      const { entityId, entityType } = subject.entity;
+      let projectId: string | null = null;
+      if (entityType === 'PROJECT') {
+        projectId = entityId;
+      } else {
+        const owner = entityType === 'TASK' ? tasks.getTask(entityId) : features.getFeature(entityId);
+        projectId = owner.success ? owner.data.projectId ?? null : null;
+      }
+      return { entityName: subject.entity.title, projectId, ownerId: entityId };
+    }
+  }
+}
+
+export interface DirectAdapterOptions {
+  /** Name recorded in the activity log; defaults to $TASKS_ACTOR, then $USER */
+  actor?: string;
+}
 
 /**
  * DirectAdapter implementation
  *
  * Wraps synchronous repo calls in Promise.resolve() since repos return sync Results.
+ * Successful writes are appended to the activity log.
  */
 export class DirectAdapter implements DataAdapter {
+  private readonly actor: string;
+
+  constructor(options: DirectAdapterOptions = {}) {
+    this.actor = options.actor ?? defaultActor();
+  }
+
+  // ============================================================================
+  // Activity logging
+  // ============================================================================
+
+  private log(
+    action: ActivityAction,
+    subject: ActivitySubject,
+    details: { changes?: FieldChange[]; oldStatus?: string; newStatus?: string; actor?: string } = {}
+  ): void {
+    try {
+      recordActivity({
+        ...activityScope(subject),
+        action,
+        actor: details.actor ?? this.actor,
+        entityType: subject.entityType,
+        entityId: subject.entity.id,
+        oldStatus: details.oldStatus ?? null,
+        newStatus: details.newStatus ?? null,
+        changes: details.changes ?? [],
+      });
+    } catch {
+      // The write itself succeeded; a missing log row must not turn it into a failure
+    }
+  }
+
+  /**
+   * Log the fields that differ between `before` and a successful result
+   */
+  private logEdit<T extends Project | Feature | Task | Section>(
+    entityType: ActivitySubject['entityType'],
+    before: T | null,
+    result: Result<T>,
+    actor?: string
+  ): Result<T> {
+    if (!result.success || !before) return result;
+    const changes = diffFields(before, result.data, ACTIVITY_FIELDS[entityType]);
+    if (changes.length > 0) {
+      this.log('update', { entityType, entity: result.data } as ActivitySubject, { changes, actor });
+    }
+    return result;
+  }
+
+  /**
+   * Log a creation or deletion of `subject` when `result` succeeded
+   */
+  private logWrite<T>(action: 'create' | 'delete', subject: ActivitySubject | null, result: Result<T>): Result<T> {
+    if (result.success && subject) this.log(action, subject);
+    return result;
+  }
+
   // ============================================================================
   // Projects (stateless in v2)
   // ============================================================================
@@ -105,7 +507,10 @@ export class DirectAdapter implements DataAdapter {
     description?: string;
     tags?: string[];
   }): Promise<Result<Project>> {
-    return Promise.resolve(projects.createProject(params));
+    const result = projects.createProject(params);
+    return Promise.resolve(
+      this.logWrite('create', result.success ? { entityType: 'project', entity: result.data } : null, result)
+    );
   }
 
   async updateProject(
@@ -118,11 +523,21 @@ export class DirectAdapter implements DataAdapter {
       version: number;
     }
   ): Promise<Result<Project>> {
-    return Promise.resolve(projects.updateProject(id, params));
+    const before = projects.getProject(id);
+    const result = this.logEdit('project', before.success ? before.data : null, projects.updateProject(id, params));
+
+    // Projects report VERSION_CONFLICT; align with the CONFLICT code used for tasks and features
+    if (!result.success && result.code === 'VERSION_CONFLICT') {
+      return Promise.resolve({ success: false, error: result.error, code: 'CONFLICT' });
+    }
+
+    return Promise.resolve(result);
   }
 
   async deleteProject(id: string, options?: { cascade?: boolean }): Promise<Result<boolean>> {
-    return Promise.resolve(projects.deleteProject(id, options));
+    const before = projects.getProject(id);
+    const subject: ActivitySubject | null = before.success ? { entityType: 'project', entity: before.data } : null;
+    return Promise.resolve(this.logWrite('delete', subject, projects.deleteProject(id, options)));
   }
 
   // ============================================================================
@@ -130,17 +545,18 @@ export class DirectAdapter implements DataAdapter {
   // ============================================================================
 
   async getFeatures(params?: FeatureSearchParams): Promise<Result<Feature[]>> {
-    return Promise.resolve(
-      features.searchFeatures({
-        query: params?.query,
-        status: params?.status,
-        priority: params?.priority,
-        projectId: params?.projectId,
-        tags: params?.tags?.join(','),
-        limit: params?.limit,
-        offset: params?.offset,
-      })
-    );
+    const postFilter = needsPostFilter(params);
+    const result = features.searchFeatures({
+      query: params?.query,
+      status: params?.status,
+      priority: params?.priority,
+      projectId: params?.projectId,
+      tags: params?.tags?.join(','),
+      limit: postFilter ? NO_LIMIT : params?.limit,
+      offset: postFilter ? undefined : params?.offset,
+    });
+    if (!postFilter || !result.success) return result;
+    return { success: true, data: filterAndPage(result.data, params ?? {}) };
   }
 
   async getFeature(id: string): Promise<Result<Feature>> {
@@ -176,7 +592,10 @@ export class DirectAdapter implements DataAdapter {
     priority: Priority;
     tags?: string[];
   }): Promise<Result<Feature>> {
-    return Promise.resolve(features.createFeature(params));
+    const result = features.createFeature(params);
+    return Promise.resolve(
+      this.logWrite('create', result.success ? { entityType: 'feature', entity: result.data } : null, result)
+    );
   }
 
   async updateFeature(
@@ -191,11 +610,16 @@ export class DirectAdapter implements DataAdapter {
       version: number;
     }
   ): Promise<Result<Feature>> {
-    return Promise.resolve(features.updateFeature(id, params));
+    const before = features.getFeature(id);
+    return Promise.resolve(
+      this.logEdit('feature', before.success ? before.data : null, features.updateFeature(id, params))
+    );
   }
 
   async deleteFeature(id: string, options?: { cascade?: boolean }): Promise<Result<boolean>> {
-    return Promise.resolve(features.deleteFeature(id, options));
+    const before = features.getFeature(id);
+    const subject: ActivitySubject | null = before.success ? { entityType: 'feature', entity: before.data } : null;
+    return Promise.resolve(this.logWrite('delete', subject, features.deleteFeature(id, options)));
   }
 
   // ============================================================================
@@ -203,18 +627,19 @@ export class DirectAdapter implements DataAdapter {
   // ============================================================================
 
   async getTasks(params?: TaskSearchParams): Promise<Result<Task[]>> {
-    return Promise.resolve(
-      tasks.searchTasks({
-        query: params?.query,
-        status: params?.status,
-        priority: params?.priority,
-        projectId: params?.projectId,
-        featureId: params?.featureId,
-        tags: params?.tags?.join(','),
-        limit: params?.limit,
-        offset: params?.offset,
-      })
-    );
+    const postFilter = needsPostFilter(params);
+    const result = tasks.searchTasks({
+      query: params?.query,
+      status: params?.status,
+      priority: params?.priority,
+      projectId: params?.projectId,
+      featureId: params?.featureId,
+      tags: params?.tags?.join(','),
+      limit: postFilter ? NO_LIMIT : params?.limit,
+      offset: postFilter ? undefined : params?.offset,
+    });
+    if (!postFilter || !result.success) return result;
+    return { success: true, data: filterAndPage(result.data, params ?? {}) };
   }
 
   async getTask(id: string): Promise<Result<Task>> {
@@ -230,7 +655,10 @@ export class DirectAdapter implements DataAdapter {
     complexity: number;
     tags?: string[];
   }): Promise<Result<Task>> {
-    return Promise.resolve(tasks.createTask(params));
+    const result = tasks.createTask(params);
+    return Promise.resolve(
+      this.logWrite('create', result.success ? { entityType: 'task', entity: result.data } : null, result)
+    );
   }
 
   async updateTask(
@@ -248,11 +676,16 @@ export class DirectAdapter implements DataAdapter {
       version: number;
     }
   ): Promise<Result<Task>> {
-    return Promise.resolve(tasks.updateTask(id, params));
+    const before = tasks.getTask(id);
+    return Promise.resolve(
+      this.logEdit('task', before.success ? before.data : null, tasks.updateTask(id, params), params.lastModifiedBy)
+    );
   }
 
   async deleteTask(id: string): Promise<Result<boolean>> {
-    return Promise.resolve(tasks.deleteTask(id));
+    const before = tasks.getTask(id);
+    const subject: ActivitySubject | null = before.success ? { entityType: 'task', entity: before.data } : null;
+    return Promise.resolve(this.logWrite('delete', subject, tasks.deleteTask(id)));
   }
 
   // ============================================================================
@@ -305,6 +738,11 @@ export class DirectAdapter implements DataAdapter {
         return { success: false, error: updated.error, code: updated.code };
       }
 
+      this.log('advance', containerSubject(containerType, updated.data), {
+        oldStatus: currentStatus,
+        newStatus: nextState,
+      });
+
       return {
         success: true,
         data: {
@@ -362,6 +800,11 @@ export class DirectAdapter implements DataAdapter {
         return { success: false, error: updated.error, code: updated.code };
       }
 
+      this.log('revert', containerSubject(containerType, updated.data), {
+        oldStatus: currentStatus,
+        newStatus: prevState,
+      });
+
       return {
         success: true,
         data: {
@@ -414,6 +857,11 @@ export class DirectAdapter implements DataAdapter {
         return { success: false, error: updated.error, code: updated.code };
       }
 
+      this.log('terminate', containerSubject(containerType, updated.data), {
+        oldStatus: currentStatus,
+        newStatus: EXIT_STATE,
+      });
+
       return {
         success: true,
         data: {
@@ -482,6 +930,63 @@ export class DirectAdapter implements DataAdapter {
     return Promise.resolve(sections.getSections(entityId, entityType));
   }
 
+  async createSection(params: {
+    entityType: EntityType;
+    entityId: string;
+    title: string;
+    usageDescription?: string;
+    content: string;
+    contentFormat?: ContentFormat;
+    ordinal?: number;
+  }): Promise<Result<Section>> {
+    const result = sections.addSection({
+      entityType: params.entityType,
+      entityId: params.entityId,
+      title: params.title,
+      usageDescription: params.usageDescription ?? '',
+      content: params.content,
+      contentFormat: params.contentFormat,
+      ordinal: params.ordinal,
+    });
+    return Promise.resolve(
+      this.logWrite('create', result.success ? { entityType: 'section', entity: result.data } : null, result)
+    );
+  }
+
+  async updateSection(
+    id: string,
+    params: {
+      title?: string;
+      usageDescription?: string;
+      content?: string;
+      contentFormat?: ContentFormat;
+      version: number;
+    }
+  ): Promise<Result<Section>> {
+    const result = this.logEdit('section', getSectionById(id), sections.updateSection(id, params));
+
+    // Sections report VERSION_CONFLICT; align with the CONFLICT code used for entities
+    if (!result.success && result.code === 'VERSION_CONFLICT') {
+      return Promise.resolve({ success: false, error: result.error, code: 'CONFLICT' });
+    }
+
+    return Promise.resolve(result);
+  }
+
+  async reorderSections(
+    entityType: EntityType,
+    entityId: string,
+    orderedIds: string[]
+  ): Promise<Result<boolean>> {
+    return Promise.resolve(sections.reorderSections(entityId, entityType, orderedIds));
+  }
+
+  async deleteSection(id: string): Promise<Result<boolean>> {
+    const before = getSectionById(id);
+    const subject: ActivitySubject | null = before ? { entityType: 'section', entity: before } : null;
+    return Promise.resolve(this.logWrite('delete', subject, sections.deleteSection(id)));
+  }
+
   // ============================================================================
   // Dependencies (field-based in v2)
   // ============================================================================
@@ -517,9 +1022,19 @@ export class DirectAdapter implements DataAdapter {
         }
       }
 
+      // relatedTo: linked tasks (related features are not listed here)
+      const relatedTasks: Task[] = [];
+      for (const relatedId of task.relatedTo) {
+        const relatedResult = tasks.getTask(relatedId);
+        if (relatedResult.success) {
+          relatedTasks.push(relatedResult.data);
+        }
+      }
+
       const dependencyInfo: DependencyInfo = {
         blockedBy: blockedByTasks,
         blocks: blocksTasks,
+        relatedTo: relatedTasks,
       };
 
       return { success: true, data: dependencyInfo };
@@ -531,6 +1046,177 @@ export class DirectAdapter implements DataAdapter {
     }
   }
 
+  async addBlocker(
+    containerType: 'task' | 'feature',
+    id: string,
+    blockerId: string,
+    version: number
+  ): Promise<Result<Task | Feature>> {
+    try {
+      const entity = getEntity(containerType, id);
+      if (!entity.success) {
+        return { success: false, error: entity.error, code: entity.code };
+      }
+
+      if (entity.data.version !== version) {
+        return { success: false, error: `Version conflict: expected ${version}, found ${entity.data.version}`, code: 'CONFLICT' };
+      }
+
+      if (blockerId === id) {
+        return { success: false, error: 'An entity cannot block itself', code: 'VALIDATION_ERROR' };
+      }
+
+      const blocker = resolveEntity(blockerId);
+      if (!blocker) {
+        return { success: false, error: `Entity not found: ${blockerId}`, code: 'NOT_FOUND' };
+      }
+
+      if (isTerminal(blocker.containerType, blocker.entity.status)) {
+        return { success: false, error: `Cannot use blocker: it is in terminal state ${blocker.entity.status}`, code: 'VALIDATION_ERROR' };
+      }
+
+      if (isTerminal(containerType, entity.data.status)) {
+        return { success: false, error: `Cannot block: entity is in terminal state ${entity.data.status}`, code: 'VALIDATION_ERROR' };
+      }
+
+      if (entity.data.blockedBy.includes(blockerId)) {
+        return { success: true, data: entity.data };
+      }
+
+      const cycle = findCycleForNewBlocker(id, blockerId, (nodeId) => resolveEntity(nodeId)?.entity.blockedBy);
+      if (cycle) {
+        const label = (nodeId: string) => {
+          const resolved = resolveEntity(nodeId)?.entity;
+          return resolved ? ('title' in resolved ? resolved.title : resolved.name) : nodeId;
+        };
+        return {
+          success: false,
+          error: `Cannot add blocker: it would create a dependency cycle (${formatCycle(cycle, label)})`,
+          code: 'CYCLE_DETECTED',
+        };
+      }
+
+      writeLinks(containerType, id, 'blocked_by', [...entity.data.blockedBy, blockerId]);
+      return this.logEdit(containerType, entity.data, getEntity(containerType, id));
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async removeBlocker(
+    containerType: 'task' | 'feature',
+    id: string,
+    blockerId: string,
+    version: number
+  ): Promise<Result<Task | Feature>> {
+    try {
+      const entity = getEntity(containerType, id);
+      if (!entity.success) {
+        return { success: false, error: entity.error, code: entity.code };
+      }
+
+      if (entity.data.version !== version) {
+        return { success: false, error: `Version conflict: expected ${version}, found ${entity.data.version}`, code: 'CONFLICT' };
+      }
+
+      if (!entity.data.blockedBy.includes(blockerId)) {
+        return { success: true, data: entity.data };
+      }
+
+      const remaining = entity.data.blockedBy.filter((blocker) => blocker !== blockerId);
+      writeLinks(containerType, id, 'blocked_by', remaining, !remaining.includes(NO_OP_BLOCKER));
+      return this.logEdit(containerType, entity.data, getEntity(containerType, id));
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async addRelated(
+    containerType: 'task' | 'feature',
+    id: string,
+    relatedId: string,
+    version: number
+  ): Promise<Result<Task | Feature>> {
+    try {
+      const entity = getEntity(containerType, id);
+      if (!entity.success) {
+        return { success: false, error: entity.error, code: entity.code };
+      }
+
+      if (entity.data.version !== version) {
+        return { success: false, error: `Version conflict: expected ${version}, found ${entity.data.version}`, code: 'CONFLICT' };
+      }
+
+      if (relatedId === id) {
+        return { success: false, error: 'An entity cannot be related to itself', code: 'VALIDATION_ERROR' };
+      }
+
+      const related = resolveEntity(relatedId);
+      if (!related) {
+        return { success: false, error: `Entity not found: ${relatedId}`, code: 'NOT_FOUND' };
+      }
+
+      transaction(() => {
+        if (!entity.data.relatedTo.includes(relatedId)) {
+          writeLinks(containerType, id, 'related_to', [...entity.data.relatedTo, relatedId]);
+        }
+        if (!related.entity.relatedTo.includes(id)) {
+          writeLinks(related.containerType, relatedId, 'related_to', [...related.entity.relatedTo, id]);
+        }
+      });
+
+      return this.logEdit(containerType, entity.data, getEntity(containerType, id));
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async removeRelated(
+    containerType: 'task' | 'feature',
+    id: string,
+    relatedId: string,
+    version: number
+  ): Promise<Result<Task | Feature>> {
+    try {
+      const entity = getEntity(containerType, id);
+      if (!entity.success) {
+        return { success: false, error: entity.error, code: entity.code };
+      }
+
+      if (entity.data.version !== version) {
+        return { success: false, error: `Version conflict: expected ${version}, found ${entity.data.version}`, code: 'CONFLICT' };
+      }
+
+      // The other side may already be gone; only unlink what still exists
+      const related = resolveEntity(relatedId);
+
+      transaction(() => {
+        if (entity.data.relatedTo.includes(relatedId)) {
+          writeLinks(containerType, id, 'related_to', entity.data.relatedTo.filter((r) => r !== relatedId));
+        }
+        if (related && related.entity.relatedTo.includes(id)) {
+          writeLinks(related.containerType, relatedId, 'related_to', related.entity.relatedTo.filter((r) => r !== id));
+        }
+      });
+
+      return this.logEdit(containerType, entity.data, getEntity(containerType, id));
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   async getBlockedTasks(params?: {
     projectId?: string;
   }): Promise<Result<Task[]>> {
@@ -571,6 +1257,7 @@ export class DirectAdapter implements DataAdapter {
 
   async getNextTask(params?: {
     projectId?: string;
+    strategy?: NextTaskStrategy;
   }): Promise<Result<Task | null>> {
     try {
       const conditions: string[] = ["status = 'NEW'", "blocked_by = '[]'"];
@@ -586,10 +1273,11 @@ export class DirectAdapter implements DataAdapter {
         ORDER BY
           CASE priority WHEN 'HIGH' THEN 1 WHEN 'MEDIUM' THEN 2 WHEN 'LOW' THEN 3 END ASC,
           complexity ASC,
-          created_at ASC
-        LIMIT 1`;
+          created_at ASC`;
 
-      const row = queryOne<any>(sql, values);
+      const row = params?.strategy === 'impact'
+        ? pickHighestImpact(queryAll<TaskRow>(sql, values), params.projectId)
+        : queryOne<TaskRow>(`${sql} LIMIT 1`, values);
 
       if (!row) {
         return { success: true, data: null };
@@ -613,22 +1301,45 @@ export class DirectAdapter implements DataAdapter {
   // Search
   // ============================================================================
 
-  async search(query: string): Promise<Result<SearchResults>> {
+  async search(query: string, page: SearchPage = {}): Promise<Result<SearchResults>> {
     try {
-      const projectsResult = projects.searchProjects({ query, limit: 10 });
-      const featuresResult = features.searchFeatures({ query, limit: 10 });
-      const tasksResult = tasks.searchTasks({ query, limit: 10 });
+      const parsed = parseSearchQuery(query);
+      if (parsed.errors.length > 0) {
+        return { success: false, error: parsed.errors.join('; '), code: 'VALIDATION_ERROR' };
+      }
 
+      const projectId = parsed.project ? findProjectByName(parsed.project) : undefined;
+      // A project filter naming no project matches nothing
+      const types = parsed.project && !projectId ? [] : searchEntityTypes(parsed);
+
+      // One extra row per type tells whether another page exists
+      const limit = page.limit ?? DEFAULT_SEARCH_PAGE_SIZE;
+      const window = { limit: limit + 1, offset: page.offset ?? 0 };
+      const none = { success: true as const, data: [] };
+      const projectsResult = types.includes('project')
+        ? await this.getProjects({ query: parsed.text || undefined, tags: toFeatureSearchParams(parsed).tags, ...window })
+        : none;
+      const featuresResult = types.includes('feature')
+        ? await this.getFeatures({ ...toFeatureSearchParams(parsed, projectId), ...window })
+        : none;
+      const tasksResult = types.includes('task')
+        ? await this.getTasks({ ...toTaskSearchParams(parsed, projectId), ...window })
+        : none;
+
+      const hasMore = [projectsResult, featuresResult, tasksResult].some(
+        (result) => result.success && result.data.length > limit
+      );
       const results: SearchResults = {
+        hasMore,
         projects: projectsResult.success
-          ? projectsResult.data.map((p) => ({
+          ? projectsResult.data.slice(0, limit).map((p) => ({
               id: p.id,
               name: p.name,
               summary: p.summary,
             }))
           : [],
         features: featuresResult.success
-          ? featuresResult.data.map((f) => ({
+          ? featuresResult.data.slice(0, limit).map((f) => ({
               id: f.id,
               name: f.name,
               summary: f.summary,
@@ -636,7 +1347,7 @@ export class DirectAdapter implements DataAdapter {
             }))
           : [],
         tasks: tasksResult.success
-          ? tasksResult.data.map((t) => ({
+          ? tasksResult.data.slice(0, limit).map((t) => ({
               id: t.id,
               title: t.title,
               summary: t.summary,
@@ -654,4 +1365,297 @@ export class DirectAdapter implements DataAdapter {
       });
     }
   }
+
+  // ============================================================================
+  // Tags
+  // ============================================================================
+
+  async getTags(params?: { entityType?: TaggedEntityType }): Promise<Result<TagCount[]>> {
+    return Promise.resolve(
+      tagRepo.listTags({ entityType: params?.entityType ? TAG_ENTITY_TYPES[params.entityType] : undefined })
+    );
+  }
+
+  async renameTag(from: string, to: string): Promise<Result<TagRename>> {
+    const usage = tagRepo.getTagUsage(from);
+    if (!usage.success) return usage;
+
+    const befores = usage.data.flatMap(({ entityType, entityId }) => {
+      const type = (Object.keys(TAG_ENTITY_TYPES) as TaggedEntityType[]).find(
+        (candidate) => TAG_ENTITY_TYPES[candidate] === entityType
+      );
+      const entity = type ? getTaggedEntity(type, entityId) : null;
+      return type && entity?.success ? [{ type, entity: entity.data }] : [];
+    });
+
+    // The repository only rewrites entity_tags; bump versions so stale edits
+    // conflict and other terminals pick the change up
+    const renamed = transaction(() => {
+      const result = tagRepo.renameTag(from, to);
+      if (result.success) {
+        for (const { type, entity } of befores) {
+          execute(`UPDATE ${SNAPSHOT_ENTITY_TABLES[type]} SET version = version + 1, modified_at = ? WHERE id = ?`, [
+            now(),
+            entity.id,
+          ]);
+        }
+      }
+      return result;
+    });
+    if (!renamed.success) return renamed;
+
+    for (const { type, entity } of befores) {
+      this.logEdit(type, entity, getTaggedEntity(type, entity.id));
+    }
+
+    return {
+      success: true,
+      data: {
+        from: from.trim().toLowerCase(),
+        to: to.trim().toLowerCase(),
+        entities: befores.map(({ type, entity }) => ({ entityType: type, id: entity.id, tags: entity.tags ?? [] })),
+      },
+    };
+  }
+
+  // ============================================================================
+  // Change detection
+  // ============================================================================
+
+  async getChanges(since?: ChangeCursor): Promise<Result<ChangeSet>> {
+    try {
+      const cursor: ChangeCursor = {};
+      const changes: EntityChange[] = [];
+
+      for (const { entityType, table, parentColumns } of CHANGE_TABLES) {
+        const mark = queryOne<ChangeMark>(
+          `SELECT COUNT(*) AS count, COALESCE(SUM(version), 0) AS versionSum, COALESCE(MAX(modified_at), '') AS modifiedAt FROM ${table}`,
+          []
+        ) ?? { count: 0, versionSum: 0, modifiedAt: '' };
+        cursor[entityType] = mark;
+
+        const previous = since?.[entityType];
+        if (
+          !previous ||
+          (previous.count === mark.count &&
+            previous.versionSum === mark.versionSum &&
+            previous.modifiedAt === mark.modifiedAt)
+        ) {
+          continue;
+        }
+
+        const columns = ['id', ...parentColumns].join(', ');
+        const rows = queryAll<Record<string, string | null>>(
+          `SELECT ${columns} FROM ${table} WHERE modified_at > ?`,
+          [previous.modifiedAt]
+        );
+        for (const row of rows) {
+          changes.push({
+            entityType,
+            id: row.id!,
+            parentIds: parentColumns.map((column) => row[column]).filter((id): id is string => !!id),
+          });
+        }
+
+        // Deletions (and writes sharing the previous timestamp) leave no newer rows behind
+        if (rows.length === 0 || mark.count < previous.count) {
+          changes.push({ entityType, id: null, parentIds: [] });
+        }
+      }
+
+      return { success: true, data: { cursor, changes } };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // ============================================================================
+  // History (undo/redo)
+  // ============================================================================
+
+  async restoreStatus(
+    containerType: 'task' | 'feature',
+    id: string,
+    status: string,
+    version: number
+  ): Promise<Result<TransitionResult>> {
+    try {
+      const entity = getEntity(containerType, id);
+      if (!entity.success) {
+        return { success: false, error: entity.error, code: entity.code };
+      }
+
+      if (entity.data.version !== version) {
+        return { success: false, error: `Version conflict: expected ${version}, found ${entity.data.version}`, code: 'CONFLICT' };
+      }
+
+      if (!isValidState(containerType, status)) {
+        return { success: false, error: `Unknown ${containerType} status: ${status}`, code: 'VALIDATION_ERROR' };
+      }
+
+      const table = containerType === 'task' ? 'tasks' : 'features';
+      execute(
+        `UPDATE ${table} SET status = ?, version = version + 1, modified_at = ? WHERE id = ?`,
+        [status, now(), id]
+      );
+
+      const updated = getEntity(containerType, id);
+      if (!updated.success) {
+        return { success: false, error: updated.error, code: updated.code };
+      }
+
+      this.log('restore', containerSubject(containerType, updated.data), {
+        oldStatus: entity.data.status,
+        newStatus: status,
+      });
+
+      return {
+        success: true,
+        data: {
+          entity: updated.data,
+          oldStatus: entity.data.status,
+          newStatus: status,
+          pipelinePosition: getPipelinePosition(containerType, status),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async getSnapshot(entityType: ChangeEntityType, id: string): Promise<Result<EntitySnapshot>> {
+    try {
+      if (entityType === 'section') {
+        const sectionRows = queryAll<Record<string, unknown>>('SELECT * FROM sections WHERE id = ?', [id]);
+        if (sectionRows.length === 0) {
+          return { success: false, error: `Section not found: ${id}`, code: 'NOT_FOUND' };
+        }
+        return { success: true, data: { entityType, id, rows: { sections: sectionRows } } };
+      }
+
+      const table = SNAPSHOT_ENTITY_TABLES[entityType];
+      if (!table) {
+        return { success: false, error: `Unknown entity type: ${entityType}`, code: 'VALIDATION_ERROR' };
+      }
+
+      const ownRows = queryAll<Record<string, unknown>>(`SELECT * FROM ${table} WHERE id = ?`, [id]);
+      if (ownRows.length === 0) {
+        return { success: false, error: `${entityType} not found: ${id}`, code: 'NOT_FOUND' };
+      }
+
+      const rows: EntitySnapshot['rows'] = { [table]: ownRows };
+
+      // Children removed by a cascading delete
+      if (entityType === 'project') {
+        rows.features = queryAll('SELECT * FROM features WHERE project_id = ?', [id]);
+        const featureIds = rows.features.map((row) => row.id);
+        rows.tasks = queryAll(
+          `SELECT * FROM tasks WHERE project_id = ?${featureIds.length > 0 ? ` OR feature_id IN (${placeholders(featureIds)})` : ''}`,
+          [id, ...featureIds]
+        );
+      } else if (entityType === 'feature') {
+        rows.tasks = queryAll('SELECT * FROM tasks WHERE feature_id = ?', [id]);
+      }
+
+      const entityIds = [...(rows.projects ?? []), ...(rows.features ?? []), ...(rows.tasks ?? [])].map((row) => row.id);
+      rows.sections = queryAll(`SELECT * FROM sections WHERE entity_id IN (${placeholders(entityIds)})`, entityIds);
+      rows.entity_tags = queryAll(`SELECT * FROM entity_tags WHERE entity_id IN (${placeholders(entityIds)})`, entityIds);
+
+      return { success: true, data: { entityType, id, rows } };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async restoreSnapshot(snapshot: EntitySnapshot): Promise<Result<boolean>> {
+    try {
+      const problem = snapshotProblem(snapshot);
+      if (problem) {
+        return { success: false, error: problem, code: 'VALIDATION_ERROR' };
+      }
+
+      const timestamp = now();
+
+      transaction(() => {
+        for (const table of SNAPSHOT_TABLES) {
+          for (const row of snapshot.rows[table] ?? []) {
+            const columns = Object.keys(row);
+            // snapshotProblem has checked every value
+            const values = { ...row } as Record<string, SnapshotValue>;
+            if ('version' in values) {
+              // Rows that still exist move forward so open editors see a conflict, not a silent rollback
+              const existing = queryOne<{ version: number }>(`SELECT version FROM ${table} WHERE id = ?`, [row.id]);
+              if (existing) values.version = existing.version + 1;
+              values.modified_at = timestamp;
+            }
+
+            if (table === 'sections') {
+              const clash = queryOne<{ id: string }>(
+                'SELECT id FROM sections WHERE entity_type = ? AND entity_id = ? AND ordinal = ? AND id != ?',
+                [row.entity_type, row.entity_id, row.ordinal, row.id]
+              );
+              if (clash) {
+                values.ordinal = queryOne<{ next: number }>(
+                  'SELECT COALESCE(MAX(ordinal), -1) + 1 AS next FROM sections WHERE entity_type = ? AND entity_id = ?',
+                  [row.entity_type, row.entity_id]
+                )?.next ?? 0;
+              }
+            }
+
+            execute(
+              `INSERT OR REPLACE INTO ${table} (${columns.join(', ')}) VALUES (${placeholders(columns)})`,
+              columns.map((column) => values[column] ?? null)
+            );
+          }
+        }
+      });
+
+      this.logRestored(snapshot);
+      return { success: true, data: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private logRestored(snapshot: EntitySnapshot): void {
+    let subject: ActivitySubject | null = null;
+    if (snapshot.entityType === 'section') {
+      const section = getSectionById(snapshot.id);
+      if (section) subject = { entityType: 'section', entity: section };
+    } else if (snapshot.entityType === 'project') {
+      const project = projects.getProject(snapshot.id);
+      if (project.success) subject = { entityType: 'project', entity: project.data };
+    } else {
+      const entity = getEntity(snapshot.entityType, snapshot.id);
+      if (entity.success) subject = containerSubject(snapshot.entityType, entity.data);
+    }
+    if (subject) this.log('restore', subject);
+  }
+
+  // ============================================================================
+  // Activity log
+  // ============================================================================
+
+  async getActivity(params?: ActivityParams): Promise<Result<ActivityEntry[]>> {
+    try {
+      return { success: true, data: listActivity(params) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
 }
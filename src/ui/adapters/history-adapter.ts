@@ -0,0 +1,634 @@
+/**
+ * HistoryAdapter - records mutations for undo/redo
+ *
+ * Wraps another DataAdapter and forwards every call. Successful writes are
+ * recorded in an UndoHistory together with their inverse:
+ *
+ * - create ↔ delete (the deleted entity is snapshotted so redo re-creates it)
+ * - update ↔ update with the previous values of the changed fields
+ * - advance/revert/terminate ↔ restoreStatus to the previous status
+ * - delete ↔ restoreSnapshot of the entity, its children, sections and tags
+ *
+ * Inverses call the wrapped adapter directly so undoing never records a new
+ * entry. Before writing they check that the entity still holds what the
+ * recorded write left (its versions alone cannot tell, as the user's own later
+ * edits bump them too); a change made since fails with CONFLICT, which drops
+ * the entry instead of overwriting that change.
+ */
+
+import type { Task, Feature, Project, Section, EntityType, Priority, ContentFormat } from '@allpepper/task-orchestrator';
+import type {
+  DataAdapter,
+  Result,
+  SearchParams,
+  FeatureSearchParams,
+  TaskSearchParams,
+  SearchPage,
+  WorkflowState,
+  TransitionResult,
+  NextTaskStrategy,
+  ChangeCursor,
+  ChangeSet,
+  ChangeEntityType,
+  EntitySnapshot,
+  ActivityEntry,
+  ActivityParams,
+  TaggedEntityType,
+  TagCount,
+  TagRename,
+} from './types';
+import type { SearchResults, DependencyInfo, ProjectOverview, FeatureOverview } from '../lib/types';
+import type { UndoHistory } from './undo-history';
+
+type EditableType = 'project' | 'feature' | 'task';
+
+type ContainerType = 'task' | 'feature';
+
+type TransitionAction = 'advance' | 'revert' | 'terminate';
+
+type EditParams = Record<string, unknown> & { version: number };
+
+const TRANSITION_LABELS: Record<TransitionAction, string> = {
+  advance: 'Advance',
+  revert: 'Revert',
+  terminate: 'Terminate',
+};
+
+/** Bookkeeping fields that are never written back on undo */
+const UNTRACKED_FIELDS = new Set(['version', 'lastModifiedBy']);
+
+function entityLabel(entity: Task | Feature | Project): string {
+  return 'title' in entity ? entity.title : entity.name;
+}
+
+/** Comparable form of a field value; tag order and unset values do not count */
+function comparable(value: unknown): string {
+  if (value === undefined || value === null) return 'null';
+  if (Array.isArray(value)) return JSON.stringify([...value].sort());
+  if (value instanceof Date) return value.toISOString();
+  return JSON.stringify(value);
+}
+
+/**
+ * First field whose stored value differs from the expected one, if any
+ */
+function changedField(entity: object, expected: Record<string, unknown>): string | undefined {
+  const stored = entity as Record<string, unknown>;
+  return Object.keys(expected).find((key) => comparable(stored[key]) !== comparable(expected[key]));
+}
+
+function changedSince(what: string): { success: false; error: string; code: string } {
+  return { success: false, error: `${what} changed since`, code: 'CONFLICT' };
+}
+
+function snapshotLabel(snapshot: EntitySnapshot): string {
+  const row = Object.values(snapshot.rows)
+    .flat()
+    .find((candidate) => candidate.id === snapshot.id);
+  return String(row?.title ?? row?.name ?? snapshot.id);
+}
+
+export class HistoryAdapter implements DataAdapter {
+  constructor(
+    private readonly inner: DataAdapter,
+    readonly history: UndoHistory
+  ) {}
+
+  // ============================================================================
+  // Recording helpers
+  // ============================================================================
+
+  private fetchEditable(type: EditableType, id: string): Promise<Result<Task | Feature | Project>> {
+    if (type === 'project') return this.inner.getProject(id);
+    if (type === 'feature') return this.inner.getFeature(id);
+    return this.inner.getTask(id);
+  }
+
+  private saveEditable(type: EditableType, id: string, params: EditParams): Promise<Result<Task | Feature | Project>> {
+    if (type === 'project') return this.inner.updateProject(id, params as Parameters<DataAdapter['updateProject']>[1]);
+    if (type === 'feature') return this.inner.updateFeature(id, params as Parameters<DataAdapter['updateFeature']>[1]);
+    return this.inner.updateTask(id, params as Parameters<DataAdapter['updateTask']>[1]);
+  }
+
+  private remove(type: ChangeEntityType, id: string): Promise<Result<boolean>> {
+    if (type === 'project') return this.inner.deleteProject(id, { cascade: true });
+    if (type === 'feature') return this.inner.deleteFeature(id, { cascade: true });
+    if (type === 'task') return this.inner.deleteTask(id);
+    return this.inner.deleteSection(id);
+  }
+
+  /**
+   * Run `fn` with the entity's current version, or fail with CONFLICT when
+   * `check` names something that changed since the recorded write
+   */
+  private async withVersion<T, E extends Task | Feature | Project>(
+    type: EditableType,
+    id: string,
+    check: (entity: E) => string | undefined,
+    fn: (version: number) => Promise<Result<T>>
+  ): Promise<Result<T>> {
+    const current = await this.fetchEditable(type, id);
+    if (!current.success) return current;
+    const changed = check(current.data as E);
+    return changed ? changedSince(changed) : fn(current.data.version);
+  }
+
+  private async recordUpdate<T extends Task | Feature | Project>(
+    type: EditableType,
+    id: string,
+    params: EditParams,
+    run: () => Promise<Result<T>>
+  ): Promise<Result<T>> {
+    const before = await this.fetchEditable(type, id);
+    const result = await run();
+    if (!result.success || !before.success) return result;
+
+    const keys = Object.keys(params).filter((key) => !UNTRACKED_FIELDS.has(key) && params[key] !== undefined);
+    if (keys.length === 0) return result;
+
+    // Unset values go back as null so the repository clears them
+    const fieldsOf = (entity: object) => {
+      const stored = entity as Record<string, unknown>;
+      return Object.fromEntries(keys.map((key) => [key, stored[key] ?? null]));
+    };
+    const previous = fieldsOf(before.data);
+    const after = fieldsOf(result.data);
+    const next = Object.fromEntries(keys.map((key) => [key, params[key]]));
+    const apply = (expected: Record<string, unknown>, values: Record<string, unknown>) =>
+      this.withVersion(
+        type,
+        id,
+        (entity) => {
+          const field = changedField(entity, expected);
+          return field && `"${field}"`;
+        },
+        (version) => this.saveEditable(type, id, { ...values, version })
+      );
+
+    this.history.record({
+      label: `Edit ${type} "${entityLabel(result.data)}"`,
+      undo: () => apply(after, previous),
+      redo: () => apply(previous, next),
+    });
+    return result;
+  }
+
+  private recordCreate(type: ChangeEntityType, id: string, label: string): void {
+    let snapshot: EntitySnapshot | null = null;
+
+    this.history.record({
+      label: `Create ${type} "${label}"`,
+      undo: async () => {
+        // Capture on undo so redo brings back any edits made after creation
+        const captured = await this.inner.getSnapshot(type, id);
+        if (!captured.success) return captured;
+        snapshot = captured.data;
+        return this.remove(type, id);
+      },
+      redo: () =>
+        snapshot
+          ? this.inner.restoreSnapshot(snapshot)
+          : Promise.resolve({ success: false, error: 'Nothing to restore', code: 'NOT_FOUND' }),
+    });
+  }
+
+  private async recordDelete(
+    type: ChangeEntityType,
+    id: string,
+    run: () => Promise<Result<boolean>>
+  ): Promise<Result<boolean>> {
+    const snapshot = await this.inner.getSnapshot(type, id);
+    const result = await run();
+    if (!result.success || !snapshot.success) return result;
+
+    this.history.record({
+      label: `Delete ${type} "${snapshotLabel(snapshot.data)}"`,
+      undo: () => this.inner.restoreSnapshot(snapshot.data),
+      redo: run,
+    });
+    return result;
+  }
+
+  private async setStatus(
+    containerType: ContainerType,
+    id: string,
+    expected: string,
+    status: string
+  ): Promise<Result<TransitionResult>> {
+    const current = await this.fetchEditable(containerType, id);
+    if (!current.success) return current;
+
+    const { status: actual, version } = current.data as Task | Feature;
+    if (actual !== expected) {
+      return { success: false, error: `status is now ${actual}`, code: 'CONFLICT' };
+    }
+    return this.inner.restoreStatus(containerType, id, status, version);
+  }
+
+  private async recordTransition(
+    action: TransitionAction,
+    containerType: ContainerType,
+    id: string,
+    version: number
+  ): Promise<Result<TransitionResult>> {
+    const result = await this.inner[action](containerType, id, version);
+    if (!result.success) return result;
+
+    const { oldStatus, newStatus, entity } = result.data;
+    this.history.record({
+      label: `${TRANSITION_LABELS[action]} ${containerType} "${entityLabel(entity)}"`,
+      undo: () => this.setStatus(containerType, id, newStatus, oldStatus),
+      redo: () => this.setStatus(containerType, id, oldStatus, newStatus),
+    });
+    return result;
+  }
+
+  /**
+   * @param linked Whether the entity is as `apply` leaves it (e.g. the blocker is present)
+   */
+  private async recordLink(
+    label: string,
+    containerType: ContainerType,
+    id: string,
+    apply: (version: number) => Promise<Result<Task | Feature>>,
+    reverse: (version: number) => Promise<Result<Task | Feature>>,
+    linked: (entity: Task | Feature) => boolean,
+    version: number
+  ): Promise<Result<Task | Feature>> {
+    const result = await apply(version);
+    if (!result.success) return result;
+
+    const links = (entity: Task | Feature, expected: boolean) => (linked(entity) === expected ? undefined : 'the link');
+    this.history.record({
+      label: `${label} "${entityLabel(result.data)}"`,
+      undo: () => this.withVersion(containerType, id, (entity: Task | Feature) => links(entity, true), reverse),
+      redo: () => this.withVersion(containerType, id, (entity: Task | Feature) => links(entity, false), apply),
+    });
+    return result;
+  }
+
+  // ============================================================================
+  // Projects
+  // ============================================================================
+
+  getProjects(params?: SearchParams): Promise<Result<Project[]>> {
+    return this.inner.getProjects(params);
+  }
+
+  getProject(id: string): Promise<Result<Project>> {
+    return this.inner.getProject(id);
+  }
+
+  getProjectOverview(id: string): Promise<Result<ProjectOverview>> {
+    return this.inner.getProjectOverview(id);
+  }
+
+  async createProject(params: {
+    name: string;
+    summary: string;
+    description?: string;
+    tags?: string[];
+  }): Promise<Result<Project>> {
+    const result = await this.inner.createProject(params);
+    if (result.success) this.recordCreate('project', result.data.id, result.data.name);
+    return result;
+  }
+
+  updateProject(
+    id: string,
+    params: {
+      name?: string;
+      summary?: string;
+      description?: string;
+      tags?: string[];
+      version: number;
+    }
+  ): Promise<Result<Project>> {
+    return this.recordUpdate('project', id, params, () => this.inner.updateProject(id, params));
+  }
+
+  deleteProject(id: string, options?: { cascade?: boolean }): Promise<Result<boolean>> {
+    return this.recordDelete('project', id, () => this.inner.deleteProject(id, options));
+  }
+
+  // ============================================================================
+  // Features
+  // ============================================================================
+
+  getFeatures(params?: FeatureSearchParams): Promise<Result<Feature[]>> {
+    return this.inner.getFeatures(params);
+  }
+
+  getFeature(id: string): Promise<Result<Feature>> {
+    return this.inner.getFeature(id);
+  }
+
+  getFeatureOverview(id: string): Promise<Result<FeatureOverview>> {
+    return this.inner.getFeatureOverview(id);
+  }
+
+  async createFeature(params: {
+    projectId?: string;
+    name: string;
+    summary: string;
+    description?: string;
+    priority: Priority;
+    tags?: string[];
+  }): Promise<Result<Feature>> {
+    const result = await this.inner.createFeature(params);
+    if (result.success) this.recordCreate('feature', result.data.id, result.data.name);
+    return result;
+  }
+
+  updateFeature(
+    id: string,
+    params: {
+      name?: string;
+      summary?: string;
+      description?: string;
+      priority?: Priority;
+      projectId?: string;
+      tags?: string[];
+      version: number;
+    }
+  ): Promise<Result<Feature>> {
+    return this.recordUpdate('feature', id, params, () => this.inner.updateFeature(id, params));
+  }
+
+  deleteFeature(id: string, options?: { cascade?: boolean }): Promise<Result<boolean>> {
+    return this.recordDelete('feature', id, () => this.inner.deleteFeature(id, options));
+  }
+
+  // ============================================================================
+  // Tasks
+  // ============================================================================
+
+  getTasks(params?: TaskSearchParams): Promise<Result<Task[]>> {
+    return this.inner.getTasks(params);
+  }
+
+  getTask(id: string): Promise<Result<Task>> {
+    return this.inner.getTask(id);
+  }
+
+  async createTask(params: {
+    featureId?: string;
+    title: string;
+    summary: string;
+    description?: string;
+    priority: Priority;
+    complexity: number;
+    tags?: string[];
+  }): Promise<Result<Task>> {
+    const result = await this.inner.createTask(params);
+    if (result.success) this.recordCreate('task', result.data.id, result.data.title);
+    return result;
+  }
+
+  updateTask(
+    id: string,
+    params: {
+      title?: string;
+      summary?: string;
+      description?: string;
+      priority?: Priority;
+      complexity?: number;
+      projectId?: string;
+      featureId?: string;
+      lastModifiedBy?: string;
+      tags?: string[];
+      version: number;
+    }
+  ): Promise<Result<Task>> {
+    return this.recordUpdate('task', id, params, () => this.inner.updateTask(id, params));
+  }
+
+  deleteTask(id: string): Promise<Result<boolean>> {
+    return this.recordDelete('task', id, () => this.inner.deleteTask(id));
+  }
+
+  // ============================================================================
+  // Pipeline Operations
+  // ============================================================================
+
+  advance(containerType: ContainerType, id: string, version: number): Promise<Result<TransitionResult>> {
+    return this.recordTransition('advance', containerType, id, version);
+  }
+
+  revert(containerType: ContainerType, id: string, version: number): Promise<Result<TransitionResult>> {
+    return this.recordTransition('revert', containerType, id, version);
+  }
+
+  terminate(containerType: ContainerType, id: string, version: number): Promise<Result<TransitionResult>> {
+    return this.recordTransition('terminate', containerType, id, version);
+  }
+
+  getWorkflowState(containerType: ContainerType, id: string): Promise<Result<WorkflowState>> {
+    return this.inner.getWorkflowState(containerType, id);
+  }
+
+  getAllowedTransitions(containerType: string, status: string): Promise<Result<string[]>> {
+    return this.inner.getAllowedTransitions(containerType, status);
+  }
+
+  // ============================================================================
+  // Sections
+  // ============================================================================
+
+  getSections(entityType: EntityType, entityId: string): Promise<Result<Section[]>> {
+    return this.inner.getSections(entityType, entityId);
+  }
+
+  async createSection(params: {
+    entityType: EntityType;
+    entityId: string;
+    title: string;
+    usageDescription?: string;
+    content: string;
+    contentFormat?: ContentFormat;
+    ordinal?: number;
+  }): Promise<Result<Section>> {
+    const result = await this.inner.createSection(params);
+    if (result.success) this.recordCreate('section', result.data.id, result.data.title);
+    return result;
+  }
+
+  async updateSection(
+    id: string,
+    params: {
+      title?: string;
+      usageDescription?: string;
+      content?: string;
+      contentFormat?: ContentFormat;
+      version: number;
+    }
+  ): Promise<Result<Section>> {
+    const before = await this.inner.getSnapshot('section', id);
+    const result = await this.inner.updateSection(id, params);
+    if (!result.success || !before.success) return result;
+
+    const after = await this.inner.getSnapshot('section', id);
+    if (after.success) {
+      this.history.record({
+        label: `Edit section "${result.data.title}"`,
+        undo: () => this.inner.restoreSnapshot(before.data),
+        redo: () => this.inner.restoreSnapshot(after.data),
+      });
+    }
+    return result;
+  }
+
+  async reorderSections(entityType: EntityType, entityId: string, orderedIds: string[]): Promise<Result<boolean>> {
+    const before = await this.inner.getSections(entityType, entityId);
+    const result = await this.inner.reorderSections(entityType, entityId, orderedIds);
+    if (!result.success || !before.success) return result;
+
+    const previousIds = before.data.map((section) => section.id);
+    this.history.record({
+      label: 'Reorder sections',
+      undo: () => this.inner.reorderSections(entityType, entityId, previousIds),
+      redo: () => this.inner.reorderSections(entityType, entityId, orderedIds),
+    });
+    return result;
+  }
+
+  deleteSection(id: string): Promise<Result<boolean>> {
+    return this.recordDelete('section', id, () => this.inner.deleteSection(id));
+  }
+
+  // ============================================================================
+  // Dependencies
+  // ============================================================================
+
+  getDependencies(taskId: string): Promise<Result<DependencyInfo>> {
+    return this.inner.getDependencies(taskId);
+  }
+
+  addBlocker(containerType: ContainerType, id: string, blockerId: string, version: number): Promise<Result<Task | Feature>> {
+    return this.recordLink(
+      `Add blocker to ${containerType}`,
+      containerType,
+      id,
+      (current) => this.inner.addBlocker(containerType, id, blockerId, current),
+      (current) => this.inner.removeBlocker(containerType, id, blockerId, current),
+      (entity) => entity.blockedBy.includes(blockerId),
+      version
+    );
+  }
+
+  removeBlocker(containerType: ContainerType, id: string, blockerId: string, version: number): Promise<Result<Task | Feature>> {
+    return this.recordLink(
+      `Remove blocker from ${containerType}`,
+      containerType,
+      id,
+      (current) => this.inner.removeBlocker(containerType, id, blockerId, current),
+      (current) => this.inner.addBlocker(containerType, id, blockerId, current),
+      (entity) => !entity.blockedBy.includes(blockerId),
+      version
+    );
+  }
+
+  addRelated(containerType: ContainerType, id: string, relatedId: string, version: number): Promise<Result<Task | Feature>> {
+    return this.recordLink(
+      `Relate ${containerType}`,
+      containerType,
+      id,
+      (current) => this.inner.addRelated(containerType, id, relatedId, current),
+      (current) => this.inner.removeRelated(containerType, id, relatedId, current),
+      (entity) => entity.relatedTo.includes(relatedId),
+      version
+    );
+  }
+
+  removeRelated(containerType: ContainerType, id: string, relatedId: string, version: number): Promise<Result<Task | Feature>> {
+    return this.recordLink(
+      `Unrelate ${containerType}`,
+      containerType,
+      id,
+      (current) => this.inner.removeRelated(containerType, id, relatedId, current),
+      (current) => this.inner.addRelated(containerType, id, relatedId, current),
+      (entity) => !entity.relatedTo.includes(relatedId),
+      version
+    );
+  }
+
+  getBlockedTasks(params?: { projectId?: string }): Promise<Result<Task[]>> {
+    return this.inner.getBlockedTasks(params);
+  }
+
+  getNextTask(params?: { projectId?: string; strategy?: NextTaskStrategy }): Promise<Result<Task | null>> {
+    return this.inner.getNextTask(params);
+  }
+
+  // ============================================================================
+  // Search, change detection and activity
+  // ============================================================================
+
+  search(query: string, page?: SearchPage): Promise<Result<SearchResults>> {
+    return this.inner.search(query, page);
+  }
+
+  // ============================================================================
+  // Tags
+  // ============================================================================
+
+  getTags(params?: { entityType?: TaggedEntityType }): Promise<Result<TagCount[]>> {
+    return this.inner.getTags(params);
+  }
+
+  /**
+   * Undo swaps the new tag back for the old one on each renamed entity, which
+   * also splits a merge; tags added or removed since are kept
+   */
+  async renameTag(from: string, to: string): Promise<Result<TagRename>> {
+    const result = await this.inner.renameTag(from, to);
+    if (!result.success || result.data.entities.length === 0) return result;
+
+    const { entities } = result.data;
+    const renamed = result.data.to;
+    this.history.record({
+      label: `Rename tag "${result.data.from}" to "${renamed}"`,
+      undo: async () => {
+        for (const { entityType, id, tags } of entities) {
+          const current = await this.fetchEditable(entityType, id);
+          if (!current.success) return current;
+          const now = current.data.tags ?? [];
+          if (!now.includes(renamed)) return changedSince(`tag "${renamed}"`);
+          const kept = now.filter((tag) => tag !== renamed || tags.includes(renamed));
+          const restored = await this.saveEditable(entityType, id, {
+            tags: [...kept, ...tags.filter((tag) => tag !== renamed && !kept.includes(tag))],
+            version: current.data.version,
+          });
+          if (!restored.success) return restored;
+        }
+        return { success: true, data: true };
+      },
+      redo: () => this.inner.renameTag(from, to),
+    });
+    return result;
+  }
+
+  getChanges(since?: ChangeCursor): Promise<Result<ChangeSet>> {
+    return this.inner.getChanges(since);
+  }
+
+  getActivity(params?: ActivityParams): Promise<Result<ActivityEntry[]>> {
+    return this.inner.getActivity(params);
+  }
+
+  // ============================================================================
+  // History (undo/redo) - never recorded
+  // ============================================================================
+
+  restoreStatus(containerType: ContainerType, id: string, status: string, version: number): Promise<Result<TransitionResult>> {
+    return this.inner.restoreStatus(containerType, id, status, version);
+  }
+
+  getSnapshot(entityType: ChangeEntityType, id: string): Promise<Result<EntitySnapshot>> {
+    return this.inner.getSnapshot(entityType, id);
+  }
+
+  restoreSnapshot(snapshot: EntitySnapshot): Promise<Result<boolean>> {
+    return this.inner.restoreSnapshot(snapshot);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * HTTP protocol shared by HttpAdapter and the `tasks serve` API server
+ *
+ * Every response body is a Result<T> envelope, so the client can return it as
+ * is. The HTTP status mirrors the envelope's `code` for the benefit of other
+ * clients (curl, scripts).
+ */
+
+import type { TaskSearchParams } from './types';
+
+export const API_PREFIX = '/api';
+export const DEFAULT_SERVER_PORT = 4747;
+export const DEFAULT_SERVER_HOST = '127.0.0.1';
+
+/**
+ * Environment variables used when no flags are given
+ */
+export const SERVER_URL_ENV = 'TASKS_SERVER_URL';
+export const SERVER_TOKEN_ENV = 'TASKS_SERVER_TOKEN';
+
+/**
+ * Request header naming the client's user, recorded by the server as the
+ * actor of each write. The value is URI-encoded so any name fits in a header.
+ */
+export const ACTOR_HEADER = 'X-Tasks-Actor';
+
+const STATUS_BY_CODE: Record<string, number> = {
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  BLOCKED: 409,
+  INVALID_OPERATION: 422,
+  CYCLE_DETECTED: 422,
+  VALIDATION_ERROR: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * HTTP status for a failed Result's code (400 when the code is unknown)
+ */
+export function statusForCode(code: string | undefined): number {
+  return (code && STATUS_BY_CODE[code]) || 400;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * JSON.parse reviver restoring the Date fields (createdAt, modifiedAt, ...)
+ * that domain entities carry
+ */
+export function reviveDates(key: string, value: unknown): unknown {
+  if (typeof value === 'string' && key.endsWith('At') && ISO_DATE.test(value)) {
+    return new Date(value);
+  }
+  return value;
+}
+
+/**
+ * Encode flat params as a query string; arrays are comma-joined and
+ * undefined values dropped
+ */
+export function encodeQuery(params: object | undefined): string {
+  if (!params) return '';
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    search.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Decode search params written by encodeQuery
+ */
+export function decodeSearchParams(search: URLSearchParams): TaskSearchParams {
+  const params: TaskSearchParams = {};
+  const text = (key: keyof TaskSearchParams) => search.get(key) ?? undefined;
+  const number = (key: keyof TaskSearchParams) => {
+    const value = search.get(key);
+    return value === null || value === '' ? undefined : Number(value);
+  };
+
+  const tags = search.get('tags');
+  Object.assign(params, {
+    query: text('query'),
+    status: text('status'),
+    tags: tags ? tags.split(',').filter(Boolean) : undefined,
+    limit: number('limit'),
+    offset: number('offset'),
+    projectId: text('projectId'),
+    featureId: text('featureId'),
+    priority: text('priority'),
+    blocked: search.has('blocked') ? search.get('blocked') === 'true' : undefined,
+    minComplexity: number('minComplexity'),
+    maxComplexity: number('maxComplexity'),
+  });
+
+  for (const key of Object.keys(params) as Array<keyof TaskSearchParams>) {
+    if (params[key] === undefined) delete params[key];
+  }
+  return params;
+}
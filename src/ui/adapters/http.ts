@@ -0,0 +1,429 @@
+/**
+ * HttpAdapter - Remote data adapter
+ *
+ * Implements DataAdapter over the JSON API exposed by `tasks serve`, so
+ * several terminals can share one orchestrator database. Responses already
+ * use the Result<T> envelope; this adapter only restores Date fields and
+ * turns transport failures into NETWORK_ERROR results.
+ */
+
+import type {
+  DataAdapter,
+  Result,
+  SearchParams,
+  FeatureSearchParams,
+  TaskSearchParams,
+  SearchPage,
+  WorkflowState,
+  TransitionResult,
+  NextTaskStrategy,
+  ChangeCursor,
+  ChangeSet,
+  ChangeEntityType,
+  EntitySnapshot,
+  ActivityEntry,
+  ActivityParams,
+  TaggedEntityType,
+  TagCount,
+  TagRename,
+} from './types';
+import type {
+  Task,
+  Feature,
+  Project,
+  Section,
+  EntityType,
+  Priority,
+  ContentFormat,
+} from '@allpepper/task-orchestrator';
+import type {
+  SearchResults,
+  DependencyInfo,
+  ProjectOverview,
+  FeatureOverview,
+} from '../lib/types';
+import { ACTOR_HEADER, API_PREFIX, encodeQuery, reviveDates } from './http-protocol';
+import { defaultActor } from './actor';
+
+type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface HttpAdapterOptions {
+  /** Bearer token expected by the server, if it was started with one */
+  token?: string;
+  /** Name the server records in its activity log; defaults to $TASKS_ACTOR, then $USER */
+  actor?: string;
+  /** Override fetch (tests, custom agents) */
+  fetch?: (request: Request) => Promise<Response>;
+}
+
+function containerPath(containerType: 'task' | 'feature', id: string): string {
+  return `/${containerType === 'task' ? 'tasks' : 'features'}/${encodeURIComponent(id)}`;
+}
+
+export class HttpAdapter implements DataAdapter {
+  private readonly baseUrl: string;
+  private readonly token?: string;
+  private readonly actor: string;
+  private readonly fetchFn: (request: Request) => Promise<Response>;
+
+  constructor(baseUrl: string, options: HttpAdapterOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.token = options.token;
+    this.actor = options.actor ?? defaultActor();
+    this.fetchFn = options.fetch ?? ((request) => fetch(request));
+  }
+
+  private async request<T>(method: HttpMethod, path: string, body?: unknown): Promise<Result<T>> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+    if (method !== 'GET') headers[ACTOR_HEADER] = encodeURIComponent(this.actor);
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await this.fetchFn(
+        new Request(`${this.baseUrl}${API_PREFIX}${path}`, {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+        })
+      );
+      // Read inside the try: the connection can drop while the body streams in
+      text = await response.text();
+    } catch (error) {
+      return {
+        success: false,
+        error: `Cannot reach ${this.baseUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        code: 'NETWORK_ERROR',
+      };
+    }
+
+    try {
+      return JSON.parse(text, reviveDates) as Result<T>;
+    } catch {
+      return {
+        success: false,
+        error: `Unexpected response from server (HTTP ${response.status})`,
+        code: 'NETWORK_ERROR',
+      };
+    }
+  }
+
+  // ============================================================================
+  // Projects
+  // ============================================================================
+
+  async getProjects(params?: SearchParams): Promise<Result<Project[]>> {
+    return this.request('GET', `/projects${encodeQuery(params)}`);
+  }
+
+  async getProject(id: string): Promise<Result<Project>> {
+    return this.request('GET', `/projects/${encodeURIComponent(id)}`);
+  }
+
+  async getProjectOverview(id: string): Promise<Result<ProjectOverview>> {
+    return this.request('GET', `/projects/${encodeURIComponent(id)}/overview`);
+  }
+
+  async createProject(params: {
+    name: string;
+    summary: string;
+    description?: string;
+    tags?: string[];
+  }): Promise<Result<Project>> {
+    return this.request('POST', '/projects', params);
+  }
+
+  async updateProject(
+    id: string,
+    params: {
+      name?: string;
+      summary?: string;
+      description?: string;
+      tags?: string[];
+      version: number;
+    }
+  ): Promise<Result<Project>> {
+    return this.request('PATCH', `/projects/${encodeURIComponent(id)}`, params);
+  }
+
+  async deleteProject(id: string, options?: { cascade?: boolean }): Promise<Result<boolean>> {
+    return this.request('DELETE', `/projects/${encodeURIComponent(id)}${encodeQuery(options)}`);
+  }
+
+  // ============================================================================
+  // Features
+  // ============================================================================
+
+  async getFeatures(params?: FeatureSearchParams): Promise<Result<Feature[]>> {
+    return this.request('GET', `/features${encodeQuery(params)}`);
+  }
+
+  async getFeature(id: string): Promise<Result<Feature>> {
+    return this.request('GET', containerPath('feature', id));
+  }
+
+  async getFeatureOverview(id: string): Promise<Result<FeatureOverview>> {
+    return this.request('GET', `${containerPath('feature', id)}/overview`);
+  }
+
+  async createFeature(params: {
+    projectId?: string;
+    name: string;
+    summary: string;
+    description?: string;
+    priority: Priority;
+    tags?: string[];
+  }): Promise<Result<Feature>> {
+    return this.request('POST', '/features', params);
+  }
+
+  async updateFeature(
+    id: string,
+    params: {
+      name?: string;
+      summary?: string;
+      description?: string;
+      priority?: Priority;
+      projectId?: string;
+      tags?: string[];
+      version: number;
+    }
+  ): Promise<Result<Feature>> {
+    return this.request('PATCH', containerPath('feature', id), params);
+  }
+
+  async deleteFeature(id: string, options?: { cascade?: boolean }): Promise<Result<boolean>> {
+    return this.request('DELETE', `${containerPath('feature', id)}${encodeQuery(options)}`);
+  }
+
+  // ============================================================================
+  // Tasks
+  // ============================================================================
+
+  async getTasks(params?: TaskSearchParams): Promise<Result<Task[]>> {
+    return this.request('GET', `/tasks${encodeQuery(params)}`);
+  }
+
+  async getTask(id: string): Promise<Result<Task>> {
+    return this.request('GET', containerPath('task', id));
+  }
+
+  async createTask(params: {
+    featureId?: string;
+    title: string;
+    summary: string;
+    description?: string;
+    priority: Priority;
+    complexity: number;
+    tags?: string[];
+  }): Promise<Result<Task>> {
+    return this.request('POST', '/tasks', params);
+  }
+
+  async updateTask(
+    id: string,
+    params: {
+      title?: string;
+      summary?: string;
+      description?: string;
+      priority?: Priority;
+      complexity?: number;
+      projectId?: string;
+      featureId?: string;
+      lastModifiedBy?: string;
+      tags?: string[];
+      version: number;
+    }
+  ): Promise<Result<Task>> {
+    return this.request('PATCH', containerPath('task', id), params);
+  }
+
+  async deleteTask(id: string): Promise<Result<boolean>> {
+    return this.request('DELETE', containerPath('task', id));
+  }
+
+  // ============================================================================
+  // Pipeline Operations
+  // ============================================================================
+
+  async advance(containerType: 'task' | 'feature', id: string, version: number): Promise<Result<TransitionResult>> {
+    return this.request('POST', `${containerPath(containerType, id)}/advance`, { version });
+  }
+
+  async revert(containerType: 'task' | 'feature', id: string, version: number): Promise<Result<TransitionResult>> {
+    return this.request('POST', `${containerPath(containerType, id)}/revert`, { version });
+  }
+
+  async terminate(containerType: 'task' | 'feature', id: string, version: number): Promise<Result<TransitionResult>> {
+    return this.request('POST', `${containerPath(containerType, id)}/terminate`, { version });
+  }
+
+  async getWorkflowState(containerType: 'task' | 'feature', id: string): Promise<Result<WorkflowState>> {
+    return this.request('GET', `${containerPath(containerType, id)}/workflow`);
+  }
+
+  async getAllowedTransitions(containerType: string, status: string): Promise<Result<string[]>> {
+    return this.request(
+      'GET',
+      `/transitions/${encodeURIComponent(containerType)}/${encodeURIComponent(status)}`
+    );
+  }
+
+  // ============================================================================
+  // Sections
+  // ============================================================================
+
+  async getSections(entityType: EntityType, entityId: string): Promise<Result<Section[]>> {
+    return this.request('GET', `/sections${encodeQuery({ entityType, entityId })}`);
+  }
+
+  async createSection(params: {
+    entityType: EntityType;
+    entityId: string;
+    title: string;
+    usageDescription?: string;
+    content: string;
+    contentFormat?: ContentFormat;
+    ordinal?: number;
+  }): Promise<Result<Section>> {
+    return this.request('POST', '/sections', params);
+  }
+
+  async updateSection(
+    id: string,
+    params: {
+      title?: string;
+      usageDescription?: string;
+      content?: string;
+      contentFormat?: ContentFormat;
+      version: number;
+    }
+  ): Promise<Result<Section>> {
+    return this.request('PATCH', `/sections/${encodeURIComponent(id)}`, params);
+  }
+
+  async reorderSections(entityType: EntityType, entityId: string, orderedIds: string[]): Promise<Result<boolean>> {
+    return this.request('POST', '/sections/reorder', { entityType, entityId, orderedIds });
+  }
+
+  async deleteSection(id: string): Promise<Result<boolean>> {
+    return this.request('DELETE', `/sections/${encodeURIComponent(id)}`);
+  }
+
+  // ============================================================================
+  // Dependencies
+  // ============================================================================
+
+  async getDependencies(taskId: string): Promise<Result<DependencyInfo>> {
+    return this.request('GET', `${containerPath('task', taskId)}/dependencies`);
+  }
+
+  async addBlocker(
+    containerType: 'task' | 'feature',
+    id: string,
+    blockerId: string,
+    version: number
+  ): Promise<Result<Task | Feature>> {
+    return this.request('POST', `${containerPath(containerType, id)}/blockers`, { blockerId, version });
+  }
+
+  async removeBlocker(
+    containerType: 'task' | 'feature',
+    id: string,
+    blockerId: string,
+    version: number
+  ): Promise<Result<Task | Feature>> {
+    return this.request(
+      'DELETE',
+      `${containerPath(containerType, id)}/blockers/${encodeURIComponent(blockerId)}${encodeQuery({ version })}`
+    );
+  }
+
+  async addRelated(
+    containerType: 'task' | 'feature',
+    id: string,
+    relatedId: string,
+    version: number
+  ): Promise<Result<Task | Feature>> {
+    return this.request('POST', `${containerPath(containerType, id)}/related`, { relatedId, version });
+  }
+
+  async removeRelated(
+    containerType: 'task' | 'feature',
+    id: string,
+    relatedId: string,
+    version: number
+  ): Promise<Result<Task | Feature>> {
+    return this.request(
+      'DELETE',
+      `${containerPath(containerType, id)}/related/${encodeURIComponent(relatedId)}${encodeQuery({ version })}`
+    );
+  }
+
+  async getBlockedTasks(params?: { projectId?: string }): Promise<Result<Task[]>> {
+    return this.request('GET', `/blocked-tasks${encodeQuery(params)}`);
+  }
+
+  async getNextTask(params?: { projectId?: string; strategy?: NextTaskStrategy }): Promise<Result<Task | null>> {
+    return this.request('GET', `/next-task${encodeQuery(params)}`);
+  }
+
+  // ============================================================================
+  // Search
+  // ============================================================================
+
+  async search(query: string, page?: SearchPage): Promise<Result<SearchResults>> {
+    return this.request('GET', `/search${encodeQuery({ q: query, ...page })}`);
+  }
+
+  // ============================================================================
+  // Tags
+  // ============================================================================
+
+  async getTags(params?: { entityType?: TaggedEntityType }): Promise<Result<TagCount[]>> {
+    return this.request('GET', `/tags${encodeQuery(params)}`);
+  }
+
+  async renameTag(from: string, to: string): Promise<Result<TagRename>> {
+    return this.request('POST', '/tags/rename', { from, to });
+  }
+
+  // ============================================================================
+  // Change detection
+  // ============================================================================
+
+  async getChanges(since?: ChangeCursor): Promise<Result<ChangeSet>> {
+    return this.request('GET', `/changes${encodeQuery({ since: since ? JSON.stringify(since) : undefined })}`);
+  }
+
+  // ============================================================================
+  // History (undo/redo)
+  // ============================================================================
+
+  async restoreStatus(
+    containerType: 'task' | 'feature',
+    id: string,
+    status: string,
+    version: number
+  ): Promise<Result<TransitionResult>> {
+    return this.request('POST', `${containerPath(containerType, id)}/status`, { status, version });
+  }
+
+  async getSnapshot(entityType: ChangeEntityType, id: string): Promise<Result<EntitySnapshot>> {
+    return this.request('GET', `/snapshots/${entityType}/${encodeURIComponent(id)}`);
+  }
+
+  async restoreSnapshot(snapshot: EntitySnapshot): Promise<Result<boolean>> {
+    return this.request('POST', '/snapshots', snapshot);
+  }
+
+  // ============================================================================
+  // Activity log
+  // ============================================================================
+
+  async getActivity(params?: ActivityParams): Promise<Result<ActivityEntry[]>> {
+    return this.request('GET', `/activity${encodeQuery(params)}`);
+  }
+}
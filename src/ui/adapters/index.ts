@@ -4,11 +4,36 @@
  * Barrel export for adapter implementations
  */
 
-export { DirectAdapter } from './direct';
+export { DirectAdapter, type DirectAdapterOptions } from './direct';
+export { HttpAdapter, type HttpAdapterOptions } from './http';
+export {
+  ChangeWatcher,
+  changeAffects,
+  DEFAULT_POLL_INTERVAL_MS,
+  type ChangeListener,
+} from './change-watcher';
+export {
+  UndoHistory,
+  DEFAULT_HISTORY_LIMIT,
+  type HistoryEntry,
+  type HistoryEvent,
+  type HistoryListener,
+} from './undo-history';
+export { HistoryAdapter } from './history-adapter';
 export type {
   DataAdapter,
   Result,
   SearchParams,
   FeatureSearchParams,
   TaskSearchParams,
+  NextTaskStrategy,
+  ChangeEntityType,
+  EntityChange,
+  ChangeCursor,
+  ChangeSet,
+  EntitySnapshot,
+  ActivityAction,
+  ActivityEntry,
+  ActivityParams,
+  FieldChange,
 } from './types';
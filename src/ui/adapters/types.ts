@@ -18,6 +18,7 @@ import type {
   Section,
   EntityType,
   Priority,
+  ContentFormat,
 } from '@allpepper/task-orchestrator';
 
 import type {
@@ -51,6 +52,8 @@ export interface SearchParams {
 export interface FeatureSearchParams extends SearchParams {
   projectId?: string;
   priority?: Priority;
+  /** true: only entities with blockers; false: only entities without */
+  blocked?: boolean;
 }
 
 /**
@@ -58,6 +61,126 @@ export interface FeatureSearchParams extends SearchParams {
  */
 export interface TaskSearchParams extends FeatureSearchParams {
   featureId?: string;
+  minComplexity?: number;
+  maxComplexity?: number;
+}
+
+/**
+ * Page of results per entity type for search()
+ */
+export interface SearchPage {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Ordering used to pick the next actionable task
+ */
+export type NextTaskStrategy = 'priority' | 'impact';
+
+/**
+ * Entity kinds reported by change detection
+ */
+export type ChangeEntityType = 'project' | 'feature' | 'task' | 'section';
+
+/**
+ * Entity kinds that carry tags
+ */
+export type TaggedEntityType = 'project' | 'feature' | 'task';
+
+/**
+ * A tag and the number of entities using it
+ */
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Outcome of renaming a tag: every entity that carried the old tag, with the
+ * tags it had before the rename
+ */
+export interface TagRename {
+  from: string;
+  to: string;
+  entities: Array<{ entityType: TaggedEntityType; id: string; tags: string[] }>;
+}
+
+/**
+ * A change observed in the underlying store
+ */
+export interface EntityChange {
+  entityType: ChangeEntityType;
+  /** Changed entity, or null when rows were removed and the whole kind must be reloaded */
+  id: string | null;
+  /** Owners of the entity: project/feature for tasks, project for features, entity for sections */
+  parentIds: string[];
+}
+
+/**
+ * High-water mark for one table; compared between polls
+ */
+export interface ChangeMark {
+  count: number;
+  versionSum: number;
+  modifiedAt: string;
+}
+
+/**
+ * Opaque position in the change stream, returned by getChanges
+ */
+export type ChangeCursor = Partial<Record<ChangeEntityType, ChangeMark>>;
+
+export interface ChangeSet {
+  cursor: ChangeCursor;
+  changes: EntityChange[];
+}
+
+/**
+ * Stored rows for an entity and everything deleted along with it (children,
+ * sections, tags), keyed by table. Restoring keeps the original IDs, so
+ * blockers and links pointing at the entity resolve again.
+ */
+export interface EntitySnapshot {
+  entityType: ChangeEntityType;
+  id: string;
+  rows: Record<string, Array<Record<string, unknown>>>;
+}
+
+export type ActivityAction = 'create' | 'update' | 'delete' | 'advance' | 'revert' | 'terminate' | 'restore';
+
+export interface FieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * One recorded write. `ownerId` is the entity whose history should also show
+ * this row (a task's feature, a section's task/feature/project).
+ */
+export interface ActivityEntry {
+  id: string;
+  createdAt: Date;
+  actor: string;
+  action: ActivityAction;
+  entityType: ChangeEntityType;
+  entityId: string;
+  entityName: string;
+  projectId: string | null;
+  ownerId: string | null;
+  oldStatus: string | null;
+  newStatus: string | null;
+  changes: FieldChange[];
+}
+
+export interface ActivityParams {
+  projectId?: string;
+  /** The entity and everything it owns */
+  entityId?: string;
+  actor?: string;
+  limit?: number;
+  offset?: number;
 }
 
 /**
@@ -244,6 +367,41 @@ export interface DataAdapter {
     entityId: string
   ): Promise<Result<Section[]>>;
 
+  /**
+   * Append a section to an entity (ordinal defaults to the end of the list)
+   */
+  createSection(params: {
+    entityType: EntityType;
+    entityId: string;
+    title: string;
+    usageDescription?: string;
+    content: string;
+    contentFormat?: ContentFormat;
+    ordinal?: number;
+  }): Promise<Result<Section>>;
+
+  updateSection(
+    id: string,
+    params: {
+      title?: string;
+      usageDescription?: string;
+      content?: string;
+      contentFormat?: ContentFormat;
+      version: number;
+    }
+  ): Promise<Result<Section>>;
+
+  /**
+   * Rewrite section ordinals so they follow the order of orderedIds
+   */
+  reorderSections(
+    entityType: EntityType,
+    entityId: string,
+    orderedIds: string[]
+  ): Promise<Result<boolean>>;
+
+  deleteSection(id: string): Promise<Result<boolean>>;
+
   // ============================================================================
   // Dependencies (field-based in v2)
   // ============================================================================
@@ -253,19 +411,123 @@ export interface DataAdapter {
    */
   getDependencies(taskId: string): Promise<Result<DependencyInfo>>;
 
+  /**
+   * Add a blocker (task or feature) to an entity's blockedBy list
+   */
+  addBlocker(
+    containerType: 'task' | 'feature',
+    id: string,
+    blockerId: string,
+    version: number
+  ): Promise<Result<Task | Feature>>;
+
+  /**
+   * Remove a blocker; clears blockedReason once no manual (NO_OP) block remains
+   */
+  removeBlocker(
+    containerType: 'task' | 'feature',
+    id: string,
+    blockerId: string,
+    version: number
+  ): Promise<Result<Task | Feature>>;
+
+  /**
+   * Link two entities as related (stored on both sides)
+   */
+  addRelated(
+    containerType: 'task' | 'feature',
+    id: string,
+    relatedId: string,
+    version: number
+  ): Promise<Result<Task | Feature>>;
+
+  removeRelated(
+    containerType: 'task' | 'feature',
+    id: string,
+    relatedId: string,
+    version: number
+  ): Promise<Result<Task | Feature>>;
+
   /**
    * Get all blocked tasks (tasks with non-empty blockedBy)
    */
   getBlockedTasks(params?: { projectId?: string }): Promise<Result<Task[]>>;
 
   /**
-   * Get the next actionable task (NEW, not blocked)
+   * Get the next actionable task (NEW, not blocked).
+   * 'priority' (default) orders by priority, complexity, then age;
+   * 'impact' prefers the task that transitively unblocks the most open tasks.
    */
-  getNextTask(params?: { projectId?: string }): Promise<Result<Task | null>>;
+  getNextTask(params?: { projectId?: string; strategy?: NextTaskStrategy }): Promise<Result<Task | null>>;
 
   // ============================================================================
   // Search
   // ============================================================================
 
-  search(query: string): Promise<Result<SearchResults>>;
+  /**
+   * Search with the query language in lib/search-query (free text plus
+   * `status:`, `priority:`, `tag:`, `project:`, `blocked:`, `complexity:`
+   * and `type:` filters). `page` applies to each entity type; `hasMore` is
+   * set when any type has results past it.
+   */
+  search(query: string, page?: SearchPage): Promise<Result<SearchResults>>;
+
+  // ============================================================================
+  // Tags
+  // ============================================================================
+
+  /**
+   * Tags in use with their usage counts, most used first
+   */
+  getTags(params?: { entityType?: TaggedEntityType }): Promise<Result<TagCount[]>>;
+
+  /**
+   * Rename a tag on every entity; renaming onto an existing tag merges the two.
+   * Each affected entity gets a new version.
+   */
+  renameTag(from: string, to: string): Promise<Result<TagRename>>;
+
+  // ============================================================================
+  // Change detection
+  // ============================================================================
+
+  /**
+   * List entities changed since `since` (by modified_at and version high-water
+   * marks). Without a cursor, returns the current position and no changes.
+   */
+  getChanges(since?: ChangeCursor): Promise<Result<ChangeSet>>;
+
+  // ============================================================================
+  // History (undo/redo)
+  // ============================================================================
+
+  /**
+   * Put a task or feature back into a given status, bypassing the pipeline
+   * order and blocker checks. Used to undo advance/revert/terminate.
+   */
+  restoreStatus(
+    containerType: 'task' | 'feature',
+    id: string,
+    status: string,
+    version: number
+  ): Promise<Result<TransitionResult>>;
+
+  /**
+   * Capture an entity with its children, sections and tags
+   */
+  getSnapshot(entityType: ChangeEntityType, id: string): Promise<Result<EntitySnapshot>>;
+
+  /**
+   * Write a snapshot back, re-creating deleted rows and overwriting existing ones
+   */
+  restoreSnapshot(snapshot: EntitySnapshot): Promise<Result<boolean>>;
+
+  // ============================================================================
+  // Activity log
+  // ============================================================================
+
+  /**
+   * Recorded writes, newest first
+   */
+  getActivity(params?: ActivityParams): Promise<Result<ActivityEntry[]>>;
 }
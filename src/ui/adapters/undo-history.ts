@@ -0,0 +1,145 @@
+/**
+ * UndoHistory - undo/redo stacks of recorded mutations
+ *
+ * Each entry knows how to reverse and re-apply one change. Entries are
+ * recorded by HistoryAdapter; screens only call `undo` and `redo`. An entry
+ * whose undo or redo fails (for example because someone else changed the
+ * entity since) is dropped rather than retried.
+ */
+
+import type { Result } from './types';
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export interface HistoryEntry {
+  /** Human description, e.g. `Advance task "Write docs"` */
+  label: string;
+  undo: () => Promise<Result<unknown>>;
+  redo: () => Promise<Result<unknown>>;
+}
+
+export type HistoryEvent = 'record' | 'undo' | 'redo';
+
+export type HistoryListener = (event: HistoryEvent, entry: HistoryEntry) => void;
+
+/**
+ * Run entries in order, stopping at the first failure
+ */
+async function runAll(steps: Array<() => Promise<Result<unknown>>>): Promise<Result<unknown>> {
+  for (const step of steps) {
+    const result = await step();
+    if (!result.success) return result;
+  }
+  return { success: true, data: null };
+}
+
+export class UndoHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private readonly listeners = new Set<HistoryListener>();
+  private pendingBatch: HistoryEntry[] | null = null;
+  private busy = false;
+
+  constructor(private readonly limit: number = DEFAULT_HISTORY_LIMIT) {}
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Push a new entry; clears the redo stack
+   */
+  record(entry: HistoryEntry): void {
+    if (this.pendingBatch) {
+      this.pendingBatch.push(entry);
+      return;
+    }
+
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) this.undoStack.shift();
+    this.redoStack = [];
+    this.emit('record', entry);
+  }
+
+  /**
+   * Record every mutation made while `fn` runs as a single entry, so a
+   * multi-step move undoes in one go. Nested batches join the outer one.
+   * When `keep` rejects the result (e.g. the work was rolled back), nothing
+   * is recorded.
+   */
+  async batch<T>(label: string, fn: () => Promise<T>, keep: (result: T) => boolean = () => true): Promise<T> {
+    if (this.pendingBatch) return fn();
+
+    this.pendingBatch = [];
+    let kept = true;
+    try {
+      const result = await fn();
+      kept = keep(result);
+      return result;
+    } finally {
+      const entries = this.pendingBatch;
+      this.pendingBatch = null;
+      if (kept && entries.length > 0) {
+        this.record({
+          label,
+          undo: () => runAll([...entries].reverse().map((entry) => entry.undo)),
+          redo: () => runAll(entries.map((entry) => entry.redo)),
+        });
+      }
+    }
+  }
+
+  async undo(): Promise<Result<HistoryEntry>> {
+    return this.step(this.undoStack, this.redoStack, 'undo');
+  }
+
+  async redo(): Promise<Result<HistoryEntry>> {
+    return this.step(this.redoStack, this.undoStack, 'redo');
+  }
+
+  private async step(
+    from: HistoryEntry[],
+    to: HistoryEntry[],
+    event: 'undo' | 'redo'
+  ): Promise<Result<HistoryEntry>> {
+    if (this.busy) {
+      return { success: false, error: 'Another undo or redo is still running', code: 'BUSY' };
+    }
+
+    const entry = from.pop();
+    if (!entry) {
+      return { success: false, error: `Nothing to ${event}`, code: 'EMPTY' };
+    }
+
+    this.busy = true;
+    try {
+      const result = await entry[event]();
+      if (!result.success) {
+        return { success: false, error: `Cannot ${event} ${entry.label}: ${result.error}`, code: result.code };
+      }
+
+      to.push(entry);
+      this.emit(event, entry);
+      return { success: true, data: entry };
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private emit(event: HistoryEvent, entry: HistoryEntry): void {
+    for (const listener of [...this.listeners]) {
+      listener(event, entry);
+    }
+  }
+}
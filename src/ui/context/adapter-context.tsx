@@ -1,8 +1,16 @@
-import React, { createContext, useContext, type ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, type ReactNode } from 'react';
 import type { DataAdapter } from '../adapters/types';
+import { ChangeWatcher, type ChangeListener } from '../adapters/change-watcher';
+import type { UndoHistory } from '../adapters/undo-history';
 
 interface AdapterContextValue {
   adapter: DataAdapter;
+  /** Listen for changes made outside this UI; returns an unsubscribe function */
+  subscribeToChanges: (listener: ChangeListener) => () => void;
+  /** Undo/redo stack the adapter records into, if any (e.g. to batch multi-step moves) */
+  history: UndoHistory | null;
+  /** The same data without undo recording, for writes nobody should undo (e.g. an import's rollback) */
+  untrackedAdapter: DataAdapter;
 }
 
 const AdapterContext = createContext<AdapterContextValue | undefined>(undefined);
@@ -10,12 +18,49 @@ const AdapterContext = createContext<AdapterContextValue | undefined>(undefined)
 interface AdapterProviderProps {
   children: ReactNode;
   adapter: DataAdapter;
+  /** Poll for external changes every N milliseconds; omit or 0 to disable */
+  pollInterval?: number;
+  /** History fed by a HistoryAdapter; undo and redo trigger an immediate poll */
+  history?: UndoHistory;
+  /** The adapter the HistoryAdapter wraps; defaults to `adapter` */
+  untrackedAdapter?: DataAdapter;
 }
 
-export function AdapterProvider({ children, adapter }: AdapterProviderProps) {
-  const value: AdapterContextValue = {
-    adapter,
-  };
+const noopSubscribe = () => () => {};
+
+export function AdapterProvider({
+  children,
+  adapter,
+  pollInterval = 0,
+  history,
+  untrackedAdapter,
+}: AdapterProviderProps) {
+  const watcher = useMemo(
+    () => (pollInterval > 0 ? new ChangeWatcher(adapter, pollInterval) : null),
+    [adapter, pollInterval]
+  );
+
+  // Keep a subscription for the provider's lifetime so the cursor stays warm
+  // while screens mount and unmount their own listeners
+  useEffect(() => watcher?.subscribe(() => {}), [watcher]);
+
+  // Undo and redo bypass the screens' own refresh calls
+  useEffect(() => {
+    if (!history || !watcher) return;
+    return history.subscribe((event) => {
+      if (event !== 'record') void watcher.poll();
+    });
+  }, [history, watcher]);
+
+  const value: AdapterContextValue = useMemo(
+    () => ({
+      adapter,
+      subscribeToChanges: watcher ? (listener) => watcher.subscribe(listener) : noopSubscribe,
+      history: history ?? null,
+      untrackedAdapter: untrackedAdapter ?? adapter,
+    }),
+    [adapter, watcher, history, untrackedAdapter]
+  );
 
   return <AdapterContext.Provider value={value}>{children}</AdapterContext.Provider>;
 }
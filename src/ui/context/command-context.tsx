@@ -0,0 +1,57 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useSyncExternalStore, type ReactNode } from 'react';
+import {
+  availableCommands,
+  commandSignature,
+  type Command,
+  type CommandContext,
+  type CommandRegistry,
+} from '../lib/commands';
+
+const CommandRegistryContext = createContext<CommandRegistry | null>(null);
+
+interface CommandProviderProps {
+  children: ReactNode;
+  registry: CommandRegistry;
+}
+
+export function CommandProvider({ children, registry }: CommandProviderProps) {
+  return <CommandRegistryContext.Provider value={registry}>{children}</CommandRegistryContext.Provider>;
+}
+
+/**
+ * Register the calling component's commands while it is mounted. The list may
+ * be rebuilt on every render; subscribers only hear about it when its ids,
+ * keys or titles change. Returns the commands with the user's key remaps
+ * applied, for runCommandKey. Outside a CommandProvider this only returns
+ * them.
+ */
+export function useRegisterCommands(commands: Command[]): Command[] {
+  const target = useContext(CommandRegistryContext);
+  const latest = useRef(commands);
+  latest.current = commands;
+
+  useEffect(() => {
+    if (!target) return;
+    return target.register(() => latest.current);
+  }, [target]);
+
+  const signature = commandSignature(commands);
+  const registered = useRef(signature);
+  useEffect(() => {
+    if (!target || registered.current === signature) return;
+    registered.current = signature;
+    target.notify();
+  }, [target, signature]);
+
+  return target ? target.bind(commands) : commands;
+}
+
+/**
+ * Registered commands available in the context, re-read whenever the
+ * registry changes
+ */
+export function useAvailableCommands(registry: CommandRegistry, context: CommandContext): Command[] {
+  const subscribe = useCallback((listener: () => void) => registry.subscribe(listener), [registry]);
+  useSyncExternalStore(subscribe, () => registry.version);
+  return availableCommands(registry.list(), context);
+}
@@ -0,0 +1,20 @@
+import React, { createContext, useContext, type ReactNode } from 'react';
+import { DEFAULT_CONFIG, type UserConfig } from '../lib/config';
+
+const ConfigContext = createContext<UserConfig>(DEFAULT_CONFIG);
+
+interface ConfigProviderProps {
+  children: ReactNode;
+  config: UserConfig;
+}
+
+export function ConfigProvider({ children, config }: ConfigProviderProps) {
+  return <ConfigContext.Provider value={config}>{children}</ConfigContext.Provider>;
+}
+
+/**
+ * The user's configuration; the defaults outside a ConfigProvider
+ */
+export function useConfig(): UserConfig {
+  return useContext(ConfigContext);
+}
@@ -0,0 +1,36 @@
+import React, { createContext, useContext, useEffect, type ReactNode } from 'react';
+
+/**
+ * Counts mounted text inputs so global shortcuts can stand down while the
+ * user is typing
+ */
+export interface TextEntryTracker {
+  active: number;
+}
+
+const TextEntryContext = createContext<TextEntryTracker | null>(null);
+
+interface TextEntryProviderProps {
+  children: ReactNode;
+  tracker: TextEntryTracker;
+}
+
+export function TextEntryProvider({ children, tracker }: TextEntryProviderProps) {
+  return <TextEntryContext.Provider value={tracker}>{children}</TextEntryContext.Provider>;
+}
+
+/**
+ * Mark the calling component as capturing typed text while `isActive`.
+ * Outside a TextEntryProvider this does nothing.
+ */
+export function useTextEntry(isActive: boolean = true): void {
+  const tracker = useContext(TextEntryContext);
+
+  useEffect(() => {
+    if (!tracker || !isActive) return;
+    tracker.active += 1;
+    return () => {
+      tracker.active -= 1;
+    };
+  }, [tracker, isActive]);
+}
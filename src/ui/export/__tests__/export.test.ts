@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { db, Priority, EntityType, ContentFormat } from '@allpepper/task-orchestrator';
+import type { Feature, Project, Section, Task } from '@allpepper/task-orchestrator';
+import { runMigrations } from '@allpepper/task-orchestrator/src/db/migrate';
+import * as projects from '@allpepper/task-orchestrator/src/repos/projects';
+import { DirectAdapter } from '../../adapters/direct';
+import {
+  collectExport,
+  defaultExportPath,
+  escapeCsvField,
+  exportToFile,
+  parseExportFormat,
+  renderCsv,
+  renderHtml,
+  renderJson,
+  renderMarkdown,
+  type ExportBundle,
+} from '..';
+
+const DATE = new Date('2026-03-11T12:00:00.000Z');
+
+const project: Project = {
+  id: 'p1',
+  name: 'Mobile App',
+  summary: 'Ship the app',
+  version: 1,
+  createdAt: DATE,
+  modifiedAt: DATE,
+  tags: [],
+};
+
+const feature: Feature = {
+  id: 'f1',
+  projectId: 'p1',
+  name: 'Login',
+  summary: 'Sign in flow',
+  status: 'ACTIVE',
+  priority: Priority.HIGH,
+  blockedBy: [],
+  relatedTo: [],
+  version: 1,
+  createdAt: DATE,
+  modifiedAt: DATE,
+  tags: [],
+};
+
+function task(id: string, title: string, status: string, featureId?: string): Task {
+  return {
+    id,
+    projectId: 'p1',
+    featureId,
+    title,
+    summary: `${title} summary`,
+    status,
+    priority: Priority.MEDIUM,
+    complexity: 3,
+    blockedBy: [],
+    relatedTo: [],
+    version: 1,
+    createdAt: DATE,
+    modifiedAt: DATE,
+    tags: ['mobile'],
+  };
+}
+
+function section(entityId: string, title: string, content: string, contentFormat = ContentFormat.MARKDOWN): Section {
+  return {
+    id: `s-${entityId}-${title}`,
+    entityType: EntityType.FEATURE,
+    entityId,
+    title,
+    usageDescription: '',
+    content,
+    contentFormat,
+    ordinal: 0,
+    tags: '',
+    version: 1,
+    createdAt: DATE,
+    modifiedAt: DATE,
+  };
+}
+
+const bundle: ExportBundle = {
+  version: 1,
+  exportedAt: DATE,
+  title: 'Mobile App',
+  scope: { type: 'project', id: 'p1' },
+  project,
+  features: [feature],
+  tasks: [
+    task('t1', 'Form', 'CLOSED', 'f1'),
+    task('t2', 'OAuth, "social"', 'ACTIVE', 'f1'),
+    task('t3', 'Icons', 'NEW'),
+  ],
+  sections: [section('f1', 'Acceptance', 'Users can sign in'), section('t2', 'Config', '{"a":1}', ContentFormat.JSON)],
+};
+
+describe('export formats', () => {
+  it('should parse format names and extensions', () => {
+    expect(parseExportFormat('md')).toBe('markdown');
+    expect(parseExportFormat('HTML')).toBe('html');
+    expect(parseExportFormat('pdf')).toBeNull();
+  });
+
+  it('should name files after the title and date', () => {
+    expect(defaultExportPath('Mobile App!', 'markdown', DATE)).toBe('mobile-app-2026-03-11.md');
+    expect(defaultExportPath('***', 'csv', DATE)).toBe('export-2026-03-11.csv');
+  });
+
+  it('should render a Markdown report grouped by feature and status', () => {
+    const markdown = renderMarkdown(bundle);
+
+    expect(markdown).toContain('# Mobile App — Status report');
+    expect(markdown).toContain('| Closed | 1 |');
+    expect(markdown).toContain('### Login');
+    expect(markdown).toContain('1/2 tasks done');
+    expect(markdown).toContain('#### Acceptance\n\nUsers can sign in');
+    expect(markdown).toContain('- [x] **Form** (MEDIUM, complexity 3, #mobile)');
+    expect(markdown).toContain('```json\n{"a":1}\n```');
+    expect(markdown).toContain('## Other tasks');
+    expect(markdown.indexOf('#### Active')).toBeLessThan(markdown.indexOf('#### Closed'));
+  });
+
+  it('should write one CSV row per task with quoting', () => {
+    const lines = renderCsv(bundle).trimEnd().split('\r\n');
+
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toStartWith('id,title,status,priority,complexity,feature');
+    expect(lines[2]).toStartWith('t2,"OAuth, ""social""",ACTIVE,MEDIUM,3,Login');
+    expect(escapeCsvField('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  it('should render escaped, self-contained HTML', () => {
+    const html = renderHtml(bundle);
+
+    expect(html).toStartWith('<!DOCTYPE html>');
+    expect(html).toContain('<style>');
+    expect(html).not.toContain('<link');
+    expect(html).toContain('OAuth, &quot;social&quot;');
+    expect(html).toContain('<h3>Login <span class="status"');
+  });
+
+  it('should dump the whole bundle as JSON', () => {
+    const parsed = JSON.parse(renderJson(bundle)) as Omit<ExportBundle, 'exportedAt'> & { exportedAt: string };
+
+    expect(parsed.tasks).toHaveLength(3);
+    expect(parsed.sections).toHaveLength(2);
+    expect(parsed.exportedAt).toBe(DATE.toISOString());
+  });
+});
+
+describe('collectExport', () => {
+  let adapter: DirectAdapter;
+
+  function clearTables() {
+    db.run('DELETE FROM entity_tags');
+    db.run('DELETE FROM sections');
+    db.run('DELETE FROM tasks');
+    db.run('DELETE FROM features');
+    db.run('DELETE FROM projects');
+  }
+
+  beforeAll(() => {
+    runMigrations();
+  });
+
+  beforeEach(() => {
+    clearTables();
+    adapter = new DirectAdapter();
+  });
+
+  afterAll(clearTables);
+
+  async function seed() {
+    const created = projects.createProject({ name: 'Exported', summary: 'Project' });
+    if (!created.success) throw new Error(created.error);
+    const featureResult = await adapter.createFeature({
+      projectId: created.data.id,
+      name: 'Reports',
+      summary: 'Feature',
+      priority: Priority.MEDIUM,
+    });
+    if (!featureResult.success) throw new Error(featureResult.error);
+    const taskResult = await adapter.createTask({
+      featureId: featureResult.data.id,
+      title: 'Write exporter',
+      summary: 'Task',
+      priority: Priority.HIGH,
+      complexity: 2,
+    });
+    if (!taskResult.success) throw new Error(taskResult.error);
+    await adapter.createSection({ entityType: EntityType.TASK, entityId: taskResult.data.id, title: 'Notes', content: 'Done soon' });
+    return { projectId: created.data.id, featureId: featureResult.data.id };
+  }
+
+  it('should gather a project with its features, tasks and sections', async () => {
+    const { projectId } = await seed();
+
+    const result = await collectExport(adapter, { type: 'project', id: projectId });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.data.title).toBe('Exported');
+    expect(result.data.features.map((item) => item.name)).toEqual(['Reports']);
+    expect(result.data.tasks.map((item) => item.title)).toEqual(['Write exporter']);
+    expect(result.data.sections.map((item) => item.title)).toEqual(['Notes']);
+  });
+
+  it('should report unknown projects', async () => {
+    const result = await collectExport(adapter, { type: 'project', id: 'missing' });
+    expect(result.success).toBe(false);
+  });
+
+  it('should write a feature report to a file', async () => {
+    const { featureId } = await seed();
+    const dir = mkdtempSync(join(tmpdir(), 'tasks-export-'));
+    try {
+      const path = join(dir, 'report.md');
+      const result = await exportToFile(adapter, { type: 'feature', id: featureId }, 'markdown', path);
+
+      expect(result).toEqual({ success: true, data: path });
+      const written = readFileSync(path, 'utf8');
+      expect(written).toContain('# Reports — Status report');
+      expect(written).toContain('### New (1)');
+      expect(written).toContain('##### Notes\n\nDone soon');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Export bundle - everything a report needs, gathered through a DataAdapter
+ *
+ * A bundle is built once per export and handed to the format renderers, so
+ * every format sees the same snapshot whether the adapter is local or remote.
+ */
+
+import type { Task, Feature, Project, Section, EntityType } from '@allpepper/task-orchestrator';
+import type { DataAdapter, Result, TaskSearchParams } from '../adapters/types';
+import { TASK_STATUS_ORDER } from '../lib/colors';
+
+/** Bumped when the JSON dump changes shape */
+export const EXPORT_BUNDLE_VERSION = 1;
+
+const EXPORT_LIMIT = 1000;
+
+export type ExportScope =
+  | { type: 'project'; id: string }
+  | { type: 'feature'; id: string }
+  | { type: 'tasks'; params: TaskSearchParams };
+
+export interface ExportBundle {
+  version: number;
+  exportedAt: Date;
+  /** Report heading: project or feature name, or "Tasks" for a filtered set */
+  title: string;
+  scope: ExportScope;
+  project: Project | null;
+  features: Feature[];
+  tasks: Task[];
+  /** Sections of every exported project, feature and task, in ordinal order */
+  sections: Section[];
+}
+
+async function sectionsFor(
+  adapter: DataAdapter,
+  entities: Array<{ type: 'PROJECT' | 'FEATURE' | 'TASK'; id: string }>
+): Promise<Result<Section[]>> {
+  const results = await Promise.all(
+    entities.map((entity) => adapter.getSections(entity.type as EntityType, entity.id))
+  );
+  const failed = results.find((result) => !result.success);
+  if (failed && !failed.success) return failed;
+
+  return {
+    success: true,
+    data: results.flatMap((result) => (result.success ? result.data : [])),
+  };
+}
+
+async function finish(
+  adapter: DataAdapter,
+  bundle: Omit<ExportBundle, 'version' | 'exportedAt' | 'sections'>
+): Promise<Result<ExportBundle>> {
+  const sections = await sectionsFor(adapter, [
+    ...(bundle.project ? [{ type: 'PROJECT' as const, id: bundle.project.id }] : []),
+    ...bundle.features.map((feature) => ({ type: 'FEATURE' as const, id: feature.id })),
+    ...bundle.tasks.map((task) => ({ type: 'TASK' as const, id: task.id })),
+  ]);
+  if (!sections.success) return sections;
+
+  return {
+    success: true,
+    data: { version: EXPORT_BUNDLE_VERSION, exportedAt: new Date(), ...bundle, sections: sections.data },
+  };
+}
+
+/**
+ * Load a project, a feature or a filtered set of tasks with their sections
+ */
+export async function collectExport(adapter: DataAdapter, scope: ExportScope): Promise<Result<ExportBundle>> {
+  if (scope.type === 'project') {
+    const [projectResult, featuresResult, tasksResult] = await Promise.all([
+      adapter.getProject(scope.id),
+      adapter.getFeatures({ projectId: scope.id, limit: EXPORT_LIMIT }),
+      adapter.getTasks({ projectId: scope.id, limit: EXPORT_LIMIT }),
+    ]);
+    if (!projectResult.success) return projectResult;
+    if (!featuresResult.success) return featuresResult;
+    if (!tasksResult.success) return tasksResult;
+
+    return finish(adapter, {
+      title: projectResult.data.name,
+      scope,
+      project: projectResult.data,
+      features: featuresResult.data,
+      tasks: tasksResult.data,
+    });
+  }
+
+  if (scope.type === 'feature') {
+    const [featureResult, tasksResult] = await Promise.all([
+      adapter.getFeature(scope.id),
+      adapter.getTasks({ featureId: scope.id, limit: EXPORT_LIMIT }),
+    ]);
+    if (!featureResult.success) return featureResult;
+    if (!tasksResult.success) return tasksResult;
+
+    return finish(adapter, {
+      title: featureResult.data.name,
+      scope,
+      project: null,
+      features: [featureResult.data],
+      tasks: tasksResult.data,
+    });
+  }
+
+  const tasksResult = await adapter.getTasks({ limit: EXPORT_LIMIT, ...scope.params });
+  if (!tasksResult.success) return tasksResult;
+
+  return finish(adapter, { title: 'Tasks', scope, project: null, features: [], tasks: tasksResult.data });
+}
+
+/**
+ * Tasks grouped by status in pipeline order; unknown statuses go last
+ */
+export function groupTasksByStatus(tasks: Task[]): Array<{ status: string; tasks: Task[] }> {
+  const statuses = [
+    ...TASK_STATUS_ORDER,
+    ...new Set(tasks.map((task) => task.status).filter((status) => !TASK_STATUS_ORDER.includes(status))),
+  ];
+  return statuses
+    .map((status) => ({ status, tasks: tasks.filter((task) => task.status === status) }))
+    .filter((group) => group.tasks.length > 0);
+}
+
+export function sectionsOf(bundle: ExportBundle, entityId: string): Section[] {
+  return bundle.sections
+    .filter((section) => section.entityId === entityId)
+    .sort((a, b) => a.ordinal - b.ordinal);
+}
+
+/**
+ * Tasks of each exported feature, then the tasks outside them
+ */
+export function tasksByFeature(bundle: ExportBundle): { byFeature: Map<string, Task[]>; unassigned: Task[] } {
+  const byFeature = new Map<string, Task[]>(bundle.features.map((feature) => [feature.id, []]));
+  const unassigned: Task[] = [];
+  for (const task of bundle.tasks) {
+    const tasks = task.featureId ? byFeature.get(task.featureId) : undefined;
+    if (tasks) tasks.push(task);
+    else unassigned.push(task);
+  }
+  return { byFeature, unassigned };
+}
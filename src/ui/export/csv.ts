@@ -0,0 +1,35 @@
+/**
+ * CSV of tasks, one row per task (RFC 4180 quoting)
+ */
+
+import type { Task } from '@allpepper/task-orchestrator';
+import type { ExportBundle } from './bundle';
+
+const CSV_COLUMNS: Array<[string, (task: Task, featureNames: Map<string, string>) => string]> = [
+  ['id', (task) => task.id],
+  ['title', (task) => task.title],
+  ['status', (task) => task.status],
+  ['priority', (task) => task.priority],
+  ['complexity', (task) => String(task.complexity)],
+  ['feature', (task, featureNames) => (task.featureId ? featureNames.get(task.featureId) ?? task.featureId : '')],
+  ['project_id', (task) => task.projectId ?? ''],
+  ['feature_id', (task) => task.featureId ?? ''],
+  ['tags', (task) => (task.tags ?? []).join(';')],
+  ['blocked_by', (task) => task.blockedBy.join(';')],
+  ['summary', (task) => task.summary],
+  ['created_at', (task) => task.createdAt.toISOString()],
+  ['modified_at', (task) => task.modifiedAt.toISOString()],
+];
+
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function renderCsv(bundle: ExportBundle): string {
+  const featureNames = new Map(bundle.features.map((feature) => [feature.id, feature.name]));
+  const rows = [
+    CSV_COLUMNS.map(([name]) => name),
+    ...bundle.tasks.map((task) => CSV_COLUMNS.map(([, value]) => value(task, featureNames))),
+  ];
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,127 @@
+/**
+ * Self-contained HTML report: the Markdown report's structure with inline
+ * styles and status colours, no external assets
+ */
+
+import type { Section, Task } from '@allpepper/task-orchestrator';
+import { lightTheme } from '../themes/light';
+import { getStatusColor } from '../lib/colors';
+import { formatStatus } from '../lib/format';
+import { groupTasksByStatus, sectionsOf, tasksByFeature, type ExportBundle } from './bundle';
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #1a1a2e; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { margin-bottom: 0; }
+  .meta { color: #6b7280; margin-top: 0.25rem; }
+  .bar { display: flex; height: 0.75rem; border-radius: 0.375rem; overflow: hidden; margin: 1rem 0; }
+  .status { display: inline-block; padding: 0 0.5rem; border-radius: 0.75rem; color: #fff; font-size: 0.8rem; }
+  table { border-collapse: collapse; }
+  td, th { border: 1px solid #d0d0e0; padding: 0.25rem 0.75rem; text-align: left; }
+  ul.tasks { list-style: none; padding-left: 0; }
+  ul.tasks li { margin: 0.25rem 0; }
+  .muted { color: #6b7280; }
+  section.feature { border-top: 1px solid #d0d0e0; margin-top: 1.5rem; }
+  pre { white-space: pre-wrap; background: #f5f5fa; padding: 0.75rem; border-radius: 0.375rem; }
+`;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function statusPill(status: string): string {
+  return `<span class="status" style="background:${getStatusColor(status, lightTheme)}">${escapeHtml(formatStatus(status))}</span>`;
+}
+
+function renderSection(section: Section, level: number): string {
+  return `<h${level}>${escapeHtml(section.title)}</h${level}>\n<pre>${escapeHtml(section.content.trim())}</pre>`;
+}
+
+function renderTask(bundle: ExportBundle, task: Task): string {
+  const details = [task.priority, `complexity ${task.complexity}`];
+  if (task.blockedBy.length > 0) details.push(`blocked by ${task.blockedBy.length}`);
+  if (task.tags && task.tags.length > 0) details.push(task.tags.map((tag) => `#${tag}`).join(' '));
+  const sections = sectionsOf(bundle, task.id).map((section) => renderSection(section, 5)).join('\n');
+  return `<li>${statusPill(task.status)} <strong>${escapeHtml(task.title)}</strong> <span class="muted">(${escapeHtml(details.join(', '))})</span> — ${escapeHtml(task.summary)}${sections ? `\n${sections}` : ''}</li>`;
+}
+
+function renderTaskGroups(bundle: ExportBundle, tasks: Task[], level: number): string {
+  return groupTasksByStatus(tasks)
+    .map((group) => [
+      `<h${level}>${escapeHtml(formatStatus(group.status))} (${group.tasks.length})</h${level}>`,
+      `<ul class="tasks">\n${group.tasks.map((task) => renderTask(bundle, task)).join('\n')}\n</ul>`,
+    ].join('\n'))
+    .join('\n');
+}
+
+function renderStatusBar(tasks: Task[]): string {
+  if (tasks.length === 0) return '';
+  const segments = groupTasksByStatus(tasks).map((group) => {
+    const width = (group.tasks.length / tasks.length) * 100;
+    return `<div title="${escapeHtml(formatStatus(group.status))}: ${group.tasks.length}" style="width:${width.toFixed(2)}%;background:${getStatusColor(group.status, lightTheme)}"></div>`;
+  });
+  return `<div class="bar">${segments.join('')}</div>`;
+}
+
+export function renderHtml(bundle: ExportBundle): string {
+  const body: string[] = [
+    `<h1>${escapeHtml(bundle.title)}</h1>`,
+    `<p class="meta">Status report · exported ${escapeHtml(bundle.exportedAt.toISOString())}</p>`,
+  ];
+  const lead = bundle.project ?? (bundle.scope.type === 'feature' ? bundle.features[0] : undefined);
+  if (lead) {
+    body.push(`<p>${escapeHtml(lead.summary)}</p>`);
+    if (lead.description) body.push(`<pre>${escapeHtml(lead.description)}</pre>`);
+  }
+
+  body.push('<h2>Summary</h2>', renderStatusBar(bundle.tasks));
+  body.push(
+    '<table>\n<tr><th>Status</th><th>Tasks</th></tr>\n' +
+      groupTasksByStatus(bundle.tasks)
+        .map((group) => `<tr><td>${statusPill(group.status)}</td><td>${group.tasks.length}</td></tr>`)
+        .join('\n') +
+      `\n<tr><th>Total</th><th>${bundle.tasks.length}</th></tr>\n</table>`
+  );
+
+  const leadSections = lead ? sectionsOf(bundle, lead.id) : [];
+  body.push(...leadSections.map((section) => renderSection(section, 2)));
+
+  const { byFeature, unassigned } = tasksByFeature(bundle);
+  if (bundle.scope.type === 'feature') {
+    body.push('<h2>Tasks</h2>', renderTaskGroups(bundle, bundle.tasks, 3));
+  } else {
+    if (bundle.features.length > 0) body.push('<h2>Features</h2>');
+    for (const feature of bundle.features) {
+      const tasks = byFeature.get(feature.id) ?? [];
+      body.push(
+        '<section class="feature">',
+        `<h3>${escapeHtml(feature.name)} ${statusPill(feature.status)}</h3>`,
+        `<p>${escapeHtml(feature.summary)}</p>`,
+        renderStatusBar(tasks),
+        ...sectionsOf(bundle, feature.id).map((section) => renderSection(section, 4)),
+        renderTaskGroups(bundle, tasks, 4),
+        '</section>'
+      );
+    }
+    if (unassigned.length > 0) {
+      body.push(`<h2>${bundle.features.length > 0 ? 'Other tasks' : 'Tasks'}</h2>`, renderTaskGroups(bundle, unassigned, 3));
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(bundle.title)} — Status report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body.filter(Boolean).join('\n')}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,100 @@
+/**
+ * Export - reports and dumps of a project, a feature or a filtered task set
+ *
+ * `collectExport` loads a bundle through any DataAdapter; the renderers turn
+ * it into Markdown, JSON, CSV or HTML. The JSON dump is the bundle itself
+ * (dates as ISO strings), so nothing is lost.
+ */
+
+import { writeFile } from 'node:fs/promises';
+import type { DataAdapter, Result } from '../adapters/types';
+import { collectExport, type ExportBundle, type ExportScope } from './bundle';
+import { renderMarkdown } from './markdown';
+import { renderCsv } from './csv';
+import { renderHtml } from './html';
+
+export {
+  collectExport,
+  groupTasksByStatus,
+  sectionsOf,
+  tasksByFeature,
+  EXPORT_BUNDLE_VERSION,
+  type ExportBundle,
+  type ExportScope,
+} from './bundle';
+export { renderMarkdown } from './markdown';
+export { renderCsv, escapeCsvField } from './csv';
+export { renderHtml, escapeHtml } from './html';
+
+export const EXPORT_FORMATS = ['markdown', 'json', 'csv', 'html'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  csv: 'csv',
+  html: 'html',
+};
+
+/**
+ * Accepts a format name or its file extension (`md`, `markdown`, ...)
+ */
+export function parseExportFormat(value: string): ExportFormat | null {
+  const normalized = value.trim().toLowerCase();
+  return EXPORT_FORMATS.find((format) => format === normalized || EXPORT_EXTENSIONS[format] === normalized) ?? null;
+}
+
+export function renderJson(bundle: ExportBundle): string {
+  return `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+export function renderExport(bundle: ExportBundle, format: ExportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(bundle);
+    case 'json':
+      return renderJson(bundle);
+    case 'csv':
+      return renderCsv(bundle);
+    case 'html':
+      return renderHtml(bundle);
+  }
+}
+
+/**
+ * `<slug>-<yyyy-mm-dd>.<ext>` in the current directory
+ * @example defaultExportPath('Mobile App', 'markdown') // "mobile-app-2026-03-11.md"
+ */
+export function defaultExportPath(title: string, format: ExportFormat, date: Date = new Date()): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+  return `${slug}-${date.toISOString().slice(0, 10)}.${EXPORT_EXTENSIONS[format]}`;
+}
+
+/**
+ * Render a bundle to a file; without a path, writes `defaultExportPath` in
+ * the current directory. Returns the path written.
+ */
+export async function writeExport(bundle: ExportBundle, format: ExportFormat, path?: string): Promise<Result<string>> {
+  const target = path?.trim() || defaultExportPath(bundle.title, format, bundle.exportedAt);
+  try {
+    await writeFile(target, renderExport(bundle, format), 'utf8');
+    return { success: true, data: target };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Cannot write ${target}: ${error instanceof Error ? error.message : String(error)}`,
+      code: 'IO_ERROR',
+    };
+  }
+}
+
+export async function exportToFile(
+  adapter: DataAdapter,
+  scope: ExportScope,
+  format: ExportFormat,
+  path?: string
+): Promise<Result<string>> {
+  const bundle = await collectExport(adapter, scope);
+  return bundle.success ? writeExport(bundle.data, format, path) : bundle;
+}
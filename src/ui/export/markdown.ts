@@ -0,0 +1,97 @@
+/**
+ * Markdown status report: summary counts, features with their tasks grouped
+ * by status, and every section rendered in place
+ */
+
+import type { Section, Task } from '@allpepper/task-orchestrator';
+import { formatStatus } from '../lib/format';
+import { isCompletedStatus } from '../lib/colors';
+import { groupTasksByStatus, sectionsOf, tasksByFeature, type ExportBundle } from './bundle';
+
+function renderSection(section: Section, level: number): string {
+  const heading = `${'#'.repeat(level)} ${section.title}`;
+  const content = section.content.trim();
+  if (section.contentFormat === 'JSON' || section.contentFormat === 'CODE') {
+    const language = section.contentFormat === 'JSON' ? 'json' : '';
+    return `${heading}\n\n\`\`\`${language}\n${content}\n\`\`\``;
+  }
+  return content ? `${heading}\n\n${content}` : heading;
+}
+
+function renderTask(task: Task): string {
+  const checkbox = task.status === 'CLOSED' ? '[x]' : '[ ]';
+  const details = [task.priority, `complexity ${task.complexity}`];
+  if (task.blockedBy.length > 0) details.push(`blocked by ${task.blockedBy.length}`);
+  if (task.tags && task.tags.length > 0) details.push(task.tags.map((tag) => `#${tag}`).join(' '));
+  return `- ${checkbox} **${task.title}** (${details.join(', ')}) — ${task.summary}`;
+}
+
+function renderTaskGroups(bundle: ExportBundle, tasks: Task[], level: number): string[] {
+  const blocks: string[] = [];
+  for (const group of groupTasksByStatus(tasks)) {
+    blocks.push(`${'#'.repeat(level)} ${formatStatus(group.status)} (${group.tasks.length})`);
+    blocks.push(group.tasks.map(renderTask).join('\n'));
+    for (const task of group.tasks) {
+      const sections = sectionsOf(bundle, task.id);
+      if (sections.length === 0) continue;
+      blocks.push(`${'#'.repeat(level + 1)} ${task.title}`);
+      blocks.push(...sections.map((section) => renderSection(section, level + 2)));
+    }
+  }
+  return blocks;
+}
+
+function progress(tasks: Task[]): string {
+  const done = tasks.filter((task) => isCompletedStatus(task.status)).length;
+  return `${done}/${tasks.length} tasks done`;
+}
+
+export function renderMarkdown(bundle: ExportBundle): string {
+  const blocks: string[] = [`# ${bundle.title} — Status report`, `_Exported ${bundle.exportedAt.toISOString()}_`];
+  const lead = bundle.project ?? (bundle.scope.type === 'feature' ? bundle.features[0] : undefined);
+  if (lead) {
+    blocks.push(lead.summary);
+    if (lead.description) blocks.push(lead.description);
+  }
+
+  blocks.push('## Summary');
+  blocks.push(
+    [
+      '| Status | Tasks |',
+      '| --- | --- |',
+      ...groupTasksByStatus(bundle.tasks).map((group) => `| ${formatStatus(group.status)} | ${group.tasks.length} |`),
+      `| **Total** | **${bundle.tasks.length}** |`,
+    ].join('\n')
+  );
+
+  if (bundle.project) {
+    blocks.push(...sectionsOf(bundle, bundle.project.id).map((section) => renderSection(section, 2)));
+  }
+
+  const { byFeature, unassigned } = tasksByFeature(bundle);
+  if (bundle.scope.type === 'feature') {
+    const feature = bundle.features[0];
+    if (feature) blocks.push(...sectionsOf(bundle, feature.id).map((section) => renderSection(section, 2)));
+    blocks.push('## Tasks');
+    blocks.push(...renderTaskGroups(bundle, bundle.tasks, 3));
+    return `${blocks.join('\n\n')}\n`;
+  }
+
+  if (bundle.features.length > 0) {
+    blocks.push('## Features');
+    for (const feature of bundle.features) {
+      const tasks = byFeature.get(feature.id) ?? [];
+      blocks.push(`### ${feature.name}`);
+      blocks.push(`${formatStatus(feature.status)} · ${feature.priority} · ${progress(tasks)}\n\n${feature.summary}`);
+      blocks.push(...sectionsOf(bundle, feature.id).map((section) => renderSection(section, 4)));
+      blocks.push(...renderTaskGroups(bundle, tasks, 4));
+    }
+  }
+
+  if (unassigned.length > 0) {
+    blocks.push(bundle.features.length > 0 ? '## Other tasks' : '## Tasks');
+    blocks.push(...renderTaskGroups(bundle, unassigned, 3));
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
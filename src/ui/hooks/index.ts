@@ -10,11 +10,27 @@ export {
   useProjectTree,
   useTask,
   useSearch,
+  useTaskSearch,
   calculateTaskCounts,
   calculateTaskCountsByProject,
   type TaskCounts,
   type ProjectWithCounts,
 } from './use-data';
 export { useDebounce } from './use-debounce';
-export { useNavigation } from './use-navigation';
+export { useLiveRefresh } from './use-live-refresh';
+export { useActivity } from './use-activity';
+export { useProjectMetrics } from './use-metrics';
+export { useTaskHistory, type TaskHistoryScope } from './use-task-history';
+export { useNavigation, useNavigationState } from './use-navigation';
 export { useKanban } from './use-kanban';
+export { useDependencyValidation } from './use-dependency-validation';
+export { useBulkActions, useMultiSelect, runBulkAction } from './use-bulk-actions';
+export { useTags } from './use-tags';
+export { useGoToItems } from './use-go-to';
+export { useSectionActions, parseContentFormat, type SectionDraft } from './use-section-actions';
+export {
+  useConflictResolution,
+  isConflict,
+  type EditConflict,
+  type TransitionAction,
+} from './use-conflict-resolution';
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAdapter } from '../context/adapter-context';
+import { changeAffects } from '../adapters/change-watcher';
+import type { ActivityEntry, ActivityParams } from '../adapters/types';
+import type { LoadOptions } from './use-data';
+import { useLiveRefresh } from './use-live-refresh';
+
+/**
+ * Hook for the activity log, optionally scoped to a project or an entity
+ * (the entity's own rows plus those of its children and sections)
+ */
+export function useActivity({ projectId, entityId, actor, limit }: ActivityParams = {}) {
+  const { adapter } = useAdapter();
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
+    setError(null);
+
+    const result = await adapter.getActivity({ projectId, entityId, actor, limit });
+    if (result.success) {
+      setEntries(result.data);
+    } else {
+      setError(result.error);
+    }
+    setLoading(false);
+  }, [adapter, projectId, entityId, actor, limit]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Every write adds a row, so any change in scope may mean new activity
+  useLiveRefresh(
+    (change) => (!projectId && !entityId) || changeAffects(change, [projectId, entityId]),
+    () => load({ silent: true })
+  );
+
+  return {
+    entries,
+    loading,
+    error,
+    refresh: load,
+  };
+}
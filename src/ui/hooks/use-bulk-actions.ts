@@ -0,0 +1,135 @@
+import { useCallback, useRef, useState } from 'react';
+import { useAdapter } from '../context/adapter-context';
+import type { DataAdapter, Result } from '../adapters/types';
+import type { UndoHistory } from '../adapters/undo-history';
+import {
+  describeBulkAction,
+  orderBulkItems,
+  rangeKeys,
+  type BulkAction,
+  type BulkItem,
+  type BulkItemResult,
+} from '../lib/bulk';
+
+interface UseMultiSelectReturn {
+  marked: Set<string>;
+  /** Mark or unmark one key; it becomes the anchor for the next range */
+  toggle: (key: string) => void;
+  /** Mark everything from the anchor to `keys[index]` */
+  markRange: (keys: string[], index: number) => void;
+  /** Replace the marks, e.g. with the items that failed */
+  setMarked: (keys: Iterable<string>) => void;
+  clear: () => void;
+}
+
+/**
+ * Marked rows or cards for bulk actions. Space toggles a mark, `V` extends
+ * the marks from the last toggled key to the cursor.
+ */
+export function useMultiSelect(): UseMultiSelectReturn {
+  const [marked, setMarkedState] = useState<Set<string>>(() => new Set());
+  const anchor = useRef<string | null>(null);
+
+  const toggle = useCallback((key: string) => {
+    setMarkedState((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+    anchor.current = key;
+  }, []);
+
+  const markRange = useCallback((keys: string[], index: number) => {
+    const range = rangeKeys(keys, anchor.current, index);
+    if (range.length === 0) return;
+    setMarkedState((prev) => new Set([...prev, ...range]));
+    anchor.current = keys[index] ?? anchor.current;
+  }, []);
+
+  const setMarked = useCallback((keys: Iterable<string>) => {
+    setMarkedState(new Set(keys));
+  }, []);
+
+  const clear = useCallback(() => {
+    setMarkedState(new Set());
+    anchor.current = null;
+  }, []);
+
+  return { marked, toggle, markRange, setMarked, clear };
+}
+
+function withTags(current: string[] | undefined, action: BulkAction): string[] {
+  const tags = current ?? [];
+  if (action.kind === 'add-tags') return [...new Set([...tags, ...action.tags])];
+  if (action.kind === 'remove-tags') return tags.filter((tag) => !action.tags.includes(tag));
+  return tags;
+}
+
+function applyToItem(adapter: DataAdapter, item: BulkItem, action: BulkAction): Promise<Result<unknown>> {
+  const { entity } = item;
+  switch (action.kind) {
+    case 'advance':
+    case 'revert':
+    case 'terminate':
+      return adapter[action.kind](item.type, entity.id, entity.version);
+    case 'priority':
+      return item.type === 'task'
+        ? adapter.updateTask(entity.id, { priority: action.priority, version: entity.version })
+        : adapter.updateFeature(entity.id, { priority: action.priority, version: entity.version });
+    case 'add-tags':
+    case 'remove-tags': {
+      const tags = withTags(entity.tags, action);
+      return item.type === 'task'
+        ? adapter.updateTask(entity.id, { tags, version: entity.version })
+        : adapter.updateFeature(entity.id, { tags, version: entity.version });
+    }
+    case 'move':
+      if (item.type === 'feature') {
+        return Promise.resolve({ success: false, error: 'Features cannot be moved into a feature', code: 'VALIDATION_ERROR' });
+      }
+      return adapter.updateTask(entity.id, { featureId: action.featureId, version: entity.version });
+    case 'delete':
+      return item.type === 'task' ? adapter.deleteTask(entity.id) : adapter.deleteFeature(entity.id, { cascade: true });
+  }
+}
+
+/**
+ * Run one action over many items, one write at a time; tasks go before
+ * features. Every item gets a result whether or not the others fail. With a
+ * history, the items that succeeded undo together as one step.
+ */
+export async function runBulkAction(
+  adapter: DataAdapter,
+  items: BulkItem[],
+  action: BulkAction,
+  history?: UndoHistory | null
+): Promise<BulkItemResult[]> {
+  const runAll = async () => {
+    const results: BulkItemResult[] = [];
+    for (const item of orderBulkItems(items)) {
+      const result = await applyToItem(adapter, item, action);
+      results.push(result.success ? { item, success: true } : { item, success: false, error: result.error, code: result.code });
+    }
+    return results;
+  };
+
+  // The confirmation question, e.g. "Advance 3 tasks?", minus the question
+  const label = describeBulkAction(action, items).replace(/\?.*$/, '');
+  return history ? history.batch(label, runAll) : runAll();
+}
+
+/**
+ * Bulk actions through the current adapter. Callers refresh their own data
+ * once the results are in.
+ */
+export function useBulkActions(): { run: (items: BulkItem[], action: BulkAction) => Promise<BulkItemResult[]> } {
+  const { adapter, history } = useAdapter();
+
+  const run = useCallback(
+    (items: BulkItem[], action: BulkAction) => runBulkAction(adapter, items, action, history),
+    [adapter, history]
+  );
+
+  return { run };
+}
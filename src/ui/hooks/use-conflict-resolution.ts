@@ -0,0 +1,223 @@
+import { useCallback, useState } from 'react';
+import { useAdapter } from '../context/adapter-context';
+import type { Feature, Project, Task } from '@allpepper/task-orchestrator';
+import type { DataAdapter, Result, TransitionResult } from '../adapters/types';
+import {
+  diffEditValues,
+  featureEditValues,
+  featureUpdateParams,
+  FEATURE_EDIT_FIELDS,
+  projectEditValues,
+  projectUpdateParams,
+  PROJECT_EDIT_FIELDS,
+  taskEditValues,
+  taskUpdateParams,
+  TASK_EDIT_FIELDS,
+  type ConflictField,
+  type EditFieldSpec,
+  type EditValues,
+} from '../lib/conflict';
+
+export type TransitionAction = 'advance' | 'revert' | 'terminate';
+
+/**
+ * A rejected write waiting for the user to pick a resolution
+ */
+export interface EditConflict {
+  /** Entity label, e.g. `Task "Write docs"` */
+  title: string;
+  fields: ConflictField[];
+  /** Values currently stored */
+  theirs: EditValues;
+  /** Field edits can be merged; transitions can only be retried or dropped */
+  mergeable: boolean;
+}
+
+interface PendingConflict {
+  conflict: EditConflict;
+  retry: () => Promise<Result<unknown>>;
+  merge: (values: EditValues) => Promise<Result<unknown>>;
+}
+
+interface EditSpec<T extends { id: string; version: number }> {
+  fields: EditFieldSpec[];
+  label: (entity: T) => string;
+  toValues: (entity: T) => EditValues;
+  fetch: (adapter: DataAdapter, id: string) => Promise<Result<T>>;
+  save: (adapter: DataAdapter, entity: T, values: EditValues) => Promise<Result<T>>;
+}
+
+const TASK_SPEC: EditSpec<Task> = {
+  fields: TASK_EDIT_FIELDS,
+  label: (task) => `Task "${task.title}"`,
+  toValues: taskEditValues,
+  fetch: (adapter, id) => adapter.getTask(id),
+  save: (adapter, task, values) =>
+    adapter.updateTask(task.id, { ...taskUpdateParams(values, task), version: task.version }),
+};
+
+const FEATURE_SPEC: EditSpec<Feature> = {
+  fields: FEATURE_EDIT_FIELDS,
+  label: (feature) => `Feature "${feature.name}"`,
+  toValues: featureEditValues,
+  fetch: (adapter, id) => adapter.getFeature(id),
+  save: (adapter, feature, values) =>
+    adapter.updateFeature(feature.id, { ...featureUpdateParams(values, feature), version: feature.version }),
+};
+
+const PROJECT_SPEC: EditSpec<Project> = {
+  fields: PROJECT_EDIT_FIELDS,
+  label: (project) => `Project "${project.name}"`,
+  toValues: projectEditValues,
+  fetch: (adapter, id) => adapter.getProject(id),
+  save: (adapter, project, values) =>
+    adapter.updateProject(project.id, { ...projectUpdateParams(values, project), version: project.version }),
+};
+
+/**
+ * Whether a failed write was turned into a pending conflict (the caller
+ * should not report it as an error)
+ */
+export function isConflict(result: Result<unknown>): boolean {
+  return !result.success && result.code === 'CONFLICT';
+}
+
+/**
+ * Version-checked writes that open a resolution flow instead of failing.
+ *
+ * When a write is rejected because the entity moved on, the latest version is
+ * fetched and exposed as `conflict`; render a ConflictDialog for it and call
+ * `retry`, `merge` or `dismiss`. Callers refresh their own data once an
+ * operation resolves, as with useSectionActions.
+ */
+export function useConflictResolution() {
+  const { adapter } = useAdapter();
+  const [pending, setPending] = useState<PendingConflict | null>(null);
+
+  const attemptEdit = useCallback(
+    async <T extends { id: string; version: number }>(
+      spec: EditSpec<T>,
+      base: T,
+      mine: EditValues
+    ): Promise<Result<T>> => {
+      const result = await spec.save(adapter, base, mine);
+      if (result.success || result.code !== 'CONFLICT') return result;
+
+      const latest = await spec.fetch(adapter, base.id);
+      if (!latest.success) return latest;
+
+      const theirs = spec.toValues(latest.data);
+      setPending({
+        conflict: {
+          title: spec.label(latest.data),
+          fields: diffEditValues(spec.fields, spec.toValues(base), mine, theirs),
+          theirs,
+          mergeable: true,
+        },
+        retry: () => attemptEdit(spec, latest.data, mine),
+        merge: (values) => attemptEdit(spec, latest.data, values),
+      });
+      return result;
+    },
+    [adapter]
+  );
+
+  const updateTask = useCallback(
+    (task: Task, values: EditValues) => attemptEdit(TASK_SPEC, task, values),
+    [attemptEdit]
+  );
+
+  const updateFeature = useCallback(
+    (feature: Feature, values: EditValues) => attemptEdit(FEATURE_SPEC, feature, values),
+    [attemptEdit]
+  );
+
+  const updateProject = useCallback(
+    (project: Project, values: EditValues) => attemptEdit(PROJECT_SPEC, project, values),
+    [attemptEdit]
+  );
+
+  const transition = useCallback(
+    async function run<T extends Task | Feature>(
+      spec: EditSpec<T>,
+      containerType: 'task' | 'feature',
+      entity: T,
+      action: TransitionAction
+    ): Promise<Result<TransitionResult>> {
+      const result = await adapter[action](containerType, entity.id, entity.version);
+      if (result.success || result.code !== 'CONFLICT') return result;
+
+      const latest = await spec.fetch(adapter, entity.id);
+      if (!latest.success) return latest;
+
+      const before = spec.toValues(entity);
+      const theirs = spec.toValues(latest.data);
+      const retry = () => run(spec, containerType, latest.data, action);
+      setPending({
+        conflict: {
+          title: spec.label(latest.data),
+          fields: [
+            {
+              key: 'action',
+              label: 'Pending',
+              readOnly: true,
+              base: entity.status,
+              mine: `${action} from ${entity.status}`,
+              theirs: latest.data.status,
+              conflicting: latest.data.status !== entity.status,
+            },
+            ...diffEditValues(spec.fields, before, before, theirs),
+          ],
+          theirs,
+          mergeable: false,
+        },
+        retry,
+        merge: retry,
+      });
+      return result;
+    },
+    [adapter]
+  );
+
+  const transitionTask = useCallback(
+    (task: Task, action: TransitionAction) => transition(TASK_SPEC, 'task', task, action),
+    [transition]
+  );
+
+  const transitionFeature = useCallback(
+    (feature: Feature, action: TransitionAction) => transition(FEATURE_SPEC, 'feature', feature, action),
+    [transition]
+  );
+
+  /** Resubmit the user's values against the latest version */
+  const retry = useCallback(async (): Promise<Result<unknown>> => {
+    if (!pending) return { success: true, data: null };
+    setPending(null);
+    return pending.retry();
+  }, [pending]);
+
+  /** Save merged values against the latest version */
+  const merge = useCallback(
+    async (values: EditValues): Promise<Result<unknown>> => {
+      if (!pending) return { success: true, data: null };
+      setPending(null);
+      return pending.merge(values);
+    },
+    [pending]
+  );
+
+  /** Drop the user's change and keep what is stored */
+  const dismiss = useCallback(() => setPending(null), []);
+
+  return {
+    conflict: pending?.conflict ?? null,
+    updateTask,
+    updateFeature,
+    updateProject,
+    transitionTask,
+    transitionFeature,
+    retry,
+    merge,
+    dismiss,
+  };
+}
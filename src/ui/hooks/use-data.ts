@@ -3,7 +3,18 @@ import { useAdapter } from '../context/adapter-context';
 import type { Project, Task, Feature, Section, EntityType, Priority } from '@allpepper/task-orchestrator';
 import type { FeatureWithTasks, ProjectOverview, SearchResults, DependencyInfo, BoardCard, BoardTask } from '../lib/types';
 import type { TreeRow } from '../../tui/components/tree-view';
-import { isCompletedStatus } from '../lib/colors';
+import { isCompletedStatus, TASK_STATUS_ORDER } from '../lib/colors';
+import { changeAffects } from '../adapters/change-watcher';
+import { useLiveRefresh } from './use-live-refresh';
+import { filterFeaturesByTags, matchesTags } from '../lib/tags';
+
+/**
+ * Options for reloading hook data
+ */
+export interface LoadOptions {
+  /** Keep the current data on screen instead of entering the loading state (live refresh) */
+  silent?: boolean;
+}
 
 /**
  * Task counts structure
@@ -88,8 +99,8 @@ export function useProjects() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const loadProjects = useCallback(async () => {
-    setLoading(true);
+  const loadProjects = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
     setError(null);
 
     const [projectsResult, tasksResult, featuresResult] = await Promise.all([
@@ -126,6 +137,12 @@ export function useProjects() {
     loadProjects();
   }, [loadProjects]);
 
+  // Counts depend on every project, feature and task
+  useLiveRefresh(
+    (change) => change.entityType !== 'section',
+    () => loadProjects({ silent: true })
+  );
+
   return {
     projects,
     loading,
@@ -144,8 +161,8 @@ export function useProjectOverview(id: string) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const loadProjectOverview = useCallback(async () => {
-    setLoading(true);
+  const loadProjectOverview = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
     setError(null);
 
     const [projectResult, overviewResult] = await Promise.all([
@@ -172,6 +189,11 @@ export function useProjectOverview(id: string) {
     loadProjectOverview();
   }, [loadProjectOverview]);
 
+  useLiveRefresh(
+    (change) => change.entityType !== 'section' && changeAffects(change, [id]),
+    () => loadProjectOverview({ silent: true })
+  );
+
   return {
     project,
     overview,
@@ -181,19 +203,6 @@ export function useProjectOverview(id: string) {
   };
 }
 
-/**
- * v2 pipeline status order for task columns
- * Tasks: NEW → ACTIVE → TO_BE_TESTED → READY_TO_PROD → CLOSED (+ WILL_NOT_IMPLEMENT)
- */
-const TASK_STATUS_ORDER: string[] = [
-  'NEW',
-  'ACTIVE',
-  'TO_BE_TESTED',
-  'READY_TO_PROD',
-  'CLOSED',
-  'WILL_NOT_IMPLEMENT',
-];
-
 /**
  * Priority order for sorting tasks within status groups
  */
@@ -204,7 +213,7 @@ const PRIORITY_ORDER: Record<Priority, number> = {
 };
 
 /**
- * Board status order (subset for kanban view)
+ * Board status order (task kanban columns)
  */
 const BOARD_STATUS_ORDER: string[] = [
   'NEW',
@@ -212,6 +221,7 @@ const BOARD_STATUS_ORDER: string[] = [
   'TO_BE_TESTED',
   'READY_TO_PROD',
   'CLOSED',
+  'WILL_NOT_IMPLEMENT',
 ];
 
 /**
@@ -509,27 +519,36 @@ function buildFeatureStatusGroupedRows(
   return rows;
 }
 
+const NO_TAG_FILTER: ReadonlySet<string> = new Set();
+
 /**
  * Hook for fetching a project tree with features and their tasks.
+ *
+ * External task edits are patched in place (only the changed tasks are
+ * re-fetched); anything else reloads the tree without the loading state.
+ * A non-empty `tagFilter` narrows the features, tasks and grouped rows;
+ * `taskCounts` always cover every task.
  */
-export function useProjectTree(projectId: string, expandedGroups: Set<string> = new Set()) {
+export function useProjectTree(
+  projectId: string,
+  expandedGroups: Set<string> = new Set(),
+  tagFilter: ReadonlySet<string> = NO_TAG_FILTER
+) {
   const { adapter } = useAdapter();
   const [project, setProject] = useState<Project | null>(null);
-  const [features, setFeatures] = useState<FeatureWithTasks[]>([]);
-  const [unassignedTasks, setUnassignedTasks] = useState<Task[]>([]);
-  const [taskCounts, setTaskCounts] = useState<TaskCounts>({ total: 0, completed: 0 });
+  const [projectFeatures, setProjectFeatures] = useState<Feature[]>([]);
   const [allTasks, setAllTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const loadProjectTree = useCallback(async () => {
-    setLoading(true);
+  const loadProjectTree = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
     setError(null);
 
     const [projectResult, featuresResult, tasksResult] = await Promise.all([
       adapter.getProject(projectId),
-      adapter.getFeatures({ projectId }),
-      adapter.getTasks({ projectId }),
+      adapter.getFeatures({ projectId, limit: 1000 }),
+      adapter.getTasks({ projectId, limit: 1000 }),
     ]);
 
     if (!projectResult.success) {
@@ -550,36 +569,78 @@ export function useProjectTree(projectId: string, expandedGroups: Set<string> =
       return;
     }
 
-    const projectData = projectResult.data;
-    const allFeatures = featuresResult.data;
-    const tasks = tasksResult.data;
-
-    const sortedFeatures = [...allFeatures].sort(
+    const sortedFeatures = [...featuresResult.data].sort(
       (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
     );
 
-    const featuresWithTasks: FeatureWithTasks[] = sortedFeatures.map((feature) => ({
-      ...feature,
-      tasks: tasks.filter((task) => task.featureId === feature.id),
-    }));
+    setProject(projectResult.data);
+    setProjectFeatures(sortedFeatures);
+    setAllTasks(tasksResult.data);
+    setLoading(false);
+  }, [adapter, projectId]);
 
-    const unassigned = tasks.filter((task) => !task.featureId);
+  // Re-fetch the given tasks and patch them in place; tasks that were deleted
+  // or moved to another project drop out
+  const reloadTasks = useCallback(async (taskIds: string[]) => {
+    const fresh = new Map<string, Task>();
+    await Promise.all(
+      taskIds.map(async (id) => {
+        const result = await adapter.getTask(id);
+        if (result.success && result.data.projectId === projectId) fresh.set(id, result.data);
+      })
+    );
 
-    setProject(projectData);
-    setFeatures(featuresWithTasks);
-    setUnassignedTasks(unassigned);
-    setAllTasks(tasks);
-    setTaskCounts(calculateTaskCounts(tasks));
-    setLoading(false);
+    setAllTasks((previous) => {
+      const kept = previous.flatMap((task) => {
+        if (!taskIds.includes(task.id)) return [task];
+        const updated = fresh.get(task.id);
+        return updated ? [updated] : [];
+      });
+      const added = [...fresh.values()].filter((task) => !previous.some((existing) => existing.id === task.id));
+      return [...kept, ...added];
+    });
   }, [adapter, projectId]);
 
   useEffect(() => {
     loadProjectTree();
   }, [loadProjectTree]);
 
+  useLiveRefresh(
+    (change) =>
+      change.entityType !== 'section' &&
+      (changeAffects(change, [projectId]) || allTasks.some((task) => task.id === change.id)),
+    (changes) => {
+      const onlyTasks = changes.every((change) => change.entityType === 'task' && change.id !== null);
+      if (onlyTasks) {
+        reloadTasks(changes.map((change) => change.id!));
+      } else {
+        loadProjectTree({ silent: true });
+      }
+    }
+  );
+
+  const features = useMemo<FeatureWithTasks[]>(() => {
+    const withTasks = projectFeatures.map((feature) => ({
+      ...feature,
+      tasks: allTasks.filter((task) => task.featureId === feature.id),
+    }));
+    return filterFeaturesByTags(withTasks, tagFilter);
+  }, [projectFeatures, allTasks, tagFilter]);
+
+  const unassignedTasks = useMemo(
+    () => allTasks.filter((task) => !task.featureId && matchesTags(task.tags, tagFilter)),
+    [allTasks, tagFilter]
+  );
+  const taskCounts = useMemo<TaskCounts>(() => calculateTaskCounts(allTasks), [allTasks]);
+
+  const visibleTasks = useMemo(
+    () => (tagFilter.size === 0 ? allTasks : [...features.flatMap((feature) => feature.tasks), ...unassignedTasks]),
+    [allTasks, features, unassignedTasks, tagFilter]
+  );
+
   const statusGroupedRows = useMemo(() => {
-    return buildStatusGroupedRows(allTasks, features, expandedGroups);
-  }, [allTasks, features, expandedGroups]);
+    return buildStatusGroupedRows(visibleTasks, features, expandedGroups);
+  }, [visibleTasks, features, expandedGroups]);
 
   const featureStatusGroupedRows = useMemo(() => {
     return buildFeatureStatusGroupedRows(features, expandedGroups);
@@ -612,8 +673,8 @@ export function useBoardData(projectId: string) {
     setRefreshTrigger((prev) => prev + 1);
   }, []);
 
-  const loadBoardData = useCallback(async () => {
-    setLoading(true);
+  const loadBoardData = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
     setError(null);
 
     const [tasksResult, featuresResult] = await Promise.all([
@@ -668,6 +729,12 @@ export function useBoardData(projectId: string) {
     loadBoardData();
   }, [loadBoardData, refreshTrigger]);
 
+  useLiveRefresh(
+    (change) =>
+      (change.entityType === 'task' || change.entityType === 'feature') && changeAffects(change, [projectId]),
+    () => loadBoardData({ silent: true })
+  );
+
   return {
     columnsByStatus,
     loading,
@@ -687,8 +754,8 @@ export function useTask(id: string) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const loadTask = useCallback(async () => {
-    setLoading(true);
+  const loadTask = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
     setError(null);
 
     const [taskResult, sectionsResult, dependenciesResult] = await Promise.all([
@@ -722,6 +789,19 @@ export function useTask(id: string) {
     loadTask();
   }, [loadTask]);
 
+  // The task, its sections, or any task shown in its dependency lists
+  useLiveRefresh(
+    (change) => {
+      if (change.entityType === 'section') return changeAffects(change, [id]);
+      if (change.entityType !== 'task') return false;
+      const linked = dependencies
+        ? [...dependencies.blockedBy, ...dependencies.blocks, ...dependencies.relatedTo]
+        : [];
+      return changeAffects(change, [id, ...linked.map((task) => task.id)]);
+    },
+    () => loadTask({ silent: true })
+  );
+
   return {
     task,
     sections,
@@ -742,8 +822,8 @@ export function useFeature(id: string) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const loadFeature = useCallback(async () => {
-    setLoading(true);
+  const loadFeature = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
     setError(null);
 
     const [featureResult, tasksResult, sectionsResult] = await Promise.all([
@@ -778,6 +858,13 @@ export function useFeature(id: string) {
     loadFeature();
   }, [loadFeature]);
 
+  useLiveRefresh(
+    (change) =>
+      change.entityType !== 'project' &&
+      (changeAffects(change, [id]) || !!feature?.tasks.some((task) => task.id === change.id)),
+    () => loadFeature({ silent: true })
+  );
+
   return {
     feature,
     tasks: feature?.tasks || [],
@@ -789,9 +876,15 @@ export function useFeature(id: string) {
 }
 
 /**
- * Hook for performing full-text search across all entities.
+ * Results per entity type on one page of search results
+ */
+export const SEARCH_PAGE_SIZE = 20;
+
+/**
+ * Hook for searching all entities with the query language in lib/search-query,
+ * one page (`page` counts from 0) at a time.
  */
-export function useSearch(query: string) {
+export function useSearch(query: string, page: number = 0, pageSize: number = SEARCH_PAGE_SIZE) {
   const { adapter } = useAdapter();
   const [results, setResults] = useState<SearchResults | null>(null);
   const [loading, setLoading] = useState(false);
@@ -805,11 +898,14 @@ export function useSearch(query: string) {
       return;
     }
 
+    // A slower earlier search must not overwrite a newer one
+    let cancelled = false;
     const performSearch = async () => {
       setLoading(true);
       setError(null);
 
-      const result = await adapter.search(query);
+      const result = await adapter.search(query, { limit: pageSize, offset: page * pageSize });
+      if (cancelled) return;
 
       if (result.success) {
         setResults(result.data);
@@ -822,7 +918,10 @@ export function useSearch(query: string) {
     };
 
     performSearch();
-  }, [adapter, query]);
+    return () => {
+      cancelled = true;
+    };
+  }, [adapter, query, page, pageSize]);
 
   return {
     results,
@@ -830,3 +929,53 @@ export function useSearch(query: string) {
     error,
   };
 }
+
+/**
+ * Hook for looking up tasks to link against.
+ * An empty query lists the given project's tasks; typing searches all tasks.
+ */
+export function useTaskSearch(
+  query: string,
+  options: { projectId?: string; status?: string; limit?: number } = {}
+) {
+  const { adapter } = useAdapter();
+  const { projectId, status, limit = 20 } = options;
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const trimmed = query.trim();
+
+    const performSearch = async () => {
+      setLoading(true);
+      setError(null);
+
+      const result = await adapter.getTasks(
+        trimmed ? { query: trimmed, status, limit } : { projectId, status, limit }
+      );
+      if (cancelled) return;
+
+      if (result.success) {
+        setTasks(result.data);
+      } else {
+        setError(result.error);
+        setTasks([]);
+      }
+
+      setLoading(false);
+    };
+
+    performSearch();
+    return () => {
+      cancelled = true;
+    };
+  }, [adapter, query, projectId, status, limit]);
+
+  return {
+    tasks,
+    loading,
+    error,
+  };
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAdapter } from '../context/adapter-context';
+import type { Task } from '@allpepper/task-orchestrator';
+import {
+  validateDependencyGraph,
+  MANUAL_BLOCKER_ID,
+  type DependencyValidation,
+} from '../lib/dependency-graph';
+import { changeAffects } from '../adapters/change-watcher';
+import type { LoadOptions } from './use-data';
+import { useLiveRefresh } from './use-live-refresh';
+
+const EMPTY_VALIDATION: DependencyValidation = { cycles: [], dangling: [] };
+
+/**
+ * Hook for validating the blockedBy graph of a project's tasks.
+ *
+ * Blockers outside the project are looked up individually so cross-project
+ * tasks and features are not reported as dangling.
+ */
+export function useDependencyValidation(projectId: string) {
+  const { adapter } = useAdapter();
+  const [validation, setValidation] = useState<DependencyValidation>(EMPTY_VALIDATION);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const validate = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
+    setError(null);
+
+    const tasksResult = await adapter.getTasks({ projectId, limit: 1000 });
+    if (!tasksResult.success) {
+      setError(tasksResult.error);
+      setValidation(EMPTY_VALIDATION);
+      setLoading(false);
+      return;
+    }
+
+    const projectTasks = tasksResult.data;
+    const projectIds = new Set(projectTasks.map((task) => task.id));
+    const outsideIds = new Set(
+      projectTasks
+        .flatMap((task) => task.blockedBy)
+        .filter((id) => id !== MANUAL_BLOCKER_ID && !projectIds.has(id))
+    );
+
+    const knownOutside = new Set<string>();
+    await Promise.all(
+      [...outsideIds].map(async (id) => {
+        const taskResult = await adapter.getTask(id);
+        if (taskResult.success) {
+          knownOutside.add(id);
+          return;
+        }
+        const featureResult = await adapter.getFeature(id);
+        if (featureResult.success) {
+          knownOutside.add(id);
+        }
+      })
+    );
+
+    setTasks(projectTasks);
+    setValidation(validateDependencyGraph(projectTasks, (id) => knownOutside.has(id)));
+    setLoading(false);
+  }, [adapter, projectId]);
+
+  useEffect(() => {
+    validate();
+  }, [validate]);
+
+  useLiveRefresh(
+    (change) => change.entityType === 'task' && changeAffects(change, [projectId]),
+    () => validate({ silent: true })
+  );
+
+  return {
+    validation,
+    tasks,
+    loading,
+    error,
+    refresh: validate,
+  };
+}
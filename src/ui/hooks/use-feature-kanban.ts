@@ -3,6 +3,9 @@ import { useAdapter } from '../context/adapter-context';
 import type { Feature, Task } from '@allpepper/task-orchestrator';
 import type { BoardFeature, FeatureBoardColumn } from '../lib/types';
 import { isCompletedStatus } from '../lib/colors';
+import { changeAffects } from '../adapters/change-watcher';
+import type { LoadOptions } from './use-data';
+import { useLiveRefresh } from './use-live-refresh';
 
 /**
  * v2 Feature-status columns for the feature-based Kanban board
@@ -29,7 +32,7 @@ interface UseFeatureKanbanReturn {
  * In v2, features move through the pipeline via advance/revert.
  */
 export function useFeatureKanban(projectId: string): UseFeatureKanbanReturn {
-  const { adapter } = useAdapter();
+  const { adapter, history } = useAdapter();
   const [features, setFeatures] = useState<Feature[]>([]);
   const [tasksByFeature, setTasksByFeature] = useState<Map<string, Task[]>>(new Map());
   const [loading, setLoading] = useState(true);
@@ -40,8 +43,8 @@ export function useFeatureKanban(projectId: string): UseFeatureKanbanReturn {
     setRefreshTrigger((prev) => prev + 1);
   }, []);
 
-  const loadData = useCallback(async () => {
-    setLoading(true);
+  const loadData = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
     setError(null);
 
     const [featuresResult, tasksResult] = await Promise.all([
@@ -79,6 +82,13 @@ export function useFeatureKanban(projectId: string): UseFeatureKanbanReturn {
     loadData();
   }, [loadData, refreshTrigger]);
 
+  useLiveRefresh(
+    (change) =>
+      change.entityType !== 'section' &&
+      (changeAffects(change, [projectId]) || features.some((feature) => feature.id === change.id)),
+    () => loadData({ silent: true })
+  );
+
   const columns = useMemo<FeatureBoardColumn[]>(() => {
     return FEATURE_KANBAN_STATUSES.map((statusDef) => {
       const columnFeatures = features
@@ -134,26 +144,31 @@ export function useFeatureKanban(projectId: string): UseFeatureKanbanReturn {
         const direction = targetIdx > currentIdx ? 'advance' : 'revert';
         const steps = Math.abs(targetIdx - currentIdx);
 
-        for (let i = 0; i < steps; i++) {
-          const result = direction === 'advance'
-            ? await adapter.advance('feature', featureId, currentVersion)
-            : await adapter.revert('feature', featureId, currentVersion);
+        const stepThrough = async (): Promise<boolean> => {
+          for (let i = 0; i < steps; i++) {
+            const result = direction === 'advance'
+              ? await adapter.advance('feature', featureId, currentVersion)
+              : await adapter.revert('feature', featureId, currentVersion);
 
-          if (!result.success) {
-            refresh();
-            return false;
+            if (!result.success) return false;
+            currentVersion = result.data.entity.version;
           }
-          currentVersion = result.data.entity.version;
-        }
+          return true;
+        };
+
+        // One undo entry for the whole move
+        const moved = history
+          ? await history.batch(`Move feature "${feature.name}" to ${newStatus}`, stepThrough)
+          : await stepThrough();
 
         refresh();
-        return true;
+        return moved;
       } catch (_err) {
         refresh();
         return false;
       }
     },
-    [adapter, features, refresh]
+    [adapter, history, features, refresh]
   );
 
   return {
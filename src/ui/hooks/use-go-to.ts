@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAdapter } from '../context/adapter-context';
+import { goToItems, type GoToItem } from '../lib/go-to';
+import type { LoadOptions } from './use-data';
+import { useLiveRefresh } from './use-live-refresh';
+
+/**
+ * Hook for every project, feature and task as go-to palette entries
+ */
+export function useGoToItems() {
+  const { adapter } = useAdapter();
+  const [items, setItems] = useState<GoToItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
+    setError(null);
+
+    const [projectsResult, featuresResult, tasksResult] = await Promise.all([
+      adapter.getProjects({ limit: 1000 }),
+      adapter.getFeatures({ limit: 1000 }),
+      adapter.getTasks({ limit: 1000 }),
+    ]);
+
+    if (!projectsResult.success || !featuresResult.success || !tasksResult.success) {
+      const failed = [projectsResult, featuresResult, tasksResult].find((result) => !result.success);
+      setError(failed && !failed.success ? failed.error : 'Failed to load');
+      setLoading(false);
+      return;
+    }
+
+    setItems(goToItems(projectsResult.data, featuresResult.data, tasksResult.data));
+    setLoading(false);
+  }, [adapter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useLiveRefresh(
+    (change) => change.entityType !== 'section',
+    () => load({ silent: true })
+  );
+
+  return {
+    items,
+    loading,
+    error,
+    refresh: load,
+  };
+}
@@ -1,11 +1,14 @@
 import { useMemo, useCallback } from 'react';
 import { useAdapter } from '../context/adapter-context';
 import type { Task } from '@allpepper/task-orchestrator';
+import type { Result } from '../adapters/types';
 import type { BoardColumn } from '../lib/types';
+import { loadTaskPipeline, planTaskMove } from '../lib/task-moves';
 import { useBoardData } from './use-data';
 
 /**
  * v2 Kanban column definitions (pipeline states)
+ * Tasks: NEW → ACTIVE → TO_BE_TESTED → READY_TO_PROD → CLOSED (+ WILL_NOT_IMPLEMENT)
  */
 const KANBAN_STATUSES = [
   { id: 'new', title: 'New', status: 'NEW' },
@@ -13,6 +16,7 @@ const KANBAN_STATUSES = [
   { id: 'to-be-tested', title: 'To Be Tested', status: 'TO_BE_TESTED' },
   { id: 'ready-to-prod', title: 'Ready to Prod', status: 'READY_TO_PROD' },
   { id: 'closed', title: 'Closed', status: 'CLOSED' },
+  { id: 'will-not-implement', title: 'Will Not Implement', status: 'WILL_NOT_IMPLEMENT' },
 ] as const;
 
 interface UseKanbanReturn {
@@ -20,16 +24,17 @@ interface UseKanbanReturn {
   loading: boolean;
   error: string | null;
   refresh: () => void;
-  moveTask: (taskId: string, newStatus: string) => Promise<boolean>;
+  moveTask: (taskId: string, newStatus: string) => Promise<Result<Task>>;
 }
 
 /**
  * Hook for managing Kanban board state.
  * In v2, tasks move through the pipeline via advance/revert.
- * The moveTask function uses advance for forward moves and revert for backward moves.
+ * The moveTask function plans the move against the configured pipeline (see
+ * planTaskMove) and refuses it up front when any step would be refused.
  */
 export function useKanban(projectId: string): UseKanbanReturn {
-  const { adapter } = useAdapter();
+  const { adapter, history } = useAdapter();
   const { columnsByStatus, loading, error, refresh } = useBoardData(projectId);
 
   const columns = useMemo<BoardColumn[]>(() => (
@@ -42,10 +47,10 @@ export function useKanban(projectId: string): UseKanbanReturn {
   ), [columnsByStatus]);
 
   /**
-   * Move a task to a new status via advance/revert pipeline operations
+   * Move a task to a new status via advance/revert (or terminate) pipeline operations
    */
   const moveTask = useCallback(
-    async (taskId: string, newStatus: string): Promise<boolean> => {
+    async (taskId: string, newStatus: string): Promise<Result<Task>> => {
       let task: Task | undefined;
       for (const column of columns) {
         task = column.tasks.find((t) => t.id === taskId);
@@ -54,44 +59,49 @@ export function useKanban(projectId: string): UseKanbanReturn {
 
       if (!task) {
         refresh();
-        return false;
+        return { success: false, error: 'Task not found', code: 'NOT_FOUND' };
       }
 
-      try {
-        // Determine direction based on pipeline position
-        const currentIdx = KANBAN_STATUSES.findIndex(s => s.status === task!.status);
-        const targetIdx = KANBAN_STATUSES.findIndex(s => s.status === newStatus);
+      const pipeline = await loadTaskPipeline(adapter);
+      if (!pipeline.success) return pipeline;
+      const plan = planTaskMove(task, newStatus, pipeline.data);
+      if (!plan.success) return plan;
+      const move = plan.data;
 
-        if (currentIdx === -1 || targetIdx === -1) {
+      try {
+        if (move.kind === 'terminate') {
+          const result = await adapter.terminate('task', taskId, task.version);
           refresh();
-          return false;
+          return result.success ? { success: true, data: result.data.entity as Task } : result;
         }
 
         // Step through the pipeline one step at a time
-        let currentVersion = task.version;
-        const direction = targetIdx > currentIdx ? 'advance' : 'revert';
-        const steps = Math.abs(targetIdx - currentIdx);
-
-        for (let i = 0; i < steps; i++) {
-          const result = direction === 'advance'
-            ? await adapter.advance('task', taskId, currentVersion)
-            : await adapter.revert('task', taskId, currentVersion);
+        let current: Task = task;
+        const stepThrough = async (): Promise<Result<Task>> => {
+          for (let i = 0; i < move.steps; i++) {
+            const result = move.kind === 'advance'
+              ? await adapter.advance('task', taskId, current.version)
+              : await adapter.revert('task', taskId, current.version);
 
-          if (!result.success) {
-            refresh();
-            return false;
+            if (!result.success) return result;
+            current = result.data.entity as Task;
           }
-          currentVersion = result.data.entity.version;
-        }
+          return { success: true, data: current };
+        };
+
+        // One undo entry for the whole move
+        const moved = history
+          ? await history.batch(`Move task "${task.title}" to ${newStatus}`, stepThrough)
+          : await stepThrough();
 
         refresh();
-        return true;
-      } catch (_err) {
+        return moved;
+      } catch (err) {
         refresh();
-        return false;
+        return { success: false, error: err instanceof Error ? err.message : String(err) };
       }
     },
-    [adapter, columns, refresh]
+    [adapter, history, columns, refresh]
   );
 
   return {
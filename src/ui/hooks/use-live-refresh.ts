@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import { useAdapter } from '../context/adapter-context';
+import type { EntityChange } from '../adapters/types';
+
+/**
+ * Hook for reacting to changes made outside this UI (agents, other terminals).
+ *
+ * `onChange` receives only the changes `isAffected` accepts and is skipped when
+ * none match. Both callbacks may change between renders without resubscribing.
+ */
+export function useLiveRefresh(
+  isAffected: (change: EntityChange) => boolean,
+  onChange: (changes: EntityChange[]) => void
+) {
+  const { subscribeToChanges } = useAdapter();
+  const isAffectedRef = useRef(isAffected);
+  const onChangeRef = useRef(onChange);
+  isAffectedRef.current = isAffected;
+  onChangeRef.current = onChange;
+
+  useEffect(
+    () =>
+      subscribeToChanges((changes) => {
+        const relevant = changes.filter((change) => isAffectedRef.current(change));
+        if (relevant.length > 0) onChangeRef.current(relevant);
+      }),
+    [subscribeToChanges]
+  );
+}
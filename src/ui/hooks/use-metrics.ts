@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Project } from '@allpepper/task-orchestrator';
+import { useAdapter } from '../context/adapter-context';
+import { computeProjectMetrics, DEFAULT_THROUGHPUT_WEEKS } from '../lib/metrics';
+import { useTaskHistory } from './use-task-history';
+
+/**
+ * Hook for a project's delivery metrics, computed from its tasks and the
+ * status transitions in the activity log
+ */
+export function useProjectMetrics(projectId: string, weeks: number = DEFAULT_THROUGHPUT_WEEKS) {
+  const { adapter } = useAdapter();
+  const [project, setProject] = useState<Project | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const history = useTaskHistory({ projectId });
+
+  const loadProject = useCallback(async () => {
+    const result = await adapter.getProject(projectId);
+    if (result.success) {
+      setProject(result.data);
+      setProjectError(null);
+    } else {
+      setProjectError(result.error);
+    }
+  }, [adapter, projectId]);
+
+  useEffect(() => {
+    loadProject();
+  }, [loadProject]);
+
+  const { tasks, transitions, loadedAt } = history;
+  const metrics = useMemo(
+    () => computeProjectMetrics(tasks, transitions, { now: loadedAt, weeks }),
+    [tasks, transitions, loadedAt, weeks]
+  );
+
+  return {
+    project,
+    metrics,
+    loading: history.loading,
+    error: projectError ?? history.error,
+    refresh: () => {
+      loadProject();
+      history.refresh();
+    },
+  };
+}
@@ -1,17 +1,35 @@
-import React, { createContext, useContext, useState, type ReactNode } from 'react';
-import { Screen, type NavigationState } from '../lib/types';
+import React, { createContext, useCallback, useContext, useMemo, useState, type ReactNode } from 'react';
+import type { NavigationEntry, NavigationState, ScreenParams, Screen, ViewState } from '../lib/types';
+import {
+  currentEntry,
+  forwardEntry,
+  initialNavigation,
+  navigationEntry,
+  popEntry,
+  pushEntry,
+  replaceEntry,
+  updateViewState,
+} from '../lib/navigation';
 
 /**
  * Navigation context interface
  */
-interface NavigationContextValue {
+export interface NavigationContextValue {
+  /** The whole stack, forward history and remembered project views */
+  state: NavigationState;
+  current: NavigationEntry;
   screen: Screen;
-  params: Record<string, unknown>;
-  push(screen: Screen, params?: Record<string, unknown>): void;
+  viewState: ViewState;
+  push<S extends Screen>(screen: S, params: ScreenParams[S]): void;
+  /** Back; the entry left is kept for forward() */
   pop(): void;
-  replace(screen: Screen, params?: Record<string, unknown>): void;
-  reset(): void;
+  forward(): void;
+  replace<S extends Screen>(screen: S, params: ScreenParams[S]): void;
+  reset(stack?: NavigationEntry[]): void;
+  /** Merge into the current entry's view state */
+  setViewState(patch: ViewState): void;
   canGoBack: boolean;
+  canGoForward: boolean;
 }
 
 /**
@@ -19,64 +37,64 @@ interface NavigationContextValue {
  */
 const NavigationContext = createContext<NavigationContextValue | undefined>(undefined);
 
+/**
+ * Screen stack with forward history, starting at `initialStack` (the
+ * dashboard by default) and any remembered project views
+ */
+export function useNavigationState(
+  initialStack?: NavigationEntry[],
+  initialProjectViews?: Record<string, ViewState>
+): NavigationContextValue {
+  const [state, setState] = useState(() => initialNavigation(initialStack, initialProjectViews));
+
+  const push = useCallback(<S extends Screen>(screen: S, params: ScreenParams[S]) => {
+    setState((prev) => pushEntry(prev, navigationEntry(screen, params)));
+  }, []);
+  const pop = useCallback(() => setState(popEntry), []);
+  const forward = useCallback(() => setState(forwardEntry), []);
+  const replace = useCallback(<S extends Screen>(screen: S, params: ScreenParams[S]) => {
+    setState((prev) => replaceEntry(prev, navigationEntry(screen, params)));
+  }, []);
+  const reset = useCallback((stack?: NavigationEntry[]) => {
+    setState((prev) => initialNavigation(stack, prev.projectViews));
+  }, []);
+  const setViewState = useCallback((patch: ViewState) => {
+    setState((prev) => updateViewState(prev, patch));
+  }, []);
+
+  return useMemo(() => {
+    const current = currentEntry(state);
+    return {
+      state,
+      current,
+      screen: current.screen,
+      viewState: current.viewState,
+      push,
+      pop,
+      forward,
+      replace,
+      reset,
+      setViewState,
+      canGoBack: state.stack.length > 1,
+      canGoForward: state.forward.length > 0,
+    };
+  }, [state, push, pop, forward, replace, reset, setViewState]);
+}
+
 /**
  * Provider props
  */
 interface NavigationProviderProps {
   children: ReactNode;
+  navigation: NavigationContextValue;
 }
 
 /**
- * Navigation provider that manages the screen stack
+ * Shares the stack owned by useNavigationState with the screens below
  */
-export function NavigationProvider({ children }: NavigationProviderProps) {
-  const [state, setState] = useState<NavigationState>({
-    stack: [{ screen: Screen.Dashboard, params: {} }],
-  });
-
-  const currentStackItem = state.stack[state.stack.length - 1]!;
-
-  const push = (screen: Screen, params: Record<string, unknown> = {}) => {
-    setState((prev: NavigationState) => ({
-      stack: [...prev.stack, { screen, params }],
-    }));
-  };
-
-  const pop = () => {
-    setState((prev: NavigationState) => {
-      if (prev.stack.length <= 1) {
-        return prev;
-      }
-      return {
-        stack: prev.stack.slice(0, -1),
-      };
-    });
-  };
-
-  const replace = (screen: Screen, params: Record<string, unknown> = {}) => {
-    setState((prev: NavigationState) => ({
-      stack: [...prev.stack.slice(0, -1), { screen, params }],
-    }));
-  };
-
-  const reset = () => {
-    setState({
-      stack: [{ screen: Screen.Dashboard, params: {} }],
-    });
-  };
-
-  const value: NavigationContextValue = {
-    screen: currentStackItem.screen,
-    params: currentStackItem.params,
-    push,
-    pop,
-    replace,
-    reset,
-    canGoBack: state.stack.length > 1,
-  };
-
+export function NavigationProvider({ children, navigation }: NavigationProviderProps) {
   return (
-    <NavigationContext.Provider value={value}>
+    <NavigationContext.Provider value={navigation}>
       {children}
     </NavigationContext.Provider>
   );
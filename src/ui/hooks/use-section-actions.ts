@@ -0,0 +1,111 @@
+import { useCallback } from 'react';
+import { useAdapter } from '../context/adapter-context';
+import { ContentFormat } from '@allpepper/task-orchestrator';
+import type { EntityType, Section } from '@allpepper/task-orchestrator';
+import type { Result } from '../adapters/types';
+
+/**
+ * Editable section fields as entered in a form
+ */
+export interface SectionDraft {
+  title: string;
+  usageDescription: string;
+  content: string;
+  contentFormat: string;
+}
+
+interface UseSectionActionsReturn {
+  createSection: (draft: SectionDraft) => Promise<Result<Section>>;
+  updateSection: (section: Section, draft: SectionDraft) => Promise<Result<Section>>;
+  deleteSection: (section: Section) => Promise<Result<boolean>>;
+  moveSection: (section: Section, offset: -1 | 1) => Promise<Result<boolean>>;
+}
+
+/**
+ * Parse a user-entered content format, defaulting to MARKDOWN when blank
+ */
+export function parseContentFormat(value: string): ContentFormat | null {
+  const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  if (!normalized) return ContentFormat.MARKDOWN;
+  return (Object.values(ContentFormat) as string[]).includes(normalized)
+    ? (normalized as ContentFormat)
+    : null;
+}
+
+/**
+ * Section authoring operations for a single task, feature or project.
+ * Callers refresh their own data once an operation resolves.
+ */
+export function useSectionActions(
+  entityType: EntityType,
+  entityId: string,
+  sections: Section[]
+): UseSectionActionsReturn {
+  const { adapter } = useAdapter();
+
+  const createSection = useCallback(
+    async (draft: SectionDraft): Promise<Result<Section>> => {
+      const contentFormat = parseContentFormat(draft.contentFormat);
+      if (!contentFormat) {
+        return { success: false, error: `Invalid content format: ${draft.contentFormat}`, code: 'VALIDATION_ERROR' };
+      }
+
+      return adapter.createSection({
+        entityType,
+        entityId,
+        title: draft.title.trim(),
+        usageDescription: draft.usageDescription,
+        content: draft.content,
+        contentFormat,
+      });
+    },
+    [adapter, entityType, entityId]
+  );
+
+  const updateSection = useCallback(
+    async (section: Section, draft: SectionDraft): Promise<Result<Section>> => {
+      const contentFormat = parseContentFormat(draft.contentFormat);
+      if (!contentFormat) {
+        return { success: false, error: `Invalid content format: ${draft.contentFormat}`, code: 'VALIDATION_ERROR' };
+      }
+
+      return adapter.updateSection(section.id, {
+        title: draft.title.trim(),
+        usageDescription: draft.usageDescription,
+        content: draft.content,
+        contentFormat,
+        version: section.version,
+      });
+    },
+    [adapter]
+  );
+
+  const deleteSection = useCallback(
+    async (section: Section): Promise<Result<boolean>> => adapter.deleteSection(section.id),
+    [adapter]
+  );
+
+  const moveSection = useCallback(
+    async (section: Section, offset: -1 | 1): Promise<Result<boolean>> => {
+      const ids = sections.map((s) => s.id);
+      const from = ids.indexOf(section.id);
+      const to = from + offset;
+
+      if (from === -1 || to < 0 || to >= ids.length) {
+        return { success: true, data: false };
+      }
+
+      ids.splice(from, 1);
+      ids.splice(to, 0, section.id);
+      return adapter.reorderSections(entityType, entityId, ids);
+    },
+    [adapter, entityType, entityId, sections]
+  );
+
+  return {
+    createSection,
+    updateSection,
+    deleteSection,
+    moveSection,
+  };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAdapter } from '../context/adapter-context';
+import type { Result, TagCount, TagRename } from '../adapters/types';
+import type { LoadOptions } from './use-data';
+import { useLiveRefresh } from './use-live-refresh';
+
+/**
+ * Hook for the tags in use, with usage counts, plus rename/merge
+ */
+export function useTags() {
+  const { adapter } = useAdapter();
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
+    setError(null);
+
+    const result = await adapter.getTags();
+    if (result.success) {
+      setTags(result.data);
+    } else {
+      setError(result.error);
+    }
+    setLoading(false);
+  }, [adapter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Tag edits bump the entity's version, so any entity change may move a count
+  useLiveRefresh(
+    (change) => change.entityType !== 'section',
+    () => load({ silent: true })
+  );
+
+  const rename = useCallback(async (from: string, to: string): Promise<Result<TagRename>> => {
+    const result = await adapter.renameTag(from, to);
+    if (result.success) await load({ silent: true });
+    return result;
+  }, [adapter, load]);
+
+  /** Tag names for autocomplete, most used first */
+  const names = useMemo(() => tags.map((entry) => entry.tag), [tags]);
+
+  return {
+    tags,
+    names,
+    loading,
+    error,
+    refresh: load,
+    rename,
+  };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Task } from '@allpepper/task-orchestrator';
+import { useAdapter } from '../context/adapter-context';
+import { changeAffects } from '../adapters/change-watcher';
+import type { ActivityEntry } from '../adapters/types';
+import type { LoadOptions } from './use-data';
+import { useLiveRefresh } from './use-live-refresh';
+
+/**
+ * Transitions older than this many log rows are not replayed; their tasks
+ * fall back to timestamps
+ */
+const HISTORY_ACTIVITY_LIMIT = 5000;
+
+export interface TaskHistoryScope {
+  projectId?: string;
+  featureId?: string;
+}
+
+/**
+ * Hook for the tasks of a project or feature together with their status
+ * transitions from the activity log, for metrics and progress charts
+ */
+export function useTaskHistory({ projectId, featureId }: TaskHistoryScope) {
+  const { adapter } = useAdapter();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [transitions, setTransitions] = useState<ActivityEntry[]>([]);
+  const [loadedAt, setLoadedAt] = useState(() => new Date());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async ({ silent = false }: LoadOptions = {}) => {
+    if (!silent) setLoading(true);
+    setError(null);
+
+    const [tasksResult, activityResult] = await Promise.all([
+      adapter.getTasks({ projectId, featureId, limit: 1000 }),
+      // A feature's own rows plus those it owns, which include its tasks
+      adapter.getActivity(
+        featureId
+          ? { entityId: featureId, limit: HISTORY_ACTIVITY_LIMIT }
+          : { projectId, limit: HISTORY_ACTIVITY_LIMIT }
+      ),
+    ]);
+
+    if (!tasksResult.success) {
+      setError(tasksResult.error);
+      setLoading(false);
+      return;
+    }
+
+    if (!activityResult.success) {
+      setError(activityResult.error);
+      setLoading(false);
+      return;
+    }
+
+    setTasks(tasksResult.data);
+    setTransitions(
+      activityResult.data.filter((entry) => entry.entityType === 'task' && entry.newStatus !== null)
+    );
+    setLoadedAt(new Date());
+    setLoading(false);
+  }, [adapter, projectId, featureId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useLiveRefresh(
+    (change) => change.entityType === 'task' && changeAffects(change, [projectId, featureId]),
+    () => load({ silent: true })
+  );
+
+  return {
+    tasks,
+    transitions,
+    loadedAt,
+    loading,
+    error,
+    refresh: load,
+  };
+}
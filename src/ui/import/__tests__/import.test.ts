@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { db, Priority, EntityType } from '@allpepper/task-orchestrator';
+import { runMigrations } from '@allpepper/task-orchestrator/src/db/migrate';
+import * as projects from '@allpepper/task-orchestrator/src/repos/projects';
+import { DirectAdapter } from '../../adapters/direct';
+import { HistoryAdapter } from '../../adapters/history-adapter';
+import { UndoHistory } from '../../adapters/undo-history';
+import type { Result } from '../../adapters/types';
+import { collectExport, renderJson } from '../../export';
+import {
+  applyImport,
+  detectImportFormat,
+  parseCsvImport,
+  parseCsvRows,
+  parseImport,
+  parseJsonImport,
+  parseMarkdownImport,
+  planForTarget,
+  readImport,
+  summarizePlan,
+  type ImportPlan,
+} from '..';
+
+function planOf(result: Result<ImportPlan>): ImportPlan {
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+describe('Markdown import', () => {
+  it('should turn headings into features and checklist items into tasks', () => {
+    const plan = planOf(
+      parseMarkdownImport(
+        [
+          '- [ ] Loose task',
+          '',
+          '## Login',
+          'Everything about signing in.',
+          '',
+          '- [ ] Build the form',
+          '  Fields for email and password.',
+          '  - [ ] validation',
+          '- [x] **OAuth** (HIGH, complexity 5, #auth #web) — Google and GitHub',
+          '',
+          '## Notes',
+          'Nothing to do here.',
+        ].join('\n')
+      )
+    );
+
+    expect(plan.tasks.map((task) => task.title)).toEqual(['Loose task']);
+    expect(plan.features).toHaveLength(1);
+    const [feature] = plan.features;
+    expect(feature?.name).toBe('Login');
+    expect(feature?.description).toBe('Everything about signing in.');
+    expect(feature?.tasks[0]).toMatchObject({
+      title: 'Build the form',
+      summary: 'Build the form',
+      description: 'Fields for email and password.\n- [ ] validation',
+      priority: Priority.MEDIUM,
+      complexity: 3,
+    });
+    expect(feature?.tasks[1]).toMatchObject({
+      title: 'OAuth',
+      summary: 'Google and GitHub',
+      priority: Priority.HIGH,
+      complexity: 5,
+      tags: ['auth', 'web'],
+    });
+    expect(plan.warnings).toEqual(['Heading "Notes" has no tasks, skipped', '1 checked item(s) imported as new tasks']);
+  });
+
+  it('should not read headings inside code fences', () => {
+    const plan = planOf(parseMarkdownImport(['# Setup', '- [ ] Script', '  ```sh', '# not a heading', '  ```'].join('\n')));
+
+    expect(plan.features).toHaveLength(1);
+    expect(plan.features[0]?.tasks[0]?.description).toContain('# not a heading');
+  });
+});
+
+describe('CSV import', () => {
+  it('should split quoted fields and line breaks', () => {
+    expect(parseCsvRows('a,"b, ""c""",d\r\n"multi\nline",x\n\n')).toEqual([
+      ['a', 'b, "c"', 'd'],
+      ['multi\nline', 'x'],
+    ]);
+  });
+
+  it('should read tasks by column name and group them by feature', () => {
+    const plan = planOf(
+      parseCsvImport(
+        [
+          'Title,Priority,Complexity,Tags,Feature,Status',
+          'Form,high,2,ui;forms,Login,ACTIVE',
+          'Icons,urgent,12,,,NEW',
+          ',LOW,1,,,',
+        ].join('\n')
+      )
+    );
+
+    expect(plan.features.map((feature) => feature.name)).toEqual(['Login']);
+    expect(plan.features[0]?.tasks[0]).toMatchObject({ title: 'Form', priority: Priority.HIGH, complexity: 2, tags: ['ui', 'forms'] });
+    expect(plan.tasks[0]).toMatchObject({ title: 'Icons', summary: 'Icons', priority: Priority.MEDIUM, complexity: 3 });
+    expect(plan.warnings).toHaveLength(3);
+    expect(plan.warnings[2]).toBe('Row 4: no title, skipped');
+  });
+
+  it('should require a title column', () => {
+    const result = parseCsvImport('name,priority\nx,HIGH');
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.code).toBe('VALIDATION_ERROR');
+  });
+});
+
+describe('import plans', () => {
+  it('should detect formats and reject empty files', () => {
+    expect(detectImportFormat('backlog.MD')).toBe('markdown');
+    expect(detectImportFormat('dump.json')).toBe('json');
+    expect(detectImportFormat('notes.docx')).toBeNull();
+
+    const empty = parseImport('# Nothing here', 'markdown');
+    expect(empty.success).toBe(false);
+    if (!empty.success) expect(empty.code).toBe('EMPTY');
+  });
+
+  it('should flatten features when importing into a feature', () => {
+    const plan = planOf(parseMarkdownImport('- [ ] A\n# F\n- [ ] B\n- [ ] C'));
+    const flat = planForTarget(plan, { featureId: 'f1' });
+
+    expect(flat.features).toHaveLength(0);
+    expect(flat.tasks.map((task) => task.title)).toEqual(['A', 'B', 'C']);
+    expect(summarizePlan(flat)).toEqual({ features: 0, tasks: 3, sections: 0 });
+  });
+
+  it('should reject JSON that is not an export', () => {
+    expect(parseJsonImport('{').success).toBe(false);
+    expect(parseJsonImport('{"features": []}').success).toBe(false);
+  });
+});
+
+describe('applyImport', () => {
+  let adapter: DirectAdapter;
+  let dir: string;
+
+  function clearTables() {
+    db.run('DELETE FROM entity_tags');
+    db.run('DELETE FROM sections');
+    db.run('DELETE FROM tasks');
+    db.run('DELETE FROM features');
+    db.run('DELETE FROM projects');
+  }
+
+  function createProject(name: string): string {
+    const created = projects.createProject({ name, summary: 'Project' });
+    if (!created.success) throw new Error(created.error);
+    return created.data.id;
+  }
+
+  beforeAll(() => {
+    runMigrations();
+    dir = mkdtempSync(join(tmpdir(), 'tasks-import-'));
+  });
+
+  beforeEach(() => {
+    clearTables();
+    adapter = new DirectAdapter();
+  });
+
+  afterAll(() => {
+    clearTables();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create features, tasks and loose tasks in the project', async () => {
+    const projectId = createProject('Target');
+    const path = join(dir, 'backlog.md');
+    writeFileSync(path, '- [ ] Loose\n\n## Search\n- [ ] Index\n- [ ] Query');
+
+    const result = await applyImport(adapter, planOf(await readImport(path)), { projectId });
+
+    expect(result).toEqual({ success: true, data: { features: 1, tasks: 3, sections: 0 } });
+    const features = await adapter.getFeatures({ projectId, limit: 1000 });
+    const tasks = await adapter.getTasks({ projectId, limit: 1000 });
+    expect(features.success && features.data.map((feature) => feature.name)).toEqual(['Search']);
+    expect(tasks.success && tasks.data.map((task) => task.title).sort()).toEqual(['Index', 'Loose', 'Query']);
+  });
+
+  it('should round-trip a JSON export with its sections', async () => {
+    const sourceId = createProject('Source');
+    const feature = await adapter.createFeature({ projectId: sourceId, name: 'Billing', summary: 'Invoices', priority: Priority.HIGH });
+    if (!feature.success) throw new Error(feature.error);
+    const task = await adapter.createTask({ featureId: feature.data.id, title: 'PDF', summary: 'Render', priority: Priority.LOW, complexity: 4 });
+    if (!task.success) throw new Error(task.error);
+    await adapter.createSection({ entityType: EntityType.TASK, entityId: task.data.id, title: 'Notes', content: 'A4 only' });
+    const bundle = await collectExport(adapter, { type: 'project', id: sourceId });
+    if (!bundle.success) throw new Error(bundle.error);
+
+    const targetId = createProject('Copy');
+    const result = await applyImport(adapter, planOf(parseJsonImport(renderJson(bundle.data))), { projectId: targetId });
+
+    expect(result).toEqual({ success: true, data: { features: 1, tasks: 1, sections: 1 } });
+    const tasks = await adapter.getTasks({ projectId: targetId, limit: 1000 });
+    if (!tasks.success) throw new Error(tasks.error);
+    expect(tasks.data[0]).toMatchObject({ title: 'PDF', summary: 'Render', priority: Priority.LOW, complexity: 4 });
+    const sections = await adapter.getSections(EntityType.TASK, tasks.data[0]?.id ?? '');
+    expect(sections.success && sections.data.map((section) => section.content)).toEqual(['A4 only']);
+  });
+
+  it('should roll back everything when a step fails', async () => {
+    const projectId = createProject('Rollback');
+    class FailingAdapter extends DirectAdapter {
+      override createTask(params: Parameters<DirectAdapter['createTask']>[0]) {
+        if (params.title === 'Boom') {
+          return Promise.resolve({ success: false as const, error: 'disk full', code: 'IO_ERROR' });
+        }
+        return super.createTask(params);
+      }
+    }
+
+    const plan = planOf(parseMarkdownImport('# One\n- [ ] Fine\n# Two\n- [ ] Also fine\n- [ ] Boom'));
+    const result = await applyImport(new FailingAdapter(), plan, { projectId });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe('Import failed at task "Boom": disk full (rolled back 4 created entities)');
+      expect(result.code).toBe('IO_ERROR');
+    }
+    const features = await adapter.getFeatures({ projectId, limit: 1000 });
+    const tasks = await adapter.getTasks({ projectId, limit: 1000 });
+    expect(features.success && features.data).toEqual([]);
+    expect(tasks.success && tasks.data).toEqual([]);
+  });
+
+  it('should record an import as one undo step, and a rolled-back one as none', async () => {
+    const projectId = createProject('Undoable');
+    const history = new UndoHistory();
+    const plan = planOf(parseMarkdownImport('# One\n- [ ] First\n- [ ] Second'));
+
+    const imported = await applyImport(new HistoryAdapter(adapter, history), plan, { projectId }, { history, untracked: adapter });
+    expect(imported.success).toBe(true);
+    const undone = await history.undo();
+    expect(undone.success && undone.data.label).toBe('Import 1 feature, 2 tasks');
+    expect(history.canUndo).toBe(false);
+    const tasks = await adapter.getTasks({ projectId, limit: 1000 });
+    expect(tasks.success && tasks.data).toEqual([]);
+
+    class FailingAdapter extends DirectAdapter {
+      override createTask(params: Parameters<DirectAdapter['createTask']>[0]) {
+        if (params.title === 'Second') {
+          return Promise.resolve({ success: false as const, error: 'disk full', code: 'IO_ERROR' });
+        }
+        return super.createTask(params);
+      }
+    }
+    const failing = new FailingAdapter();
+    const failed = await applyImport(new HistoryAdapter(failing, history), plan, { projectId }, { history, untracked: failing });
+    expect(failed.success).toBe(false);
+    expect(history.canUndo).toBe(false);
+  });
+});
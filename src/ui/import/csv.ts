@@ -0,0 +1,111 @@
+/**
+ * CSV importer - one task per row
+ *
+ * Columns are matched by header name, case-insensitively: `title` is
+ * required; `summary`, `description`, `priority`, `complexity`, `tags`
+ * (separated by `;` or `,`) and `feature` are optional, and anything else is
+ * ignored, so a CSV export can be imported as-is. Rows naming a feature are
+ * grouped into a new feature of that name.
+ */
+
+import { Priority } from '@allpepper/task-orchestrator';
+import type { Result } from '../adapters/types';
+import {
+  parseImportComplexity,
+  parseImportPriority,
+  parseImportTags,
+  type ImportPlan,
+  type PlannedFeature,
+} from './plan';
+
+/**
+ * Split RFC 4180 text into rows of fields; quoted fields may hold commas,
+ * doubled quotes and line breaks
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+
+  // Blank lines carry no fields worth importing
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+}
+
+export function parseCsvImport(text: string): Result<ImportPlan> {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  if (!columns.includes('title')) {
+    return { success: false, error: 'CSV needs a "title" column', code: 'VALIDATION_ERROR' };
+  }
+
+  const warnings: string[] = [];
+  const plan: ImportPlan = { features: [], tasks: [], warnings };
+  const features = new Map<string, PlannedFeature>();
+
+  rows.forEach((fields, index) => {
+    const where = `Row ${index + 2}`;
+    const value = (column: string) => {
+      const position = columns.indexOf(column);
+      return position === -1 ? undefined : fields[position]?.trim();
+    };
+
+    const title = value('title');
+    if (!title) {
+      warnings.push(`${where}: no title, skipped`);
+      return;
+    }
+
+    const task = {
+      title,
+      summary: value('summary') || title,
+      description: value('description') || undefined,
+      priority: parseImportPriority(value('priority'), where, warnings),
+      complexity: parseImportComplexity(value('complexity'), where, warnings),
+      tags: parseImportTags(value('tags')),
+      sections: [],
+    };
+
+    const featureName = value('feature');
+    if (!featureName) {
+      plan.tasks.push(task);
+      return;
+    }
+    let feature = features.get(featureName);
+    if (!feature) {
+      feature = { name: featureName, summary: featureName, priority: Priority.MEDIUM, tags: [], sections: [], tasks: [] };
+      features.set(featureName, feature);
+      plan.features.push(feature);
+    }
+    feature.tasks.push(task);
+  });
+
+  return { success: true, data: plan };
+}
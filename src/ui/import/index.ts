@@ -0,0 +1,104 @@
+/**
+ * Import - create features and tasks from Markdown checklists, CSV or JSON
+ *
+ * Importing is two steps: `readImport` parses a file into an ImportPlan
+ * without writing anything (the dry run), and `applyImport` creates the plan
+ * through a DataAdapter, rolling back if any step fails.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import type { Result } from '../adapters/types';
+import { parseMarkdownImport } from './markdown';
+import { parseCsvImport } from './csv';
+import { parseJsonImport } from './json';
+import { summarizePlan, type ImportPlan } from './plan';
+
+export {
+  applyImport,
+  planForTarget,
+  summarizePlan,
+  describeImport,
+  outlinePlan,
+  parseImportPriority,
+  parseImportComplexity,
+  parseImportTags,
+  DEFAULT_IMPORT_COMPLEXITY,
+  type ApplyImportOptions,
+  type ImportPlan,
+  type ImportSummary,
+  type ImportTarget,
+  type PlannedFeature,
+  type PlannedSection,
+  type PlannedTask,
+} from './plan';
+export { parseMarkdownImport } from './markdown';
+export { parseCsvImport, parseCsvRows } from './csv';
+export { parseJsonImport } from './json';
+
+export const IMPORT_FORMATS = ['markdown', 'csv', 'json'] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+const IMPORT_EXTENSIONS: Record<string, ImportFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'markdown',
+  csv: 'csv',
+  json: 'json',
+};
+
+/**
+ * Accepts a format name or a file extension (`md`, `csv`, ...)
+ */
+export function parseImportFormat(value: string): ImportFormat | null {
+  return IMPORT_EXTENSIONS[value.trim().toLowerCase().replace(/^\./, '')] ?? null;
+}
+
+/**
+ * Format implied by a file's extension
+ */
+export function detectImportFormat(path: string): ImportFormat | null {
+  return parseImportFormat(extname(path));
+}
+
+/**
+ * Parse file contents into a plan; a plan without tasks or features is an error
+ */
+export function parseImport(text: string, format: ImportFormat): Result<ImportPlan> {
+  const parsed =
+    format === 'markdown' ? parseMarkdownImport(text) : format === 'csv' ? parseCsvImport(text) : parseJsonImport(text);
+  if (!parsed.success) return parsed;
+
+  const summary = summarizePlan(parsed.data);
+  if (summary.tasks === 0 && summary.features === 0) {
+    return { success: false, error: `No ${format === 'markdown' ? 'checklist items' : 'tasks'} found`, code: 'EMPTY' };
+  }
+  return parsed;
+}
+
+/**
+ * Read and parse a file; without a format, the extension decides
+ */
+export async function readImport(path: string, format?: ImportFormat): Promise<Result<ImportPlan>> {
+  const resolved = format ?? detectImportFormat(path);
+  if (!resolved) {
+    return {
+      success: false,
+      error: `Cannot tell the format of ${path} (use ${IMPORT_FORMATS.join(', ')})`,
+      code: 'VALIDATION_ERROR',
+    };
+  }
+
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    return {
+      success: false,
+      error: `Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      code: 'IO_ERROR',
+    };
+  }
+  return parseImport(text, resolved);
+}
@@ -0,0 +1,126 @@
+/**
+ * JSON importer - reads the dump written by a JSON export
+ *
+ * Features, tasks and their sections are re-created; the project itself,
+ * statuses and dependencies are not, since ids change on import. Each
+ * record is checked on its own so one malformed entry only costs a warning.
+ */
+
+import type { ContentFormat } from '@allpepper/task-orchestrator';
+import type { Result } from '../adapters/types';
+import {
+  parseImportComplexity,
+  parseImportPriority,
+  type ImportPlan,
+  type PlannedFeature,
+  type PlannedSection,
+  type PlannedTask,
+} from './plan';
+
+type JsonRecord = Record<string, unknown>;
+
+const CONTENT_FORMATS = ['PLAIN_TEXT', 'MARKDOWN', 'JSON', 'CODE'];
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+function records(value: unknown): JsonRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+}
+
+export function parseJsonImport(source: string): Result<ImportPlan> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      code: 'VALIDATION_ERROR',
+    };
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.tasks)) {
+    return { success: false, error: 'JSON is not an export: expected a "tasks" array', code: 'VALIDATION_ERROR' };
+  }
+
+  const warnings: string[] = [];
+  const plan: ImportPlan = { features: [], tasks: [], warnings };
+
+  const sectionsByEntity = new Map<string, PlannedSection[]>();
+  for (const section of records(parsed.sections)) {
+    const entityId = text(section.entityId);
+    const title = text(section.title);
+    if (!entityId || !title || typeof section.content !== 'string') continue;
+    const format = typeof section.contentFormat === 'string' && CONTENT_FORMATS.includes(section.contentFormat)
+      ? (section.contentFormat as ContentFormat)
+      : undefined;
+    sectionsByEntity.set(entityId, [
+      ...(sectionsByEntity.get(entityId) ?? []),
+      { title, usageDescription: text(section.usageDescription), content: section.content, contentFormat: format },
+    ]);
+  }
+  const sectionsOf = (id: unknown) => (typeof id === 'string' ? sectionsByEntity.get(id) ?? [] : []);
+
+  const featuresById = new Map<string, PlannedFeature>();
+  records(parsed.features).forEach((record, index) => {
+    const where = `Feature ${index + 1}`;
+    const name = text(record.name);
+    if (!name) {
+      warnings.push(`${where}: no name, skipped`);
+      return;
+    }
+    const feature: PlannedFeature = {
+      name,
+      summary: text(record.summary) ?? name,
+      description: text(record.description),
+      priority: parseImportPriority(text(record.priority), where, warnings),
+      tags: stringList(record.tags),
+      sections: sectionsOf(record.id),
+      tasks: [],
+    };
+    plan.features.push(feature);
+    if (typeof record.id === 'string') featuresById.set(record.id, feature);
+  });
+
+  let started = 0;
+  let dependent = 0;
+  records(parsed.tasks).forEach((record, index) => {
+    const where = `Task ${index + 1}`;
+    const title = text(record.title);
+    if (!title) {
+      warnings.push(`${where}: no title, skipped`);
+      return;
+    }
+    if (typeof record.status === 'string' && record.status !== 'NEW') started++;
+    if (stringList(record.blockedBy).length > 0 || stringList(record.relatedTo).length > 0) dependent++;
+
+    const task: PlannedTask = {
+      title,
+      summary: text(record.summary) ?? title,
+      description: text(record.description),
+      priority: parseImportPriority(text(record.priority), where, warnings),
+      complexity: parseImportComplexity(
+        typeof record.complexity === 'number' || typeof record.complexity === 'string' ? record.complexity : undefined,
+        where,
+        warnings
+      ),
+      tags: stringList(record.tags),
+      sections: sectionsOf(record.id),
+    };
+    const feature = typeof record.featureId === 'string' ? featuresById.get(record.featureId) : undefined;
+    (feature ? feature.tasks : plan.tasks).push(task);
+  });
+
+  if (started > 0) warnings.push(`${started} task(s) past NEW will start over as NEW`);
+  if (dependent > 0) warnings.push(`Dependencies of ${dependent} task(s) are not imported`);
+  return { success: true, data: plan };
+}
@@ -0,0 +1,161 @@
+/**
+ * Markdown checklist importer
+ *
+ * Headings become features and `- [ ]` items become tasks; text indented
+ * under an item (including nested checklists) becomes the task description,
+ * and text under a heading the feature description. Headings without tasks
+ * are skipped; items before the first heading are loose tasks. Items written
+ * the way the Markdown export writes them
+ * (`**Title** (HIGH, complexity 3, #tag) — summary`) keep their priority,
+ * complexity, tags and summary.
+ */
+
+import { Priority } from '@allpepper/task-orchestrator';
+import type { Result } from '../adapters/types';
+import {
+  parseImportComplexity,
+  parseImportPriority,
+  DEFAULT_IMPORT_COMPLEXITY,
+  type ImportPlan,
+  type PlannedFeature,
+  type PlannedTask,
+} from './plan';
+
+const HEADING = /^(#{1,6})\s+(.+)$/;
+const CHECKBOX_ITEM = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const FENCE = /^\s*(```|~~~)/;
+const EXPORTED_ITEM = /^\*\*(.+?)\*\*\s*(?:\(([^)]*)\))?\s*(?:[—-]\s*(.*))?$/;
+
+interface OpenTask {
+  task: PlannedTask;
+  indent: number;
+  lines: string[];
+}
+
+interface OpenFeature {
+  feature: PlannedFeature;
+  lines: string[];
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Trim blank edges and the indentation every line shares
+ */
+function blockText(lines: string[]): string | undefined {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start]?.trim()) start++;
+  while (end > start && !lines[end - 1]?.trim()) end--;
+  const body = lines.slice(start, end);
+  if (body.length === 0) return undefined;
+  const shared = Math.min(...body.filter((line) => line.trim()).map(indentOf));
+  return body.map((line) => line.slice(shared).trimEnd()).join('\n');
+}
+
+function parseItem(text: string, where: string, warnings: string[]): PlannedTask {
+  const exported = EXPORTED_ITEM.exec(text.trim());
+  if (!exported) {
+    const title = text.trim();
+    return { title, summary: title, priority: Priority.MEDIUM, complexity: DEFAULT_IMPORT_COMPLEXITY, tags: [], sections: [] };
+  }
+
+  const title = (exported[1] ?? '').trim();
+  const details = (exported[2] ?? '').split(',').map((detail) => detail.trim());
+  const priority = details.find((detail) => /^(high|medium|low)$/i.test(detail));
+  const complexity = details.map((detail) => /^complexity\s+(\S+)$/i.exec(detail)?.[1]).find(Boolean);
+  const tags = details
+    .flatMap((detail) => detail.split(/\s+/))
+    .filter((word) => word.startsWith('#') && word.length > 1)
+    .map((word) => word.slice(1));
+
+  return {
+    title,
+    summary: exported[3]?.trim() || title,
+    priority: parseImportPriority(priority, where, warnings),
+    complexity: parseImportComplexity(complexity, where, warnings),
+    tags: [...new Set(tags)],
+    sections: [],
+  };
+}
+
+export function parseMarkdownImport(text: string): Result<ImportPlan> {
+  const warnings: string[] = [];
+  const plan: ImportPlan = { features: [], tasks: [], warnings };
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  let feature: OpenFeature | null = null;
+  let task: OpenTask | null = null;
+  let inFence = false;
+  let checked = 0;
+
+  const closeTask = () => {
+    if (!task) return;
+    const description = blockText(task.lines);
+    if (description) task.task.description = description;
+    (feature ? feature.feature.tasks : plan.tasks).push(task.task);
+    task = null;
+  };
+
+  const closeFeature = () => {
+    closeTask();
+    if (!feature) return;
+    const description = blockText(feature.lines);
+    if (description) feature.feature.description = description;
+    if (feature.feature.tasks.length > 0) {
+      plan.features.push(feature.feature);
+    } else {
+      warnings.push(`Heading "${feature.feature.name}" has no tasks, skipped`);
+    }
+    feature = null;
+  };
+
+  lines.forEach((line, index) => {
+    const where = `Line ${index + 1}`;
+    const current = task as OpenTask | null;
+
+    if (inFence || FENCE.test(line)) {
+      if (FENCE.test(line)) inFence = !inFence;
+      if (current) current.lines.push(line);
+      else feature?.lines.push(line);
+      return;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      closeFeature();
+      const name = (heading[2] ?? '').trim();
+      feature = {
+        feature: { name, summary: name, priority: Priority.MEDIUM, tags: [], sections: [], tasks: [] },
+        lines: [],
+      };
+      return;
+    }
+
+    const item = CHECKBOX_ITEM.exec(line);
+    const indent = indentOf(line);
+    if (current && (!line.trim() || indent > current.indent)) {
+      // Nested content, including sub-checklists, belongs to the open task
+      current.lines.push(line);
+      return;
+    }
+
+    if (item) {
+      closeTask();
+      if (item[2] !== ' ') checked++;
+      task = { task: parseItem(item[3] ?? '', where, warnings), indent: (item[1] ?? '').length, lines: [] };
+      return;
+    }
+
+    closeTask();
+    feature?.lines.push(line);
+  });
+  closeFeature();
+
+  if (checked > 0) {
+    warnings.push(`${checked} checked item(s) imported as new tasks`);
+  }
+  return { success: true, data: plan };
+}
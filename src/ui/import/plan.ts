@@ -0,0 +1,264 @@
+/**
+ * Import plan - what an import would create, before anything is written
+ *
+ * Every importer turns its file into an ImportPlan. The plan is what the
+ * dry-run preview shows; `applyImport` then creates it through a DataAdapter
+ * and deletes whatever it created if any step fails.
+ */
+
+import { EntityType, Priority, type ContentFormat } from '@allpepper/task-orchestrator';
+import type { DataAdapter, Result } from '../adapters/types';
+import type { UndoHistory } from '../adapters/undo-history';
+
+export const DEFAULT_IMPORT_COMPLEXITY = 3;
+
+const PRIORITIES: string[] = [Priority.HIGH, Priority.MEDIUM, Priority.LOW];
+
+export interface PlannedSection {
+  title: string;
+  usageDescription?: string;
+  content: string;
+  contentFormat?: ContentFormat;
+}
+
+export interface PlannedTask {
+  title: string;
+  summary: string;
+  description?: string;
+  priority: Priority;
+  /** 1-10 */
+  complexity: number;
+  tags: string[];
+  sections: PlannedSection[];
+}
+
+export interface PlannedFeature {
+  name: string;
+  summary: string;
+  description?: string;
+  priority: Priority;
+  tags: string[];
+  sections: PlannedSection[];
+  tasks: PlannedTask[];
+}
+
+export interface ImportPlan {
+  features: PlannedFeature[];
+  /** Tasks outside any feature */
+  tasks: PlannedTask[];
+  /** Things the importer skipped or guessed, shown in the preview */
+  warnings: string[];
+}
+
+/**
+ * Where an import lands. Importing into a feature flattens the plan: every
+ * task goes into that feature.
+ */
+export interface ImportTarget {
+  projectId?: string;
+  featureId?: string;
+}
+
+export interface ImportSummary {
+  features: number;
+  tasks: number;
+  sections: number;
+}
+
+/**
+ * Parse a priority name case-insensitively; unknown values fall back to MEDIUM
+ * with a warning
+ */
+export function parseImportPriority(value: string | undefined, where: string, warnings: string[]): Priority {
+  const normalized = value?.trim().toUpperCase() ?? '';
+  if (!normalized) return Priority.MEDIUM;
+  if (PRIORITIES.includes(normalized)) return normalized as Priority;
+  warnings.push(`${where}: unknown priority "${value?.trim()}", using MEDIUM`);
+  return Priority.MEDIUM;
+}
+
+/**
+ * Parse a 1-10 complexity; anything else falls back to the default with a warning
+ */
+export function parseImportComplexity(value: string | number | undefined, where: string, warnings: string[]): number {
+  const text = String(value ?? '').trim();
+  if (!text) return DEFAULT_IMPORT_COMPLEXITY;
+  const complexity = Number(text);
+  if (Number.isInteger(complexity) && complexity >= 1 && complexity <= 10) return complexity;
+  warnings.push(`${where}: complexity "${text}" is not a whole number from 1 to 10, using ${DEFAULT_IMPORT_COMPLEXITY}`);
+  return DEFAULT_IMPORT_COMPLEXITY;
+}
+
+/**
+ * Split a tag list on commas or semicolons, dropping blanks and duplicates
+ */
+export function parseImportTags(value: string | undefined): string[] {
+  const tags = (value ?? '')
+    .split(/[;,]/)
+    .map((tag) => tag.trim().replace(/^#/, ''))
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+export function summarizePlan(plan: ImportPlan): ImportSummary {
+  const tasks = [...plan.tasks, ...plan.features.flatMap((feature) => feature.tasks)];
+  return {
+    features: plan.features.length,
+    tasks: tasks.length,
+    sections:
+      plan.features.reduce((sum, feature) => sum + feature.sections.length, 0) +
+      tasks.reduce((sum, task) => sum + task.sections.length, 0),
+  };
+}
+
+/**
+ * "2 features, 12 tasks, 3 sections"
+ */
+export function describeImport(summary: ImportSummary): string {
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+  const parts = [plural(summary.tasks, 'task')];
+  if (summary.features > 0) parts.unshift(plural(summary.features, 'feature'));
+  if (summary.sections > 0) parts.push(plural(summary.sections, 'section'));
+  return parts.join(', ');
+}
+
+/**
+ * One line per feature and task, tasks indented under their feature
+ */
+export function outlinePlan(plan: ImportPlan): string[] {
+  const taskLine = (task: PlannedTask) => `☐ ${task.title} · ${task.priority} · ${task.complexity}`;
+  return [
+    ...plan.features.flatMap((feature) => [
+      `▸ ${feature.name} (${feature.tasks.length} task${feature.tasks.length === 1 ? '' : 's'})`,
+      ...feature.tasks.map((task) => `    ${taskLine(task)}`),
+    ]),
+    ...plan.tasks.map(taskLine),
+  ];
+}
+
+/**
+ * The plan as it will be applied to `target`: into a feature, features are
+ * dropped and their tasks join the loose ones
+ */
+export function planForTarget(plan: ImportPlan, target: ImportTarget): ImportPlan {
+  if (!target.featureId || plan.features.length === 0) return plan;
+  const droppedSections = plan.features.reduce((sum, feature) => sum + feature.sections.length, 0);
+  return {
+    features: [],
+    tasks: [...plan.tasks, ...plan.features.flatMap((feature) => feature.tasks)],
+    warnings: [
+      ...plan.warnings,
+      `${plan.features.length} feature heading(s) ignored: tasks are imported into the selected feature`,
+      ...(droppedSections > 0 ? [`${droppedSections} feature section(s) skipped`] : []),
+    ],
+  };
+}
+
+type CreatedEntity = { type: 'feature' | 'task' | 'section'; id: string };
+
+async function rollback(adapter: DataAdapter, created: CreatedEntity[]): Promise<number> {
+  let failed = 0;
+  // Newest first, so children go before their feature
+  for (const entity of [...created].reverse()) {
+    const result =
+      entity.type === 'feature'
+        ? await adapter.deleteFeature(entity.id, { cascade: true })
+        : entity.type === 'task'
+          ? await adapter.deleteTask(entity.id)
+          : await adapter.deleteSection(entity.id);
+    if (!result.success) failed++;
+  }
+  return failed;
+}
+
+export interface ApplyImportOptions {
+  /** Records a successful import as a single undo step */
+  history?: UndoHistory | null;
+  /** Deletes the rollback's leftovers without recording undo entries; defaults to the adapter */
+  untracked?: DataAdapter;
+}
+
+/**
+ * Create everything in the plan. If any write fails, everything created so
+ * far is deleted again and the error names the step that failed; with a
+ * history, a rolled-back import leaves nothing to undo.
+ */
+export async function applyImport(
+  adapter: DataAdapter,
+  plan: ImportPlan,
+  target: ImportTarget,
+  options: ApplyImportOptions = {}
+): Promise<Result<ImportSummary>> {
+  const effective = planForTarget(plan, target);
+  const run = () => createPlan(adapter, options.untracked ?? adapter, effective, target);
+  if (!options.history) return run();
+  return options.history.batch(
+    `Import ${describeImport(summarizePlan(effective))}`,
+    run,
+    (result) => result.success
+  );
+}
+
+async function createPlan(
+  adapter: DataAdapter,
+  untracked: DataAdapter,
+  effective: ImportPlan,
+  target: ImportTarget
+): Promise<Result<ImportSummary>> {
+  const created: CreatedEntity[] = [];
+
+  const fail = async (step: string, error: string, code?: string): Promise<Result<ImportSummary>> => {
+    const failed = await rollback(untracked, created);
+    const outcome = failed > 0
+      ? `rollback left ${failed} of ${created.length} created entities behind`
+      : `rolled back ${created.length} created entities`;
+    return { success: false, error: `Import failed at ${step}: ${error} (${outcome})`, code };
+  };
+
+  const createSections = async (entityType: EntityType, entityId: string, sections: PlannedSection[], owner: string) => {
+    for (const section of sections) {
+      const result = await adapter.createSection({ entityType, entityId, ...section });
+      if (!result.success) return fail(`section "${section.title}" of ${owner}`, result.error, result.code);
+      created.push({ type: 'section', id: result.data.id });
+    }
+    return null;
+  };
+
+  const createTask = async (task: PlannedTask, featureId: string | undefined) => {
+    const { sections, ...params } = task;
+    const result = await adapter.createTask({ ...params, featureId });
+    if (!result.success) return fail(`task "${task.title}"`, result.error, result.code);
+    created.push({ type: 'task', id: result.data.id });
+
+    // Tasks outside a feature only know their project through an update
+    if (!featureId && target.projectId) {
+      const moved = await adapter.updateTask(result.data.id, {
+        projectId: target.projectId,
+        version: result.data.version,
+      });
+      if (!moved.success) return fail(`task "${task.title}"`, moved.error, moved.code);
+    }
+    return createSections(EntityType.TASK, result.data.id, sections, `task "${task.title}"`);
+  };
+
+  for (const feature of effective.features) {
+    const { sections, tasks, ...params } = feature;
+    const result = await adapter.createFeature({ ...params, projectId: target.projectId });
+    if (!result.success) return fail(`feature "${feature.name}"`, result.error, result.code);
+    created.push({ type: 'feature', id: result.data.id });
+
+    const sectionFailure = await createSections(EntityType.FEATURE, result.data.id, sections, `feature "${feature.name}"`);
+    if (sectionFailure) return sectionFailure;
+    for (const task of tasks) {
+      const failure = await createTask(task, result.data.id);
+      if (failure) return failure;
+    }
+  }
+
+  for (const task of effective.tasks) {
+    const failure = await createTask(task, target.featureId);
+    if (failure) return failure;
+  }
+
+  return { success: true, data: summarizePlan(effective) };
+}
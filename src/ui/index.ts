@@ -7,6 +7,9 @@
 // Themes
 export { darkTheme } from './themes/dark';
 export { lightTheme } from './themes/light';
+export { highContrastTheme } from './themes/high-contrast';
+export { ansi16Theme } from './themes/ansi16';
+export { noColorTheme } from './themes/no-color';
 export type { Theme, TaskCounts, StatusKey } from './themes/types';
 export type { WorkflowState, TransitionResult } from './adapters/types';
 
@@ -15,6 +18,10 @@ export {
   Screen,
   type ScreenParams,
   type NavigationState,
+  type NavigationEntry,
+  type ViewState,
+  type ProjectViewMode,
+  type KanbanBoardMode,
   type Shortcut,
   type TreeNode,
   type FeatureWithTasks,
@@ -35,6 +42,8 @@ export {
   formatCount,
   formatStatus,
   formatPriority,
+  formatDuration,
+  formatShortDate,
 } from './lib/format';
 
 // Lib - Color utilities
@@ -48,6 +57,118 @@ export {
   isCompletedStatus,
 } from './lib/colors';
 
+// Lib - Metrics and charts
+export {
+  computeProjectMetrics,
+  buildTimeline,
+  buildTimelines,
+  summarizeDurations,
+  weeklyThroughput,
+  METRIC_STAGES,
+  DEFAULT_THROUGHPUT_WEEKS,
+  type ProjectMetrics,
+  type DurationStats,
+  type StageMetrics,
+  type ThroughputBucket,
+  type TaskTimeline,
+  type StatusPeriod,
+} from './lib/metrics';
+export {
+  sampleFlow,
+  sampleDates,
+  statusAt,
+  rangeStart,
+  PROGRESS_RANGES,
+  type FlowSample,
+  type FlowTask,
+  type ProgressRange,
+} from './lib/flow';
+export { sparkline, bar, columnChart, stackColumns } from './lib/charts';
+export {
+  bulkKey,
+  describeBulkAction,
+  summarizeBulkResults,
+  type BulkItem,
+  type BulkAction,
+  type BulkItemResult,
+} from './lib/bulk';
+export {
+  parseTags,
+  formatTags,
+  tagCompletions,
+  completeTag,
+  matchesTags,
+  filterFeaturesByTags,
+  collectTags,
+} from './lib/tags';
+export {
+  parseSearchQuery,
+  searchEntityTypes,
+  toFeatureSearchParams,
+  toTaskSearchParams,
+  highlightSegments,
+  type SearchQuery,
+  type SearchEntityType,
+  type HighlightSegment,
+} from './lib/search-query';
+export { fuzzyMatch, type FuzzyMatch } from './lib/fuzzy';
+export { goToItems, rankGoToItems, type GoToItem, type GoToKind, type RankedGoToItem } from './lib/go-to';
+export {
+  navigationEntry,
+  initialNavigation,
+  currentEntry,
+  pushEntry,
+  popEntry,
+  forwardEntry,
+  replaceEntry,
+  updateViewState,
+  entityPath,
+  projectViewKey,
+  resolveDeepLink,
+} from './lib/navigation';
+export {
+  SESSION_VERSION,
+  sessionStatePath,
+  sessionFromNavigation,
+  serializeSession,
+  parseSession,
+  loadSession,
+  saveSession,
+  pruneSession,
+  type SessionState,
+} from './lib/session';
+export {
+  CommandRegistry,
+  availableCommands,
+  commandSignature,
+  isKeyBinding,
+  matchesKey,
+  runCommandKey,
+  rankCommands,
+  groupCommands,
+  type Command,
+  type CommandContext,
+  type RankedCommand,
+} from './lib/commands';
+export {
+  DEFAULT_CONFIG,
+  configPath,
+  validateConfig,
+  parseConfig,
+  loadConfig,
+  type UserConfig,
+} from './lib/config';
+export {
+  BUILT_IN_THEMES,
+  isThemeColor,
+  themesDir,
+  isColorDisabled,
+  validateTheme,
+  loadUserThemes,
+  findTheme,
+} from './lib/themes';
+export { EXIT_STATUS, loadTaskPipeline, planTaskMove, type TaskMove } from './lib/task-moves';
+
 // Adapters
 export type {
   DataAdapter,
@@ -55,15 +176,82 @@ export type {
   SearchParams,
   FeatureSearchParams,
   TaskSearchParams,
+  SearchPage,
+  NextTaskStrategy,
+  ChangeEntityType,
+  EntityChange,
+  ChangeCursor,
+  ChangeSet,
+  EntitySnapshot,
+  ActivityAction,
+  ActivityEntry,
+  ActivityParams,
+  FieldChange,
+  TaggedEntityType,
+  TagCount,
+  TagRename,
 } from './adapters/types';
-export { DirectAdapter } from './adapters/direct';
+export { DirectAdapter, type DirectAdapterOptions } from './adapters/direct';
+export { HttpAdapter, type HttpAdapterOptions } from './adapters/http';
+export {
+  ChangeWatcher,
+  changeAffects,
+  DEFAULT_POLL_INTERVAL_MS,
+  type ChangeListener,
+} from './adapters/change-watcher';
+export {
+  UndoHistory,
+  DEFAULT_HISTORY_LIMIT,
+  type HistoryEntry,
+  type HistoryEvent,
+  type HistoryListener,
+} from './adapters/undo-history';
+export { HistoryAdapter } from './adapters/history-adapter';
+
+// Export
+export {
+  collectExport,
+  renderExport,
+  writeExport,
+  exportToFile,
+  parseExportFormat,
+  defaultExportPath,
+  EXPORT_FORMATS,
+  type ExportBundle,
+  type ExportScope,
+  type ExportFormat,
+} from './export';
+
+// Import
+export {
+  readImport,
+  parseImport,
+  applyImport,
+  planForTarget,
+  summarizePlan,
+  parseImportFormat,
+  detectImportFormat,
+  IMPORT_FORMATS,
+  type ImportPlan,
+  type ImportTarget,
+  type ImportSummary,
+  type ImportFormat,
+} from './import';
 
 // Context
 export { ThemeProvider, useTheme } from './context/theme-context';
 export { AdapterProvider, useAdapter } from './context/adapter-context';
+export { TextEntryProvider, useTextEntry, type TextEntryTracker } from './context/text-entry-context';
+export { CommandProvider, useRegisterCommands, useAvailableCommands } from './context/command-context';
+export { ConfigProvider, useConfig } from './context/config-context';
 
 // Hooks
-export { NavigationProvider, useNavigation } from './hooks/use-navigation';
+export {
+  NavigationProvider,
+  useNavigation,
+  useNavigationState,
+  type NavigationContextValue,
+} from './hooks/use-navigation';
 export {
   useProjects,
   useProjectOverview,
@@ -72,3 +260,10 @@ export {
   useSearch,
 } from './hooks/use-data';
 export { useDebounce } from './hooks/use-debounce';
+export { useLiveRefresh } from './hooks/use-live-refresh';
+export { useActivity } from './hooks/use-activity';
+export { useProjectMetrics } from './hooks/use-metrics';
+export { useTaskHistory, type TaskHistoryScope } from './hooks/use-task-history';
+export { useBulkActions, useMultiSelect, runBulkAction } from './hooks/use-bulk-actions';
+export { useTags } from './hooks/use-tags';
+export { useGoToItems } from './hooks/use-go-to';
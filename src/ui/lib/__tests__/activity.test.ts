@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'bun:test';
+import { activitySubject, describeActivity, describeChanges } from '../activity';
+import type { ActivityEntry } from '../../adapters/types';
+
+function entry(overrides: Partial<ActivityEntry>): ActivityEntry {
+  return {
+    id: 'a1',
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    actor: 'alice',
+    action: 'update',
+    entityType: 'task',
+    entityId: 't1',
+    entityName: 'Write docs',
+    projectId: null,
+    ownerId: null,
+    oldStatus: null,
+    newStatus: null,
+    changes: [],
+    ...overrides,
+  };
+}
+
+describe('describeChanges', () => {
+  it('shows a single short change inline', () => {
+    expect(describeChanges([{ field: 'priority', from: 'LOW', to: 'HIGH' }])).toBe('priority LOW → HIGH');
+    expect(describeChanges([{ field: 'featureId', from: '', to: 'f1' }])).toBe('featureId ∅ → f1');
+  });
+
+  it('lists field names for long or multiple changes', () => {
+    expect(describeChanges([
+      { field: 'title', from: 'A', to: 'B' },
+      { field: 'summary', from: 'C', to: 'D' },
+    ])).toBe('title, summary');
+    expect(describeChanges([{ field: 'description', from: '', to: 'line one\nline two' }])).toBe('description');
+  });
+});
+
+describe('describeActivity', () => {
+  it('describes transitions by their statuses', () => {
+    expect(describeActivity(entry({ action: 'advance', oldStatus: 'NEW', newStatus: 'ACTIVE' }))).toBe(
+      'advanced NEW → ACTIVE'
+    );
+  });
+
+  it('describes edits by their fields and other actions by verb', () => {
+    expect(describeActivity(entry({ changes: [{ field: 'complexity', from: '2', to: '5' }] }))).toBe(
+      'edited complexity 2 → 5'
+    );
+    expect(describeActivity(entry({ action: 'delete' }))).toBe('deleted');
+  });
+
+  it('names the subject with its type', () => {
+    expect(activitySubject(entry({}))).toBe('task "Write docs"');
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'bun:test';
+import { db, Priority, type Feature, type Task } from '@allpepper/task-orchestrator';
+import { runMigrations } from '@allpepper/task-orchestrator/src/db/migrate';
+import * as projects from '@allpepper/task-orchestrator/src/repos/projects';
+import { DirectAdapter } from '../../adapters/direct';
+import { HistoryAdapter } from '../../adapters/history-adapter';
+import { UndoHistory } from '../../adapters/undo-history';
+import { runBulkAction } from '../../hooks/use-bulk-actions';
+import {
+  describeBulkAction,
+  orderBulkItems,
+  rangeKeys,
+  summarizeBulkResults,
+  type BulkItem,
+} from '../bulk';
+
+function task(id: string): BulkItem {
+  return { type: 'task', entity: { id, title: id } as Task };
+}
+
+function feature(id: string): BulkItem {
+  return { type: 'feature', entity: { id, name: id } as Feature };
+}
+
+describe('bulk selection', () => {
+  it('should mark the range between the anchor and the cursor in either direction', () => {
+    const keys = ['a', 'b', 'c', 'd'];
+    expect(rangeKeys(keys, 'b', 3)).toEqual(['b', 'c', 'd']);
+    expect(rangeKeys(keys, 'd', 0)).toEqual(['a', 'b', 'c', 'd']);
+    expect(rangeKeys(keys, null, 2)).toEqual(['c']);
+    expect(rangeKeys(keys, 'gone', 1)).toEqual(['b']);
+    expect(rangeKeys(keys, 'a', 9)).toEqual([]);
+  });
+
+  it('should process tasks before features', () => {
+    expect(orderBulkItems([feature('f1'), task('t1'), feature('f2'), task('t2')]).map((item) => item.entity.id)).toEqual([
+      't1',
+      't2',
+      'f1',
+      'f2',
+    ]);
+  });
+
+  it('should describe the action and its results', () => {
+    expect(describeBulkAction({ kind: 'advance' }, [task('a'), task('b'), feature('c')])).toBe('Advance 2 tasks and 1 feature?');
+    expect(describeBulkAction({ kind: 'add-tags', tags: ['ui', 'web'] }, [feature('c')])).toBe('Add #ui #web to 1 feature?');
+    expect(summarizeBulkResults([{ item: task('a'), success: true }])).toBe('1 item succeeded');
+    expect(
+      summarizeBulkResults([
+        { item: task('a'), success: true },
+        { item: task('b'), success: false, error: 'stale', code: 'CONFLICT' },
+      ])
+    ).toBe('1 of 2 items succeeded, 1 failed');
+  });
+});
+
+describe('runBulkAction', () => {
+  let adapter: DirectAdapter;
+  let projectId: string;
+
+  function clearTables() {
+    db.run('DELETE FROM entity_tags');
+    db.run('DELETE FROM sections');
+    db.run('DELETE FROM tasks');
+    db.run('DELETE FROM features');
+    db.run('DELETE FROM projects');
+  }
+
+  async function createTask(title: string): Promise<Task> {
+    const created = await adapter.createTask({ title, summary: title, priority: Priority.MEDIUM, complexity: 3 });
+    if (!created.success) throw new Error(created.error);
+    return created.data;
+  }
+
+  beforeAll(() => {
+    runMigrations();
+  });
+
+  beforeEach(() => {
+    clearTables();
+    adapter = new DirectAdapter();
+    const project = projects.createProject({ name: 'Bulk', summary: 'Bulk actions' });
+    if (!project.success) throw new Error(project.error);
+    projectId = project.data.id;
+  });
+
+  afterAll(() => {
+    clearTables();
+  });
+
+  it('should keep going past a stale item and report it as a conflict', async () => {
+    const first = await createTask('First');
+    const stale = await createTask('Stale');
+    const third = await createTask('Third');
+    const bumped = await adapter.updateTask(stale.id, { summary: 'Edited elsewhere', version: stale.version });
+    if (!bumped.success) throw new Error(bumped.error);
+
+    const results = await runBulkAction(
+      adapter,
+      [first, stale, third].map((entity): BulkItem => ({ type: 'task', entity })),
+      { kind: 'priority', priority: Priority.HIGH }
+    );
+
+    expect(results.map((result) => result.success)).toEqual([true, false, true]);
+    const failed = results[1];
+    expect(failed && !failed.success && failed.code).toBe('CONFLICT');
+    const updated = await adapter.getTask(third.id);
+    expect(updated.success && updated.data.priority).toBe(Priority.HIGH);
+  });
+
+  it('should add and remove tags without touching the others', async () => {
+    const created = await createTask('Tagged');
+    const tagged = await adapter.updateTask(created.id, { tags: ['keep', 'drop'], version: created.version });
+    if (!tagged.success) throw new Error(tagged.error);
+
+    const [added] = await runBulkAction(adapter, [{ type: 'task', entity: tagged.data }], { kind: 'add-tags', tags: ['new', 'keep'] });
+    expect(added?.success).toBe(true);
+    const afterAdd = await adapter.getTask(created.id);
+    if (!afterAdd.success) throw new Error(afterAdd.error);
+    expect([...(afterAdd.data.tags ?? [])].sort()).toEqual(['drop', 'keep', 'new']);
+
+    await runBulkAction(adapter, [{ type: 'task', entity: afterAdd.data }], { kind: 'remove-tags', tags: ['drop'] });
+    const afterRemove = await adapter.getTask(created.id);
+    expect(afterRemove.success && [...(afterRemove.data.tags ?? [])].sort()).toEqual(['keep', 'new']);
+  });
+
+  it('should move tasks into a feature and refuse to move features', async () => {
+    const target = await adapter.createFeature({ projectId, name: 'Target', summary: 'Target', priority: Priority.MEDIUM });
+    const other = await adapter.createFeature({ projectId, name: 'Other', summary: 'Other', priority: Priority.MEDIUM });
+    if (!target.success || !other.success) throw new Error('feature setup failed');
+    const loose = await createTask('Loose');
+
+    const results = await runBulkAction(
+      adapter,
+      [
+        { type: 'feature', entity: other.data },
+        { type: 'task', entity: loose },
+      ],
+      { kind: 'move', featureId: target.data.id, featureName: 'Target' }
+    );
+
+    expect(results.map((result) => [result.item.type, result.success])).toEqual([
+      ['task', true],
+      ['feature', false],
+    ]);
+    const moved = await adapter.getTask(loose.id);
+    expect(moved.success && moved.data.featureId).toBe(target.data.id);
+  });
+
+  it('should undo a bulk action in one step', async () => {
+    const first = await createTask('First');
+    const second = await createTask('Second');
+    const history = new UndoHistory();
+
+    await runBulkAction(
+      new HistoryAdapter(adapter, history),
+      [first, second].map((entity): BulkItem => ({ type: 'task', entity })),
+      { kind: 'priority', priority: Priority.HIGH },
+      history
+    );
+
+    const undone = await history.undo();
+    expect(undone.success && undone.data.label).toBe('Set priority HIGH on 2 tasks');
+    expect(history.canUndo).toBe(false);
+    const restored = await adapter.getTasks({ limit: 1000 });
+    expect(restored.success && restored.data.map((task) => task.priority)).toEqual([Priority.MEDIUM, Priority.MEDIUM]);
+  });
+});
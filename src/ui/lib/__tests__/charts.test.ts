@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'bun:test';
+import { bar, columnChart, sparkline, stackColumns } from '../charts';
+
+describe('sparkline', () => {
+  it('should scale values to the largest one', () => {
+    expect(sparkline([0, 2, 4, 8])).toBe('▁▂▄█');
+  });
+
+  it('should draw a flat line when there is nothing to show', () => {
+    expect(sparkline([0, 0, 0])).toBe('▁▁▁');
+    expect(sparkline([])).toBe('');
+  });
+
+  it('should accept a shared maximum', () => {
+    expect(sparkline([4], 8)).toBe('▄');
+  });
+});
+
+describe('bar', () => {
+  it('should draw whole and partial cells', () => {
+    expect(bar(5, 10, 4)).toBe('██');
+    expect(bar(10, 10, 4)).toBe('████');
+    expect(bar(1, 8, 2)).toBe('▎');
+  });
+
+  it('should show a sliver for tiny values and nothing for zero', () => {
+    expect(bar(1, 1000, 10)).toBe('▏');
+    expect(bar(0, 10, 10)).toBe('');
+  });
+});
+
+describe('columnChart', () => {
+  it('should stack eighths from the bottom row up', () => {
+    expect(columnChart([2, 4], 1)).toEqual(['▄█']);
+    expect(columnChart([1, 4, 0], 2)).toEqual([' █ ', '▄█ ']);
+  });
+});
+
+describe('stackColumns', () => {
+  it('should fill cells with the band under their midpoint', () => {
+    expect(stackColumns([[2, 2], [4, 0], [1]], 4)).toEqual([
+      [1, 0, null],
+      [1, 0, null],
+      [0, 0, null],
+      [0, 0, 0],
+    ]);
+  });
+
+  it('should leave an empty chart blank', () => {
+    expect(stackColumns([[0], []], 2)).toEqual([[null, null], [null, null]]);
+  });
+});
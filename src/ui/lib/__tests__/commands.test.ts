@@ -0,0 +1,136 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  CommandRegistry,
+  DEFAULT_KEYS,
+  availableCommands,
+  groupCommands,
+  isKeyBinding,
+  matchesKey,
+  rankCommands,
+  runCommandKey,
+  type Command,
+} from '../commands';
+
+const commands: Command[] = [
+  { id: 'project.new-feature', key: 'n', title: 'New Feature', group: 'Project', run: () => {} },
+  { id: 'project.navigate', key: 'j/k', title: 'Navigate', group: 'Project' },
+  { id: 'global.search', key: '/', title: 'Search', group: 'Global', run: () => {}, when: ({ screen }) => screen !== 'search' },
+  { id: 'global.redo', key: 'Ctrl-R', title: 'Redo', group: 'Global', run: () => {} },
+];
+
+describe('CommandRegistry', () => {
+  it('should list the latest registration first and drop unregistered sources', () => {
+    const registry = new CommandRegistry();
+    const listener = mock(() => {});
+    registry.subscribe(listener);
+
+    registry.register(() => [commands[2]!]);
+    const unregister = registry.register(() => [commands[0]!]);
+    expect(registry.list().map((command) => command.id)).toEqual(['project.new-feature', 'global.search']);
+
+    unregister();
+    expect(registry.list().map((command) => command.id)).toEqual(['global.search']);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('should read sources on every list so handlers stay current', () => {
+    const registry = new CommandRegistry();
+    let title = 'Before';
+    registry.register(() => [{ id: 'x', title, group: 'Test' }]);
+    title = 'After';
+    expect(registry.list()[0]?.title).toBe('After');
+  });
+
+  it('should apply key remaps to runnable commands only', () => {
+    const registry = new CommandRegistry({ 'project.new-feature': 'N', 'project.navigate': 'x' });
+    registry.register(() => commands);
+    const keys = registry.list().map((command) => command.key);
+    expect(keys).toEqual(['N', 'j/k', '/', 'Ctrl-R']);
+    expect(registry.bind(commands)[0]?.key).toBe('N');
+  });
+});
+
+describe('availableCommands', () => {
+  it('should apply context predicates', () => {
+    expect(availableCommands(commands, { screen: 'search' }).map((command) => command.id)).not.toContain('global.search');
+    expect(availableCommands(commands, { screen: 'project' })).toHaveLength(4);
+  });
+});
+
+describe('matchesKey', () => {
+  it('should accept only bindings it can dispatch', () => {
+    expect(isKeyBinding('n')).toBe(true);
+    expect(isKeyBinding('Ctrl-Q')).toBe(true);
+    expect(isKeyBinding(' ')).toBe(false);
+    expect(isKeyBinding('Esc')).toBe(false);
+  });
+
+  it('should match plain and Ctrl bindings but not composite hints', () => {
+    expect(matchesKey('n', 'n', {})).toBe(true);
+    expect(matchesKey('n', 'n', { ctrl: true })).toBe(false);
+    expect(matchesKey('Ctrl-R', 'r', { ctrl: true })).toBe(true);
+    expect(matchesKey('Ctrl-R', 'r', {})).toBe(false);
+    expect(matchesKey('j/k', 'j', {})).toBe(false);
+  });
+
+  it('should run the command bound to a keypress', () => {
+    const run = mock(() => {});
+    expect(runCommandKey([{ id: 'a', key: 'a', title: 'A', group: 'Test', run }], 'a', {})).toBe(true);
+    expect(runCommandKey([{ id: 'a', key: 'a', title: 'A', group: 'Test', run }], 'b', {})).toBe(false);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('rankCommands', () => {
+  it('should only offer runnable commands, best title match first', () => {
+    expect(rankCommands(commands, '').map((entry) => entry.command.id)).toEqual([
+      'project.new-feature',
+      'global.search',
+      'global.redo',
+    ]);
+    expect(rankCommands(commands, 'nf')[0]?.command.id).toBe('project.new-feature');
+    expect(rankCommands(commands, 'nav')).toEqual([]);
+  });
+
+  it('should fall back to the group name', () => {
+    expect(rankCommands(commands, 'global').map((entry) => entry.command.id).sort()).toEqual(['global.redo', 'global.search']);
+  });
+});
+
+describe('groupCommands', () => {
+  it('should group in first-seen order', () => {
+    expect(groupCommands(commands).map((entry) => [entry.group, entry.commands.length])).toEqual([
+      ['Project', 2],
+      ['Global', 2],
+    ]);
+  });
+});
+
+describe('DEFAULT_KEYS', () => {
+  /**
+   * `id`/`key` pairs of the command literals in the TUI sources; screens only
+   * build their commands while mounted, so the table is checked against the code
+   */
+  function definedKeys(): Map<string, string> {
+    const root = join(import.meta.dir, '../../../tui');
+    const files = readdirSync(root, { recursive: true, encoding: 'utf8' }).filter(
+      (file) => file.endsWith('.tsx') && !file.includes('.test.')
+    );
+    const keys = new Map<string, string>();
+    for (const file of files) {
+      const source = readFileSync(join(root, file), 'utf8');
+      for (const match of source.matchAll(/id: '([a-z-]+\.[a-z-]+)',\s*(?:\/\/[^\n]*\s*)?key: '([^']+)'/g)) {
+        keys.set(match[1]!, match[2]!);
+      }
+    }
+    return keys;
+  }
+
+  it('should hold the key of every command with a single-key binding', () => {
+    const bound = [...definedKeys()].filter(([, key]) => isKeyBinding(key));
+    expect(bound.length).toBeGreaterThan(0);
+    expect(Object.fromEntries(bound)).toEqual({ ...DEFAULT_KEYS });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Priority } from '@allpepper/task-orchestrator';
+import { DEFAULT_CONFIG, configPath, loadConfig, parseConfig, validateConfig } from '../config';
+
+describe('configPath', () => {
+  it('should use XDG_CONFIG_HOME when set', () => {
+    expect(configPath({ XDG_CONFIG_HOME: '/conf' })).toBe('/conf/task-orchestrator-tui/config.json');
+    expect(configPath({})).toEndWith(join('.config', 'task-orchestrator-tui', 'config.json'));
+  });
+});
+
+describe('validateConfig', () => {
+  it('should fill in defaults for missing settings', () => {
+    expect(validateConfig({})).toEqual({ success: true, data: DEFAULT_CONFIG });
+
+    const result = validateConfig({
+      theme: 'light',
+      keys: { 'global.search': 'S', 'global.quit': 'Ctrl-Q' },
+      defaults: { taskPriority: 'HIGH', taskComplexity: 5 },
+      debounce: { searchMs: 150 },
+    });
+    expect(result.success && result.data).toEqual({
+      theme: 'light',
+      keys: { 'global.search': 'S', 'global.quit': 'Ctrl-Q' },
+      defaults: { projectViewMode: 'status', taskPriority: Priority.HIGH, taskComplexity: 5 },
+      debounce: { searchMs: 150 },
+    });
+  });
+
+  it('should report every problem with its path', () => {
+    const result = validateConfig({
+      theme: 5,
+      colour: 'red',
+      keys: { 'global.search': 'j', 'global.tags': 'Esc', 'global.help': 'z', 'global.go-to': 'z' },
+      defaults: { projectViewMode: 'grid', taskComplexity: 11 },
+      debounce: 'fast',
+    });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.code).toBe('VALIDATION_ERROR');
+    expect(result.error.split('\n')).toEqual([
+      'colour: unknown setting',
+      'debounce: expected an object, got "fast"',
+      'theme: expected a name, got 5',
+      'keys["global.search"]: "j" is reserved for movement',
+      'keys["global.tags"]: expected a single character or Ctrl-<key>, got "Esc"',
+      'keys["global.go-to"]: "z" is already bound to global.help',
+      'defaults.projectViewMode: expected "features", "status", "feature-status", got "grid"',
+      'defaults.taskComplexity: expected a whole number from 1 to 10, got 11',
+    ]);
+  });
+
+  it('should check remaps against the keys the other commands keep', () => {
+    const taken = validateConfig({ keys: { 'global.search': 'n' } });
+    expect(!taken.success && taken.error).toBe('keys["global.search"]: "n" is already bound to dashboard.new');
+    expect(validateConfig({ keys: { 'global.undo': 'Ctrl-p' } }).success).toBe(false);
+
+    // Keys can be swapped, and reused on screens that never meet
+    const swapped = { 'project.refresh': 'g', 'project.graph': 'r' };
+    expect(validateConfig({ keys: swapped }).success).toBe(true);
+    expect(validateConfig({ keys: { 'kanban.refresh': 'R', 'tags.refresh': 'R' } }).success).toBe(true);
+  });
+
+  it('should reject a file that is not an object', () => {
+    expect(validateConfig([]).success).toBe(false);
+    const result = parseConfig('{ "theme": ');
+    expect(!result.success && result.error).toStartWith('not valid JSON');
+  });
+});
+
+describe('loadConfig', () => {
+  it('should use the defaults without a file and name the file in errors', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'tasks-config-'));
+    try {
+      const path = join(dir, 'config.json');
+      expect(await loadConfig(path)).toEqual({ success: true, data: DEFAULT_CONFIG });
+
+      writeFileSync(path, JSON.stringify({ theme: '' }));
+      const result = await loadConfig(path);
+      expect(!result.success && result.error).toBe(`Invalid config ${path}:\n  theme: expected a name, got ""`);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
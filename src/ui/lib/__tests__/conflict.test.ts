@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  defaultChoices,
+  diffEditValues,
+  mergeEditValues,
+  TASK_EDIT_FIELDS,
+  type EditValues,
+} from '../conflict';
+
+const base: EditValues = {
+  title: 'Write docs',
+  summary: 'Document the API',
+  description: '',
+  priority: 'MEDIUM',
+  complexity: '3',
+  status: 'NEW',
+};
+
+describe('diffEditValues', () => {
+  it('lists only fields changed on either side', () => {
+    const mine = { ...base, title: 'Write API docs' };
+    const theirs = { ...base, priority: 'HIGH' };
+
+    const fields = diffEditValues(TASK_EDIT_FIELDS, base, mine, theirs);
+    expect(fields.map((field) => field.key)).toEqual(['title', 'priority']);
+    expect(fields.every((field) => !field.conflicting)).toBe(true);
+  });
+
+  it('flags fields both sides changed differently', () => {
+    const mine = { ...base, summary: 'Mine' };
+    const theirs = { ...base, summary: 'Theirs', status: 'ACTIVE' };
+
+    const fields = diffEditValues(TASK_EDIT_FIELDS, base, mine, theirs);
+    expect(fields.find((field) => field.key === 'summary')?.conflicting).toBe(true);
+    expect(fields.find((field) => field.key === 'status')?.readOnly).toBe(true);
+  });
+
+  it('does not flag identical edits on both sides', () => {
+    const edited = { ...base, title: 'Same change' };
+    const [field] = diffEditValues(TASK_EDIT_FIELDS, base, edited, edited);
+    expect(field?.conflicting).toBe(false);
+  });
+});
+
+describe('mergeEditValues', () => {
+  it('keeps user edits by default and takes theirs elsewhere', () => {
+    const mine = { ...base, title: 'Write API docs' };
+    const theirs = { ...base, priority: 'HIGH', status: 'ACTIVE' };
+    const fields = diffEditValues(TASK_EDIT_FIELDS, base, mine, theirs);
+
+    expect(defaultChoices(fields)).toEqual({ title: 'mine', priority: 'theirs', status: 'theirs' });
+    expect(mergeEditValues(fields, theirs, defaultChoices(fields))).toEqual({
+      ...base,
+      title: 'Write API docs',
+      priority: 'HIGH',
+      status: 'ACTIVE',
+    });
+  });
+
+  it('honours per-field choices but never writes read-only fields', () => {
+    const mine = { ...base, summary: 'Mine' };
+    const theirs = { ...base, summary: 'Theirs', status: 'ACTIVE' };
+    const fields = diffEditValues(TASK_EDIT_FIELDS, base, mine, theirs);
+
+    const merged = mergeEditValues(fields, theirs, { summary: 'theirs', status: 'mine' });
+    expect(merged.summary).toBe('Theirs');
+    expect(merged.status).toBe('ACTIVE');
+  });
+});
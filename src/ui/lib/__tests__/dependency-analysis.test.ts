@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  computeCriticalPath,
+  rankUnblockImpact,
+  type AnalysisTask,
+} from '../dependency-analysis';
+
+function task(id: string, blockedBy: string[] = [], complexity = 1, status = 'NEW'): AnalysisTask {
+  return { id, blockedBy, complexity, status };
+}
+
+describe('computeCriticalPath', () => {
+  it('should follow the heaviest chain of blockers', () => {
+    const result = computeCriticalPath([
+      task('design', [], 3),
+      task('api', ['design'], 5),
+      task('docs', ['design'], 1),
+      task('release', ['api', 'docs'], 2),
+    ]);
+
+    expect(result.taskIds).toEqual(['design', 'api', 'release']);
+    expect(result.totalComplexity).toBe(10);
+  });
+
+  it('should ignore completed tasks', () => {
+    const result = computeCriticalPath([
+      task('done', [], 8, 'CLOSED'),
+      task('next', ['done'], 2),
+      task('other', [], 1),
+    ]);
+
+    expect(result.taskIds).toEqual(['next']);
+    expect(result.totalComplexity).toBe(2);
+  });
+
+  it('should weigh unestimated tasks as 1 and survive cycles', () => {
+    const result = computeCriticalPath([
+      task('a', ['b'], 0),
+      task('b', ['a'], 0),
+    ]);
+
+    expect(result.taskIds.length).toBe(2);
+    expect(result.totalComplexity).toBe(2);
+  });
+
+  it('should return an empty path without open tasks', () => {
+    expect(computeCriticalPath([])).toEqual({ taskIds: [], totalComplexity: 0 });
+  });
+});
+
+describe('rankUnblockImpact', () => {
+  it('should rank tasks by transitive downstream count', () => {
+    const ranking = rankUnblockImpact([
+      task('leaf'),
+      task('root'),
+      task('mid', ['root']),
+      task('end1', ['mid']),
+      task('end2', ['mid', 'root']),
+    ]);
+
+    expect(ranking[0]).toEqual({ taskId: 'root', directCount: 2, transitiveCount: 3 });
+    expect(ranking[1]).toEqual({ taskId: 'mid', directCount: 2, transitiveCount: 2 });
+    expect(ranking.find((entry) => entry.taskId === 'leaf')?.transitiveCount).toBe(0);
+  });
+
+  it('should not count closed dependents or manual blockers', () => {
+    const ranking = rankUnblockImpact([
+      task('root'),
+      task('closed', ['root'], 1, 'CLOSED'),
+      task('manual', ['NO_OP']),
+    ]);
+
+    expect(ranking.every((entry) => entry.transitiveCount === 0)).toBe(true);
+    expect(ranking.map((entry) => entry.taskId)).not.toContain('closed');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  validateDependencyGraph,
+  findCycleForNewBlocker,
+  createBlockedByLookup,
+  formatCycle,
+  type DependencyNode,
+} from '../dependency-graph';
+
+function node(id: string, blockedBy: string[] = []): DependencyNode {
+  return { id, blockedBy };
+}
+
+describe('validateDependencyGraph', () => {
+  it('should report nothing for an acyclic graph', () => {
+    const result = validateDependencyGraph([
+      node('a', ['b']),
+      node('b', ['c']),
+      node('c'),
+    ]);
+    expect(result.cycles).toEqual([]);
+    expect(result.dangling).toEqual([]);
+  });
+
+  it('should find a three-task cycle in blockedBy order', () => {
+    const result = validateDependencyGraph([
+      node('a', ['b']),
+      node('b', ['c']),
+      node('c', ['a']),
+      node('d', ['a']),
+    ]);
+    expect(result.cycles.length).toBe(1);
+    const cycle = result.cycles[0]!;
+    expect([...cycle].sort()).toEqual(['a', 'b', 'c']);
+
+    // Every element must wait on the next one
+    const lookup = createBlockedByLookup([node('a', ['b']), node('b', ['c']), node('c', ['a'])]);
+    cycle.forEach((id, index) => {
+      const next = cycle[(index + 1) % cycle.length]!;
+      expect(lookup(id)).toContain(next);
+    });
+  });
+
+  it('should report self-blocking tasks', () => {
+    const result = validateDependencyGraph([node('a', ['a'])]);
+    expect(result.cycles).toEqual([['a']]);
+  });
+
+  it('should report separate cycles separately', () => {
+    const result = validateDependencyGraph([
+      node('a', ['b']),
+      node('b', ['a']),
+      node('c', ['d']),
+      node('d', ['c']),
+    ]);
+    expect(result.cycles.length).toBe(2);
+  });
+
+  it('should report dangling blockers unless they are known elsewhere', () => {
+    const nodes = [node('a', ['gone', 'other-project', 'NO_OP'])];
+
+    expect(validateDependencyGraph(nodes).dangling).toEqual([
+      { taskId: 'a', blockerId: 'gone' },
+      { taskId: 'a', blockerId: 'other-project' },
+    ]);
+    expect(validateDependencyGraph(nodes, (id) => id === 'other-project').dangling).toEqual([
+      { taskId: 'a', blockerId: 'gone' },
+    ]);
+  });
+});
+
+describe('findCycleForNewBlocker', () => {
+  const lookup = createBlockedByLookup([
+    node('a', ['b']),
+    node('b', ['c']),
+    node('c'),
+  ]);
+
+  it('should detect a link that closes a cycle', () => {
+    // c waiting on a closes a → b → c → a
+    expect(findCycleForNewBlocker('c', 'a', lookup)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should allow links that keep the graph acyclic', () => {
+    expect(findCycleForNewBlocker('a', 'c', lookup)).toBeNull();
+  });
+
+  it('should treat self-blocking as a cycle', () => {
+    expect(findCycleForNewBlocker('a', 'a', lookup)).toEqual(['a']);
+  });
+});
+
+describe('formatCycle', () => {
+  it('should close the loop back to the first element', () => {
+    expect(formatCycle(['a', 'b'], (id) => id.toUpperCase())).toBe('A → B → A');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'bun:test';
+import { rangeStart, sampleDates, sampleFlow, statusAt, type FlowTask } from '../flow';
+import { buildTimeline, type StatusTransition } from '../metrics';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-11T12:00:00.000Z');
+
+function at(daysAgo: number): Date {
+  return new Date(NOW.getTime() - daysAgo * DAY);
+}
+
+function task(id: string, status: string, createdDaysAgo: number, complexity = 1): FlowTask {
+  return { id, status, complexity, createdAt: at(createdDaysAgo), modifiedAt: at(createdDaysAgo) };
+}
+
+function move(entityId: string, oldStatus: string, newStatus: string, daysAgo: number): StatusTransition {
+  return { entityId, oldStatus, newStatus, createdAt: at(daysAgo) };
+}
+
+describe('sampleDates', () => {
+  it('should include both ends', () => {
+    expect(sampleDates(at(4), NOW, 3)).toEqual([at(4), at(2), NOW]);
+    expect(sampleDates(at(4), NOW, 1)).toEqual([NOW]);
+  });
+});
+
+describe('rangeStart', () => {
+  it('should go back a fixed number of days or to the oldest task', () => {
+    expect(rangeStart('7d', [], NOW)).toEqual(at(7));
+    expect(rangeStart('all', [task('a', 'NEW', 3), task('b', 'NEW', 12)], NOW)).toEqual(at(12));
+  });
+});
+
+describe('statusAt', () => {
+  it('should follow the timeline and be null before creation', () => {
+    const timeline = buildTimeline(task('a', 'ACTIVE', 5), [move('a', 'NEW', 'ACTIVE', 2)], NOW);
+
+    expect(statusAt(timeline, at(6))).toBeNull();
+    expect(statusAt(timeline, at(3))).toBe('NEW');
+    expect(statusAt(timeline, at(1))).toBe('ACTIVE');
+  });
+});
+
+describe('sampleFlow', () => {
+  it('should count tasks per status and open points at each date', () => {
+    const samples = sampleFlow(
+      [task('a', 'CLOSED', 10, 3), task('b', 'ACTIVE', 6, 5), task('c', 'NEW', 1, 2)],
+      [
+        move('a', 'NEW', 'ACTIVE', 8),
+        move('a', 'ACTIVE', 'CLOSED', 4),
+        move('b', 'NEW', 'ACTIVE', 2),
+      ],
+      [at(9), at(5), at(3), NOW],
+      NOW
+    );
+
+    expect(samples.map((sample) => sample.counts)).toEqual([
+      { NEW: 1 },
+      { ACTIVE: 1, NEW: 1 },
+      { CLOSED: 1, NEW: 1 },
+      { CLOSED: 1, ACTIVE: 1, NEW: 1 },
+    ]);
+    expect(samples.map((sample) => sample.remaining)).toEqual([3, 8, 5, 7]);
+  });
+});
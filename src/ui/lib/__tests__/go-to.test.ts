@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'bun:test';
+import { fuzzyMatch } from '../fuzzy';
+import { rankGoToItems, type GoToItem } from '../go-to';
+
+const items: GoToItem[] = [
+  { kind: 'project', id: 'aa11bb22-0000-4000-8000-000000000001', title: 'Billing' },
+  { kind: 'feature', id: 'cc33dd44-0000-4000-8000-000000000002', title: 'Login flow', status: 'ACTIVE', projectId: 'p' },
+  { kind: 'task', id: '550e8400-e29b-41d4-a716-446655440000', title: 'Fix logout button', status: 'NEW', priority: 'HIGH' },
+  { kind: 'task', id: 'ee55ff66-0000-4000-8000-000000000004', title: 'Blog in layout', status: 'NEW', priority: 'LOW' },
+];
+
+describe('fuzzyMatch', () => {
+  it('should match characters in order and prefer word starts', () => {
+    expect(fuzzyMatch('lgf', 'Login flow')?.positions).toEqual([0, 2, 6]);
+    expect(fuzzyMatch('xyz', 'Login flow')).toBeNull();
+    // "lo" at the start of "layout"/"logout" beats the "lo" inside "Blog"
+    expect(fuzzyMatch('lo', 'Blog logout')?.positions).toEqual([5, 6]);
+  });
+});
+
+describe('rankGoToItems', () => {
+  it('should rank word-start and consecutive matches first', () => {
+    expect(rankGoToItems(items, 'log').map((entry) => entry.item.title)).toEqual([
+      'Login flow',
+      'Fix logout button',
+      'Blog in layout',
+    ]);
+  });
+
+  it('should put ID prefix matches above title matches', () => {
+    const [first] = rankGoToItems(items, '550e84');
+    expect(first?.item.title).toBe('Fix logout button');
+    expect(first?.byId).toBe(true);
+  });
+
+  it('should list everything in order for an empty query', () => {
+    expect(rankGoToItems(items, '  ', 2).map((entry) => entry.item.kind)).toEqual(['project', 'feature']);
+  });
+});
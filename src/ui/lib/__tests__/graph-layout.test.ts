@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  layoutDependencyGraph,
+  findNeighbourNode,
+  type GraphLayout,
+  type GraphNodeInput,
+} from '../graph-layout';
+
+function task(id: string, blockedBy: string[] = []): GraphNodeInput {
+  return { id, title: `Task ${id}`, status: 'NEW', blockedBy };
+}
+
+function render(layout: GraphLayout): string[] {
+  return layout.cells.map((row) => row.map((cell) => cell.char).join('').trimEnd());
+}
+
+function placed(layout: GraphLayout, id: string) {
+  const node = layout.nodes.find((candidate) => candidate.id === id);
+  if (!node) throw new Error(`node ${id} not placed`);
+  return node;
+}
+
+describe('layoutDependencyGraph', () => {
+  it('should place blockers in earlier columns than the tasks they block', () => {
+    const layout = layoutDependencyGraph([
+      task('c', ['b']),
+      task('b', ['a']),
+      task('a'),
+    ], { nodeWidth: 10 });
+
+    expect(placed(layout, 'a').column).toBe(0);
+    expect(placed(layout, 'b').column).toBe(1);
+    expect(placed(layout, 'c').column).toBe(2);
+    expect(placed(layout, 'b').x).toBeGreaterThan(placed(layout, 'a').x);
+  });
+
+  it('should use the longest path for tasks with several blockers', () => {
+    const layout = layoutDependencyGraph([
+      task('a'),
+      task('b', ['a']),
+      task('c', ['a', 'b']),
+    ], { nodeWidth: 10 });
+
+    expect(placed(layout, 'c').column).toBe(2);
+    // The a → c edge passes through column 1 as a straight line
+    const lines = render(layout);
+    expect(lines.some((line) => line.includes('──────────'))).toBe(true);
+  });
+
+  it('should draw box-drawing edges ending in arrows', () => {
+    const layout = layoutDependencyGraph([
+      task('a'),
+      task('b', ['a']),
+      task('c', ['a']),
+    ], { nodeWidth: 10 });
+
+    const lines = render(layout);
+    const text = lines.join('\n');
+    expect(text).toContain('● Task a');
+    expect(text).toContain('▶● Task b');
+    expect(text).toContain('▶● Task c');
+    expect(text).toMatch(/[┬┐]/);
+    expect(text).toMatch(/[└┘]/);
+  });
+
+  it('should ignore manual blockers and blockers outside the set', () => {
+    const layout = layoutDependencyGraph([
+      task('a', ['NO_OP', 'elsewhere']),
+    ]);
+
+    expect(layout.nodes).toHaveLength(1);
+    expect(placed(layout, 'a').column).toBe(0);
+    expect(render(layout).join('')).not.toContain('▶');
+  });
+
+  it('should stack disconnected components and gather isolated tasks last', () => {
+    const layout = layoutDependencyGraph([
+      task('solo'),
+      task('a'),
+      task('b', ['a']),
+      task('x'),
+      task('y', ['x']),
+    ], { nodeWidth: 10, isolatedLabel: 'Independent' });
+
+    const components = new Set(layout.nodes.map((node) => node.component));
+    expect(components.size).toBe(3);
+    expect(placed(layout, 'x').y).toBeGreaterThan(placed(layout, 'a').y);
+    expect(placed(layout, 'solo').component).toBe(2);
+    expect(placed(layout, 'solo').y).toBeGreaterThan(placed(layout, 'y').y);
+    expect(render(layout)).toContain('Independent');
+  });
+
+  it('should lay out cycles without looping and flag their tasks', () => {
+    const layout = layoutDependencyGraph([
+      task('a', ['c']),
+      task('b', ['a']),
+      task('c', ['b']),
+      task('d', ['c']),
+    ]);
+
+    expect(layout.nodes).toHaveLength(4);
+    expect(placed(layout, 'a').inCycle).toBe(true);
+    expect(placed(layout, 'd').inCycle).toBe(false);
+    expect(render(layout).join('\n')).toContain('↺');
+  });
+
+  it('should return an empty layout for no tasks', () => {
+    const layout = layoutDependencyGraph([]);
+    expect(layout.nodes).toEqual([]);
+    expect(layout.height).toBe(0);
+  });
+});
+
+describe('findNeighbourNode', () => {
+  const layout = layoutDependencyGraph([
+    task('a'),
+    task('b', ['a']),
+    task('c', ['a']),
+    task('d', ['b', 'c']),
+  ], { nodeWidth: 10 });
+
+  it('should move within a column with up and down', () => {
+    const [first, second] = layout.nodes
+      .filter((node) => node.column === 1)
+      .sort((x, y) => x.y - y.y);
+    expect(findNeighbourNode(layout, first!.id, 'down')).toBe(second!.id);
+    expect(findNeighbourNode(layout, second!.id, 'up')).toBe(first!.id);
+    expect(findNeighbourNode(layout, second!.id, 'down')).toBeNull();
+  });
+
+  it('should jump to the nearest node in the adjacent column', () => {
+    expect(findNeighbourNode(layout, 'a', 'right')).toBe(
+      layout.nodes.filter((node) => node.column === 1).sort((x, y) => x.y - y.y)[0]!.id
+    );
+    expect(findNeighbourNode(layout, 'b', 'right')).toBe('d');
+    expect(findNeighbourNode(layout, 'd', 'left')).not.toBeNull();
+    expect(findNeighbourNode(layout, 'a', 'left')).toBeNull();
+  });
+});
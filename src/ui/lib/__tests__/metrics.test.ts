@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  buildTimeline,
+  computeProjectMetrics,
+  summarizeDurations,
+  weeklyThroughput,
+  type MetricsTask,
+  type StatusTransition,
+} from '../metrics';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// A Wednesday
+const NOW = new Date('2026-03-11T12:00:00.000Z');
+
+function at(hoursAgo: number): Date {
+  return new Date(NOW.getTime() - hoursAgo * HOUR);
+}
+
+function task(id: string, status: string, createdHoursAgo: number, modifiedHoursAgo = createdHoursAgo): MetricsTask {
+  return { id, status, createdAt: at(createdHoursAgo), modifiedAt: at(modifiedHoursAgo) };
+}
+
+function move(entityId: string, oldStatus: string, newStatus: string, hoursAgo: number): StatusTransition {
+  return { entityId, oldStatus, newStatus, createdAt: at(hoursAgo) };
+}
+
+describe('buildTimeline', () => {
+  it('should replay transitions into time per status', () => {
+    const timeline = buildTimeline(
+      task('t1', 'CLOSED', 100, 10),
+      [
+        move('t1', 'ACTIVE', 'TO_BE_TESTED', 40),
+        move('t1', 'NEW', 'ACTIVE', 80),
+        move('t1', 'TO_BE_TESTED', 'CLOSED', 10),
+      ],
+      NOW
+    );
+
+    expect(timeline.timeInStatus).toEqual({ NEW: 20 * HOUR, ACTIVE: 40 * HOUR, TO_BE_TESTED: 30 * HOUR });
+    expect(timeline.startedAt).toEqual(at(80));
+    expect(timeline.closedAt).toEqual(at(10));
+    expect(timeline.estimated).toBe(false);
+  });
+
+  it('should keep the first ACTIVE after a revert', () => {
+    const timeline = buildTimeline(
+      task('t1', 'ACTIVE', 50),
+      [move('t1', 'NEW', 'ACTIVE', 40), move('t1', 'ACTIVE', 'NEW', 30), move('t1', 'NEW', 'ACTIVE', 20)],
+      NOW
+    );
+
+    expect(timeline.startedAt).toEqual(at(40));
+    expect(timeline.timeInStatus).toEqual({ NEW: 20 * HOUR, ACTIVE: 30 * HOUR });
+    expect(timeline.closedAt).toBeNull();
+  });
+
+  it('should fall back to modifiedAt without history', () => {
+    const closed = buildTimeline(task('t1', 'CLOSED', 48, 6), [], NOW);
+    expect(closed.closedAt).toEqual(at(6));
+    expect(closed.startedAt).toBeNull();
+    expect(closed.timeInStatus).toEqual({});
+    expect(closed.estimated).toBe(true);
+
+    const fresh = buildTimeline(task('t2', 'NEW', 5), [], NOW);
+    expect(fresh.timeInStatus).toEqual({ NEW: 5 * HOUR });
+    expect(fresh.estimated).toBe(false);
+  });
+
+  it('should not count a dropped task as closed', () => {
+    const timeline = buildTimeline(task('t1', 'WILL_NOT_IMPLEMENT', 10), [move('t1', 'NEW', 'WILL_NOT_IMPLEMENT', 4)], NOW);
+    expect(timeline.closedAt).toBeNull();
+    expect(timeline.timeInStatus).toEqual({ NEW: 6 * HOUR });
+  });
+});
+
+describe('summarizeDurations', () => {
+  it('should report median, mean and 85th percentile', () => {
+    expect(summarizeDurations([4, 1, 3, 2])).toEqual({ count: 4, median: 2.5, mean: 2.5, p85: 4 });
+    expect(summarizeDurations([])).toEqual({ count: 0, median: null, mean: null, p85: null });
+  });
+});
+
+describe('weeklyThroughput', () => {
+  it('should bucket closures by week with the current week last', () => {
+    const buckets = weeklyThroughput(
+      [at(1), at(2 * 24), new Date('2026-03-08T23:00:00.000Z'), new Date('2026-01-01T00:00:00.000Z')],
+      3,
+      NOW
+    );
+
+    expect(buckets.map((bucket) => bucket.weekStart.toISOString().slice(0, 10))).toEqual([
+      '2026-02-23',
+      '2026-03-02',
+      '2026-03-09',
+    ]);
+    expect(buckets.map((bucket) => bucket.count)).toEqual([0, 1, 2]);
+  });
+});
+
+describe('computeProjectMetrics', () => {
+  it('should combine lead time, cycle time, stages and throughput', () => {
+    const metrics = computeProjectMetrics(
+      [task('a', 'CLOSED', 4 * 24, 24), task('b', 'ACTIVE', 2 * 24), task('c', 'CLOSED', 10 * 24, 3 * 24)],
+      [
+        move('a', 'NEW', 'ACTIVE', 3 * 24),
+        move('a', 'ACTIVE', 'CLOSED', 24),
+        move('b', 'NEW', 'ACTIVE', 24),
+      ],
+      { now: NOW, weeks: 2 }
+    );
+
+    expect(metrics.taskCount).toBe(3);
+    expect(metrics.closedCount).toBe(2);
+    expect(metrics.estimatedCount).toBe(1);
+    expect(metrics.leadTime).toMatchObject({ count: 2, median: 5 * DAY });
+    expect(metrics.cycleTime).toMatchObject({ count: 1, median: 2 * DAY });
+    expect(metrics.stages.find((stage) => stage.status === 'ACTIVE')).toEqual({
+      status: 'ACTIVE',
+      count: 2,
+      average: 1.5 * DAY,
+    });
+    expect(metrics.throughput.map((bucket) => bucket.count)).toEqual([1, 1]);
+  });
+});
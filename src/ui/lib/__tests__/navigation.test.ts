@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'bun:test';
+import type { DataAdapter, Result } from '../../adapters/types';
+import {
+  currentEntry,
+  entityPath,
+  forwardEntry,
+  initialNavigation,
+  navigationEntry,
+  popEntry,
+  pushEntry,
+  resolveDeepLink,
+  updateViewState,
+} from '../navigation';
+import { Screen } from '../types';
+
+const PROJECT_ID = 'aa11bb22-0000-4000-8000-000000000001';
+const FEATURE_ID = 'cc33dd44-0000-4000-8000-000000000002';
+const TASK_ID = '550e8400-e29b-41d4-a716-446655440000';
+const OTHER_TASK_ID = '550e9999-0000-4000-8000-000000000004';
+
+const notFound: Result<never> = { success: false, error: 'not found', code: 'NOT_FOUND' };
+
+const project = { id: PROJECT_ID, name: 'Billing' };
+const feature = { id: FEATURE_ID, name: 'Login flow', projectId: PROJECT_ID };
+const tasks = [
+  { id: TASK_ID, title: 'Fix logout button', projectId: PROJECT_ID, featureId: FEATURE_ID },
+  { id: OTHER_TASK_ID, title: 'Blog in layout' },
+];
+
+const adapter = {
+  getProject: async (id: string) => (id === PROJECT_ID ? { success: true, data: project } : notFound),
+  getFeature: async (id: string) => (id === FEATURE_ID ? { success: true, data: feature } : notFound),
+  getTask: async (id: string) => {
+    const task = tasks.find((t) => t.id === id);
+    return task ? { success: true, data: task } : notFound;
+  },
+  getProjects: async () => ({ success: true, data: [project] }),
+  getFeatures: async () => ({ success: true, data: [feature] }),
+  getTasks: async () => ({ success: true, data: tasks }),
+} as unknown as DataAdapter;
+
+function screens(stack: { screen: Screen }[]): Screen[] {
+  return stack.map((entry) => entry.screen);
+}
+
+describe('navigation stack', () => {
+  it('should push, pop back and go forward again', () => {
+    let state = initialNavigation();
+    state = pushEntry(state, navigationEntry(Screen.ProjectView, { projectId: PROJECT_ID }));
+    state = pushEntry(state, navigationEntry(Screen.TaskDetail, { taskId: TASK_ID }));
+
+    state = popEntry(state);
+    expect(currentEntry(state).screen).toBe(Screen.ProjectView);
+    expect(state.forward).toHaveLength(1);
+
+    state = forwardEntry(state);
+    expect(currentEntry(state)).toEqual(navigationEntry(Screen.TaskDetail, { taskId: TASK_ID }));
+    expect(state.forward).toEqual([]);
+  });
+
+  it('should keep the root and ignore re-opening the current screen', () => {
+    const root = initialNavigation();
+    expect(popEntry(root)).toBe(root);
+    expect(pushEntry(root, navigationEntry(Screen.Dashboard, {}))).toBe(root);
+  });
+
+  it('should clear forward history when a new screen is opened', () => {
+    let state = pushEntry(initialNavigation(), navigationEntry(Screen.Tags, {}));
+    state = popEntry(state);
+    state = pushEntry(state, navigationEntry(Screen.Metrics, { projectId: PROJECT_ID }));
+    expect(state.forward).toEqual([]);
+    expect(forwardEntry(state)).toBe(state);
+  });
+
+  it('should restore an entry view state after back and forward', () => {
+    let state = updateViewState(initialNavigation(), { selectedIndex: 3 });
+    state = updateViewState(state, { filter: 'active' });
+    state = pushEntry(state, navigationEntry(Screen.ProjectView, { projectId: PROJECT_ID }));
+    state = updateViewState(state, { expandedFeatures: [FEATURE_ID] });
+
+    state = popEntry(state);
+    expect(currentEntry(state).viewState).toEqual({ selectedIndex: 3, filter: 'active' });
+
+    state = forwardEntry(state);
+    expect(currentEntry(state).viewState).toEqual({ expandedFeatures: [FEATURE_ID] });
+  });
+
+  it('should reopen a project view with its remembered state', () => {
+    let state = pushEntry(initialNavigation(), navigationEntry(Screen.Kanban, { projectId: PROJECT_ID }));
+    state = updateViewState(state, { activeColumnIndex: 2 });
+    state = popEntry(state);
+    state = pushEntry(state, navigationEntry(Screen.ProjectView, { projectId: PROJECT_ID }));
+    expect(currentEntry(state).viewState).toEqual({});
+
+    state = pushEntry(state, navigationEntry(Screen.Kanban, { projectId: PROJECT_ID }));
+    expect(currentEntry(state).viewState).toEqual({ activeColumnIndex: 2 });
+    expect(state.projectViews).toEqual({ [`${Screen.Kanban}:${PROJECT_ID}`]: { activeColumnIndex: 2 } });
+  });
+});
+
+describe('entityPath', () => {
+  it('should put the owners of an entity underneath it', () => {
+    expect(screens(entityPath({ kind: 'task', id: TASK_ID, projectId: PROJECT_ID, featureId: FEATURE_ID }))).toEqual([
+      Screen.Dashboard,
+      Screen.ProjectView,
+      Screen.FeatureView,
+      Screen.TaskDetail,
+    ]);
+    expect(screens(entityPath({ kind: 'task', id: OTHER_TASK_ID }))).toEqual([Screen.Dashboard, Screen.TaskDetail]);
+    expect(screens(entityPath({ kind: 'project', id: PROJECT_ID }))).toEqual([Screen.Dashboard, Screen.ProjectView]);
+  });
+});
+
+describe('resolveDeepLink', () => {
+  it('should resolve full IDs of each kind', async () => {
+    const taskResult = await resolveDeepLink(adapter, TASK_ID);
+    expect(taskResult.success && screens(taskResult.data)).toEqual([
+      Screen.Dashboard,
+      Screen.ProjectView,
+      Screen.FeatureView,
+      Screen.TaskDetail,
+    ]);
+
+    const featureResult = await resolveDeepLink(adapter, FEATURE_ID);
+    expect(featureResult.success && featureResult.data.at(-1)).toEqual(
+      navigationEntry(Screen.FeatureView, { featureId: FEATURE_ID })
+    );
+  });
+
+  it('should resolve a unique ID prefix', async () => {
+    const result = await resolveDeepLink(adapter, 'AA11');
+    expect(result.success && result.data.at(-1)).toEqual(navigationEntry(Screen.ProjectView, { projectId: PROJECT_ID }));
+  });
+
+  it('should reject ambiguous prefixes and unknown IDs', async () => {
+    const ambiguous = await resolveDeepLink(adapter, '550e');
+    expect(!ambiguous.success && ambiguous.code).toBe('VALIDATION_ERROR');
+
+    const missing = await resolveDeepLink(adapter, 'ffff');
+    expect(!missing.success && missing.code).toBe('NOT_FOUND');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'bun:test';
+import { highlightSegments, parseSearchQuery, searchEntityTypes, toTaskSearchParams } from '../search-query';
+
+describe('parseSearchQuery', () => {
+  it('should split filters from free text, keeping quoted values together', () => {
+    const query = parseSearchQuery('status:active priority:high,medium tag:API project:"Billing Team" blocked:yes complexity:>5 "login flow" retry');
+
+    expect(query.text).toBe('login flow retry');
+    expect(query.terms).toEqual(['login', 'flow', 'retry']);
+    expect(query.status).toBe('ACTIVE');
+    expect(query.priority).toBe('HIGH,MEDIUM');
+    expect(query.tags).toEqual(['api']);
+    expect(query.project).toBe('Billing Team');
+    expect(query.blocked).toBe(true);
+    expect(query.minComplexity).toBe(6);
+    expect(query.errors).toEqual([]);
+  });
+
+  it('should read comparisons and ranges for complexity', () => {
+    expect(parseSearchQuery('complexity:<=3').maxComplexity).toBe(3);
+    expect(parseSearchQuery('complexity:4')).toMatchObject({ minComplexity: 4, maxComplexity: 4 });
+    expect(parseSearchQuery('complexity:2..6')).toMatchObject({ minComplexity: 2, maxComplexity: 6 });
+  });
+
+  it('should report bad values and keep unknown keys as text', () => {
+    const query = parseSearchQuery('priority:urgent blocked:maybe see:http://example.com status:');
+    expect(query.errors).toHaveLength(2);
+    expect(query.text).toBe('see:http://example.com');
+    expect(query.status).toBeUndefined();
+  });
+
+  it('should only search the entity types the filters apply to', () => {
+    expect(searchEntityTypes(parseSearchQuery('login'))).toEqual(['project', 'feature', 'task']);
+    expect(searchEntityTypes(parseSearchQuery('status:NEW'))).toEqual(['feature', 'task']);
+    expect(searchEntityTypes(parseSearchQuery('complexity:>5'))).toEqual(['task']);
+    expect(searchEntityTypes(parseSearchQuery('type:features tag:ui'))).toEqual(['feature']);
+  });
+
+  it('should map onto task search params', () => {
+    expect(toTaskSearchParams(parseSearchQuery('tag:ui blocked:no complexity:<5 oauth'), 'p1')).toEqual({
+      query: 'oauth',
+      status: undefined,
+      priority: undefined,
+      tags: ['ui'],
+      projectId: 'p1',
+      blocked: false,
+      minComplexity: undefined,
+      maxComplexity: 4,
+    });
+  });
+});
+
+describe('highlightSegments', () => {
+  it('should mark every case-insensitive match', () => {
+    expect(highlightSegments('Login and LOGOUT', ['log'])).toEqual([
+      { text: 'Log', match: true },
+      { text: 'in and ', match: false },
+      { text: 'LOG', match: true },
+      { text: 'OUT', match: false },
+    ]);
+    expect(highlightSegments('a+b', ['+'])).toEqual([
+      { text: 'a', match: false },
+      { text: '+', match: true },
+      { text: 'b', match: false },
+    ]);
+    expect(highlightSegments('plain', [])).toEqual([{ text: 'plain', match: false }]);
+  });
+});
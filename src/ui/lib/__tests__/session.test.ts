@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { DataAdapter, Result } from '../../adapters/types';
+import { initialNavigation, navigationEntry } from '../navigation';
+import {
+  SESSION_VERSION,
+  loadSession,
+  parseSession,
+  pruneSession,
+  saveSession,
+  serializeSession,
+  sessionFromNavigation,
+  sessionStatePath,
+  type SessionState,
+} from '../session';
+import { Screen } from '../types';
+
+const notFound: Result<never> = { success: false, error: 'not found', code: 'NOT_FOUND' };
+
+const session: SessionState = {
+  version: SESSION_VERSION,
+  stack: [
+    navigationEntry(Screen.Dashboard, {}, { selectedIndex: 1 }),
+    navigationEntry(Screen.ProjectView, { projectId: 'p1' }, { expandedGroups: new Set(['ACTIVE']), viewMode: 'features' }),
+    navigationEntry(Screen.TaskDetail, { taskId: 't-gone' }),
+  ],
+  projectViews: {
+    [`${Screen.ProjectView}:p1`]: { viewMode: 'features' },
+    [`${Screen.Kanban}:p-gone`]: { activeColumnIndex: 2 },
+  },
+};
+
+describe('sessionStatePath', () => {
+  it('should use XDG_STATE_HOME when set', () => {
+    expect(sessionStatePath({ XDG_STATE_HOME: '/state' })).toBe('/state/task-orchestrator-tui/session.json');
+    expect(sessionStatePath({})).toEndWith(join('.local', 'state', 'task-orchestrator-tui', 'session.json'));
+  });
+});
+
+describe('sessionFromNavigation', () => {
+  it('should leave out the Help screen', () => {
+    const state = initialNavigation([navigationEntry(Screen.Dashboard, {}), navigationEntry(Screen.Help, {})]);
+    expect(sessionFromNavigation(state).stack.map((entry) => entry.screen)).toEqual([Screen.Dashboard]);
+  });
+});
+
+describe('parseSession', () => {
+  it('should round-trip view state including Sets', () => {
+    const parsed = parseSession(serializeSession(session));
+    expect(parsed).toEqual(session);
+    expect(parsed?.stack[1]?.viewState.expandedGroups).toBeInstanceOf(Set);
+  });
+
+  it('should reject malformed files and other versions, and skip unknown screens', () => {
+    expect(parseSession('{not json')).toBeNull();
+    expect(parseSession(JSON.stringify({ ...session, version: SESSION_VERSION + 1 }))).toBeNull();
+    const withUnknown = { ...session, stack: [{ screen: 'gone', params: {}, viewState: {} }, session.stack[0]] };
+    expect(parseSession(JSON.stringify(withUnknown))?.stack).toEqual([session.stack[0]!]);
+  });
+});
+
+describe('saveSession and loadSession', () => {
+  it('should write the file and read it back, ignoring missing or broken files', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'tasks-session-'));
+    try {
+      const path = join(dir, 'nested', 'session.json');
+      expect(await loadSession(path)).toBeNull();
+
+      const result = await saveSession(session, path);
+      expect(result).toEqual({ success: true, data: path });
+      expect(await loadSession(path)).toEqual(session);
+
+      writeFileSync(path, 'garbage');
+      expect(await loadSession(path)).toBeNull();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('pruneSession', () => {
+  it('should drop entries and project views for items that no longer exist', async () => {
+    const adapter = {
+      getProject: async (id: string) => (id === 'p1' ? { success: true, data: { id } } : notFound),
+      getFeature: async () => notFound,
+      getTask: async () => notFound,
+    } as unknown as DataAdapter;
+
+    const pruned = await pruneSession(adapter, session);
+    expect(pruned.stack.map((entry) => entry.screen)).toEqual([Screen.Dashboard, Screen.ProjectView]);
+    expect(Object.keys(pruned.projectViews)).toEqual([`${Screen.ProjectView}:p1`]);
+  });
+});
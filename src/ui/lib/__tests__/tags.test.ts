@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'bun:test';
+import type { Feature, Task } from '@allpepper/task-orchestrator';
+import { collectTags, completeTag, filterFeaturesByTags, parseTags, tagCompletions } from '../tags';
+
+function task(id: string, tags: string[]): Task {
+  return { id, title: id, tags } as Task;
+}
+
+function feature(id: string, tags: string[], tasks: Task[]): Feature & { tasks: Task[] } {
+  return { id, name: id, tags, tasks } as Feature & { tasks: Task[] };
+}
+
+describe('tags', () => {
+  it('should parse a tag list into lowercase unique tags', () => {
+    expect(parseTags(' UI, #Backend; api,ui,, ')).toEqual(['ui', 'backend', 'api']);
+    expect(parseTags(undefined)).toEqual([]);
+  });
+
+  it('should complete the last token from known tags', () => {
+    const known = ['backend', 'bug', 'ui', 'build'];
+    expect(tagCompletions('ui, b', known)).toEqual(['backend', 'bug', 'build']);
+    expect(tagCompletions('bug, #BU', known)).toEqual(['build']);
+    expect(tagCompletions('ui, ', known)).toEqual([]);
+    expect(tagCompletions('ui', known)).toEqual([]);
+    expect(completeTag('ui, ba', 'backend')).toBe('ui, backend, ');
+  });
+
+  it('should keep features that match or hold matching tasks', () => {
+    const features = [
+      feature('tagged', ['ui'], [task('t1', []), task('t2', ['api'])]),
+      feature('holder', [], [task('t3', ['ui']), task('t4', ['api'])]),
+      feature('other', ['api'], [task('t5', [])]),
+    ];
+
+    const filtered = filterFeaturesByTags(features, new Set(['ui']));
+    expect(filtered.map((f) => [f.id, f.tasks.map((t) => t.id)])).toEqual([
+      ['tagged', ['t1', 't2']],
+      ['holder', ['t3']],
+    ]);
+    expect(filterFeaturesByTags(features, new Set())).toBe(features);
+    expect(collectTags(features)).toEqual(['api', 'ui']);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'bun:test';
+import type { DataAdapter } from '../../adapters/types';
+import { loadTaskPipeline, planTaskMove } from '../task-moves';
+
+const FULL = ['NEW', 'ACTIVE', 'TO_BE_TESTED', 'READY_TO_PROD', 'CLOSED'];
+const LEAN = ['NEW', 'ACTIVE', 'CLOSED'];
+
+function task(status: string, blockedBy: string[] = []) {
+  return { status, blockedBy };
+}
+
+// Mirrors the library: next, previous and the exit state; none from final states
+function adapterFor(pipeline: string[]): DataAdapter {
+  return {
+    getAllowedTransitions: async (_containerType: string, status: string) => {
+      const index = pipeline.indexOf(status);
+      if (index === -1 || index === pipeline.length - 1) return { success: true, data: [] };
+      return {
+        success: true,
+        data: [pipeline[index + 1], ...(index > 0 ? [pipeline[index - 1]] : []), 'WILL_NOT_IMPLEMENT'],
+      };
+    },
+  } as unknown as DataAdapter;
+}
+
+describe('loadTaskPipeline', () => {
+  it('should follow forward transitions from NEW', async () => {
+    expect(await loadTaskPipeline(adapterFor(FULL))).toEqual({ success: true, data: FULL });
+    expect(await loadTaskPipeline(adapterFor(LEAN))).toEqual({ success: true, data: LEAN });
+  });
+});
+
+describe('planTaskMove', () => {
+  it('should step forward and back across several columns', () => {
+    expect(planTaskMove(task('NEW'), 'READY_TO_PROD', FULL)).toEqual({ success: true, data: { kind: 'advance', steps: 3 } });
+    expect(planTaskMove(task('TO_BE_TESTED'), 'NEW', FULL)).toEqual({ success: true, data: { kind: 'revert', steps: 2 } });
+  });
+
+  it('should terminate from any state that is not final', () => {
+    expect(planTaskMove(task('ACTIVE', ['other']), 'WILL_NOT_IMPLEMENT', FULL)).toEqual({
+      success: true,
+      data: { kind: 'terminate' },
+    });
+  });
+
+  it('should refuse moves out of final states', () => {
+    const closed = planTaskMove(task('CLOSED'), 'ACTIVE', FULL);
+    expect(!closed.success && closed.error).toBe('Closed is final; the task cannot move');
+    const dropped = planTaskMove(task('WILL_NOT_IMPLEMENT'), 'NEW', FULL);
+    expect(!dropped.success && dropped.code).toBe('INVALID_OPERATION');
+  });
+
+  it('should refuse states the pipeline does not have', () => {
+    const result = planTaskMove(task('ACTIVE'), 'TO_BE_TESTED', LEAN);
+    expect(!result.success && result.error).toBe('To Be Tested is not in the task pipeline (New → Active → Closed)');
+  });
+
+  it('should refuse to advance a blocked task but let it go back', () => {
+    const result = planTaskMove(task('NEW', ['a', 'b']), 'ACTIVE', FULL);
+    expect(!result.success && result.code).toBe('BLOCKED');
+    expect(!result.success && result.error).toBe('Blocked by 2 tasks; cannot advance');
+    expect(planTaskMove(task('ACTIVE', ['a']), 'NEW', FULL).success).toBe(true);
+  });
+});
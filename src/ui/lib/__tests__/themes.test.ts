@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { darkTheme } from '../../themes/dark';
+import { BUILT_IN_THEMES, findTheme, isColorDisabled, isThemeColor, loadUserThemes, validateTheme } from '../themes';
+
+describe('isThemeColor', () => {
+  it('should accept the colour forms Ink renders', () => {
+    for (const color of ['', '#fff', '#4da6ff', 'cyan', 'redBright', 'gray', 'rgb(1, 2, 3)', 'ansi256(39)']) {
+      expect(isThemeColor(color)).toBe(true);
+    }
+    for (const color of ['#12', 'orange', 'rgb(1,2)', 'Cyan']) {
+      expect(isThemeColor(color)).toBe(false);
+    }
+  });
+});
+
+describe('validateTheme', () => {
+  it('should accept every built-in theme', () => {
+    for (const theme of BUILT_IN_THEMES) {
+      expect(validateTheme(JSON.parse(JSON.stringify(theme)))).toEqual({ success: true, data: theme });
+    }
+  });
+
+  it('should report missing, unknown and malformed colours by path', () => {
+    const { background: _background, ...colors } = darkTheme.colors;
+    const result = validateTheme({
+      name: 'mine',
+      extra: true,
+      colors: { ...colors, accent: 'orange', shadow: '#000', status: { ...colors.status, NEW: 3 } },
+    });
+    expect(!result.success && result.error.split('\n')).toEqual([
+      'extra: unknown setting',
+      'colors.shadow: unknown colour',
+      'colors.background: missing',
+      'colors.accent: expected a colour like "#4da6ff", "cyan" or "ansi256(39)", got "orange"',
+      'colors.status.NEW: expected a colour like "#4da6ff", "cyan" or "ansi256(39)", got 3',
+    ]);
+  });
+});
+
+describe('loadUserThemes', () => {
+  it('should load valid files and list the problems in the rest', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'tasks-themes-'));
+    try {
+      expect(await loadUserThemes(join(dir, 'missing'))).toEqual({ success: true, data: [] });
+
+      writeFileSync(join(dir, 'solar.json'), JSON.stringify({ ...darkTheme, name: 'solar' }));
+      writeFileSync(join(dir, 'notes.txt'), 'ignored');
+      const loaded = await loadUserThemes(dir);
+      expect(loaded.success && loaded.data.map((theme) => theme.name)).toEqual(['solar']);
+
+      writeFileSync(join(dir, 'clash.json'), JSON.stringify({ ...darkTheme, name: 'light' }));
+      writeFileSync(join(dir, 'broken.json'), '{');
+      const failed = await loadUserThemes(dir);
+      expect(failed.success).toBe(false);
+      if (failed.success) return;
+      expect(failed.error).toContain(`Invalid theme file ${join(dir, 'broken.json')}:`);
+      expect(failed.error).toContain(`Invalid theme file ${join(dir, 'clash.json')}:\n  name: "light" is already taken`);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('findTheme and isColorDisabled', () => {
+  it('should find themes by name and follow NO_COLOR', () => {
+    expect(findTheme(BUILT_IN_THEMES, 'high-contrast')?.name).toBe('high-contrast');
+    expect(findTheme(BUILT_IN_THEMES, 'nope')).toBeUndefined();
+    expect(isColorDisabled({ NO_COLOR: '1' })).toBe(true);
+    expect(isColorDisabled({ NO_COLOR: '' })).toBe(false);
+    expect(isColorDisabled({})).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Activity log formatting
+ */
+
+import type { ActivityAction, ActivityEntry, FieldChange } from '../adapters/types';
+
+const ACTION_VERBS: Record<ActivityAction, string> = {
+  create: 'created',
+  update: 'edited',
+  delete: 'deleted',
+  advance: 'advanced',
+  revert: 'reverted',
+  terminate: 'terminated',
+  restore: 'restored',
+};
+
+/** Values longer than this are summarised by field name only */
+const INLINE_VALUE_LENGTH = 24;
+
+function isInline(value: string): boolean {
+  return value.length <= INLINE_VALUE_LENGTH && !value.includes('\n');
+}
+
+/**
+ * @example describeChanges([{ field: 'priority', from: 'LOW', to: 'HIGH' }]) // "priority LOW → HIGH"
+ */
+export function describeChanges(changes: FieldChange[]): string {
+  const [only] = changes;
+  if (changes.length === 1 && only && isInline(only.from) && isInline(only.to)) {
+    return `${only.field} ${only.from || '∅'} → ${only.to || '∅'}`;
+  }
+  return changes.map((change) => change.field).join(', ');
+}
+
+/**
+ * What happened, without who or when
+ * @example describeActivity(entry) // "advanced NEW → ACTIVE"
+ */
+export function describeActivity(entry: ActivityEntry): string {
+  const verb = ACTION_VERBS[entry.action];
+  if (entry.oldStatus && entry.newStatus) {
+    return `${verb} ${entry.oldStatus} → ${entry.newStatus}`;
+  }
+  if (entry.changes.length > 0) {
+    return `${verb} ${describeChanges(entry.changes)}`;
+  }
+  return verb;
+}
+
+/**
+ * @example activitySubject(entry) // 'task "Write docs"'
+ */
+export function activitySubject(entry: ActivityEntry): string {
+  return `${entry.entityType} "${entry.entityName}"`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Bulk actions - one operation applied to a set of marked tasks and features
+ *
+ * Marks are keyed `task:<id>` / `feature:<id>` so tree rows and board cards
+ * share one selection. Items are processed one at a time and each gets its
+ * own result, so a CONFLICT or BLOCKED on one item does not stop the rest.
+ */
+
+import type { Feature, Priority, Task } from '@allpepper/task-orchestrator';
+
+export type BulkItem = { type: 'task'; entity: Task } | { type: 'feature'; entity: Feature };
+
+export type BulkAction =
+  | { kind: 'advance' }
+  | { kind: 'revert' }
+  | { kind: 'terminate' }
+  | { kind: 'priority'; priority: Priority }
+  | { kind: 'add-tags'; tags: string[] }
+  | { kind: 'remove-tags'; tags: string[] }
+  | { kind: 'move'; featureId: string; featureName: string }
+  | { kind: 'delete' };
+
+export type BulkItemResult =
+  | { item: BulkItem; success: true }
+  | { item: BulkItem; success: false; error: string; code?: string };
+
+export function bulkKey(type: BulkItem['type'], id: string): string {
+  return `${type}:${id}`;
+}
+
+export function bulkItemKey(item: BulkItem): string {
+  return bulkKey(item.type, item.entity.id);
+}
+
+export function bulkItemLabel(item: BulkItem): string {
+  return item.type === 'task' ? item.entity.title : item.entity.name;
+}
+
+/**
+ * Keys from the anchor to `index`, inclusive, in list order. Without an
+ * anchor in the list, just the key at `index`.
+ */
+export function rangeKeys(keys: string[], anchor: string | null, index: number): string[] {
+  const current = keys[index];
+  if (current === undefined) return [];
+  const from = anchor === null ? -1 : keys.indexOf(anchor);
+  if (from === -1) return [current];
+  return keys.slice(Math.min(from, index), Math.max(from, index) + 1);
+}
+
+/**
+ * Tasks first: deleting or moving a feature before its marked tasks would
+ * make the task writes fail
+ */
+export function orderBulkItems(items: BulkItem[]): BulkItem[] {
+  return [...items.filter((item) => item.type === 'task'), ...items.filter((item) => item.type === 'feature')];
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * "3 tasks and 1 feature"
+ */
+export function describeBulkItems(items: BulkItem[]): string {
+  const tasks = items.filter((item) => item.type === 'task').length;
+  const features = items.length - tasks;
+  if (features === 0) return plural(tasks, 'task');
+  if (tasks === 0) return plural(features, 'feature');
+  return `${plural(tasks, 'task')} and ${plural(features, 'feature')}`;
+}
+
+/**
+ * Confirmation question for an action, e.g. "Advance 3 tasks?"
+ */
+export function describeBulkAction(action: BulkAction, items: BulkItem[]): string {
+  const subject = describeBulkItems(items);
+  switch (action.kind) {
+    case 'advance':
+      return `Advance ${subject}?`;
+    case 'revert':
+      return `Revert ${subject}?`;
+    case 'terminate':
+      return `Mark ${subject} as Will Not Implement?`;
+    case 'priority':
+      return `Set priority ${action.priority} on ${subject}?`;
+    case 'add-tags':
+      return `Add ${action.tags.map((tag) => `#${tag}`).join(' ')} to ${subject}?`;
+    case 'remove-tags':
+      return `Remove ${action.tags.map((tag) => `#${tag}`).join(' ')} from ${subject}?`;
+    case 'move':
+      return `Move ${subject} to "${action.featureName}"?`;
+    case 'delete':
+      return `Delete ${subject}? Deleting a feature also deletes its tasks.`;
+  }
+}
+
+export function summarizeBulkResults(results: BulkItemResult[]): string {
+  const failed = results.filter((result) => !result.success).length;
+  if (failed === 0) return `${plural(results.length, 'item')} succeeded`;
+  return `${results.length - failed} of ${plural(results.length, 'item')} succeeded, ${failed} failed`;
+}
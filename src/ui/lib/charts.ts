@@ -0,0 +1,77 @@
+/**
+ * Text chart glyphs
+ *
+ * Building blocks for charts drawn with Unicode block characters. Values are
+ * scaled against a maximum so several charts can share one scale.
+ */
+
+const SPARK_LEVELS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+const BAR_EIGHTHS = ['', '▏', '▎', '▍', '▌', '▋', '▊', '▉'];
+
+/**
+ * One block per value, scaled so the largest value is a full block
+ * @example sparkline([0, 2, 4, 8]) // "▁▂▄█"
+ */
+export function sparkline(values: number[], max: number = Math.max(0, ...values)): string {
+  return values
+    .map((value) => {
+      if (max <= 0 || value <= 0) return SPARK_LEVELS[0];
+      const level = Math.ceil((Math.min(value, max) / max) * SPARK_LEVELS.length) - 1;
+      return SPARK_LEVELS[level];
+    })
+    .join('');
+}
+
+/**
+ * Horizontal bar `width` cells long at `max`, drawn to an eighth of a cell.
+ * Non-zero values always show at least a sliver.
+ * @example bar(5, 10, 4) // "██"
+ */
+export function bar(value: number, max: number, width: number): string {
+  if (max <= 0 || value <= 0 || width <= 0) return '';
+
+  const eighths = Math.max(1, Math.round((Math.min(value, max) / max) * width * 8));
+  return '█'.repeat(Math.floor(eighths / 8)) + BAR_EIGHTHS[eighths % 8];
+}
+
+/**
+ * Vertical bars as `height` text rows, top row first
+ * @example columnChart([2, 4], 1) // ["▄█"]
+ */
+export function columnChart(values: number[], height: number, max: number = Math.max(0, ...values)): string[] {
+  return Array.from({ length: height }, (_, row) => {
+    const floor = height - 1 - row;
+    return values
+      .map((value) => {
+        if (max <= 0 || value <= 0) return ' ';
+        const eighths = Math.max(1, Math.round((Math.min(value, max) / max) * height * 8)) - floor * 8;
+        if (eighths <= 0) return ' ';
+        return eighths >= 8 ? '█' : SPARK_LEVELS[eighths - 1];
+      })
+      .join('');
+  });
+}
+
+/**
+ * Stacked columns as a grid of band indexes, top row first. Each column is a
+ * list of band sizes from the bottom up; a cell takes the band under its
+ * midpoint, or null above the stack.
+ */
+export function stackColumns(
+  stacks: number[][],
+  height: number,
+  max: number = Math.max(0, ...stacks.map((stack) => stack.reduce((sum, value) => sum + value, 0)))
+): Array<Array<number | null>> {
+  return Array.from({ length: height }, (_, row) => {
+    const midpoint = ((height - 1 - row + 0.5) / height) * max;
+    return stacks.map((stack) => {
+      let top = 0;
+      for (let band = 0; band < stack.length; band++) {
+        top += stack[band] ?? 0;
+        if (midpoint < top) return band;
+      }
+      return null;
+    });
+  });
+}
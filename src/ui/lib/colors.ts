@@ -8,6 +8,19 @@
 import type { Theme, StatusKey } from '../themes/types';
 import type { Priority } from '@allpepper/task-orchestrator';
 
+/**
+ * v2 pipeline status order for task columns
+ * Tasks: NEW → ACTIVE → TO_BE_TESTED → READY_TO_PROD → CLOSED (+ WILL_NOT_IMPLEMENT)
+ */
+export const TASK_STATUS_ORDER: string[] = [
+  'NEW',
+  'ACTIVE',
+  'TO_BE_TESTED',
+  'READY_TO_PROD',
+  'CLOSED',
+  'WILL_NOT_IMPLEMENT',
+];
+
 /**
  * Get the color for a status value.
  * Falls back to muted color if status not found.
@@ -17,6 +30,43 @@ export function getStatusColor(status: string, theme: Theme): string {
   return color ?? theme.colors.muted;
 }
 
+/**
+ * Status markers for monochrome themes, where colour cannot tell them apart:
+ * a node symbol and a chart fill per status, in pipeline order
+ */
+const STATUS_SYMBOLS: Record<StatusKey, string> = {
+  NEW: '○',
+  ACTIVE: '◔',
+  TO_BE_TESTED: '◑',
+  READY_TO_PROD: '◕',
+  CLOSED: '●',
+  WILL_NOT_IMPLEMENT: '⊘',
+};
+
+const STATUS_FILLS: Record<StatusKey, string> = {
+  NEW: ':',
+  ACTIVE: '░',
+  TO_BE_TESTED: '▒',
+  READY_TO_PROD: '▓',
+  CLOSED: '█',
+  WILL_NOT_IMPLEMENT: 'x',
+};
+
+/**
+ * Marker of a status: '●' in colour, one symbol per status when monochrome
+ */
+export function getStatusSymbol(status: string, theme: Theme): string {
+  return theme.monochrome ? STATUS_SYMBOLS[status as StatusKey] ?? '?' : '●';
+}
+
+/**
+ * Chart fill of a status: solid in colour, one shade or character per status
+ * when monochrome
+ */
+export function getStatusFill(status: string, theme: Theme): string {
+  return theme.monochrome ? STATUS_FILLS[status as StatusKey] ?? '?' : '█';
+}
+
 /**
  * Get the color for a priority value
  */
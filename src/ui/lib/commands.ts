@@ -0,0 +1,251 @@
+/**
+ * Command registry
+ *
+ * Every action the TUI offers is a command: App registers the global ones and
+ * each screen registers its own while mounted. The registry drives the footer,
+ * the Help screen and the `:` command palette; App dispatches the global
+ * commands' keys, screens keep handling their own keys.
+ */
+
+import { fuzzyMatch } from './fuzzy';
+
+/**
+ * What the predicates of the registered commands can see
+ */
+export interface CommandContext {
+  /** Current App screen ('dashboard', 'project', 'help', ...) */
+  screen: string;
+}
+
+export interface Command {
+  /** Stable id, `<scope>.<action>` (e.g. 'project.new-feature') */
+  id: string;
+  title: string;
+  /** Default key as shown to the user: 'n', 'Ctrl-P', 'Esc', 'j/k' */
+  key?: string;
+  /** Heading on the Help screen */
+  group: string;
+  /** Available only when this returns true */
+  when?: (context: CommandContext) => boolean;
+  /** Without a handler the command is a key hint for the footer and Help only */
+  run?: () => void;
+  /** Leave out of the footer (still on Help and in the palette) */
+  hidden?: boolean;
+}
+
+type CommandSource = () => Command[];
+
+/**
+ * Live set of registered commands. Sources are read on every list(), so
+ * handlers always close over the registering screen's latest state.
+ */
+export class CommandRegistry {
+  private sources = new Map<number, CommandSource>();
+  private nextId = 0;
+  private listeners = new Set<() => void>();
+  /** Bumped on every change, for useSyncExternalStore */
+  version = 0;
+
+  /**
+   * @param keymap User key remaps, command id → key (see UserConfig.keys)
+   */
+  constructor(private readonly keymap: Record<string, string> = {}) {}
+
+  /**
+   * Apply the user's key remaps. Only runnable commands are remapped; hints
+   * describe keys a screen reads directly.
+   */
+  bind(commands: Command[]): Command[] {
+    return commands.map((command) => {
+      const key = this.keymap[command.id];
+      return key && command.run ? { ...command, key } : command;
+    });
+  }
+
+  /**
+   * Add a source of commands; returns the function that removes it
+   */
+  register(source: CommandSource): () => void {
+    const id = this.nextId++;
+    this.sources.set(id, source);
+    this.notify();
+    return () => {
+      this.sources.delete(id);
+      this.notify();
+    };
+  }
+
+  /**
+   * Every registered command, latest registration first, so a screen's
+   * commands come before App's global ones
+   */
+  list(): Command[] {
+    return this.bind([...this.sources.values()].reverse().flatMap((source) => source()));
+  }
+
+  /**
+   * Tell subscribers the set of commands changed (a source added, removed or
+   * listing different commands)
+   */
+  notify(): void {
+    this.version += 1;
+    for (const listener of this.listeners) listener();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * Commands whose predicate accepts the context
+ */
+export function availableCommands(commands: Command[], context: CommandContext): Command[] {
+  return commands.filter((command) => !command.when || command.when(context));
+}
+
+/**
+ * Identity of a command list for change detection: ids, keys and titles
+ */
+export function commandSignature(commands: Command[]): string {
+  return commands.map((command) => `${command.id}|${command.key ?? ''}|${command.title}`).join('\n');
+}
+
+/**
+ * Single-key defaults of every command, by id. Screens only register their
+ * commands while mounted, so the config check reads remap collisions from
+ * here. The commands tests check it against the `key` of each command.
+ */
+export const DEFAULT_KEYS: Readonly<Record<string, string>> = {
+  'global.search': '/',
+  'global.undo': 'u',
+  'global.redo': 'Ctrl-R',
+  'global.back': 'Ctrl-O',
+  'global.forward': 'Ctrl-N',
+  'global.go-to': 'Ctrl-P',
+  'global.theme': 'Ctrl-T',
+  'global.commands': ':',
+  'global.activity': 'A',
+  'global.tags': 'T',
+  'global.help': '?',
+  'global.quit': 'q',
+  'activity.entity': 'e',
+  'activity.project': 'p',
+  'activity.refresh': 'r',
+  'dashboard.delete': 'd',
+  'dashboard.edit': 'e',
+  'dashboard.info': 'f',
+  'dashboard.new': 'n',
+  'dashboard.refresh': 'r',
+  'feature.edit': 'e',
+  'feature.import': 'i',
+  'feature.new-task': 'n',
+  'feature.refresh': 'r',
+  'feature.status': 's',
+  'graph.refresh': 'r',
+  'kanban.bulk': 'B',
+  'kanban.filter': 'f',
+  'kanban.mode': 't',
+  'kanban.move': 'm',
+  'kanban.refresh': 'r',
+  'kanban.tree': 'b',
+  'metrics.refresh': 'r',
+  'metrics.window': 'w',
+  'project-detail.edit': 'e',
+  'project-detail.export': 'x',
+  'project-detail.import': 'i',
+  'project-detail.refresh': 'r',
+  'project.analysis': 'a',
+  'project.board': 'b',
+  'project.bulk': 'B',
+  'project.delete-feature': 'd',
+  'project.delete-task': 'd',
+  'project.edit-feature': 'e',
+  'project.edit-task': 'e',
+  'project.feature-detail': 'f',
+  'project.feature-status': 's',
+  'project.graph': 'g',
+  'project.metrics': 'm',
+  'project.new-feature': 'n',
+  'project.new-task': 't',
+  'project.refresh': 'r',
+  'project.tag-filter': '#',
+  'project.toggle-view': 'v',
+  'tags.merge': 'm',
+  'tags.refresh': 'r',
+  'tags.rename': 'e',
+  'task.delete': 'd',
+  'task.edit': 'e',
+  'task.refresh': 'r',
+};
+
+/**
+ * Whether a binding is one matchesKey can dispatch: a single character or
+ * `Ctrl-<key>`
+ */
+export function isKeyBinding(binding: string): boolean {
+  return /^Ctrl-\S$/i.test(binding) || (binding.length === 1 && binding.trim() !== '');
+}
+
+/**
+ * Does a keypress match a single-key binding? Handles plain characters and
+ * `Ctrl-<letter>`; composite hints such as 'j/k' never match.
+ */
+export function matchesKey(binding: string, input: string, key: { ctrl?: boolean; meta?: boolean }): boolean {
+  const ctrl = /^Ctrl-(.)$/i.exec(binding);
+  if (ctrl) return !!key.ctrl && input.toLowerCase() === (ctrl[1] ?? '').toLowerCase();
+  return binding.length === 1 && !key.ctrl && !key.meta && input === binding;
+}
+
+/**
+ * Run the first command bound to the keypress; returns whether one ran
+ */
+export function runCommandKey(commands: Command[], input: string, key: { ctrl?: boolean; meta?: boolean }): boolean {
+  const command = commands.find((candidate) => candidate.run && candidate.key && matchesKey(candidate.key, input, key));
+  if (!command?.run) return false;
+  command.run();
+  return true;
+}
+
+export interface RankedCommand {
+  command: Command;
+  score: number;
+  positions: number[];
+}
+
+/**
+ * Executable commands ranked by fuzzy match on their title (group name as a
+ * fallback); an empty query keeps the registry order
+ */
+export function rankCommands(commands: Command[], query: string): RankedCommand[] {
+  const runnable = commands.filter((command) => command.run);
+  if (!query.trim()) return runnable.map((command) => ({ command, score: 0, positions: [] }));
+
+  const ranked: RankedCommand[] = [];
+  for (const command of runnable) {
+    const byTitle = fuzzyMatch(query, command.title);
+    if (byTitle) {
+      ranked.push({ command, score: byTitle.score, positions: byTitle.positions });
+      continue;
+    }
+    const byGroup = fuzzyMatch(query, `${command.group} ${command.title}`);
+    if (byGroup) ranked.push({ command, score: byGroup.score - 10, positions: [] });
+  }
+  return ranked.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Commands grouped by `group`, in first-seen order
+ */
+export function groupCommands(commands: Command[]): Array<{ group: string; commands: Command[] }> {
+  const groups = new Map<string, Command[]>();
+  for (const command of commands) {
+    const list = groups.get(command.group) ?? [];
+    list.push(command);
+    groups.set(command.group, list);
+  }
+  return [...groups.entries()].map(([group, list]) => ({ group, commands: list }));
+}
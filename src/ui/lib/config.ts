@@ -0,0 +1,218 @@
+/**
+ * User configuration: `$XDG_CONFIG_HOME/task-orchestrator-tui/config.json`
+ *
+ * Every setting is optional and falls back to DEFAULT_CONFIG. The file is
+ * checked against the schema below; problems are reported together, one per
+ * line, with the path of the offending setting.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { Priority } from '@allpepper/task-orchestrator';
+import type { Result } from '../adapters/types';
+import { DEFAULT_KEYS, isKeyBinding } from './commands';
+import type { ProjectViewMode } from './types';
+
+export interface UserConfig {
+  /** A built-in theme ('dark', 'light', 'high-contrast', 'ansi16', 'no-color') or a user theme's name */
+  theme: string;
+  /** Command id → key, e.g. `{ "global.search": "S", "global.quit": "Ctrl-Q" }` */
+  keys: Record<string, string>;
+  defaults: {
+    /** Grouping of the project tree when a project is first opened */
+    projectViewMode: ProjectViewMode;
+    /** Pre-filled in the Create Task form */
+    taskPriority: Priority;
+    taskComplexity: number;
+  };
+  debounce: {
+    /** Delay before search-as-you-type runs the query */
+    searchMs: number;
+  };
+}
+
+export const DEFAULT_CONFIG: UserConfig = {
+  theme: 'dark',
+  keys: {},
+  defaults: {
+    projectViewMode: 'status',
+    taskPriority: Priority.MEDIUM,
+    taskComplexity: 3,
+  },
+  debounce: {
+    searchMs: 300,
+  },
+};
+
+const PROJECT_VIEW_MODES: ProjectViewMode[] = ['features', 'status', 'feature-status'];
+const PRIORITIES: Priority[] = [Priority.HIGH, Priority.MEDIUM, Priority.LOW];
+const COMMAND_ID = /^[a-z][a-z-]*\.[a-z][a-z-]*$/;
+/** Movement keys stay fixed; screens read them before any command */
+const RESERVED_KEYS = new Set(['j', 'k', 'h', 'l']);
+const MAX_DEBOUNCE_MS = 5000;
+
+/**
+ * `$XDG_CONFIG_HOME/task-orchestrator-tui/config.json`, falling back to
+ * `~/.config`
+ */
+export function configPath(env: Record<string, string | undefined> = process.env): string {
+  const configHome = env.XDG_CONFIG_HOME?.trim() || join(homedir(), '.config');
+  return join(configHome, 'task-orchestrator-tui', 'config.json');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  return value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+function oneOf<T extends string>(value: unknown, allowed: T[], path: string, errors: string[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string' && (allowed as string[]).includes(value)) return value as T;
+  errors.push(`${path}: expected ${allowed.map((option) => `"${option}"`).join(', ')}, got ${describeValue(value)}`);
+  return undefined;
+}
+
+function text(value: unknown, path: string, errors: string[]): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string' && value.trim() !== '') return value.trim();
+  errors.push(`${path}: expected a name, got ${describeValue(value)}`);
+  return undefined;
+}
+
+function integer(value: unknown, min: number, max: number, path: string, errors: string[]): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max) return value;
+  errors.push(`${path}: expected a whole number from ${min} to ${max}, got ${describeValue(value)}`);
+  return undefined;
+}
+
+function section(value: unknown, path: string, allowed: string[], errors: string[]): Record<string, unknown> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    errors.push(`${path}: expected an object, got ${describeValue(value)}`);
+    return {};
+  }
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) errors.push(`${path ? `${path}.` : ''}${key}: unknown setting`);
+  }
+  return value;
+}
+
+/** Ctrl bindings match either case of their letter */
+function sameKey(a: string, b: string): boolean {
+  return /^Ctrl-/i.test(a) ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+/** Global commands run on every screen; the others only on their own */
+function canMeet(id: string, other: string): boolean {
+  const scope = (commandId: string) => commandId.slice(0, commandId.indexOf('.'));
+  return scope(id) === scope(other) || scope(id) === 'global' || scope(other) === 'global';
+}
+
+function keymap(value: unknown, errors: string[]): Record<string, string> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    errors.push(`keys: expected an object of command id → key, got ${describeValue(value)}`);
+    return {};
+  }
+  const keys: Record<string, string> = {};
+  for (const [id, binding] of Object.entries(value)) {
+    const path = `keys["${id}"]`;
+    if (!COMMAND_ID.test(id)) {
+      errors.push(`${path}: not a command id (like "global.search"; Help shows the id of the selected command)`);
+    } else if (typeof binding !== 'string' || !isKeyBinding(binding)) {
+      errors.push(`${path}: expected a single character or Ctrl-<key>, got ${describeValue(binding)}`);
+    } else if (RESERVED_KEYS.has(binding)) {
+      errors.push(`${path}: "${binding}" is reserved for movement`);
+    } else {
+      // Clashes with the keys commands keep (defaults not remapped away) and earlier remaps
+      const bound = { ...DEFAULT_KEYS, ...keys };
+      for (const remapped of Object.keys(value)) {
+        if (remapped !== id && !(remapped in keys)) delete bound[remapped];
+      }
+      const clash = Object.entries(bound).find(
+        ([other, key]) => other !== id && sameKey(key, binding) && canMeet(id, other)
+      );
+      if (clash) {
+        errors.push(`${path}: "${binding}" is already bound to ${clash[0]}`);
+      } else {
+        keys[id] = binding;
+      }
+    }
+  }
+  return keys;
+}
+
+/**
+ * Check a parsed config file against the schema and fill in defaults
+ */
+export function validateConfig(value: unknown): Result<UserConfig> {
+  if (!isRecord(value)) {
+    return { success: false, error: `expected an object of settings, got ${describeValue(value)}`, code: 'VALIDATION_ERROR' };
+  }
+  const errors: string[] = [];
+  const root = section(value, '', ['theme', 'keys', 'defaults', 'debounce'], errors);
+  const defaults = section(root.defaults, 'defaults', ['projectViewMode', 'taskPriority', 'taskComplexity'], errors);
+  const debounce = section(root.debounce, 'debounce', ['searchMs'], errors);
+
+  const config: UserConfig = {
+    theme: text(root.theme, 'theme', errors) ?? DEFAULT_CONFIG.theme,
+    keys: keymap(root.keys, errors),
+    defaults: {
+      projectViewMode:
+        oneOf(defaults.projectViewMode, PROJECT_VIEW_MODES, 'defaults.projectViewMode', errors) ??
+        DEFAULT_CONFIG.defaults.projectViewMode,
+      taskPriority:
+        oneOf(defaults.taskPriority, PRIORITIES, 'defaults.taskPriority', errors) ?? DEFAULT_CONFIG.defaults.taskPriority,
+      taskComplexity:
+        integer(defaults.taskComplexity, 1, 10, 'defaults.taskComplexity', errors) ??
+        DEFAULT_CONFIG.defaults.taskComplexity,
+    },
+    debounce: {
+      searchMs: integer(debounce.searchMs, 0, MAX_DEBOUNCE_MS, 'debounce.searchMs', errors) ?? DEFAULT_CONFIG.debounce.searchMs,
+    },
+  };
+
+  if (errors.length > 0) return { success: false, error: errors.join('\n'), code: 'VALIDATION_ERROR' };
+  return { success: true, data: config };
+}
+
+export function parseConfig(text: string): Result<UserConfig> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return {
+      success: false,
+      error: `not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      code: 'VALIDATION_ERROR',
+    };
+  }
+  return validateConfig(parsed);
+}
+
+/**
+ * Read the config file; no file means the defaults. Errors name the file.
+ */
+export async function loadConfig(path: string = configPath()): Promise<Result<UserConfig>> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return { success: true, data: DEFAULT_CONFIG };
+    }
+    return {
+      success: false,
+      error: `Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      code: 'IO_ERROR',
+    };
+  }
+  const result = parseConfig(text);
+  if (result.success) return result;
+  return { ...result, error: `Invalid config ${path}:\n${result.error.replace(/^/gm, '  ')}` };
+}
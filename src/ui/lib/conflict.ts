@@ -0,0 +1,178 @@
+/**
+ * Version-conflict helpers
+ *
+ * Edits are compared as the plain strings the edit forms work with: `base` is
+ * what the user started editing, `mine` what they submitted, and `theirs` the
+ * entity as it is now stored.
+ */
+
+import type { Feature, Priority, Project, Task } from '@allpepper/task-orchestrator';
+import { formatTags, parseTags } from './tags';
+
+export type EditValues = Record<string, string>;
+
+export type FieldChoice = 'mine' | 'theirs';
+
+export interface EditFieldSpec {
+  key: string;
+  label: string;
+  /** Shown for context but never written back (e.g. status) */
+  readOnly?: boolean;
+}
+
+export interface ConflictField extends EditFieldSpec {
+  base: string;
+  mine: string;
+  theirs: string;
+  /** Both sides changed the field to different values */
+  conflicting: boolean;
+}
+
+export const TASK_EDIT_FIELDS: EditFieldSpec[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'summary', label: 'Summary' },
+  { key: 'description', label: 'Description' },
+  { key: 'priority', label: 'Priority' },
+  { key: 'complexity', label: 'Complexity' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'status', label: 'Status', readOnly: true },
+];
+
+export const FEATURE_EDIT_FIELDS: EditFieldSpec[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'summary', label: 'Summary' },
+  { key: 'description', label: 'Description' },
+  { key: 'priority', label: 'Priority' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'status', label: 'Status', readOnly: true },
+];
+
+export const PROJECT_EDIT_FIELDS: EditFieldSpec[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'summary', label: 'Summary' },
+  { key: 'description', label: 'Description' },
+  { key: 'tags', label: 'Tags' },
+];
+
+export function taskEditValues(task: Task): EditValues {
+  return {
+    title: task.title,
+    summary: task.summary,
+    description: task.description ?? '',
+    priority: task.priority,
+    complexity: String(task.complexity),
+    tags: formatTags(task.tags),
+    status: task.status,
+  };
+}
+
+export function featureEditValues(feature: Feature): EditValues {
+  return {
+    name: feature.name,
+    summary: feature.summary,
+    description: feature.description ?? '',
+    priority: feature.priority,
+    tags: formatTags(feature.tags),
+    status: feature.status,
+  };
+}
+
+export function projectEditValues(project: Project): EditValues {
+  return {
+    name: project.name,
+    summary: project.summary,
+    description: project.description ?? '',
+    tags: formatTags(project.tags),
+  };
+}
+
+/**
+ * Forms without a tags field leave the stored tags alone
+ */
+function tagsParam(values: EditValues): string[] | undefined {
+  return values.tags === undefined ? undefined : parseTags(values.tags);
+}
+
+/**
+ * Form values to `updateTask` params; unparseable numbers keep the fallback
+ */
+export function taskUpdateParams(values: EditValues, fallback: Task) {
+  return {
+    title: values.title ?? fallback.title,
+    summary: values.summary ?? fallback.summary,
+    description: values.description || undefined,
+    priority: (values.priority ?? fallback.priority) as Priority,
+    complexity: Number.parseInt(values.complexity ?? String(fallback.complexity), 10) || fallback.complexity,
+    tags: tagsParam(values),
+  };
+}
+
+export function featureUpdateParams(values: EditValues, fallback: Feature) {
+  return {
+    name: values.name ?? fallback.name,
+    summary: values.summary ?? fallback.summary,
+    description: values.description || undefined,
+    priority: (values.priority ?? fallback.priority) as Priority,
+    tags: tagsParam(values),
+  };
+}
+
+export function projectUpdateParams(values: EditValues, fallback: Project) {
+  return {
+    name: values.name ?? fallback.name,
+    summary: values.summary ?? fallback.summary,
+    description: values.description || undefined,
+    tags: tagsParam(values),
+  };
+}
+
+/**
+ * Fields changed on either side since `base`, in spec order
+ */
+export function diffEditValues(
+  specs: EditFieldSpec[],
+  base: EditValues,
+  mine: EditValues,
+  theirs: EditValues
+): ConflictField[] {
+  return specs.flatMap((spec) => {
+    const baseValue = base[spec.key] ?? '';
+    const mineValue = mine[spec.key] ?? baseValue;
+    const theirsValue = theirs[spec.key] ?? '';
+    if (mineValue === baseValue && theirsValue === baseValue) return [];
+
+    return [{
+      ...spec,
+      base: baseValue,
+      mine: mineValue,
+      theirs: theirsValue,
+      conflicting: mineValue !== baseValue && theirsValue !== baseValue && mineValue !== theirsValue,
+    }];
+  });
+}
+
+/**
+ * Keep the user's value wherever they changed something, otherwise theirs
+ */
+export function defaultChoices(fields: ConflictField[]): Record<string, FieldChoice> {
+  return Object.fromEntries(
+    fields.map((field) => [field.key, !field.readOnly && field.mine !== field.base ? 'mine' : 'theirs'])
+  );
+}
+
+/**
+ * Start from the stored values and apply the fields chosen as `mine`
+ */
+export function mergeEditValues(
+  fields: ConflictField[],
+  theirs: EditValues,
+  choices: Record<string, FieldChoice>
+): EditValues {
+  const merged = { ...theirs };
+  for (const field of fields) {
+    if (!field.readOnly && choices[field.key] === 'mine') {
+      merged[field.key] = field.mine;
+    }
+  }
+  return merged;
+}
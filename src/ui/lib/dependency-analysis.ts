@@ -0,0 +1,139 @@
+/**
+ * Dependency analysis
+ *
+ * Planning helpers over the blockedBy graph of a project's open tasks: the
+ * critical path (heaviest chain of blockers, weighted by complexity) and a
+ * ranking of tasks by how much downstream work finishing them would release.
+ * Completed tasks are treated as already done and drop out of both.
+ */
+
+import type { Task } from '@allpepper/task-orchestrator';
+import { MANUAL_BLOCKER_ID } from './dependency-graph';
+import { isCompletedStatus } from './colors';
+
+/**
+ * Minimal shape needed for the analysis
+ */
+export type AnalysisTask = Pick<Task, 'id' | 'status' | 'blockedBy' | 'complexity'>;
+
+export interface CriticalPath {
+  /** Task IDs from the first task to start to the last one to finish */
+  taskIds: string[];
+  /** Sum of complexity along the path */
+  totalComplexity: number;
+}
+
+export interface UnblockImpact {
+  taskId: string;
+  /** Open tasks waiting directly on this one */
+  directCount: number;
+  /** Open tasks waiting on this one through any chain of blockers */
+  transitiveCount: number;
+}
+
+interface OpenGraph {
+  ids: string[];
+  blockersOf: Map<string, string[]>;
+  dependentsOf: Map<string, string[]>;
+}
+
+function buildOpenGraph(tasks: AnalysisTask[]): OpenGraph {
+  const open = tasks.filter((task) => !isCompletedStatus(task.status));
+  const openIds = new Set(open.map((task) => task.id));
+  const blockersOf = new Map<string, string[]>();
+  const dependentsOf = new Map<string, string[]>(open.map((task) => [task.id, []]));
+
+  for (const task of open) {
+    const blockers = [...new Set(task.blockedBy)].filter(
+      (id) => id !== MANUAL_BLOCKER_ID && id !== task.id && openIds.has(id)
+    );
+    blockersOf.set(task.id, blockers);
+    for (const blockerId of blockers) dependentsOf.get(blockerId)!.push(task.id);
+  }
+
+  return { ids: open.map((task) => task.id), blockersOf, dependentsOf };
+}
+
+/**
+ * Find the heaviest chain of open tasks linked by blockedBy, using complexity
+ * as the weight (minimum 1 so unestimated tasks still count).
+ *
+ * Edges that close a cycle are skipped, so the result is always a simple path.
+ * Ties go to the task listed first.
+ */
+export function computeCriticalPath(tasks: AnalysisTask[]): CriticalPath {
+  const graph = buildOpenGraph(tasks);
+  const weightOf = new Map(tasks.map((task) => [task.id, Math.max(1, task.complexity || 0)] as const));
+
+  const best = new Map<string, { total: number; previous: string | null }>();
+  const visiting = new Set<string>();
+
+  const solve = (id: string): number => {
+    const known = best.get(id);
+    if (known) return known.total;
+    visiting.add(id);
+
+    let previous: string | null = null;
+    let upstream = 0;
+    for (const blockerId of graph.blockersOf.get(id) ?? []) {
+      if (visiting.has(blockerId)) continue;
+      const total = solve(blockerId);
+      if (total > upstream) {
+        upstream = total;
+        previous = blockerId;
+      }
+    }
+
+    visiting.delete(id);
+    const total = upstream + weightOf.get(id)!;
+    best.set(id, { total, previous });
+    return total;
+  };
+
+  let endId: string | null = null;
+  let totalComplexity = 0;
+  for (const id of graph.ids) {
+    const total = solve(id);
+    if (total > totalComplexity) {
+      totalComplexity = total;
+      endId = id;
+    }
+  }
+
+  const taskIds: string[] = [];
+  for (let id = endId; id !== null; id = best.get(id)?.previous ?? null) {
+    taskIds.unshift(id);
+  }
+
+  return { taskIds, totalComplexity };
+}
+
+/**
+ * Rank open tasks by how many open tasks they transitively unblock.
+ * Sorted by transitive count, then direct count, then input order.
+ */
+export function rankUnblockImpact(tasks: AnalysisTask[]): UnblockImpact[] {
+  const graph = buildOpenGraph(tasks);
+
+  const impacts = graph.ids.map((taskId): UnblockImpact => {
+    const reached = new Set<string>();
+    const queue = [...graph.dependentsOf.get(taskId)!];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (id === taskId || reached.has(id)) continue;
+      reached.add(id);
+      queue.push(...graph.dependentsOf.get(id)!);
+    }
+
+    return {
+      taskId,
+      directCount: graph.dependentsOf.get(taskId)!.length,
+      transitiveCount: reached.size,
+    };
+  });
+
+  // Array.prototype.sort is stable, so equal impacts keep input order
+  return impacts.sort(
+    (a, b) => b.transitiveCount - a.transitiveCount || b.directCount - a.directCount
+  );
+}
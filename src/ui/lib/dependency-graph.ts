@@ -0,0 +1,197 @@
+/**
+ * Dependency graph validation
+ *
+ * Tasks store their blockers as a free JSON array (`blockedBy`), so nothing in
+ * the domain layer prevents cycles or references to deleted entities. These
+ * helpers walk the `blockedBy` edges to find both problems.
+ */
+
+import type { Task } from '@allpepper/task-orchestrator';
+
+/**
+ * Minimal shape needed to walk the graph
+ */
+export type DependencyNode = Pick<Task, 'id' | 'blockedBy'>;
+
+/**
+ * A blocker ID that does not resolve to any known entity
+ */
+export interface DanglingBlocker {
+  taskId: string;
+  blockerId: string;
+}
+
+export interface DependencyValidation {
+  /** Each cycle lists task IDs in blockedBy order: [A, B, C] means A waits on B, B on C, C on A */
+  cycles: string[][];
+  dangling: DanglingBlocker[];
+}
+
+/**
+ * Manual blocker written by the orchestrator's block tool; not an entity reference
+ */
+export const MANUAL_BLOCKER_ID = 'NO_OP';
+
+/**
+ * Lookup returning an entity's blockers, or undefined when the entity is unknown
+ */
+export type BlockedByLookup = (id: string) => string[] | undefined;
+
+function entityBlockers(blockedBy: string[]): string[] {
+  return blockedBy.filter((id) => id !== MANUAL_BLOCKER_ID);
+}
+
+/**
+ * Find a chain of blockedBy edges leading from `fromId` to `toId`.
+ * Returns the visited IDs (both ends included) or null when unreachable.
+ */
+export function findBlockingPath(
+  fromId: string,
+  toId: string,
+  getBlockedBy: BlockedByLookup
+): string[] | null {
+  const previous = new Map<string, string | null>([[fromId, null]]);
+  const queue = [fromId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === toId) {
+      const path: string[] = [];
+      for (let id: string | null = current; id !== null; id = previous.get(id) ?? null) {
+        path.unshift(id);
+      }
+      return path;
+    }
+
+    for (const next of entityBlockers(getBlockedBy(current) ?? [])) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether making `taskId` wait on `blockerId` would close a cycle.
+ * Returns the resulting cycle in blockedBy order, or null if the link is safe.
+ */
+export function findCycleForNewBlocker(
+  taskId: string,
+  blockerId: string,
+  getBlockedBy: BlockedByLookup
+): string[] | null {
+  if (taskId === blockerId) return [taskId];
+  const path = findBlockingPath(blockerId, taskId, getBlockedBy);
+  return path ? [taskId, ...path.slice(0, -1)] : null;
+}
+
+/**
+ * Build a lookup over an in-memory list of tasks
+ */
+export function createBlockedByLookup(nodes: DependencyNode[]): BlockedByLookup {
+  const byId = new Map(nodes.map((node) => [node.id, node.blockedBy] as const));
+  return (id) => byId.get(id);
+}
+
+/**
+ * Validate the blockedBy graph of a set of tasks.
+ *
+ * Cycles are found per strongly connected component (Tarjan), reporting one
+ * concrete loop for each. Blockers outside the set are dangling unless
+ * `isKnownId` recognises them (e.g. cross-project tasks or features).
+ */
+export function validateDependencyGraph(
+  nodes: DependencyNode[],
+  isKnownId: (id: string) => boolean = () => false
+): DependencyValidation {
+  const lookup = createBlockedByLookup(nodes);
+  const dangling: DanglingBlocker[] = [];
+
+  for (const node of nodes) {
+    for (const blockerId of entityBlockers(node.blockedBy)) {
+      if (lookup(blockerId) === undefined && !isKnownId(blockerId)) {
+        dangling.push({ taskId: node.id, blockerId });
+      }
+    }
+  }
+
+  // Tarjan's strongly connected components, restricted to the given nodes
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let nextIndex = 0;
+
+  const successors = (id: string) => entityBlockers(lookup(id) ?? []).filter((next) => lookup(next) !== undefined);
+
+  const strongConnect = (id: string) => {
+    indexOf.set(id, nextIndex);
+    lowLink.set(id, nextIndex);
+    nextIndex++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of successors(id)) {
+      if (!indexOf.has(next)) {
+        strongConnect(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, indexOf.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) === indexOf.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+
+      const isSelfLoop = component.length === 1 && successors(id).includes(id);
+      if (component.length > 1 || isSelfLoop) {
+        cycles.push(extractCycle(id, new Set(component), successors));
+      }
+    }
+  };
+
+  for (const node of nodes) {
+    if (!indexOf.has(node.id)) {
+      strongConnect(node.id);
+    }
+  }
+
+  return { cycles, dangling };
+}
+
+/**
+ * Pick one concrete loop through `start` inside a strongly connected component
+ */
+function extractCycle(
+  start: string,
+  component: Set<string>,
+  successors: (id: string) => string[]
+): string[] {
+  const withinComponent: BlockedByLookup = (id) => successors(id).filter((next) => component.has(next));
+
+  for (const next of withinComponent(start) ?? []) {
+    if (next === start) return [start];
+    const path = findBlockingPath(next, start, withinComponent);
+    if (path) return [start, ...path.slice(0, -1)];
+  }
+
+  return [...component];
+}
+
+/**
+ * Render a cycle as "A → B → C → A" using a label lookup
+ */
+export function formatCycle(cycle: string[], label: (id: string) => string = (id) => id): string {
+  if (cycle.length === 0) return '';
+  return [...cycle, cycle[0]!].map(label).join(' → ');
+}
@@ -0,0 +1,86 @@
+/**
+ * Progress over time
+ *
+ * Samples a set of tasks at evenly spaced dates for the cumulative-flow
+ * diagram (how many tasks were in each status) and the burndown (complexity
+ * points still open). Status at a date comes from the same replayed
+ * timelines as the delivery metrics.
+ */
+
+import type { Task } from '@allpepper/task-orchestrator';
+import { buildTimelines, type MetricsTask, type StatusTransition, type TaskTimeline } from './metrics';
+import { isCompletedStatus } from './colors';
+
+/**
+ * Minimal shape needed for progress sampling
+ */
+export type FlowTask = MetricsTask & Pick<Task, 'complexity'>;
+
+export type ProgressRange = '7d' | '30d' | '90d' | 'all';
+
+export const PROGRESS_RANGES: ProgressRange[] = ['7d', '30d', '90d', 'all'];
+
+const RANGE_DAYS: Record<Exclude<ProgressRange, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FlowSample {
+  date: Date;
+  /** Tasks in each status at `date`; tasks created later are left out */
+  counts: Record<string, number>;
+  /** Complexity points of tasks that existed and were not completed */
+  remaining: number;
+}
+
+/**
+ * First date shown for a range; `all` starts at the oldest task
+ */
+export function rangeStart(range: ProgressRange, tasks: Array<Pick<Task, 'createdAt'>>, now: Date = new Date()): Date {
+  if (range === 'all') {
+    const oldest = Math.min(now.getTime(), ...tasks.map((task) => task.createdAt.getTime()));
+    return new Date(oldest);
+  }
+  return new Date(now.getTime() - RANGE_DAYS[range] * DAY_MS);
+}
+
+/**
+ * `points` dates from `from` to `to` inclusive
+ */
+export function sampleDates(from: Date, to: Date, points: number): Date[] {
+  if (points <= 1) return [to];
+  const step = (to.getTime() - from.getTime()) / (points - 1);
+  return Array.from({ length: points }, (_, index) => new Date(from.getTime() + step * index));
+}
+
+/**
+ * Status of a task at `date`, or null before it was created
+ */
+export function statusAt(timeline: TaskTimeline, date: Date): string | null {
+  if (date < timeline.createdAt) return null;
+  let status: string | null = null;
+  for (const period of timeline.history) {
+    if (period.since > date) break;
+    status = period.status;
+  }
+  return status ?? timeline.history[0]?.status ?? null;
+}
+
+export function sampleFlow(tasks: FlowTask[], transitions: StatusTransition[], dates: Date[], now: Date = new Date()): FlowSample[] {
+  const timelines = buildTimelines(tasks, transitions, now);
+
+  return dates.map((date) => {
+    const counts: Record<string, number> = {};
+    let remaining = 0;
+    timelines.forEach((timeline, index) => {
+      const status = statusAt(timeline, date);
+      if (!status) return;
+      counts[status] = (counts[status] ?? 0) + 1;
+      if (!isCompletedStatus(status)) remaining += tasks[index]?.complexity ?? 0;
+    });
+    return { date, counts, remaining };
+  });
+}
@@ -112,3 +112,33 @@ export function formatStatus(status: string): string {
 export function formatPriority(priority: string): string {
   return priority.charAt(0).toUpperCase() + priority.slice(1).toLowerCase();
 }
+
+/**
+ * Format a duration in milliseconds using its two largest units
+ * @example formatDuration(90 * 60 * 1000) // "1h 30m"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) {
+    return '<1m';
+  }
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+  }
+
+  const days = Math.floor(hours / 24);
+  return hours % 24 === 0 ? `${days}d` : `${days}d ${hours % 24}h`;
+}
+
+/**
+ * Format a date as month and day for chart axes
+ * @example formatShortDate(new Date('2026-03-11T12:00:00Z')) // "03-11"
+ */
+export function formatShortDate(date: Date): string {
+  return date.toISOString().slice(5, 10);
+}
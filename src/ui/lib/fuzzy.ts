@@ -0,0 +1,67 @@
+/**
+ * Fuzzy matching for the go-to palette
+ *
+ * The query's characters must appear in order in the text (case-insensitive).
+ * Matches score higher when they are consecutive, start a word or start the
+ * text, and lower the more text they skip.
+ */
+
+export interface FuzzyMatch {
+  score: number;
+  /** Indexes of the matched characters in the text */
+  positions: number[];
+}
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+  const previous = text[index - 1] ?? '';
+  const current = text[index] ?? '';
+  if (!/[a-z0-9]/i.test(previous)) return true;
+  // camelCase boundary
+  return previous === previous.toLowerCase() && current !== current.toLowerCase();
+}
+
+/**
+ * Greedy match of the query starting at `start`, or null when it does not fit
+ */
+function matchFrom(query: string, text: string, lower: string, start: number): FuzzyMatch | null {
+  const positions: number[] = [];
+  let score = 0;
+  let cursor = start;
+
+  for (const char of query) {
+    const index = lower.indexOf(char, cursor);
+    if (index < 0) return null;
+    const previous = positions[positions.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 5;
+    else if (previous !== undefined) score -= Math.min(3, (index - previous - 1) * 0.2);
+    if (isWordStart(text, index)) score += 4;
+    positions.push(index);
+    cursor = index + 1;
+  }
+
+  if (positions[0] === 0) score += 6;
+  // Prefer shorter texts when everything else is equal
+  score -= text.length * 0.01;
+  return { score, positions };
+}
+
+/**
+ * Best match of `query` in `text`, or null. Whitespace in the query is ignored.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return { score: 0, positions: [] };
+
+  const lower = text.toLowerCase();
+  const first = needle[0] ?? '';
+  let best: FuzzyMatch | null = null;
+  // Try every occurrence of the first character; greedy from the first one can miss word starts
+  for (let start = lower.indexOf(first); start >= 0; start = lower.indexOf(first, start + 1)) {
+    const match = matchFrom(needle, text, lower, start);
+    if (!match) break;
+    if (!best || match.score > best.score) best = match;
+  }
+  return best;
+}
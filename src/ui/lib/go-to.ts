@@ -0,0 +1,81 @@
+/**
+ * Go-to palette entries and their ranking
+ */
+
+import type { Feature, Project, Task } from '@allpepper/task-orchestrator';
+import { fuzzyMatch } from './fuzzy';
+
+export type GoToKind = 'project' | 'feature' | 'task';
+
+export interface GoToItem {
+  kind: GoToKind;
+  id: string;
+  title: string;
+  status?: string;
+  priority?: string;
+  projectId?: string;
+  featureId?: string;
+}
+
+export interface RankedGoToItem {
+  item: GoToItem;
+  score: number;
+  /** Matched character indexes in the title; empty for ID matches */
+  positions: number[];
+  /** Matched through its ID prefix rather than its title */
+  byId: boolean;
+}
+
+/** ID-prefix hits outrank any fuzzy title match */
+const ID_MATCH_SCORE = 1000;
+
+/** Shortest query treated as a possible ID prefix */
+const MIN_ID_PREFIX = 2;
+
+export function goToItems(projects: Project[], features: Feature[], tasks: Task[]): GoToItem[] {
+  return [
+    ...projects.map((project): GoToItem => ({ kind: 'project', id: project.id, title: project.name })),
+    ...features.map((feature): GoToItem => ({
+      kind: 'feature',
+      id: feature.id,
+      title: feature.name,
+      status: feature.status,
+      priority: feature.priority,
+      projectId: feature.projectId,
+    })),
+    ...tasks.map((task): GoToItem => ({
+      kind: 'task',
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      priority: task.priority,
+      projectId: task.projectId,
+      featureId: task.featureId,
+    })),
+  ];
+}
+
+/**
+ * Rank items against the query by fuzzy title match or ID prefix (the
+ * characters truncateId shows). An empty query keeps the given order.
+ */
+export function rankGoToItems(items: GoToItem[], query: string, limit = 50): RankedGoToItem[] {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return items.slice(0, limit).map((item) => ({ item, score: 0, positions: [], byId: false }));
+  }
+
+  const idPrefix = trimmed.toLowerCase();
+  const ranked: RankedGoToItem[] = [];
+  for (const item of items) {
+    if (idPrefix.length >= MIN_ID_PREFIX && item.id.toLowerCase().startsWith(idPrefix)) {
+      ranked.push({ item, score: ID_MATCH_SCORE + idPrefix.length, positions: [], byId: true });
+      continue;
+    }
+    const match = fuzzyMatch(trimmed, item.title);
+    if (match) ranked.push({ item, score: match.score, positions: match.positions, byId: false });
+  }
+
+  // Array.sort is stable, so equal scores keep projects → features → tasks order
+  return ranked.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,472 @@
+/**
+ * Layered graph layout
+ *
+ * Lays out the blockedBy DAG of a set of tasks as columns (blockers to the
+ * left of the tasks they block) and rasterises it onto a character grid with
+ * box-drawing edges. The grid is renderer-agnostic: each cell carries its
+ * character plus enough metadata for a renderer to colour it.
+ */
+
+import type { Task } from '@allpepper/task-orchestrator';
+import { MANUAL_BLOCKER_ID, validateDependencyGraph } from './dependency-graph';
+
+/**
+ * Minimal shape needed to lay out a task
+ */
+export type GraphNodeInput = Pick<Task, 'id' | 'title' | 'status' | 'blockedBy'>;
+
+export type GraphCellKind = 'blank' | 'edge' | 'node' | 'label';
+
+export interface GraphCell {
+  char: string;
+  kind: GraphCellKind;
+  /** Set on node cells */
+  nodeId?: string;
+}
+
+export interface PlacedNode {
+  id: string;
+  /** Layer index (0 = tasks with no in-graph blockers) */
+  column: number;
+  x: number;
+  y: number;
+  /** Index of the connected component, in display order */
+  component: number;
+  /** Part of a blockedBy cycle; one edge of the cycle is not drawn */
+  inCycle: boolean;
+}
+
+export interface GraphLayout {
+  width: number;
+  height: number;
+  cells: GraphCell[][];
+  nodes: PlacedNode[];
+}
+
+export interface GraphLayoutOptions {
+  /** Width of a node label in characters */
+  nodeWidth?: number;
+  /** Label shown above tasks that have no dependencies */
+  isolatedLabel?: string;
+}
+
+export type GraphDirection = 'up' | 'down' | 'left' | 'right';
+
+const NODE_GAP = 2;
+const MIN_GUTTER = 3;
+const ORDERING_PASSES = 4;
+
+// Direction bits for edge cells
+const N = 1;
+const E = 2;
+const S = 4;
+const W = 8;
+
+const BOX_CHARS: Record<number, string> = {
+  [N]: '│',
+  [S]: '│',
+  [N | S]: '│',
+  [E]: '─',
+  [W]: '─',
+  [E | W]: '─',
+  [E | S]: '┌',
+  [W | S]: '┐',
+  [N | E]: '└',
+  [N | W]: '┘',
+  [N | E | S]: '├',
+  [N | W | S]: '┤',
+  [E | W | S]: '┬',
+  [N | E | W]: '┴',
+  [N | E | S | W]: '┼',
+};
+
+const ARROW = '▶';
+
+interface LayerNode {
+  id: string;
+  /** Real task ID, or null for a dummy node routing a long edge */
+  taskId: string | null;
+  layer: number;
+}
+
+interface ComponentLayout {
+  layers: LayerNode[][];
+  /** Edges between adjacent layers, by layer node ID */
+  edges: Array<{ from: string; to: string }>;
+  isolated: boolean;
+}
+
+/**
+ * Lay out and rasterise the dependency graph of `tasks`.
+ *
+ * Only blockers inside the set are drawn. Each weakly connected component is
+ * stacked vertically; tasks without any in-set dependency are gathered into a
+ * final block. Cycles are broken by dropping one edge per back-link and the
+ * involved tasks are flagged with `inCycle`.
+ */
+export function layoutDependencyGraph(
+  tasks: GraphNodeInput[],
+  options: GraphLayoutOptions = {}
+): GraphLayout {
+  const nodeWidth = options.nodeWidth ?? 24;
+  const isolatedLabel = options.isolatedLabel ?? 'No dependencies';
+
+  const byId = new Map(tasks.map((task) => [task.id, task] as const));
+  const order = new Map(tasks.map((task, index) => [task.id, index] as const));
+  const blockersOf = (id: string) =>
+    [...new Set(byId.get(id)?.blockedBy ?? [])].filter(
+      (blockerId) => blockerId !== MANUAL_BLOCKER_ID && blockerId !== id && byId.has(blockerId)
+    );
+
+  const inCycle = new Set(validateDependencyGraph(tasks).cycles.flat());
+  const components = splitComponents(tasks, blockersOf).map((group) =>
+    layoutComponent(group, blockersOf, order)
+  );
+
+  const columnCount = Math.max(1, ...components.map((component) => component.layers.length));
+
+  // Gutters are shared by all components so columns line up vertically
+  const gutters = Array.from({ length: columnCount }, (_, gap) =>
+    Math.max(
+      MIN_GUTTER,
+      ...components.map((component) => sourcesInGap(component, gap).length + 3)
+    )
+  );
+  const columnX: number[] = [];
+  let width = 0;
+  for (let column = 0; column < columnCount; column++) {
+    columnX.push(width);
+    width += nodeWidth + (column < columnCount - 1 ? gutters[column]! : 0);
+  }
+
+  // Vertical placement
+  const positions = new Map<string, { x: number; y: number }>();
+  const labels: Array<{ y: number; text: string }> = [];
+  const nodes: PlacedNode[] = [];
+  let top = 0;
+
+  components.forEach((component, componentIndex) => {
+    if (componentIndex > 0) top += 1;
+    if (component.isolated && components.length > 1) {
+      labels.push({ y: top, text: isolatedLabel });
+      top += 1;
+    }
+
+    const rowGap = component.isolated ? 1 : NODE_GAP;
+    let height = 0;
+    component.layers.forEach((layer, column) => {
+      layer.forEach((node, index) => {
+        const y = top + index * rowGap;
+        positions.set(node.id, { x: columnX[column]!, y });
+        height = Math.max(height, index * rowGap + 1);
+        if (node.taskId) {
+          nodes.push({
+            id: node.taskId,
+            column,
+            x: columnX[column]!,
+            y,
+            component: componentIndex,
+            inCycle: inCycle.has(node.taskId),
+          });
+        }
+      });
+    });
+    top += height;
+  });
+
+  const height = top;
+  const masks: number[][] = Array.from({ length: height }, () => new Array<number>(width).fill(0));
+  const cells: GraphCell[][] = Array.from({ length: height }, () =>
+    Array.from({ length: width }, (): GraphCell => ({ char: ' ', kind: 'blank' }))
+  );
+  const arrows: Array<{ x: number; y: number }> = [];
+
+  const connect = (x: number, y: number, bits: number) => {
+    const row = masks[y];
+    if (row && x >= 0 && x < width) row[x] = (row[x] ?? 0) | bits;
+  };
+  const horizontal = (y: number, fromX: number, toX: number) => {
+    for (let x = fromX; x < toX; x++) {
+      connect(x, y, E);
+      connect(x + 1, y, W);
+    }
+  };
+  const vertical = (x: number, fromY: number, toY: number) => {
+    const [start, end] = fromY < toY ? [fromY, toY] : [toY, fromY];
+    for (let y = start; y < end; y++) {
+      connect(x, y, S);
+      connect(x, y + 1, N);
+    }
+  };
+
+  for (const component of components) {
+    const layerOf = new Map<string, LayerNode>();
+    component.layers.forEach((layer) => layer.forEach((node) => layerOf.set(node.id, node)));
+
+    // Dummy nodes are drawn as a straight line through their column
+    for (const node of layerOf.values()) {
+      if (node.taskId) continue;
+      const position = positions.get(node.id)!;
+      horizontal(position.y, position.x - 1, position.x + nodeWidth);
+    }
+
+    for (let gap = 0; gap < component.layers.length - 1; gap++) {
+      const sources = sourcesInGap(component, gap);
+      const gutterStart = columnX[gap]! + nodeWidth;
+
+      for (const edge of component.edges) {
+        const from = layerOf.get(edge.from)!;
+        if (from.layer !== gap) continue;
+        const to = layerOf.get(edge.to)!;
+        const start = positions.get(from.id)!;
+        const end = positions.get(to.id)!;
+        const channelX = gutterStart + 1 + sources.indexOf(from.id);
+        const endX = columnX[gap + 1]! - 1;
+
+        connect(gutterStart, start.y, W);
+        horizontal(start.y, gutterStart, channelX);
+        vertical(channelX, start.y, end.y);
+        horizontal(end.y, channelX, endX);
+        if (to.taskId) {
+          arrows.push({ x: endX, y: end.y });
+        } else {
+          connect(endX, end.y, E);
+        }
+      }
+    }
+  }
+
+  masks.forEach((row, y) =>
+    row.forEach((bits, x) => {
+      if (bits) cells[y]![x] = { char: BOX_CHARS[bits] ?? '┼', kind: 'edge' };
+    })
+  );
+  for (const { x, y } of arrows) {
+    cells[y]![x] = { char: ARROW, kind: 'edge' };
+  }
+
+  for (const node of nodes) {
+    const task = byId.get(node.id)!;
+    const marker = node.inCycle ? '↺' : '●';
+    writeText(cells[node.y]!, node.x, fitText(`${marker} ${task.title}`, nodeWidth), 'node', node.id);
+  }
+  for (const label of labels) {
+    writeText(cells[label.y]!, 0, label.text.slice(0, width), 'label');
+  }
+
+  return { width, height, cells, nodes };
+}
+
+/**
+ * Find the node to move to from `fromId` in the given direction.
+ *
+ * Up/down stay in the same column; left/right jump to the nearest populated
+ * column and pick the node closest vertically. Returns null at the edges.
+ */
+export function findNeighbourNode(
+  layout: GraphLayout,
+  fromId: string,
+  direction: GraphDirection
+): string | null {
+  const current = layout.nodes.find((node) => node.id === fromId);
+  if (!current) return layout.nodes[0]?.id ?? null;
+
+  if (direction === 'up' || direction === 'down') {
+    const sign = direction === 'down' ? 1 : -1;
+    const candidates = layout.nodes
+      .filter((node) => node.column === current.column && (node.y - current.y) * sign > 0)
+      .sort((a, b) => (a.y - b.y) * sign);
+    return candidates[0]?.id ?? null;
+  }
+
+  const sign = direction === 'right' ? 1 : -1;
+  const columns = layout.nodes
+    .map((node) => node.column)
+    .filter((column) => (column - current.column) * sign > 0)
+    .sort((a, b) => (a - b) * sign);
+  const targetColumn = columns[0];
+  if (targetColumn === undefined) return null;
+
+  const candidates = layout.nodes
+    .filter((node) => node.column === targetColumn)
+    .sort((a, b) => Math.abs(a.y - current.y) - Math.abs(b.y - current.y) || a.y - b.y);
+  return candidates[0]?.id ?? null;
+}
+
+/**
+ * Group task IDs into weakly connected components, in input order.
+ * Components with edges come first; isolated tasks are returned as one
+ * trailing group.
+ */
+function splitComponents(
+  tasks: GraphNodeInput[],
+  blockersOf: (id: string) => string[]
+): Array<{ ids: string[]; isolated: boolean }> {
+  const parent = new Map(tasks.map((task) => [task.id, task.id] as const));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const linked = new Set<string>();
+  for (const task of tasks) {
+    for (const blockerId of blockersOf(task.id)) {
+      parent.set(find(task.id), find(blockerId));
+      linked.add(task.id);
+      linked.add(blockerId);
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  const isolated: string[] = [];
+  for (const task of tasks) {
+    if (!linked.has(task.id)) {
+      isolated.push(task.id);
+      continue;
+    }
+    const root = find(task.id);
+    groups.set(root, [...(groups.get(root) ?? []), task.id]);
+  }
+
+  const result = [...groups.values()].map((ids) => ({ ids, isolated: false }));
+  if (isolated.length > 0) result.push({ ids: isolated, isolated: true });
+  return result;
+}
+
+/**
+ * Assign layers by longest path, route long edges through dummy nodes and
+ * order each layer with barycenter sweeps to reduce crossings.
+ */
+function layoutComponent(
+  group: { ids: string[]; isolated: boolean },
+  blockersOf: (id: string) => string[],
+  order: Map<string, number>
+): ComponentLayout {
+  if (group.isolated) {
+    return {
+      layers: [group.ids.map((id) => ({ id, taskId: id, layer: 0 }))],
+      edges: [],
+      isolated: true,
+    };
+  }
+
+  // Drop back edges found by DFS so the remaining graph is acyclic
+  const dependents = new Map<string, string[]>(group.ids.map((id) => [id, []]));
+  for (const id of group.ids) {
+    for (const blockerId of blockersOf(id)) dependents.get(blockerId)!.push(id);
+  }
+  const state = new Map<string, 'active' | 'done'>();
+  const edges: Array<{ from: string; to: string }> = [];
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    for (const next of dependents.get(id)!) {
+      if (state.get(next) === 'active') continue;
+      edges.push({ from: id, to: next });
+      if (!state.has(next)) visit(next);
+    }
+    state.set(id, 'done');
+  };
+  for (const id of group.ids) {
+    if (!state.has(id)) visit(id);
+  }
+
+  // Longest-path layering in topological order
+  const incoming = new Map<string, string[]>(group.ids.map((id) => [id, []]));
+  for (const edge of edges) incoming.get(edge.to)!.push(edge.from);
+  const layerOf = new Map<string, number>();
+  const remaining = new Map(group.ids.map((id) => [id, incoming.get(id)!.length] as const));
+  const queue = group.ids.filter((id) => remaining.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    layerOf.set(id, Math.max(0, ...incoming.get(id)!.map((from) => layerOf.get(from)! + 1)));
+    for (const edge of edges) {
+      if (edge.from !== id) continue;
+      const left = remaining.get(edge.to)! - 1;
+      remaining.set(edge.to, left);
+      if (left === 0) queue.push(edge.to);
+    }
+  }
+
+  const layerCount = Math.max(...layerOf.values()) + 1;
+  const layers: LayerNode[][] = Array.from({ length: layerCount }, () => []);
+  for (const id of [...group.ids].sort((a, b) => order.get(a)! - order.get(b)!)) {
+    const layer = layerOf.get(id)!;
+    layers[layer]!.push({ id, taskId: id, layer });
+  }
+
+  // Split edges spanning several layers into unit segments via dummy nodes
+  const segments: Array<{ from: string; to: string }> = [];
+  for (const edge of edges) {
+    let from = edge.from;
+    for (let layer = layerOf.get(edge.from)! + 1; layer < layerOf.get(edge.to)!; layer++) {
+      const dummyId = `${edge.from}→${edge.to}#${layer}`;
+      layers[layer]!.push({ id: dummyId, taskId: null, layer });
+      segments.push({ from, to: dummyId });
+      from = dummyId;
+    }
+    segments.push({ from, to: edge.to });
+  }
+
+  orderLayers(layers, segments);
+  return { layers, edges: segments, isolated: false };
+}
+
+/**
+ * Reorder nodes within each layer by the mean position of their neighbours,
+ * alternating downward and upward sweeps
+ */
+function orderLayers(layers: LayerNode[][], segments: Array<{ from: string; to: string }>): void {
+  const position = new Map<string, number>();
+  const record = () =>
+    layers.forEach((layer) => layer.forEach((node, index) => position.set(node.id, index)));
+  record();
+
+  const neighbours = (id: string, upstream: boolean) =>
+    segments
+      .filter((segment) => (upstream ? segment.to === id : segment.from === id))
+      .map((segment) => position.get(upstream ? segment.from : segment.to)!);
+
+  const sortLayer = (layer: LayerNode[], upstream: boolean) => {
+    const weight = new Map(
+      layer.map((node) => {
+        const linked = neighbours(node.id, upstream);
+        const barycenter = linked.length > 0
+          ? linked.reduce((sum, value) => sum + value, 0) / linked.length
+          : position.get(node.id)!;
+        return [node.id, barycenter] as const;
+      })
+    );
+    layer.sort((a, b) => weight.get(a.id)! - weight.get(b.id)!);
+    layer.forEach((node, index) => position.set(node.id, index));
+  };
+
+  for (let pass = 0; pass < ORDERING_PASSES; pass++) {
+    for (let index = 1; index < layers.length; index++) sortLayer(layers[index]!, true);
+    for (let index = layers.length - 2; index >= 0; index--) sortLayer(layers[index]!, false);
+  }
+}
+
+/**
+ * Distinct edge sources leaving `layer`, top to bottom; each gets its own
+ * vertical channel in the gutter to the right of the layer
+ */
+function sourcesInGap(component: ComponentLayout, layer: number): string[] {
+  const nodes = component.layers[layer] ?? [];
+  return nodes
+    .filter((node) => component.edges.some((edge) => edge.from === node.id))
+    .map((node) => node.id);
+}
+
+function fitText(text: string, width: number): string {
+  const chars = [...text];
+  if (chars.length > width) return `${chars.slice(0, width - 1).join('')}…`;
+  return text.padEnd(width);
+}
+
+function writeText(row: GraphCell[], x: number, text: string, kind: GraphCellKind, nodeId?: string): void {
+  [...text].forEach((char, offset) => {
+    if (x + offset < row.length) row[x + offset] = { char, kind, nodeId };
+  });
+}
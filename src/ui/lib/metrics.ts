@@ -0,0 +1,248 @@
+/**
+ * Delivery metrics
+ *
+ * Lead time (created → CLOSED), cycle time (first ACTIVE → CLOSED), time
+ * spent in each pipeline stage and weekly throughput for a set of tasks.
+ * Timelines are replayed from the status transitions in the activity log;
+ * tasks without recorded transitions (or changed outside the adapter) fall
+ * back to `createdAt`/`modifiedAt` and are counted as estimated.
+ */
+
+import type { Task } from '@allpepper/task-orchestrator';
+import type { ActivityEntry } from '../adapters/types';
+import { isCompletedStatus } from './colors';
+
+/**
+ * Minimal shape needed for the metrics
+ */
+export type MetricsTask = Pick<Task, 'id' | 'status' | 'createdAt' | 'modifiedAt'>;
+
+/**
+ * A status change of one task; activity entries without a new status are ignored
+ */
+export type StatusTransition = Pick<ActivityEntry, 'entityId' | 'createdAt' | 'oldStatus' | 'newStatus'>;
+
+/**
+ * Open pipeline stages reported by time-in-status, in pipeline order
+ */
+export const METRIC_STAGES = ['NEW', 'ACTIVE', 'TO_BE_TESTED', 'READY_TO_PROD'];
+
+export const DEFAULT_THROUGHPUT_WEEKS = 12;
+
+const START_STATUS = 'ACTIVE';
+const DONE_STATUS = 'CLOSED';
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface StatusPeriod {
+  status: string;
+  since: Date;
+}
+
+export interface TaskTimeline {
+  taskId: string;
+  createdAt: Date;
+  /** First time the task became ACTIVE, when known */
+  startedAt: Date | null;
+  /** When the task was last CLOSED; null while open or dropped */
+  closedAt: Date | null;
+  /** Milliseconds spent in each status */
+  timeInStatus: Record<string, number>;
+  /** Each status the task entered, oldest first, starting at creation */
+  history: StatusPeriod[];
+  /** Part of the timeline was inferred from timestamps */
+  estimated: boolean;
+}
+
+export interface DurationStats {
+  count: number;
+  /** Milliseconds; null when there are no samples */
+  median: number | null;
+  mean: number | null;
+  /** 85th percentile, the usual "most items finish within" figure */
+  p85: number | null;
+}
+
+export interface StageMetrics {
+  status: string;
+  /** Tasks that spent time in the stage */
+  count: number;
+  /** Mean milliseconds per task that spent time in the stage */
+  average: number | null;
+}
+
+export interface ThroughputBucket {
+  /** Monday 00:00 UTC */
+  weekStart: Date;
+  count: number;
+}
+
+export interface ProjectMetrics {
+  taskCount: number;
+  closedCount: number;
+  estimatedCount: number;
+  leadTime: DurationStats;
+  cycleTime: DurationStats;
+  stages: StageMetrics[];
+  throughput: ThroughputBucket[];
+}
+
+export interface MetricsOptions {
+  now?: Date;
+  weeks?: number;
+}
+
+/**
+ * Replay a task's transitions into time spent per status
+ */
+export function buildTimeline(
+  task: MetricsTask,
+  transitions: StatusTransition[],
+  now: Date = new Date()
+): TaskTimeline {
+  const steps = transitions
+    .filter((transition) => transition.entityId === task.id && transition.newStatus)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  const timeInStatus: Record<string, number> = {};
+  let startedAt: Date | null = null;
+  let status = steps[0]?.oldStatus ?? 'NEW';
+  let since = task.createdAt;
+  // History that starts mid-pipeline predates the log; its first stretch is a guess
+  let estimated = status !== 'NEW';
+  const history: StatusPeriod[] = [{ status, since }];
+
+  for (const step of steps) {
+    const next = step.newStatus as string;
+    timeInStatus[status] = (timeInStatus[status] ?? 0) + Math.max(0, step.createdAt.getTime() - since.getTime());
+    if (next === START_STATUS && !startedAt && !estimated) startedAt = step.createdAt;
+    status = next;
+    since = step.createdAt;
+    history.push({ status, since });
+  }
+
+  // The stored status wins. It was reached by modifiedAt at the latest, and
+  // the time before that cannot be attributed to any stage.
+  if (status !== task.status) {
+    estimated = true;
+    status = task.status;
+    if (task.modifiedAt > since) since = task.modifiedAt;
+    history.push({ status, since });
+  }
+
+  if (!isCompletedStatus(status)) {
+    timeInStatus[status] = (timeInStatus[status] ?? 0) + Math.max(0, now.getTime() - since.getTime());
+  }
+
+  return {
+    taskId: task.id,
+    createdAt: task.createdAt,
+    startedAt,
+    closedAt: status === DONE_STATUS ? since : null,
+    timeInStatus,
+    history,
+    estimated,
+  };
+}
+
+/**
+ * Timelines for many tasks, matching transitions to tasks once
+ */
+export function buildTimelines(
+  tasks: MetricsTask[],
+  transitions: StatusTransition[],
+  now: Date = new Date()
+): TaskTimeline[] {
+  const byTask = new Map<string, StatusTransition[]>();
+  for (const transition of transitions) {
+    byTask.set(transition.entityId, [...(byTask.get(transition.entityId) ?? []), transition]);
+  }
+  return tasks.map((task) => buildTimeline(task, byTask.get(task.id) ?? [], now));
+}
+
+function percentile(sorted: number[], fraction: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.ceil(fraction * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, index))] ?? null;
+}
+
+export function summarizeDurations(values: number[]): DurationStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length === 0
+    ? null
+    : sorted.length % 2 === 1
+      ? sorted[middle] ?? null
+      : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+
+  return {
+    count: sorted.length,
+    median,
+    mean: sorted.length === 0 ? null : sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p85: percentile(sorted, 0.85),
+  };
+}
+
+/**
+ * Monday 00:00 UTC of the week containing `date`
+ */
+export function startOfWeek(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+/**
+ * Closed tasks per week for the last `weeks` weeks, oldest first; the current
+ * week is the last bucket
+ */
+export function weeklyThroughput(closedAt: Date[], weeks: number, now: Date = new Date()): ThroughputBucket[] {
+  const currentWeek = startOfWeek(now).getTime();
+  const buckets = Array.from({ length: weeks }, (_, index) => ({
+    weekStart: new Date(currentWeek - (weeks - 1 - index) * WEEK_MS),
+    count: 0,
+  }));
+
+  for (const date of closedAt) {
+    const index = weeks - 1 - Math.round((currentWeek - startOfWeek(date).getTime()) / WEEK_MS);
+    const bucket = buckets[index];
+    if (bucket) bucket.count++;
+  }
+  return buckets;
+}
+
+export function computeProjectMetrics(
+  tasks: MetricsTask[],
+  transitions: StatusTransition[],
+  { now = new Date(), weeks = DEFAULT_THROUGHPUT_WEEKS }: MetricsOptions = {}
+): ProjectMetrics {
+  const timelines = buildTimelines(tasks, transitions, now);
+
+  const closed = timelines.flatMap(({ createdAt, startedAt, closedAt }) =>
+    closedAt ? [{ createdAt, startedAt, closedAt }] : []
+  );
+  const leadTimes = closed.map(({ createdAt, closedAt }) => closedAt.getTime() - createdAt.getTime());
+  const cycleTimes = closed.flatMap(({ startedAt, closedAt }) =>
+    startedAt ? [closedAt.getTime() - startedAt.getTime()] : []
+  );
+
+  const stages = METRIC_STAGES.map((status) => {
+    const samples = timelines
+      .map((timeline) => timeline.timeInStatus[status] ?? 0)
+      .filter((elapsed) => elapsed > 0);
+    return {
+      status,
+      count: samples.length,
+      average: samples.length === 0 ? null : samples.reduce((sum, value) => sum + value, 0) / samples.length,
+    };
+  });
+
+  return {
+    taskCount: tasks.length,
+    closedCount: closed.length,
+    estimatedCount: timelines.filter((timeline) => timeline.estimated).length,
+    leadTime: summarizeDurations(leadTimes),
+    cycleTime: summarizeDurations(cycleTimes),
+    stages,
+    throughput: weeklyThroughput(closed.map(({ closedAt }) => closedAt), weeks, now),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Navigation stack operations and deep-link resolution
+ *
+ * Back pops the current entry onto the forward list; opening a screen pushes
+ * a new entry and clears it, like a browser's history.
+ */
+
+import type { DataAdapter, Result } from '../adapters/types';
+import { goToItems, type GoToItem } from './go-to';
+import { Screen, type NavigationEntry, type NavigationState, type ScreenParams, type ViewState } from './types';
+
+/** Most entities a deep-link ID prefix is matched against */
+const DEEP_LINK_SCAN_LIMIT = 1000;
+
+export function navigationEntry<S extends Screen>(screen: S, params: ScreenParams[S], viewState: ViewState = {}): NavigationEntry {
+  return { screen, params, viewState } as NavigationEntry;
+}
+
+export function initialNavigation(
+  stack: NavigationEntry[] = [],
+  projectViews: Record<string, ViewState> = {}
+): NavigationState {
+  return {
+    stack: stack.length > 0 ? stack : [navigationEntry(Screen.Dashboard, {})],
+    forward: [],
+    projectViews,
+  };
+}
+
+export function currentEntry(state: NavigationState): NavigationEntry {
+  // The stack is never empty: popEntry keeps the root
+  return state.stack[state.stack.length - 1]!;
+}
+
+/** Screens whose view state is remembered per project */
+const PROJECT_VIEW_SCREENS: ReadonlySet<Screen> = new Set([Screen.ProjectView, Screen.Kanban, Screen.DependencyGraph]);
+
+/**
+ * Key for an entry's remembered project view state; null for screens that
+ * are not per-project views
+ */
+export function projectViewKey(entry: NavigationEntry): string | null {
+  if (!PROJECT_VIEW_SCREENS.has(entry.screen) || !('projectId' in entry.params) || !entry.params.projectId) return null;
+  return `${entry.screen}:${entry.params.projectId}`;
+}
+
+function sameTarget(a: NavigationEntry, b: NavigationEntry): boolean {
+  return a.screen === b.screen && JSON.stringify(a.params) === JSON.stringify(b.params);
+}
+
+/**
+ * Open a screen, starting from the project's remembered view state;
+ * re-opening the current one is a no-op
+ */
+export function pushEntry(state: NavigationState, entry: NavigationEntry): NavigationState {
+  if (sameTarget(currentEntry(state), entry)) return state;
+  const key = projectViewKey(entry);
+  const remembered = key ? state.projectViews[key] : undefined;
+  const opened = remembered ? { ...entry, viewState: { ...remembered, ...entry.viewState } } : entry;
+  return { ...state, stack: [...state.stack, opened], forward: [] };
+}
+
+/**
+ * Back: drop the current entry (kept for Forward); the root stays
+ */
+export function popEntry(state: NavigationState): NavigationState {
+  if (state.stack.length <= 1) return state;
+  return { ...state, stack: state.stack.slice(0, -1), forward: [...state.forward, currentEntry(state)] };
+}
+
+/**
+ * Forward: re-open the entry last left with Back, view state included
+ */
+export function forwardEntry(state: NavigationState): NavigationState {
+  const next = state.forward[state.forward.length - 1];
+  if (!next) return state;
+  return { ...state, stack: [...state.stack, next], forward: state.forward.slice(0, -1) };
+}
+
+export function replaceEntry(state: NavigationState, entry: NavigationEntry): NavigationState {
+  return { ...state, stack: [...state.stack.slice(0, -1), entry], forward: [] };
+}
+
+/**
+ * Merge into the current entry's view state, remembering it for the project
+ * when the entry is a per-project view
+ */
+export function updateViewState(state: NavigationState, patch: ViewState): NavigationState {
+  const current = currentEntry(state);
+  const viewState = { ...current.viewState, ...patch };
+  const key = projectViewKey(current);
+  return {
+    ...state,
+    stack: [...state.stack.slice(0, -1), { ...current, viewState }],
+    projectViews: key ? { ...state.projectViews, [key]: viewState } : state.projectViews,
+  };
+}
+
+/**
+ * Stack that opens an entity with its owners underneath, so Back walks up
+ * task → feature → project → dashboard
+ */
+export function entityPath(target: Pick<GoToItem, 'kind' | 'id' | 'projectId' | 'featureId'>): NavigationEntry[] {
+  const stack = [navigationEntry(Screen.Dashboard, {})];
+  if (target.kind === 'project') return [...stack, navigationEntry(Screen.ProjectView, { projectId: target.id })];
+  if (target.projectId) stack.push(navigationEntry(Screen.ProjectView, { projectId: target.projectId }));
+  if (target.kind === 'feature') return [...stack, navigationEntry(Screen.FeatureView, { featureId: target.id })];
+  if (target.featureId) stack.push(navigationEntry(Screen.FeatureView, { featureId: target.featureId }));
+  return [...stack, navigationEntry(Screen.TaskDetail, { taskId: target.id })];
+}
+
+/**
+ * Resolve `tasks open <id>`: a full project, feature or task ID, or a prefix
+ * of one (as shown by truncateId) that matches a single entity
+ */
+export async function resolveDeepLink(adapter: DataAdapter, id: string): Promise<Result<NavigationEntry[]>> {
+  const taskResult = await adapter.getTask(id);
+  if (taskResult.success) {
+    const task = taskResult.data;
+    return { success: true, data: entityPath({ kind: 'task', id: task.id, projectId: task.projectId, featureId: task.featureId }) };
+  }
+  const featureResult = await adapter.getFeature(id);
+  if (featureResult.success) {
+    const feature = featureResult.data;
+    return { success: true, data: entityPath({ kind: 'feature', id: feature.id, projectId: feature.projectId }) };
+  }
+  const projectResult = await adapter.getProject(id);
+  if (projectResult.success) {
+    return { success: true, data: entityPath({ kind: 'project', id: projectResult.data.id }) };
+  }
+
+  const [projects, features, tasks] = await Promise.all([
+    adapter.getProjects({ limit: DEEP_LINK_SCAN_LIMIT }),
+    adapter.getFeatures({ limit: DEEP_LINK_SCAN_LIMIT }),
+    adapter.getTasks({ limit: DEEP_LINK_SCAN_LIMIT }),
+  ]);
+  if (!projects.success) return projects;
+  if (!features.success) return features;
+  if (!tasks.success) return tasks;
+
+  const prefix = id.toLowerCase();
+  const matches = goToItems(projects.data, features.data, tasks.data).filter((item) =>
+    item.id.toLowerCase().startsWith(prefix)
+  );
+  const [match] = matches;
+  if (!match) {
+    return { success: false, error: `No project, feature or task with id ${id}`, code: 'NOT_FOUND' };
+  }
+  if (matches.length > 1) {
+    return { success: false, error: `ID prefix ${id} matches ${matches.length} items; use more characters`, code: 'VALIDATION_ERROR' };
+  }
+  return { success: true, data: entityPath(match) };
+}
@@ -0,0 +1,233 @@
+/**
+ * Search query language
+ *
+ *   status:ACTIVE priority:HIGH tag:api project:"Billing" blocked:yes complexity:>5 "free text"
+ *
+ * Filters are `key:value` pairs; values may be quoted and status/priority/tag
+ * take comma lists (`!` negates, as in the repo filters). Everything else is
+ * free text, matched as one phrase against the search index.
+ */
+
+import type { FeatureSearchParams, TaskSearchParams } from '../adapters/types';
+
+export type SearchEntityType = 'project' | 'feature' | 'task';
+
+export interface SearchQuery {
+  /** Free text, words and quoted phrases joined by single spaces */
+  text: string;
+  /** Free-text words, for highlighting matches */
+  terms: string[];
+  status?: string;
+  priority?: string;
+  tags: string[];
+  /** Project name, resolved to an id by the adapter */
+  project?: string;
+  blocked?: boolean;
+  minComplexity?: number;
+  maxComplexity?: number;
+  /** Entity types to return; empty means every type the filters allow */
+  types: SearchEntityType[];
+  /** Filters that could not be understood, as messages */
+  errors: string[];
+}
+
+const PRIORITIES = ['HIGH', 'MEDIUM', 'LOW'];
+const ENTITY_TYPES: SearchEntityType[] = ['project', 'feature', 'task'];
+const YES = ['yes', 'y', 'true', '1'];
+const NO = ['no', 'n', 'false', '0'];
+
+/** Filter keys and their aliases */
+const KEYS: Record<string, string> = {
+  status: 'status',
+  is: 'type',
+  type: 'type',
+  priority: 'priority',
+  tag: 'tag',
+  tags: 'tag',
+  project: 'project',
+  blocked: 'blocked',
+  complexity: 'complexity',
+};
+
+/**
+ * Split a query into tokens, keeping quoted values together: `project:"a b"`
+ * is one token, `"a b"` another
+ */
+function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /(\S*?)"([^"]*)"?|\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push(match[2] !== undefined ? `${match[1] ?? ''}${match[2]}` : match[0]);
+  }
+  return tokens;
+}
+
+function parseComplexity(value: string, query: SearchQuery): void {
+  const range = /^(\d+)\.\.(\d+)$/.exec(value);
+  if (range) {
+    query.minComplexity = Number(range[1]);
+    query.maxComplexity = Number(range[2]);
+    return;
+  }
+  const compare = /^(>=|<=|>|<|=)?(\d+)$/.exec(value);
+  if (!compare) {
+    query.errors.push(`complexity must be a number, a comparison like >5 or a range like 3..7`);
+    return;
+  }
+  const number = Number(compare[2]);
+  switch (compare[1]) {
+    case '>':
+      query.minComplexity = number + 1;
+      break;
+    case '>=':
+      query.minComplexity = number;
+      break;
+    case '<':
+      query.maxComplexity = number - 1;
+      break;
+    case '<=':
+      query.maxComplexity = number;
+      break;
+    default:
+      query.minComplexity = number;
+      query.maxComplexity = number;
+  }
+}
+
+function applyFilter(key: string, value: string, query: SearchQuery): void {
+  switch (key) {
+    case 'status':
+      query.status = value.toUpperCase();
+      break;
+    case 'priority': {
+      const priorities = value.toUpperCase().split(',');
+      if (priorities.some((priority) => !PRIORITIES.includes(priority.replace(/^!/, '')))) {
+        query.errors.push(`priority must be ${PRIORITIES.join(', ')}`);
+        break;
+      }
+      query.priority = priorities.join(',');
+      break;
+    }
+    case 'tag':
+      query.tags.push(...value.toLowerCase().split(',').filter(Boolean));
+      break;
+    case 'project':
+      query.project = value;
+      break;
+    case 'blocked':
+      if (YES.includes(value.toLowerCase())) query.blocked = true;
+      else if (NO.includes(value.toLowerCase())) query.blocked = false;
+      else query.errors.push('blocked must be yes or no');
+      break;
+    case 'complexity':
+      parseComplexity(value, query);
+      break;
+    case 'type': {
+      const type = value.toLowerCase().replace(/s$/, '') as SearchEntityType;
+      if (ENTITY_TYPES.includes(type)) query.types.push(type);
+      else query.errors.push(`type must be ${ENTITY_TYPES.join(', ')}`);
+      break;
+    }
+  }
+}
+
+/**
+ * Parse a search query. Unknown keys (`http://…`, `a:b`) stay free text; a
+ * filter with an empty value is ignored so half-typed queries still search.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { text: '', terms: [], tags: [], types: [], errors: [] };
+  const words: string[] = [];
+
+  for (const token of tokenize(input)) {
+    const separator = token.indexOf(':');
+    const key = separator > 0 ? KEYS[token.slice(0, separator).toLowerCase()] : undefined;
+    if (!key) {
+      words.push(token);
+      continue;
+    }
+    const value = token.slice(separator + 1).trim();
+    if (value) applyFilter(key, value, query);
+  }
+
+  query.text = words.join(' ').trim();
+  query.terms = [...new Set(words.flatMap((word) => word.toLowerCase().split(/\s+/)).filter(Boolean))];
+  return query;
+}
+
+/**
+ * True when the query has neither free text nor filters
+ */
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+  return (
+    !query.text &&
+    !query.status &&
+    !query.priority &&
+    query.tags.length === 0 &&
+    !query.project &&
+    query.blocked === undefined &&
+    query.minComplexity === undefined &&
+    query.maxComplexity === undefined &&
+    query.types.length === 0
+  );
+}
+
+/**
+ * Entity types the query can match: projects have no status, priority or
+ * blockers, and only tasks have a complexity
+ */
+export function searchEntityTypes(query: SearchQuery): SearchEntityType[] {
+  const allowed = query.types.length > 0 ? query.types : ENTITY_TYPES;
+  const taskOnly = query.minComplexity !== undefined || query.maxComplexity !== undefined;
+  const notProject = taskOnly || !!query.status || !!query.priority || !!query.project || query.blocked !== undefined;
+  return allowed.filter((type) => (type === 'task' ? true : type === 'feature' ? !taskOnly : !notProject));
+}
+
+/**
+ * Feature filters for a parsed query; `projectId` is the resolved `project:` filter
+ */
+export function toFeatureSearchParams(query: SearchQuery, projectId?: string): FeatureSearchParams {
+  return {
+    query: query.text || undefined,
+    status: query.status,
+    priority: query.priority as FeatureSearchParams['priority'],
+    tags: query.tags.length > 0 ? query.tags : undefined,
+    projectId,
+    blocked: query.blocked,
+  };
+}
+
+/**
+ * Task filters for a parsed query; `projectId` is the resolved `project:` filter
+ */
+export function toTaskSearchParams(query: SearchQuery, projectId?: string): TaskSearchParams {
+  return {
+    ...toFeatureSearchParams(query, projectId),
+    minComplexity: query.minComplexity,
+    maxComplexity: query.maxComplexity,
+  };
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into runs that do and do not match any of the terms
+ * (case-insensitive, longest term first)
+ */
+export function highlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  const escaped = [...terms]
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (escaped.length === 0 || !text) return [{ text, match: false }];
+
+  // split() with a capturing group puts the matches at odd positions
+  const parts = text.split(new RegExp(`(${escaped.join('|')})`, 'gi'));
+  return parts
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((segment) => segment.text.length > 0);
+}
@@ -0,0 +1,163 @@
+/**
+ * Session state saved between runs: the navigation stack and each project's
+ * remembered views, as JSON under the XDG state directory
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { DataAdapter, Result } from '../adapters/types';
+import { Screen, type NavigationEntry, type NavigationState, type ViewState } from './types';
+
+/** Bumped when the saved shape changes; files from other versions are ignored */
+export const SESSION_VERSION = 1;
+
+export interface SessionState {
+  version: number;
+  stack: NavigationEntry[];
+  projectViews: Record<string, ViewState>;
+}
+
+/** Screens not worth restoring: Help shows a snapshot of another screen's commands */
+const TRANSIENT_SCREENS: ReadonlySet<Screen> = new Set([Screen.Help]);
+
+const SCREENS: ReadonlySet<string> = new Set(Object.values(Screen));
+
+/**
+ * `$XDG_STATE_HOME/task-orchestrator-tui/session.json`, falling back to
+ * `~/.local/state`
+ */
+export function sessionStatePath(env: Record<string, string | undefined> = process.env): string {
+  const stateHome = env.XDG_STATE_HOME?.trim() || join(homedir(), '.local', 'state');
+  return join(stateHome, 'task-orchestrator-tui', 'session.json');
+}
+
+export function sessionFromNavigation(state: NavigationState): SessionState {
+  return {
+    version: SESSION_VERSION,
+    stack: state.stack.filter((entry) => !TRANSIENT_SCREENS.has(entry.screen)),
+    projectViews: state.projectViews,
+  };
+}
+
+// View state holds Sets (expanded rows, status filters), which JSON drops
+function encodeValue(_key: string, value: unknown): unknown {
+  return value instanceof Set ? { $set: [...value] } : value;
+}
+
+function decodeValue(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && '$set' in value && Array.isArray(value.$set)) {
+    return new Set(value.$set);
+  }
+  return value;
+}
+
+export function serializeSession(session: SessionState): string {
+  return JSON.stringify(session, encodeValue, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEntry(value: unknown): value is NavigationEntry {
+  return (
+    isRecord(value) &&
+    typeof value.screen === 'string' &&
+    SCREENS.has(value.screen) &&
+    isRecord(value.params) &&
+    isRecord(value.viewState)
+  );
+}
+
+/**
+ * Parse a saved session; null for malformed files or other versions
+ */
+export function parseSession(text: string): SessionState | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text, decodeValue);
+  } catch {
+    return null;
+  }
+  if (!isRecord(parsed) || parsed.version !== SESSION_VERSION || !Array.isArray(parsed.stack)) return null;
+  const projectViews = isRecord(parsed.projectViews) ? parsed.projectViews : {};
+  return {
+    version: SESSION_VERSION,
+    stack: parsed.stack.filter(isEntry),
+    projectViews: Object.fromEntries(
+      Object.entries(projectViews).filter((entry): entry is [string, ViewState] => isRecord(entry[1]))
+    ),
+  };
+}
+
+/**
+ * Read the saved session; a missing, unreadable or outdated file gives null
+ */
+export async function loadSession(path: string = sessionStatePath()): Promise<SessionState | null> {
+  try {
+    return parseSession(await readFile(path, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the session through a temporary file, so an interrupted save never
+ * leaves a half-written one. Returns the path written.
+ */
+export async function saveSession(session: SessionState, path: string = sessionStatePath()): Promise<Result<string>> {
+  const temporary = `${path}.tmp`;
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(temporary, serializeSession(session), 'utf8');
+    await rename(temporary, path);
+    return { success: true, data: path };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Cannot write ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      code: 'IO_ERROR',
+    };
+  }
+}
+
+/**
+ * Drop stack entries and remembered project views whose project, feature or
+ * task no longer exists (deleted, or a different database)
+ */
+export async function pruneSession(adapter: DataAdapter, session: SessionState): Promise<SessionState> {
+  const checks = new Map<string, Promise<boolean>>();
+  const exists = (kind: 'project' | 'feature' | 'task', id: string): Promise<boolean> => {
+    const key = `${kind}:${id}`;
+    let check = checks.get(key);
+    if (!check) {
+      const lookup =
+        kind === 'project' ? adapter.getProject(id) : kind === 'feature' ? adapter.getFeature(id) : adapter.getTask(id);
+      check = lookup.then((result) => result.success);
+      checks.set(key, check);
+    }
+    return check;
+  };
+
+  const entryExists = async (entry: NavigationEntry): Promise<boolean> => {
+    const params: Record<string, unknown> = entry.params;
+    const lookups: Promise<boolean>[] = [];
+    if (typeof params.projectId === 'string') lookups.push(exists('project', params.projectId));
+    if (typeof params.featureId === 'string') lookups.push(exists('feature', params.featureId));
+    if (typeof params.taskId === 'string') lookups.push(exists('task', params.taskId));
+    return (await Promise.all(lookups)).every(Boolean);
+  };
+
+  const kept = await Promise.all(session.stack.map(entryExists));
+  const projectViews = Object.entries(session.projectViews);
+  const viewsKept = await Promise.all(
+    projectViews.map(([key]) => exists('project', key.slice(key.indexOf(':') + 1)))
+  );
+
+  return {
+    ...session,
+    stack: session.stack.filter((_, index) => kept[index]),
+    projectViews: Object.fromEntries(projectViews.filter((_, index) => viewsKept[index])),
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Tag helpers shared by forms, filters and the Tags screen
+ *
+ * Tags are stored lowercase. Forms edit them as one comma-separated string;
+ * the last comma-separated token is the one being completed.
+ */
+
+import type { Feature, Task } from '@allpepper/task-orchestrator';
+
+/**
+ * "ui, #Backend; api" -> ['ui', 'backend', 'api']
+ */
+export function parseTags(value: string | undefined): string[] {
+  const tags = (value ?? '')
+    .split(/[;,]/)
+    .map((tag) => tag.trim().replace(/^#/, '').toLowerCase())
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+/**
+ * Tags as a form value, the inverse of parseTags
+ */
+export function formatTags(tags: string[] | undefined): string {
+  return (tags ?? []).join(', ');
+}
+
+/**
+ * Known tags that complete the token being typed, excluding tags already entered
+ */
+export function tagCompletions(value: string, known: string[], limit = 5): string[] {
+  const parts = value.split(',');
+  const token = (parts[parts.length - 1] ?? '').trim().replace(/^#/, '').toLowerCase();
+  if (!token) return [];
+  const entered = new Set(parseTags(parts.slice(0, -1).join(',')));
+  return known.filter((tag) => tag.startsWith(token) && tag !== token && !entered.has(tag)).slice(0, limit);
+}
+
+/**
+ * Replace the token being typed with `tag` and start the next one
+ */
+export function completeTag(value: string, tag: string): string {
+  const parts = value.split(',');
+  const head = parts.slice(0, -1).map((part) => part.trim()).filter(Boolean);
+  return [...head, tag].join(', ') + ', ';
+}
+
+/**
+ * True when no filter is set or the tags include one of the filter tags
+ */
+export function matchesTags(tags: string[] | undefined, filter: ReadonlySet<string>): boolean {
+  if (filter.size === 0) return true;
+  return (tags ?? []).some((tag) => filter.has(tag));
+}
+
+/**
+ * Narrow features and their tasks to a tag filter. A task matches through its
+ * own tags or its feature's; a feature stays while it or one of its tasks
+ * matches.
+ */
+export function filterFeaturesByTags<F extends Feature & { tasks: Task[] }>(
+  features: F[],
+  filter: ReadonlySet<string>
+): F[] {
+  if (filter.size === 0) return features;
+  return features.flatMap((feature) => {
+    const featureMatches = matchesTags(feature.tags, filter);
+    const tasks = featureMatches ? feature.tasks : feature.tasks.filter((task) => matchesTags(task.tags, filter));
+    return featureMatches || tasks.length > 0 ? [{ ...feature, tasks }] : [];
+  });
+}
+
+/**
+ * Every tag used by the given features and their tasks, sorted
+ */
+export function collectTags(features: Array<Feature & { tasks: Task[] }>): string[] {
+  const tags = new Set<string>();
+  for (const feature of features) {
+    for (const tag of feature.tags ?? []) tags.add(tag);
+    for (const task of feature.tasks) for (const tag of task.tags ?? []) tags.add(tag);
+  }
+  return [...tags].sort();
+}
@@ -0,0 +1,62 @@
+/**
+ * Task board moves - dragging a task across several columns
+ *
+ * The pipeline only moves a task one state at a time, so a move to a column
+ * further away becomes a run of advances or reverts. The task pipeline is
+ * configurable (TO_BE_TESTED and READY_TO_PROD are optional), so a move is
+ * planned against the configured states first and refused as a whole when
+ * the pipeline would refuse any step, instead of stopping half-way.
+ */
+
+import type { Task } from '@allpepper/task-orchestrator';
+import type { DataAdapter, Result } from '../adapters/types';
+import { formatStatus } from './format';
+
+/** Exit state, reachable from any state that is not final */
+export const EXIT_STATUS = 'WILL_NOT_IMPLEMENT';
+
+export type TaskMove = { kind: 'advance' | 'revert'; steps: number } | { kind: 'terminate' };
+
+/**
+ * The configured task pipeline in order, e.g. NEW → ACTIVE → CLOSED, found by
+ * following each state's forward transition from NEW
+ */
+export async function loadTaskPipeline(adapter: DataAdapter): Promise<Result<string[]>> {
+  const states = ['NEW'];
+  while (true) {
+    const allowed = await adapter.getAllowedTransitions('task', states[states.length - 1] ?? 'NEW');
+    if (!allowed.success) return allowed;
+    // Transitions are [next, previous, exit]; the previous state is already listed
+    const next = allowed.data.find((candidate) => candidate !== EXIT_STATUS && !states.includes(candidate));
+    if (!next) return { success: true, data: states };
+    states.push(next);
+  }
+}
+
+/**
+ * Steps that take a task to the target status, or why the pipeline forbids it
+ */
+export function planTaskMove(
+  task: Pick<Task, 'status' | 'blockedBy'>,
+  target: string,
+  pipeline: string[]
+): Result<TaskMove> {
+  const refuse = (error: string, code = 'INVALID_OPERATION'): Result<TaskMove> => ({ success: false, error, code });
+
+  if (task.status === target) return refuse(`Already ${formatStatus(target)}`, 'VALIDATION_ERROR');
+  if (task.status === EXIT_STATUS || task.status === pipeline.at(-1)) {
+    return refuse(`${formatStatus(task.status)} is final; the task cannot move`);
+  }
+  if (target === EXIT_STATUS) return { success: true, data: { kind: 'terminate' } };
+
+  const from = pipeline.indexOf(task.status);
+  const to = pipeline.indexOf(target);
+  if (to === -1) return refuse(`${formatStatus(target)} is not in the task pipeline (${pipeline.map(formatStatus).join(' → ')})`);
+  if (from === -1) return refuse(`${formatStatus(task.status)} is not in the task pipeline`);
+
+  if (to > from && task.blockedBy.length > 0) {
+    const count = task.blockedBy.length;
+    return refuse(`Blocked by ${count} task${count === 1 ? '' : 's'}; cannot advance`, 'BLOCKED');
+  }
+  return { success: true, data: { kind: to > from ? 'advance' : 'revert', steps: Math.abs(to - from) } };
+}
@@ -0,0 +1,185 @@
+/**
+ * Built-in and user themes
+ *
+ * User themes are JSON files in `$XDG_CONFIG_HOME/task-orchestrator-tui/themes/`
+ * with the full shape of `Theme`; each is checked like the config file, with
+ * every problem reported by path.
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { Priority } from '@allpepper/task-orchestrator';
+import type { Result } from '../adapters/types';
+import { ansi16Theme } from '../themes/ansi16';
+import { darkTheme } from '../themes/dark';
+import { highContrastTheme } from '../themes/high-contrast';
+import { lightTheme } from '../themes/light';
+import { noColorTheme } from '../themes/no-color';
+import type { StatusKey, Theme } from '../themes/types';
+
+export const BUILT_IN_THEMES: Theme[] = [darkTheme, lightTheme, highContrastTheme, ansi16Theme, noColorTheme];
+
+const BASE_COLORS = [
+  'background',
+  'foreground',
+  'muted',
+  'border',
+  'blocked',
+  'accent',
+  'success',
+  'warning',
+  'error',
+  'danger',
+  'info',
+  'selection',
+  'highlight',
+] as const;
+const STATUS_KEYS: StatusKey[] = ['NEW', 'ACTIVE', 'TO_BE_TESTED', 'READY_TO_PROD', 'CLOSED', 'WILL_NOT_IMPLEMENT'];
+const PRIORITY_KEYS: Priority[] = [Priority.HIGH, Priority.MEDIUM, Priority.LOW];
+
+/** Colour names Ink passes to chalk */
+const NAMED_COLORS = new Set(
+  ['black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white'].flatMap((name) => [name, `${name}Bright`]).concat(['gray', 'grey'])
+);
+
+/**
+ * A colour Ink can render: '#rgb', '#rrggbb', 'rgb(r, g, b)', 'ansi256(n)', a
+ * named ANSI colour, or '' for the terminal's default
+ */
+export function isThemeColor(value: string): boolean {
+  return (
+    value === '' ||
+    NAMED_COLORS.has(value) ||
+    /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value) ||
+    /^rgb\(\s?\d{1,3},\s?\d{1,3},\s?\d{1,3}\s?\)$/.test(value) ||
+    /^ansi256\(\s?\d{1,3}\s?\)$/.test(value)
+  );
+}
+
+/**
+ * `$XDG_CONFIG_HOME/task-orchestrator-tui/themes`, falling back to `~/.config`
+ */
+export function themesDir(env: Record<string, string | undefined> = process.env): string {
+  const configHome = env.XDG_CONFIG_HOME?.trim() || join(homedir(), '.config');
+  return join(configHome, 'task-orchestrator-tui', 'themes');
+}
+
+/**
+ * NO_COLOR convention (no-color.org): set to anything but '' disables colour
+ */
+export function isColorDisabled(env: Record<string, string | undefined> = process.env): boolean {
+  return !!env.NO_COLOR;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function colorGroup(value: unknown, path: string, keys: readonly string[], errors: string[]): Record<string, string> {
+  if (!isRecord(value)) {
+    errors.push(`${path}: expected an object with ${keys.join(', ')}`);
+    return {};
+  }
+  const colors: Record<string, string> = {};
+  for (const key of keys) {
+    const color = value[key];
+    if (color === undefined) {
+      errors.push(`${path}.${key}: missing`);
+    } else if (typeof color !== 'string' || !isThemeColor(color)) {
+      errors.push(`${path}.${key}: expected a colour like "#4da6ff", "cyan" or "ansi256(39)", got ${JSON.stringify(color)}`);
+    } else {
+      colors[key] = color;
+    }
+  }
+  return colors;
+}
+
+/**
+ * Check a parsed theme file against the Theme interface
+ */
+export function validateTheme(value: unknown): Result<Theme> {
+  if (!isRecord(value)) {
+    return { success: false, error: 'expected a theme object', code: 'VALIDATION_ERROR' };
+  }
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!['name', 'monochrome', 'colors'].includes(key)) errors.push(`${key}: unknown setting`);
+  }
+  if (typeof value.name !== 'string' || value.name.trim() === '') errors.push('name: expected a non-empty string');
+  if (value.monochrome !== undefined && typeof value.monochrome !== 'boolean') errors.push('monochrome: expected true or false');
+
+  const colors = isRecord(value.colors) ? value.colors : undefined;
+  if (!colors) errors.push('colors: expected an object');
+  const known = new Set<string>([...BASE_COLORS, 'status', 'priority']);
+  for (const key of Object.keys(colors ?? {})) {
+    if (!known.has(key)) errors.push(`colors.${key}: unknown colour`);
+  }
+  const base = colors ? colorGroup(colors, 'colors', BASE_COLORS, errors) : {};
+  const status = colors ? colorGroup(colors.status, 'colors.status', STATUS_KEYS, errors) : {};
+  const priority = colors ? colorGroup(colors.priority, 'colors.priority', PRIORITY_KEYS, errors) : {};
+
+  if (errors.length > 0) return { success: false, error: errors.join('\n'), code: 'VALIDATION_ERROR' };
+  return {
+    success: true,
+    data: {
+      name: (value.name as string).trim(),
+      ...(value.monochrome === true ? { monochrome: true } : {}),
+      colors: {
+        ...(base as Record<(typeof BASE_COLORS)[number], string>),
+        status: status as Record<StatusKey, string>,
+        priority: priority as Record<Priority, string>,
+      },
+    },
+  };
+}
+
+/**
+ * Read every `*.json` theme in the directory (none if it does not exist).
+ * Fails listing each invalid file, or names that clash with another theme.
+ */
+export async function loadUserThemes(dir: string = themesDir()): Promise<Result<Theme[]>> {
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((file) => file.endsWith('.json')).sort();
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') return { success: true, data: [] };
+    return {
+      success: false,
+      error: `Cannot read ${dir}: ${error instanceof Error ? error.message : String(error)}`,
+      code: 'IO_ERROR',
+    };
+  }
+
+  const themes: Theme[] = [];
+  const problems: string[] = [];
+  const names = new Set(BUILT_IN_THEMES.map((theme) => theme.name));
+  for (const file of files) {
+    const path = join(dir, file);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await readFile(path, 'utf8'));
+    } catch (error) {
+      problems.push(`${path}:\n  ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    const result = validateTheme(parsed);
+    if (!result.success) {
+      problems.push(`${path}:\n${result.error.replace(/^/gm, '  ')}`);
+    } else if (names.has(result.data.name)) {
+      problems.push(`${path}:\n  name: "${result.data.name}" is already taken by another theme`);
+    } else {
+      names.add(result.data.name);
+      themes.push(result.data);
+    }
+  }
+
+  if (problems.length > 0) {
+    return { success: false, error: `Invalid theme file ${problems.join('\nInvalid theme file ')}`, code: 'VALIDATION_ERROR' };
+  }
+  return { success: true, data: themes };
+}
+
+export function findTheme(themes: Theme[], name: string): Theme | undefined {
+  return themes.find((theme) => theme.name === name);
+}
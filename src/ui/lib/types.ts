@@ -6,9 +6,15 @@ import type { Task, Feature, Priority } from '@allpepper/task-orchestrator';
 export enum Screen {
   Dashboard = 'dashboard',
   ProjectView = 'project-view',
+  ProjectDetail = 'project-detail',
   FeatureView = 'feature-view',
   TaskDetail = 'task-detail',
+  Kanban = 'kanban',
+  DependencyGraph = 'dependency-graph',
+  Metrics = 'metrics',
   Search = 'search',
+  Activity = 'activity',
+  Tags = 'tags',
   Help = 'help',
 }
 
@@ -18,20 +24,54 @@ export enum Screen {
 export interface ScreenParams {
   [Screen.Dashboard]: Record<string, never>;
   [Screen.ProjectView]: { projectId: string };
+  [Screen.ProjectDetail]: { projectId: string };
   [Screen.FeatureView]: { featureId: string };
   [Screen.TaskDetail]: { taskId: string };
+  [Screen.Kanban]: { projectId: string };
+  [Screen.DependencyGraph]: { projectId: string };
+  [Screen.Metrics]: { projectId: string };
   [Screen.Search]: { query?: string };
+  /** Initial project filter; none shows every project */
+  [Screen.Activity]: { projectId?: string };
+  [Screen.Tags]: Record<string, never>;
   [Screen.Help]: Record<string, never>;
 }
 
+/**
+ * Grouping of the project tree
+ */
+export type ProjectViewMode = 'features' | 'status' | 'feature-status';
+
+/**
+ * What the kanban board shows: feature cards or task cards
+ */
+export type KanbanBoardMode = 'features' | 'tasks';
+
+/**
+ * Per-entry view state (selection, expanded rows, view mode), restored when
+ * the entry is shown again
+ */
+export type ViewState = Record<string, unknown>;
+
+/**
+ * One screen on the navigation stack
+ */
+export type NavigationEntry = {
+  [S in Screen]: { screen: S; params: ScreenParams[S]; viewState: ViewState };
+}[Screen];
+
 /**
  * Navigation state with screen stack
  */
 export interface NavigationState {
-  stack: Array<{
-    screen: Screen;
-    params: Record<string, unknown>;
-  }>;
+  stack: NavigationEntry[];
+  /** Entries left with Back, most recent last, for Forward */
+  forward: NavigationEntry[];
+  /**
+   * Last view state of each project's tree, board and graph, keyed by
+   * projectViewKey, so reopening a project picks up where it was left
+   */
+  projectViews: Record<string, ViewState>;
 }
 
 /**
@@ -95,6 +135,8 @@ export interface SearchResults {
   projects: Array<{ id: string; name: string; summary: string }>;
   features: Array<{ id: string; name: string; summary: string; projectId?: string }>;
   tasks: Array<{ id: string; title: string; summary: string; projectId?: string; featureId?: string }>;
+  /** More results exist past the requested page */
+  hasMore: boolean;
 }
 
 /**
@@ -103,6 +145,7 @@ export interface SearchResults {
 export interface DependencyInfo {
   blockedBy: Task[];
   blocks: Task[];
+  relatedTo: Task[];
 }
 
 /**
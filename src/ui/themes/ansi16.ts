@@ -0,0 +1,49 @@
+import type { Theme } from './types';
+import { Priority } from '@allpepper/task-orchestrator';
+
+/**
+ * Named ANSI colours only, so the terminal's own 16-colour palette applies
+ * (for terminals without true colour, or to match the terminal's scheme)
+ */
+export const ansi16Theme: Theme = {
+  name: 'ansi16',
+  colors: {
+    // Base colors
+    background: 'black',
+    foreground: 'white',
+    muted: 'gray',
+    border: 'gray',
+
+    // Status colors (v2 pipeline states)
+    status: {
+      NEW: 'white',
+      ACTIVE: 'blue',
+      TO_BE_TESTED: 'cyan',
+      READY_TO_PROD: 'magenta',
+      CLOSED: 'green',
+      WILL_NOT_IMPLEMENT: 'gray',
+    },
+
+    // Blocked overlay color
+    blocked: 'red',
+
+    // Priority colors
+    priority: {
+      [Priority.HIGH]: 'red',
+      [Priority.MEDIUM]: 'yellow',
+      [Priority.LOW]: 'green',
+    },
+
+    // Semantic colors
+    accent: 'cyan',
+    success: 'green',
+    warning: 'yellow',
+    error: 'red',
+    danger: 'redBright',
+    info: 'cyan',
+
+    // Interactive colors
+    selection: 'blue',
+    highlight: 'yellowBright',
+  },
+};
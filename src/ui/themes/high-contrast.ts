@@ -0,0 +1,45 @@
+import type { Theme } from './types';
+import { Priority } from '@allpepper/task-orchestrator';
+
+export const highContrastTheme: Theme = {
+  name: 'high-contrast',
+  colors: {
+    // Base colors: pure black and white, no mid greys for text
+    background: '#000000',
+    foreground: '#ffffff',
+    muted: '#d0d0d0',
+    border: '#ffffff',
+
+    // Status colors (v2 pipeline states)
+    status: {
+      NEW: '#ffffff',
+      ACTIVE: '#00ffff',
+      TO_BE_TESTED: '#ff00ff',
+      READY_TO_PROD: '#ffff00',
+      CLOSED: '#00ff00',
+      WILL_NOT_IMPLEMENT: '#d0d0d0',
+    },
+
+    // Blocked overlay color
+    blocked: '#ff0000',
+
+    // Priority colors
+    priority: {
+      [Priority.HIGH]: '#ff0000',
+      [Priority.MEDIUM]: '#ffff00',
+      [Priority.LOW]: '#00ff00',
+    },
+
+    // Semantic colors
+    accent: '#00ffff',
+    success: '#00ff00',
+    warning: '#ffff00',
+    error: '#ff0000',
+    danger: '#ff0000',
+    info: '#00ffff',
+
+    // Interactive colors
+    selection: '#0000ff',
+    highlight: '#ffff00',
+  },
+};
@@ -0,0 +1,39 @@
+import type { Theme } from './types';
+import { Priority } from '@allpepper/task-orchestrator';
+
+/**
+ * Used when NO_COLOR is set: every colour is empty, which Ink renders in the
+ * terminal's default colour
+ */
+export const noColorTheme: Theme = {
+  name: 'no-color',
+  monochrome: true,
+  colors: {
+    background: '',
+    foreground: '',
+    muted: '',
+    border: '',
+    status: {
+      NEW: '',
+      ACTIVE: '',
+      TO_BE_TESTED: '',
+      READY_TO_PROD: '',
+      CLOSED: '',
+      WILL_NOT_IMPLEMENT: '',
+    },
+    blocked: '',
+    priority: {
+      [Priority.HIGH]: '',
+      [Priority.MEDIUM]: '',
+      [Priority.LOW]: '',
+    },
+    accent: '',
+    success: '',
+    warning: '',
+    error: '',
+    danger: '',
+    info: '',
+    selection: '',
+    highlight: '',
+  },
+};
@@ -19,7 +19,13 @@ export type StatusKey =
  * Supports both TUI (terminal) and web renderers
  */
 export interface Theme {
-  name: 'dark' | 'light';
+  /** Built-in ('dark', 'light', 'high-contrast', 'ansi16', 'no-color') or a user theme's name */
+  name: string;
+  /**
+   * No colours at all (NO_COLOR); components mark what colour would show
+   * with symbols, bold and underline instead
+   */
+  monochrome?: boolean;
   colors: {
     // Base colors
     background: string;